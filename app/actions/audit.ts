@@ -3,6 +3,7 @@
 import { getAuditLogs as getLogs } from "@/lib/audit"
 import { logger } from "@/lib/logger"
 import { auth } from "@/lib/auth"
+import { isTwoFactorBlocking } from "@/lib/two-factor"
 
 export async function getAuditLogs(params: {
     userId?: string
@@ -13,7 +14,7 @@ export async function getAuditLogs(params: {
 }) {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
         return { error: "Unauthorized" }
     }
 
@@ -1,8 +1,15 @@
 'use server'
 
+import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db'
 import { hashPassword, comparePassword } from '@/lib/password'
 import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { sendPasswordResetEmail, sendVerificationEmail } from '@/lib/email'
+import { createEmailVerificationToken, hashEmailVerificationToken } from '@/lib/email-verification'
+import { createPasswordResetToken, getPasswordResetDelay, hashPasswordResetToken } from '@/lib/password-reset'
+import { validatePassword } from '@/lib/validation'
+import { OAUTH_PROVIDER_NAMES } from '@/lib/oauth'
 import { signUpSchema, signInSchema, type SignUpInput } from '@/lib/validations'
 import { authRateLimit, strictRateLimit, checkRateLimit } from '@/lib/rate-limit'
 import {
@@ -74,6 +81,12 @@ export async function signUp(
 
     logger.info('User registered successfully', { userId: user.id, email: user.email })
 
+    // The account works without it; an unverified address can be resent from the profile
+    const verificationResult = await sendEmailVerification(user)
+    if (!verificationResult.success) {
+      logger.error('Failed to send verification email', new Error(verificationResult.error || 'Unknown error'))
+    }
+
     return createSuccessResponse(user, 'Account created successfully')
   } catch (error) {
     return handleServerError('signUp', error)
@@ -167,7 +180,11 @@ export async function signInAction(
 }
 
 /**
- * Reset password (Mock implementation)
+ * Request a password reset link
+ *
+ * Emails a single-use link to the account, replacing any earlier unused
+ * link. The response is the same whether or not an account exists, so it
+ * can't be used to find out who has one.
  * @param email - User email
  * @returns Success status
  */
@@ -184,17 +201,48 @@ export async function resetPassword(email: string) {
       }
     }
 
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000))
+    const startedAt = Date.now()
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true, blocked: true, deleted: true },
+    })
 
-    // TODO: Integrate Resend here
-    // See TODO_RESEND_MIGRATION.md
+    if (user && !user.blocked && !user.deleted) {
+      const { token, tokenHash, expiresAt } = createPasswordResetToken()
 
-    logger.info('Password reset requested', { email })
+      await prisma.$transaction([
+        prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } }),
+        prisma.passwordResetToken.create({ data: { userId: user.id, tokenHash, expiresAt } }),
+      ])
+
+      // Sent without waiting, and failures aren't reported back, so neither
+      // the response nor its timing reveals that the account exists
+      void sendPasswordResetEmail({
+        to: user.email,
+        name: user.name || 'there',
+        resetToken: token,
+      }).then(
+        (emailResult) => {
+          if (emailResult.success) {
+            logger.info('Password reset link sent', { userId: user.id })
+          } else {
+            logger.error('Failed to send password reset email', new Error(emailResult.error || 'Unknown error'))
+          }
+        },
+        (error) => {
+          logger.error('Failed to send password reset email', error instanceof Error ? error : new Error(String(error)))
+        }
+      )
+    } else {
+      logger.info('Password reset requested for unknown or inactive account', { email })
+    }
+
+    // Answer after the same delay either way
+    await new Promise(resolve => setTimeout(resolve, getPasswordResetDelay(startedAt)))
 
     return {
       success: true,
-      message: 'Reset link sent successfully',
+      message: 'If an account exists for this email, a reset link has been sent',
     }
   } catch (error) {
     logger.serverActionError('resetPassword', error)
@@ -204,3 +252,338 @@ export async function resetPassword(email: string) {
     }
   }
 }
+
+/**
+ * Find the reset token a link holds, if it can still be used
+ */
+async function findUsablePasswordResetToken(token: string) {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashPasswordResetToken(token) },
+    include: { user: { select: { blocked: true, deleted: true } } },
+  })
+
+  if (!resetToken) {
+    return { error: 'This reset link is invalid. Please request a new one.' }
+  }
+  if (resetToken.usedAt) {
+    return { error: 'This reset link has already been used. Please request a new one.' }
+  }
+  if (resetToken.expiresAt < new Date()) {
+    return { error: 'This reset link has expired. Please request a new one.' }
+  }
+  if (resetToken.user.blocked || resetToken.user.deleted) {
+    return { error: 'This account cannot be reset. Please contact support.' }
+  }
+
+  return { resetToken }
+}
+
+/**
+ * Check a password reset link before asking for a new password
+ * @param token - Token from the reset link
+ */
+export async function checkPasswordResetToken(token: string) {
+  try {
+    const { error } = await findUsablePasswordResetToken(token)
+    return error ? { success: false, error } : { success: true }
+  } catch (error) {
+    logger.serverActionError('checkPasswordResetToken', error)
+    return {
+      success: false,
+      error: 'Failed to check reset link',
+    }
+  }
+}
+
+/**
+ * Set a new password from a reset link
+ *
+ * Uses up the link and signs the user out everywhere: existing sessions
+ * end the next time they are checked (see lib/auth.ts).
+ * @param token - Token from the reset link
+ * @param password - New password, checked against the password policy
+ */
+export async function completePasswordReset(token: string, password: string) {
+  try {
+    const passwordError = validatePassword(password)
+    if (passwordError) {
+      return { success: false, error: passwordError }
+    }
+
+    const { resetToken, error } = await findUsablePasswordResetToken(token)
+    if (!resetToken) {
+      return { success: false, error }
+    }
+
+    const hashedPassword = await hashPassword(password)
+
+    const used = await prisma.$transaction(async tx => {
+      // Claim the token so two requests with the same link can't both succeed
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      })
+      if (count === 0) return false
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword, sessionVersion: { increment: 1 } },
+      })
+      await tx.userSession.updateMany({
+        where: { userId: resetToken.userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      })
+      await tx.passwordResetToken.deleteMany({
+        where: { userId: resetToken.userId, usedAt: null },
+      })
+      return true
+    })
+
+    if (!used) {
+      return { success: false, error: 'This reset link has already been used. Please request a new one.' }
+    }
+
+    await logAudit({
+      userId: resetToken.userId,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: resetToken.userId,
+      changes: { passwordReset: true, sessionsRevoked: true },
+    })
+
+    logger.info('Password reset completed', { userId: resetToken.userId })
+
+    return {
+      success: true,
+      message: 'Your password has been reset. Please sign in with your new password.',
+    }
+  } catch (error) {
+    logger.serverActionError('completePasswordReset', error)
+    return {
+      success: false,
+      error: 'Failed to reset password',
+    }
+  }
+}
+
+/**
+ * Email a new verification link, replacing any earlier one
+ */
+async function sendEmailVerification(user: { id: string; email: string; name: string | null }) {
+  const { token, tokenHash, expiresAt } = createEmailVerificationToken()
+
+  await prisma.$transaction([
+    prisma.emailVerificationToken.deleteMany({ where: { userId: user.id } }),
+    prisma.emailVerificationToken.create({ data: { userId: user.id, tokenHash, expiresAt } }),
+  ])
+
+  return sendVerificationEmail({
+    to: user.email,
+    name: user.name || 'there',
+    verificationToken: token,
+  })
+}
+
+/**
+ * Verify an email address from the link sent at sign-up
+ * @param token - Token from the verification link
+ */
+export async function verifyEmail(token: string) {
+  try {
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashEmailVerificationToken(token) },
+      include: { user: { select: { email: true, emailVerified: true } } },
+    })
+
+    if (!verificationToken) {
+      return { success: false, error: 'This verification link is invalid or has already been used.' }
+    }
+    if (verificationToken.expiresAt < new Date()) {
+      return { success: false, error: 'This verification link has expired. Please request a new one from your profile.' }
+    }
+
+    const { userId } = verificationToken
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { emailVerified: verificationToken.user.emailVerified ?? new Date() },
+      }),
+      prisma.emailVerificationToken.deleteMany({ where: { userId } }),
+    ])
+
+    await logAudit({
+      userId,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: userId,
+      changes: { emailVerified: true, email: verificationToken.user.email },
+    })
+
+    logger.info('Email verified', { userId })
+
+    return {
+      success: true,
+      email: verificationToken.user.email,
+      message: 'Your email address has been verified',
+    }
+  } catch (error) {
+    logger.serverActionError('verifyEmail', error)
+    return {
+      success: false,
+      error: 'Failed to verify email address',
+    }
+  }
+}
+
+/**
+ * Resend the verification link to the signed-in user
+ */
+export async function resendVerificationEmail() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Rate limit resends (3 per hour per user)
+    const rateLimitResult = await checkRateLimit(`verify-email:${session.user.id}`, strictRateLimit)
+
+    if (!rateLimitResult.success) {
+      logger.warn('Verification email rate limit exceeded', { userId: session.user.id })
+      return {
+        success: false,
+        error: `Too many verification emails. Please try again in ${Math.ceil((rateLimitResult.reset * 1000 - Date.now()) / 60000)} minutes.`,
+      }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, email: true, name: true, emailVerified: true },
+    })
+
+    if (!user) {
+      return { success: false, error: 'User not found' }
+    }
+    if (user.emailVerified) {
+      return { success: false, error: 'Your email address is already verified' }
+    }
+
+    const emailResult = await sendEmailVerification(user)
+    if (!emailResult.success) {
+      logger.error('Failed to send verification email', new Error(emailResult.error || 'Unknown error'))
+      return {
+        success: false,
+        error: 'Failed to send verification email',
+      }
+    }
+
+    logger.info('Verification email resent', { userId: user.id })
+
+    return {
+      success: true,
+      message: `Verification link sent to ${user.email}`,
+    }
+  } catch (error) {
+    logger.serverActionError('resendVerificationEmail', error)
+    return {
+      success: false,
+      error: 'Failed to send verification email',
+    }
+  }
+}
+
+/**
+ * List the sign-in methods of the signed-in user
+ * @returns Connected providers and whether the user has a password
+ */
+export async function getConnectedAccounts() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        password: true,
+        accounts: {
+          select: { provider: true, email: true, createdAt: true, lastUsedAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!user) {
+      return { success: false, error: 'User not found' }
+    }
+
+    return {
+      success: true,
+      hasPassword: Boolean(user.password),
+      accounts: user.accounts,
+    }
+  } catch (error) {
+    logger.serverActionError('getConnectedAccounts', error)
+    return {
+      success: false,
+      error: 'Failed to fetch connected accounts',
+    }
+  }
+}
+
+/**
+ * Disconnect a provider from the signed-in user
+ * The last way to sign in can't be disconnected; users without a password
+ * can set one with the password reset link first.
+ * @param provider - Provider ID, e.g. "google"
+ */
+export async function disconnectOAuthAccount(provider: string) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { password: true, accounts: { select: { id: true, provider: true } } },
+    })
+
+    const account = user?.accounts.find(a => a.provider === provider)
+    if (!user || !account) {
+      return { success: false, error: 'This provider is not connected' }
+    }
+
+    if (!user.password && user.accounts.length === 1) {
+      return {
+        success: false,
+        error: 'Set a password before disconnecting your only sign-in method. Use "Forgot password?" on the sign-in form to get a link.',
+      }
+    }
+
+    await prisma.account.delete({ where: { id: account.id } })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: session.user.id,
+      changes: { disconnectedProvider: provider },
+    })
+
+    logger.info('OAuth account disconnected', { userId: session.user.id, provider })
+
+    return {
+      success: true,
+      message: `${OAUTH_PROVIDER_NAMES[provider] ?? provider} disconnected`,
+    }
+  } catch (error) {
+    logger.serverActionError('disconnectOAuthAccount', error)
+    return {
+      success: false,
+      error: 'Failed to disconnect account',
+    }
+  }
+}
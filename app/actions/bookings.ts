@@ -4,26 +4,56 @@ import { prisma } from '@/lib/db'
 import { logAudit } from '@/lib/audit'
 import { logger } from '@/lib/logger'
 import { requireAdmin, requireAuth } from '@/lib/auth-utils'
-import { revalidatePath, revalidateTag } from 'next/cache'
-import { CACHE_TAGS } from '@/lib/cache'
+import { revalidatePath, revalidateTag, unstable_cache } from 'next/cache'
+import { z } from 'zod'
+import { CACHE_KEYS, CACHE_TAGS, createCacheConfig } from '@/lib/cache'
 import {
+  availabilityQuerySchema,
+  bookingLineItemSchema,
   createBookingSchema,
+  createBookingSeriesSchema,
+  seriesScopeSchema,
   updateBookingSchema,
   approveBookingSchema,
   rejectBookingSchema,
+  cancelMyBookingSchema,
+  rescheduleMyBookingSchema,
   type CreateBookingInput,
   type UpdateBookingInput,
+  type AvailabilityQueryInput,
+  type CreateBookingSeriesInput,
+  type SeriesScope,
+  type RescheduleMyBookingInput,
 } from '@/lib/validations'
 import { notifyAllAdmins, createNotification } from './notifications'
-import { checkBookingConflict, suggestAlternativeTimes, type ExistingBooking } from '@/lib/scheduling'
-import { getBufferTime, getBookingRateLimit } from './settings'
-import { startOfDay, endOfDay, format } from 'date-fns'
+import {
+  checkBookingConflict,
+  suggestAlternativeTimes,
+  getSlotGrid,
+  isBeforeChangeCutoff,
+  DEFAULT_CHANGE_CUTOFF_HOURS,
+  type AvailabilitySlot,
+  type ExistingBooking,
+} from '@/lib/scheduling'
+import { resolveBookingResources, getDefaultDuration, BOOKING_TYPES } from '@/lib/booking-resources'
+import { getOccurrences, formatRRule, type RecurrenceRule } from '@/lib/recurrence'
+import { getBufferTime, getBookingRateLimit, getBusinessHours, getBookingChangeCutoff, getRequireEmailVerification, getPricingSurcharges } from './settings'
+import { getPriceCatalog } from './pricing'
+import { getBookingCatalog } from './catalog'
+import { getCatalogRoomItems, resolveCatalogOrder, type CatalogLineItem, type CatalogOrderItem } from '@/lib/catalog'
+import { calculateQuote, getBookingPriceCodes, getItemQuantities, type BookingPriceRequest, type PriceQuote } from '@/lib/pricing'
+import { startOfDay, endOfDay, format, addMinutes, addDays, parseISO, differenceInCalendarDays } from 'date-fns'
 import {
   sendBookingConfirmationEmail,
   sendBookingApprovedEmail,
-  sendBookingRejectedEmail
+  sendBookingRejectedEmail,
+  sendWaitlistOfferEmail
 } from '@/lib/email'
+import { sendSms } from '@/lib/sms-messages'
 import { createDynamicRateLimiter, checkRateLimit } from '@/lib/rate-limit'
+import { getBookingVerificationError } from '@/lib/email-verification'
+import { Prisma, type BookingLineItemKind, type BookingType } from '@prisma/client'
+import { randomBytes } from 'crypto'
 
 /**
  * Get all bookings with optional filtering
@@ -88,96 +118,289 @@ export async function getBookings({
   }
 }
 
+type DbClient = typeof prisma | Prisma.TransactionClient
+
 /**
- * Check for booking conflicts
- * @param date - Booking date
- * @param time - Booking time (HH:MM format)
- * @param duration - Booking duration in minutes (default: 120)
- * @param excludeBookingId - Optional booking ID to exclude from conflict check (for updates)
- * @returns Conflict information with suggestions
+ * Occurrence of a series that could not be booked
  */
-export async function checkBookingConflicts(
-  date: Date,
-  time: string,
-  duration: number = 120,
-  excludeBookingId?: string
-) {
-  try {
-    // Get dynamic buffer time from settings
-    const bufferResult = await getBufferTime()
-    const bufferTimeMinutes = bufferResult.bufferTime
+interface SeriesConflict {
+  date: string // YYYY-MM-DD
+  time: string
+  message: string
+  suggestedTimes?: Date[]
+}
 
-    // Combine date and time
-    const [hours, minutes] = time.split(':').map(Number)
-    const bookingDateTime = new Date(date)
-    bookingDateTime.setHours(hours, minutes, 0, 0)
+/**
+ * How long a freed slot is held for a waitlisted customer before it moves on
+ */
+const WAITLIST_OFFER_MINUTES = 120
 
-    // Get all bookings for the same day
-    const dayStart = startOfDay(new Date(date))
-    const dayEnd = endOfDay(new Date(date))
+/**
+ * Time slot freed by a booking or held by a waitlist entry
+ */
+interface WaitlistSlot {
+  scheduledAt: Date
+  endsAt: Date
+  type: BookingType
+  resourceIds: string[]
+}
 
-    const existingBookings = await prisma.booking.findMany({
-      where: {
-        date: {
-          gte: dayStart,
-          lte: dayEnd
-        },
-        status: {
-          in: ['PENDING', 'APPROVED', 'COMPLETED']
-        }
-      },
-      select: {
-        id: true,
-        date: true,
-        time: true, // Need time to reconstruct full DateTime
-        title: true,
-        type: true
-      }
-    })
+/**
+ * Result of an edit/approve/cancel operation on a series
+ */
+interface SeriesActionResult {
+  success?: boolean
+  error?: string
+  message?: string
+  count?: number
+  conflicts?: SeriesConflict[]
+}
 
-    // Convert to ExistingBooking format
-    // IMPORTANT: Combine date + time to get the actual booking DateTime
-    // Note: Duration field doesn't exist in database, defaulting to 120 minutes
-    const formattedBookings: ExistingBooking[] = existingBookings.map(b => {
-      const bookingDateTime = new Date(b.date)
-      const [hours, minutes] = b.time.split(':').map(Number)
-      bookingDateTime.setHours(hours, minutes, 0, 0)
+/**
+ * Combine a booking date and HH:MM time into a single DateTime
+ */
+function combineDateAndTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const dateTime = new Date(date)
+  dateTime.setHours(hours, minutes, 0, 0)
+  return dateTime
+}
 
-      return {
-        id: b.id,
-        date: bookingDateTime, // Full DateTime including the actual time
-        duration: 120 // Default duration since field doesn't exist in schema
+/**
+ * Load active bookings for a day (or a range of days) in the format used by lib/scheduling
+ */
+async function loadExistingBookings(db: DbClient, date: Date, endDate: Date = date): Promise<ExistingBooking[]> {
+  const existingBookings = await db.booking.findMany({
+    where: {
+      date: {
+        gte: startOfDay(new Date(date)),
+        lte: endOfDay(new Date(endDate))
+      },
+      status: {
+        in: ['PENDING', 'APPROVED', 'COMPLETED']
       }
-    })
+    },
+    select: {
+      id: true,
+      date: true,
+      time: true, // Need time to reconstruct full DateTime
+      duration: true,
+      type: true,
+      resourceIds: true
+    }
+  })
+
+  // IMPORTANT: Combine date + time to get the actual booking DateTime
+  return existingBookings.map(b => ({
+    id: b.id,
+    date: combineDateAndTime(b.date, b.time),
+    duration: b.duration,
+    resourceIds: resolveBookingResources(b.type, b.resourceIds)
+  }))
+}
 
-    // Check for conflicts with dynamic buffer time
-    const conflict = checkBookingConflict(
+/**
+ * Run the per-resource conflict check against the given database client
+ */
+async function detectBookingConflict(
+  db: DbClient,
+  {
+    date,
+    time,
+    duration,
+    resourceIds,
+    excludeBookingId,
+  }: {
+    date: Date
+    time: string
+    duration: number
+    resourceIds: string[]
+    excludeBookingId?: string
+  }
+) {
+  // Get dynamic buffer time from settings
+  const bufferResult = await getBufferTime()
+  const bufferTimeMinutes = bufferResult.bufferTime
+
+  const bookingDateTime = combineDateAndTime(date, time)
+  const formattedBookings = await loadExistingBookings(db, date)
+
+  // Check for conflicts with dynamic buffer time
+  const conflict = checkBookingConflict(
+    bookingDateTime,
+    duration,
+    formattedBookings,
+    excludeBookingId,
+    bufferTimeMinutes,
+    resourceIds
+  )
+
+  // If there's a conflict, suggest alternatives with dynamic buffer time
+  let suggestedTimes: Date[] = []
+  if (conflict.hasConflict) {
+    suggestedTimes = suggestAlternativeTimes(
       bookingDateTime,
       duration,
-      formattedBookings,
-      excludeBookingId,
-      bufferTimeMinutes // Pass dynamic buffer time
+      formattedBookings.filter(b => b.id !== excludeBookingId),
+      3, // Suggest 3 alternative times
+      bufferTimeMinutes,
+      resourceIds
     )
+  }
 
-    // If there's a conflict, suggest alternatives with dynamic buffer time
-    let suggestedTimes: Date[] = []
-    if (conflict.hasConflict) {
-      suggestedTimes = suggestAlternativeTimes(
-        bookingDateTime,
-        duration,
-        formattedBookings,
-        3, // Suggest 3 alternative times
-        bufferTimeMinutes // Pass dynamic buffer time
-      )
-    }
+  return {
+    conflict: {
+      ...conflict,
+      suggestedTimes
+    },
+    bufferTimeMinutes
+  }
+}
+
+/**
+ * Serialize concurrent bookings that compete for the same resources on the same day.
+ * Locks are released automatically when the transaction ends.
+ */
+async function lockBookingResources(tx: Prisma.TransactionClient, date: Date, resourceIds: string[]) {
+  const day = format(new Date(date), 'yyyy-MM-dd')
+
+  // Always lock in the same order to avoid deadlocks
+  for (const resourceId of [...resourceIds].sort()) {
+    const lockKey = `booking:${resourceId}:${day}`
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`
+  }
+}
+
+/**
+ * Quote a booking from what was booked (see getBookingPriceCodes)
+ * Ordered menu items are priced by the quantity ordered, not the guest count.
+ * @returns The quote, or null when nothing booked has a price
+ * @throws Error when the booking can't be priced
+ */
+async function quoteBooking(
+  booking: BookingPriceRequest & { quantities: Record<string, number>; date: Date }
+): Promise<PriceQuote | null> {
+  const [priceList, { surcharges }] = await Promise.all([getPriceCatalog(), getPricingSurcharges()])
+  if (!priceList.success) {
+    throw new Error(priceList.error)
+  }
+
+  const items = getBookingPriceCodes(booking, priceList.items)
+  if (items.length === 0) {
+    return null
+  }
+
+  return calculateQuote(
+    { items, guestCount: booking.guestCount, quantities: booking.quantities, date: booking.date },
+    priceList.items,
+    surcharges
+  )
+}
+
+/**
+ * Build a booking's line items from the catalog and quote them
+ * The order is stored with the catalog's names, plus a line for each booked
+ * room. Used for new bookings and claimed waitlist offers alike.
+ * @returns Line items and quote, or the error to show the customer
+ */
+async function priceBookingOrder(
+  booking: Omit<BookingPriceRequest, 'itemCodes'> & { orderItems: CatalogOrderItem[]; scheduledAt: Date },
+  userId: string
+): Promise<{ lineItems: CatalogLineItem[]; quote: PriceQuote | null } | { error: string }> {
+  const { success: catalogLoaded, catalog } = await getBookingCatalog()
+  if (!catalogLoaded) {
+    return { error: 'Failed to load the menu. Please try again.' }
+  }
+
+  let lineItems: CatalogLineItem[]
+  try {
+    lineItems = [...getCatalogRoomItems(booking.resourceIds, catalog), ...resolveCatalogOrder(booking.orderItems, catalog)]
+  } catch (error) {
+    logger.warn('Booking order not in catalog', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return { error: 'Some of the selected items are no longer available. Please review your order.' }
+  }
+
+  // Prices come from the server-side quote of what was booked, never from the client
+  try {
+    const quote = await quoteBooking({
+      type: booking.type,
+      resourceIds: booking.resourceIds,
+      duration: booking.duration,
+      guestCount: booking.guestCount,
+      itemCodes: lineItems.map(item => item.code),
+      quantities: getItemQuantities(lineItems),
+      date: booking.scheduledAt,
+    })
+    return { lineItems, quote }
+  } catch (error) {
+    logger.warn('Could not price booking', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return { error: 'We couldn\'t price this booking. Please check your selection or contact us.' }
+  }
+}
+
+/**
+ * Admins can require a verified email address before accepting bookings
+ * @returns The error to show, or null when the customer may book
+ */
+async function checkEmailVerified(hasVerifiedEmail: boolean) {
+  if (hasVerifiedEmail) {
+    return null
+  }
+
+  const { enabled } = await getRequireEmailVerification()
+  return getBookingVerificationError(hasVerifiedEmail, enabled)
+}
+
+/**
+ * Booking fields holding a priced order (see priceBookingOrder)
+ */
+function getPricedBookingData({ lineItems, quote }: { lineItems: CatalogLineItem[]; quote: PriceQuote | null }) {
+  return {
+    totalAmount: quote?.total ?? null,
+    currency: quote?.currency ?? 'RSD',
+    priceQuote: quote ? (quote as unknown as Prisma.InputJsonValue) : undefined,
+    lineItems: lineItems.length > 0 ? { create: lineItems } : undefined,
+  }
+}
+
+/**
+ * Check for booking conflicts
+ * @param date - Booking date
+ * @param time - Booking time (HH:MM format)
+ * @param duration - Booking duration in minutes (defaults to the resource duration)
+ * @param excludeBookingId - Optional booking ID to exclude from conflict check (for updates)
+ * @param type - Booking type, used to resolve the resources being booked
+ * @param resourceIds - Rooms selected by the customer
+ * @returns Conflict information with suggestions
+ */
+export async function checkBookingConflicts(
+  date: Date,
+  time: string,
+  duration?: number,
+  excludeBookingId?: string,
+  type?: BookingType,
+  resourceIds: string[] = []
+) {
+  try {
+    const resources = type ? resolveBookingResources(type, resourceIds) : resourceIds
+    const result = await detectBookingConflict(prisma, {
+      date,
+      time,
+      duration: duration ?? (type ? getDefaultDuration(type, resources) : 120),
+      resourceIds: resources,
+      excludeBookingId,
+    })
 
     return {
       success: true,
-      conflict: {
-        ...conflict,
-        suggestedTimes
-      },
-      bufferTimeMinutes // Return buffer time for display
+      conflict: result.conflict,
+      bufferTimeMinutes: result.bufferTimeMinutes // Return buffer time for display
     }
   } catch (error) {
     logger.serverActionError('checkBookingConflicts', error)
@@ -191,7 +414,7 @@ export async function checkBookingConflicts(
 /**
  * Get all bookings for a specific day (optimized for availability checking)
  * @param date - The date to check
- * @returns Array of bookings with time and duration
+ * @returns Array of bookings with time, duration and occupied resources
  */
 export async function getBookingsForDay(date: Date) {
   try {
@@ -213,7 +436,10 @@ export async function getBookingsForDay(date: Date) {
         date: true,
         time: true,
         title: true,
-        type: true
+        type: true,
+        duration: true,
+        endsAt: true,
+        resourceIds: true
       }
     })
 
@@ -222,20 +448,16 @@ export async function getBookingsForDay(date: Date) {
     const bufferTimeMinutes = bufferResult.bufferTime
 
     // Convert to format with full DateTime
-    const formattedBookings = bookings.map(b => {
-      const bookingDateTime = new Date(b.date)
-      const [hours, minutes] = b.time.split(':').map(Number)
-      bookingDateTime.setHours(hours, minutes, 0, 0)
-
-      return {
-        id: b.id,
-        datetime: bookingDateTime.toISOString(),
-        time: b.time,
-        duration: 120, // Default duration
-        title: b.title,
-        type: b.type
-      }
-    })
+    const formattedBookings = bookings.map(b => ({
+      id: b.id,
+      datetime: combineDateAndTime(b.date, b.time).toISOString(),
+      time: b.time,
+      duration: b.duration,
+      endsAt: b.endsAt.toISOString(),
+      title: b.title,
+      type: b.type,
+      resourceIds: resolveBookingResources(b.type, b.resourceIds)
+    }))
 
     return {
       success: true,
@@ -251,6 +473,89 @@ export async function getBookingsForDay(date: Date) {
   }
 }
 
+/**
+ * Cached availability grid (public, excludes input validation)
+ * Cache: 2 minutes, tags: bookings, settings
+ */
+const getCachedAvailability = unstable_cache(
+  async (startDate: string, days: number, types: BookingType[], duration: number | undefined, resourceIds: string[]) => {
+    const start = parseISO(startDate)
+    const [existingBookings, bufferResult, hoursResult] = await Promise.all([
+      loadExistingBookings(prisma, start, addDays(start, days - 1)),
+      getBufferTime(),
+      getBusinessHours(),
+    ])
+    const now = new Date()
+
+    return Array.from({ length: days }, (_, i) => {
+      const day = addDays(start, i)
+      const hours = hoursResult.businessHours[day.getDay()]
+
+      // One slot grid per booking type, using the resources that type occupies
+      const slots: Partial<Record<BookingType, AvailabilitySlot[]>> = {}
+      for (const type of types) {
+        const resources = resolveBookingResources(type, resourceIds)
+        slots[type] = getSlotGrid(
+          day,
+          existingBookings,
+          hours,
+          duration ?? getDefaultDuration(type, resources),
+          resources,
+          bufferResult.bufferTime,
+          now
+        )
+      }
+
+      return {
+        date: format(day, 'yyyy-MM-dd'),
+        open: hours.open,
+        close: hours.close,
+        closed: hours.closed,
+        slots,
+      }
+    })
+  },
+  [CACHE_KEYS.AVAILABILITY],
+  createCacheConfig('FAST', [CACHE_TAGS.BOOKINGS, CACHE_TAGS.SETTINGS])
+)
+
+/**
+ * Get the public availability grid (no authentication, no booking details)
+ * @param query - Start date, number of days and optional type/duration/rooms
+ * @returns Per-day opening hours and slot grid for each booking type
+ */
+export async function getAvailability(query: AvailabilityQueryInput) {
+  try {
+    const { date, days, type, duration, resourceIds } = availabilityQuerySchema.parse(query)
+
+    const availability = await getCachedAvailability(
+      date,
+      days,
+      type ? [type] : BOOKING_TYPES,
+      duration,
+      resourceIds
+    )
+
+    return {
+      success: true,
+      days: availability
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0].message
+      }
+    }
+
+    logger.serverActionError('getAvailability', error)
+    return {
+      success: false,
+      error: 'Failed to get availability'
+    }
+  }
+}
+
 /**
  * Get a single booking by ID
  * @param id - Booking ID
@@ -270,6 +575,26 @@ export async function getBookingById(id: string) {
             email: true,
           },
         },
+        series: {
+          select: {
+            id: true,
+            rrule: true,
+            bookings: {
+              select: {
+                id: true,
+                date: true,
+                time: true,
+                status: true,
+              },
+              orderBy: {
+                scheduledAt: 'asc',
+              },
+            },
+          },
+        },
+        lineItems: {
+          orderBy: [{ kind: 'asc' }, { createdAt: 'asc' }],
+        },
       },
     })
 
@@ -286,6 +611,82 @@ export async function getBookingById(id: string) {
   }
 }
 
+/**
+ * Get the kitchen prep sheet for a day
+ * Food, drinks and extras ordered for pending and approved bookings, with
+ * totals across all parties so the kitchen can prepare in one go.
+ * @param date - Day in YYYY-MM-DD format
+ * @returns Per-booking orders and totals per item
+ */
+export async function getKitchenPrepSheet(date: string) {
+  try {
+    await requireAdmin()
+
+    const day = parseISO(date)
+    if (isNaN(day.getTime())) {
+      return { success: false, error: 'Invalid date format (YYYY-MM-DD)' }
+    }
+
+    const prepKinds: BookingLineItemKind[] = ['FOOD', 'BEVERAGE', 'ADDON']
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        date: {
+          gte: startOfDay(day),
+          lte: endOfDay(day),
+        },
+        status: {
+          in: ['PENDING', 'APPROVED'],
+        },
+        lineItems: {
+          some: { kind: { in: prepKinds } },
+        },
+      },
+      select: {
+        id: true,
+        title: true,
+        time: true,
+        guestCount: true,
+        status: true,
+        childName: true,
+        lineItems: {
+          where: { kind: { in: prepKinds } },
+          select: { kind: true, code: true, name: true, quantity: true },
+          orderBy: [{ kind: 'asc' }, { createdAt: 'asc' }],
+        },
+      },
+      orderBy: {
+        scheduledAt: 'asc',
+      },
+    })
+
+    const totalsByItem = new Map<string, { kind: BookingLineItemKind; name: string; quantity: number; bookings: number }>()
+    for (const booking of bookings) {
+      for (const item of booking.lineItems) {
+        const key = `${item.kind}:${item.name}`
+        const total = totalsByItem.get(key) ?? { kind: item.kind, name: item.name, quantity: 0, bookings: 0 }
+        total.quantity += item.quantity
+        total.bookings += 1
+        totalsByItem.set(key, total)
+      }
+    }
+
+    return {
+      success: true,
+      bookings,
+      totals: [...totalsByItem.values()].sort((a, b) =>
+        prepKinds.indexOf(a.kind) - prepKinds.indexOf(b.kind) || a.name.localeCompare(b.name)
+      ),
+    }
+  } catch (error) {
+    logger.serverActionError('getKitchenPrepSheet', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load prep sheet',
+    }
+  }
+}
+
 /**
  * Create a new booking (requires authentication)
  * @param data - Booking data
@@ -295,6 +696,11 @@ export async function createBooking(data: CreateBookingInput) {
   try {
     const session = await requireAuth()
 
+    const verificationError = await checkEmailVerified(session.user.hasVerifiedEmail)
+    if (verificationError) {
+      return { success: false, error: verificationError }
+    }
+
     // Get rate limit settings from database
     const rateLimitSettings = await getBookingRateLimit()
     const { maxRequests, windowMinutes } = rateLimitSettings.rateLimit
@@ -321,67 +727,78 @@ export async function createBooking(data: CreateBookingInput) {
     }
 
     // Validate input
-    const validatedData = createBookingSchema.parse(data)
+    const { lineItems: orderItems = [], ...validatedData } = createBookingSchema.parse(data)
 
     // Combine date and time into scheduledAt timestamp
     const [hours, minutes] = validatedData.time.split(':').map(Number)
     const scheduledAt = new Date(validatedData.date)
     scheduledAt.setHours(hours, minutes, 0, 0)
 
+    // Resolve which rooms/areas this booking occupies and for how long
+    const resourceIds = resolveBookingResources(validatedData.type, validatedData.resourceIds)
+    const duration = validatedData.duration ?? getDefaultDuration(validatedData.type, resourceIds)
+    const endsAt = addMinutes(scheduledAt, duration)
+
+    const priced = await priceBookingOrder({
+      type: validatedData.type,
+      resourceIds,
+      duration,
+      guestCount: validatedData.guestCount,
+      orderItems,
+      scheduledAt,
+    }, session.user.id)
+
+    if ('error' in priced) {
+      return { success: false, error: priced.error }
+    }
+
     // Use transaction to prevent race conditions
-    // The unique index on (scheduledAt, type) will prevent double-bookings
-    let booking
-    try {
-      booking = await prisma.$transaction(async (tx) => {
-        // Double-check for conflicts within transaction
-        // This provides user-friendly error messages before hitting unique constraint
-        const conflictCheck = await checkBookingConflicts(
-          validatedData.date,
-          validatedData.time,
-          120 // Default duration in minutes
-        )
+    // Advisory locks serialize concurrent bookings for the same resources and day
+    const result = await prisma.$transaction(async (tx) => {
+      await lockBookingResources(tx, validatedData.date, resourceIds)
+
+      // Check for conflicts within transaction so no other booking can slip in
+      const conflictCheck = await detectBookingConflict(tx, {
+        date: validatedData.date,
+        time: validatedData.time,
+        duration,
+        resourceIds,
+      })
 
-        if (conflictCheck.success && conflictCheck.conflict?.hasConflict) {
-          throw new Error(conflictCheck.conflict.message || 'Booking conflicts with existing bookings')
-        }
+      if (conflictCheck.conflict.hasConflict) {
+        return { conflict: conflictCheck.conflict }
+      }
 
-        // Create booking - unique index will catch any race condition
-        return await tx.booking.create({
-          data: {
-            ...validatedData,
-            userId: session.user.id,
-            status: 'PENDING',
-            scheduledAt,
-          },
-        })
+      const booking = await tx.booking.create({
+        data: {
+          ...validatedData,
+          resourceIds,
+          duration,
+          userId: session.user.id,
+          status: 'PENDING',
+          scheduledAt,
+          endsAt,
+          ...getPricedBookingData(priced),
+          paidAmount: null,
+          isPaid: false,
+          paymentDate: null,
+        },
       })
-    } catch (transactionError) {
-      // Handle unique constraint violation from database
-      if (transactionError instanceof Error) {
-        // Check if it's a unique constraint violation
-        if (transactionError.message.includes('Unique constraint') ||
-            transactionError.message.includes('unique_violation')) {
-          // Race condition caught by database - suggest alternative times
-          const conflictCheck = await checkBookingConflicts(
-            validatedData.date,
-            validatedData.time,
-            120
-          )
-
-          return {
-            success: false,
-            error: 'This time slot was just booked by another user. Please choose a different time.',
-            conflictType: 'TIME_CONFLICT',
-            suggestedTimes: conflictCheck.conflict?.suggestedTimes || []
-          }
-        }
 
-        // Re-throw other errors
-        throw transactionError
+      return { booking }
+    })
+
+    if (!result.booking) {
+      return {
+        success: false,
+        error: result.conflict.message || 'Booking conflicts with existing bookings',
+        conflictType: result.conflict.conflictType,
+        suggestedTimes: result.conflict.suggestedTimes
       }
-      throw transactionError
     }
 
+    const booking = result.booking
+
     // Notify all admins of new booking
     try {
       const notifResult = await notifyAllAdmins({
@@ -479,17 +896,33 @@ export async function updateBooking(id: string, data: UpdateBookingInput) {
       return { error: 'Booking not found' }
     }
 
-    // If date or time is being changed, check for conflicts
-    if (validatedData.date || validatedData.time) {
-      const checkDate = validatedData.date || originalBooking.date
-      const checkTime = validatedData.time || originalBooking.time
-      const checkDuration = 120 // Default duration in minutes
+    // Resolve resources in case the type or rooms are being changed
+    const checkType = validatedData.type || originalBooking.type
+    const resourceIds = resolveBookingResources(
+      checkType,
+      validatedData.resourceIds ?? originalBooking.resourceIds
+    )
 
+    const checkDate = validatedData.date || originalBooking.date
+    const checkTime = validatedData.time || originalBooking.time
+    const duration = validatedData.duration ?? originalBooking.duration
+    const scheduledAt = combineDateAndTime(checkDate, checkTime)
+
+    // If date, time, length or occupied resources are being changed, check for conflicts
+    if (
+      validatedData.date ||
+      validatedData.time ||
+      validatedData.duration ||
+      validatedData.type ||
+      validatedData.resourceIds
+    ) {
       const conflictCheck = await checkBookingConflicts(
         checkDate,
         checkTime,
-        checkDuration,
-        id // Exclude this booking from conflict check
+        duration,
+        id, // Exclude this booking from conflict check
+        checkType,
+        resourceIds
       )
 
       if (conflictCheck.success && conflictCheck.conflict?.hasConflict) {
@@ -505,9 +938,27 @@ export async function updateBooking(id: string, data: UpdateBookingInput) {
     // Update booking
     const booking = await prisma.booking.update({
       where: { id },
-      data: validatedData,
+      data: {
+        ...validatedData,
+        resourceIds,
+        duration,
+        scheduledAt,
+        endsAt: addMinutes(scheduledAt, duration),
+      },
     })
 
+    // Cancelling, rejecting or moving an active booking frees its original slot
+    const wasActive = ['PENDING', 'APPROVED'].includes(originalBooking.status)
+    const isActive = ['PENDING', 'APPROVED'].includes(booking.status)
+    const slotChanged =
+      booking.scheduledAt.getTime() !== originalBooking.scheduledAt.getTime() ||
+      booking.endsAt.getTime() !== originalBooking.endsAt.getTime() ||
+      booking.resourceIds.join() !== originalBooking.resourceIds.join()
+
+    if (wasActive && (!isActive || slotChanged)) {
+      await offerFreedSlot(originalBooking)
+    }
+
     // Log audit
     await logAudit({
       userId: session.user.id,
@@ -545,6 +996,37 @@ export async function updateBooking(id: string, data: UpdateBookingInput) {
   }
 }
 
+/**
+ * Text a booking notice to a customer who prefers SMS
+ * @param booking - Booking, texted at its contact phone number
+ * @returns Whether the notice was texted; if not, it should be emailed
+ */
+async function sendBookingSms(booking: { id: string; userId: string; phone: string }, body: string) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: booking.userId },
+      select: { preferredContactMethod: true },
+    })
+
+    if (user?.preferredContactMethod !== 'SMS') {
+      return false
+    }
+
+    const result = await sendSms({ to: booking.phone, body, userId: booking.userId, bookingId: booking.id })
+
+    if (!result.success) {
+      logger.warn('Booking SMS not sent, emailing instead', { bookingId: booking.id, error: result.error })
+      return false
+    }
+
+    logger.info('Booking SMS sent to customer', { bookingId: booking.id })
+    return true
+  } catch (smsError) {
+    logger.error('Exception while sending booking SMS', smsError instanceof Error ? smsError : new Error(String(smsError)))
+    return false
+  }
+}
+
 /**
  * Approve a booking
  * @param bookingId - Booking ID
@@ -579,9 +1061,14 @@ export async function approveBooking(bookingId: string, adminNotes?: string) {
       data: { bookingId: booking.id }
     })
 
-    // Send approval email to customer
+    // Text the approval to customers who prefer SMS, email it otherwise
+    const sentBySms = await sendBookingSms(
+      booking,
+      `Xplorium: Your booking "${booking.title}" on ${format(new Date(booking.date), 'MMM d')} at ${booking.time} is approved. See you then!`
+    )
+
     try {
-      if (booking.user && booking.user.email) {
+      if (!sentBySms && booking.user && booking.user.email) {
         const emailResult = await sendBookingApprovedEmail({
           to: booking.user.email,
           customerName: booking.user.name || 'Customer',
@@ -665,9 +1152,15 @@ export async function rejectBooking(bookingId: string, reason: string) {
       },
     })
 
-    // Send rejection email to customer
+    // Text the rejection to customers who prefer SMS, email it otherwise
+    const sentBySms = await sendBookingSms(
+      booking,
+      `Xplorium: Sorry, we can't take your booking "${booking.title}" on ${format(new Date(booking.date), 'MMM d')} at ${booking.time}.` +
+        (validatedData.reason ? ` ${validatedData.reason}` : '')
+    )
+
     try {
-      if (booking.user && booking.user.email) {
+      if (!sentBySms && booking.user && booking.user.email) {
         const emailResult = await sendBookingRejectedEmail({
           to: booking.user.email,
           customerName: booking.user.name || 'Customer',
@@ -689,6 +1182,9 @@ export async function rejectBooking(bookingId: string, reason: string) {
       // Don't fail the rejection if email fails
     }
 
+    // Offer the freed slot to the first customer on the waitlist
+    await offerFreedSlot(booking)
+
     // Log audit
     await logAudit({
       userId: session.user.id,
@@ -735,10 +1231,15 @@ export async function deleteBooking(id: string) {
   try {
     const session = await requireAdmin()
 
-    await prisma.booking.delete({
+    const booking = await prisma.booking.delete({
       where: { id },
     })
 
+    if (['PENDING', 'APPROVED'].includes(booking.status)) {
+      // Offer the freed slot to the first customer on the waitlist
+      await offerFreedSlot(booking)
+    }
+
     // Log audit
     await logAudit({
       userId: session.user.id,
@@ -773,6 +1274,1079 @@ export async function deleteBooking(id: string) {
   }
 }
 
+/**
+ * Load the occurrences of a booking's series that an operation applies to
+ * @param bookingId - The occurrence the admin acted on
+ * @param scope - 'this', 'following' (this and later occurrences) or 'all'
+ * @returns The booking and the affected occurrences in chronological order
+ */
+async function getSeriesOccurrences(bookingId: string, scope: SeriesScope) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+  })
+
+  if (!booking) {
+    throw new Error('Booking not found')
+  }
+
+  if (scope === 'this' || !booking.seriesId) {
+    return { booking, occurrences: [booking] }
+  }
+
+  const occurrences = await prisma.booking.findMany({
+    where: {
+      seriesId: booking.seriesId,
+      ...(scope === 'following' && { scheduledAt: { gte: booking.scheduledAt } }),
+    },
+    orderBy: {
+      scheduledAt: 'asc',
+    },
+  })
+
+  return { booking, occurrences }
+}
+
+/**
+ * Turn an existing booking into the first occurrence of a recurring series
+ * Each generated occurrence is checked for conflicts separately. Unless
+ * skipConflicts is set, nothing is created when any occurrence conflicts.
+ * @param data - Booking ID, recurrence rule and conflict handling
+ * @returns Created series with per-occurrence conflicts
+ */
+export async function createBookingSeries(data: CreateBookingSeriesInput) {
+  try {
+    const session = await requireAdmin()
+
+    // Validate input
+    const validatedData = createBookingSeriesSchema.parse(data)
+
+    const template = await prisma.booking.findUnique({
+      where: { id: validatedData.bookingId },
+    })
+
+    if (!template) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    if (template.seriesId) {
+      return { success: false, error: 'Booking is already part of a series' }
+    }
+
+    // The first occurrence is the booking itself
+    const rule: RecurrenceRule = validatedData.recurrence
+    const occurrences = getOccurrences(template.scheduledAt, rule).slice(1)
+
+    if (occurrences.length === 0) {
+      return { success: false, error: 'The recurrence rule does not produce any further occurrences' }
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const conflicts: SeriesConflict[] = []
+      const available: Date[] = []
+
+      for (const scheduledAt of occurrences) {
+        await lockBookingResources(tx, scheduledAt, template.resourceIds)
+
+        const conflictCheck = await detectBookingConflict(tx, {
+          date: scheduledAt,
+          time: template.time,
+          duration: template.duration,
+          resourceIds: template.resourceIds,
+        })
+
+        if (conflictCheck.conflict.hasConflict) {
+          conflicts.push({
+            date: format(scheduledAt, 'yyyy-MM-dd'),
+            time: template.time,
+            message: conflictCheck.conflict.message || 'Booking conflicts with existing bookings',
+            suggestedTimes: conflictCheck.conflict.suggestedTimes,
+          })
+        } else {
+          available.push(scheduledAt)
+        }
+      }
+
+      if (conflicts.length > 0 && !validatedData.skipConflicts) {
+        return { conflicts }
+      }
+
+      const series = await tx.bookingSeries.create({
+        data: {
+          rrule: formatRRule(rule),
+          createdBy: session.user.id,
+        },
+      })
+
+      await tx.booking.update({
+        where: { id: template.id },
+        data: { seriesId: series.id },
+      })
+
+      await tx.booking.createMany({
+        data: available.map(scheduledAt => ({
+          userId: template.userId,
+          title: template.title,
+          // Keep the stored date convention of the template, shifted to the occurrence day
+          date: addDays(template.date, differenceInCalendarDays(scheduledAt, template.scheduledAt)),
+          time: template.time,
+          type: template.type,
+          guestCount: template.guestCount,
+          phone: template.phone,
+          email: template.email,
+          specialRequests: template.specialRequests,
+          adminNotes: template.adminNotes,
+          status: template.status === 'APPROVED' ? 'APPROVED' : 'PENDING',
+          duration: template.duration,
+          resourceIds: template.resourceIds,
+          totalAmount: template.totalAmount,
+          currency: template.currency,
+          scheduledAt,
+          endsAt: addMinutes(scheduledAt, template.duration),
+          seriesId: series.id,
+        })),
+      })
+
+      return { series, conflicts }
+    }, {
+      // One conflict check per occurrence can exceed the default 5s
+      timeout: 30000,
+    })
+
+    if (!result.series) {
+      return {
+        success: false,
+        error: `${result.conflicts.length} of ${occurrences.length} occurrences conflict with existing bookings`,
+        conflicts: result.conflicts,
+      }
+    }
+
+    const created = occurrences.length - result.conflicts.length + 1
+
+    // Log audit
+    await logAudit({
+      userId: session.user.id,
+      action: 'CREATE',
+      entity: 'Booking',
+      entityId: template.id,
+      changes: {
+        seriesId: result.series.id,
+        rrule: result.series.rrule,
+        occurrences: created,
+        skipped: result.conflicts.map(conflict => conflict.date),
+      },
+    })
+
+    revalidatePath('/admin/bookings')
+    revalidatePath(`/admin/bookings/${template.id}`)
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      series: result.series,
+      created,
+      conflicts: result.conflicts,
+      message: `Series created with ${created} occurrences`,
+    }
+  } catch (error) {
+    logger.serverActionError('createBookingSeries', error)
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0].message,
+      }
+    }
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to create booking series',
+    }
+  }
+}
+
+/**
+ * Update one, the following or all occurrences of a series
+ * Date changes move every affected occurrence by the same number of days.
+ * @param bookingId - The occurrence being edited
+ * @param scope - 'this', 'following' or 'all'
+ * @param data - Updated booking data
+ * @returns Number of updated occurrences, or the occurrences that would conflict
+ */
+export async function updateBookingSeries(bookingId: string, scope: SeriesScope, data: UpdateBookingInput): Promise<SeriesActionResult> {
+  const parsedScope = seriesScopeSchema.safeParse(scope)
+  if (!parsedScope.success) {
+    return { success: false, error: 'Invalid series scope' }
+  }
+
+  if (parsedScope.data === 'this') {
+    return updateBooking(bookingId, data)
+  }
+
+  try {
+    const session = await requireAdmin()
+
+    // Validate input
+    const validatedData = updateBookingSchema.parse(data)
+    const { date: newDate, ...changes } = validatedData
+
+    const { booking, occurrences } = await getSeriesOccurrences(bookingId, scope)
+    const dayShift = newDate ? differenceInCalendarDays(newDate, booking.date) : 0
+
+    const updates = occurrences.map(occurrence => {
+      const type = changes.type || occurrence.type
+      const resourceIds = resolveBookingResources(type, changes.resourceIds ?? occurrence.resourceIds)
+      const date = addDays(occurrence.date, dayShift)
+      const time = changes.time || occurrence.time
+      const duration = changes.duration ?? occurrence.duration
+      const scheduledAt = combineDateAndTime(date, time)
+
+      return { id: occurrence.id, date, time, type, resourceIds, duration, scheduledAt }
+    })
+
+    const slotChanged = Boolean(newDate || changes.time || changes.duration || changes.type || changes.resourceIds)
+
+    // Check every affected occurrence if its slot or resources change
+    if (slotChanged) {
+      const conflicts: SeriesConflict[] = []
+
+      for (const update of updates) {
+        const conflictCheck = await detectBookingConflict(prisma, {
+          date: update.date,
+          time: update.time,
+          duration: update.duration,
+          resourceIds: update.resourceIds,
+          excludeBookingId: update.id,
+        })
+
+        if (conflictCheck.conflict.hasConflict) {
+          conflicts.push({
+            date: format(update.scheduledAt, 'yyyy-MM-dd'),
+            time: update.time,
+            message: conflictCheck.conflict.message || 'Booking conflicts with existing bookings',
+            suggestedTimes: conflictCheck.conflict.suggestedTimes,
+          })
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return {
+          success: false,
+          error: `${conflicts.length} of ${updates.length} occurrences conflict with existing bookings`,
+          conflicts,
+        }
+      }
+    }
+
+    await prisma.$transaction(
+      updates.map(update =>
+        prisma.booking.update({
+          where: { id: update.id },
+          data: {
+            ...changes,
+            date: update.date,
+            resourceIds: update.resourceIds,
+            duration: update.duration,
+            scheduledAt: update.scheduledAt,
+            endsAt: addMinutes(update.scheduledAt, update.duration),
+          },
+        })
+      )
+    )
+
+    if (slotChanged) {
+      // Offer the slots the occurrences moved away from to the waitlist
+      for (const occurrence of occurrences) {
+        if (['PENDING', 'APPROVED'].includes(occurrence.status)) {
+          await offerFreedSlot(occurrence)
+        }
+      }
+    }
+
+    // Log audit
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Booking',
+      entityId: bookingId,
+      changes: { ...validatedData, scope, occurrences: updates.length },
+    })
+
+    revalidatePath('/admin/bookings')
+    revalidatePath(`/admin/bookings/${bookingId}`)
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      count: updates.length,
+      message: `${updates.length} occurrences updated`,
+    }
+  } catch (error) {
+    logger.serverActionError('updateBookingSeries', error)
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to update booking series',
+    }
+  }
+}
+
+/**
+ * Approve the pending occurrences of a series
+ * The customer gets a single notification and email for the whole series.
+ * @param bookingId - The occurrence the admin acted on
+ * @param scope - 'this', 'following' or 'all'
+ * @param adminNotes - Admin notes
+ * @returns Number of approved occurrences
+ */
+export async function approveBookingSeries(bookingId: string, scope: SeriesScope, adminNotes?: string): Promise<SeriesActionResult> {
+  const parsedScope = seriesScopeSchema.safeParse(scope)
+  if (!parsedScope.success) {
+    return { success: false, error: 'Invalid series scope' }
+  }
+
+  if (parsedScope.data === 'this') {
+    return approveBooking(bookingId, adminNotes)
+  }
+
+  try {
+    const session = await requireAdmin()
+
+    const { booking, occurrences } = await getSeriesOccurrences(bookingId, scope)
+    const pending = occurrences.filter(occurrence => occurrence.status === 'PENDING')
+
+    if (pending.length === 0) {
+      return { success: false, error: 'No pending occurrences to approve' }
+    }
+
+    await prisma.booking.updateMany({
+      where: { id: { in: pending.map(occurrence => occurrence.id) } },
+      data: {
+        status: 'APPROVED',
+        ...(adminNotes && { adminNotes }),
+      },
+    })
+
+    // Notify the user once for the whole series
+    await createNotification({
+      userId: booking.userId,
+      type: 'BOOKING_APPROVED',
+      title: 'Recurring Booking Approved',
+      message: `${pending.length} sessions of your booking "${booking.title}" have been approved!`,
+      data: { bookingId: booking.id, seriesId: booking.seriesId }
+    })
+
+    // Text the approval to customers who prefer SMS, email it otherwise
+    const sentBySms = await sendBookingSms(
+      booking,
+      `Xplorium: ${pending.length} sessions of your booking "${booking.title}" are approved, ` +
+        `starting ${format(new Date(pending[0].date), 'MMM d')} at ${pending[0].time}. See you then!`
+    )
+
+    if (!sentBySms) {
+      try {
+        const emailResult = await sendBookingApprovedEmail({
+          to: booking.email,
+          customerName: booking.title,
+          bookingId: booking.id,
+          bookingTitle: `${booking.title} (${pending.length} sessions)`,
+          bookingDate: format(new Date(pending[0].date), 'MMMM d, yyyy'),
+          bookingTime: pending[0].time,
+          adminNotes: adminNotes || undefined
+        })
+
+        if (emailResult.success) {
+          logger.info('Series approval email sent to customer', { bookingId: booking.id, email: booking.email })
+        } else {
+          logger.error('Failed to send series approval email', new Error(emailResult.error || 'Unknown error'))
+        }
+      } catch (emailError) {
+        logger.error('Exception while sending series approval email', emailError instanceof Error ? emailError : new Error(String(emailError)))
+        // Don't fail the approval if email fails
+      }
+    }
+
+    // Log audit
+    await logAudit({
+      userId: session.user.id,
+      action: 'APPROVE',
+      entity: 'Booking',
+      entityId: bookingId,
+      changes: { status: 'APPROVED', adminNotes, scope, occurrences: pending.length },
+    })
+
+    revalidatePath('/admin/bookings')
+    revalidatePath(`/admin/bookings/${bookingId}`)
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      count: pending.length,
+      message: `${pending.length} occurrences approved`,
+    }
+  } catch (error) {
+    logger.serverActionError('approveBookingSeries', error)
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to approve booking series',
+    }
+  }
+}
+
+/**
+ * Cancel the pending and approved occurrences of a series
+ * @param bookingId - The occurrence the admin acted on
+ * @param scope - 'this', 'following' or 'all'
+ * @param reason - Optional cancellation reason (stored as admin notes)
+ * @returns Number of cancelled occurrences
+ */
+export async function cancelBookingSeries(bookingId: string, scope: SeriesScope, reason?: string): Promise<SeriesActionResult> {
+  try {
+    const session = await requireAdmin()
+
+    const { booking, occurrences } = await getSeriesOccurrences(bookingId, seriesScopeSchema.parse(scope))
+    const active = occurrences.filter(occurrence => ['PENDING', 'APPROVED'].includes(occurrence.status))
+
+    if (active.length === 0) {
+      return { success: false, error: 'No active occurrences to cancel' }
+    }
+
+    await prisma.booking.updateMany({
+      where: { id: { in: active.map(occurrence => occurrence.id) } },
+      data: {
+        status: 'CANCELLED',
+        ...(reason && { adminNotes: reason }),
+      },
+    })
+
+    // Offer each freed slot to the waitlist
+    for (const occurrence of active) {
+      await offerFreedSlot(occurrence)
+    }
+
+    // Notify the user once for the whole series
+    await createNotification({
+      userId: booking.userId,
+      type: 'BOOKING_CANCELLED',
+      title: 'Booking Cancelled',
+      message: active.length === 1
+        ? `Your booking "${booking.title}" on ${format(new Date(active[0].date), 'MMMM d, yyyy')} has been cancelled.`
+        : `${active.length} sessions of your booking "${booking.title}" have been cancelled.`,
+      data: { bookingId: booking.id, seriesId: booking.seriesId }
+    })
+
+    // Log audit
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Booking',
+      entityId: bookingId,
+      changes: { status: 'CANCELLED', reason, scope, occurrences: active.length },
+    })
+
+    revalidatePath('/admin/bookings')
+    revalidatePath(`/admin/bookings/${bookingId}`)
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      count: active.length,
+      message: `${active.length} occurrences cancelled`,
+    }
+  } catch (error) {
+    logger.serverActionError('cancelBookingSeries', error)
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to cancel booking series',
+    }
+  }
+}
+
+/**
+ * Expire waitlist offers that were not claimed in time
+ * Each expired slot is passed on to the next customer in line. Waiting
+ * entries for slots that have already started are expired as well.
+ */
+async function expireWaitlistOffers() {
+  const now = new Date()
+
+  await prisma.waitlistEntry.updateMany({
+    where: {
+      status: 'WAITING',
+      scheduledAt: { lt: now },
+    },
+    data: { status: 'EXPIRED' },
+  })
+
+  const expiredOffers = await prisma.waitlistEntry.findMany({
+    where: {
+      status: 'OFFERED',
+      offerExpiresAt: { lt: now },
+    },
+  })
+
+  if (expiredOffers.length === 0) {
+    return
+  }
+
+  await prisma.waitlistEntry.updateMany({
+    where: { id: { in: expiredOffers.map(entry => entry.id) } },
+    data: { status: 'EXPIRED' },
+  })
+
+  for (const entry of expiredOffers) {
+    await offerSlotToWaitlist(entry)
+  }
+}
+
+/**
+ * Offer a slot to the first waiting customer it can be booked for
+ * Entries are served in the order they joined. An entry is skipped while
+ * another open offer holds an overlapping slot on the same resources or
+ * while the slot still conflicts with existing bookings.
+ */
+async function offerSlotToWaitlist(slot: WaitlistSlot) {
+  const now = new Date()
+  const resourceIds = resolveBookingResources(slot.type, slot.resourceIds)
+
+  const candidates = await prisma.waitlistEntry.findMany({
+    where: {
+      status: 'WAITING',
+      scheduledAt: { lt: slot.endsAt, gt: now },
+      endsAt: { gt: slot.scheduledAt },
+      resourceIds: { hasSome: resourceIds },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  })
+
+  for (const entry of candidates) {
+    const openOffers = await prisma.waitlistEntry.count({
+      where: {
+        status: 'OFFERED',
+        offerExpiresAt: { gt: now },
+        scheduledAt: { lt: entry.endsAt },
+        endsAt: { gt: entry.scheduledAt },
+        resourceIds: { hasSome: entry.resourceIds },
+      },
+    })
+
+    if (openOffers > 0) {
+      continue
+    }
+
+    const { conflict } = await detectBookingConflict(prisma, {
+      date: entry.date,
+      time: entry.time,
+      duration: entry.duration,
+      resourceIds: entry.resourceIds,
+    })
+
+    if (conflict.hasConflict) {
+      continue
+    }
+
+    const offerExpiresAt = addMinutes(now, WAITLIST_OFFER_MINUTES)
+    const offerToken = randomBytes(32).toString('hex')
+    const offer = await prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: {
+        status: 'OFFERED',
+        offerToken,
+        offeredAt: now,
+        offerExpiresAt,
+      },
+    })
+
+    await createNotification({
+      userId: offer.userId,
+      type: 'WAITLIST_OFFER',
+      title: 'A Spot Opened Up',
+      message: `The ${offer.time} slot on ${format(new Date(offer.date), 'MMMM d, yyyy')} for "${offer.title}" is available. Claim it before ${format(offerExpiresAt, 'HH:mm')}.`,
+      data: { waitlistEntryId: offer.id, offerToken }
+    })
+
+    // Send offer email to customer
+    try {
+      const emailResult = await sendWaitlistOfferEmail({
+        to: offer.email,
+        customerName: offer.title,
+        bookingTitle: offer.title,
+        bookingDate: format(new Date(offer.date), 'MMMM d, yyyy'),
+        bookingTime: offer.time,
+        offerToken,
+        expiresAt: format(offerExpiresAt, 'MMMM d, yyyy HH:mm'),
+      })
+
+      if (emailResult.success) {
+        logger.info('Waitlist offer email sent to customer', { waitlistEntryId: offer.id, email: offer.email })
+      } else {
+        logger.error('Failed to send waitlist offer email', new Error(emailResult.error || 'Unknown error'))
+      }
+    } catch (emailError) {
+      logger.error('Exception while sending waitlist offer email', emailError instanceof Error ? emailError : new Error(String(emailError)))
+      // The in-app notification still carries the offer
+    }
+
+    return offer
+  }
+
+  return null
+}
+
+/**
+ * Offer a freed slot to the waitlist
+ * Called after a booking is rejected, cancelled, deleted or moved. Errors are
+ * logged and never fail the operation that freed the slot.
+ */
+async function offerFreedSlot(slot: WaitlistSlot) {
+  try {
+    await expireWaitlistOffers()
+    await offerSlotToWaitlist(slot)
+  } catch (error) {
+    logger.error('Failed to offer freed slot to waitlist', error instanceof Error ? error : new Error(String(error)))
+  }
+}
+
+/**
+ * Join the waitlist for a fully booked time slot
+ * Takes the same data as createBooking so the booking form can offer it
+ * right after a conflict.
+ * @param data - Requested booking data
+ * @returns Waitlist entry and the customer's position in line
+ */
+export async function joinWaitlist(data: CreateBookingInput) {
+  try {
+    const session = await requireAuth()
+
+    const verificationError = await checkEmailVerified(session.user.hasVerifiedEmail)
+    if (verificationError) {
+      return { success: false, error: verificationError }
+    }
+
+    // Validate input
+    const { lineItems: orderItems = [], ...validatedData } = createBookingSchema.parse(data)
+
+    const scheduledAt = combineDateAndTime(validatedData.date, validatedData.time)
+    if (scheduledAt <= new Date()) {
+      return { success: false, error: 'This time slot has already passed' }
+    }
+
+    const resourceIds = resolveBookingResources(validatedData.type, validatedData.resourceIds)
+    const duration = validatedData.duration ?? getDefaultDuration(validatedData.type, resourceIds)
+    const endsAt = addMinutes(scheduledAt, duration)
+
+    const { conflict } = await detectBookingConflict(prisma, {
+      date: validatedData.date,
+      time: validatedData.time,
+      duration,
+      resourceIds,
+    })
+
+    if (!conflict.hasConflict) {
+      return { success: false, error: 'This time slot is available - please book it directly' }
+    }
+
+    const existingEntry = await prisma.waitlistEntry.findFirst({
+      where: {
+        userId: session.user.id,
+        type: validatedData.type,
+        scheduledAt,
+        status: { in: ['WAITING', 'OFFERED'] },
+      },
+    })
+
+    if (existingEntry) {
+      return { success: false, error: 'You are already on the waitlist for this time slot' }
+    }
+
+    // Check the order can be booked now; it's priced again when the offer is claimed
+    const priced = await priceBookingOrder({
+      type: validatedData.type,
+      resourceIds,
+      duration,
+      guestCount: validatedData.guestCount,
+      orderItems,
+      scheduledAt,
+    }, session.user.id)
+
+    if ('error' in priced) {
+      return { success: false, error: priced.error }
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        userId: session.user.id,
+        title: validatedData.title,
+        date: validatedData.date,
+        time: validatedData.time,
+        type: validatedData.type,
+        guestCount: validatedData.guestCount,
+        phone: validatedData.phone,
+        email: validatedData.email,
+        specialRequests: validatedData.specialRequests,
+        scheduledAt,
+        duration,
+        endsAt,
+        resourceIds,
+        childName: validatedData.childName,
+        childAge: validatedData.childAge,
+        parentName: validatedData.parentName,
+        orderItems: orderItems as unknown as Prisma.InputJsonValue,
+      },
+    })
+
+    // Position among customers waiting for an overlapping slot
+    const position = await prisma.waitlistEntry.count({
+      where: {
+        status: 'WAITING',
+        scheduledAt: { lt: endsAt },
+        endsAt: { gt: scheduledAt },
+        resourceIds: { hasSome: resourceIds },
+        createdAt: { lte: entry.createdAt },
+      },
+    })
+
+    return {
+      success: true,
+      entry,
+      position,
+      message: `You're #${position} on the waitlist. We'll email you if the slot opens up.`,
+    }
+  } catch (error) {
+    logger.serverActionError('joinWaitlist', error)
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0].message,
+      }
+    }
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to join waitlist',
+    }
+  }
+}
+
+/**
+ * Leave the waitlist
+ * Declining an open offer passes the slot on to the next customer.
+ * @param entryId - Waitlist entry ID
+ * @returns Success status
+ */
+export async function leaveWaitlist(entryId: string) {
+  try {
+    const session = await requireAuth()
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: entryId },
+    })
+
+    if (!entry || entry.userId !== session.user.id) {
+      return { success: false, error: 'Waitlist entry not found' }
+    }
+
+    if (entry.status !== 'WAITING' && entry.status !== 'OFFERED') {
+      return { success: false, error: 'You are no longer on the waitlist for this slot' }
+    }
+
+    await prisma.waitlistEntry.update({
+      where: { id: entryId },
+      data: { status: 'CANCELLED' },
+    })
+
+    if (entry.status === 'OFFERED') {
+      await offerFreedSlot(entry)
+    }
+
+    return {
+      success: true,
+      message: 'You have left the waitlist',
+    }
+  } catch (error) {
+    logger.serverActionError('leaveWaitlist', error)
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to leave waitlist',
+    }
+  }
+}
+
+/**
+ * Get a waitlist offer for the claim page
+ * @param token - Offer token from the email link
+ * @returns Offer details (only for the customer it was made to)
+ */
+export async function getWaitlistOffer(token: string) {
+  try {
+    const session = await requireAuth()
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { offerToken: token },
+    })
+
+    if (!entry || entry.userId !== session.user.id) {
+      return { success: false, error: 'Offer not found' }
+    }
+
+    const isExpired = entry.status === 'OFFERED' && (!entry.offerExpiresAt || entry.offerExpiresAt < new Date())
+
+    return {
+      success: true,
+      offer: {
+        id: entry.id,
+        title: entry.title,
+        date: entry.date,
+        time: entry.time,
+        duration: entry.duration,
+        type: entry.type,
+        guestCount: entry.guestCount,
+        status: isExpired ? 'EXPIRED' as const : entry.status,
+        offerExpiresAt: entry.offerExpiresAt,
+        bookingId: entry.bookingId,
+      },
+    }
+  } catch (error) {
+    logger.serverActionError('getWaitlistOffer', error)
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to load offer',
+    }
+  }
+}
+
+/**
+ * Claim a waitlist offer
+ * Converts the offer into a PENDING booking for the admins to approve.
+ * @param token - Offer token from the email link
+ * @returns Created booking
+ */
+export async function claimWaitlistOffer(token: string) {
+  try {
+    const session = await requireAuth()
+
+    const verificationError = await checkEmailVerified(session.user.hasVerifiedEmail)
+    if (verificationError) {
+      return { success: false, error: verificationError }
+    }
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { offerToken: token },
+    })
+
+    if (!entry || entry.userId !== session.user.id) {
+      return { success: false, error: 'Offer not found' }
+    }
+
+    if (entry.status === 'CLAIMED') {
+      return { success: false, error: 'This offer has already been claimed' }
+    }
+
+    if (entry.status !== 'OFFERED') {
+      return { success: false, error: 'This offer is no longer available' }
+    }
+
+    if (!entry.offerExpiresAt || entry.offerExpiresAt < new Date()) {
+      // Expires this offer and moves the slot on to the next customer
+      await expireWaitlistOffers()
+      return { success: false, error: 'This offer has expired' }
+    }
+
+    // Priced like any new booking, at today's prices
+    const priced = await priceBookingOrder({
+      type: entry.type,
+      resourceIds: entry.resourceIds,
+      duration: entry.duration,
+      guestCount: entry.guestCount,
+      orderItems: z.array(bookingLineItemSchema).parse(entry.orderItems),
+      scheduledAt: entry.scheduledAt,
+    }, session.user.id)
+
+    if ('error' in priced) {
+      return { success: false, error: priced.error }
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Claim the offer first so a second request with the same link stops here
+      const claimed = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: 'OFFERED' },
+        data: { status: 'CLAIMED' },
+      })
+
+      if (claimed.count === 0) {
+        return { alreadyClaimed: true }
+      }
+
+      await lockBookingResources(tx, entry.date, entry.resourceIds)
+
+      const conflictCheck = await detectBookingConflict(tx, {
+        date: entry.date,
+        time: entry.time,
+        duration: entry.duration,
+        resourceIds: entry.resourceIds,
+      })
+
+      if (conflictCheck.conflict.hasConflict) {
+        // The slot was taken in the meantime - keep the customer's place in line
+        await tx.waitlistEntry.update({
+          where: { id: entry.id },
+          data: {
+            status: 'WAITING',
+            offerToken: null,
+            offeredAt: null,
+            offerExpiresAt: null,
+          },
+        })
+        return { conflict: conflictCheck.conflict }
+      }
+
+      const booking = await tx.booking.create({
+        data: {
+          userId: entry.userId,
+          title: entry.title,
+          date: entry.date,
+          time: entry.time,
+          type: entry.type,
+          guestCount: entry.guestCount,
+          phone: entry.phone,
+          email: entry.email,
+          specialRequests: entry.specialRequests,
+          duration: entry.duration,
+          resourceIds: entry.resourceIds,
+          childName: entry.childName,
+          childAge: entry.childAge,
+          parentName: entry.parentName,
+          status: 'PENDING',
+          scheduledAt: entry.scheduledAt,
+          endsAt: entry.endsAt,
+          ...getPricedBookingData(priced),
+        },
+      })
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { bookingId: booking.id },
+      })
+
+      return { booking }
+    })
+
+    if ('alreadyClaimed' in result) {
+      return { success: false, error: 'This offer is no longer available' }
+    }
+
+    if (!result.booking) {
+      return {
+        success: false,
+        error: 'Sorry, this time slot is no longer available. You are still on the waitlist.',
+      }
+    }
+
+    const booking = result.booking
+
+    // Notify all admins of new booking
+    try {
+      await notifyAllAdmins({
+        type: 'NEW_BOOKING',
+        title: 'New Booking Received',
+        message: `${booking.title} - ${booking.type} on ${new Date(booking.date).toLocaleDateString()} (from waitlist)`,
+        data: { bookingId: booking.id }
+      })
+    } catch (notifError) {
+      logger.error('Exception while sending notification for waitlist booking', notifError instanceof Error ? notifError : new Error(String(notifError)))
+      // Don't fail the claim if notification fails
+    }
+
+    revalidatePath('/admin/bookings')
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      booking,
+      message: 'Booking created successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('claimWaitlistOffer', error)
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to claim offer',
+    }
+  }
+}
+
 /**
  * Get approved bookings for public calendar display
  * Public endpoint - no auth required
@@ -832,9 +2406,13 @@ export async function getUserBookings() {
       },
     })
 
+    // Lets the profile page show which bookings can still be changed
+    const { cutoffHours } = await getBookingChangeCutoff()
+
     return {
       success: true,
       bookings,
+      cutoffHours,
     }
   } catch (error) {
     logger.serverActionError('getUserBookings', error)
@@ -842,6 +2420,296 @@ export async function getUserBookings() {
       success: false,
       error: 'Failed to load bookings',
       bookings: [],
+      cutoffHours: DEFAULT_CHANGE_CUTOFF_HOURS,
+    }
+  }
+}
+
+/**
+ * Load a booking owned by the current customer and check it can still be changed
+ * @returns The booking, or an error message when it can't be changed
+ */
+async function getChangeableBooking(bookingId: string, userId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+  })
+
+  if (!booking || booking.userId !== userId) {
+    return { error: 'Booking not found' }
+  }
+
+  if (booking.status !== 'PENDING' && booking.status !== 'APPROVED') {
+    return { error: `A ${booking.status.toLowerCase()} booking can no longer be changed` }
+  }
+
+  const { cutoffHours } = await getBookingChangeCutoff()
+  if (!isBeforeChangeCutoff(booking.scheduledAt, cutoffHours)) {
+    return {
+      error: `Bookings can only be changed up to ${cutoffHours} hours before they start. Please contact us.`,
+    }
+  }
+
+  return { booking, cutoffHours }
+}
+
+/**
+ * Cancel one of the current customer's bookings
+ * @param bookingId - Booking ID
+ * @param reason - Optional cancellation reason shown to admins
+ * @returns Cancelled booking
+ */
+export async function cancelMyBooking(bookingId: string, reason?: string) {
+  try {
+    const session = await requireAuth()
+
+    // Validate input
+    const validatedData = cancelMyBookingSchema.parse({ bookingId, reason })
+
+    const changeable = await getChangeableBooking(validatedData.bookingId, session.user.id)
+    if (!changeable.booking) {
+      return { success: false, error: changeable.error }
+    }
+
+    const booking = await prisma.booking.update({
+      where: { id: validatedData.bookingId },
+      data: { status: 'CANCELLED' },
+    })
+
+    // Offer the freed slot to the first customer on the waitlist
+    await offerFreedSlot(changeable.booking)
+
+    // Notify all admins of the cancellation
+    try {
+      await notifyAllAdmins({
+        type: 'BOOKING_CANCELLED',
+        title: 'Booking Cancelled by Customer',
+        message: `${booking.title} on ${format(new Date(booking.date), 'MMMM d, yyyy')} at ${booking.time} was cancelled${validatedData.reason ? `: ${validatedData.reason}` : ''}`,
+        data: { bookingId: booking.id }
+      })
+    } catch (notifError) {
+      logger.error('Exception while sending cancellation notification', notifError instanceof Error ? notifError : new Error(String(notifError)))
+      // Don't fail the cancellation if notification fails
+    }
+
+    // Log audit
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Booking',
+      entityId: booking.id,
+      changes: {
+        status: { from: changeable.booking.status, to: 'CANCELLED' },
+        reason: validatedData.reason,
+        byCustomer: true,
+      },
+    })
+
+    revalidatePath('/profile')
+    revalidatePath('/admin/bookings')
+    revalidatePath(`/admin/bookings/${booking.id}`)
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      booking,
+      message: 'Booking cancelled',
+    }
+  } catch (error) {
+    logger.serverActionError('cancelMyBooking', error)
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0].message,
+      }
+    }
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to cancel booking',
+    }
+  }
+}
+
+/**
+ * Move one of the current customer's bookings to a new date and time
+ * The booking goes back to PENDING so admins can approve the new time.
+ * @param data - Booking ID and the new date and time
+ * @returns Updated booking, or conflict details with suggested times
+ */
+export async function rescheduleMyBooking(data: RescheduleMyBookingInput) {
+  try {
+    const session = await requireAuth()
+
+    // Validate input
+    const validatedData = rescheduleMyBookingSchema.parse(data)
+
+    const changeable = await getChangeableBooking(validatedData.bookingId, session.user.id)
+    if (!changeable.booking) {
+      return { success: false, error: changeable.error }
+    }
+
+    const original = changeable.booking
+    const scheduledAt = combineDateAndTime(validatedData.date, validatedData.time)
+
+    if (scheduledAt.getTime() === original.scheduledAt.getTime()) {
+      return { success: false, error: 'Please choose a different date or time' }
+    }
+
+    // The new time has to respect the same cutoff as the old one
+    if (!isBeforeChangeCutoff(scheduledAt, changeable.cutoffHours)) {
+      return {
+        success: false,
+        error: `Bookings must start at least ${changeable.cutoffHours} hours from now`,
+      }
+    }
+
+    const resourceIds = resolveBookingResources(original.type, original.resourceIds)
+
+    // Re-quote on the new slot so weekend, holiday and peak surcharges apply
+    const lineItems = await prisma.bookingLineItem.findMany({
+      where: { bookingId: original.id },
+    })
+    let quote: PriceQuote | null
+    try {
+      quote = await quoteBooking({
+        type: original.type,
+        resourceIds,
+        duration: original.duration,
+        guestCount: original.guestCount,
+        itemCodes: lineItems.map(item => item.code),
+        quantities: getItemQuantities(lineItems),
+        date: scheduledAt,
+      })
+    } catch (error) {
+      logger.warn('Could not price rescheduled booking', {
+        bookingId: original.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return { success: false, error: 'We couldn\'t price this booking on the new date. Please contact us.' }
+    }
+
+    const totalAmount = quote?.total ?? null
+
+    // Same locking and conflict check as createBooking
+    const result = await prisma.$transaction(async (tx) => {
+      await lockBookingResources(tx, validatedData.date, resourceIds)
+
+      const conflictCheck = await detectBookingConflict(tx, {
+        date: validatedData.date,
+        time: validatedData.time,
+        duration: original.duration,
+        resourceIds,
+        excludeBookingId: original.id,
+      })
+
+      if (conflictCheck.conflict.hasConflict) {
+        return { conflict: conflictCheck.conflict }
+      }
+
+      const booking = await tx.booking.update({
+        where: { id: original.id },
+        data: {
+          date: validatedData.date,
+          time: validatedData.time,
+          scheduledAt,
+          endsAt: addMinutes(scheduledAt, original.duration),
+          status: 'PENDING',
+          totalAmount,
+          currency: quote?.currency ?? original.currency,
+          priceQuote: quote ? (quote as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+          isPaid: totalAmount !== null && (original.paidAmount ?? 0) >= totalAmount,
+        },
+      })
+
+      return { booking }
+    })
+
+    if (!result.booking) {
+      return {
+        success: false,
+        error: result.conflict.message || 'Booking conflicts with existing bookings',
+        conflictType: result.conflict.conflictType,
+        suggestedTimes: result.conflict.suggestedTimes
+      }
+    }
+
+    const booking = result.booking
+
+    // Offer the original slot to the first customer on the waitlist
+    await offerFreedSlot(original)
+
+    // Notify all admins - the new time needs approval
+    try {
+      await notifyAllAdmins({
+        type: 'NEW_BOOKING',
+        title: 'Booking Rescheduled by Customer',
+        message: `${booking.title} moved from ${format(new Date(original.date), 'MMMM d')} at ${original.time} to ${format(new Date(booking.date), 'MMMM d')} at ${booking.time} - awaiting approval`,
+        data: { bookingId: booking.id }
+      })
+    } catch (notifError) {
+      logger.error('Exception while sending reschedule notification', notifError instanceof Error ? notifError : new Error(String(notifError)))
+      // Don't fail the reschedule if notification fails
+    }
+
+    // Log audit
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Booking',
+      entityId: booking.id,
+      changes: {
+        date: { from: format(new Date(original.date), 'yyyy-MM-dd'), to: format(new Date(booking.date), 'yyyy-MM-dd') },
+        time: { from: original.time, to: booking.time },
+        status: { from: original.status, to: 'PENDING' },
+        ...(booking.totalAmount !== original.totalAmount && {
+          totalAmount: { from: original.totalAmount, to: booking.totalAmount },
+        }),
+        byCustomer: true,
+      },
+    })
+
+    revalidatePath('/profile')
+    revalidatePath('/admin/bookings')
+    revalidatePath(`/admin/bookings/${booking.id}`)
+    // Invalidate dashboard and booking caches
+    revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+    revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+    return {
+      success: true,
+      booking,
+      message: 'Booking rescheduled - we will confirm the new time soon',
+    }
+  } catch (error) {
+    logger.serverActionError('rescheduleMyBooking', error)
+
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0].message,
+      }
+    }
+
+    if (error instanceof Error) {
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Failed to reschedule booking',
     }
   }
 }
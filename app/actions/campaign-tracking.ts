@@ -0,0 +1,114 @@
+'use server'
+
+import type { CampaignEventType } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { getTrackingSecret, verifyTrackingToken } from '@/lib/campaign-tracking'
+
+/**
+ * Campaign Tracking Server Actions
+ *
+ * Records opens and clicks of campaign emails (see lib/campaign-tracking.ts)
+ */
+
+/**
+ * Record an event of a delivery
+ *
+ * A click also counts as an open, since many inboxes block the tracking
+ * pixel. The campaign's opened and clicked counts go up once per recipient.
+ */
+async function recordEvent(deliveryId: string, type: CampaignEventType, url: string | null, userAgent: string | null) {
+  const delivery = await prisma.campaignDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { campaignId: true },
+  })
+
+  if (!delivery) {
+    return
+  }
+
+  const now = new Date()
+
+  await prisma.campaignEvent.create({
+    data: {
+      campaignId: delivery.campaignId,
+      deliveryId,
+      type,
+      url,
+      userAgent: userAgent?.slice(0, 500),
+    },
+  })
+
+  // First open and click of the recipient
+  const opened = await prisma.campaignDelivery.updateMany({
+    where: { id: deliveryId, openedAt: null },
+    data: { openedAt: now },
+  })
+  const clicked = type === 'CLICK'
+    ? await prisma.campaignDelivery.updateMany({
+      where: { id: deliveryId, clickedAt: null },
+      data: { clickedAt: now },
+    })
+    : { count: 0 }
+
+  if (opened.count > 0 || clicked.count > 0) {
+    await prisma.campaign.update({
+      where: { id: delivery.campaignId },
+      data: {
+        openedCount: { increment: opened.count },
+        clickedCount: { increment: clicked.count },
+      },
+    })
+  }
+}
+
+/**
+ * Record that a recipient opened a campaign email
+ * @param token - Token from the tracking pixel URL
+ */
+export async function recordCampaignOpen(token: string, userAgent: string | null) {
+  try {
+    const deliveryId = verifyTrackingToken(token, null, getTrackingSecret())
+    if (!deliveryId) {
+      return { success: false, error: 'Invalid token' }
+    }
+
+    await recordEvent(deliveryId, 'OPEN', null, userAgent)
+    return { success: true }
+  } catch (error) {
+    logger.serverActionError('recordCampaignOpen', error)
+    return { success: false, error: 'Failed to record open' }
+  }
+}
+
+/**
+ * Record that a recipient clicked a link in a campaign email
+ *
+ * The recipient is sent on even when recording fails; only links that
+ * don't match their token are refused.
+ * @param token - Token from the tracked link
+ * @param url - Target of the link
+ * @returns The URL to redirect to
+ */
+export async function recordCampaignClick(token: string, url: string, userAgent: string | null) {
+  let deliveryId: string | null
+
+  try {
+    deliveryId = verifyTrackingToken(token, url, getTrackingSecret())
+  } catch (error) {
+    logger.serverActionError('recordCampaignClick', error)
+    return { success: false, error: 'Failed to verify link' }
+  }
+
+  if (!deliveryId || !/^https?:\/\//.test(url)) {
+    return { success: false, error: 'Invalid link' }
+  }
+
+  try {
+    await recordEvent(deliveryId, 'CLICK', url, userAgent)
+  } catch (error) {
+    logger.serverActionError('recordCampaignClick', error)
+  }
+
+  return { success: true, url }
+}
@@ -1,10 +1,15 @@
 'use server'
 
 import { auth } from '@/lib/auth'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { prisma } from '@/lib/db'
 import { revalidatePath } from 'next/cache'
 import { logAudit } from '@/lib/audit'
 import { logger } from '@/lib/logger'
+import { getCampaignChannels, getCampaignRecipientWhere, type CampaignAudience } from '@/lib/campaigns'
+import { MAX_SMS_SEGMENTS, formatMarketingSms, getSmsSegments } from '@/lib/sms'
+import { getRate } from '@/lib/campaign-tracking'
+import { enqueueJob } from '@/app/jobs/queue'
 import type { CampaignType, CampaignStatus } from '@prisma/client'
 
 /**
@@ -35,15 +40,7 @@ export interface CreateCampaignInput {
   type: CampaignType
   subject?: string
   content: string
-  targetAudience: {
-    loyaltyTiers?: string[]
-    marketingOptIn?: boolean
-    tags?: string[]
-    minTotalSpent?: number
-    maxTotalSpent?: number
-    minBookings?: number
-    maxBookings?: number
-  }
+  targetAudience: CampaignAudience
   scheduledDate?: Date
 }
 
@@ -62,7 +59,7 @@ export interface UpdateCampaignInput extends Partial<CreateCampaignInput> {
 export async function getCampaigns(filters: CampaignFilters = {}) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -140,7 +137,7 @@ export async function getCampaigns(filters: CampaignFilters = {}) {
 export async function getCampaign(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -186,7 +183,7 @@ export async function getCampaign(id: string) {
 export async function createCampaign(input: CreateCampaignInput) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -200,8 +197,13 @@ export async function createCampaign(input: CreateCampaignInput) {
       return { success: false, error: 'Email campaigns require a subject' }
     }
 
+    const smsError = getSmsContentError(input.type, input.content)
+    if (smsError) {
+      return { success: false, error: smsError }
+    }
+
     // Calculate recipient count based on target audience
-    const recipientCount = await calculateRecipientCount(input.targetAudience)
+    const recipientCount = await calculateRecipientCount(input.targetAudience, input.type)
 
     const campaign = await prisma.campaign.create({
       data: {
@@ -241,7 +243,7 @@ export async function createCampaign(input: CreateCampaignInput) {
 export async function updateCampaign(input: UpdateCampaignInput) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -250,7 +252,7 @@ export async function updateCampaign(input: UpdateCampaignInput) {
     // Fetch existing campaign
     const existing = await prisma.campaign.findUnique({
       where: { id },
-      select: { status: true }
+      select: { status: true, type: true, content: true, targetAudience: true }
     })
 
     if (!existing) {
@@ -262,10 +264,19 @@ export async function updateCampaign(input: UpdateCampaignInput) {
       return { success: false, error: 'Cannot edit campaigns that are sent or sending' }
     }
 
-    // Recalculate recipient count if target audience changed
+    const type = updateData.type ?? existing.type
+    const smsError = getSmsContentError(type, updateData.content ?? existing.content)
+    if (smsError) {
+      return { success: false, error: smsError }
+    }
+
+    // Recalculate recipient count if target audience or channels changed
     let totalRecipients: number | undefined
-    if (updateData.targetAudience) {
-      totalRecipients = await calculateRecipientCount(updateData.targetAudience)
+    if (updateData.targetAudience || updateData.type) {
+      totalRecipients = await calculateRecipientCount(
+        updateData.targetAudience ?? (existing.targetAudience as CampaignAudience),
+        type
+      )
     }
 
     const campaign = await prisma.campaign.update({
@@ -301,7 +312,7 @@ export async function updateCampaign(input: UpdateCampaignInput) {
 export async function deleteCampaign(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role !== 'SUPER_ADMIN') {
+    if (!session?.user || session.user.role !== 'SUPER_ADMIN' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Only super admins can delete campaigns' }
     }
 
@@ -346,7 +357,7 @@ export async function deleteCampaign(id: string) {
 export async function scheduleCampaign(id: string, scheduledDate: Date) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -388,7 +399,7 @@ export async function scheduleCampaign(id: string, scheduledDate: Date) {
 export async function cancelCampaign(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -416,56 +427,93 @@ export async function cancelCampaign(id: string) {
   }
 }
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
 /**
- * Calculate the number of recipients based on target audience filters
+ * Send a campaign now
+ *
+ * Schedules the campaign for the current time and queues the sending job,
+ * which sends it in batches. Only email campaigns can be sent.
  */
-async function calculateRecipientCount(targetAudience: CreateCampaignInput['targetAudience']): Promise<number> {
+export async function sendCampaign(id: string) {
   try {
-    const where: any = {}
-
-    // Filter by loyalty tiers
-    if (targetAudience.loyaltyTiers && targetAudience.loyaltyTiers.length > 0) {
-      where.loyaltyTier = { in: targetAudience.loyaltyTiers }
+    const session = await auth()
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
+      return { success: false, error: 'Unauthorized' }
     }
 
-    // Filter by marketing opt-in status
-    if (targetAudience.marketingOptIn !== undefined) {
-      where.marketingOptIn = targetAudience.marketingOptIn
-    }
+    const existing = await prisma.campaign.findUnique({
+      where: { id },
+      select: { type: true, status: true }
+    })
 
-    // Filter by tags
-    if (targetAudience.tags && targetAudience.tags.length > 0) {
-      where.tags = { hasSome: targetAudience.tags }
+    if (!existing) {
+      return { success: false, error: 'Campaign not found' }
     }
 
-    // Filter by total spent
-    if (targetAudience.minTotalSpent !== undefined || targetAudience.maxTotalSpent !== undefined) {
-      where.totalSpent = {}
-      if (targetAudience.minTotalSpent !== undefined) {
-        where.totalSpent.gte = targetAudience.minTotalSpent
-      }
-      if (targetAudience.maxTotalSpent !== undefined) {
-        where.totalSpent.lte = targetAudience.maxTotalSpent
-      }
+    if (existing.status !== 'DRAFT' && existing.status !== 'SCHEDULED') {
+      return { success: false, error: 'Only draft or scheduled campaigns can be sent' }
     }
 
-    // Filter by total bookings
-    if (targetAudience.minBookings !== undefined || targetAudience.maxBookings !== undefined) {
-      where.totalBookings = {}
-      if (targetAudience.minBookings !== undefined) {
-        where.totalBookings.gte = targetAudience.minBookings
-      }
-      if (targetAudience.maxBookings !== undefined) {
-        where.totalBookings.lte = targetAudience.maxBookings
+    const scheduledDate = new Date()
+    const campaign = await prisma.campaign.update({
+      where: { id },
+      data: {
+        status: 'SCHEDULED',
+        scheduledDate
       }
-    }
+    })
+
+    await enqueueJob('send-scheduled-campaigns')
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Campaign',
+      entityId: id,
+      changes: { status: 'SCHEDULED', scheduledDate, sendNow: true }
+    })
+
+    logger.info('Campaign queued for sending', { campaignId: id })
+    revalidatePath('/admin/campaigns')
+    revalidatePath(`/admin/campaigns/${id}`)
 
-    const count = await prisma.user.count({ where })
-    return count
+    return { success: true, campaign }
+  } catch (error) {
+    logger.serverActionError('sendCampaign', error)
+    return { success: false, error: 'Failed to send campaign' }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check that the SMS of a campaign, with its opt-out footer, isn't too long
+ * @returns The error to show, or null when the campaign sends no SMS or it fits
+ */
+function getSmsContentError(type: CampaignType, content: string): string | null {
+  if (type === 'EMAIL') {
+    return null
+  }
+
+  const { segments } = getSmsSegments(formatMarketingSms(content))
+  return segments > MAX_SMS_SEGMENTS
+    ? `SMS messages can be at most ${MAX_SMS_SEGMENTS} segments long, including the opt-out line (this one is ${segments})`
+    : null
+}
+
+/**
+ * Calculate the number of recipients based on target audience filters
+ * Campaigns sent by email and SMS count a recipient once per channel.
+ */
+async function calculateRecipientCount(targetAudience: CampaignAudience, type: CampaignType): Promise<number> {
+  try {
+    const counts = await Promise.all(
+      getCampaignChannels(type).map(channel =>
+        prisma.user.count({ where: getCampaignRecipientWhere(targetAudience, channel) })
+      )
+    )
+    return counts.reduce((total, count) => total + count, 0)
   } catch (error) {
     logger.error('Failed to calculate recipient count', error instanceof Error ? error : new Error(String(error)))
     return 0
@@ -478,53 +526,22 @@ async function calculateRecipientCount(targetAudience: CreateCampaignInput['targ
 export async function getCampaignRecipients(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
     const campaign = await prisma.campaign.findUnique({
       where: { id },
-      select: { targetAudience: true }
+      select: { type: true, targetAudience: true }
     })
 
     if (!campaign) {
       return { success: false, error: 'Campaign not found' }
     }
 
-    const targetAudience = campaign.targetAudience as CreateCampaignInput['targetAudience']
-    const where: any = {}
-
-    // Build same filters as calculateRecipientCount
-    if (targetAudience.loyaltyTiers && targetAudience.loyaltyTiers.length > 0) {
-      where.loyaltyTier = { in: targetAudience.loyaltyTiers }
-    }
-
-    if (targetAudience.marketingOptIn !== undefined) {
-      where.marketingOptIn = targetAudience.marketingOptIn
-    }
-
-    if (targetAudience.tags && targetAudience.tags.length > 0) {
-      where.tags = { hasSome: targetAudience.tags }
-    }
-
-    if (targetAudience.minTotalSpent !== undefined || targetAudience.maxTotalSpent !== undefined) {
-      where.totalSpent = {}
-      if (targetAudience.minTotalSpent !== undefined) {
-        where.totalSpent.gte = targetAudience.minTotalSpent
-      }
-      if (targetAudience.maxTotalSpent !== undefined) {
-        where.totalSpent.lte = targetAudience.maxTotalSpent
-      }
-    }
-
-    if (targetAudience.minBookings !== undefined || targetAudience.maxBookings !== undefined) {
-      where.totalBookings = {}
-      if (targetAudience.minBookings !== undefined) {
-        where.totalBookings.gte = targetAudience.minBookings
-      }
-      if (targetAudience.maxBookings !== undefined) {
-        where.totalBookings.lte = targetAudience.maxBookings
-      }
+    const audience = campaign.targetAudience as CampaignAudience
+    const where = {
+      OR: getCampaignChannels(campaign.type).map(channel => getCampaignRecipientWhere(audience, channel))
     }
 
     const recipients = await prisma.user.findMany({
@@ -556,7 +573,7 @@ export async function getCampaignRecipients(id: string) {
 export async function getCampaignAnalytics() {
   try {
     const session = await auth()
-    if (!session?.user || session.user.role === 'USER') {
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized' }
     }
 
@@ -567,37 +584,30 @@ export async function getCampaignAnalytics() {
       prisma.campaign.count({ where: { status: 'DRAFT' } })
     ])
 
-    // Get aggregate stats for sent campaigns
-    const sentStats = await prisma.campaign.aggregate({
-      where: { status: 'SENT' },
-      _sum: {
-        totalRecipients: true,
-        sentCount: true,
-        openedCount: true,
-        clickedCount: true,
-        unsubscribeCount: true
-      }
-    })
+    // Per-recipient delivery stats
+    const [totalRecipients, totalSent, totalOpened, totalClicked, unsubscribeStats] = await Promise.all([
+      prisma.campaignDelivery.count(),
+      prisma.campaignDelivery.count({ where: { status: 'SENT' } }),
+      prisma.campaignDelivery.count({ where: { status: 'SENT', openedAt: { not: null } } }),
+      prisma.campaignDelivery.count({ where: { status: 'SENT', clickedAt: { not: null } } }),
+      // Unsubscribes aren't tracked per recipient
+      prisma.campaign.aggregate({ where: { status: 'SENT' }, _sum: { unsubscribeCount: true } })
+    ])
+    const totalUnsubscribed = unsubscribeStats._sum.unsubscribeCount || 0
 
     const analytics = {
       totalCampaigns,
       sentCampaigns,
       scheduledCampaigns,
       draftCampaigns,
-      totalRecipients: sentStats._sum.totalRecipients || 0,
-      totalSent: sentStats._sum.sentCount || 0,
-      totalOpened: sentStats._sum.openedCount || 0,
-      totalClicked: sentStats._sum.clickedCount || 0,
-      totalUnsubscribed: sentStats._sum.unsubscribeCount || 0,
-      openRate: sentStats._sum.sentCount
-        ? ((sentStats._sum.openedCount || 0) / sentStats._sum.sentCount) * 100
-        : 0,
-      clickRate: sentStats._sum.sentCount
-        ? ((sentStats._sum.clickedCount || 0) / sentStats._sum.sentCount) * 100
-        : 0,
-      unsubscribeRate: sentStats._sum.sentCount
-        ? ((sentStats._sum.unsubscribeCount || 0) / sentStats._sum.sentCount) * 100
-        : 0
+      totalRecipients,
+      totalSent,
+      totalOpened,
+      totalClicked,
+      totalUnsubscribed,
+      openRate: getRate(totalOpened, totalSent),
+      clickRate: getRate(totalClicked, totalSent),
+      unsubscribeRate: getRate(totalUnsubscribed, totalSent)
     }
 
     logger.db('Fetched campaign analytics', analytics)
@@ -607,3 +617,48 @@ export async function getCampaignAnalytics() {
     return { success: false, error: 'Failed to fetch analytics' }
   }
 }
+
+/**
+ * Get the delivery funnel of a campaign: recipients, delivered, opened and
+ * clicked, per recipient, plus the most clicked links
+ */
+export async function getCampaignFunnel(id: string) {
+  try {
+    const session = await auth()
+    if (!session?.user || session.user.role === 'USER' || isTwoFactorBlocking(session.user.twoFactor)) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const [recipients, delivered, failed, opened, clicked, links] = await Promise.all([
+      prisma.campaignDelivery.count({ where: { campaignId: id } }),
+      prisma.campaignDelivery.count({ where: { campaignId: id, status: 'SENT' } }),
+      prisma.campaignDelivery.count({ where: { campaignId: id, status: 'FAILED' } }),
+      prisma.campaignDelivery.count({ where: { campaignId: id, status: 'SENT', openedAt: { not: null } } }),
+      prisma.campaignDelivery.count({ where: { campaignId: id, status: 'SENT', clickedAt: { not: null } } }),
+      prisma.campaignEvent.groupBy({
+        by: ['url'],
+        where: { campaignId: id, type: 'CLICK' },
+        _count: { _all: true },
+        orderBy: { _count: { url: 'desc' } },
+        take: 10
+      })
+    ])
+
+    const funnel = [
+      { stage: 'Recipients', count: recipients, rate: 100 },
+      { stage: 'Delivered', count: delivered, rate: getRate(delivered, recipients) },
+      { stage: 'Opened', count: opened, rate: getRate(opened, recipients) },
+      { stage: 'Clicked', count: clicked, rate: getRate(clicked, recipients) }
+    ]
+
+    return {
+      success: true,
+      funnel,
+      failed,
+      topLinks: links.map(link => ({ url: link.url ?? '', clicks: link._count._all }))
+    }
+  } catch (error) {
+    logger.serverActionError('getCampaignFunnel', error)
+    return { success: false, error: 'Failed to fetch campaign funnel' }
+  }
+}
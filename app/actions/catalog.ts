@@ -0,0 +1,579 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { requireAdmin } from '@/lib/auth-utils'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { sanitizeErrorForClient } from '@/lib/sanitize'
+import {
+  createCatalogCategorySchema,
+  updateCatalogCategorySchema,
+  createCatalogItemSchema,
+  updateCatalogItemSchema,
+  type CreateCatalogCategoryInput,
+  type UpdateCatalogCategoryInput,
+  type CreateCatalogItemInput,
+  type UpdateCatalogItemInput,
+} from '@/lib/validations/catalog'
+import { buildBookingCatalog, getCatalogCode, type BookingCatalog } from '@/lib/catalog'
+import { BOOKING_RESOURCE_IDS } from '@/lib/booking-resources'
+import type { BookingLineItemKind } from '@prisma/client'
+
+/**
+ * Catalog Server Actions
+ *
+ * Rooms, menu items, drinks and extras offered in the booking forms
+ * - Category and item CRUD with submenu variants (Admin only)
+ * - Availability toggles and ordering
+ * - Public catalog for the booking forms
+ */
+
+const catalogInclude = {
+  items: {
+    orderBy: { order: 'asc' as const },
+    include: {
+      variants: {
+        orderBy: { order: 'asc' as const },
+      },
+    },
+  },
+}
+
+/**
+ * Room items must match a bookable resource so conflicts are detected
+ */
+function checkRoomSlug(kind: BookingLineItemKind, slug: string) {
+  if (kind === 'ROOM' && !(BOOKING_RESOURCE_IDS as readonly string[]).includes(slug)) {
+    return `Room slug must be one of: ${BOOKING_RESOURCE_IDS.join(', ')}`
+  }
+  return null
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get all categories with their items and variants (Admin only)
+ */
+export async function getCatalog() {
+  try {
+    await requireAdmin()
+
+    const categories = await prisma.catalogCategory.findMany({
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      include: catalogInclude,
+    })
+
+    // Decimal can't be passed to client components
+    return {
+      success: true,
+      categories: categories.map(category => ({
+        ...category,
+        items: category.items.map(item => ({
+          ...item,
+          priceAmount: item.priceAmount === null ? null : Number(item.priceAmount),
+        })),
+      })),
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Unauthorized' }
+  }
+}
+
+/**
+ * Get a single catalog item by ID (Admin only)
+ */
+export async function getCatalogItemById(id: string) {
+  try {
+    await requireAdmin()
+
+    const item = await prisma.catalogItem.findUnique({
+      where: { id },
+      include: {
+        variants: { orderBy: { order: 'asc' } },
+      },
+    })
+
+    if (!item) {
+      return { success: false, error: 'Catalog item not found' }
+    }
+
+    return {
+      success: true,
+      item: {
+        ...item,
+        priceAmount: item.priceAmount === null ? null : Number(item.priceAmount),
+      },
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message }
+    }
+    return { success: false, error: 'Unauthorized' }
+  }
+}
+
+/**
+ * Get the available options for the booking forms, grouped by kind
+ */
+export async function getBookingCatalog() {
+  try {
+    const categories = await prisma.catalogCategory.findMany({
+      include: catalogInclude,
+    })
+
+    const catalog = buildBookingCatalog(
+      categories.map(category => ({
+        ...category,
+        items: category.items.map(item => ({
+          ...item,
+          priceAmount: item.priceAmount === null ? null : Number(item.priceAmount),
+        })),
+      }))
+    )
+
+    return { success: true, catalog }
+  } catch (error) {
+    logger.serverActionError('getBookingCatalog', error)
+    return {
+      success: false,
+      error: 'Failed to fetch catalog',
+      catalog: { ROOM: [], FOOD: [], BEVERAGE: [], ADDON: [] } as BookingCatalog,
+    }
+  }
+}
+
+// ============================================
+// CATEGORY MUTATIONS
+// ============================================
+
+/**
+ * Create a catalog category
+ */
+export async function createCatalogCategory(data: CreateCatalogCategoryInput) {
+  try {
+    const session = await requireAdmin()
+
+    // Validate input
+    const validatedData = createCatalogCategorySchema.parse(data)
+
+    const maxOrder = await prisma.catalogCategory.findFirst({
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    })
+
+    const category = await prisma.catalogCategory.create({
+      data: {
+        ...validatedData,
+        order: (maxOrder?.order ?? -1) + 1,
+      },
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'CREATE',
+      entity: 'CatalogCategory',
+      entityId: category.id,
+      changes: validatedData,
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      category,
+      message: 'Category created successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('createCatalogCategory', error)
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+
+    return { success: false, error: sanitizeErrorForClient(error) }
+  }
+}
+
+/**
+ * Update a catalog category
+ */
+export async function updateCatalogCategory(id: string, data: UpdateCatalogCategoryInput) {
+  try {
+    const session = await requireAdmin()
+
+    // Validate input
+    const validatedData = updateCatalogCategorySchema.parse(data)
+
+    const category = await prisma.catalogCategory.update({
+      where: { id },
+      data: validatedData,
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'CatalogCategory',
+      entityId: id,
+      changes: validatedData,
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      category,
+      message: 'Category updated successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('updateCatalogCategory', error)
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+
+    return { success: false, error: 'Failed to update category' }
+  }
+}
+
+/**
+ * Delete an empty catalog category
+ */
+export async function deleteCatalogCategory(id: string) {
+  try {
+    const session = await requireAdmin()
+
+    const itemCount = await prisma.catalogItem.count({
+      where: { categoryId: id },
+    })
+
+    if (itemCount > 0) {
+      return { success: false, error: 'Move or delete the items in this category first' }
+    }
+
+    await prisma.catalogCategory.delete({
+      where: { id },
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'DELETE',
+      entity: 'CatalogCategory',
+      entityId: id,
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      message: 'Category deleted successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('deleteCatalogCategory', error)
+    return { success: false, error: 'Failed to delete category' }
+  }
+}
+
+/**
+ * Reorder catalog categories
+ */
+export async function reorderCatalogCategories(categoryIds: string[]) {
+  try {
+    const session = await requireAdmin()
+
+    await prisma.$transaction(
+      categoryIds.map((id, index) =>
+        prisma.catalogCategory.update({
+          where: { id },
+          data: { order: index },
+        })
+      )
+    )
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'CatalogCategory',
+      entityId: 'multiple',
+      changes: { newOrder: categoryIds },
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      message: 'Categories reordered successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('reorderCatalogCategories', error)
+    return { success: false, error: 'Failed to reorder categories' }
+  }
+}
+
+// ============================================
+// ITEM MUTATIONS
+// ============================================
+
+/**
+ * Create a catalog item with its variants
+ */
+export async function createCatalogItem(data: CreateCatalogItemInput) {
+  try {
+    const session = await requireAdmin()
+
+    // Validate input
+    const { categoryId, slug, variants, ...validatedData } = createCatalogItemSchema.parse(data)
+
+    const category = await prisma.catalogCategory.findUnique({
+      where: { id: categoryId },
+    })
+
+    if (!category) {
+      return { success: false, error: 'Category not found' }
+    }
+
+    const roomError = checkRoomSlug(category.kind, slug)
+    if (roomError) {
+      return { success: false, error: roomError }
+    }
+
+    const code = getCatalogCode(category.kind, slug)
+    const existingItem = await prisma.catalogItem.findUnique({
+      where: { code },
+    })
+
+    if (existingItem) {
+      return { success: false, error: `An item with the code ${code} already exists` }
+    }
+
+    const maxOrder = await prisma.catalogItem.findFirst({
+      where: { categoryId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    })
+
+    const item = await prisma.catalogItem.create({
+      data: {
+        ...validatedData,
+        categoryId,
+        code,
+        order: (maxOrder?.order ?? -1) + 1,
+        variants: {
+          create: variants.map((variant, index) => ({ ...variant, order: index })),
+        },
+      },
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'CREATE',
+      entity: 'CatalogItem',
+      entityId: item.id,
+      changes: { code, ...validatedData, variants },
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      item: { id: item.id, code: item.code },
+      message: 'Item created successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('createCatalogItem', error)
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+
+    return { success: false, error: sanitizeErrorForClient(error) }
+  }
+}
+
+/**
+ * Update a catalog item
+ * Variants, when given, replace the item's existing variants.
+ */
+export async function updateCatalogItem(id: string, data: UpdateCatalogItemInput) {
+  try {
+    const session = await requireAdmin()
+
+    // Validate input
+    const { slug, variants, ...validatedData } = updateCatalogItemSchema.parse(data)
+
+    const existingItem = await prisma.catalogItem.findUnique({
+      where: { id },
+      include: { category: true },
+    })
+
+    if (!existingItem) {
+      return { success: false, error: 'Catalog item not found' }
+    }
+
+    let code = existingItem.code
+    if (slug) {
+      const roomError = checkRoomSlug(existingItem.category.kind, slug)
+      if (roomError) {
+        return { success: false, error: roomError }
+      }
+
+      code = getCatalogCode(existingItem.category.kind, slug)
+      const duplicate = await prisma.catalogItem.findFirst({
+        where: { code, id: { not: id } },
+      })
+
+      if (duplicate) {
+        return { success: false, error: `An item with the code ${code} already exists` }
+      }
+    }
+
+    const item = await prisma.$transaction(async (tx) => {
+      if (variants) {
+        await tx.catalogVariant.deleteMany({ where: { itemId: id } })
+      }
+
+      return tx.catalogItem.update({
+        where: { id },
+        data: {
+          ...validatedData,
+          code,
+          ...(variants && {
+            variants: {
+              create: variants.map((variant, index) => ({ ...variant, order: index })),
+            },
+          }),
+        },
+      })
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'CatalogItem',
+      entityId: id,
+      changes: { code, ...validatedData, ...(variants && { variants }) },
+    })
+
+    revalidatePath('/admin/catalog')
+    revalidatePath(`/admin/catalog/${id}/edit`)
+
+    return {
+      success: true,
+      item: { id: item.id, code: item.code },
+      message: 'Item updated successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('updateCatalogItem', error)
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+
+    return { success: false, error: 'Failed to update item' }
+  }
+}
+
+/**
+ * Show or hide a catalog item in the booking forms
+ */
+export async function setCatalogItemAvailability(id: string, isAvailable: boolean) {
+  try {
+    const session = await requireAdmin()
+
+    await prisma.catalogItem.update({
+      where: { id },
+      data: { isAvailable },
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'CatalogItem',
+      entityId: id,
+      changes: { isAvailable },
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      message: isAvailable ? 'Item is now available' : 'Item is now hidden from booking forms',
+    }
+  } catch (error) {
+    logger.serverActionError('setCatalogItemAvailability', error)
+    return { success: false, error: 'Failed to update availability' }
+  }
+}
+
+/**
+ * Delete a catalog item
+ * Existing bookings keep their line items.
+ */
+export async function deleteCatalogItem(id: string) {
+  try {
+    const session = await requireAdmin()
+
+    await prisma.catalogItem.delete({
+      where: { id },
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'DELETE',
+      entity: 'CatalogItem',
+      entityId: id,
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      message: 'Item deleted successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('deleteCatalogItem', error)
+    return { success: false, error: 'Failed to delete item' }
+  }
+}
+
+/**
+ * Reorder the items of a category
+ */
+export async function reorderCatalogItems(itemIds: string[]) {
+  try {
+    const session = await requireAdmin()
+
+    await prisma.$transaction(
+      itemIds.map((id, index) =>
+        prisma.catalogItem.update({
+          where: { id },
+          data: { order: index },
+        })
+      )
+    )
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'CatalogItem',
+      entityId: 'multiple',
+      changes: { newOrder: itemIds },
+    })
+
+    revalidatePath('/admin/catalog')
+
+    return {
+      success: true,
+      message: 'Items reordered successfully',
+    }
+  } catch (error) {
+    logger.serverActionError('reorderCatalogItems', error)
+    return { success: false, error: 'Failed to reorder items' }
+  }
+}
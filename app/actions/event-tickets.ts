@@ -0,0 +1,121 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { requireAdmin } from '@/lib/auth-utils'
+import { revalidatePath } from 'next/cache'
+import { SEATED_STATUSES } from '@/lib/event-capacity'
+import {
+  getTicketAmount,
+  getTicketProblem,
+  getTicketSecret,
+  verifyTicketToken,
+  type TicketScanResult
+} from '@/lib/event-tickets'
+import { redeemTicketsSchema, type RedeemTicketsInput } from '@/lib/validations/events'
+
+/**
+ * Event Ticket Server Actions
+ *
+ * Check-in for event tickets (see lib/event-tickets.ts)
+ */
+
+/**
+ * Redeem scanned tickets for an event occurrence (Admin only)
+ *
+ * Accepts a batch so scans queued while the check-in screen was offline can
+ * be synced at once. Each ticket is redeemed at most once, across devices:
+ * later scans of the same ticket report when it was first checked in.
+ * Offline scans keep the time they were scanned as the check-in time.
+ * @param data - Event occurrence and scanned tokens
+ * @returns Result per scan, in order
+ */
+export async function redeemEventTickets(data: RedeemTicketsInput) {
+  try {
+    const session = await requireAdmin()
+
+    const { eventId, occurrenceDate, scans } = redeemTicketsSchema.parse(data)
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { price: true }
+    })
+
+    if (!event) {
+      return { success: false, error: 'Event not found', results: [] }
+    }
+
+    const secret = getTicketSecret()
+    const now = new Date()
+    const results: TicketScanResult[] = []
+    const checkedIn: string[] = []
+
+    for (const scan of scans) {
+      const token = scan.token.trim()
+      const attendeeId = verifyTicketToken(token, secret)
+      const attendee = attendeeId
+        ? await prisma.eventAttendee.findUnique({ where: { id: attendeeId } })
+        : null
+
+      if (!attendee) {
+        results.push({ token, outcome: 'invalid' })
+        continue
+      }
+
+      const holder = {
+        token,
+        attendeeName: attendee.name,
+        guestCount: attendee.guestCount,
+        amountDue: getTicketAmount(event.price, attendee.guestCount),
+      }
+
+      const problem = getTicketProblem(attendee, eventId, occurrenceDate)
+      if (problem) {
+        results.push({ ...holder, outcome: problem, checkedInAt: attendee.checkedInAt })
+        continue
+      }
+
+      // Only the first redemption wins, even with several devices scanning at once
+      const checkedInAt = scan.scannedAt < now ? scan.scannedAt : now
+      const { count } = await prisma.eventAttendee.updateMany({
+        where: { id: attendee.id, checkedInAt: null, status: { in: SEATED_STATUSES } },
+        data: { checkedInAt, checkedInBy: session.user.id }
+      })
+
+      if (count === 0) {
+        const current = await prisma.eventAttendee.findUnique({
+          where: { id: attendee.id },
+          select: { checkedInAt: true }
+        })
+        results.push({ ...holder, outcome: 'already_checked_in', checkedInAt: current?.checkedInAt ?? null })
+        continue
+      }
+
+      checkedIn.push(attendee.id)
+      results.push({ ...holder, outcome: 'checked_in', checkedInAt })
+    }
+
+    if (checkedIn.length > 0) {
+      await logAudit({
+        userId: session.user.id,
+        action: 'UPDATE',
+        entity: 'Event',
+        entityId: eventId,
+        changes: { occurrenceDate, checkedIn },
+      })
+
+      revalidatePath(`/admin/events/${eventId}/edit`)
+      revalidatePath(`/admin/events/${eventId}/check-in`)
+    }
+
+    return { success: true, results }
+  } catch (error) {
+    logger.serverActionError('redeemEventTickets', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check in tickets',
+      results: []
+    }
+  }
+}
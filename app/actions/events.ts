@@ -3,20 +3,52 @@
 import { prisma } from '@/lib/db'
 import { logAudit } from '@/lib/audit'
 import { logger } from '@/lib/logger'
-import { requireAdmin } from '@/lib/auth-utils'
+import { requireAdmin, requireAuth } from '@/lib/auth-utils'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { revalidatePath } from 'next/cache'
+import { addDays, format, parseISO, startOfDay } from 'date-fns'
 import { notifyAllAdmins } from './notifications'
+import { sendEventConfirmations } from '@/lib/event-email-delivery'
+import { SEATED_STATUSES, pickWaitlistPromotions, planRegistration } from '@/lib/event-capacity'
+import {
+  OCCURRENCE_WINDOW_DAYS,
+  expandEventOccurrences,
+  findEventOccurrence,
+  getEventRule,
+  getOccurrenceKey,
+  isEventOccurrence
+} from '@/lib/event-occurrences'
+import type { EventAttendee, Prisma } from '@prisma/client'
 import {
   createEventSchema,
   updateEventSchema,
   reorderEventsSchema,
   rsvpSchema,
+  eventOccurrenceExceptionSchema,
   type CreateEventInput,
   type UpdateEventInput,
   type ReorderEventsInput,
-  type RSVPInput
+  type RSVPInput,
+  type EventOccurrenceExceptionInput
 } from '@/lib/validations/events'
 
+/**
+ * Seats held per occurrence, keyed by `${eventId}:${occurrenceDate}`
+ */
+async function getOccurrenceSeats(eventIds: string[]) {
+  const groups = await prisma.eventAttendee.groupBy({
+    by: ['eventId', 'occurrenceDate'],
+    where: { eventId: { in: eventIds }, status: { in: SEATED_STATUSES } },
+    _sum: { guestCount: true }
+  })
+
+  const seats: Record<string, number> = {}
+  for (const group of groups) {
+    seats[`${group.eventId}:${group.occurrenceDate}`] = group._sum.guestCount ?? 0
+  }
+  return seats
+}
+
 /**
  * Get all events with optional filtering (Admin only)
  * @param filters - Filter options
@@ -53,6 +85,7 @@ export async function getEvents({
       prisma.event.findMany({
         where,
         include: {
+          exceptions: true,
           _count: {
             select: { attendees: true }
           }
@@ -64,12 +97,14 @@ export async function getEvents({
       prisma.event.count({ where }),
     ])
 
-    return { success: true, events, total }
+    const occurrenceSeats = await getOccurrenceSeats(events.map(event => event.id))
+
+    return { success: true, events, total, occurrenceSeats }
   } catch (error) {
     if (error instanceof Error) {
-      return { success: false, error: error.message, events: [], total: 0 }
+      return { success: false, error: error.message, events: [], total: 0, occurrenceSeats: {} }
     }
-    return { success: false, error: 'Unauthorized', events: [], total: 0 }
+    return { success: false, error: 'Unauthorized', events: [], total: 0, occurrenceSeats: {} }
   }
 }
 
@@ -86,7 +121,10 @@ export async function getEventById(id: string) {
       where: { id },
       include: {
         attendees: {
-          orderBy: { registeredAt: 'desc' }
+          orderBy: [{ occurrenceDate: 'asc' }, { waitlistPosition: 'asc' }, { registeredAt: 'desc' }]
+        },
+        exceptions: {
+          orderBy: { date: 'asc' }
         }
       }
     })
@@ -123,6 +161,9 @@ export async function getEventBySlug(slug: string) {
 
 /**
  * Get published events for public display
+ *
+ * Recurring events are listed once per upcoming occurrence (cancelled ones
+ * left out), with the occurrence's date, time and seats.
  * @param limit - Maximum number of events to return
  * @returns Array of published events
  */
@@ -130,11 +171,35 @@ export async function getPublishedEvents(limit = 10) {
   try {
     const events = await prisma.event.findMany({
       where: { status: 'PUBLISHED' },
+      include: { exceptions: true },
       orderBy: [{ date: 'asc' }],
-      take: limit,
     })
 
-    return { success: true, events }
+    const from = startOfDay(new Date())
+    const to = addDays(from, OCCURRENCE_WINDOW_DAYS)
+    const seats = await getOccurrenceSeats(events.filter(event => getEventRule(event)).map(event => event.id))
+
+    const listed = events.flatMap(({ exceptions, ...event }) => {
+      if (!getEventRule(event)) {
+        return [{ ...event, occurrenceDate: getOccurrenceKey(event.date), isMoved: false }]
+      }
+
+      return expandEventOccurrences(event, exceptions, from, to)
+        .filter(occurrence => occurrence.status !== 'CANCELLED')
+        .map(occurrence => ({
+          ...event,
+          date: occurrence.date,
+          time: occurrence.time,
+          endTime: occurrence.endTime,
+          registeredCount: seats[`${event.id}:${occurrence.occurrenceDate}`] ?? 0,
+          occurrenceDate: occurrence.occurrenceDate,
+          isMoved: occurrence.status === 'MOVED',
+        }))
+    })
+
+    listed.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+    return { success: true, events: listed.slice(0, limit) }
   } catch (error) {
     logger.serverActionError('getPublishedEvents', error)
     return { success: false, events: [] }
@@ -252,6 +317,23 @@ export async function updateEvent(id: string, data: UpdateEventInput) {
       changes: validatedData,
     })
 
+    // A raised capacity frees seats for the waitlists
+    if (validatedData.capacity !== undefined) {
+      try {
+        const waitlisted = await prisma.eventAttendee.findMany({
+          where: { eventId: id, status: 'WAITLIST' },
+          distinct: ['occurrenceDate'],
+          select: { occurrenceDate: true }
+        })
+
+        for (const { occurrenceDate } of waitlisted) {
+          await promoteFromWaitlist(id, occurrenceDate)
+        }
+      } catch (promoteError) {
+        logger.error('Failed to promote event waitlist', promoteError instanceof Error ? promoteError : new Error(String(promoteError)))
+      }
+    }
+
     revalidatePath('/admin/events')
     revalidatePath(`/admin/events/${id}`)
     revalidatePath('/', 'page') // Revalidate main page with Cafe section
@@ -481,19 +563,143 @@ export async function archiveEvent(id: string) {
   }
 }
 
+/**
+ * Serialize seat changes for an event and return the seats currently held
+ * on one of its occurrences. The lock covers all occurrences of the event
+ * and is released automatically when the transaction ends.
+ */
+async function lockEventSeats(tx: Prisma.TransactionClient, eventId: string, occurrenceDate: string) {
+  const lockKey = `event:${eventId}`
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`
+
+  const seats = await tx.eventAttendee.aggregate({
+    where: { eventId, occurrenceDate, status: { in: SEATED_STATUSES } },
+    _sum: { guestCount: true }
+  })
+
+  return seats._sum.guestCount ?? 0
+}
+
+/**
+ * Store the seats held across all occurrences of an event in registeredCount
+ */
+async function syncRegisteredCount(tx: Prisma.TransactionClient, eventId: string) {
+  const seats = await tx.eventAttendee.aggregate({
+    where: { eventId, status: { in: SEATED_STATUSES } },
+    _sum: { guestCount: true }
+  })
+
+  await tx.event.update({
+    where: { id: eventId },
+    data: { registeredCount: seats._sum.guestCount ?? 0 }
+  })
+}
+
+/**
+ * Renumber an occurrence's waitlist 1..n, keeping its current order
+ */
+async function renumberWaitlist(tx: Prisma.TransactionClient, eventId: string, occurrenceDate: string) {
+  const waitlist = await tx.eventAttendee.findMany({
+    where: { eventId, occurrenceDate, status: 'WAITLIST' },
+    orderBy: [{ waitlistPosition: 'asc' }, { registeredAt: 'asc' }],
+    select: { id: true, waitlistPosition: true }
+  })
+
+  for (const [index, entry] of waitlist.entries()) {
+    if (entry.waitlistPosition !== index + 1) {
+      await tx.eventAttendee.update({
+        where: { id: entry.id },
+        data: { waitlistPosition: index + 1 }
+      })
+    }
+  }
+}
+
+/**
+ * Fill free seats of an occurrence from the front of its waitlist
+ *
+ * Only published events are filled automatically, in waitlist order (see
+ * pickWaitlistPromotions), and never on cancelled occurrences. Promoted
+ * attendees are confirmed and emailed their ticket.
+ * @param eventId - Event ID
+ * @param occurrenceDate - Occurrence date (yyyy-MM-dd)
+ * @returns Promoted attendees
+ */
+async function promoteFromWaitlist(eventId: string, occurrenceDate: string) {
+  const result = await prisma.$transaction(async (tx) => {
+    const seatsTaken = await lockEventSeats(tx, eventId, occurrenceDate)
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+      include: { exceptions: true }
+    })
+
+    if (!event || event.status !== 'PUBLISHED') {
+      return null
+    }
+
+    if (findEventOccurrence(event, event.exceptions, occurrenceDate)?.status === 'CANCELLED') {
+      return null
+    }
+
+    const waitlist = await tx.eventAttendee.findMany({
+      where: { eventId, occurrenceDate, status: 'WAITLIST' },
+      orderBy: [{ waitlistPosition: 'asc' }, { registeredAt: 'asc' }]
+    })
+    const promoted = pickWaitlistPromotions(waitlist, event.capacity ? event.capacity - seatsTaken : null)
+
+    if (promoted.length === 0) {
+      return null
+    }
+
+    await tx.eventAttendee.updateMany({
+      where: { id: { in: promoted.map(attendee => attendee.id) } },
+      data: { status: 'CONFIRMED', waitlistPosition: null }
+    })
+    await syncRegisteredCount(tx, eventId)
+    await renumberWaitlist(tx, eventId, occurrenceDate)
+
+    return { event, promoted }
+  })
+
+  if (!result) {
+    return []
+  }
+
+  logger.info('Promoted event attendees from waitlist', {
+    eventId,
+    occurrenceDate,
+    attendeeIds: result.promoted.map(attendee => attendee.id)
+  })
+  await sendEventConfirmations(result.promoted.map(attendee => attendee.id), { promoted: true })
+
+  return result.promoted
+}
+
+type RegistrationOutcome =
+  | { kind: 'partial'; remainingSeats: number }
+  | { kind: 'waitlist'; attendee: EventAttendee }
+  | { kind: 'seated'; attendee: EventAttendee; seatsTaken: number }
+
 /**
  * Register for an event (RSVP) - Public
+ *
+ * RSVPs are per occurrence: recurring events need the occurrenceDate to
+ * attend, one-off events default to their date. Every guest takes a seat.
+ * Once the occurrence is full, registrations join the end of its waitlist.
+ * A party that only partly fits is offered the remaining seats, or can set
+ * joinWaitlist to wait for the whole party. Seated attendees are emailed
+ * their ticket (see lib/event-tickets.ts).
  * @param data - RSVP data
  * @returns Success status
  */
 export async function registerForEvent(data: RSVPInput) {
   try {
-    const validatedData = rsvpSchema.parse(data)
+    const { joinWaitlist, occurrenceDate: requestedDate, ...validatedData } = rsvpSchema.parse(data)
 
-    // Check if event exists and has capacity
+    // Check if event exists and is open
     const event = await prisma.event.findUnique({
       where: { id: validatedData.eventId },
-      include: { _count: { select: { attendees: true } } }
+      include: { exceptions: true }
     })
 
     if (!event) {
@@ -504,68 +710,152 @@ export async function registerForEvent(data: RSVPInput) {
       return { success: false, error: 'Event is not available for registration' }
     }
 
-    if (event.capacity && event._count.attendees >= event.capacity) {
-      return { success: false, error: 'Event is full' }
+    const occurrenceDate = requestedDate ?? (getEventRule(event) ? null : getOccurrenceKey(event.date))
+    if (!occurrenceDate) {
+      return { success: false, error: 'Please choose a date for this event' }
+    }
+
+    const occurrence = findEventOccurrence(event, event.exceptions, occurrenceDate)
+    if (!occurrence) {
+      return { success: false, error: 'This event does not take place on the chosen date' }
+    }
+
+    if (occurrence.status === 'CANCELLED') {
+      return { success: false, error: 'This date has been cancelled' }
     }
 
-    // Check if already registered
+    // Check if already registered (registrations of a cancelled date may register again)
     const existingRSVP = await prisma.eventAttendee.findUnique({
       where: {
-        eventId_email: {
+        eventId_occurrenceDate_email: {
           eventId: validatedData.eventId,
+          occurrenceDate,
           email: validatedData.email
         }
       }
     })
 
-    if (existingRSVP) {
-      return { success: false, error: 'You are already registered for this event' }
+    if (existingRSVP && existingRSVP.status !== 'CANCELLED') {
+      return {
+        success: false,
+        error: existingRSVP.status === 'WAITLIST'
+          ? 'You are already on the waitlist for this date'
+          : 'You are already registered for this date'
+      }
     }
 
-    // Create attendee
-    const attendee = await prisma.eventAttendee.create({
-      data: {
-        ...validatedData,
-        status: 'CONFIRMED'
+    // Seats are counted and taken under the event lock so concurrent RSVPs can't oversell
+    const outcome = await prisma.$transaction(async (tx): Promise<RegistrationOutcome> => {
+      const seatsTaken = await lockEventSeats(tx, event.id, occurrenceDate)
+      const plan = planRegistration(event.capacity, seatsTaken, validatedData.guestCount)
+
+      if (plan.kind === 'partial' && !joinWaitlist) {
+        return plan
       }
-    })
 
-    // Update registered count
-    const updatedEvent = await prisma.event.update({
-      where: { id: validatedData.eventId },
-      data: { registeredCount: { increment: 1 } },
-      include: { _count: { select: { attendees: true } } }
+      if (existingRSVP) {
+        await tx.eventAttendee.delete({ where: { id: existingRSVP.id } })
+      }
+
+      if (plan.kind !== 'seated') {
+        const last = await tx.eventAttendee.aggregate({
+          where: { eventId: event.id, occurrenceDate, status: 'WAITLIST' },
+          _max: { waitlistPosition: true }
+        })
+
+        const attendee = await tx.eventAttendee.create({
+          data: {
+            ...validatedData,
+            occurrenceDate,
+            status: 'WAITLIST',
+            waitlistPosition: (last._max.waitlistPosition ?? 0) + 1
+          }
+        })
+
+        return { kind: 'waitlist', attendee }
+      }
+
+      const attendee = await tx.eventAttendee.create({
+        data: {
+          ...validatedData,
+          occurrenceDate,
+          status: 'CONFIRMED'
+        }
+      })
+
+      // Update registered seats
+      await syncRegisteredCount(tx, event.id)
+
+      return { kind: 'seated', attendee, seatsTaken: seatsTaken + attendee.guestCount }
     })
 
+    if (outcome.kind === 'partial') {
+      const plural = outcome.remainingSeats > 1 ? 's' : ''
+      return {
+        success: false,
+        remainingSeats: outcome.remainingSeats,
+        error: `Only ${outcome.remainingSeats} seat${plural} left. Register ${outcome.remainingSeats} guest${plural} or join the waitlist for the whole party`
+      }
+    }
+
+    const { attendee } = outcome
+    const eventLabel = `"${event.title}" on ${format(occurrence.date, 'MMM d, yyyy')}`
+
+    if (outcome.kind === 'waitlist') {
+      try {
+        await notifyAllAdmins({
+          type: 'NEW_EVENT_REGISTRATION',
+          title: 'New Event Waitlist Entry',
+          message: `${validatedData.name} joined the waitlist for ${eventLabel} (#${attendee.waitlistPosition}, ${validatedData.guestCount} guest${validatedData.guestCount > 1 ? 's' : ''})`,
+          data: { eventId: event.id, attendeeId: attendee.id }
+        })
+      } catch (notifError) {
+        logger.error('Failed to send event waitlist notification', notifError instanceof Error ? notifError : new Error(String(notifError)))
+      }
+
+      revalidatePath('/admin/events')
+      revalidatePath(`/admin/events/${event.id}/edit`)
+
+      return {
+        success: true,
+        attendee,
+        waitlisted: true,
+        message: `This date is full. You are #${attendee.waitlistPosition} on the waitlist and will be emailed if seats open up`
+      }
+    }
+
     // Notify admins of new registration
     try {
       await notifyAllAdmins({
         type: 'NEW_EVENT_REGISTRATION',
         title: 'New Event Registration',
-        message: `${validatedData.name} registered for "${event.title}" (${validatedData.guestCount} guest${validatedData.guestCount > 1 ? 's' : ''})`,
+        message: `${validatedData.name} registered for ${eventLabel} (${validatedData.guestCount} guest${validatedData.guestCount > 1 ? 's' : ''})`,
         data: { eventId: event.id, attendeeId: attendee.id }
       })
 
       // Check if event is now full
-      if (event.capacity && updatedEvent._count.attendees >= event.capacity) {
+      if (event.capacity && outcome.seatsTaken >= event.capacity) {
         await notifyAllAdmins({
           type: 'EVENT_FULL',
           title: 'Event Full',
-          message: `"${event.title}" has reached capacity (${event.capacity}/${event.capacity})`,
-          data: { eventId: event.id }
+          message: `${eventLabel} has reached capacity (${outcome.seatsTaken}/${event.capacity} seats)`,
+          data: { eventId: event.id, occurrenceDate }
         })
       }
     } catch (notifError) {
       logger.error('Failed to send event registration notification', notifError instanceof Error ? notifError : new Error(String(notifError)))
     }
 
+    await sendEventConfirmations([attendee.id])
+
     revalidatePath(`/events/${event.slug}`)
     revalidatePath('/admin/events')
 
     return {
       success: true,
       attendee,
-      message: 'Successfully registered for event'
+      waitlisted: false,
+      message: 'Successfully registered for event. Your ticket is on its way by email'
     }
   } catch (error) {
     logger.serverActionError('registerForEvent', error)
@@ -578,31 +868,68 @@ export async function registerForEvent(data: RSVPInput) {
 
 /**
  * Cancel event registration
+ *
+ * Attendees may cancel their own registration, matched by account or by the
+ * account's verified email; admins may cancel any.
  * @param attendeeId - Attendee ID
  * @returns Success status
  */
 export async function cancelRegistration(attendeeId: string) {
   try {
+    const session = await requireAuth()
+
     const attendee = await prisma.eventAttendee.findUnique({
       where: { id: attendeeId },
       include: { event: true }
     })
 
-    if (!attendee) {
+    const isAttendee = !!attendee && (
+      attendee.userId === session.user.id ||
+      (session.user.hasVerifiedEmail && attendee.email.toLowerCase() === session.user.email?.toLowerCase())
+    )
+    const isAdmin = (session.user.role === 'ADMIN' || session.user.role === 'SUPER_ADMIN') &&
+      !isTwoFactorBlocking(session.user.twoFactor)
+
+    if (!attendee || (!isAttendee && !isAdmin)) {
       return { success: false, error: 'Registration not found' }
     }
 
-    await prisma.eventAttendee.delete({
-      where: { id: attendeeId }
+    const heldSeat = SEATED_STATUSES.includes(attendee.status)
+
+    await prisma.$transaction(async (tx) => {
+      await lockEventSeats(tx, attendee.eventId, attendee.occurrenceDate)
+
+      await tx.eventAttendee.delete({
+        where: { id: attendeeId }
+      })
+
+      if (heldSeat) {
+        // Update registered seats
+        await syncRegisteredCount(tx, attendee.eventId)
+      } else if (attendee.status === 'WAITLIST') {
+        await renumberWaitlist(tx, attendee.eventId, attendee.occurrenceDate)
+      }
     })
 
-    // Update registered count
-    await prisma.event.update({
-      where: { id: attendee.eventId },
-      data: { registeredCount: { decrement: 1 } }
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Event',
+      entityId: attendee.eventId,
+      changes: { attendeeId, occurrenceDate: attendee.occurrenceDate, status: { from: attendee.status, to: 'CANCELLED' } },
     })
 
+    // Hand the freed seats to the waitlist
+    if (heldSeat) {
+      try {
+        await promoteFromWaitlist(attendee.eventId, attendee.occurrenceDate)
+      } catch (promoteError) {
+        logger.error('Failed to promote event waitlist', promoteError instanceof Error ? promoteError : new Error(String(promoteError)))
+      }
+    }
+
     revalidatePath('/admin/events')
+    revalidatePath(`/admin/events/${attendee.eventId}/edit`)
     revalidatePath(`/events/${attendee.event.slug}`)
 
     return {
@@ -617,3 +944,278 @@ export async function cancelRegistration(attendeeId: string) {
     }
   }
 }
+
+/**
+ * Promote a waitlisted attendee to confirmed (Admin only)
+ *
+ * Admins may promote past capacity.
+ * @param attendeeId - Attendee ID
+ * @returns Success status
+ */
+export async function promoteEventAttendee(attendeeId: string) {
+  try {
+    const session = await requireAdmin()
+
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { id: attendeeId },
+      include: { event: { include: { exceptions: true } } }
+    })
+
+    if (!attendee) {
+      return { success: false, error: 'Registration not found' }
+    }
+
+    if (attendee.status !== 'WAITLIST') {
+      return { success: false, error: 'Only waitlisted attendees can be promoted' }
+    }
+
+    if (findEventOccurrence(attendee.event, attendee.event.exceptions, attendee.occurrenceDate)?.status === 'CANCELLED') {
+      return { success: false, error: 'This date has been cancelled' }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await lockEventSeats(tx, attendee.eventId, attendee.occurrenceDate)
+
+      await tx.eventAttendee.update({
+        where: { id: attendeeId },
+        data: { status: 'CONFIRMED', waitlistPosition: null }
+      })
+      await syncRegisteredCount(tx, attendee.eventId)
+      await renumberWaitlist(tx, attendee.eventId, attendee.occurrenceDate)
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Event',
+      entityId: attendee.eventId,
+      changes: { attendeeId, occurrenceDate: attendee.occurrenceDate, status: { from: 'WAITLIST', to: 'CONFIRMED' } },
+    })
+
+    await sendEventConfirmations([attendee.id], { promoted: true })
+
+    revalidatePath('/admin/events')
+    revalidatePath(`/admin/events/${attendee.eventId}/edit`)
+    revalidatePath(`/events/${attendee.event.slug}`)
+
+    return {
+      success: true,
+      message: `${attendee.name} promoted from the waitlist`
+    }
+  } catch (error) {
+    logger.serverActionError('promoteEventAttendee', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to promote attendee'
+    }
+  }
+}
+
+/**
+ * Move an attendee back to the front of the waitlist (Admin only)
+ *
+ * The freed seats are not refilled automatically, otherwise the attendee
+ * would be promoted straight back.
+ * @param attendeeId - Attendee ID
+ * @returns Success status
+ */
+export async function demoteEventAttendee(attendeeId: string) {
+  try {
+    const session = await requireAdmin()
+
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { id: attendeeId },
+      include: { event: true }
+    })
+
+    if (!attendee) {
+      return { success: false, error: 'Registration not found' }
+    }
+
+    if (!SEATED_STATUSES.includes(attendee.status)) {
+      return { success: false, error: 'Only registered attendees can be moved to the waitlist' }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await lockEventSeats(tx, attendee.eventId, attendee.occurrenceDate)
+
+      await tx.eventAttendee.updateMany({
+        where: { eventId: attendee.eventId, occurrenceDate: attendee.occurrenceDate, status: 'WAITLIST' },
+        data: { waitlistPosition: { increment: 1 } }
+      })
+      await tx.eventAttendee.update({
+        where: { id: attendeeId },
+        data: { status: 'WAITLIST', waitlistPosition: 1 }
+      })
+      await syncRegisteredCount(tx, attendee.eventId)
+      await renumberWaitlist(tx, attendee.eventId, attendee.occurrenceDate)
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Event',
+      entityId: attendee.eventId,
+      changes: { attendeeId, occurrenceDate: attendee.occurrenceDate, status: { from: attendee.status, to: 'WAITLIST' } },
+    })
+
+    revalidatePath('/admin/events')
+    revalidatePath(`/admin/events/${attendee.eventId}/edit`)
+    revalidatePath(`/events/${attendee.event.slug}`)
+
+    return {
+      success: true,
+      message: `${attendee.name} moved to the front of the waitlist`
+    }
+  } catch (error) {
+    logger.serverActionError('demoteEventAttendee', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to move attendee to the waitlist'
+    }
+  }
+}
+
+/**
+ * Cancel or move a single occurrence of a recurring event (Admin only)
+ *
+ * Registrations and the waitlist of a cancelled occurrence are cancelled.
+ * Moved occurrences keep their registrations.
+ * @param eventId - Event ID
+ * @param data - Occurrence date and how it changes
+ * @returns Success status
+ */
+export async function setEventOccurrenceException(eventId: string, data: EventOccurrenceExceptionInput) {
+  try {
+    const session = await requireAdmin()
+
+    const { occurrenceDate, ...validatedData } = eventOccurrenceExceptionSchema.parse(data)
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId }
+    })
+
+    if (!event) {
+      return { success: false, error: 'Event not found' }
+    }
+
+    if (!getEventRule(event)) {
+      return { success: false, error: 'Only dates of recurring events can be cancelled or moved' }
+    }
+
+    if (!isEventOccurrence(event, occurrenceDate)) {
+      return { success: false, error: 'This event does not take place on the chosen date' }
+    }
+
+    const isMoved = validatedData.kind === 'MOVED'
+    const exceptionData = {
+      kind: validatedData.kind,
+      movedDate: isMoved ? validatedData.movedDate : null,
+      movedTime: isMoved ? validatedData.movedTime ?? null : null,
+      movedEndTime: isMoved ? validatedData.movedEndTime ?? null : null,
+      note: validatedData.note ?? null,
+    }
+
+    const cancelledRegistrations = await prisma.$transaction(async (tx) => {
+      await lockEventSeats(tx, eventId, occurrenceDate)
+
+      await tx.eventOccurrenceException.upsert({
+        where: { eventId_date: { eventId, date: occurrenceDate } },
+        create: { eventId, date: occurrenceDate, ...exceptionData },
+        update: exceptionData
+      })
+
+      if (isMoved) {
+        return 0
+      }
+
+      const { count } = await tx.eventAttendee.updateMany({
+        where: { eventId, occurrenceDate, status: { not: 'CANCELLED' } },
+        data: { status: 'CANCELLED', waitlistPosition: null }
+      })
+      await syncRegisteredCount(tx, eventId)
+
+      return count
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Event',
+      entityId: eventId,
+      changes: { occurrenceDate, ...exceptionData, cancelledRegistrations },
+    })
+
+    revalidatePath('/admin/events')
+    revalidatePath(`/admin/events/${eventId}/edit`)
+    revalidatePath(`/events/${event.slug}`)
+    revalidatePath('/', 'page') // Revalidate main page with Cafe section
+
+    const dateLabel = format(parseISO(occurrenceDate), 'MMM d, yyyy')
+
+    return {
+      success: true,
+      message: exceptionData.movedDate
+        ? `${dateLabel} moved to ${format(exceptionData.movedDate, 'MMM d, yyyy')}`
+        : `${dateLabel} cancelled${cancelledRegistrations > 0 ? ` (${cancelledRegistrations} registration${cancelledRegistrations > 1 ? 's' : ''} cancelled)` : ''}`
+    }
+  } catch (error) {
+    logger.serverActionError('setEventOccurrenceException', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update event date'
+    }
+  }
+}
+
+/**
+ * Restore a cancelled or moved occurrence to the regular schedule (Admin only)
+ *
+ * Registrations cancelled with the occurrence stay cancelled; attendees can
+ * register again.
+ * @param eventId - Event ID
+ * @param occurrenceDate - Occurrence date (yyyy-MM-dd)
+ * @returns Success status
+ */
+export async function clearEventOccurrenceException(eventId: string, occurrenceDate: string) {
+  try {
+    const session = await requireAdmin()
+
+    const exception = await prisma.eventOccurrenceException.findUnique({
+      where: { eventId_date: { eventId, date: occurrenceDate } },
+      include: { event: { select: { slug: true } } }
+    })
+
+    if (!exception) {
+      return { success: false, error: 'This date follows the regular schedule' }
+    }
+
+    await prisma.eventOccurrenceException.delete({
+      where: { id: exception.id }
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'RESTORE',
+      entity: 'Event',
+      entityId: eventId,
+      changes: { occurrenceDate, kind: exception.kind },
+    })
+
+    revalidatePath('/admin/events')
+    revalidatePath(`/admin/events/${eventId}/edit`)
+    revalidatePath(`/events/${exception.event.slug}`)
+    revalidatePath('/', 'page') // Revalidate main page with Cafe section
+
+    return {
+      success: true,
+      message: `${format(parseISO(occurrenceDate), 'MMM d, yyyy')} restored to the regular schedule`
+    }
+  } catch (error) {
+    logger.serverActionError('clearEventOccurrenceException', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore event date'
+    }
+  }
+}
@@ -5,6 +5,8 @@ import { logger } from '@/lib/logger'
 import { requireAdmin } from '@/lib/auth-utils'
 import { formatDateForCSV, formatDateTimeForCSV } from '@/lib/csv-export'
 import { sanitizeErrorForClient } from '@/lib/sanitize'
+import { SEATED_STATUSES, getSeatsTaken } from '@/lib/event-capacity'
+import { getOccurrenceKey } from '@/lib/event-occurrences'
 
 /**
  * Export all bookings to CSV-ready format
@@ -163,6 +165,9 @@ export async function exportCustomers() {
 
 /**
  * Export event attendance data
+ *
+ * One row per event occurrence with registrations (or per event without any),
+ * comparing registered guests with guests checked in at the door.
  * @param eventId - Optional event ID to filter by
  * @returns Event attendance data ready for CSV export
  */
@@ -174,21 +179,56 @@ export async function exportEventAttendance(eventId?: string) {
 
     const events = await prisma.event.findMany({
       where,
+      include: {
+        attendees: {
+          select: {
+            occurrenceDate: true,
+            status: true,
+            guestCount: true,
+            checkedInAt: true,
+          },
+        },
+      },
       orderBy: {
         date: 'desc',
       },
     })
 
-    const exportData = events.map((event) => ({
-      'Event ID': event.id,
-      'Event Title': event.title,
-      'Date': formatDateForCSV(event.date),
-      'Time': event.time,
-      'Category': event.category,
-      'Status': event.status,
-      'Description': event.description.substring(0, 200), // Truncate for CSV
-      'Created At': formatDateTimeForCSV(event.createdAt),
-    }))
+    const exportData = events.flatMap((event) => {
+      const occurrenceDates = [...new Set(event.attendees.map((attendee) => attendee.occurrenceDate))].sort()
+      if (occurrenceDates.length === 0) {
+        occurrenceDates.push(getOccurrenceKey(event.date))
+      }
+
+      return occurrenceDates.map((occurrenceDate) => {
+        const attendees = event.attendees.filter((attendee) => attendee.occurrenceDate === occurrenceDate)
+        const seated = attendees.filter((attendee) => SEATED_STATUSES.includes(attendee.status))
+        const registeredGuests = getSeatsTaken(seated)
+        const checkedInGuests = seated
+          .filter((attendee) => attendee.checkedInAt)
+          .reduce((sum, attendee) => sum + attendee.guestCount, 0)
+
+        return {
+          'Event ID': event.id,
+          'Event Title': event.title,
+          'Occurrence Date': occurrenceDate,
+          'Time': event.time,
+          'Category': event.category,
+          'Status': event.status,
+          'Registrations': seated.length,
+          'Registered Guests': registeredGuests,
+          'Checked In Registrations': seated.filter((attendee) => attendee.checkedInAt).length,
+          'Checked In Guests': checkedInGuests,
+          'Attendance Rate': registeredGuests > 0
+            ? `${Math.round((checkedInGuests / registeredGuests) * 100)}%`
+            : '',
+          'Waitlisted Guests': attendees
+            .filter((attendee) => attendee.status === 'WAITLIST')
+            .reduce((sum, attendee) => sum + attendee.guestCount, 0),
+          'Created At': formatDateTimeForCSV(event.createdAt),
+        }
+      })
+    })
 
     logger.info('Event attendance exported', { count: exportData.length })
 
@@ -7,6 +7,8 @@ import { requireAdmin } from '@/lib/auth-utils';
 import { strictRateLimit, checkRateLimit, getClientIp } from '@/lib/rate-limit';
 import { headers } from 'next/headers';
 import { importBookingSchema, importEventSchema } from '@/lib/validations';
+import { resolveBookingResources, getDefaultDuration } from '@/lib/booking-resources';
+import { addMinutes } from 'date-fns';
 
 interface ImportBookingData {
   Title: string;
@@ -74,6 +76,8 @@ export async function importBookings(data: ImportBookingData[]) {
 
         // Create booking
         const bookingDate = new Date(validatedBooking.Date);
+        const resourceIds = resolveBookingResources(validatedBooking.Type);
+        const duration = getDefaultDuration(validatedBooking.Type, resourceIds);
         await prisma.booking.create({
           data: {
             title: validatedBooking.Title,
@@ -89,6 +93,9 @@ export async function importBookings(data: ImportBookingData[]) {
             specialRequests: validatedBooking['Special Requests'] || null,
             status: 'APPROVED',
             scheduledAt: bookingDate,
+            endsAt: addMinutes(bookingDate, duration),
+            duration,
+            resourceIds,
           },
         });
 
@@ -1,6 +1,7 @@
 "use server"
 
 import { auth } from "@/lib/auth"
+import { isTwoFactorBlocking } from "@/lib/two-factor"
 import { prisma } from "@/lib/db"
 import { logAudit } from "@/lib/audit"
 import { logger } from "@/lib/logger"
@@ -20,7 +21,7 @@ export async function getInventoryItems(filters?: {
 }) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -69,7 +70,7 @@ export async function getInventoryItems(filters?: {
 export async function getInventoryItemById(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -94,7 +95,7 @@ export async function getInventoryItemById(id: string) {
 export async function createInventoryItem(data: CreateInventoryInput) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -130,7 +131,7 @@ export async function createInventoryItem(data: CreateInventoryInput) {
 export async function updateInventoryItem(id: string, data: UpdateInventoryInput) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -172,7 +173,7 @@ export async function updateInventoryItem(id: string, data: UpdateInventoryInput
 export async function deleteInventoryItem(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -206,7 +207,7 @@ export async function deleteInventoryItem(id: string) {
 export async function adjustStock(id: string, adjustment: AdjustStockInput) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -267,7 +268,7 @@ export async function adjustStock(id: string, adjustment: AdjustStockInput) {
 export async function getLowStockItems() {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -296,7 +297,7 @@ export async function getLowStockItems() {
 export async function getInventoryStats() {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
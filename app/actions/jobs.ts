@@ -0,0 +1,172 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { requireAdmin } from '@/lib/auth-utils'
+import { revalidatePath } from 'next/cache'
+import { getPreviousCronTime } from '@/lib/cron'
+import type { JobRunStatus, Prisma } from '@prisma/client'
+import { JOBS, type JobName } from '@/app/jobs/registry'
+import { enqueueJob } from '@/app/jobs/queue'
+
+/**
+ * Background Job Server Actions
+ *
+ * Admin view of the job queue (see lib/jobs.ts)
+ */
+
+export interface JobRunFilters {
+  status?: JobRunStatus | 'ALL'
+  name?: string
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Get the registered jobs with their schedule and latest run (Admin only)
+ */
+export async function getJobs() {
+  try {
+    await requireAdmin()
+
+    const names = Object.keys(JOBS) as JobName[]
+    const latestRuns = await prisma.jobRun.findMany({
+      where: { name: { in: names } },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['name'],
+      select: { name: true, status: true, runAt: true, finishedAt: true, lastError: true },
+    })
+    const now = new Date()
+
+    const jobs = names.map(name => ({
+      name,
+      description: JOBS[name].description,
+      schedule: JOBS[name].schedule ?? null,
+      lastScheduledAt: JOBS[name].schedule ? getPreviousCronTime(JOBS[name].schedule, now) : null,
+      latestRun: latestRuns.find(run => run.name === name) ?? null,
+    }))
+
+    return { success: true, jobs }
+  } catch (error) {
+    logger.serverActionError('getJobs', error)
+    return { success: false, error: 'Failed to fetch jobs', jobs: [] }
+  }
+}
+
+/**
+ * Get job runs, newest first (Admin only)
+ * @returns Runs, total matching and run counts per status
+ */
+export async function getJobRuns(filters: JobRunFilters = {}) {
+  try {
+    await requireAdmin()
+
+    const { status, name, limit = 50, offset = 0 } = filters
+
+    const where: Prisma.JobRunWhereInput = {}
+    if (status && status !== 'ALL') {
+      where.status = status
+    }
+    if (name) {
+      where.name = name
+    }
+
+    const [runs, total, byStatus] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.jobRun.count({ where }),
+      prisma.jobRun.groupBy({
+        by: ['status'],
+        where: name ? { name } : undefined,
+        _count: { _all: true },
+      }),
+    ])
+
+    const counts: Record<JobRunStatus, number> = { QUEUED: 0, RUNNING: 0, SUCCEEDED: 0, FAILED: 0 }
+    for (const group of byStatus) {
+      counts[group.status] = group._count._all
+    }
+
+    return { success: true, runs, total, counts }
+  } catch (error) {
+    logger.serverActionError('getJobRuns', error)
+    return { success: false, error: 'Failed to fetch job runs', runs: [], total: 0 }
+  }
+}
+
+/**
+ * Queue a failed run again with fresh attempts (Admin only)
+ */
+export async function retryJobRun(id: string) {
+  try {
+    const session = await requireAdmin()
+
+    const { count } = await prisma.jobRun.updateMany({
+      where: { id, status: 'FAILED' },
+      data: {
+        status: 'QUEUED',
+        attempts: 0,
+        runAt: new Date(),
+        finishedAt: null,
+      },
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'Only failed runs can be retried' }
+    }
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'System',
+      entityId: id,
+      changes: { jobRun: 'retry' },
+    })
+
+    logger.info('Job run queued for retry', { runId: id })
+    revalidatePath('/admin/jobs')
+
+    return { success: true, message: 'Run queued for retry' }
+  } catch (error) {
+    logger.serverActionError('retryJobRun', error)
+    return { success: false, error: 'Failed to retry job run' }
+  }
+}
+
+/**
+ * Queue a run of a job now, outside its schedule (Admin only)
+ *
+ * The run starts with the scheduler's next call.
+ */
+export async function runJobNow(name: string) {
+  try {
+    const session = await requireAdmin()
+
+    if (!Object.hasOwn(JOBS, name)) {
+      return { success: false, error: 'Unknown job' }
+    }
+
+    const run = await enqueueJob(name as JobName)
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'CREATE',
+      entity: 'System',
+      entityId: run.id,
+      changes: { jobRun: name },
+    })
+
+    logger.info('Job run queued', { runId: run.id, name })
+    revalidatePath('/admin/jobs')
+
+    return { success: true, message: 'Job queued' }
+  } catch (error) {
+    logger.serverActionError('runJobNow', error)
+    return { success: false, error: 'Failed to queue job' }
+  }
+}
@@ -1,11 +1,15 @@
 'use server'
 
+import type { MarketingConsentSource } from '@prisma/client'
 import { auth } from '@/lib/auth'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { prisma } from '@/lib/db'
 import { logAudit } from '@/lib/audit'
 import { logger } from '@/lib/logger'
 import { revalidatePath } from 'next/cache'
 import { updateLoyaltyPointsSchema } from '@/lib/validations'
+import { getTrackingSecret } from '@/lib/campaign-tracking'
+import { getConsentChanges, verifyPreferencesToken } from '@/lib/marketing-preferences'
 
 /**
  * Calculate loyalty tier based on points
@@ -32,7 +36,7 @@ export async function updateLoyaltyPoints(
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -140,7 +144,7 @@ export async function addCustomerTag(userId: string, tag: string) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -211,7 +215,7 @@ export async function removeCustomerTag(userId: string, tag: string) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -277,7 +281,7 @@ export async function updateCustomerNotes(userId: string, notes: string) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -326,45 +330,103 @@ export async function updateCustomerNotes(userId: string, notes: string) {
 
 /**
  * Update customer marketing preferences
+ *
+ * Admins update any customer's preferences. Customers update their own from
+ * the preference center or a one-click unsubscribe, authorized by the signed
+ * token from their campaign email (see lib/marketing-preferences.ts), or by
+ * replying STOP or START to a text (see app/actions/sms.ts). Every
+ * change is recorded in the customer's consent history, and an email opt-out
+ * from a campaign's link counts towards that campaign's unsubscribes.
  * @param userId - Customer user ID
  * @param marketingOptIn - Email marketing opt-in
  * @param smsOptIn - SMS marketing opt-in
- * @returns Updated customer
+ * @param options - Preferences token and where it was used, for updates
+ * made by the customer
+ * @returns Updated preferences
  */
 export async function updateMarketingPreferences(
   userId: string,
   marketingOptIn?: boolean,
-  smsOptIn?: boolean
+  smsOptIn?: boolean,
+  options: { token?: string; source?: 'PREFERENCE_CENTER' | 'ONE_CLICK_UNSUBSCRIBE' | 'SMS_KEYWORD' } = {}
 ) {
   try {
-    const session = await auth()
+    let changedBy: string | null = null
+    let source: MarketingConsentSource = 'ADMIN'
+    let campaignId: string | null = null
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
-      return { error: 'Unauthorized' }
-    }
+    if (options.token) {
+      const preferences = verifyPreferencesToken(options.token, getTrackingSecret())
 
-    const data: any = {}
-    if (marketingOptIn !== undefined) data.marketingOptIn = marketingOptIn
-    if (smsOptIn !== undefined) data.smsOptIn = smsOptIn
+      if (!preferences || preferences.userId !== userId) {
+        return { success: false, error: 'Invalid or expired link' }
+      }
 
-    const updatedUser = await prisma.user.update({
+      source = options.source ?? 'PREFERENCE_CENTER'
+      campaignId = preferences.campaignId
+    } else {
+      const session = await auth()
+
+      if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
+        return { error: 'Unauthorized' }
+      }
+
+      changedBy = session.user.id
+    }
+
+    const user = await prisma.user.findUnique({
       where: { id: userId },
-      data,
+      select: { marketingOptIn: true, smsOptIn: true, deleted: true },
+    })
+
+    if (!user || user.deleted) {
+      return { success: false, error: 'Customer not found' }
+    }
+
+    const changes = getConsentChanges(user, { marketingOptIn, smsOptIn })
+    const data = {
+      ...(marketingOptIn !== undefined && { marketingOptIn }),
+      ...(smsOptIn !== undefined && { smsOptIn }),
+    }
+
+    const updatedUser = await prisma.$transaction(async tx => {
+      const updated = await tx.user.update({
+        where: { id: userId },
+        data: changes.length > 0 ? { ...data, marketingConsentUpdatedAt: new Date() } : data,
+        select: { id: true, marketingOptIn: true, smsOptIn: true, marketingConsentUpdatedAt: true },
+      })
+
+      await tx.marketingConsentChange.createMany({
+        data: changes.map(change => ({ userId, ...change, source, campaignId, changedBy })),
+      })
+
+      // Campaigns may have been deleted since the email was sent
+      if (campaignId && changes.some(change => change.channel === 'EMAIL' && !change.optedIn)) {
+        await tx.campaign.updateMany({
+          where: { id: campaignId },
+          data: { unsubscribeCount: { increment: 1 } },
+        })
+      }
+
+      return updated
     })
 
     // Log audit
     await logAudit({
-      userId: session.user.id,
+      userId: changedBy ?? userId,
       action: 'UPDATE',
       entity: 'User',
       entityId: userId,
-      changes: { marketingPreferences: data },
+      changes: { marketingPreferences: data, source, campaignId },
     })
 
-    logger.info('Marketing preferences updated', { customerId: userId, data })
+    logger.info('Marketing preferences updated', { customerId: userId, data, source })
 
     revalidatePath('/admin/customers')
     revalidatePath(`/admin/customers/${userId}`)
+    if (campaignId) {
+      revalidatePath(`/admin/campaigns/${campaignId}`)
+    }
 
     return {
       success: true,
@@ -387,3 +449,67 @@ export async function updateMarketingPreferences(
     }
   }
 }
+
+/**
+ * Get the marketing preferences a preferences token is for
+ * Public: used by the preference center, authorized by the token
+ * @param token - Token from the link in a campaign email
+ * @returns The customer's preferences
+ */
+export async function getMarketingPreferences(token: string) {
+  try {
+    const preferences = verifyPreferencesToken(token, getTrackingSecret())
+
+    if (!preferences) {
+      return { success: false, error: 'Invalid or expired link' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: preferences.userId },
+      select: { id: true, email: true, marketingOptIn: true, smsOptIn: true, deleted: true },
+    })
+
+    if (!user || user.deleted) {
+      return { success: false, error: 'Customer not found' }
+    }
+
+    return {
+      success: true,
+      preferences: {
+        userId: user.id,
+        email: user.email,
+        marketingOptIn: user.marketingOptIn,
+        smsOptIn: user.smsOptIn,
+      },
+    }
+  } catch (error) {
+    logger.serverActionError('getMarketingPreferences', error)
+    return { success: false, error: 'Failed to load preferences' }
+  }
+}
+
+/**
+ * Get a customer's marketing consent history, newest first
+ * @param userId - Customer user ID
+ * @param limit - Changes to return
+ */
+export async function getMarketingConsentHistory(userId: string, limit: number = 10) {
+  try {
+    const session = await auth()
+
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
+      return { success: false, error: 'Unauthorized', changes: [] }
+    }
+
+    const changes = await prisma.marketingConsentChange.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return { success: true, changes }
+  } catch (error) {
+    logger.serverActionError('getMarketingConsentHistory', error)
+    return { success: false, error: 'Failed to load consent history', changes: [] }
+  }
+}
@@ -1,6 +1,7 @@
 "use server"
 
 import { auth } from "@/lib/auth"
+import { isTwoFactorBlocking } from "@/lib/two-factor"
 import { prisma } from "@/lib/db"
 import { logAudit } from "@/lib/audit"
 import { logger } from "@/lib/logger"
@@ -22,7 +23,7 @@ export async function getMaintenanceLogs(filters?: {
 }) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -78,7 +79,7 @@ export async function getMaintenanceLogs(filters?: {
 export async function getMaintenanceLogById(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -103,7 +104,7 @@ export async function getMaintenanceLogById(id: string) {
 export async function createMaintenanceLog(data: CreateMaintenanceInput) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -139,7 +140,7 @@ export async function createMaintenanceLog(data: CreateMaintenanceInput) {
 export async function updateMaintenanceLog(id: string, data: UpdateMaintenanceInput) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -181,7 +182,7 @@ export async function updateMaintenanceLog(id: string, data: UpdateMaintenanceIn
 export async function deleteMaintenanceLog(id: string) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -219,7 +220,7 @@ export async function completeMaintenanceLog(id: string, completedData?: {
 }) {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -259,7 +260,7 @@ export async function completeMaintenanceLog(id: string, completedData?: {
 export async function getUpcomingMaintenance() {
   try {
     const session = await auth()
-    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN")) {
+    if (!session?.user || (session.user.role !== "ADMIN" && session.user.role !== "SUPER_ADMIN") || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: "Unauthorized" }
     }
 
@@ -1,6 +1,7 @@
 'use server'
 
 import { auth } from '@/lib/auth'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { prisma } from '@/lib/db'
 import { logger } from '@/lib/logger'
 
@@ -19,7 +20,7 @@ export async function getMarketingList(filters?: {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -112,7 +113,7 @@ export async function getCustomerTags() {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -159,7 +160,7 @@ export async function exportMarketingList(filters?: {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -216,7 +217,7 @@ export async function getMarketingStats() {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -16,6 +16,7 @@ export type NotificationType =
   | 'BOOKING_APPROVED'
   | 'BOOKING_REJECTED'
   | 'BOOKING_CANCELLED'
+  | 'WAITLIST_OFFER'
   | 'NEW_EVENT_REGISTRATION'
   | 'EVENT_PUBLISHED'
   | 'EVENT_CANCELLED'
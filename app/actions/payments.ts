@@ -0,0 +1,417 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { requireAuth } from '@/lib/auth-utils'
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { z } from 'zod'
+import { CACHE_TAGS } from '@/lib/cache'
+import { startCheckoutSchema, type StartCheckoutInput } from '@/lib/validations'
+import {
+  applyPayment,
+  calculateDeposit,
+  getBalanceDue,
+  getPaymentProvider,
+  getWebhookSecret,
+  signWebhookPayload,
+  type PaymentEvent,
+} from '@/lib/payments'
+import { notifyAllAdmins, createNotification } from './notifications'
+import { getPaymentsEnabled } from './settings'
+
+/**
+ * Payment Server Actions
+ *
+ * Deposit and balance checkout for bookings
+ * - Checkout summary and starting a checkout with the configured provider
+ * - Webhook confirmation that updates the booking's paid amount
+ * - Simulated confirmation for the local fake provider
+ */
+
+/**
+ * Result of processing a provider event
+ */
+interface PaymentWebhookResult {
+  success: boolean
+  error?: string
+  status?: 'SUCCEEDED' | 'FAILED'
+  duplicate?: boolean // Event was already applied
+}
+
+/**
+ * Load a booking the current user may pay for
+ */
+async function getPayableBooking(bookingId: string, userId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+  })
+
+  if (!booking || booking.userId !== userId) {
+    return { error: 'Booking not found' }
+  }
+
+  if (booking.status !== 'PENDING' && booking.status !== 'APPROVED') {
+    return { error: `A ${booking.status.toLowerCase()} booking can't be paid online` }
+  }
+
+  if (!booking.totalAmount || booking.totalAmount <= 0) {
+    return { error: 'This booking has no price to pay online' }
+  }
+
+  const totalAmount = booking.totalAmount
+  const paidAmount = booking.paidAmount ?? 0
+  const depositAmount = calculateDeposit(booking.type, totalAmount)
+
+  return {
+    booking,
+    totalAmount,
+    paidAmount,
+    depositAmount,
+    depositDue: Math.max(depositAmount - paidAmount, 0),
+    balanceDue: getBalanceDue(totalAmount, paidAmount),
+  }
+}
+
+/**
+ * Get the amounts due for one of the current user's bookings
+ * @param bookingId - Booking ID
+ * @returns Whether payments are enabled, plus deposit and balance due
+ */
+export async function getBookingCheckout(bookingId: string) {
+  try {
+    const session = await requireAuth()
+
+    const { enabled } = await getPaymentsEnabled()
+    if (!enabled) {
+      return { success: true, enabled: false }
+    }
+
+    const payable = await getPayableBooking(bookingId, session.user.id)
+    if (!payable.booking) {
+      return { success: false, error: payable.error }
+    }
+
+    return {
+      success: true,
+      enabled: true,
+      checkout: {
+        bookingId: payable.booking.id,
+        currency: payable.booking.currency || 'RSD',
+        totalAmount: payable.totalAmount,
+        paidAmount: payable.paidAmount,
+        depositAmount: payable.depositAmount,
+        depositDue: payable.depositDue,
+        balanceDue: payable.balanceDue,
+        provider: getPaymentProvider().name,
+      },
+    }
+  } catch (error) {
+    logger.serverActionError('getBookingCheckout', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load checkout',
+    }
+  }
+}
+
+/**
+ * Start a deposit or balance checkout for one of the current user's bookings
+ * @param data - Booking ID and payment kind
+ * @returns Pending payment and the provider's checkout URL (null for the fake provider)
+ */
+export async function startBookingCheckout(data: StartCheckoutInput) {
+  try {
+    const session = await requireAuth()
+
+    // Validate input
+    const validatedData = startCheckoutSchema.parse(data)
+
+    const { enabled } = await getPaymentsEnabled()
+    if (!enabled) {
+      return { success: false, error: 'Online payments are not available' }
+    }
+
+    const payable = await getPayableBooking(validatedData.bookingId, session.user.id)
+    if (!payable.booking) {
+      return { success: false, error: payable.error }
+    }
+
+    const amount = validatedData.kind === 'DEPOSIT' ? payable.depositDue : payable.balanceDue
+    if (amount <= 0) {
+      return {
+        success: false,
+        error: validatedData.kind === 'DEPOSIT' ? 'The deposit is already paid' : 'This booking is already paid',
+      }
+    }
+
+    const provider = getPaymentProvider()
+    const currency = payable.booking.currency || 'RSD'
+
+    const payment = await prisma.payment.create({
+      data: {
+        bookingId: payable.booking.id,
+        amount,
+        currency,
+        kind: validatedData.kind,
+        provider: provider.name,
+      },
+    })
+
+    const checkout = await provider.createCheckout({
+      paymentId: payment.id,
+      amount,
+      currency,
+      description: `${validatedData.kind === 'DEPOSIT' ? 'Deposit' : 'Payment'} - ${payable.booking.title}`,
+      returnUrl: `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/profile`,
+    })
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { providerRef: checkout.providerRef },
+    })
+
+    logger.info('Payment checkout started', {
+      paymentId: payment.id,
+      bookingId: payable.booking.id,
+      kind: validatedData.kind,
+      amount,
+    })
+
+    return {
+      success: true,
+      payment: { id: payment.id, amount, currency, kind: validatedData.kind },
+      checkoutUrl: checkout.checkoutUrl,
+      message: 'Checkout started',
+    }
+  } catch (error) {
+    logger.serverActionError('startBookingCheckout', error)
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message }
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start checkout',
+    }
+  }
+}
+
+/**
+ * Apply a verified provider event to the payment ledger
+ *
+ * Idempotent: events for payments that are no longer pending are ignored,
+ * so providers can safely retry webhooks. A payment that would pay more than
+ * the balance due (e.g. two checkouts for the same balance both paid) is
+ * failed and flagged to admins for a refund.
+ */
+async function applyPaymentEvent(event: PaymentEvent): Promise<PaymentWebhookResult> {
+  const payment = await prisma.payment.findUnique({
+    where: { providerRef: event.providerRef },
+  })
+
+  if (!payment) {
+    return { success: false, error: 'Unknown payment' }
+  }
+
+  if (payment.status !== 'PENDING') {
+    return { success: true, duplicate: true }
+  }
+
+  // Refuse confirmations that don't match what we asked the customer to pay
+  const succeeded = event.status === 'succeeded' && event.amount === payment.amount
+  if (event.status === 'succeeded' && !succeeded) {
+    logger.warn('Payment amount mismatch', {
+      paymentId: payment.id,
+      expected: payment.amount,
+      received: event.amount,
+    })
+  }
+
+  const applied = await prisma.$transaction(async (tx) => {
+    // Serialize confirmations for the booking so each sees the ones before it
+    const lockKey = `payment:${payment.bookingId}`
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`
+
+    // Read under the lock: admins may also have recorded payments by hand
+    const current = await tx.booking.findUniqueOrThrow({
+      where: { id: payment.bookingId },
+    })
+    const paid = succeeded ? applyPayment(current, payment.amount) : null
+    const overpaid = succeeded && !paid
+
+    // Guard against the same event being processed concurrently
+    const updated = await tx.payment.updateMany({
+      where: { id: payment.id, status: 'PENDING' },
+      data: paid
+        ? { status: 'SUCCEEDED', confirmedAt: new Date() }
+        : { status: 'FAILED' },
+    })
+
+    if (updated.count === 0) {
+      return { duplicate: true, overpaid: false, recorded: false, booking: current }
+    }
+    if (!paid) {
+      return { duplicate: false, overpaid, recorded: false, booking: current }
+    }
+
+    const booking = await tx.booking.update({
+      where: { id: payment.bookingId },
+      data: {
+        paidAmount: paid.paidAmount,
+        isPaid: paid.isPaid,
+        paymentDate: paid.isPaid ? new Date() : current.paymentDate,
+      },
+    })
+
+    return { duplicate: false, overpaid: false, recorded: true, booking }
+  })
+
+  if (applied.duplicate) {
+    return { success: true, duplicate: true }
+  }
+
+  if (applied.overpaid) {
+    logger.warn('Payment exceeds balance due', {
+      paymentId: payment.id,
+      bookingId: payment.bookingId,
+      amount: payment.amount,
+    })
+
+    try {
+      await notifyAllAdmins({
+        type: 'SYSTEM_ALERT',
+        title: 'Payment Needs Refund',
+        message: `${payment.amount} ${payment.currency} for ${applied.booking.title} was paid after the booking was already paid. Refund it with the payment provider.`,
+        data: { bookingId: payment.bookingId, paymentId: payment.id },
+      })
+    } catch (notifError) {
+      logger.error('Failed to send payment notifications', notifError instanceof Error ? notifError : new Error(String(notifError)))
+    }
+
+    return { success: true, status: 'FAILED' }
+  }
+
+  const booking = applied.booking
+  if (!applied.recorded) {
+    return { success: true, status: 'FAILED' }
+  }
+
+  await logAudit({
+    userId: booking.userId,
+    action: 'UPDATE',
+    entity: 'Booking',
+    entityId: booking.id,
+    changes: {
+      paymentId: payment.id,
+      kind: payment.kind,
+      amount: payment.amount,
+      paidAmount: booking.paidAmount,
+      isPaid: booking.isPaid,
+    },
+  })
+
+  const amountText = `${payment.amount} ${payment.currency}`
+
+  // Notifications shouldn't fail an already recorded payment
+  try {
+    await notifyAllAdmins({
+      type: 'PAYMENT_RECEIVED',
+      title: payment.kind === 'DEPOSIT' ? 'Deposit Received' : 'Payment Received',
+      message: `${amountText} for ${booking.title}${booking.isPaid ? ' (fully paid)' : ''}`,
+      data: { bookingId: booking.id, paymentId: payment.id },
+    })
+
+    await createNotification({
+      userId: booking.userId,
+      type: 'PAYMENT_RECEIVED',
+      title: 'Payment Received',
+      message: `We received your payment of ${amountText} for ${booking.title}.`,
+      data: { bookingId: booking.id, paymentId: payment.id },
+    })
+  } catch (notifError) {
+    logger.error('Failed to send payment notifications', notifError instanceof Error ? notifError : new Error(String(notifError)))
+  }
+
+  revalidatePath('/admin/bookings')
+  revalidatePath(`/admin/bookings/${booking.id}`)
+  revalidatePath('/admin/revenue')
+  revalidateTag(CACHE_TAGS.BOOKINGS, 'max')
+  revalidateTag(CACHE_TAGS.DASHBOARD, 'max')
+
+  return { success: true, status: 'SUCCEEDED' }
+}
+
+/**
+ * Handle a payment provider webhook
+ *
+ * Called by POST /api/payments/webhook with the raw request body and
+ * signature header. Unsigned or tampered events are rejected.
+ * @param payload - Raw request body
+ * @param signature - Signature header sent by the provider
+ */
+export async function handlePaymentWebhook(payload: string, signature: string | null): Promise<PaymentWebhookResult> {
+  try {
+    const event = getPaymentProvider().verifyWebhook(payload, signature)
+    if (!event) {
+      return { success: false, error: 'Invalid webhook signature' }
+    }
+
+    return await applyPaymentEvent(event)
+  } catch (error) {
+    logger.serverActionError('handlePaymentWebhook', error)
+    return {
+      success: false,
+      error: 'Failed to process payment webhook',
+    }
+  }
+}
+
+/**
+ * Confirm a checkout with the local fake provider
+ *
+ * Stands in for the customer paying on a hosted page: sends a signed
+ * "succeeded" event through the webhook handler.
+ * @param paymentId - Pending payment ID returned by startBookingCheckout
+ */
+export async function completeFakeCheckout(paymentId: string) {
+  try {
+    const session = await requireAuth()
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { booking: { select: { userId: true } } },
+    })
+
+    if (!payment || payment.booking.userId !== session.user.id) {
+      return { success: false, error: 'Payment not found' }
+    }
+
+    if (payment.provider !== 'fake' || getPaymentProvider().name !== 'fake' || !payment.providerRef) {
+      return { success: false, error: 'This payment must be completed with the payment provider' }
+    }
+
+    const payload = JSON.stringify({
+      providerRef: payment.providerRef,
+      status: 'succeeded',
+      amount: payment.amount,
+    })
+
+    const result = await handlePaymentWebhook(payload, signWebhookPayload(payload, getWebhookSecret()))
+    if (!result.success || result.status === 'FAILED') {
+      return { success: false, error: result.error || 'Payment failed' }
+    }
+
+    return {
+      success: true,
+      message: 'Payment received. Thank you!',
+    }
+  } catch (error) {
+    logger.serverActionError('completeFakeCheckout', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete payment',
+    }
+  }
+}
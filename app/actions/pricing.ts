@@ -10,9 +10,15 @@ import { sanitizeErrorForClient } from '@/lib/sanitize'
 import {
   createPricingSchema,
   updatePricingSchema,
+  priceQuoteSchema,
   type CreatePricingInput,
   type UpdatePricingInput,
+  type PriceQuoteInput,
 } from '@/lib/validations/pricing'
+import { calculateQuote, type PriceItem } from '@/lib/pricing'
+import { getCatalogPriceItems } from '@/lib/catalog'
+import { getPricingSurcharges } from './settings'
+import { getBookingCatalog } from './catalog'
 
 // ============================================
 // QUERIES
@@ -80,11 +86,14 @@ export async function getPricingPackageById(id: string) {
 
 /**
  * Get published pricing packages for public display
+ * Priced line items (packages with a code) are part of the booking price
+ * list rather than advertised packages, so they are left out.
  */
 export async function getPublishedPricingPackages(category?: string) {
   const packages = await prisma.pricingPackage.findMany({
     where: {
       status: 'PUBLISHED',
+      code: null,
       ...(category && { category: category as any }),
     },
     orderBy: [{ order: 'asc' }, { popular: 'desc' }],
@@ -93,6 +102,89 @@ export async function getPublishedPricingPackages(category?: string) {
   return { success: true, packages }
 }
 
+/**
+ * Get the booking price list
+ * Priced items from the booking catalog (see app/actions/catalog.ts) plus
+ * published packages with a price code. Catalog prices win when both
+ * define the same code.
+ */
+export async function getPriceCatalog() {
+  try {
+    const [packages, { catalog }] = await Promise.all([
+      prisma.pricingPackage.findMany({
+        where: {
+          status: 'PUBLISHED',
+          code: { not: null },
+          priceAmount: { not: null },
+        },
+        orderBy: [{ order: 'asc' }, { name: 'asc' }],
+      }),
+      getBookingCatalog(),
+    ])
+
+    const catalogItems = getCatalogPriceItems(catalog)
+    const catalogCodes = new Set(catalogItems.map(item => item.code))
+
+    const items: PriceItem[] = [
+      ...catalogItems,
+      ...packages.flatMap(package_ =>
+        package_.code && !catalogCodes.has(package_.code)
+          ? [{
+              code: package_.code,
+              name: package_.name,
+              amount: Number(package_.priceAmount),
+              currency: package_.priceCurrency || 'RSD',
+              unit: package_.unit,
+            }]
+          : []
+      ),
+    ]
+
+    return { success: true, items }
+  } catch (error) {
+    logger.serverActionError('getPriceCatalog', error)
+    return {
+      success: false,
+      error: 'Failed to fetch price list',
+      items: [] as PriceItem[],
+    }
+  }
+}
+
+/**
+ * Calculate an itemized booking quote from the price list
+ * Used by the booking forms for display; createBooking prices what was
+ * booked itself (see getBookingPriceCodes).
+ */
+export async function getPriceQuote(data: PriceQuoteInput) {
+  try {
+    // Validate input
+    const validatedData = priceQuoteSchema.parse(data)
+
+    const [catalog, { surcharges }] = await Promise.all([getPriceCatalog(), getPricingSurcharges()])
+    if (!catalog.success) {
+      return { success: false, error: catalog.error }
+    }
+
+    const quote = calculateQuote(validatedData, catalog.items, surcharges)
+
+    return { success: true, quote }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0].message,
+      }
+    }
+
+    logger.serverActionError('getPriceQuote', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to calculate price',
+    }
+  }
+}
+
 // ============================================
 // MUTATIONS
 // ============================================
@@ -1,6 +1,7 @@
 'use server'
 
 import { auth } from '@/lib/auth'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { prisma } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { startOfMonth, endOfMonth, subMonths, format, startOfDay, endOfDay } from 'date-fns'
@@ -56,7 +57,7 @@ export async function getRevenueStats(startDate?: Date, endDate?: Date) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -158,7 +159,7 @@ export async function getRevenueByType(startDate?: Date, endDate?: Date) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -223,7 +224,7 @@ export async function getRevenueOverTime(
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -295,7 +296,7 @@ export async function getPaymentStats(startDate?: Date, endDate?: Date) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -357,7 +358,7 @@ export async function getTopCustomers(limit: number = 10, startDate?: Date, endD
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -435,7 +436,7 @@ export async function getRevenueForecast() {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -552,7 +553,7 @@ export async function getPopularServices(startDate?: Date, endDate?: Date) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -630,7 +631,7 @@ export async function getCancellationMetrics(startDate?: Date, endDate?: Date) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -740,7 +741,7 @@ export async function getTimeToApprovalMetrics(startDate?: Date, endDate?: Date)
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -845,7 +846,7 @@ export async function exportRevenueData(startDate?: Date, endDate?: Date) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -0,0 +1,273 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/auth-utils'
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { describeUserAgent } from '@/lib/user-sessions'
+import { revokeUserSession, revokeUserSessions } from '@/lib/user-session-registry'
+
+/**
+ * Session Server Actions
+ *
+ * Lists and revokes signed-in browsers (see lib/user-sessions.ts). A revoked
+ * session is signed out on its next request.
+ */
+
+const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastSeenAt: true,
+} as const
+
+async function getActiveSessions(userId: string, currentSessionId?: string) {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: sessionSelect,
+    orderBy: { lastSeenAt: 'desc' },
+  })
+
+  return sessions.map(session => ({
+    ...session,
+    device: describeUserAgent(session.userAgent),
+    current: session.id === currentSessionId,
+  }))
+}
+
+/**
+ * Check an admin may manage a user's sessions
+ * Only super admins manage super admins' sessions.
+ */
+async function canManageSessionsOf(userId: string, adminRole: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  })
+
+  if (!user) {
+    return { error: 'User not found' }
+  }
+
+  if (user.role === 'SUPER_ADMIN' && adminRole !== 'SUPER_ADMIN') {
+    return { error: 'Only super admins can manage super admin sessions' }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Get the signed-in user's active sessions, this one marked current
+ */
+export async function getMySessions() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    return {
+      success: true,
+      sessions: await getActiveSessions(session.user.id, session.sessionId),
+    }
+  } catch (error) {
+    logger.serverActionError('getMySessions', error)
+    return {
+      success: false,
+      error: 'Failed to fetch sessions',
+    }
+  }
+}
+
+/**
+ * Sign out one of the signed-in user's other sessions
+ */
+export async function revokeMySession(sessionId: string) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (sessionId === session.sessionId) {
+      return { success: false, error: 'Use Sign Out to end this session' }
+    }
+
+    const owned = await prisma.userSession.findFirst({
+      where: { id: sessionId, userId: session.user.id },
+      select: { id: true },
+    })
+
+    if (!owned || !(await revokeUserSession(sessionId, session.user.id))) {
+      return { success: false, error: 'Session not found' }
+    }
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: session.user.id,
+      changes: { sessionRevoked: sessionId },
+    })
+
+    return {
+      success: true,
+      message: 'Session signed out',
+    }
+  } catch (error) {
+    logger.serverActionError('revokeMySession', error)
+    return {
+      success: false,
+      error: 'Failed to sign out session',
+    }
+  }
+}
+
+/**
+ * Sign out every session the signed-in user has except this one
+ */
+export async function revokeMyOtherSessions() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const count = await revokeUserSessions(session.user.id, session.user.id, {
+      exceptSessionId: session.sessionId,
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: session.user.id,
+      changes: { sessionsRevoked: count, kept: 'current' },
+    })
+
+    return {
+      success: true,
+      message: count === 1 ? 'Signed out 1 other session' : `Signed out ${count} other sessions`,
+    }
+  } catch (error) {
+    logger.serverActionError('revokeMyOtherSessions', error)
+    return {
+      success: false,
+      error: 'Failed to sign out other sessions',
+    }
+  }
+}
+
+/**
+ * Get a user's active sessions (Admin only)
+ */
+export async function getUserSessions(userId: string) {
+  try {
+    const session = await requireAdmin()
+
+    const { error } = await canManageSessionsOf(userId, session.user.role)
+    if (error) {
+      return { success: false, error }
+    }
+
+    return {
+      success: true,
+      sessions: await getActiveSessions(userId, session.sessionId),
+    }
+  } catch (error) {
+    logger.serverActionError('getUserSessions', error)
+    return {
+      success: false,
+      error: 'Failed to fetch sessions',
+    }
+  }
+}
+
+/**
+ * Sign out one of a user's sessions (Admin only)
+ */
+export async function revokeUserSessionAsAdmin(userId: string, sessionId: string) {
+  try {
+    const session = await requireAdmin()
+
+    const { error } = await canManageSessionsOf(userId, session.user.role)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const owned = await prisma.userSession.findFirst({
+      where: { id: sessionId, userId },
+      select: { id: true },
+    })
+
+    if (!owned || !(await revokeUserSession(sessionId, session.user.id))) {
+      return { success: false, error: 'Session not found' }
+    }
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: userId,
+      changes: { sessionRevoked: sessionId },
+    })
+
+    logger.info('User session revoked', { userId, sessionId, revokedBy: session.user.id })
+    revalidatePath(`/admin/users/${userId}`)
+
+    return {
+      success: true,
+      message: 'Session signed out',
+    }
+  } catch (error) {
+    logger.serverActionError('revokeUserSessionAsAdmin', error)
+    return {
+      success: false,
+      error: 'Failed to sign out session',
+    }
+  }
+}
+
+/**
+ * Sign out every session a user has (Admin only)
+ * Signing out yourself this way keeps the session you're using.
+ */
+export async function revokeAllUserSessions(userId: string) {
+  try {
+    const session = await requireAdmin()
+
+    const { error } = await canManageSessionsOf(userId, session.user.role)
+    if (error) {
+      return { success: false, error }
+    }
+
+    const count = await revokeUserSessions(userId, session.user.id, {
+      exceptSessionId: userId === session.user.id ? session.sessionId : undefined,
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: userId,
+      changes: { sessionsRevoked: count },
+    })
+
+    logger.info('User sessions revoked', { userId, count, revokedBy: session.user.id })
+    revalidatePath(`/admin/users/${userId}`)
+
+    return {
+      success: true,
+      message: count === 1 ? 'Signed out 1 session' : `Signed out ${count} sessions`,
+    }
+  } catch (error) {
+    logger.serverActionError('revokeAllUserSessions', error)
+    return {
+      success: false,
+      error: 'Failed to sign out sessions',
+    }
+  }
+}
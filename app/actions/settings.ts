@@ -1,10 +1,14 @@
 'use server'
 
 import { auth } from '@/lib/auth'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { prisma } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { logAudit } from '@/lib/audit'
-import { revalidatePath } from 'next/cache'
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { CACHE_TAGS } from '@/lib/cache'
+import { BUSINESS_HOURS_KEYS, DEFAULT_BUSINESS_HOURS, DEFAULT_CHANGE_CUTOFF_HOURS, type DayHours } from '@/lib/scheduling'
+import { DEFAULT_SURCHARGE_RULES, type SurchargeRules } from '@/lib/pricing'
 
 /**
  * Settings Server Actions
@@ -28,6 +32,11 @@ export interface Setting {
   updatedBy: string | null
 }
 
+/**
+ * Settings only a super admin may change, through their own actions
+ */
+const SUPER_ADMIN_SETTING_KEYS = ['security.requireAdminTwoFactor']
+
 /**
  * Get a specific setting by key
  */
@@ -107,10 +116,14 @@ export async function updateSetting(key: string, value: SettingValue, category:
     }
 
     // Check if user is admin
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
+    if (SUPER_ADMIN_SETTING_KEYS.includes(key) && session.user.role !== 'SUPER_ADMIN') {
+      return { success: false, error: 'Unauthorized - Super Admin access required' }
+    }
+
     // Upsert setting
     const setting = await prisma.siteSettings.upsert({
       where: { key },
@@ -140,6 +153,7 @@ export async function updateSetting(key: string, value: SettingValue, category:
     })
 
     revalidatePath('/admin/settings')
+    revalidateTag(CACHE_TAGS.SETTINGS, 'max')
 
     return {
       success: true,
@@ -166,10 +180,14 @@ export async function updateSettings(settings: Array<{ key: string; value: Setti
     }
 
     // Check if user is admin
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
+    if (session.user.role !== 'SUPER_ADMIN' && settings.some(({ key }) => SUPER_ADMIN_SETTING_KEYS.includes(key))) {
+      return { success: false, error: 'Unauthorized - Super Admin access required' }
+    }
+
     // Update all settings
     const results = await Promise.all(
       settings.map(({ key, value, category }) =>
@@ -203,6 +221,7 @@ export async function updateSettings(settings: Array<{ key: string; value: Setti
     })
 
     revalidatePath('/admin/settings')
+    revalidateTag(CACHE_TAGS.SETTINGS, 'max')
 
     return {
       success: true,
@@ -227,7 +246,7 @@ export async function initializeDefaultSettings() {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'SUPER_ADMIN') {
+    if (session.user.role !== 'SUPER_ADMIN' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Super Admin access required' }
     }
 
@@ -277,41 +296,11 @@ export async function initializeDefaultSettings() {
       },
 
       // Business Hours
-      {
-        key: 'hours.monday',
-        value: { open: '09:00', close: '21:00', closed: false },
-        category: 'hours'
-      },
-      {
-        key: 'hours.tuesday',
-        value: { open: '09:00', close: '21:00', closed: false },
-        category: 'hours'
-      },
-      {
-        key: 'hours.wednesday',
-        value: { open: '09:00', close: '21:00', closed: false },
-        category: 'hours'
-      },
-      {
-        key: 'hours.thursday',
-        value: { open: '09:00', close: '21:00', closed: false },
-        category: 'hours'
-      },
-      {
-        key: 'hours.friday',
-        value: { open: '09:00', close: '22:00', closed: false },
-        category: 'hours'
-      },
-      {
-        key: 'hours.saturday',
-        value: { open: '10:00', close: '22:00', closed: false },
-        category: 'hours'
-      },
-      {
-        key: 'hours.sunday',
-        value: { open: '10:00', close: '20:00', closed: false },
+      ...Object.entries(DEFAULT_BUSINESS_HOURS).map(([key, value]) => ({
+        key,
+        value,
         category: 'hours'
-      },
+      })),
 
       // Social Media
       {
@@ -373,6 +362,11 @@ export async function initializeDefaultSettings() {
         value: { enabled: false },
         category: 'features'
       },
+      {
+        key: 'features.requireEmailVerification',
+        value: { enabled: false },
+        category: 'features'
+      },
 
       // Scheduling Settings
       {
@@ -380,12 +374,31 @@ export async function initializeDefaultSettings() {
         value: { minutes: 45 },
         category: 'scheduling'
       },
+      {
+        key: 'scheduling.changeCutoff',
+        value: { hours: DEFAULT_CHANGE_CUTOFF_HOURS },
+        category: 'scheduling'
+      },
+
+      // Pricing Settings
+      {
+        key: 'pricing.surcharges',
+        value: { ...DEFAULT_SURCHARGE_RULES },
+        category: 'pricing'
+      },
 
       // Rate Limiting Settings
       {
         key: 'rateLimit.bookingCreation',
         value: { maxRequests: 10, windowMinutes: 60 },
         category: 'security'
+      },
+
+      // Security Settings
+      {
+        key: 'security.requireAdminTwoFactor',
+        value: { enabled: false },
+        category: 'security'
       }
     ]
 
@@ -428,7 +441,7 @@ export async function deleteSetting(key: string) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'SUPER_ADMIN') {
+    if (session.user.role !== 'SUPER_ADMIN' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Super Admin access required' }
     }
 
@@ -484,6 +497,37 @@ export async function getBufferTime() {
   }
 }
 
+/**
+ * Get opening hours for every weekday, indexed by Date#getDay()
+ */
+export async function getBusinessHours() {
+  try {
+    const settings = await prisma.siteSettings.findMany({
+      where: { key: { in: [...BUSINESS_HOURS_KEYS] } }
+    })
+
+    // Fall back to the default hours for days that are not configured
+    const businessHours = BUSINESS_HOURS_KEYS.map(key => {
+      const value = settings.find(setting => setting.key === key)?.value
+      return value && typeof value === 'object' && 'open' in value && 'close' in value
+        ? { ...DEFAULT_BUSINESS_HOURS[key], ...(value as Partial<DayHours>) }
+        : DEFAULT_BUSINESS_HOURS[key]
+    })
+
+    return {
+      success: true,
+      businessHours
+    }
+  } catch (error) {
+    logger.serverActionError('getBusinessHours', error)
+    return {
+      success: false,
+      error: 'Failed to fetch business hours',
+      businessHours: BUSINESS_HOURS_KEYS.map(key => DEFAULT_BUSINESS_HOURS[key]) // Return default on error
+    }
+  }
+}
+
 /**
  * Update buffer time setting
  */
@@ -494,7 +538,7 @@ export async function updateBufferTime(minutes: number) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
@@ -530,6 +574,7 @@ export async function updateBufferTime(minutes: number) {
 
     revalidatePath('/admin/scheduling')
     revalidatePath('/admin/settings')
+    revalidateTag(CACHE_TAGS.SETTINGS, 'max')
 
     return {
       success: true,
@@ -545,6 +590,349 @@ export async function updateBufferTime(minutes: number) {
   }
 }
 
+/**
+ * Get the customer change cutoff in hours
+ * Customers can cancel or reschedule their own bookings only until this
+ * many hours before the booking starts.
+ */
+export async function getBookingChangeCutoff() {
+  try {
+    const setting = await prisma.siteSettings.findUnique({
+      where: { key: 'scheduling.changeCutoff' }
+    })
+
+    const cutoffHours = setting?.value && typeof setting.value === 'object' && 'hours' in setting.value
+      ? (setting.value as { hours: number }).hours
+      : DEFAULT_CHANGE_CUTOFF_HOURS
+
+    return {
+      success: true,
+      cutoffHours
+    }
+  } catch (error) {
+    logger.serverActionError('getBookingChangeCutoff', error)
+    return {
+      success: false,
+      error: 'Failed to fetch change cutoff',
+      cutoffHours: DEFAULT_CHANGE_CUTOFF_HOURS // Return default on error
+    }
+  }
+}
+
+/**
+ * Update the customer change cutoff
+ */
+export async function updateBookingChangeCutoff(hours: number) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
+      return { success: false, error: 'Unauthorized - Admin access required' }
+    }
+
+    // Validate: cutoff must be between 0 and 168 hours (1 week)
+    if (!Number.isInteger(hours) || hours < 0 || hours > 168) {
+      return {
+        success: false,
+        error: 'Change cutoff must be between 0 and 168 hours'
+      }
+    }
+
+    await prisma.siteSettings.upsert({
+      where: { key: 'scheduling.changeCutoff' },
+      update: {
+        value: { hours },
+        updatedBy: session.user.id
+      },
+      create: {
+        key: 'scheduling.changeCutoff',
+        value: { hours },
+        category: 'scheduling',
+        updatedBy: session.user.id
+      }
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Settings',
+      entityId: 'scheduling.changeCutoff',
+      changes: { hours }
+    })
+
+    revalidatePath('/admin/scheduling')
+    revalidatePath('/admin/settings')
+    revalidateTag(CACHE_TAGS.SETTINGS, 'max')
+
+    return {
+      success: true,
+      cutoffHours: hours,
+      message: `Customers can change bookings up to ${hours} hours before they start`
+    }
+  } catch (error) {
+    logger.serverActionError('updateBookingChangeCutoff', error)
+    return {
+      success: false,
+      error: 'Failed to update change cutoff'
+    }
+  }
+}
+
+/**
+ * Get weekend and holiday surcharge rules for booking quotes
+ */
+export async function getPricingSurcharges() {
+  try {
+    const setting = await prisma.siteSettings.findUnique({
+      where: { key: 'pricing.surcharges' }
+    })
+
+    const surcharges: SurchargeRules = setting?.value && typeof setting.value === 'object'
+      ? { ...DEFAULT_SURCHARGE_RULES, ...(setting.value as Partial<SurchargeRules>) }
+      : DEFAULT_SURCHARGE_RULES
+
+    return {
+      success: true,
+      surcharges
+    }
+  } catch (error) {
+    logger.serverActionError('getPricingSurcharges', error)
+    return {
+      success: false,
+      error: 'Failed to fetch surcharges',
+      surcharges: DEFAULT_SURCHARGE_RULES // Return default on error
+    }
+  }
+}
+
+/**
+ * Update weekend and holiday surcharge rules
+ */
+export async function updatePricingSurcharges(surcharges: SurchargeRules) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
+      return { success: false, error: 'Unauthorized - Admin access required' }
+    }
+
+    // Validate: surcharges must be between 0 and 100 percent
+    const percents = [surcharges.weekendPercent, surcharges.holidayPercent]
+    if (percents.some(percent => !Number.isFinite(percent) || percent < 0 || percent > 100)) {
+      return {
+        success: false,
+        error: 'Surcharges must be between 0 and 100 percent'
+      }
+    }
+
+    // Validate: holidays are yyyy-MM-dd or MM-dd
+    const invalidHoliday = surcharges.holidays.find(day => !/^(\d{4}-)?\d{2}-\d{2}$/.test(day))
+    if (invalidHoliday) {
+      return {
+        success: false,
+        error: `Invalid holiday date: ${invalidHoliday}`
+      }
+    }
+
+    const value = {
+      weekendPercent: surcharges.weekendPercent,
+      holidayPercent: surcharges.holidayPercent,
+      holidays: [...new Set(surcharges.holidays)].sort()
+    }
+
+    await prisma.siteSettings.upsert({
+      where: { key: 'pricing.surcharges' },
+      update: {
+        value,
+        updatedBy: session.user.id
+      },
+      create: {
+        key: 'pricing.surcharges',
+        value,
+        category: 'pricing',
+        updatedBy: session.user.id
+      }
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Settings',
+      entityId: 'pricing.surcharges',
+      changes: value
+    })
+
+    revalidatePath('/admin/pricing')
+    revalidatePath('/admin/settings')
+    revalidateTag(CACHE_TAGS.SETTINGS, 'max')
+
+    return {
+      success: true,
+      surcharges: value,
+      message: 'Surcharges updated successfully'
+    }
+  } catch (error) {
+    logger.serverActionError('updatePricingSurcharges', error)
+    return {
+      success: false,
+      error: 'Failed to update surcharges'
+    }
+  }
+}
+
+/**
+ * Check whether online payments are enabled (features.payments)
+ */
+export async function getPaymentsEnabled() {
+  try {
+    const setting = await prisma.siteSettings.findUnique({
+      where: { key: 'features.payments' }
+    })
+
+    // Payments are off unless an admin turns them on
+    const enabled = setting?.value && typeof setting.value === 'object' && 'enabled' in setting.value
+      ? Boolean((setting.value as { enabled: boolean }).enabled)
+      : false
+
+    return {
+      success: true,
+      enabled
+    }
+  } catch (error) {
+    logger.serverActionError('getPaymentsEnabled', error)
+    return {
+      success: false,
+      error: 'Failed to fetch payment settings',
+      enabled: false // Return default on error
+    }
+  }
+}
+
+/**
+ * Check whether customers need a verified email address to book
+ * (features.requireEmailVerification). Accounts from before email
+ * verification were marked verified when it shipped.
+ */
+export async function getRequireEmailVerification() {
+  try {
+    const setting = await prisma.siteSettings.findUnique({
+      where: { key: 'features.requireEmailVerification' }
+    })
+
+    // Off unless an admin turns it on
+    const enabled = setting?.value && typeof setting.value === 'object' && 'enabled' in setting.value
+      ? Boolean((setting.value as { enabled: boolean }).enabled)
+      : false
+
+    return {
+      success: true,
+      enabled
+    }
+  } catch (error) {
+    logger.serverActionError('getRequireEmailVerification', error)
+    return {
+      success: false,
+      error: 'Failed to fetch email verification setting',
+      enabled: false // Return default on error
+    }
+  }
+}
+
+/**
+ * Check whether admins must use two-factor authentication
+ * (security.requireAdminTwoFactor)
+ */
+export async function getRequireAdminTwoFactor() {
+  try {
+    const setting = await prisma.siteSettings.findUnique({
+      where: { key: 'security.requireAdminTwoFactor' }
+    })
+
+    // Off unless a super admin turns it on
+    const enabled = setting?.value && typeof setting.value === 'object' && 'enabled' in setting.value
+      ? Boolean((setting.value as { enabled: boolean }).enabled)
+      : false
+
+    return {
+      success: true,
+      enabled
+    }
+  } catch (error) {
+    logger.serverActionError('getRequireAdminTwoFactor', error)
+    return {
+      success: false,
+      error: 'Failed to fetch two-factor policy',
+      enabled: false // Return default on error
+    }
+  }
+}
+
+/**
+ * Require two-factor authentication for every ADMIN and SUPER_ADMIN
+ * Super admin only. Admins without it are sent to enroll before they can
+ * open the admin panel again (see middleware.ts).
+ */
+export async function updateRequireAdminTwoFactor(enabled: boolean) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (session.user.role !== 'SUPER_ADMIN' || isTwoFactorBlocking(session.user.twoFactor)) {
+      return { success: false, error: 'Unauthorized - Super Admin access required' }
+    }
+
+    const setting = await prisma.siteSettings.upsert({
+      where: { key: 'security.requireAdminTwoFactor' },
+      update: {
+        value: { enabled },
+        updatedBy: session.user.id
+      },
+      create: {
+        key: 'security.requireAdminTwoFactor',
+        value: { enabled },
+        category: 'security',
+        updatedBy: session.user.id
+      }
+    })
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'Settings',
+      entityId: setting.id,
+      changes: {
+        key: 'security.requireAdminTwoFactor',
+        enabled
+      }
+    })
+
+    revalidatePath('/admin/settings')
+    revalidateTag(CACHE_TAGS.SETTINGS, 'max')
+
+    return {
+      success: true,
+      enabled,
+      message: enabled
+        ? 'Two-factor authentication is now required for all admins'
+        : 'Two-factor authentication is no longer required'
+    }
+  } catch (error) {
+    logger.serverActionError('updateRequireAdminTwoFactor', error)
+    return {
+      success: false,
+      error: 'Failed to update two-factor policy'
+    }
+  }
+}
+
 /**
  * Get booking creation rate limit settings
  */
@@ -586,7 +974,7 @@ export async function updateBookingRateLimit(maxRequests: number, windowMinutes:
       return { success: false, error: 'Unauthorized' }
     }
 
-    if (session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') {
+    if ((session.user.role !== 'ADMIN' && session.user.role !== 'SUPER_ADMIN') || isTwoFactorBlocking(session.user.twoFactor)) {
       return { success: false, error: 'Unauthorized - Admin access required' }
     }
 
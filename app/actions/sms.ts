@@ -0,0 +1,134 @@
+'use server'
+
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { getTrackingSecret } from '@/lib/campaign-tracking'
+import { createPreferencesToken } from '@/lib/marketing-preferences'
+import { normalizePhoneNumber, parseSmsKeyword } from '@/lib/sms'
+import { getSmsProvider, type SmsEvent } from '@/lib/sms-providers'
+import { sendSms } from '@/lib/sms-messages'
+import { updateMarketingPreferences } from './loyalty'
+
+/**
+ * SMS Server Actions
+ *
+ * Provider webhook handling (see lib/sms-providers.ts)
+ * - Delivery status of sent messages
+ * - STOP, START and HELP replies
+ */
+
+/**
+ * Result of processing a provider event
+ */
+interface SmsWebhookResult {
+  success: boolean
+  error?: string
+}
+
+const SMS_REPLIES = {
+  STOP: "Xplorium: You're unsubscribed and won't get more texts from us. Reply START to resubscribe.",
+  START: "Xplorium: You're subscribed to texts again. Reply STOP to opt out.",
+  HELP: 'Xplorium: Reply STOP to stop texts from us, or START to get them again.',
+}
+
+/**
+ * Record what became of a sent message
+ * Delivered messages stay delivered if a late failure report arrives.
+ */
+async function applySmsStatus(event: Extract<SmsEvent, { type: 'status' }>): Promise<SmsWebhookResult> {
+  const { count } = await prisma.smsMessage.updateMany({
+    where: { providerRef: event.providerRef, status: { in: ['QUEUED', 'SENT'] } },
+    data: event.status === 'DELIVERED'
+      ? { status: 'DELIVERED', deliveredAt: new Date() }
+      : { status: 'FAILED', error: event.error || 'Undeliverable' },
+  })
+
+  if (count === 0) {
+    const message = await prisma.smsMessage.findUnique({ where: { providerRef: event.providerRef } })
+    if (!message) {
+      return { success: false, error: 'Unknown message' }
+    }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Find the customers with a phone number
+ * Stored numbers aren't normalized, so candidates are matched on their last
+ * digits and then compared in full.
+ */
+async function findUsersByPhone(phone: string) {
+  const users = await prisma.user.findMany({
+    where: { phone: { endsWith: phone.slice(-6) }, deleted: false },
+    select: { id: true, phone: true },
+  })
+
+  return users.filter(user => user.phone && normalizePhoneNumber(user.phone) === phone)
+}
+
+/**
+ * Apply a keyword reply: STOP blocks the number and opts its customers out
+ * of marketing SMS, START undoes that. Other replies are ignored.
+ */
+async function handleInboundSms(from: string, body: string): Promise<SmsWebhookResult> {
+  const phone = normalizePhoneNumber(from)
+  const keyword = parseSmsKeyword(body)
+
+  if (!phone || !keyword) {
+    logger.info('Inbound SMS ignored', { keyword })
+    return { success: true }
+  }
+
+  if (keyword === 'STOP') {
+    await prisma.smsOptOut.upsert({ where: { phone }, create: { phone }, update: {} })
+  } else if (keyword === 'START') {
+    await prisma.smsOptOut.deleteMany({ where: { phone } })
+  }
+
+  if (keyword !== 'HELP') {
+    const smsOptIn = keyword === 'START'
+
+    for (const user of await findUsersByPhone(phone)) {
+      const result = await updateMarketingPreferences(user.id, undefined, smsOptIn, {
+        token: createPreferencesToken(user.id, null, getTrackingSecret()),
+        source: 'SMS_KEYWORD',
+      })
+      if (!result.success) {
+        logger.error('Failed to apply SMS keyword', { userId: user.id, keyword, error: result.error })
+      }
+    }
+  }
+
+  await sendSms({ to: phone, body: SMS_REPLIES[keyword], ignoreOptOut: true })
+
+  logger.info('SMS keyword applied', { keyword })
+  return { success: true }
+}
+
+/**
+ * Handle an SMS provider webhook
+ *
+ * Called by POST /api/sms/webhook with the raw request body and signature
+ * header. Unsigned or tampered events are rejected.
+ * @param payload - Raw request body
+ * @param signature - Signature header sent by the provider
+ */
+export async function handleSmsWebhook(payload: string, signature: string | null): Promise<SmsWebhookResult> {
+  try {
+    const event = getSmsProvider().verifyWebhook(payload, signature)
+    if (!event) {
+      return { success: false, error: 'Invalid webhook signature' }
+    }
+
+    return event.type === 'status'
+      ? await applySmsStatus(event)
+      : await handleInboundSms(event.from, event.body)
+  } catch (error) {
+    logger.serverActionError('handleSmsWebhook', error)
+    return {
+      success: false,
+      error: 'Failed to process SMS webhook',
+    }
+  }
+}
@@ -0,0 +1,285 @@
+'use server'
+
+import QRCode from 'qrcode'
+import { cookies, headers } from 'next/headers'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { trustCurrentDevice } from '@/lib/two-factor-auth'
+import {
+  TRUSTED_DEVICE_COOKIE,
+  encryptTwoFactorSecret,
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  getTotpAuthUri,
+  getTwoFactorEncryptionKey,
+  hashRecoveryCode,
+} from '@/lib/two-factor'
+import { getRequireAdminTwoFactor } from './settings'
+
+/**
+ * Two-Factor Authentication Server Actions
+ *
+ * Enrollment and management for admins. Codes are checked when the client
+ * sends them with the session update (see the jwt callback in lib/auth.ts),
+ * so actions that change the setup need a session that passed the prompt.
+ */
+
+const isAdminRole = (role: string) => role === 'ADMIN' || role === 'SUPER_ADMIN'
+
+/**
+ * Get the signed-in user's two-factor setup
+ */
+export async function getTwoFactorSettings() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const [user, recoveryCodesRemaining, trustedDevices, policy] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { twoFactorEnabledAt: true },
+      }),
+      prisma.twoFactorRecoveryCode.count({ where: { userId: session.user.id, usedAt: null } }),
+      prisma.trustedDevice.count({ where: { userId: session.user.id, expiresAt: { gt: new Date() } } }),
+      getRequireAdminTwoFactor(),
+    ])
+
+    return {
+      success: true,
+      enabled: Boolean(user?.twoFactorEnabledAt),
+      enabledAt: user?.twoFactorEnabledAt ?? null,
+      required: isAdminRole(session.user.role) && policy.enabled,
+      recoveryCodesRemaining,
+      trustedDevices,
+    }
+  } catch (error) {
+    logger.serverActionError('getTwoFactorSettings', error)
+    return {
+      success: false,
+      error: 'Failed to fetch two-factor settings',
+    }
+  }
+}
+
+/**
+ * Start enrolling: create a new secret for the signed-in admin
+ * Two-factor authentication turns on once a code from it is entered.
+ * @returns The secret, and an otpauth:// URI and its QR code for authenticator apps
+ */
+export async function startTwoFactorSetup() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (!isAdminRole(session.user.role)) {
+      return { success: false, error: 'Two-factor authentication is available for admin accounts' }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, twoFactorEnabledAt: true },
+    })
+
+    if (!user) {
+      return { success: false, error: 'User not found' }
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return { success: false, error: 'Two-factor authentication is already enabled' }
+    }
+
+    const secret = generateTwoFactorSecret()
+    const otpauthUri = getTotpAuthUri(secret, user.email)
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        twoFactorSecret: encryptTwoFactorSecret(secret, getTwoFactorEncryptionKey()),
+        twoFactorLastUsedStep: null,
+      },
+    })
+
+    return {
+      success: true,
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri, { width: 240, margin: 1 }),
+    }
+  } catch (error) {
+    logger.serverActionError('startTwoFactorSetup', error)
+    return {
+      success: false,
+      error: 'Failed to start two-factor setup',
+    }
+  }
+}
+
+/**
+ * Issue a new set of recovery codes, replacing any left
+ * @returns The codes, shown once
+ */
+export async function generateTwoFactorRecoveryCodes() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (session.user.twoFactor !== 'verified') {
+      return { success: false, error: 'Enter a code from your authenticator app first' }
+    }
+
+    const codes = generateRecoveryCodes()
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: session.user.id } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map(code => ({ userId: session.user.id, codeHash: hashRecoveryCode(code) })),
+      }),
+    ])
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: session.user.id,
+      changes: { twoFactor: 'recovery codes generated' },
+    })
+
+    return {
+      success: true,
+      codes,
+    }
+  } catch (error) {
+    logger.serverActionError('generateTwoFactorRecoveryCodes', error)
+    return {
+      success: false,
+      error: 'Failed to generate recovery codes',
+    }
+  }
+}
+
+/**
+ * Remember this browser so the next sign-ins on it skip the code prompt
+ */
+export async function trustThisDevice() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (session.user.twoFactor !== 'verified') {
+      return { success: false, error: 'Enter a code from your authenticator app first' }
+    }
+
+    const headersList = await headers()
+    await trustCurrentDevice(session.user.id, headersList.get('user-agent'))
+
+    return {
+      success: true,
+    }
+  } catch (error) {
+    logger.serverActionError('trustThisDevice', error)
+    return {
+      success: false,
+      error: 'Failed to remember this device',
+    }
+  }
+}
+
+/**
+ * Forget every remembered browser, so each asks for a code again
+ */
+export async function forgetTrustedDevices() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (session.user.twoFactor !== 'verified') {
+      return { success: false, error: 'Enter a code from your authenticator app first' }
+    }
+
+    const cookieStore = await cookies()
+    const { count } = await prisma.trustedDevice.deleteMany({ where: { userId: session.user.id } })
+    cookieStore.delete(TRUSTED_DEVICE_COOKIE)
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: session.user.id,
+      changes: { twoFactor: 'trusted devices forgotten', count },
+    })
+
+    return {
+      success: true,
+      message: count === 1 ? 'Forgot 1 device' : `Forgot ${count} devices`,
+    }
+  } catch (error) {
+    logger.serverActionError('forgetTrustedDevices', error)
+    return {
+      success: false,
+      error: 'Failed to forget devices',
+    }
+  }
+}
+
+/**
+ * Turn two-factor authentication off for the signed-in user
+ * Not allowed for admins while the super admin policy requires it.
+ */
+export async function disableTwoFactor() {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (session.user.twoFactor !== 'verified') {
+      return { success: false, error: 'Enter a code from your authenticator app first' }
+    }
+
+    if (isAdminRole(session.user.role) && (await getRequireAdminTwoFactor()).enabled) {
+      return { success: false, error: 'Two-factor authentication is required for admin accounts' }
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: session.user.id },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastUsedStep: null },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: session.user.id } }),
+      prisma.trustedDevice.deleteMany({ where: { userId: session.user.id } }),
+    ])
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'UPDATE',
+      entity: 'User',
+      entityId: session.user.id,
+      changes: { twoFactor: 'disabled' },
+    })
+
+    logger.info('Two-factor authentication disabled', { userId: session.user.id })
+
+    return {
+      success: true,
+      message: 'Two-factor authentication turned off',
+    }
+  } catch (error) {
+    logger.serverActionError('disableTwoFactor', error)
+    return {
+      success: false,
+      error: 'Failed to turn off two-factor authentication',
+    }
+  }
+}
@@ -1,11 +1,13 @@
 'use server'
 
 import { auth } from '@/lib/auth'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 import { prisma } from '@/lib/db'
 import { hashPassword } from '@/lib/password'
 import { logAudit } from '@/lib/audit'
 import { logger } from '@/lib/logger'
 import { revalidatePath } from 'next/cache'
+import { revokeUserSessions } from '@/lib/user-session-registry'
 import {
   createUserSchema,
   updateUserRoleSchema,
@@ -37,7 +39,7 @@ export async function getUsers({
 } = {}) {
   const session = await auth()
 
-  if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+  if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
     return { error: 'Unauthorized' }
   }
 
@@ -100,7 +102,7 @@ export async function getUsers({
 export async function getUserById(id: string) {
   const session = await auth()
 
-  if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+  if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
     return { error: 'Unauthorized' }
   }
 
@@ -161,7 +163,7 @@ export async function createUser(data: CreateUserInput) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -243,7 +245,7 @@ export async function updateUserRole(data: UpdateUserRoleInput) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -293,13 +295,26 @@ export async function updateUserRole(data: UpdateUserRoleInput) {
       },
     })
 
+    // The new role applies to existing sessions on their next request; an
+    // admin losing admin access is also signed out everywhere
+    const isDemotedAdmin = originalUser.role !== 'USER' && (
+      validatedData.role === 'USER' ||
+      (originalUser.role === 'SUPER_ADMIN' && validatedData.role === 'ADMIN')
+    )
+    const sessionsRevoked = isDemotedAdmin
+      ? await revokeUserSessions(validatedData.userId, session.user.id)
+      : 0
+
     // Log audit
     await logAudit({
       userId: session.user.id,
       action: 'UPDATE',
       entity: 'User',
       entityId: validatedData.userId,
-      changes: { role: { from: originalUser.role, to: validatedData.role } },
+      changes: {
+        role: { from: originalUser.role, to: validatedData.role },
+        ...(isDemotedAdmin && { sessionsRevoked }),
+      },
     })
 
     revalidatePath('/admin/users')
@@ -336,7 +351,7 @@ export async function toggleUserBlock(data: ToggleUserBlockInput) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -375,13 +390,18 @@ export async function toggleUserBlock(data: ToggleUserBlockInput) {
       },
     })
 
+    // Sign the user out everywhere (lib/auth.ts also turns blocked users away)
+    const sessionsRevoked = user.blocked
+      ? await revokeUserSessions(validatedData.userId, session.user.id)
+      : 0
+
     // Log audit
     await logAudit({
       userId: session.user.id,
       action: 'UPDATE',
       entity: 'User',
       entityId: validatedData.userId,
-      changes: { blocked: user.blocked },
+      changes: { blocked: user.blocked, ...(user.blocked && { sessionsRevoked }) },
     })
 
     revalidatePath('/admin/users')
@@ -420,7 +440,7 @@ export async function deleteUser(id: string) {
   try {
     const session = await auth()
 
-    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+    if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized' }
     }
 
@@ -485,6 +505,7 @@ export async function deleteUser(id: string) {
         // Keep name and other data for audit trail
       },
     })
+    await revokeUserSessions(id, session.user.id)
 
     // Create detailed audit log
     await logAudit({
@@ -539,7 +560,7 @@ export async function restoreUser(id: string) {
   try {
     const session = await auth()
 
-    if (!session || session.user.role !== 'SUPER_ADMIN') {
+    if (!session || session.user.role !== 'SUPER_ADMIN' || isTwoFactorBlocking(session.user.twoFactor)) {
       return { error: 'Unauthorized - Super Admin access required' }
     }
 
@@ -256,6 +256,8 @@ export default function AuditPage() {
               <SelectItem value="InventoryItem">Inventory Item</SelectItem>
               <SelectItem value="MaintenanceLog">Maintenance Log</SelectItem>
               <SelectItem value="PricingPackage">Pricing Package</SelectItem>
+              <SelectItem value="CatalogCategory">Catalog Category</SelectItem>
+              <SelectItem value="CatalogItem">Catalog Item</SelectItem>
             </SelectContent>
           </Select>
         </div>
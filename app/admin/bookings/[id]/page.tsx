@@ -10,7 +10,18 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
+import { formatTimeRange } from "@/lib/calendar-utils"
+import { BookingSeriesCard } from "@/components/admin/BookingSeriesCard"
 import { logger } from "@/lib/logger"
+import type { PriceQuote } from "@/lib/pricing"
+import type { BookingLineItem } from "@prisma/client"
+
+const LINE_ITEM_SECTIONS = [
+  { kind: "ROOM", label: "Rooms" },
+  { kind: "FOOD", label: "Food" },
+  { kind: "BEVERAGE", label: "Beverages" },
+  { kind: "ADDON", label: "Extras" },
+] as const
 
 const STATUS_COLORS = {
   PENDING: "bg-yellow-400/20 text-yellow-400 border-yellow-400/50",
@@ -181,7 +192,7 @@ export default function BookingDetailPage() {
                 <Clock className="w-5 h-5 text-cyan-400 mt-0.5" />
                 <div>
                   <p className="text-xs text-cyan-100/50">Time</p>
-                  <p className="text-sm text-cyan-100">{booking.time}</p>
+                  <p className="text-sm text-cyan-100">{formatTimeRange(booking.time, booking.duration)}</p>
                 </div>
               </div>
 
@@ -226,6 +237,50 @@ export default function BookingDetailPage() {
             </div>
           </div>
 
+          {/* Party Order */}
+          {(booking.childName || booking.lineItems?.length > 0) && (
+            <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+              <h2 className="text-lg font-semibold text-cyan-300 mb-4">Party Order</h2>
+
+              {booking.childName && (
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <p className="text-xs text-cyan-100/50">Child</p>
+                    <p className="text-sm text-cyan-100">
+                      {booking.childName}
+                      {booking.childAge != null && ` (${booking.childAge} years)`}
+                    </p>
+                  </div>
+                  {booking.parentName && (
+                    <div>
+                      <p className="text-xs text-cyan-100/50">Parent</p>
+                      <p className="text-sm text-cyan-100">{booking.parentName}</p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                {LINE_ITEM_SECTIONS.map(section => {
+                  const items = (booking.lineItems as BookingLineItem[]).filter(item => item.kind === section.kind)
+                  if (items.length === 0) return null
+
+                  return (
+                    <div key={section.kind}>
+                      <p className="text-xs text-cyan-100/50 mb-1">{section.label}</p>
+                      {items.map(item => (
+                        <div key={item.id} className="flex justify-between text-sm text-cyan-100/70">
+                          <span>{item.name}</span>
+                          {section.kind !== "ROOM" && <span>× {item.quantity}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Special Requests */}
           {booking.specialRequests && (
             <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
@@ -234,6 +289,34 @@ export default function BookingDetailPage() {
             </div>
           )}
 
+          {/* Price Breakdown */}
+          {booking.priceQuote && (
+            <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+              <h2 className="text-lg font-semibold text-cyan-300 mb-4">Price</h2>
+              <div className="space-y-2">
+                {(booking.priceQuote as PriceQuote).lines.map(line => (
+                  <div key={line.code} className="flex justify-between text-sm text-cyan-100/70">
+                    <span>
+                      {line.label}
+                      {line.quantity > 1 && ` × ${line.quantity}`}
+                    </span>
+                    <span>{line.amount} {booking.priceQuote.currency}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between pt-2 border-t border-cyan-400/20 font-semibold text-cyan-300">
+                  <span>Total</span>
+                  <span>{booking.priceQuote.total} {booking.priceQuote.currency}</span>
+                </div>
+                {booking.paidAmount > 0 && (
+                  <div className="flex justify-between text-sm text-green-300">
+                    <span>Paid</span>
+                    <span>{booking.paidAmount} {booking.priceQuote.currency}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Admin Notes */}
           {booking.adminNotes && (
             <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
@@ -296,6 +379,9 @@ export default function BookingDetailPage() {
             </div>
           )}
 
+          {/* Recurring series */}
+          <BookingSeriesCard booking={booking} onChange={fetchBooking} />
+
           {/* Delete */}
           <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-red-400/20">
             <h2 className="text-lg font-semibold text-red-300 mb-4">Danger Zone</h2>
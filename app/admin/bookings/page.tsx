@@ -3,13 +3,21 @@
 import { useEffect, useState, Suspense } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import { motion } from "framer-motion"
-import { Search, Filter, Calendar, CheckCircle, XCircle, Clock, Trash2, Loader2, LayoutList, CalendarDays } from "lucide-react"
+import { Search, CheckCircle, XCircle, Clock, Loader2, LayoutList, CalendarDays, Repeat } from "lucide-react"
 import { DataTable, type Column } from "@/components/admin/DataTable"
 import { AdminBookingCalendar } from "@/components/admin/AdminBookingCalendar"
 import type { AdminBookingEvent } from "@/components/admin/AdminBookingCalendar"
-import { getBookings, deleteBooking, approveBooking, rejectBooking } from "@/app/actions/bookings"
+import {
+  getBookings,
+  deleteBooking,
+  approveBooking,
+  rejectBooking,
+  approveBookingSeries,
+  cancelBookingSeries,
+} from "@/app/actions/bookings"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
+import { formatTimeRange } from "@/lib/calendar-utils"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import {
@@ -41,11 +49,14 @@ interface Booking {
   title: string
   date: Date
   time: string
+  duration: number
   type: string
   guestCount: number
   phone: string
   email: string
   status: string
+  resourceIds: string[]
+  seriesId: string | null
   createdAt: Date
 }
 
@@ -187,17 +198,55 @@ function BookingsContent() {
     }
   }
 
+  // Handle approve series
+  const handleApproveSeries = async (bookingId: string) => {
+    try {
+      const result = await approveBookingSeries(bookingId, "all")
+      if (result.success) {
+        toast.success(result.message || "Series approved")
+        fetchBookings(pagination.page)
+      } else {
+        toast.error(result.error || "Failed to approve series")
+      }
+    } catch (error) {
+      logger.error("Failed to approve series", error instanceof Error ? error : new Error(String(error)))
+      toast.error("Failed to approve series")
+    }
+  }
+
+  // Handle cancel series
+  const handleCancelSeries = async (bookingId: string) => {
+    const reason = prompt("Cancel every upcoming booking in this series? Reason (optional):")
+    if (reason === null) return
+
+    try {
+      const result = await cancelBookingSeries(bookingId, "all", reason || undefined)
+      if (result.success) {
+        toast.success(result.message || "Series cancelled")
+        fetchBookings(pagination.page)
+      } else {
+        toast.error(result.error || "Failed to cancel series")
+      }
+    } catch (error) {
+      logger.error("Failed to cancel series", error instanceof Error ? error : new Error(String(error)))
+      toast.error("Failed to cancel series")
+    }
+  }
+
   // Transform bookings for calendar view
   const calendarEvents: AdminBookingEvent[] = bookings.map(booking => ({
     id: booking.id,
     title: booking.title,
     date: new Date(booking.date),
     time: booking.time,
+    duration: booking.duration,
     type: booking.type as AdminBookingEvent['type'],
     status: booking.status as AdminBookingEvent['status'],
     guestCount: booking.guestCount,
     phone: booking.phone,
     email: booking.email,
+    resourceIds: booking.resourceIds,
+    seriesId: booking.seriesId,
   }))
 
   // Table columns
@@ -209,7 +258,7 @@ function BookingsContent() {
           <div className="font-medium text-cyan-300">
             {format(new Date(booking.date), "MMM dd, yyyy")}
           </div>
-          <div className="text-xs text-cyan-100/50">{booking.time}</div>
+          <div className="text-xs text-cyan-100/50">{formatTimeRange(booking.time, booking.duration)}</div>
         </div>
       ),
       width: "w-32",
@@ -218,7 +267,10 @@ function BookingsContent() {
       header: "Title",
       accessor: (booking) => (
         <div>
-          <div className="font-medium text-cyan-300">{booking.title}</div>
+          <div className="font-medium text-cyan-300 flex items-center gap-1">
+            {booking.seriesId && <Repeat className="w-3 h-3" />}
+            {booking.title}
+          </div>
           <div className="text-xs text-cyan-100/50">
             {booking.guestCount} {booking.guestCount === 1 ? "guest" : "guests"}
           </div>
@@ -418,6 +470,8 @@ function BookingsContent() {
               onApprove={handleApprove}
               onReject={handleReject}
               onDelete={handleDelete}
+              onApproveSeries={handleApproveSeries}
+              onCancelSeries={handleCancelSeries}
             />
           )}
         </motion.div>
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter, useParams } from 'next/navigation'
+import dynamic from 'next/dynamic'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -14,7 +15,9 @@ import {
   updateCampaign,
   deleteCampaign,
   scheduleCampaign,
-  cancelCampaign
+  cancelCampaign,
+  sendCampaign,
+  getCampaignFunnel
 } from '@/app/actions/campaigns'
 import {
   ArrowLeft,
@@ -34,6 +37,20 @@ import {
 import { format } from 'date-fns'
 import type { Campaign, CampaignType, CampaignStatus } from '@prisma/client'
 import { NeonLoader } from '@/components/common'
+import { ChartSkeleton } from '@/components/loading/ChartSkeleton'
+
+const CampaignFunnelChart = dynamic(
+  () => import('@/components/admin/charts/CampaignFunnelChart').then(m => ({ default: m.CampaignFunnelChart })),
+  { loading: () => <ChartSkeleton />, ssr: false }
+)
+
+type CampaignFunnelResult = Awaited<ReturnType<typeof getCampaignFunnel>>
+
+interface CampaignFunnel {
+  funnel: NonNullable<CampaignFunnelResult['funnel']>
+  failed: number
+  topLinks: NonNullable<CampaignFunnelResult['topLinks']>
+}
 
 export default function CampaignDetailPage() {
   const router = useRouter()
@@ -44,6 +61,7 @@ export default function CampaignDetailPage() {
   const [recipients, setRecipients] = useState<any[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isLoadingRecipients, setIsLoadingRecipients] = useState(false)
+  const [funnel, setFunnel] = useState<CampaignFunnel | null>(null)
 
   // Fetch campaign details
   const fetchCampaign = async () => {
@@ -88,6 +106,22 @@ export default function CampaignDetailPage() {
     fetchCampaign()
   }, [campaignId])
 
+  // Fetch the engagement funnel once sending started
+  const isSentOrSending = campaign?.status === 'SENT' || campaign?.status === 'SENDING'
+  useEffect(() => {
+    if (!isSentOrSending) return
+
+    getCampaignFunnel(campaignId)
+      .then(result => {
+        if (result.success && result.funnel) {
+          setFunnel({ funnel: result.funnel, failed: result.failed ?? 0, topLinks: result.topLinks ?? [] })
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to fetch campaign funnel', error instanceof Error ? error : new Error(String(error)))
+      })
+  }, [campaignId, isSentOrSending])
+
   // Handle campaign deletion
   const handleDelete = async () => {
     if (!campaign) return
@@ -130,6 +164,27 @@ export default function CampaignDetailPage() {
     }
   }
 
+  // Handle sending now
+  const handleSend = async () => {
+    if (!campaign) return
+    if (!confirm(`Send "${campaign.name}" to ${campaign.totalRecipients.toLocaleString()} recipient(s) now?`)) {
+      return
+    }
+
+    try {
+      const result = await sendCampaign(campaign.id)
+      if (result.success) {
+        toast.success('Campaign is being sent')
+        fetchCampaign()
+      } else {
+        toast.error(result.error || 'Failed to send campaign')
+      }
+    } catch (error) {
+      logger.error('Failed to send campaign', error instanceof Error ? error : new Error(String(error)))
+      toast.error('Failed to send campaign')
+    }
+  }
+
   // Get status badge
   const getStatusBadge = (status: CampaignStatus) => {
     const badges: Record<CampaignStatus, { variant: 'default' | 'secondary' | 'destructive' | 'outline', label: string }> = {
@@ -195,7 +250,13 @@ export default function CampaignDetailPage() {
               </Button>
             </>
           )}
-          {campaign.status === 'SCHEDULED' && (
+          {(campaign.status === 'DRAFT' || campaign.status === 'SCHEDULED') && (
+            <Button onClick={handleSend}>
+              <Send className="w-4 h-4 mr-2" />
+              Send Now
+            </Button>
+          )}
+          {(campaign.status === 'SCHEDULED' || campaign.status === 'SENDING') && (
             <Button variant="destructive" onClick={handleCancel}>
               <Ban className="w-4 h-4 mr-2" />
               Cancel
@@ -279,6 +340,22 @@ export default function CampaignDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Progress (while sending) */}
+          {campaign.status === 'SENDING' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Sending</CardTitle>
+                <CardDescription>Emails go out in batches; refresh to see progress</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">
+                  {campaign.sentCount.toLocaleString()} / {campaign.totalRecipients.toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">emails sent</p>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Performance (for sent campaigns) */}
           {campaign.status === 'SENT' && (
             <Card>
@@ -344,6 +421,36 @@ export default function CampaignDetailPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* Engagement Funnel (per recipient) */}
+          {funnel && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Engagement Funnel</CardTitle>
+                <CardDescription>
+                  Recipients who got, opened and clicked the email
+                  {funnel.failed > 0 && ` · ${funnel.failed.toLocaleString()} failed to send`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <CampaignFunnelChart data={funnel.funnel} />
+
+                {funnel.topLinks.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Most Clicked Links</h4>
+                    <div className="space-y-1">
+                      {funnel.topLinks.map(link => (
+                        <div key={link.url} className="flex justify-between gap-4 text-sm">
+                          <span className="truncate text-muted-foreground">{link.url}</span>
+                          <span className="font-medium">{link.clicks.toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Sidebar - Right Column */}
@@ -18,6 +18,7 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
 import { logger } from '@/lib/logger'
+import { MAX_SMS_SEGMENTS, SMS_OPT_OUT_FOOTER, formatMarketingSms, getSmsSegments } from '@/lib/sms'
 import { createCampaign, getCampaignRecipients, type CreateCampaignInput } from '@/app/actions/campaigns'
 import { ArrowLeft, Users, Mail, MessageSquare, Send } from 'lucide-react'
 import type { CampaignType, LoyaltyTier } from '@prisma/client'
@@ -49,6 +50,9 @@ export default function NewCampaignPage() {
     }
   })
 
+  // Length of the SMS as sent, with its opt-out line
+  const smsSegments = getSmsSegments(formatMarketingSms(formData.content))
+
   // Handle form field changes
   const handleChange = (field: keyof CreateCampaignInput, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
@@ -123,6 +127,11 @@ export default function NewCampaignPage() {
       return
     }
 
+    if (formData.type !== 'EMAIL' && smsSegments.segments > MAX_SMS_SEGMENTS) {
+      toast.error(`SMS messages can be at most ${MAX_SMS_SEGMENTS} segments long`)
+      return
+    }
+
     if ((formData.type === 'EMAIL' || formData.type === 'BOTH') && !formData.subject?.trim()) {
       toast.error('Email campaigns require a subject')
       return
@@ -256,7 +265,7 @@ export default function NewCampaignPage() {
                   id="content"
                   placeholder={
                     formData.type === 'SMS'
-                      ? 'Keep it short and sweet for SMS (max 160 characters recommended)'
+                      ? 'Keep it short and sweet for SMS (one segment is 160 characters)'
                       : 'Write your message here. You can use HTML for email campaigns.'
                   }
                   value={formData.content}
@@ -264,9 +273,11 @@ export default function NewCampaignPage() {
                   rows={10}
                   required
                 />
-                {formData.type === 'SMS' && (
-                  <p className="text-xs text-muted-foreground">
-                    Character count: {formData.content.length} {formData.content.length > 160 && '(⚠️ May be split into multiple messages)'}
+                {formData.type !== 'EMAIL' && (
+                  <p className={`text-xs ${smsSegments.segments > MAX_SMS_SEGMENTS ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    SMS: {smsSegments.characters} characters, {smsSegments.segments} {smsSegments.segments === 1 ? 'segment' : 'segments'} ({smsSegments.encoding})
+                    {smsSegments.segments > MAX_SMS_SEGMENTS && ` - at most ${MAX_SMS_SEGMENTS} segments can be sent`}
+                    {' '}· &quot;{SMS_OPT_OUT_FOOTER}&quot; is added
                   </p>
                 )}
               </div>
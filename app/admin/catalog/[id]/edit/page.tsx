@@ -0,0 +1,27 @@
+import { getCatalog, getCatalogItemById } from '@/app/actions/catalog'
+import { CatalogItemEditor } from '@/components/admin/CatalogItemEditor'
+import { notFound } from 'next/navigation'
+
+export default async function EditCatalogItemPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const [result, { categories }] = await Promise.all([getCatalogItemById(id), getCatalog()])
+
+  if (!result.success || !result.item) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <CatalogItemEditor
+        itemId={id}
+        categories={(categories || []).map(({ id, name, kind }) => ({ id, name, kind }))}
+        initialData={result.item}
+        isEditing
+      />
+    </div>
+  )
+}
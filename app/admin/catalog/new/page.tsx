@@ -0,0 +1,19 @@
+import { getCatalog } from '@/app/actions/catalog'
+import { CatalogItemEditor } from '@/components/admin/CatalogItemEditor'
+
+export default async function NewCatalogItemPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ categoryId?: string }>
+}) {
+  const [{ categoryId }, { categories }] = await Promise.all([searchParams, getCatalog()])
+
+  return (
+    <div className="space-y-6">
+      <CatalogItemEditor
+        categories={(categories || []).map(({ id, name, kind }) => ({ id, name, kind }))}
+        initialData={{ categoryId }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { getCatalog } from '@/app/actions/catalog'
+import { CatalogManager } from '@/components/admin/CatalogManager'
+
+export default async function AdminCatalogPage() {
+  const { categories } = await getCatalog()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-cyan-400">Booking Catalog</h1>
+        <p className="text-white/70 mt-2">
+          Rooms, menu items, drinks and extras offered in the birthday and playroom booking forms
+        </p>
+      </div>
+
+      <CatalogManager categories={categories || []} />
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { getUserById } from "@/app/actions/users"
+import { getMarketingConsentHistory } from "@/app/actions/loyalty"
 import { notFound } from "next/navigation"
 import { CustomerProfile } from "@/components/admin/CustomerProfile"
 import { LoyaltyPointsCard } from "@/components/admin/LoyaltyPointsCard"
@@ -18,7 +19,10 @@ interface PageProps {
 
 export default async function CustomerDetailsPage({ params }: PageProps) {
     const { id } = await params
-    const result = await getUserById(id)
+    const [result, consentHistory] = await Promise.all([
+        getUserById(id),
+        getMarketingConsentHistory(id),
+    ])
 
     if (!result.success || !result.user) {
         notFound()
@@ -114,6 +118,7 @@ export default async function CustomerDetailsPage({ params }: PageProps) {
                         marketingOptIn={user.marketingOptIn || false}
                         smsOptIn={user.smsOptIn || false}
                         preferredContactMethod={user.preferredContactMethod || 'EMAIL'}
+                        consentHistory={consentHistory.changes}
                     />
 
                     {/* Customer Stats */}
@@ -0,0 +1,59 @@
+import { EventCheckIn } from "@/components/admin/EventCheckIn"
+import { getEventById } from "@/app/actions/events"
+import { SEATED_STATUSES } from "@/lib/event-capacity"
+import { OCCURRENCE_DATE_PATTERN, getOccurrenceKey } from "@/lib/event-occurrences"
+import { notFound } from "next/navigation"
+
+interface PageProps {
+    params: Promise<{
+        id: string
+    }>
+    searchParams: Promise<{
+        date?: string
+    }>
+}
+
+export default async function EventCheckInPage({ params, searchParams }: PageProps) {
+    const { id } = await params
+    const { date } = await searchParams
+    const result = await getEventById(id)
+
+    if (!result.success || !result.event) {
+        notFound()
+    }
+
+    const { event } = result
+
+    // Dates with registrations; check-in opens on the next one (today included)
+    const occurrenceDates = [...new Set(event.attendees.map(attendee => attendee.occurrenceDate))].sort()
+    const today = getOccurrenceKey(new Date())
+    const occurrenceDate = date && OCCURRENCE_DATE_PATTERN.test(date)
+        ? date
+        : occurrenceDates.find(d => d >= today) ?? occurrenceDates.at(-1) ?? getOccurrenceKey(event.date)
+
+    if (!occurrenceDates.includes(occurrenceDate)) {
+        occurrenceDates.push(occurrenceDate)
+        occurrenceDates.sort()
+    }
+
+    const attendees = event.attendees
+        .filter(attendee => attendee.occurrenceDate === occurrenceDate && SEATED_STATUSES.includes(attendee.status))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(attendee => ({
+            id: attendee.id,
+            name: attendee.name,
+            guestCount: attendee.guestCount,
+            checkedInAt: attendee.checkedInAt,
+        }))
+
+    return (
+        <EventCheckIn
+            eventId={id}
+            eventTitle={event.title}
+            occurrenceDate={occurrenceDate}
+            occurrenceDates={occurrenceDates}
+            attendees={attendees}
+            currency={event.currency}
+        />
+    )
+}
@@ -1,4 +1,6 @@
 import { EventEditor } from "@/components/admin/EventEditor"
+import { EventAttendees } from "@/components/admin/EventAttendees"
+import { EventOccurrences } from "@/components/admin/EventOccurrences"
 import { getEventById, updateEvent } from "@/app/actions/events"
 import { notFound } from "next/navigation"
 
@@ -25,6 +27,24 @@ export default async function EditEventPage({ params }: PageProps) {
                 onSubmit={updateAction}
                 isEditing
             />
+            <EventOccurrences
+                eventId={id}
+                schedule={{
+                    date: result.event.date,
+                    time: result.event.time,
+                    endTime: result.event.endTime,
+                    isRecurring: result.event.isRecurring,
+                    recurrenceRule: result.event.recurrenceRule,
+                }}
+                exceptions={result.event.exceptions}
+                attendees={result.event.attendees}
+                capacity={result.event.capacity}
+            />
+            <EventAttendees
+                eventId={id}
+                attendees={result.event.attendees}
+                capacity={result.event.capacity}
+            />
         </div>
     )
 }
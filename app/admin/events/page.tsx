@@ -28,6 +28,7 @@ import {
 import { toast } from "sonner"
 import Link from "next/link"
 import { logger } from "@/lib/logger"
+import type { OccurrenceException } from "@/lib/event-occurrences"
 
 /**
  * Events Management Page
@@ -53,6 +54,9 @@ interface Event {
   registeredCount: number
   image: string | null
   createdAt: Date
+  isRecurring?: boolean
+  recurrenceRule?: string | null
+  exceptions?: OccurrenceException[]
   _count?: { attendees: number }
 }
 
@@ -68,6 +72,7 @@ function EventsContent() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [events, setEvents] = useState<Event[]>([])
+  const [occurrenceSeats, setOccurrenceSeats] = useState<Record<string, number>>({})
   const [isLoading, setIsLoading] = useState(true)
   const [viewMode, setViewMode] = useState<'table' | 'calendar'>('table')
   const [showEventForm, setShowEventForm] = useState(false)
@@ -99,6 +104,7 @@ function EventsContent() {
 
       if (result.success && result.events) {
         setEvents(result.events as Event[])
+        setOccurrenceSeats(result.occurrenceSeats)
         const total = result.total || 0
         setPagination(prev => ({
           ...prev,
@@ -238,7 +244,7 @@ function EventsContent() {
     {
       header: "Attendees",
       accessor: (event) => {
-        const count = event._count?.attendees || event.registeredCount
+        const count = event.registeredCount
         const isFull = event.capacity && count >= event.capacity
         return (
           <div className="flex items-center gap-1 text-sm">
@@ -472,6 +478,7 @@ function EventsContent() {
           >
             <EventCalendar
               events={events}
+              occurrenceSeats={occurrenceSeats}
               onEventClick={handleEdit}
               onEdit={handleEdit}
               onDelete={handleDelete}
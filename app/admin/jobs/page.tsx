@@ -0,0 +1,263 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import { Clock, Play, RotateCcw, RefreshCw } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import type { JobRunStatus } from '@prisma/client'
+import { getJobs, getJobRuns, retryJobRun, runJobNow } from '@/app/actions/jobs'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { logger } from '@/lib/logger'
+
+type Job = Awaited<ReturnType<typeof getJobs>>['jobs'][number]
+type JobRun = Awaited<ReturnType<typeof getJobRuns>>['runs'][number]
+
+const STATUS_FILTERS: (JobRunStatus | 'ALL')[] = ['ALL', 'FAILED', 'QUEUED', 'RUNNING', 'SUCCEEDED']
+
+const STATUS_STYLES: Record<JobRunStatus, string> = {
+  QUEUED: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  RUNNING: 'bg-cyan-500/10 text-cyan-400 border-cyan-500/30',
+  SUCCEEDED: 'bg-green-500/10 text-green-400 border-green-500/30',
+  FAILED: 'bg-red-500/10 text-red-400 border-red-500/30',
+}
+
+function StatusBadge({ status }: { status: JobRunStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-xs ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  )
+}
+
+/**
+ * Background Jobs Page
+ *
+ * Scheduled jobs with their latest run, and the job run history with
+ * failures. Jobs can be run on demand and failed runs retried.
+ */
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [runs, setRuns] = useState<JobRun[]>([])
+  const [counts, setCounts] = useState<Partial<Record<JobRunStatus, number>>>({})
+  const [status, setStatus] = useState<JobRunStatus | 'ALL'>('ALL')
+  const [name, setName] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [jobsResult, runsResult] = await Promise.all([
+        getJobs(),
+        getJobRuns({ status, name: name || undefined }),
+      ])
+
+      if (jobsResult.success && runsResult.success) {
+        setJobs(jobsResult.jobs)
+        setRuns(runsResult.runs)
+        setCounts(runsResult.counts ?? {})
+      } else {
+        toast.error(jobsResult.error || runsResult.error || 'Failed to load jobs')
+      }
+    } catch (error) {
+      logger.error('Failed to fetch jobs', error instanceof Error ? error : new Error(String(error)))
+      toast.error('Failed to load jobs')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status, name])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const handleRunNow = async (jobName: string) => {
+    const result = await runJobNow(jobName)
+    if (result.success) {
+      toast.success(`${jobName} queued`)
+      fetchData()
+    } else {
+      toast.error(result.error || 'Failed to queue job')
+    }
+  }
+
+  const handleRetry = async (id: string) => {
+    const result = await retryJobRun(id)
+    if (result.success) {
+      toast.success('Run queued for retry')
+      fetchData()
+    } else {
+      toast.error(result.error || 'Failed to retry run')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-cyan-400"
+            style={{
+              textShadow: '0 0 30px rgba(34, 211, 238, 0.6)',
+            }}
+          >
+            Background Jobs
+          </h1>
+          <p className="text-sm text-cyan-100/60 mt-1">
+            Scheduled work and its run history. Queued runs start with the scheduler&apos;s next call.
+          </p>
+        </div>
+
+        <Button
+          onClick={fetchData}
+          variant="outline"
+          size="sm"
+          className="border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+        >
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Scheduled Jobs */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20"
+      >
+        <h2 className="text-lg font-semibold text-cyan-300 mb-4">Jobs</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-cyan-100/50">
+              <th className="pb-2 font-normal">Job</th>
+              <th className="pb-2 font-normal">Schedule</th>
+              <th className="pb-2 font-normal">Latest Run</th>
+              <th className="pb-2 font-normal" />
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map(job => (
+              <tr key={job.name} className="border-t border-cyan-400/10 text-cyan-100">
+                <td className="py-2">
+                  <button
+                    onClick={() => setName(name === job.name ? '' : job.name)}
+                    className={`font-mono text-left hover:underline ${name === job.name ? 'text-cyan-300' : ''}`}
+                  >
+                    {job.name}
+                  </button>
+                  <p className="text-xs text-cyan-100/50">{job.description}</p>
+                </td>
+                <td className="py-2 font-mono text-cyan-100/60">{job.schedule ?? 'On demand'}</td>
+                <td className="py-2">
+                  {job.latestRun ? (
+                    <div className="flex items-center gap-2">
+                      <StatusBadge status={job.latestRun.status} />
+                      <span className="text-xs text-cyan-100/50">
+                        {formatDistanceToNow(new Date(job.latestRun.runAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-cyan-100/40">Never run</span>
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  <Button
+                    onClick={() => handleRunNow(job.name)}
+                    variant="ghost"
+                    size="sm"
+                    className="text-cyan-400 hover:bg-cyan-400/10"
+                  >
+                    <Play className="w-4 h-4 mr-1" />
+                    Run now
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </motion.div>
+
+      {/* Runs */}
+      <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-cyan-300">
+            Runs{name && <span className="font-mono text-sm text-cyan-100/60"> · {name}</span>}
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map(filter => (
+              <Button
+                key={filter}
+                onClick={() => setStatus(filter)}
+                variant="outline"
+                size="sm"
+                className={status === filter
+                  ? 'border-cyan-400 bg-cyan-400/20 text-cyan-300'
+                  : 'border-cyan-400/30 text-cyan-100/70 hover:bg-cyan-400/10'}
+              >
+                {filter === 'ALL' ? 'All' : filter.charAt(0) + filter.slice(1).toLowerCase()}
+                {filter !== 'ALL' && counts[filter] ? ` (${counts[filter]})` : ''}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-cyan-100/60">Loading...</p>
+        ) : runs.length === 0 ? (
+          <div className="py-6 text-center">
+            <Clock className="w-10 h-10 text-cyan-400/50 mx-auto mb-3" />
+            <p className="text-cyan-100/60">No job runs</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-cyan-100/50">
+                <th className="pb-2 font-normal">Job</th>
+                <th className="pb-2 font-normal">Status</th>
+                <th className="pb-2 font-normal">Run At</th>
+                <th className="pb-2 font-normal text-right">Attempts</th>
+                <th className="pb-2 font-normal" />
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => (
+                <tr key={run.id} className="border-t border-cyan-400/10 text-cyan-100 align-top">
+                  <td className="py-2">
+                    <span className="font-mono">{run.name}</span>
+                    {run.lastError && (
+                      <p className="text-xs text-red-400/80 mt-1 break-all">{run.lastError}</p>
+                    )}
+                  </td>
+                  <td className="py-2"><StatusBadge status={run.status} /></td>
+                  <td className="py-2 text-cyan-100/60">
+                    {format(new Date(run.runAt), 'MMM d, HH:mm:ss')}
+                    {run.finishedAt && (
+                      <p className="text-xs text-cyan-100/40">
+                        Finished {format(new Date(run.finishedAt), 'HH:mm:ss')}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-cyan-100/60">{run.attempts}/{run.maxAttempts}</td>
+                  <td className="py-2 text-right">
+                    {run.status === 'FAILED' && (
+                      <Button
+                        onClick={() => handleRetry(run.id)}
+                        variant="ghost"
+                        size="sm"
+                        className="text-cyan-400 hover:bg-cyan-400/10"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { ChefHat, Printer } from 'lucide-react'
+import { format } from 'date-fns'
+import { getKitchenPrepSheet } from '@/app/actions/bookings'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { logger } from '@/lib/logger'
+
+type PrepSheetResult = Awaited<ReturnType<typeof getKitchenPrepSheet>>
+
+interface PrepSheet {
+  bookings: NonNullable<PrepSheetResult['bookings']>
+  totals: NonNullable<PrepSheetResult['totals']>
+}
+
+const KIND_LABELS: Record<string, string> = {
+  FOOD: 'Food',
+  BEVERAGE: 'Beverages',
+  ADDON: 'Extras',
+}
+
+/**
+ * Kitchen Prep Sheet Page
+ *
+ * Food, drinks and extras ordered for a day's parties, totalled for the
+ * kitchen and broken down per booking. Printable.
+ */
+
+export default function KitchenPrepPage() {
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [sheet, setSheet] = useState<PrepSheet | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchSheet = async () => {
+      try {
+        setIsLoading(true)
+        const result = await getKitchenPrepSheet(date)
+
+        if (result.success && result.bookings && result.totals) {
+          setSheet({ bookings: result.bookings, totals: result.totals })
+        } else {
+          toast.error(result.error || 'Failed to load prep sheet')
+        }
+      } catch (error) {
+        logger.error('Failed to fetch prep sheet', error instanceof Error ? error : new Error(String(error)))
+        toast.error('Failed to load prep sheet')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (date) {
+      fetchSheet()
+    }
+  }, [date])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-cyan-400"
+            style={{
+              textShadow: '0 0 30px rgba(34, 211, 238, 0.6)',
+            }}
+          >
+            Kitchen Prep Sheet
+          </h1>
+          <p className="text-sm text-cyan-100/60 mt-1">
+            Everything ordered for pending and approved parties on the selected day
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 print:hidden">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-44 bg-black/40 border-cyan-400/30 text-cyan-100"
+          />
+          <Button
+            onClick={() => window.print()}
+            variant="outline"
+            size="sm"
+            className="border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-cyan-100/60">Loading...</p>
+      ) : !sheet || sheet.bookings.length === 0 ? (
+        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 text-center">
+          <ChefHat className="w-10 h-10 text-cyan-400/50 mx-auto mb-3" />
+          <p className="text-cyan-100/60">No food or drinks ordered for this day</p>
+        </div>
+      ) : (
+        <>
+          {/* Totals */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20"
+          >
+            <h2 className="text-lg font-semibold text-cyan-300 mb-4">
+              Totals ({sheet.bookings.length} {sheet.bookings.length === 1 ? 'party' : 'parties'})
+            </h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-cyan-100/50">
+                  <th className="pb-2 font-normal">Item</th>
+                  <th className="pb-2 font-normal">Type</th>
+                  <th className="pb-2 font-normal text-right">Parties</th>
+                  <th className="pb-2 font-normal text-right">Servings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.totals.map(total => (
+                  <tr key={`${total.kind}:${total.name}`} className="border-t border-cyan-400/10 text-cyan-100">
+                    <td className="py-2">{total.name}</td>
+                    <td className="py-2 text-cyan-100/60">{KIND_LABELS[total.kind]}</td>
+                    <td className="py-2 text-right text-cyan-100/60">{total.bookings}</td>
+                    <td className="py-2 text-right font-semibold text-cyan-300">{total.quantity}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </motion.div>
+
+          {/* Per Booking */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {sheet.bookings.map(booking => (
+              <div
+                key={booking.id}
+                className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 break-inside-avoid"
+              >
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div>
+                    <Link href={`/admin/bookings/${booking.id}`} className="font-semibold text-cyan-300 hover:underline">
+                      {booking.time} - {booking.childName || booking.title}
+                    </Link>
+                    <p className="text-xs text-cyan-100/50">
+                      {booking.guestCount} guests · {booking.status}
+                    </p>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {booking.lineItems.map((item, index) => (
+                    <div key={index} className="flex justify-between text-sm text-cyan-100/70">
+                      <span>{item.name}</span>
+                      <span>× {item.quantity}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -64,7 +64,13 @@ export default function AdminLayout({
       router.push('/')
       return
     }
-  }, [session, status, router])
+
+    // Two-factor authentication, in case the session changed since middleware.ts checked it
+    if (session.user.twoFactor === 'pending' || session.user.twoFactor === 'setup-required') {
+      const page = session.user.twoFactor === 'pending' ? '/two-factor' : '/two-factor/setup'
+      router.push(`${page}?callbackUrl=${encodeURIComponent(pathname || '/admin')}`)
+    }
+  }, [session, status, router, pathname])
 
   // Fetch pending bookings count with React Query
   // Refetch every 60 seconds (increased from 30s for better performance)
@@ -35,6 +35,7 @@ const NOTIFICATION_ICONS: Record<string, string> = {
   BOOKING_APPROVED: '✅',
   BOOKING_REJECTED: '❌',
   BOOKING_CANCELLED: '🚫',
+  WAITLIST_OFFER: '⏳',
   NEW_EVENT_REGISTRATION: '🎫',
   EVENT_PUBLISHED: '🎉',
   EVENT_CANCELLED: '🚫',
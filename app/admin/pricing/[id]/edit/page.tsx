@@ -18,7 +18,11 @@ export default async function EditPricingPackagePage({
     <div className="space-y-6">
       <PricingEditor
         packageId={id}
-        initialData={result.package}
+        initialData={{
+          ...result.package,
+          // Decimal can't be passed to a client component
+          priceAmount: result.package.priceAmount === null ? null : Number(result.package.priceAmount),
+        }}
         isEditing
       />
     </div>
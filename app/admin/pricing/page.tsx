@@ -1,11 +1,16 @@
 import { getPricingPackages } from '@/app/actions/pricing'
+import { getPricingSurcharges } from '@/app/actions/settings'
 import { PricingTable } from '@/components/admin/PricingTable'
+import { PricingSurchargesCard } from '@/components/admin/PricingSurchargesCard'
 import { Button } from '@/components/ui/button'
 import { Plus } from 'lucide-react'
 import Link from 'next/link'
 
 export default async function AdminPricingPage() {
-  const { packages } = await getPricingPackages({})
+  const [{ packages }, { surcharges }] = await Promise.all([
+    getPricingPackages({}),
+    getPricingSurcharges(),
+  ])
 
   return (
     <div className="space-y-6">
@@ -24,6 +29,8 @@ export default async function AdminPricingPage() {
         </Link>
       </div>
 
+      <PricingSurchargesCard surcharges={surcharges} />
+
       <PricingTable packages={packages || []} />
 
       {(!packages || packages.length === 0) && (
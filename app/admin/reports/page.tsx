@@ -109,7 +109,7 @@ export default function ReportsPage() {
       reports: [
         {
           name: 'Event Attendance',
-          description: 'Export all events with dates and attendance data',
+          description: 'Export registrations vs check-ins per event date',
           action: exportEventAttendance,
           filename: 'event-attendance',
         },
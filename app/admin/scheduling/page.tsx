@@ -2,10 +2,15 @@
 
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Clock, Calendar, Info, CheckCircle, Edit, Save, X } from 'lucide-react'
-import { BUFFER_TIME_MINUTES } from '@/lib/scheduling'
+import { Clock, Calendar, Info, CheckCircle, Edit, Save, X, CalendarClock } from 'lucide-react'
+import { BUFFER_TIME_MINUTES, DEFAULT_CHANGE_CUTOFF_HOURS } from '@/lib/scheduling'
 import { BufferTimeInfo } from '@/components/admin/BufferTimeWarning'
-import { getBufferTime, updateBufferTime } from '@/app/actions/settings'
+import {
+  getBufferTime,
+  updateBufferTime,
+  getBookingChangeCutoff,
+  updateBookingChangeCutoff,
+} from '@/app/actions/settings'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { toast } from 'sonner'
@@ -15,7 +20,7 @@ import { addMinutes, format as formatDate } from 'date-fns'
 /**
  * Scheduling Settings Page
  *
- * Displays buffer time configuration and scheduling rules
+ * Displays buffer time configuration, the customer change cutoff and scheduling rules
  */
 
 export default function SchedulingPage() {
@@ -24,16 +29,23 @@ export default function SchedulingPage() {
   const [editValue, setEditValue] = useState(BUFFER_TIME_MINUTES.toString())
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
+  const [cutoffHours, setCutoffHours] = useState(DEFAULT_CHANGE_CUTOFF_HOURS)
+  const [cutoffValue, setCutoffValue] = useState(DEFAULT_CHANGE_CUTOFF_HOURS.toString())
+  const [isSavingCutoff, setIsSavingCutoff] = useState(false)
 
-  // Fetch current buffer time
+  // Fetch current buffer time and change cutoff
   useEffect(() => {
     const fetchBufferTime = async () => {
       try {
-        const result = await getBufferTime()
+        const [result, cutoffResult] = await Promise.all([getBufferTime(), getBookingChangeCutoff()])
         if (result.success) {
           setBufferTime(result.bufferTime)
           setEditValue(result.bufferTime.toString())
         }
+        if (cutoffResult.success) {
+          setCutoffHours(cutoffResult.cutoffHours)
+          setCutoffValue(cutoffResult.cutoffHours.toString())
+        }
       } catch (error) {
         logger.error('Failed to fetch buffer time', error instanceof Error ? error : new Error(String(error)))
       } finally {
@@ -44,6 +56,32 @@ export default function SchedulingPage() {
     fetchBufferTime()
   }, [])
 
+  const handleSaveCutoff = async () => {
+    const hours = parseInt(cutoffValue, 10)
+
+    if (isNaN(hours) || hours < 0 || hours > 168) {
+      toast.error('Change cutoff must be between 0 and 168 hours')
+      return
+    }
+
+    try {
+      setIsSavingCutoff(true)
+      const result = await updateBookingChangeCutoff(hours)
+
+      if (result.success) {
+        setCutoffHours(hours)
+        toast.success(result.message || 'Change cutoff updated successfully')
+      } else {
+        toast.error(result.error || 'Failed to update change cutoff')
+      }
+    } catch (error) {
+      logger.error('Failed to update change cutoff', error instanceof Error ? error : new Error(String(error)))
+      toast.error('An error occurred while updating change cutoff')
+    } finally {
+      setIsSavingCutoff(false)
+    }
+  }
+
   const handleEdit = () => {
     setIsEditing(true)
     setEditValue(bufferTime.toString())
@@ -209,15 +247,61 @@ export default function SchedulingPage() {
             </h3>
             <ul className="text-sm text-purple-100/70 space-y-1">
               <li>• Automatically checked on booking creation</li>
-              <li>• Prevents bookings within {isLoading ? '...' : bufferTime} min of existing ones</li>
+              <li>• Prevents bookings within {isLoading ? '...' : bufferTime} min after existing ones end</li>
               <li>• Suggests alternative times if conflict detected</li>
-              <li>• Applies to all booking types equally</li>
+              <li>• Checked per room, so different rooms can be booked at once</li>
               <li>• Real-time validation with current settings</li>
             </ul>
           </div>
         </div>
       </motion.div>
 
+      {/* Customer Change Cutoff */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.05 }}
+        className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20"
+        style={{ boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)' }}
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-lg bg-cyan-400/20">
+            <CalendarClock className="w-6 h-6 text-cyan-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-cyan-300">Customer Change Cutoff</h2>
+            <p className="text-sm text-cyan-100/60">
+              How long before a booking customers can still cancel or reschedule it from their profile
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Input
+            type="number"
+            min="0"
+            max="168"
+            value={cutoffValue}
+            onChange={(e) => setCutoffValue(e.target.value)}
+            className="w-32 text-xl font-bold bg-black/40 border-cyan-400/30 text-cyan-400"
+            disabled={isLoading || isSavingCutoff}
+          />
+          <span className="text-xl text-cyan-300">hours</span>
+          <Button
+            onClick={handleSaveCutoff}
+            size="sm"
+            disabled={isLoading || isSavingCutoff || cutoffValue === cutoffHours.toString()}
+            className="ml-4 bg-green-400/20 text-green-300 border-green-400/30 hover:bg-green-400/30"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {isSavingCutoff ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+        <p className="text-xs text-cyan-100/50 mt-3">
+          Valid range: 0-168 hours (up to 1 week). Rescheduled bookings go back to pending and need approval again.
+        </p>
+      </motion.div>
+
       {/* Example Timeline */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
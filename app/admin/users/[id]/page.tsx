@@ -1,8 +1,10 @@
 import { getUserById } from "@/app/actions/users"
+import { getUserSessions } from "@/app/actions/sessions"
 import { notFound } from "next/navigation"
 import { UserRoleSelector } from "@/components/admin/UserRoleSelector"
+import { UserSessionsPanel } from "@/components/admin/UserSessionsPanel"
 import { format } from "date-fns"
-import { Shield, User as UserIcon, Calendar, Mail, Clock, History } from "lucide-react"
+import { Shield, User as UserIcon, Calendar, Mail, Clock, History, MonitorSmartphone } from "lucide-react"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
@@ -15,7 +17,7 @@ interface PageProps {
 
 export default async function UserDetailsPage({ params }: PageProps) {
     const { id } = await params
-    const result = await getUserById(id)
+    const [result, sessionsResult] = await Promise.all([getUserById(id), getUserSessions(id)])
 
     if (!result.success || !result.user) {
         notFound()
@@ -158,6 +160,17 @@ export default async function UserDetailsPage({ params }: PageProps) {
                     </div>
                 </div>
             </div>
+
+            {/* Active Sessions - only super admins see super admins' sessions */}
+            {sessionsResult.success && sessionsResult.sessions && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-cyan-300 flex items-center gap-2">
+                        <MonitorSmartphone className="w-5 h-5" />
+                        Active Sessions
+                    </h3>
+                    <UserSessionsPanel userId={user.id} sessions={sessionsResult.sessions} />
+                </div>
+            )}
         </div>
     )
 }
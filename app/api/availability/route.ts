@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { format } from 'date-fns'
+import { getAvailability } from '@/app/actions/bookings'
+import { CACHE_DURATION } from '@/lib/cache'
+import { availabilityQuerySchema } from '@/lib/validations'
+
+/**
+ * Public Availability Endpoint
+ *
+ * GET /api/availability?date=YYYY-MM-DD&days=7&type=PARTY&duration=120&resources=cake-room,slide-room
+ *
+ * Returns opening hours and a 30-minute slot grid per day for each booking type
+ * (or only for `type` when given). Slots are marked unavailable when they fall
+ * outside opening hours or conflict with existing bookings on the same resources.
+ * No booking details are exposed.
+ *
+ * Query params:
+ * - date: First day of the grid (default: today)
+ * - days: Number of days, 1-31 (default: 1)
+ * - type: Optional booking type
+ * - duration: Optional booking length in minutes (default: resource duration)
+ * - resources: Optional comma separated room IDs
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const resources = searchParams.get('resources')
+
+  const query = availabilityQuerySchema.safeParse({
+    date: searchParams.get('date') || format(new Date(), 'yyyy-MM-dd'),
+    days: searchParams.get('days') ?? undefined,
+    type: searchParams.get('type') ?? undefined,
+    duration: searchParams.get('duration') ?? undefined,
+    resourceIds: resources ? resources.split(',').filter(Boolean) : [],
+  })
+
+  if (!query.success) {
+    return NextResponse.json(
+      { success: false, error: query.error.errors[0].message },
+      { status: 400 }
+    )
+  }
+
+  const result = await getAvailability(query.data)
+
+  if (!result.success) {
+    return NextResponse.json(result, { status: 500 })
+  }
+
+  return NextResponse.json(result, {
+    headers: {
+      'Cache-Control': `public, s-maxage=${CACHE_DURATION.BOOKINGS}, stale-while-revalidate=${CACHE_DURATION.BOOKINGS}`,
+    },
+  })
+}
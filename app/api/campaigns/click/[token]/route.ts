@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { recordCampaignClick } from '@/app/actions/campaign-tracking'
+
+/**
+ * Campaign Click Tracking
+ *
+ * GET /api/campaigns/click/:token?url=<link>
+ *
+ * Tracked link of a campaign email (see lib/campaign-tracking.ts). Records
+ * the click and redirects to the link. Links that don't match their token
+ * are refused, so this can't redirect anywhere else.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const url = request.nextUrl.searchParams.get('url') ?? ''
+
+  const result = await recordCampaignClick(token, url, request.headers.get('user-agent'))
+
+  if (!result.success || !result.url) {
+    return NextResponse.json({ error: result.error }, { status: 400 })
+  }
+
+  return NextResponse.redirect(result.url)
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { recordCampaignOpen } from '@/app/actions/campaign-tracking'
+
+/**
+ * Campaign Open Tracking
+ *
+ * GET /api/campaigns/open/:token
+ *
+ * Tracking pixel of a campaign email (see lib/campaign-tracking.ts). Records
+ * the open and returns a transparent 1×1 GIF, whatever the token.
+ */
+
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  await recordCampaignOpen(token, request.headers.get('user-agent'))
+
+  return new NextResponse(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  })
+}
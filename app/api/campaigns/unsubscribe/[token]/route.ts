@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getMarketingPreferences, updateMarketingPreferences } from '@/app/actions/loyalty'
+
+/**
+ * Campaign One-Click Unsubscribe
+ *
+ * POST /api/campaigns/unsubscribe/:token
+ *
+ * Target of the List-Unsubscribe header of campaign emails (RFC 8058, see
+ * lib/marketing-preferences.ts). Inboxes POST `List-Unsubscribe=One-Click`
+ * here; the recipient is opted out of marketing email without signing in.
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+
+  const result = await getMarketingPreferences(token)
+  if (!result.success || !result.preferences) {
+    return NextResponse.json({ error: result.error }, { status: 400 })
+  }
+
+  const update = await updateMarketingPreferences(result.preferences.userId, false, undefined, {
+    token,
+    source: 'ONE_CLICK_UNSUBSCRIBE',
+  })
+  if (!update.success) {
+    return NextResponse.json({ error: update.error }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
+
+/**
+ * Mail clients without one-click support open the URL instead: send them to
+ * the preference center, since a GET must not unsubscribe (link scanners
+ * follow every URL in an email)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  return NextResponse.redirect(new URL(`/preferences/${token}`, request.url))
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/jobs'
+import { logger } from '@/lib/logger'
+import { runJobs } from '@/app/jobs/queue'
+
+/**
+ * Job Scheduler
+ *
+ * GET /api/cron/jobs
+ *
+ * Queues the scheduled jobs that are due and works through the job queue
+ * (see lib/jobs.ts). Meant to be called by a scheduler every minute with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request.headers.get('authorization'), process.env.CRON_SECRET)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await runJobs()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    logger.error('Job scheduler failed', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json({ success: false, error: 'Failed to run jobs' }, { status: 500 })
+  }
+}
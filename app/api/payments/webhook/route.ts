@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { handlePaymentWebhook } from '@/app/actions/payments'
+
+/**
+ * Payment Provider Webhook
+ *
+ * POST /api/payments/webhook
+ *
+ * Receives payment results from the configured provider (see lib/payments.ts).
+ * The raw body must be signed with PAYMENT_WEBHOOK_SECRET in the
+ * `x-payment-signature` header. Confirmed payments update the booking's
+ * paid amount and notify admins. Repeated events are acknowledged without
+ * being applied twice.
+ */
+export async function POST(request: NextRequest) {
+  const payload = await request.text()
+  const signature = request.headers.get('x-payment-signature')
+
+  const result = await handlePaymentWebhook(payload, signature)
+
+  if (!result.success) {
+    const status = result.error === 'Invalid webhook signature'
+      ? 401
+      : result.error === 'Unknown payment' ? 404 : 500
+    return NextResponse.json(result, { status })
+  }
+
+  return NextResponse.json({ success: true })
+}
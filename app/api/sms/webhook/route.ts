@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { handleSmsWebhook } from '@/app/actions/sms'
+
+/**
+ * SMS Provider Webhook
+ *
+ * POST /api/sms/webhook
+ *
+ * Receives delivery reports and replies from the configured provider (see
+ * lib/sms-providers.ts). The raw body must be signed with SMS_WEBHOOK_SECRET
+ * in the `x-sms-signature` header. Delivery reports update the message's
+ * status; STOP and START replies opt the number out of or back in to SMS.
+ */
+export async function POST(request: NextRequest) {
+  const payload = await request.text()
+  const signature = request.headers.get('x-sms-signature')
+
+  const result = await handleSmsWebhook(payload, signature)
+
+  if (!result.success) {
+    const status = result.error === 'Invalid webhook signature'
+      ? 401
+      : result.error === 'Unknown message' ? 404 : 500
+    return NextResponse.json(result, { status })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -1,5 +1,6 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { auth } from "@/lib/auth";
+import { isTwoFactorBlocking } from "@/lib/two-factor";
 import { logger } from "@/lib/logger";
 
 const f = createUploadthing();
@@ -14,7 +15,7 @@ export const ourFileRouter = {
             const session = await auth();
 
             // If you throw, the user will not be able to upload
-            if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role)) {
+            if (!session || !['ADMIN', 'SUPER_ADMIN'].includes(session.user.role) || isTwoFactorBlocking(session.user.twoFactor)) {
                 throw new Error("Unauthorized");
             }
 
@@ -0,0 +1,191 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { motion } from "framer-motion"
+import { Calendar, Clock, Users, CheckCircle, AlertTriangle } from "lucide-react"
+import { format } from "date-fns"
+import { getWaitlistOffer, claimWaitlistOffer, leaveWaitlist } from "@/app/actions/bookings"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+import { formatTimeRange } from "@/lib/calendar-utils"
+
+type WaitlistOffer = NonNullable<Awaited<ReturnType<typeof getWaitlistOffer>>["offer"]>
+
+const STATUS_MESSAGES: Record<string, string> = {
+  WAITING: "This offer is no longer open. You are still on the waitlist.",
+  CLAIMED: "You already claimed this spot. We'll confirm your booking soon.",
+  EXPIRED: "This offer has expired and was passed on to the next person on the waitlist.",
+  CANCELLED: "You left the waitlist for this time slot.",
+}
+
+/**
+ * Waitlist Claim Page
+ *
+ * Landing page for the link in the waitlist offer email. Lets the customer
+ * turn the held slot into a booking request, or decline it so it moves on.
+ */
+export default function ClaimWaitlistOfferPage() {
+  const params = useParams()
+  const router = useRouter()
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const fetchOffer = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const result = await getWaitlistOffer(params.token as string)
+
+      if (result.success && result.offer) {
+        setOffer(result.offer)
+      } else {
+        setError(result.error?.startsWith("Unauthorized")
+          ? "Please sign in to claim this offer."
+          : result.error || "Offer not found")
+      }
+    } catch (error) {
+      logger.error("Failed to fetch waitlist offer", error instanceof Error ? error : new Error(String(error)))
+      setError("Failed to load offer")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [params.token])
+
+  useEffect(() => {
+    fetchOffer()
+  }, [fetchOffer])
+
+  const handleClaim = async () => {
+    try {
+      setIsSubmitting(true)
+      const result = await claimWaitlistOffer(params.token as string)
+
+      if (result.success) {
+        toast.success("Booking submitted successfully! We'll contact you soon.")
+        setTimeout(() => router.push("/"), 2000)
+      } else {
+        toast.error(result.error || "Failed to claim offer")
+      }
+      fetchOffer()
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    if (!offer || !confirm("Give up this spot? It will be offered to the next person on the waitlist.")) return
+
+    try {
+      setIsSubmitting(true)
+      const result = await leaveWaitlist(offer.id)
+
+      if (result.success) {
+        toast.success(result.message)
+        fetchOffer()
+      } else {
+        toast.error(result.error || "Failed to decline offer")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-lg"
+      >
+        <div className="p-8 rounded-2xl bg-black/40 backdrop-blur-xl border border-cyan-400/20 space-y-6">
+          <div className="text-center">
+            <h1
+              className="text-3xl font-bold text-cyan-400 mb-2"
+              style={{
+                textShadow: "0 0 30px rgba(34, 211, 238, 0.6)"
+              }}
+            >
+              A Spot Opened Up
+            </h1>
+            <p className="text-cyan-100/60">
+              The time you were waiting for is available
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <motion.div
+                className="w-12 h-12 border-4 border-cyan-400/20 border-t-cyan-400 rounded-full"
+                animate={{ rotate: 360 }}
+                transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+              />
+            </div>
+          ) : error || !offer ? (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{error}</p>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-3 p-4 rounded-lg bg-black/40 border border-cyan-400/20">
+                <p className="text-lg font-semibold text-cyan-300">{offer.title}</p>
+                <div className="flex items-center gap-3 text-sm text-cyan-100">
+                  <Calendar className="w-4 h-4 text-cyan-400" />
+                  {format(new Date(offer.date), "EEEE, MMMM d, yyyy")}
+                </div>
+                <div className="flex items-center gap-3 text-sm text-cyan-100">
+                  <Clock className="w-4 h-4 text-cyan-400" />
+                  {formatTimeRange(offer.time, offer.duration)}
+                </div>
+                <div className="flex items-center gap-3 text-sm text-cyan-100">
+                  <Users className="w-4 h-4 text-cyan-400" />
+                  {offer.guestCount} {offer.guestCount === 1 ? "guest" : "guests"}
+                </div>
+              </div>
+
+              {offer.status === "OFFERED" ? (
+                <>
+                  {offer.offerExpiresAt && (
+                    <p className="text-sm text-yellow-200/80 text-center">
+                      Held for you until {format(new Date(offer.offerExpiresAt), "MMMM d, HH:mm")}
+                    </p>
+                  )}
+
+                  <div className="flex flex-col gap-3">
+                    <Button
+                      onClick={handleClaim}
+                      disabled={isSubmitting}
+                      className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      {isSubmitting ? "Claiming..." : "Claim This Spot"}
+                    </Button>
+                    <Button
+                      onClick={handleDecline}
+                      disabled={isSubmitting}
+                      variant="outline"
+                      className="w-full border-cyan-400/30 text-cyan-300 hover:bg-cyan-400/10"
+                    >
+                      No Thanks
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-cyan-100/70 text-center">
+                  {STATUS_MESSAGES[offer.status]}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
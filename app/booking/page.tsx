@@ -2,8 +2,8 @@
 
 import { useState, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { Calendar, Users, Mail, Phone, MessageSquare, Clock, AlertTriangle } from "lucide-react"
-import { createBooking } from "@/app/actions/bookings"
+import { Clock, AlertTriangle, ListPlus } from "lucide-react"
+import { createBooking, joinWaitlist } from "@/app/actions/bookings"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -19,6 +19,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { toast } from "sonner"
 import { useRouter } from "next/navigation"
 import { logger } from "@/lib/logger"
+import { BOOKING_DURATION_OPTIONS } from "@/lib/booking-resources"
 
 /**
  * Public Booking Page
@@ -34,6 +35,7 @@ export default function BookingPage() {
     title: "",
     date: "",
     time: "",
+    duration: "",
     type: "CAFE" as "CAFE" | "SENSORY_ROOM" | "PLAYGROUND" | "PARTY" | "EVENT",
     guestCount: "1",
     phone: "",
@@ -51,6 +53,7 @@ export default function BookingPage() {
   const [hasConflict, setHasConflict] = useState(false)
   const [conflictMessage, setConflictMessage] = useState<string>("")
   const [suggestedTimes, setSuggestedTimes] = useState<string[]>([])
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false)
 
   // Countdown timer effect
   useEffect(() => {
@@ -153,6 +156,38 @@ export default function BookingPage() {
     return { dateStr, timeStr, fullStr: `${dateStr} at ${timeStr}` }
   }
 
+  // Queue for the conflicting slot instead of picking another time
+  const handleJoinWaitlist = async () => {
+    try {
+      setIsJoiningWaitlist(true)
+
+      const result = await joinWaitlist({
+        title: formData.title,
+        date: new Date(formData.date),
+        time: formData.time,
+        duration: formData.duration ? parseInt(formData.duration) : undefined,
+        type: formData.type,
+        guestCount: parseInt(formData.guestCount),
+        phone: formData.phone,
+        email: formData.email,
+      })
+
+      if (result.success) {
+        toast.success(result.message)
+        setHasConflict(false)
+        setConflictMessage("")
+        setSuggestedTimes([])
+      } else {
+        toast.error(result.error || "Failed to join waitlist")
+      }
+    } catch (error) {
+      logger.error("Failed to join waitlist", error instanceof Error ? error : new Error(String(error)))
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsJoiningWaitlist(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -168,6 +203,7 @@ export default function BookingPage() {
         title: formData.title,
         date: new Date(formData.date),
         time: formData.time,
+        duration: formData.duration ? parseInt(formData.duration) : undefined,
         type: formData.type,
         guestCount: parseInt(formData.guestCount),
         phone: formData.phone,
@@ -182,6 +218,7 @@ export default function BookingPage() {
           title: "",
           date: "",
           time: "",
+          duration: "",
           type: "CAFE",
           guestCount: "1",
           phone: "",
@@ -202,7 +239,7 @@ export default function BookingPage() {
                                  result.error?.includes('rate limit')
 
         // Check if it's a conflict error
-        const isConflictError = (result as any).conflictType === 'TIME_CONFLICT'
+        const isConflictError = 'conflictType' in result && Boolean(result.conflictType)
 
         if (isRateLimitError) {
           // Extract reset time from error message (format: "try again in X minutes")
@@ -329,7 +366,7 @@ export default function BookingPage() {
 
           {/* Conflict Warning with Suggested Times */}
           <AnimatePresence>
-            {hasConflict && suggestedTimes.length > 0 && (
+            {hasConflict && (
               <motion.div
                 initial={{ opacity: 0, height: 0 }}
                 animate={{ opacity: 1, height: "auto" }}
@@ -349,6 +386,7 @@ export default function BookingPage() {
                         </p>
                       </div>
 
+                      {suggestedTimes.length > 0 && (
                       <div>
                         <p className="text-sm font-medium text-orange-200 mb-3">
                           Suggested Alternative Times:
@@ -389,6 +427,23 @@ export default function BookingPage() {
                           Click any time above to automatically update your booking form
                         </p>
                       </div>
+                      )}
+
+                      <div className="pt-3 border-t border-orange-400/20">
+                        <p className="text-sm text-orange-100/80 mb-3">
+                          Prefer this exact time? Join the waitlist and we'll email you if it opens up.
+                        </p>
+                        <Button
+                          type="button"
+                          onClick={handleJoinWaitlist}
+                          disabled={isJoiningWaitlist}
+                          variant="outline"
+                          className="border-orange-400/50 text-orange-200 hover:bg-orange-400/10"
+                        >
+                          <ListPlus className="w-4 h-4 mr-2" />
+                          {isJoiningWaitlist ? "Joining..." : "Join Waitlist"}
+                        </Button>
+                      </div>
                     </div>
                   </AlertDescription>
                 </Alert>
@@ -438,6 +493,28 @@ export default function BookingPage() {
               </Select>
             </div>
 
+            {/* Duration */}
+            <div>
+              <Label htmlFor="duration" className="text-cyan-300">
+                Duration
+              </Label>
+              <Select
+                value={formData.duration}
+                onValueChange={(value) => setFormData({ ...formData, duration: value })}
+              >
+                <SelectTrigger id="duration" className="mt-2 bg-black/40 border-cyan-400/30 text-white">
+                  <SelectValue placeholder="Default for booking type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOOKING_DURATION_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Date & Time */}
             <div className="grid grid-cols-2 gap-4">
               <div>
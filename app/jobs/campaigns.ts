@@ -0,0 +1,230 @@
+import { addMinutes } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { getCampaignChannels, getCampaignRecipientWhere, type CampaignAudience } from '@/lib/campaigns'
+import {
+  CAMPAIGN_BATCH_SIZE,
+  CAMPAIGN_EMAILS_PER_SECOND,
+  DELIVERY_CLAIM_TIMEOUT_MINUTES,
+  createThrottle,
+  getFailedDeliveryStatus,
+  sendCampaignBatch,
+  type CampaignRecipient,
+} from '@/lib/campaign-delivery'
+import { getTrackingSecret } from '@/lib/campaign-tracking'
+
+/**
+ * Campaign Sending
+ *
+ * Database side of campaign delivery (see lib/campaign-delivery.ts)
+ */
+
+/**
+ * How long one job run keeps sending before leaving the rest to the next run
+ */
+const SEND_TIME_BUDGET_MS = 30_000
+
+/**
+ * Start sending a scheduled campaign: claim it and record a delivery for
+ * every recipient on each of its channels, in one transaction so a crash
+ * leaves it scheduled
+ * @returns Whether the campaign was started
+ */
+async function startCampaign(campaignId: string) {
+  return prisma.$transaction(async tx => {
+    const { count } = await tx.campaign.updateMany({
+      where: { id: campaignId, status: 'SCHEDULED' },
+      data: { status: 'SENDING' },
+    })
+    if (count === 0) return false // Started by another run or cancelled meanwhile
+
+    const campaign = await tx.campaign.findUniqueOrThrow({
+      where: { id: campaignId },
+      select: { type: true, targetAudience: true },
+    })
+
+    let totalRecipients = 0
+    for (const channel of getCampaignChannels(campaign.type)) {
+      const recipients = await tx.user.findMany({
+        where: getCampaignRecipientWhere(campaign.targetAudience as CampaignAudience, channel),
+        select: { id: true, email: true, phone: true, name: true },
+      })
+
+      await tx.campaignDelivery.createMany({
+        data: recipients.map(recipient => ({
+          campaignId,
+          userId: recipient.id,
+          channel,
+          email: recipient.email,
+          phone: channel === 'SMS' ? recipient.phone : null,
+          name: recipient.name,
+        })),
+        skipDuplicates: true,
+      })
+      totalRecipients += recipients.length
+    }
+
+    await tx.campaign.update({
+      where: { id: campaignId },
+      data: { totalRecipients },
+    })
+
+    logger.info('Campaign sending started', { campaignId, recipients: totalRecipients })
+    return true
+  }, { timeout: 60_000 })
+}
+
+/**
+ * Claim the next batch of deliveries of a campaign, including ones claimed
+ * by a run that stopped before finishing them
+ */
+async function claimDeliveries(campaignId: string) {
+  const staleBefore = addMinutes(new Date(), -DELIVERY_CLAIM_TIMEOUT_MINUTES)
+
+  return prisma.$queryRaw<(CampaignRecipient & { attempts: number })[]>`
+    UPDATE "CampaignDelivery"
+    SET "status" = 'SENDING',
+        "attempts" = "attempts" + 1,
+        "claimedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "CampaignDelivery"
+      WHERE "campaignId" = ${campaignId}
+        AND ("status" = 'PENDING' OR ("status" = 'SENDING' AND "claimedAt" < ${staleBefore}))
+      ORDER BY "createdAt" ASC
+      LIMIT ${CAMPAIGN_BATCH_SIZE}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "userId", "channel", "email", "phone", "name", "attempts"
+  `
+}
+
+/**
+ * Mark a campaign as sent once no deliveries are left, or update its
+ * progress otherwise
+ * @returns Whether the campaign is finished
+ */
+async function updateCampaignProgress(campaignId: string) {
+  const [sentCount, remaining] = await Promise.all([
+    prisma.campaignDelivery.count({ where: { campaignId, status: 'SENT' } }),
+    prisma.campaignDelivery.count({ where: { campaignId, status: { in: ['PENDING', 'SENDING'] } } }),
+  ])
+
+  if (remaining > 0) {
+    await prisma.campaign.update({ where: { id: campaignId }, data: { sentCount } })
+    return false
+  }
+
+  const { count } = await prisma.campaign.updateMany({
+    where: { id: campaignId, status: 'SENDING' },
+    data: { status: 'SENT', sentDate: new Date(), sentCount },
+  })
+
+  if (count > 0) {
+    logger.info('Campaign sent', { campaignId, sentCount })
+  }
+  return true
+}
+
+/**
+ * Send a campaign's remaining deliveries in batches until they are done,
+ * the campaign is cancelled or the deadline passes
+ */
+async function deliverCampaign(
+  campaignId: string,
+  deadline: number,
+  throttle: () => Promise<void>,
+  links: { baseUrl: string; secret: string } | undefined
+) {
+  let sent = 0
+  let failed = 0
+
+  while (Date.now() < deadline) {
+    // Re-read every batch so cancelling stops the campaign
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true, name: true, subject: true, content: true },
+    })
+    if (campaign?.status !== 'SENDING') break
+
+    const batch = await claimDeliveries(campaignId)
+    if (batch.length === 0) {
+      await updateCampaignProgress(campaignId)
+      break
+    }
+
+    const outcomes = await sendCampaignBatch(
+      { campaignId, subject: campaign.subject || campaign.name, content: campaign.content },
+      batch,
+      throttle,
+      links
+    )
+
+    const attempts = new Map(batch.map(delivery => [delivery.id, delivery.attempts]))
+
+    for (const outcome of outcomes) {
+      if (outcome.status === 'SENT') {
+        await prisma.campaignDelivery.update({
+          where: { id: outcome.id },
+          data: { status: 'SENT', sentAt: new Date(), messageId: outcome.messageId, lastError: null },
+        })
+        sent++
+      } else {
+        await prisma.campaignDelivery.update({
+          where: { id: outcome.id },
+          data: { status: getFailedDeliveryStatus(attempts.get(outcome.id) ?? 0), lastError: outcome.error },
+        })
+        failed++
+      }
+    }
+
+    await updateCampaignProgress(campaignId)
+  }
+
+  return { sent, failed }
+}
+
+/**
+ * Send campaigns: start the ones whose scheduled date has passed and
+ * continue the ones being sent
+ *
+ * Whatever doesn't fit in the time budget is sent by the next run.
+ */
+export async function sendScheduledCampaigns() {
+  const deadline = Date.now() + SEND_TIME_BUDGET_MS
+  const throttle = createThrottle(CAMPAIGN_EMAILS_PER_SECOND)
+  // Tracking and unsubscribe URLs must be absolute to work from an inbox
+  const baseUrl = process.env.NEXTAUTH_URL
+  const links = baseUrl ? { baseUrl, secret: getTrackingSecret() } : undefined
+
+  const due = await prisma.campaign.findMany({
+    where: { status: 'SCHEDULED', scheduledDate: { lte: new Date() } },
+    orderBy: { scheduledDate: 'asc' },
+    select: { id: true },
+  })
+
+  let started = 0
+  for (const campaign of due) {
+    if (await startCampaign(campaign.id)) {
+      started++
+    }
+  }
+
+  const sending = await prisma.campaign.findMany({
+    where: { status: 'SENDING' },
+    orderBy: { scheduledDate: 'asc' },
+    select: { id: true },
+  })
+
+  let sent = 0
+  let failed = 0
+  for (const campaign of sending) {
+    if (Date.now() >= deadline) break
+
+    const result = await deliverCampaign(campaign.id, deadline, throttle, links)
+    sent += result.sent
+    failed += result.failed
+  }
+
+  return { started, sending: sending.length, sent, failed }
+}
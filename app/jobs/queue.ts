@@ -0,0 +1,187 @@
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import { addMinutes } from 'date-fns'
+import { Prisma, type JobRun } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { getPreviousCronTime } from '@/lib/cron'
+import { DEFAULT_MAX_ATTEMPTS, LOCK_TIMEOUT_MINUTES, getRetryAt, getScheduleKey } from '@/lib/jobs'
+import { JOBS, type JobName } from './registry'
+
+/**
+ * Job Queue
+ *
+ * Postgres-backed queue of job runs (see lib/jobs.ts). Workers claim runs
+ * with `FOR UPDATE SKIP LOCKED`, so several scheduler calls can work through
+ * the queue at once without running a job twice.
+ */
+
+/**
+ * Add a run of a job to the queue
+ * @param name - Job name
+ * @param options.runAt - Earliest start (default: now)
+ */
+export async function enqueueJob(name: JobName, options: { payload?: Prisma.InputJsonValue; runAt?: Date } = {}) {
+  return prisma.jobRun.create({
+    data: {
+      name,
+      payload: options.payload,
+      runAt: options.runAt,
+      maxAttempts: JOBS[name].maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    },
+  })
+}
+
+/**
+ * Queue the latest scheduled run of every scheduled job
+ *
+ * Runs missed while the scheduler was down are not made up for: only the
+ * latest scheduled time is queued, once.
+ * @returns Number of runs queued
+ */
+async function enqueueScheduledJobs(now: Date) {
+  const data = (Object.keys(JOBS) as JobName[]).flatMap(name => {
+    const { schedule, maxAttempts } = JOBS[name]
+    const scheduledAt = schedule ? getPreviousCronTime(schedule, now) : null
+
+    return scheduledAt
+      ? [{
+        name,
+        runAt: scheduledAt,
+        scheduleKey: getScheduleKey(name, scheduledAt),
+        maxAttempts: maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      }]
+      : []
+  })
+
+  const { count } = await prisma.jobRun.createMany({ data, skipDuplicates: true })
+  return count
+}
+
+/**
+ * Record a failed attempt: retry later with backoff, or fail the run once it
+ * is out of attempts
+ */
+async function failRun(run: JobRun, error: string) {
+  const now = new Date()
+  const willRetry = run.attempts < run.maxAttempts
+
+  await prisma.jobRun.update({
+    where: { id: run.id },
+    data: willRetry
+      ? { status: 'QUEUED', runAt: getRetryAt(run.attempts, now), lockedAt: null, lockedBy: null, lastError: error }
+      : { status: 'FAILED', finishedAt: now, lockedAt: null, lockedBy: null, lastError: error },
+  })
+
+  logger.error(`Job ${run.name} failed`, {
+    runId: run.id,
+    attempt: run.attempts,
+    willRetry,
+    error,
+  })
+}
+
+/**
+ * Retry runs whose worker stopped without finishing them
+ * @returns Number of runs recovered
+ */
+async function recoverStaleRuns(now: Date) {
+  const stale = await prisma.jobRun.findMany({
+    where: {
+      status: 'RUNNING',
+      lockedAt: { lt: addMinutes(now, -LOCK_TIMEOUT_MINUTES) },
+    },
+  })
+
+  for (const run of stale) {
+    await failRun(run, `Timed out after ${LOCK_TIMEOUT_MINUTES} minutes`)
+  }
+
+  return stale.length
+}
+
+/**
+ * Claim the next due run for a worker
+ * @returns The run, or null when nothing is due
+ */
+async function claimNextRun(workerId: string): Promise<JobRun | null> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "JobRun"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "startedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "JobRun"
+      WHERE "status" = 'QUEUED' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `
+
+  return claimed.length > 0
+    ? prisma.jobRun.findUnique({ where: { id: claimed[0].id } })
+    : null
+}
+
+async function executeRun(run: JobRun) {
+  const job = JOBS[run.name as JobName]
+
+  if (!job) {
+    // Removed from the registry: nothing can run it
+    await failRun({ ...run, maxAttempts: run.attempts }, `Unknown job: ${run.name}`)
+    return 'FAILED' as const
+  }
+
+  try {
+    const result = await job.run(run.payload)
+
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'SUCCEEDED',
+        finishedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        result: result ?? Prisma.DbNull,
+      },
+    })
+
+    logger.info(`Job ${run.name} succeeded`, { runId: run.id, attempt: run.attempts, result })
+    return 'SUCCEEDED' as const
+  } catch (error) {
+    await failRun(run, error instanceof Error ? error.message : String(error))
+    return run.attempts < run.maxAttempts ? 'QUEUED' as const : 'FAILED' as const
+  }
+}
+
+/**
+ * Queue due scheduled jobs and work through the queue
+ *
+ * Called by the scheduler (GET /api/cron/jobs) every minute. Stops after
+ * `maxRuns` runs or once `timeBudgetMs` is used up; the rest of the queue
+ * is picked up by the next call.
+ */
+export async function runJobs({ maxRuns = 20, timeBudgetMs = 45_000 } = {}) {
+  const startedAt = Date.now()
+  const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  const now = new Date()
+
+  const queued = await enqueueScheduledJobs(now)
+  const recovered = await recoverStaleRuns(now)
+  const runs: { id: string; name: string; status: 'SUCCEEDED' | 'QUEUED' | 'FAILED' }[] = []
+
+  while (runs.length < maxRuns && Date.now() - startedAt < timeBudgetMs) {
+    const run = await claimNextRun(workerId)
+    if (!run) break
+
+    runs.push({ id: run.id, name: run.name, status: await executeRun(run) })
+  }
+
+  return { queued, recovered, runs }
+}
@@ -0,0 +1,76 @@
+import type { Prisma } from '@prisma/client'
+import { sendDueEventEmails } from '@/lib/event-email-delivery'
+import { sendScheduledCampaigns } from './campaigns'
+import {
+  cleanupJobRuns,
+  cleanupNotifications,
+  cleanupUserSessions,
+  notifyLowStock,
+  notifyMaintenanceDue,
+  processAccountDeletions,
+} from './tasks'
+
+/**
+ * Job Registry
+ *
+ * Every job the queue can run. Jobs with a schedule (cron expression, see
+ * lib/cron.ts) are queued automatically; any job can be queued on demand
+ * with enqueueJob or from the admin jobs page.
+ */
+
+export interface JobDefinition {
+  description: string
+  schedule?: string
+  maxAttempts?: number
+  /**
+   * Do the work; throw to fail the attempt. The result is stored on the run.
+   */
+  run: (payload: Prisma.JsonValue) => Promise<Prisma.InputJsonValue | void>
+}
+
+const definitions = {
+  'send-event-emails': {
+    description: 'Send event reminders, "starting soon" messages and thank-yous',
+    schedule: '0-59/5 * * * *',
+    run: sendDueEventEmails,
+  },
+  'send-scheduled-campaigns': {
+    description: 'Send email campaigns whose scheduled date has passed, in batches',
+    schedule: '* * * * *',
+    run: sendScheduledCampaigns,
+  },
+  'notify-maintenance-due': {
+    description: 'Notify admins about maintenance due today or overdue',
+    schedule: '0 7 * * *',
+    run: notifyMaintenanceDue,
+  },
+  'notify-low-stock': {
+    description: 'Notify admins about inventory at or below its reorder point',
+    schedule: '0 8 * * *',
+    run: notifyLowStock,
+  },
+  'process-account-deletions': {
+    description: 'Delete accounts whose requested deletion date has passed',
+    schedule: '0 3 * * *',
+    run: processAccountDeletions,
+  },
+  'cleanup-notifications': {
+    description: 'Delete read notifications older than 30 days',
+    schedule: '30 3 * * *',
+    run: cleanupNotifications,
+  },
+  'cleanup-job-runs': {
+    description: 'Delete old finished job runs',
+    schedule: '0 4 * * 0',
+    run: cleanupJobRuns,
+  },
+  'cleanup-user-sessions': {
+    description: 'Delete sessions that ended more than 30 days ago',
+    schedule: '15 4 * * 0',
+    run: cleanupUserSessions,
+  },
+} satisfies Record<string, JobDefinition>
+
+export type JobName = keyof typeof definitions
+
+export const JOBS: Record<JobName, JobDefinition> = definitions
@@ -0,0 +1,196 @@
+import { addDays, endOfDay, format, startOfDay } from 'date-fns'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { logAudit } from '@/lib/audit'
+import { getSessionRetentionCutoff } from '@/lib/user-sessions'
+import { notifyAllAdmins } from '@/app/actions/notifications'
+
+/**
+ * Scheduled Tasks
+ *
+ * System work run by the job queue (see ./registry). Tasks throw when they
+ * fail so the queue retries them; what they return is stored on the run.
+ */
+
+/**
+ * Read notifications are kept this long
+ */
+const NOTIFICATION_RETENTION_DAYS = 30
+
+/**
+ * Finished job runs are kept this long; failed runs longer, for debugging
+ */
+const JOB_RUN_RETENTION_DAYS = 30
+const FAILED_JOB_RUN_RETENTION_DAYS = 90
+
+/**
+ * Delete read notifications of all users past the retention period
+ */
+export async function cleanupNotifications() {
+  const { count } = await prisma.notification.deleteMany({
+    where: {
+      read: true,
+      createdAt: { lt: addDays(new Date(), -NOTIFICATION_RETENTION_DAYS) },
+    },
+  })
+
+  return { deleted: count }
+}
+
+/**
+ * Notify admins about maintenance due today or overdue
+ */
+export async function notifyMaintenanceDue() {
+  const now = new Date()
+  const logs = await prisma.maintenanceLog.findMany({
+    where: {
+      status: { in: ['SCHEDULED', 'IN_PROGRESS'] },
+      scheduledDate: { lte: endOfDay(now) },
+    },
+    orderBy: [{ priority: 'desc' }, { scheduledDate: 'asc' }],
+    select: { id: true, equipment: true, scheduledDate: true },
+  })
+
+  if (logs.length === 0) {
+    return { due: 0, overdue: 0 }
+  }
+
+  const overdue = logs.filter(log => log.scheduledDate < startOfDay(now))
+  const list = logs
+    .slice(0, 5)
+    .map(log => `${log.equipment} (${format(log.scheduledDate, 'MMM d')})`)
+    .join(', ')
+
+  const result = await notifyAllAdmins({
+    type: 'MAINTENANCE_DUE',
+    title: 'Maintenance Due',
+    message: `${logs.length} maintenance task(s) due${overdue.length > 0 ? `, ${overdue.length} overdue` : ''}: ${list}${logs.length > 5 ? '…' : ''}`,
+    data: { maintenanceIds: logs.map(log => log.id) },
+  })
+
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+
+  return { due: logs.length, overdue: overdue.length }
+}
+
+/**
+ * Notify admins about inventory at or below its reorder point
+ */
+export async function notifyLowStock() {
+  const items = await prisma.inventoryItem.findMany({
+    where: { quantity: { lte: prisma.inventoryItem.fields.reorderPoint } },
+    orderBy: [{ quantity: 'asc' }, { name: 'asc' }],
+    select: { id: true, name: true, quantity: true, unit: true },
+  })
+
+  if (items.length === 0) {
+    return { items: 0 }
+  }
+
+  const list = items
+    .slice(0, 5)
+    .map(item => `${item.name} (${item.quantity} ${item.unit})`)
+    .join(', ')
+
+  const result = await notifyAllAdmins({
+    type: 'LOW_INVENTORY',
+    title: 'Low Stock',
+    message: `${items.length} item(s) need restocking: ${list}${items.length > 5 ? '…' : ''}`,
+    data: { itemIds: items.map(item => item.id) },
+  })
+
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+
+  return { items: items.length }
+}
+
+/**
+ * Delete the accounts whose requested deletion date has passed
+ *
+ * Accounts are soft deleted like in deleteUser, and their personal data is
+ * cleared; bookings and audit history stay for record keeping.
+ */
+export async function processAccountDeletions() {
+  const now = new Date()
+  const users = await prisma.user.findMany({
+    where: { deleted: false, deletionScheduledFor: { lte: now } },
+    select: { id: true, deletionRequestedAt: true, deletionScheduledFor: true },
+  })
+
+  for (const user of users) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        deleted: true,
+        deletedAt: now,
+        deletedBy: user.id,
+        email: `deleted_${user.id}@deleted.local`,
+        password: '',
+        name: null,
+        phone: null,
+        image: null,
+        customerNotes: null,
+        tags: [],
+        preferredTypes: Prisma.DbNull,
+        marketingOptIn: false,
+        smsOptIn: false,
+      },
+    })
+
+    await logAudit({
+      userId: user.id,
+      action: 'DELETE',
+      entity: 'User',
+      entityId: user.id,
+      changes: {
+        reason: 'Scheduled account deletion',
+        deletionRequestedAt: user.deletionRequestedAt,
+        deletionScheduledFor: user.deletionScheduledFor,
+        deletedAt: now,
+      },
+    })
+
+    logger.info('Scheduled account deletion completed', { userId: user.id })
+  }
+
+  return { deleted: users.length }
+}
+
+/**
+ * Delete old finished job runs
+ */
+export async function cleanupJobRuns() {
+  const now = new Date()
+  const { count } = await prisma.jobRun.deleteMany({
+    where: {
+      OR: [
+        { status: 'SUCCEEDED', finishedAt: { lt: addDays(now, -JOB_RUN_RETENTION_DAYS) } },
+        { status: 'FAILED', finishedAt: { lt: addDays(now, -FAILED_JOB_RUN_RETENTION_DAYS) } },
+      ],
+    },
+  })
+
+  return { deleted: count }
+}
+
+/**
+ * Delete sessions that ended more than the retention period ago
+ */
+export async function cleanupUserSessions() {
+  const cutoff = getSessionRetentionCutoff()
+  const { count } = await prisma.userSession.deleteMany({
+    where: {
+      OR: [
+        { revokedAt: { lt: cutoff } },
+        { expiresAt: { lt: cutoff } },
+      ],
+    },
+  })
+
+  return { deleted: count }
+}
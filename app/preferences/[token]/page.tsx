@@ -0,0 +1,177 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import { motion } from "framer-motion"
+import { Mail, MessageSquare, AlertTriangle, CheckCircle } from "lucide-react"
+import { getMarketingPreferences, updateMarketingPreferences } from "@/app/actions/loyalty"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+type MarketingPreferences = NonNullable<Awaited<ReturnType<typeof getMarketingPreferences>>["preferences"]>
+
+/**
+ * Marketing Preference Center
+ *
+ * Landing page for the unsubscribe link in campaign emails. Lets the
+ * recipient opt out of marketing email, or choose which marketing they get,
+ * without signing in.
+ */
+export default function MarketingPreferencesPage() {
+  const params = useParams()
+  const token = params.token as string
+  const [preferences, setPreferences] = useState<MarketingPreferences | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const result = await getMarketingPreferences(token)
+
+      if (result.success && result.preferences) {
+        setPreferences(result.preferences)
+      } else {
+        setError(result.error || "Preferences not found")
+      }
+    } catch (error) {
+      logger.error("Failed to fetch marketing preferences", error instanceof Error ? error : new Error(String(error)))
+      setError("Failed to load preferences")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [fetchPreferences])
+
+  const handleUpdate = async (update: { marketingOptIn?: boolean; smsOptIn?: boolean }) => {
+    if (!preferences) return
+
+    try {
+      setIsSubmitting(true)
+      const result = await updateMarketingPreferences(
+        preferences.userId,
+        update.marketingOptIn,
+        update.smsOptIn,
+        { token }
+      )
+
+      if (result.success && result.user) {
+        setPreferences({ ...preferences, marketingOptIn: result.user.marketingOptIn, smsOptIn: result.user.smsOptIn })
+        toast.success("Your preferences have been saved")
+      } else {
+        toast.error(result.error || "Failed to update preferences")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-lg"
+      >
+        <div className="p-8 rounded-2xl bg-black/40 backdrop-blur-xl border border-cyan-400/20 space-y-6">
+          <div className="text-center">
+            <h1
+              className="text-3xl font-bold text-cyan-400 mb-2"
+              style={{
+                textShadow: "0 0 30px rgba(34, 211, 238, 0.6)"
+              }}
+            >
+              Email Preferences
+            </h1>
+            <p className="text-cyan-100/60">
+              {preferences ? `Choose what we send to ${preferences.email}` : "Choose what we send you"}
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <motion.div
+                className="w-12 h-12 border-4 border-cyan-400/20 border-t-cyan-400 rounded-full"
+                animate={{ rotate: 360 }}
+                transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+              />
+            </div>
+          ) : error || !preferences ? (
+            <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{error}</p>
+            </div>
+          ) : (
+            <>
+              {preferences.marketingOptIn ? (
+                <Button
+                  onClick={() => handleUpdate({ marketingOptIn: false })}
+                  disabled={isSubmitting}
+                  className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+                >
+                  {isSubmitting ? "Saving..." : "Unsubscribe From Marketing Emails"}
+                </Button>
+              ) : (
+                <div className="flex items-center gap-3 p-4 rounded-lg bg-green-500/10 border border-green-400/30 text-green-200">
+                  <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                  <p className="text-sm">You won&apos;t receive marketing emails from us anymore.</p>
+                </div>
+              )}
+
+              <div className="space-y-4 p-4 rounded-lg bg-black/40 border border-cyan-400/20">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <Mail className="w-4 h-4 text-cyan-400" />
+                    <div>
+                      <Label htmlFor="marketing-opt-in" className="text-sm font-medium text-cyan-100 cursor-pointer">
+                        Marketing Emails
+                      </Label>
+                      <p className="text-xs text-cyan-100/50 mt-1">News, events and offers</p>
+                    </div>
+                  </div>
+                  <Switch
+                    id="marketing-opt-in"
+                    checked={preferences.marketingOptIn}
+                    onCheckedChange={checked => handleUpdate({ marketingOptIn: checked })}
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <MessageSquare className="w-4 h-4 text-cyan-400" />
+                    <div>
+                      <Label htmlFor="sms-opt-in" className="text-sm font-medium text-cyan-100 cursor-pointer">
+                        Marketing SMS
+                      </Label>
+                      <p className="text-xs text-cyan-100/50 mt-1">Offers and reminders by text message</p>
+                    </div>
+                  </div>
+                  <Switch
+                    id="sms-opt-in"
+                    checked={preferences.smsOptIn}
+                    onCheckedChange={checked => handleUpdate({ smsOptIn: checked })}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-cyan-100/40 text-center">
+                Booking confirmations and other emails about your visits are always sent.
+              </p>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
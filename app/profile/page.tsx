@@ -1,19 +1,23 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useSession } from "next-auth/react"
 import { motion } from "framer-motion"
 import ProfileHeader from "@/components/profile/ProfileHeader"
 import LoyaltyCard from "@/components/profile/LoyaltyCard"
+import ConnectedAccounts from "@/components/profile/ConnectedAccounts"
+import ActiveSessions from "@/components/profile/ActiveSessions"
 import BookingHistory from "@/components/profile/BookingHistory"
 import { ProfileSkeleton } from "@/components/skeletons"
+import { EmailVerificationBanner } from "@/components/auth/EmailVerificationBanner"
 import { getUserBookings } from "@/app/actions/bookings"
 
 export default function ProfilePage() {
     const router = useRouter()
     const { data: session, status } = useSession()
     const [bookings, setBookings] = useState<any[]>([])
+    const [cutoffHours, setCutoffHours] = useState<number | undefined>()
     const [isLoading, setIsLoading] = useState(true)
 
     useEffect(() => {
@@ -22,21 +26,22 @@ export default function ProfilePage() {
         }
     }, [status, router])
 
-    useEffect(() => {
-        const fetchBookings = async () => {
-            if (session?.user) {
-                const result = await getUserBookings()
-                if (result.success) {
-                    setBookings(result.bookings)
-                }
-                setIsLoading(false)
+    const fetchBookings = useCallback(async () => {
+        if (session?.user) {
+            const result = await getUserBookings()
+            if (result.success) {
+                setBookings(result.bookings)
+                setCutoffHours(result.cutoffHours)
             }
+            setIsLoading(false)
         }
+    }, [session])
 
+    useEffect(() => {
         if (status === "authenticated") {
             fetchBookings()
         }
-    }, [session, status])
+    }, [fetchBookings, status])
 
     if (status === "loading" || isLoading) {
         return <ProfileSkeleton />
@@ -66,6 +71,8 @@ export default function ProfilePage() {
                     </p>
                 </motion.div>
 
+                <EmailVerificationBanner className="mb-6" />
+
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     {/* Left Column - Profile & Loyalty */}
                     <div className="lg:col-span-1 space-y-6">
@@ -94,6 +101,22 @@ export default function ProfilePage() {
                                 approvedBookings={approvedBookings}
                             />
                         </motion.div>
+
+                        <motion.div
+                            initial={{ opacity: 0, x: -20 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            transition={{ delay: 0.25 }}
+                        >
+                            <ConnectedAccounts />
+                        </motion.div>
+
+                        <motion.div
+                            initial={{ opacity: 0, x: -20 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            transition={{ delay: 0.28 }}
+                        >
+                            <ActiveSessions />
+                        </motion.div>
                     </div>
 
                     {/* Right Column - Booking History */}
@@ -103,7 +126,11 @@ export default function ProfilePage() {
                         transition={{ delay: 0.3 }}
                         className="lg:col-span-2"
                     >
-                        <BookingHistory bookings={bookings} />
+                        <BookingHistory
+                            bookings={bookings}
+                            cutoffHours={cutoffHours}
+                            onChange={fetchBookings}
+                        />
                     </motion.div>
                 </div>
             </div>
@@ -0,0 +1,215 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useState, Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { Lock, AlertTriangle, CheckCircle } from "lucide-react"
+import { checkPasswordResetToken, completePasswordReset } from "@/app/actions/auth"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+import { validatePassword } from "@/lib/validation"
+
+const spinner = (
+  <div className="flex justify-center py-8">
+    <motion.div
+      className="w-12 h-12 border-4 border-cyan-400/20 border-t-cyan-400 rounded-full"
+      animate={{ rotate: 360 }}
+      transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+    />
+  </div>
+)
+
+function ResetPasswordContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token") || ""
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [error, setError] = useState("")
+  const [linkError, setLinkError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSuccess, setIsSuccess] = useState(false)
+
+  const checkToken = useCallback(async () => {
+    if (!token) {
+      setLinkError("This reset link is invalid. Please request a new one.")
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const result = await checkPasswordResetToken(token)
+
+      if (!result.success) {
+        setLinkError(result.error || "This reset link is invalid. Please request a new one.")
+      }
+    } catch (error) {
+      logger.error("Failed to check password reset link", error instanceof Error ? error : new Error(String(error)))
+      setLinkError("Failed to check reset link")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    checkToken()
+  }, [checkToken])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    const passwordError = validatePassword(password)
+    if (passwordError) {
+      setError(passwordError)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      const result = await completePasswordReset(token, password)
+
+      if (result.success) {
+        setIsSuccess(true)
+        toast.success("Password reset")
+      } else {
+        setError(result.error || "Failed to reset password")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return spinner
+  }
+
+  if (linkError) {
+    return (
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+        <p className="text-sm">{linkError}</p>
+      </div>
+    )
+  }
+
+  if (isSuccess) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3 p-4 rounded-lg bg-green-500/10 border border-green-400/30 text-green-200">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">
+            Your password has been reset and you&apos;ve been signed out everywhere. Sign in with your new password.
+          </p>
+        </div>
+        <Button asChild className="w-full bg-cyan-500 hover:bg-cyan-600 text-white">
+          <Link href="/">Back to Xplorium</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="new-password" className="text-cyan-300 text-sm font-medium">
+          New Password
+        </Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-400/60" />
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            disabled={isSubmitting}
+            className="pl-10 bg-black/40 border-cyan-400/30 text-white"
+          />
+        </div>
+        <p className="text-xs text-cyan-100/50">
+          At least 8 characters, with upper and lower case letters, a number and a special character.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password" className="text-cyan-300 text-sm font-medium">
+          Confirm Password
+        </Label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-cyan-400/60" />
+          <Input
+            id="confirm-password"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            disabled={isSubmitting}
+            className="pl-10 bg-black/40 border-cyan-400/30 text-white"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-400" role="alert">{error}</p>
+      )}
+
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+      >
+        {isSubmitting ? "Saving..." : "Reset Password"}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * Password Reset Page
+ *
+ * Landing page for the link in the password reset email (see
+ * ForgotPasswordModal). Sets a new password, which also signs the account
+ * out of every other session.
+ */
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <div className="p-8 rounded-2xl bg-black/40 backdrop-blur-xl border border-cyan-400/20 space-y-6">
+          <div className="text-center">
+            <h1
+              className="text-3xl font-bold text-cyan-400 mb-2"
+              style={{
+                textShadow: "0 0 30px rgba(34, 211, 238, 0.6)"
+              }}
+            >
+              Reset Password
+            </h1>
+            <p className="text-cyan-100/60">Choose a new password for your account</p>
+          </div>
+
+          <Suspense fallback={spinner}>
+            <ResetPasswordContent />
+          </Suspense>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -18,6 +18,10 @@ export default function robots(): MetadataRoute.Robots {
           '/admin/',       // Block admin panel
           '/api/',         // Block API routes
           '/profile/',     // Block user profiles (private)
+          '/preferences/', // Block marketing preference links (private)
+          '/reset-password', // Block password reset links (private)
+          '/verify-email', // Block email verification links (private)
+          '/two-factor',   // Block two-factor sign-in pages (private)
           '/_next/',       // Block Next.js internals
           '/static/',      // Block static assets directory
         ],
@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState, Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { signOut, useSession } from "next-auth/react"
+import { motion } from "framer-motion"
+import { AlertTriangle, ShieldCheck } from "lucide-react"
+import { trustThisDevice } from "@/app/actions/two-factor"
+import { TwoFactorCodeInput, getTwoFactorReturnPath } from "@/components/auth/TwoFactorCodeInput"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+const spinner = (
+  <div className="flex justify-center py-8">
+    <motion.div
+      className="w-12 h-12 border-4 border-cyan-400/20 border-t-cyan-400 rounded-full"
+      animate={{ rotate: 360 }}
+      transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+    />
+  </div>
+)
+
+function TwoFactorChallenge() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnPath = getTwoFactorReturnPath(searchParams.get("callbackUrl"))
+  const { data: session, status, update } = useSession()
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [rememberDevice, setRememberDevice] = useState(false)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const twoFactor = session?.user?.twoFactor
+
+  // Nothing to do here unless this session still owes a code
+  useEffect(() => {
+    if (status === "loading" || isLoading) return
+
+    if (status === "unauthenticated") {
+      router.replace("/")
+    } else if (twoFactor === "setup-required") {
+      router.replace(`/two-factor/setup?callbackUrl=${encodeURIComponent(returnPath)}`)
+    } else if (twoFactor && twoFactor !== "pending") {
+      router.replace(returnPath)
+    }
+  }, [status, twoFactor, isLoading, returnPath, router])
+
+  const handleSubmit = async (value: string = code) => {
+    if (!value.trim() || isLoading) return
+
+    setIsLoading(true)
+    setError("")
+
+    try {
+      // The code is checked when the session is updated (see lib/auth.ts)
+      const updated = await update({ twoFactorCode: value.trim() })
+
+      if (updated?.user?.twoFactor !== "verified") {
+        setError(useRecoveryCode
+          ? "That recovery code didn't work. Each code can only be used once."
+          : "That code didn't work. Check your authenticator app and try again.")
+        setCode("")
+        setIsLoading(false)
+        return
+      }
+
+      if (rememberDevice) {
+        const result = await trustThisDevice()
+        if (!result.success) {
+          toast.error(result.error || "Failed to remember this device")
+        }
+      }
+
+      router.replace(returnPath)
+    } catch (error) {
+      logger.error("Two-factor verification error", error instanceof Error ? error : new Error(String(error)))
+      setError("An unexpected error occurred. Please try again.")
+      setIsLoading(false)
+    }
+  }
+
+  if (status !== "authenticated" || twoFactor !== "pending") {
+    return spinner
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        handleSubmit()
+      }}
+      className="space-y-6"
+    >
+      {useRecoveryCode ? (
+        <div>
+          <Label htmlFor="recovery-code" className="text-cyan-300">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            autoFocus
+            disabled={isLoading}
+            className="mt-2 bg-black/40 border-cyan-400/30 text-white font-mono"
+          />
+        </div>
+      ) : (
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={handleSubmit}
+          disabled={isLoading}
+        />
+      )}
+
+      {error && (
+        <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="remember-device"
+          checked={rememberDevice}
+          onCheckedChange={(checked) => setRememberDevice(checked === true)}
+          disabled={isLoading}
+        />
+        <Label htmlFor="remember-device" className="text-sm text-cyan-100/70 font-normal">
+          Remember this device for 30 days
+        </Label>
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isLoading || !code.trim()}
+        className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+      >
+        {isLoading ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode)
+            setCode("")
+            setError("")
+          }}
+          className="text-cyan-400 hover:text-cyan-300 transition-colors"
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button
+          type="button"
+          onClick={() => signOut({ callbackUrl: "/" })}
+          className="text-cyan-100/50 hover:text-cyan-100/80 transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Two-Factor Authentication Page
+ *
+ * Asks for a code from the authenticator app, or a recovery code, before
+ * an admin with two-factor authentication can open the admin panel.
+ * middleware.ts sends admins here until this session has entered one.
+ */
+export default function TwoFactorPage() {
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <div className="p-8 rounded-2xl bg-black/40 backdrop-blur-xl border border-cyan-400/20 space-y-6">
+          <div className="text-center">
+            <ShieldCheck className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
+            <h1
+              className="text-3xl font-bold text-cyan-400 mb-2"
+              style={{
+                textShadow: "0 0 30px rgba(34, 211, 238, 0.6)"
+              }}
+            >
+              Two-Factor Authentication
+            </h1>
+            <p className="text-cyan-100/60">Enter the code from your authenticator app</p>
+          </div>
+
+          <Suspense fallback={spinner}>
+            <TwoFactorChallenge />
+          </Suspense>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,414 @@
+"use client"
+
+import { useCallback, useEffect, useState, Suspense } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useSession } from "next-auth/react"
+import { motion } from "framer-motion"
+import { format } from "date-fns"
+import { AlertTriangle, CheckCircle, Copy, KeyRound, MonitorSmartphone, ShieldCheck } from "lucide-react"
+import {
+  disableTwoFactor,
+  forgetTrustedDevices,
+  generateTwoFactorRecoveryCodes,
+  getTwoFactorSettings,
+  startTwoFactorSetup,
+} from "@/app/actions/two-factor"
+import { TwoFactorCodeInput, getTwoFactorReturnPath } from "@/components/auth/TwoFactorCodeInput"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+type TwoFactorSettings = Awaited<ReturnType<typeof getTwoFactorSettings>>
+
+interface Enrollment {
+  secret: string
+  qrCode: string
+}
+
+const spinner = (
+  <div className="flex justify-center py-8">
+    <motion.div
+      className="w-12 h-12 border-4 border-cyan-400/20 border-t-cyan-400 rounded-full"
+      animate={{ rotate: 360 }}
+      transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+    />
+  </div>
+)
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"))
+      toast.success("Recovery codes copied")
+    } catch {
+      toast.error("Failed to copy. Please write the codes down.")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start gap-3 p-4 rounded-lg bg-yellow-400/10 border border-yellow-400/30 text-yellow-200">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <p className="text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+          They won&apos;t be shown again.
+        </p>
+      </div>
+
+      <ul className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-black/40 border border-cyan-400/20 font-mono text-sm text-cyan-100">
+        {codes.map(code => (
+          <li key={code} className="text-center">{code}</li>
+        ))}
+      </ul>
+
+      <div className="flex gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCopy}
+          className="flex-1 border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+        >
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" onClick={onDone} className="flex-1 bg-cyan-500 hover:bg-cyan-600 text-white">
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function TwoFactorSetup() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const returnPath = getTwoFactorReturnPath(searchParams.get("callbackUrl"))
+  const { data: session, status, update } = useSession()
+  const [settings, setSettings] = useState<TwoFactorSettings | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [error, setError] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+
+  const twoFactor = session?.user?.twoFactor
+  const isAdmin = session?.user?.role === "ADMIN" || session?.user?.role === "SUPER_ADMIN"
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setSettings(await getTwoFactorSettings())
+    } catch (error) {
+      logger.error("Failed to fetch two-factor settings", error instanceof Error ? error : new Error(String(error)))
+      toast.error("Failed to load two-factor settings")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.replace("/")
+    } else if (twoFactor === "pending") {
+      // Changing the setup needs a session that entered a code
+      router.replace(`/two-factor?callbackUrl=${encodeURIComponent("/two-factor/setup")}`)
+    } else if (status === "authenticated" && !settings) {
+      fetchSettings()
+    }
+  }, [status, twoFactor, settings, router, fetchSettings])
+
+  const handleStart = async () => {
+    try {
+      setIsBusy(true)
+      const result = await startTwoFactorSetup()
+
+      if (result.success && result.secret && result.qrCode) {
+        setEnrollment({ secret: result.secret, qrCode: result.qrCode })
+        setCode("")
+        setError("")
+      } else {
+        toast.error(result.error || "Failed to start two-factor setup")
+      }
+    } catch (error) {
+      logger.error("Two-factor setup error", error instanceof Error ? error : new Error(String(error)))
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleConfirm = async (value: string = code) => {
+    if (value.length !== 6 || isBusy) return
+
+    try {
+      setIsBusy(true)
+      setError("")
+
+      // The first code accepted turns two-factor authentication on (see lib/auth.ts)
+      const updated = await update({ twoFactorCode: value })
+      if (updated?.user?.twoFactor !== "verified") {
+        setError("That code didn't work. Check the time on your phone and try again.")
+        setCode("")
+        return
+      }
+
+      const result = await generateTwoFactorRecoveryCodes()
+      setEnrollment(null)
+      setRecoveryCodes(result.success && result.codes ? result.codes : [])
+      toast.success("Two-factor authentication is on")
+      fetchSettings()
+    } catch (error) {
+      logger.error("Two-factor confirmation error", error instanceof Error ? error : new Error(String(error)))
+      setError("An unexpected error occurred. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string; message?: string }>,
+    fallbackError: string
+  ) => {
+    try {
+      setIsBusy(true)
+      const result = await action()
+
+      if (result.success) {
+        if (result.message) toast.success(result.message)
+        await update()
+        await fetchSettings()
+      } else {
+        toast.error(result.error || fallbackError)
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRegenerate = async () => {
+    if (!confirm("Generate new recovery codes? Your current codes will stop working.")) return
+
+    try {
+      setIsBusy(true)
+      const result = await generateTwoFactorRecoveryCodes()
+
+      if (result.success && result.codes) {
+        setRecoveryCodes(result.codes)
+        fetchSettings()
+      } else {
+        toast.error(result.error || "Failed to generate recovery codes")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDisable = () => {
+    if (!confirm("Turn off two-factor authentication? Signing in will only need your password.")) return
+    runAction(disableTwoFactor, "Failed to turn off two-factor authentication")
+  }
+
+  if (status !== "authenticated" || twoFactor === "pending" || !settings) {
+    return spinner
+  }
+
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodes
+        codes={recoveryCodes}
+        onDone={() => {
+          setRecoveryCodes(null)
+          if (searchParams.get("callbackUrl")) router.replace(returnPath)
+        }}
+      />
+    )
+  }
+
+  if (!settings.success) {
+    return (
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+        <p className="text-sm">{settings.error || "Failed to load two-factor settings"}</p>
+      </div>
+    )
+  }
+
+  // Enrolling: scan the QR code, then confirm with the first code
+  if (enrollment) {
+    return (
+      <div className="space-y-6">
+        <ol className="space-y-2 text-sm text-cyan-100/70 list-decimal list-inside">
+          <li>Open an authenticator app such as Google Authenticator, 1Password or Authy.</li>
+          <li>Scan this QR code, or enter the key by hand.</li>
+          <li>Enter the 6-digit code the app shows.</li>
+        </ol>
+
+        <div className="flex justify-center">
+          <img src={enrollment.qrCode} alt="QR code for your authenticator app" width={200} height={200} className="rounded-lg bg-white p-2" />
+        </div>
+
+        <p className="text-center font-mono text-sm text-cyan-100 break-all select-all">
+          {enrollment.secret.match(/.{1,4}/g)?.join(" ")}
+        </p>
+
+        <TwoFactorCodeInput value={code} onChange={setCode} onComplete={handleConfirm} disabled={isBusy} />
+
+        {error && (
+          <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <Button
+          type="button"
+          onClick={() => handleConfirm()}
+          disabled={isBusy || code.length !== 6}
+          className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+        >
+          {isBusy ? "Verifying..." : "Turn On"}
+        </Button>
+      </div>
+    )
+  }
+
+  if (!settings.enabled) {
+    return (
+      <div className="space-y-6">
+        {settings.required && (
+          <div className="flex items-start gap-3 p-4 rounded-lg bg-yellow-400/10 border border-yellow-400/30 text-yellow-200">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <p className="text-sm">
+              Two-factor authentication is required for admin accounts. Set it up to continue to the admin panel.
+            </p>
+          </div>
+        )}
+
+        <p className="text-sm text-cyan-100/70">
+          Protect your account with a code from an authenticator app on your phone, as well as your password.
+        </p>
+
+        {isAdmin ? (
+          <Button
+            type="button"
+            onClick={handleStart}
+            disabled={isBusy}
+            className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+          >
+            {isBusy ? "Preparing..." : "Set Up Two-Factor Authentication"}
+          </Button>
+        ) : (
+          <p className="text-sm text-cyan-100/50">Two-factor authentication is available for admin accounts.</p>
+        )}
+      </div>
+    )
+  }
+
+  // Enabled and verified: manage it
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-green-500/10 border border-green-400/30 text-green-200">
+        <CheckCircle className="w-5 h-5 flex-shrink-0" />
+        <p className="text-sm">
+          Two-factor authentication is on
+          {settings.enabledAt ? ` since ${format(new Date(settings.enabledAt), "MMM d, yyyy")}` : ""}.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 rounded-lg bg-black/30 border border-cyan-400/10">
+        <div className="flex items-center gap-3">
+          <KeyRound className="w-4 h-4 text-cyan-400" />
+          <div>
+            <p className="text-sm font-medium text-cyan-100">Recovery codes</p>
+            <p className="text-xs text-cyan-100/50 mt-1">{settings.recoveryCodesRemaining} unused</p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRegenerate}
+          disabled={isBusy}
+          className="border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+        >
+          Generate New
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4 rounded-lg bg-black/30 border border-cyan-400/10">
+        <div className="flex items-center gap-3">
+          <MonitorSmartphone className="w-4 h-4 text-cyan-400" />
+          <div>
+            <p className="text-sm font-medium text-cyan-100">Remembered devices</p>
+            <p className="text-xs text-cyan-100/50 mt-1">{settings.trustedDevices} skip the code prompt</p>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => runAction(forgetTrustedDevices, "Failed to forget devices")}
+          disabled={isBusy || settings.trustedDevices === 0}
+          className="border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+        >
+          Forget All
+        </Button>
+      </div>
+
+      {settings.required ? (
+        <p className="text-xs text-cyan-100/50">Two-factor authentication is required for admin accounts.</p>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={handleDisable}
+          disabled={isBusy}
+          className="w-full border-red-400/30 text-red-300 hover:bg-red-400/10"
+        >
+          Turn Off Two-Factor Authentication
+        </Button>
+      )}
+
+      <Button asChild className="w-full bg-cyan-500 hover:bg-cyan-600 text-white">
+        <Link href={returnPath}>Continue</Link>
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Two-Factor Setup Page
+ *
+ * Enrolls an admin in two-factor authentication with an authenticator app
+ * and shows their recovery codes, or manages it once it is on.
+ * middleware.ts sends admins here when the super admin policy requires it.
+ */
+export default function TwoFactorSetupPage() {
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <div className="p-8 rounded-2xl bg-black/40 backdrop-blur-xl border border-cyan-400/20 space-y-6">
+          <div className="text-center">
+            <ShieldCheck className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
+            <h1
+              className="text-3xl font-bold text-cyan-400 mb-2"
+              style={{
+                textShadow: "0 0 30px rgba(34, 211, 238, 0.6)"
+              }}
+            >
+              Two-Factor Authentication
+            </h1>
+            <p className="text-cyan-100/60">A second step when you sign in</p>
+          </div>
+
+          <Suspense fallback={spinner}>
+            <TwoFactorSetup />
+          </Suspense>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
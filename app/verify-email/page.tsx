@@ -0,0 +1,127 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, Suspense } from "react"
+import { useSearchParams } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { AlertTriangle, CheckCircle } from "lucide-react"
+import { verifyEmail } from "@/app/actions/auth"
+import { Button } from "@/components/ui/button"
+import { logger } from "@/lib/logger"
+
+const spinner = (
+  <div className="flex justify-center py-8">
+    <motion.div
+      className="w-12 h-12 border-4 border-cyan-400/20 border-t-cyan-400 rounded-full"
+      animate={{ rotate: 360 }}
+      transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+    />
+  </div>
+)
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token") || ""
+  const { status, update } = useSession()
+  const [email, setEmail] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  // Verifying uses up the token, so only ever send one request
+  const hasRequested = useRef(false)
+
+  const verify = useCallback(async () => {
+    if (!token) {
+      setError("This verification link is invalid or has already been used.")
+      setIsLoading(false)
+      return
+    }
+
+    try {
+      const result = await verifyEmail(token)
+
+      if (result.success) {
+        setEmail(result.email || "")
+        // Refresh the session so the verification banner goes away
+        await update()
+      } else {
+        setError(result.error || "Failed to verify email address")
+      }
+    } catch (error) {
+      logger.error("Failed to verify email", error instanceof Error ? error : new Error(String(error)))
+      setError("Failed to verify email address")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [token, update])
+
+  useEffect(() => {
+    if (hasRequested.current) return
+    hasRequested.current = true
+    verify()
+  }, [verify])
+
+  if (isLoading) {
+    return spinner
+  }
+
+  return (
+    <div className="space-y-6">
+      {error ? (
+        <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-400/30 text-red-200">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 p-4 rounded-lg bg-green-500/10 border border-green-400/30 text-green-200">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">
+            {email ? `${email} is verified.` : "Your email address is verified."} Thanks for confirming!
+          </p>
+        </div>
+      )}
+
+      <Button asChild className="w-full bg-cyan-500 hover:bg-cyan-600 text-white">
+        <Link href={status === "authenticated" ? "/profile" : "/"}>
+          {status === "authenticated" ? "Go to My Profile" : "Back to Xplorium"}
+        </Link>
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Email Verification Page
+ *
+ * Landing page for the link in the verification email sent at sign-up.
+ * Works whether or not the customer is signed in.
+ */
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <div className="p-8 rounded-2xl bg-black/40 backdrop-blur-xl border border-cyan-400/20 space-y-6">
+          <div className="text-center">
+            <h1
+              className="text-3xl font-bold text-cyan-400 mb-2"
+              style={{
+                textShadow: "0 0 30px rgba(34, 211, 238, 0.6)"
+              }}
+            >
+              Verify Email
+            </h1>
+            <p className="text-cyan-100/60">Confirming your email address</p>
+          </div>
+
+          <Suspense fallback={spinner}>
+            <VerifyEmailContent />
+          </Suspense>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
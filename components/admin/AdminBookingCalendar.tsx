@@ -4,7 +4,7 @@ import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   ChevronLeft, ChevronRight, Plus, MoreVertical, CheckCircle, XCircle, Eye, Trash2,
-  Calendar as CalendarIcon, Download, Printer
+  Calendar as CalendarIcon, Download, Printer, Repeat
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { format, startOfWeek, endOfWeek, eachDayOfInterval, addDays } from 'date-fns'
@@ -16,19 +16,23 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Button } from "@/components/ui/button"
-import { exportToICS } from '@/lib/calendar-utils'
+import { exportToICS, formatTimeRange } from '@/lib/calendar-utils'
+import { BOOKING_RESOURCES, BOOKING_RESOURCE_IDS, getResourceName } from '@/lib/booking-resources'
 
 export interface AdminBookingEvent {
   id: string
   title: string
   date: Date
   time: string
+  duration?: number // Minutes
   type: 'CAFE' | 'SENSORY_ROOM' | 'PLAYGROUND' | 'PARTY' | 'EVENT'
   status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED' | 'COMPLETED'
   guestCount?: number
   phone?: string
   email?: string
   description?: string
+  resourceIds?: string[]
+  seriesId?: string | null // Set for occurrences of a recurring series
 }
 
 interface AdminBookingCalendarProps {
@@ -38,6 +42,8 @@ interface AdminBookingCalendarProps {
   onApprove?: (eventId: string) => void
   onReject?: (eventId: string) => void
   onDelete?: (eventId: string) => void
+  onApproveSeries?: (eventId: string) => void
+  onCancelSeries?: (eventId: string) => void
   showAddButton?: boolean
 }
 
@@ -51,7 +57,9 @@ type ViewMode = 'month' | 'week' | 'day'
  * - ICS export
  * - Print-friendly view
  * - Color-coded by type and status
+ * - Filter by resource (room / café seating)
  * - Quick actions: View, Approve, Reject, Delete
+ * - Series actions for recurring bookings: Approve series, Cancel series
  */
 export const AdminBookingCalendar = ({
   events,
@@ -60,6 +68,8 @@ export const AdminBookingCalendar = ({
   onApprove,
   onReject,
   onDelete,
+  onApproveSeries,
+  onCancelSeries,
   showAddButton = false
 }: AdminBookingCalendarProps) => {
   const router = useRouter()
@@ -69,6 +79,12 @@ export const AdminBookingCalendar = ({
   const [selectedDayEvents, setSelectedDayEvents] = useState<AdminBookingEvent[] | null>(null)
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
   const [isPrinting, setIsPrinting] = useState(false)
+  const [resourceFilter, setResourceFilter] = useState<string>('ALL')
+
+  // Only show bookings occupying the selected resource
+  const visibleEvents = resourceFilter === 'ALL'
+    ? events
+    : events.filter(event => event.resourceIds?.includes(resourceFilter))
 
   // Get days in month
   const getDaysInMonth = (date: Date) => {
@@ -94,7 +110,7 @@ export const AdminBookingCalendar = ({
 
   // Get events for a specific date
   const getEventsForDate = (date: Date) => {
-    return events.filter(event => {
+    return visibleEvents.filter(event => {
       const eventDate = new Date(event.date)
       return (
         eventDate.getDate() === date.getDate() &&
@@ -170,6 +186,16 @@ export const AdminBookingCalendar = ({
     onDelete?.(eventId)
   }
 
+  const handleApproveSeries = (e: React.MouseEvent, eventId: string) => {
+    e.stopPropagation()
+    onApproveSeries?.(eventId)
+  }
+
+  const handleCancelSeries = (e: React.MouseEvent, eventId: string) => {
+    e.stopPropagation()
+    onCancelSeries?.(eventId)
+  }
+
   const handleView = (e: React.MouseEvent, eventId: string) => {
     e.stopPropagation()
     router.push(`/admin/bookings/${eventId}`)
@@ -177,7 +203,7 @@ export const AdminBookingCalendar = ({
 
   // Export to ICS
   const handleExportICS = () => {
-    exportToICS(events, `xplorium-bookings-${format(currentDate, 'yyyy-MM')}.ics`)
+    exportToICS(visibleEvents, `xplorium-bookings-${format(currentDate, 'yyyy-MM')}.ics`)
   }
 
   // Print view
@@ -189,6 +215,24 @@ export const AdminBookingCalendar = ({
     }, 100)
   }
 
+  // Render occupied resources
+  const renderResourceBadges = (event: AdminBookingEvent) => {
+    if (!event.resourceIds || event.resourceIds.length === 0) return null
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {event.resourceIds.map(resourceId => (
+          <span
+            key={resourceId}
+            className="text-[10px] px-2 py-0.5 rounded-full bg-black/30 border border-white/20"
+          >
+            {getResourceName(resourceId)}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
   // Render event card
   const renderEventCard = (event: AdminBookingEvent, idx: number) => {
     const colors = eventTypeColors[event.type]
@@ -212,11 +256,14 @@ export const AdminBookingCalendar = ({
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: idx * 0.05 }}
           whileHover={{ scale: 1.02 }}
-          title={`${event.time} - ${event.title} (${event.status})`}
+          title={`${formatTimeRange(event.time, event.duration)} - ${event.title} (${event.status})${event.resourceIds?.length ? ` - ${event.resourceIds.map(getResourceName).join(', ')}` : ''}`}
         >
           <div className="flex items-center justify-between gap-1">
             <div className="flex-1 min-w-0">
-              <div className="font-medium truncate">{event.time}</div>
+              <div className="font-medium truncate flex items-center gap-1">
+                {event.seriesId && <Repeat className="w-2.5 h-2.5 flex-shrink-0" />}
+                {formatTimeRange(event.time, event.duration)}
+              </div>
               <div className="truncate opacity-90">{event.title}</div>
             </div>
 
@@ -246,6 +293,18 @@ export const AdminBookingCalendar = ({
                       </DropdownMenuItem>
                     </>
                   )}
+                  {event.seriesId && onApproveSeries && (
+                    <DropdownMenuItem onClick={(e) => handleApproveSeries(e, event.id)}>
+                      <Repeat className="w-3 h-3 mr-2 text-green-400" />
+                      Approve series
+                    </DropdownMenuItem>
+                  )}
+                  {event.seriesId && onCancelSeries && (
+                    <DropdownMenuItem onClick={(e) => handleCancelSeries(e, event.id)}>
+                      <Repeat className="w-3 h-3 mr-2 text-red-400" />
+                      Cancel series
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem
                     onClick={(e) => handleDelete(e, event.id)}
                     className="text-red-400"
@@ -413,17 +472,22 @@ export const AdminBookingCalendar = ({
                 >
                   <div className="flex justify-between items-start mb-2">
                     <div>
-                      <h4 className="font-bold text-lg">{event.title}</h4>
+                      <h4 className="font-bold text-lg flex items-center gap-2">
+                        {event.seriesId && <Repeat className="w-4 h-4" />}
+                        {event.title}
+                      </h4>
                       <p className="text-sm opacity-90">{colors.label} - {event.status}</p>
                     </div>
                     <div className="text-right">
-                      <div className="font-bold text-lg">{event.time}</div>
+                      <div className="font-bold text-lg">{formatTimeRange(event.time, event.duration)}</div>
                       {event.guestCount && (
                         <div className="text-sm opacity-90">{event.guestCount} guests</div>
                       )}
                     </div>
                   </div>
 
+                  {renderResourceBadges(event)}
+
                   {(event.phone || event.email) && (
                     <div className="text-sm opacity-80 space-y-1 border-t border-white/20 pt-2 mt-2">
                       {event.phone && <div>📞 {event.phone}</div>}
@@ -461,6 +525,27 @@ export const AdminBookingCalendar = ({
                           </Button>
                         </>
                       )}
+
+                      {event.seriesId && onApproveSeries && (
+                        <Button
+                          onClick={(e) => handleApproveSeries(e, event.id)}
+                          variant="outline"
+                          size="sm"
+                          className="border-green-400/30 text-green-400 hover:bg-green-400/10"
+                        >
+                          Approve series
+                        </Button>
+                      )}
+                      {event.seriesId && onCancelSeries && (
+                        <Button
+                          onClick={(e) => handleCancelSeries(e, event.id)}
+                          variant="outline"
+                          size="sm"
+                          className="border-red-400/30 text-red-400 hover:bg-red-400/10"
+                        >
+                          Cancel series
+                        </Button>
+                      )}
                     </div>
                   )}
                 </motion.div>
@@ -552,6 +637,21 @@ export const AdminBookingCalendar = ({
               </button>
             </div>
 
+            {/* Resource Filter */}
+            <select
+              value={resourceFilter}
+              onChange={(e) => setResourceFilter(e.target.value)}
+              className="px-3 py-1 rounded-lg bg-black/20 border border-cyan-400/20 text-cyan-300 text-sm focus:outline-none focus:border-cyan-400"
+              aria-label="Filter by resource"
+            >
+              <option value="ALL" className="bg-gray-900">All Resources</option>
+              {BOOKING_RESOURCE_IDS.map(resourceId => (
+                <option key={resourceId} value={resourceId} className="bg-gray-900">
+                  {BOOKING_RESOURCES[resourceId].name}
+                </option>
+              ))}
+            </select>
+
             {/* Export & Print */}
             <Button
               onClick={handleExportICS}
@@ -694,13 +794,15 @@ export const AdminBookingCalendar = ({
                             <p className="text-sm opacity-90">{colors.label} - {event.status}</p>
                           </div>
                           <div className="text-right">
-                            <div className="font-bold text-lg">{event.time}</div>
+                            <div className="font-bold text-lg">{formatTimeRange(event.time, event.duration)}</div>
                             {event.guestCount && (
                               <div className="text-sm opacity-90">{event.guestCount} guests</div>
                             )}
                           </div>
                         </div>
 
+                        {renderResourceBadges(event)}
+
                         {(event.phone || event.email) && (
                           <div className="text-sm opacity-80 space-y-1 border-t border-white/20 pt-2 mt-2">
                             {event.phone && <div>📞 {event.phone}</div>}
@@ -2,7 +2,7 @@
 
 import { memo, useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { Menu, User, LogOut, Shield, Home } from "lucide-react"
+import { Menu, User, LogOut, Shield, ShieldCheck, Home } from "lucide-react"
 import { signOut, useSession } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
@@ -183,6 +183,17 @@ export const AdminHeader = memo(function AdminHeader({
                       <span className="text-sm">Back to Site</span>
                     </Link>
 
+                    {/* Two-factor authentication */}
+                    <Link
+                      href="/two-factor/setup"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center gap-3 px-4 py-2
+                                 text-cyan-300 hover:bg-cyan-400/10 transition-colors"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      <span className="text-sm">Two-Factor Authentication</span>
+                    </Link>
+
                     {/* Sign out */}
                     <button
                       onClick={handleSignOut}
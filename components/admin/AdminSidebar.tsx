@@ -24,11 +24,13 @@ import {
   Bell,
   BarChart3,
   Clock,
+  ChefHat,
   ChevronDown,
   ChevronRight,
   TrendingUp,
   Download,
-  Upload
+  UtensilsCrossed,
+  Timer
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 
@@ -140,6 +142,11 @@ export const AdminSidebar = memo(function AdminSidebar({
           icon: Calendar,
           badge: pendingCount
         },
+        {
+          label: "Kitchen Prep",
+          href: "/admin/kitchen-prep",
+          icon: ChefHat
+        },
         {
           label: "Scheduling",
           href: "/admin/scheduling",
@@ -199,6 +206,11 @@ export const AdminSidebar = memo(function AdminSidebar({
           href: "/admin/pricing",
           icon: DollarSign
         },
+        {
+          label: "Catalog",
+          href: "/admin/catalog",
+          icon: UtensilsCrossed
+        },
         {
           label: "Reports",
           href: "/admin/reports",
@@ -243,6 +255,11 @@ export const AdminSidebar = memo(function AdminSidebar({
           href: "/admin/export-import",
           icon: Download
         },
+        {
+          label: "Background Jobs",
+          href: "/admin/jobs",
+          icon: Timer
+        },
         {
           label: "Audit Logs",
           href: "/admin/audit",
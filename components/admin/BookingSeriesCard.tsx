@@ -0,0 +1,332 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Repeat, CheckCircle, XCircle, Save, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import {
+  createBookingSeries,
+  updateBookingSeries,
+  approveBookingSeries,
+  cancelBookingSeries,
+} from "@/app/actions/bookings"
+import { WEEKDAYS, describeRRule, parseRRule, type RecurrenceFrequency, type Weekday } from "@/lib/recurrence"
+import type { SeriesScope } from "@/lib/validations"
+
+interface SeriesOccurrence {
+  id: string
+  date: Date
+  time: string
+  status: string
+}
+
+interface SeriesConflict {
+  date: string
+  time: string
+  message: string
+}
+
+interface BookingSeriesCardProps {
+  booking: {
+    id: string
+    date: Date
+    time: string
+    status: string
+    series: {
+      id: string
+      rrule: string
+      bookings: SeriesOccurrence[]
+    } | null
+  }
+  onChange: () => void
+}
+
+const SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: "This booking",
+  following: "This and following",
+  all: "All bookings in series",
+}
+
+const STATUS_DOT_COLORS: Record<string, string> = {
+  PENDING: "bg-yellow-400",
+  APPROVED: "bg-green-400",
+  REJECTED: "bg-red-400",
+  CANCELLED: "bg-gray-400",
+  COMPLETED: "bg-blue-400",
+}
+
+/**
+ * Recurring series panel for the booking detail page
+ * Turns a single booking into a series, or approves, cancels and
+ * reschedules occurrences of an existing series.
+ */
+export function BookingSeriesCard({ booking, onChange }: BookingSeriesCardProps) {
+  const [freq, setFreq] = useState<RecurrenceFrequency>("WEEKLY")
+  const [interval, setRepeatInterval] = useState(1)
+  const [byDay, setByDay] = useState<Weekday[]>([])
+  const [count, setCount] = useState(10)
+  const [conflicts, setConflicts] = useState<SeriesConflict[]>([])
+  const [scope, setScope] = useState<SeriesScope>("all")
+  const [time, setTime] = useState(booking.time)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleCreate = async (skipConflicts = false) => {
+    setIsLoading(true)
+
+    try {
+      const result = await createBookingSeries({
+        bookingId: booking.id,
+        recurrence: { freq, interval, count, byDay: freq === "WEEKLY" ? byDay : undefined },
+        skipConflicts,
+      })
+
+      if (result.success) {
+        toast.success(result.message)
+        setConflicts([])
+        onChange()
+      } else {
+        toast.error(result.error || "Failed to create series")
+        setConflicts(result.conflicts ?? [])
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const runSeriesAction = async (
+    action: () => Promise<{ success?: boolean; error?: string; message?: string; conflicts?: SeriesConflict[] }>
+  ) => {
+    setIsLoading(true)
+
+    try {
+      const result = await action()
+
+      if (result.success) {
+        toast.success(result.message || "Series updated")
+        setConflicts([])
+        onChange()
+      } else {
+        toast.error(result.error || "Failed to update series")
+        setConflicts(result.conflicts ?? [])
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCancel = () => {
+    const reason = prompt("Cancellation reason (optional):")
+    if (reason === null) return
+
+    runSeriesAction(() => cancelBookingSeries(booking.id, scope, reason || undefined))
+  }
+
+  const toggleDay = (day: Weekday) => {
+    setByDay(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]))
+  }
+
+  const conflictList = conflicts.length > 0 && (
+    <div className="p-3 rounded-lg bg-red-500/10 border border-red-400/30 space-y-1">
+      <p className="text-xs font-medium text-red-300 flex items-center gap-1">
+        <AlertTriangle className="w-3 h-3" />
+        Conflicting occurrences
+      </p>
+      {conflicts.map(conflict => (
+        <p key={conflict.date} className="text-xs text-red-200/80">
+          {format(new Date(`${conflict.date}T00:00:00`), "MMM d, yyyy")} {conflict.time} – {conflict.message}
+        </p>
+      ))}
+    </div>
+  )
+
+  if (!booking.series) {
+    return (
+      <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-4">
+        <h2 className="text-lg font-semibold text-cyan-300 flex items-center gap-2">
+          <Repeat className="w-5 h-5" />
+          Repeat Booking
+        </h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-cyan-100/50 mb-1 block">Frequency</label>
+            <Select value={freq} onValueChange={(value) => setFreq(value as RecurrenceFrequency)}>
+              <SelectTrigger className="bg-black/40 border-cyan-400/30 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DAILY">Daily</SelectItem>
+                <SelectItem value="WEEKLY">Weekly</SelectItem>
+                <SelectItem value="MONTHLY">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-cyan-100/50 mb-1 block">Every</label>
+            <Input
+              type="number"
+              min={1}
+              max={12}
+              value={interval}
+              onChange={(e) => setRepeatInterval(Number(e.target.value))}
+              className="bg-black/40 border-cyan-400/30 text-white"
+            />
+          </div>
+        </div>
+
+        {freq === "WEEKLY" && (
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAYS.map(day => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={cn(
+                  "px-2 py-1 rounded text-xs border",
+                  byDay.includes(day)
+                    ? "bg-cyan-400/20 border-cyan-400 text-cyan-300"
+                    : "border-cyan-400/20 text-cyan-100/50"
+                )}
+              >
+                {day}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="text-xs text-cyan-100/50 mb-1 block">Occurrences (including this one)</label>
+          <Input
+            type="number"
+            min={2}
+            max={52}
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className="bg-black/40 border-cyan-400/30 text-white"
+          />
+        </div>
+
+        <p className="text-xs text-cyan-100/60">
+          {describeRRule({ freq, interval, count, byDay: freq === "WEEKLY" ? byDay : undefined })}
+        </p>
+
+        {conflictList}
+
+        <Button
+          onClick={() => handleCreate()}
+          disabled={isLoading}
+          className="w-full bg-cyan-500 hover:bg-cyan-600 text-white"
+        >
+          <Repeat className="w-4 h-4 mr-2" />
+          {isLoading ? "Creating..." : "Create Series"}
+        </Button>
+
+        {conflicts.length > 0 && (
+          <Button
+            onClick={() => handleCreate(true)}
+            disabled={isLoading}
+            variant="outline"
+            className="w-full border-cyan-400/30 text-cyan-300 hover:bg-cyan-400/10"
+          >
+            Create without conflicting dates
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-cyan-300 flex items-center gap-2">
+          <Repeat className="w-5 h-5" />
+          Recurring Series
+        </h2>
+        <p className="text-xs text-cyan-100/60 mt-1">{describeRRule(parseRRule(booking.series.rrule))}</p>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {booking.series.bookings.map(occurrence => (
+          <div
+            key={occurrence.id}
+            className={cn(
+              "flex items-center gap-2 text-xs px-2 py-1 rounded",
+              occurrence.id === booking.id ? "bg-cyan-400/10 text-cyan-300" : "text-cyan-100/70"
+            )}
+          >
+            <span className={cn("w-2 h-2 rounded-full", STATUS_DOT_COLORS[occurrence.status])} />
+            {format(new Date(occurrence.date), "EEE, MMM d, yyyy")} {occurrence.time}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="text-xs text-cyan-100/50 mb-1 block">Apply to</label>
+        <Select value={scope} onValueChange={(value) => setScope(value as SeriesScope)}>
+          <SelectTrigger className="bg-black/40 border-cyan-400/30 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="time"
+          step={1800}
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className="bg-black/40 border-cyan-400/30 text-white"
+        />
+        <Button
+          onClick={() => runSeriesAction(() => updateBookingSeries(booking.id, scope, { time }))}
+          disabled={isLoading || time === booking.time}
+          variant="outline"
+          className="border-cyan-400/30 text-cyan-300 hover:bg-cyan-400/10"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Move
+        </Button>
+      </div>
+
+      {conflictList}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          onClick={() => runSeriesAction(() => approveBookingSeries(booking.id, scope))}
+          disabled={isLoading}
+          className="bg-green-500 hover:bg-green-600 text-white"
+        >
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Approve
+        </Button>
+        <Button
+          onClick={handleCancel}
+          disabled={isLoading}
+          className="bg-red-500 hover:bg-red-600 text-white"
+        >
+          <XCircle className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,422 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { createCatalogItemSchema, type CatalogVariantInput, type CreateCatalogItemInput } from "@/lib/validations/catalog"
+import { createCatalogItem, updateCatalogItem, type getCatalogItemById } from "@/app/actions/catalog"
+import { CATALOG_KIND_LABELS, getCatalogCode, getCatalogSlug, toCatalogSlug, type CatalogKind } from "@/lib/catalog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+    FormDescription,
+} from "@/components/ui/form"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2, Save, ArrowLeft, Plus, X } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+type CatalogItem = NonNullable<Awaited<ReturnType<typeof getCatalogItemById>>["item"]>
+
+interface CatalogItemEditorProps {
+    itemId?: string
+    categories: { id: string; name: string; kind: CatalogKind }[]
+    initialData?: Partial<CatalogItem>
+    isEditing?: boolean
+}
+
+export function CatalogItemEditor({ itemId, categories, initialData, isEditing = false }: CatalogItemEditorProps) {
+    const router = useRouter()
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [variants, setVariants] = useState<CatalogVariantInput[]>(
+        initialData?.variants?.map(variant => ({
+            slug: variant.slug,
+            name: variant.name,
+            description: variant.description || undefined,
+            isAvailable: variant.isAvailable,
+        })) || []
+    )
+
+    const form = useForm<CreateCatalogItemInput>({
+        resolver: zodResolver(createCatalogItemSchema),
+        defaultValues: {
+            categoryId: initialData?.categoryId || categories[0]?.id || "",
+            slug: initialData?.code ? getCatalogSlug(initialData.code) : "",
+            name: initialData?.name || "",
+            description: initialData?.description || "",
+            icon: initialData?.icon || "",
+            priceAmount: initialData?.priceAmount ?? undefined,
+            priceCurrency: initialData?.priceCurrency || "RSD",
+            unit: initialData?.unit || "PER_GUEST",
+            isAvailable: initialData?.isAvailable ?? true,
+            variants: [],
+        },
+    })
+
+    const category = categories.find(entry => entry.id === form.watch("categoryId"))
+    const slug = form.watch("slug")
+
+    const handleSubmit = async (data: CreateCatalogItemInput) => {
+        try {
+            setIsSubmitting(true)
+
+            // Drop empty variant rows
+            const filteredVariants = variants.filter(variant => variant.name.trim() !== "")
+
+            const { categoryId, ...itemData } = data
+            const submitData = { ...itemData, variants: filteredVariants }
+
+            const result = isEditing && itemId
+                ? await updateCatalogItem(itemId, submitData)
+                : await createCatalogItem({ ...submitData, categoryId })
+
+            if (result.success) {
+                toast.success(result.message)
+                router.push("/admin/catalog")
+                router.refresh()
+            } else {
+                toast.error(result.error || "Something went wrong")
+            }
+        } catch (error) {
+            logger.error("Catalog item submit error", error instanceof Error ? error : new Error(String(error)))
+            toast.error("An error occurred: " + (error instanceof Error ? error.message : String(error)))
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const addVariant = () => {
+        setVariants([...variants, { slug: "", name: "", isAvailable: true }])
+    }
+
+    const removeVariant = (index: number) => {
+        setVariants(variants.filter((_, i) => i !== index))
+    }
+
+    const updateVariant = (index: number, changes: Partial<CatalogVariantInput>) => {
+        setVariants(variants.map((variant, i) => {
+            if (i !== index) return variant
+            const next = { ...variant, ...changes }
+            // Keep the slug in step with the name until it's edited by hand
+            if (changes.name !== undefined && variant.slug === toCatalogSlug(variant.name)) {
+                next.slug = toCatalogSlug(changes.name)
+            }
+            return next
+        }))
+    }
+
+    return (
+        <Form {...form}>
+            <form
+                onSubmit={form.handleSubmit(handleSubmit)}
+                className="space-y-8"
+            >
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={() => router.back()}
+                            className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+                        >
+                            <ArrowLeft className="w-4 h-4 mr-2" />
+                            Back
+                        </Button>
+                        <h1 className="text-2xl font-bold text-cyan-400">
+                            {isEditing ? "Edit Catalog Item" : "New Catalog Item"}
+                        </h1>
+                    </div>
+                    <Button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="bg-cyan-500 hover:bg-cyan-600 text-white"
+                    >
+                        {isSubmitting ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                            <Save className="w-4 h-4 mr-2" />
+                        )}
+                        {isEditing ? "Update Item" : "Create Item"}
+                    </Button>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    {/* Main Content */}
+                    <div className="lg:col-span-2 space-y-6">
+                        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-6">
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="icon"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel className="text-cyan-300">Icon</FormLabel>
+                                            <FormControl>
+                                                <Input
+                                                    {...field}
+                                                    placeholder="🍕"
+                                                    className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                                />
+                                            </FormControl>
+                                            <FormMessage className="text-red-400" />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="name"
+                                    render={({ field }) => (
+                                        <FormItem className="md:col-span-3">
+                                            <FormLabel className="text-cyan-300">Name</FormLabel>
+                                            <FormControl>
+                                                <Input
+                                                    {...field}
+                                                    onChange={(e) => {
+                                                        if (!isEditing && form.getValues("slug") === toCatalogSlug(field.value)) {
+                                                            form.setValue("slug", toCatalogSlug(e.target.value))
+                                                        }
+                                                        field.onChange(e)
+                                                    }}
+                                                    placeholder="e.g. Pizza"
+                                                    className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                                />
+                                            </FormControl>
+                                            <FormMessage className="text-red-400" />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+
+                            <FormField
+                                control={form.control}
+                                name="slug"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel className="text-cyan-300">Slug</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                {...field}
+                                                placeholder="e.g. pizza"
+                                                className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                            />
+                                        </FormControl>
+                                        <FormDescription className="text-cyan-100/40">
+                                            {category && slug
+                                                ? `Price code: ${getCatalogCode(category.kind, slug)}`
+                                                : "Used in the item's price code"}
+                                            {category?.kind === "ROOM" && " - rooms must use the bookable room's ID"}
+                                        </FormDescription>
+                                        <FormMessage className="text-red-400" />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="description"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel className="text-cyan-300">Description (Optional)</FormLabel>
+                                        <FormControl>
+                                            <Textarea
+                                                {...field}
+                                                placeholder="Shown under the item in the booking form"
+                                                className="min-h-[80px] bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                            />
+                                        </FormControl>
+                                        <FormMessage className="text-red-400" />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+
+                        {/* Variants */}
+                        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-4">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <h3 className="text-lg font-semibold text-cyan-300">Variants</h3>
+                                    <p className="text-sm text-cyan-100/40">
+                                        Choices shown in a submenu, e.g. the pizza supplier. Variants share the item&apos;s price.
+                                    </p>
+                                </div>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={addVariant}
+                                    className="text-cyan-400 border-cyan-400/30 hover:bg-cyan-400/10"
+                                >
+                                    <Plus className="w-4 h-4 mr-1" />
+                                    Add Variant
+                                </Button>
+                            </div>
+
+                            {variants.map((variant, index) => (
+                                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto_auto] gap-2 items-center">
+                                    <Input
+                                        value={variant.name}
+                                        onChange={(e) => updateVariant(index, { name: e.target.value })}
+                                        placeholder="Name"
+                                        className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                    />
+                                    <Input
+                                        value={variant.slug}
+                                        onChange={(e) => updateVariant(index, { slug: e.target.value })}
+                                        placeholder="slug"
+                                        className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                    />
+                                    <Input
+                                        value={variant.description || ""}
+                                        onChange={(e) => updateVariant(index, { description: e.target.value || undefined })}
+                                        placeholder="Description"
+                                        className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                    />
+                                    <label className="flex items-center gap-2 text-sm text-cyan-100/70">
+                                        <Checkbox
+                                            checked={variant.isAvailable !== false}
+                                            onCheckedChange={(checked) => updateVariant(index, { isAvailable: checked === true })}
+                                            className="border-cyan-400/40 data-[state=checked]:bg-cyan-500"
+                                        />
+                                        Available
+                                    </label>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => removeVariant(index)}
+                                        className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Sidebar */}
+                    <div className="space-y-6">
+                        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-6">
+                            <FormField
+                                control={form.control}
+                                name="categoryId"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel className="text-cyan-300">Category</FormLabel>
+                                        <Select
+                                            onValueChange={field.onChange}
+                                            defaultValue={field.value}
+                                            disabled={isEditing}
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger className="bg-black/40 border-cyan-400/30 text-white">
+                                                    <SelectValue placeholder="Select category" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {categories.map(entry => (
+                                                    <SelectItem key={entry.id} value={entry.id}>
+                                                        {entry.name} ({CATALOG_KIND_LABELS[entry.kind]})
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage className="text-red-400" />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="priceAmount"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel className="text-cyan-300">Price (RSD)</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                value={field.value ?? ""}
+                                                onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                                                placeholder="e.g. 350"
+                                                className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                            />
+                                        </FormControl>
+                                        <FormDescription className="text-cyan-100/40">
+                                            Leave empty to price it on request
+                                        </FormDescription>
+                                        <FormMessage className="text-red-400" />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="unit"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel className="text-cyan-300">Charged</FormLabel>
+                                        <Select
+                                            onValueChange={field.onChange}
+                                            defaultValue={field.value}
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger className="bg-black/40 border-cyan-400/30 text-white">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="FLAT">Once per booking</SelectItem>
+                                                <SelectItem value="PER_GUEST">Per serving</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage className="text-red-400" />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="isAvailable"
+                                render={({ field }) => (
+                                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border border-cyan-400/20 p-4 bg-black/20">
+                                        <FormControl>
+                                            <Checkbox
+                                                checked={field.value}
+                                                onCheckedChange={field.onChange}
+                                                className="border-cyan-400/40 data-[state=checked]:bg-cyan-500"
+                                            />
+                                        </FormControl>
+                                        <div className="space-y-1 leading-none">
+                                            <FormLabel className="text-cyan-300">
+                                                Available
+                                            </FormLabel>
+                                            <FormDescription className="text-cyan-100/40">
+                                                Unavailable items are hidden from the booking forms
+                                            </FormDescription>
+                                        </div>
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+                    </div>
+                </div>
+            </form>
+        </Form>
+    )
+}
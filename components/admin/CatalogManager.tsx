@@ -0,0 +1,310 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ArrowDown, ArrowUp, FolderPlus, Pencil, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  createCatalogCategory,
+  deleteCatalogCategory,
+  deleteCatalogItem,
+  reorderCatalogCategories,
+  reorderCatalogItems,
+  setCatalogItemAvailability,
+} from '@/app/actions/catalog'
+import { CATALOG_KINDS, CATALOG_KIND_LABELS, type CatalogKind } from '@/lib/catalog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface CatalogItemRow {
+  id: string
+  code: string
+  name: string
+  icon: string | null
+  priceAmount: number | null
+  priceCurrency: string
+  unit: string
+  isAvailable: boolean
+  variants: { id: string; name: string; isAvailable: boolean }[]
+}
+
+interface CatalogCategoryRow {
+  id: string
+  name: string
+  kind: CatalogKind
+  description: string | null
+  items: CatalogItemRow[]
+}
+
+interface CatalogManagerProps {
+  categories: CatalogCategoryRow[]
+}
+
+/**
+ * Move an entry one place up or down, returning the new ID order
+ */
+function moveId(ids: string[], index: number, direction: -1 | 1) {
+  const next = [...ids]
+  const target = index + direction
+  if (target < 0 || target >= next.length) return null
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+export function CatalogManager({ categories }: CatalogManagerProps) {
+  const router = useRouter()
+  const [newName, setNewName] = useState('')
+  const [newKind, setNewKind] = useState<CatalogKind>('FOOD')
+  const [isCreating, setIsCreating] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const runAction = async (id: string, action: () => Promise<{ success: boolean; error?: string; message?: string }>) => {
+    try {
+      setPendingId(id)
+      const result = await action()
+
+      if (result.success) {
+        toast.success(result.message)
+        router.refresh()
+        return true
+      }
+
+      toast.error(result.error || 'Something went wrong')
+      return false
+    } catch {
+      toast.error('An error occurred')
+      return false
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleCreateCategory = async () => {
+    if (!newName.trim()) {
+      toast.error('Please enter a category name')
+      return
+    }
+
+    setIsCreating(true)
+    if (await runAction('new-category', () => createCatalogCategory({ name: newName.trim(), kind: newKind }))) {
+      setNewName('')
+    }
+    setIsCreating(false)
+  }
+
+  const handleDeleteCategory = (category: CatalogCategoryRow) => {
+    if (!confirm(`Are you sure you want to delete "${category.name}"?`)) {
+      return
+    }
+    runAction(category.id, () => deleteCatalogCategory(category.id))
+  }
+
+  const handleDeleteItem = (item: CatalogItemRow) => {
+    if (!confirm(`Are you sure you want to delete "${item.name}"? Existing bookings keep their orders.`)) {
+      return
+    }
+    runAction(item.id, () => deleteCatalogItem(item.id))
+  }
+
+  const handleMoveCategory = (index: number, direction: -1 | 1) => {
+    const ids = moveId(categories.map(category => category.id), index, direction)
+    if (ids) runAction(categories[index].id, () => reorderCatalogCategories(ids))
+  }
+
+  const handleMoveItem = (category: CatalogCategoryRow, index: number, direction: -1 | 1) => {
+    const ids = moveId(category.items.map(item => item.id), index, direction)
+    if (ids) runAction(category.items[index].id, () => reorderCatalogItems(ids))
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* New Category */}
+      <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+        <h2 className="text-lg font-semibold text-cyan-300 mb-4">New Category</h2>
+        <div className="flex flex-col md:flex-row gap-3">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Desserts"
+            className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+          />
+          <Select value={newKind} onValueChange={(value) => setNewKind(value as CatalogKind)}>
+            <SelectTrigger className="md:w-48 bg-black/40 border-cyan-400/30 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATALOG_KINDS.map(kind => (
+                <SelectItem key={kind} value={kind}>{CATALOG_KIND_LABELS[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleCreateCategory}
+            disabled={isCreating}
+            className="bg-cyan-500 hover:bg-cyan-600 text-white"
+          >
+            <FolderPlus className="w-4 h-4 mr-2" />
+            Add Category
+          </Button>
+        </div>
+      </div>
+
+      {categories.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-white/60">No catalog categories yet</p>
+        </div>
+      )}
+
+      {/* Categories */}
+      {categories.map((category, categoryIndex) => (
+        <div key={category.id} className="rounded-xl border border-cyan-400/20 bg-black/20 backdrop-blur-sm overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-cyan-400/20 bg-cyan-400/5">
+            <div>
+              <h2 className="text-lg font-semibold text-cyan-300">{category.name}</h2>
+              <p className="text-xs text-cyan-100/50">
+                {CATALOG_KIND_LABELS[category.kind]} · {category.items.length} items
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={categoryIndex === 0 || pendingId !== null}
+                onClick={() => handleMoveCategory(categoryIndex, -1)}
+                className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={categoryIndex === categories.length - 1 || pendingId !== null}
+                onClick={() => handleMoveCategory(categoryIndex, 1)}
+                className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Link href={`/admin/catalog/new?categoryId=${category.id}`}>
+                <Button variant="outline" size="sm" className="text-cyan-400 border-cyan-400/30 hover:bg-cyan-400/10">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Item
+                </Button>
+              </Link>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={pendingId === category.id}
+                onClick={() => handleDeleteCategory(category)}
+                className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-cyan-400/10">
+                  <th className="px-6 py-3 text-left text-sm font-medium text-cyan-300">Item</th>
+                  <th className="px-6 py-3 text-left text-sm font-medium text-cyan-300">Code</th>
+                  <th className="px-6 py-3 text-left text-sm font-medium text-cyan-300">Price</th>
+                  <th className="px-6 py-3 text-left text-sm font-medium text-cyan-300">Variants</th>
+                  <th className="px-6 py-3 text-left text-sm font-medium text-cyan-300">Available</th>
+                  <th className="px-6 py-3 text-right text-sm font-medium text-cyan-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {category.items.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-white/60">
+                      No items in this category yet
+                    </td>
+                  </tr>
+                ) : (
+                  category.items.map((item, itemIndex) => (
+                    <tr
+                      key={item.id}
+                      className="border-b border-cyan-400/10 hover:bg-cyan-400/5 transition-colors"
+                    >
+                      <td className="px-6 py-3 text-white">
+                        {item.icon && <span className="mr-2">{item.icon}</span>}
+                        {item.name}
+                      </td>
+                      <td className="px-6 py-3 text-cyan-100/60 text-sm font-mono">{item.code}</td>
+                      <td className="px-6 py-3 text-cyan-100/80 text-sm">
+                        {item.priceAmount === null
+                          ? '-'
+                          : `${item.priceAmount} ${item.priceCurrency}${item.unit === 'PER_GUEST' ? ' / guest' : ''}`}
+                      </td>
+                      <td className="px-6 py-3 text-cyan-100/60 text-sm">
+                        {item.variants.length > 0 ? item.variants.map(variant => variant.name).join(', ') : '-'}
+                      </td>
+                      <td className="px-6 py-3">
+                        <Switch
+                          checked={item.isAvailable}
+                          disabled={pendingId === item.id}
+                          onCheckedChange={(checked) =>
+                            runAction(item.id, () => setCatalogItemAvailability(item.id, checked))
+                          }
+                        />
+                      </td>
+                      <td className="px-6 py-3">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={itemIndex === 0 || pendingId !== null}
+                            onClick={() => handleMoveItem(category, itemIndex, -1)}
+                            className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={itemIndex === category.items.length - 1 || pendingId !== null}
+                            onClick={() => handleMoveItem(category, itemIndex, 1)}
+                            className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => router.push(`/admin/catalog/${item.id}/edit`)}
+                            className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={pendingId === item.id}
+                            onClick={() => handleDeleteItem(item)}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
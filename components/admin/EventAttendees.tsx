@@ -0,0 +1,197 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { ArrowDownToLine, ArrowUpToLine, CheckCircle2, Loader2, ScanLine, Users } from "lucide-react"
+import { toast } from "sonner"
+import { demoteEventAttendee, promoteEventAttendee } from "@/app/actions/events"
+import { Button } from "@/components/ui/button"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { SEATED_STATUSES, getSeatsTaken } from "@/lib/event-capacity"
+import { getOccurrenceKey } from "@/lib/event-occurrences"
+import type { RSVPStatus } from "@prisma/client"
+
+interface Attendee {
+    id: string
+    name: string
+    email: string
+    phone: string | null
+    guestCount: number
+    status: RSVPStatus
+    waitlistPosition: number | null
+    occurrenceDate: string
+    registeredAt: Date
+    checkedInAt: Date | null
+}
+
+interface EventAttendeesProps {
+    eventId: string
+    attendees: Attendee[]
+    capacity: number | null
+}
+
+/**
+ * Registered attendees and the waitlist of an event, with manual
+ * promote/demote controls. Recurring events are shown one date at a time.
+ */
+export function EventAttendees({ eventId, attendees, capacity }: EventAttendeesProps) {
+    const router = useRouter()
+    const [pendingId, setPendingId] = useState<string | null>(null)
+
+    // Dates with registrations, starting with the next upcoming one
+    const occurrenceDates = [...new Set(attendees.map(a => a.occurrenceDate))].sort()
+    const today = getOccurrenceKey(new Date())
+    const [selectedDate, setSelectedDate] = useState(
+        occurrenceDates.find(date => date >= today) ?? occurrenceDates[0] ?? ""
+    )
+
+    const occurrenceAttendees = attendees.filter(a => a.occurrenceDate === selectedDate)
+    const registered = occurrenceAttendees.filter(a => SEATED_STATUSES.includes(a.status))
+    const waitlist = occurrenceAttendees
+        .filter(a => a.status === "WAITLIST")
+        .sort((a, b) => (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0))
+
+    const handleAction = async (id: string, action: (id: string) => Promise<{ success: boolean; error?: string; message?: string }>) => {
+        try {
+            setPendingId(id)
+            const result = await action(id)
+
+            if (result.success) {
+                toast.success(result.message)
+                router.refresh()
+            } else {
+                toast.error(result.error || "Something went wrong")
+            }
+        } catch {
+            toast.error("An error occurred")
+        } finally {
+            setPendingId(null)
+        }
+    }
+
+    const renderRow = (attendee: Attendee, control: React.ReactNode) => (
+        <tr key={attendee.id} className="border-b border-cyan-400/10 hover:bg-cyan-400/5 transition-colors">
+            <td className="px-4 py-3 text-white">
+                {attendee.waitlistPosition !== null && (
+                    <span className="mr-2 text-cyan-400 font-mono">#{attendee.waitlistPosition}</span>
+                )}
+                {attendee.name}
+                {attendee.checkedInAt && (
+                    <CheckCircle2 className="inline w-4 h-4 ml-2 text-green-400" aria-label="Checked in" />
+                )}
+            </td>
+            <td className="px-4 py-3 text-cyan-100/70 text-sm">
+                {attendee.email}
+                {attendee.phone && <span className="block text-cyan-100/50">{attendee.phone}</span>}
+            </td>
+            <td className="px-4 py-3 text-cyan-100/70 text-sm">{attendee.guestCount}</td>
+            <td className="px-4 py-3 text-cyan-100/50 text-sm">
+                {format(new Date(attendee.registeredAt), "MMM d, yyyy HH:mm")}
+            </td>
+            <td className="px-4 py-3 text-right">{control}</td>
+        </tr>
+    )
+
+    const renderTable = (rows: Attendee[], emptyText: string, control: (attendee: Attendee) => React.ReactNode) => (
+        <div className="overflow-x-auto">
+            <table className="w-full">
+                <thead>
+                    <tr className="border-b border-cyan-400/10">
+                        <th className="px-4 py-3 text-left text-sm font-medium text-cyan-300">Name</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-cyan-300">Contact</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-cyan-300">Guests</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-cyan-300">Registered</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-cyan-300">Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.length === 0 ? (
+                        <tr>
+                            <td colSpan={5} className="px-4 py-6 text-center text-white/60">{emptyText}</td>
+                        </tr>
+                    ) : (
+                        rows.map(attendee => renderRow(attendee, control(attendee)))
+                    )}
+                </tbody>
+            </table>
+        </div>
+    )
+
+    return (
+        <div className="space-y-6">
+            <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                    <h2 className="flex items-center gap-2 text-lg font-semibold text-cyan-300">
+                        <Users className="w-5 h-5" />
+                        Attendees ({getSeatsTaken(occurrenceAttendees)}{capacity ? `/${capacity}` : ""} seats)
+                    </h2>
+                    <div className="flex items-center gap-3">
+                        {occurrenceDates.length > 1 && (
+                            <Select value={selectedDate} onValueChange={setSelectedDate}>
+                                <SelectTrigger className="w-56 bg-black/40 border-cyan-400/30 text-white">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {occurrenceDates.map(date => (
+                                        <SelectItem key={date} value={date}>
+                                            {format(parseISO(date), "EEE, MMM d, yyyy")}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+                        <Button asChild variant="outline" size="sm" className="border-cyan-400/30 text-cyan-300 hover:bg-cyan-400/10">
+                            <Link href={`/admin/events/${eventId}/check-in${selectedDate ? `?date=${selectedDate}` : ""}`}>
+                                <ScanLine className="w-4 h-4 mr-1" />
+                                Check-in
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+                {renderTable(registered, "No one has registered yet", attendee => (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={pendingId !== null}
+                        onClick={() => handleAction(attendee.id, demoteEventAttendee)}
+                        className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-400/10"
+                    >
+                        {pendingId === attendee.id
+                            ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            : <ArrowDownToLine className="w-4 h-4 mr-1" />}
+                        Move to Waitlist
+                    </Button>
+                ))}
+            </div>
+
+            <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+                <h2 className="text-lg font-semibold text-cyan-300 mb-1">Waitlist ({waitlist.length})</h2>
+                <p className="text-sm text-cyan-100/50 mb-4">
+                    Freed seats go to the waitlist in this order automatically. Promoting manually can go past capacity.
+                </p>
+                {renderTable(waitlist, "The waitlist is empty", attendee => (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={pendingId !== null}
+                        onClick={() => handleAction(attendee.id, promoteEventAttendee)}
+                        className="text-green-400 hover:text-green-300 hover:bg-green-400/10"
+                    >
+                        {pendingId === attendee.id
+                            ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            : <ArrowUpToLine className="w-4 h-4 mr-1" />}
+                        Promote
+                    </Button>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -3,9 +3,17 @@
 import { useState, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ChevronLeft, ChevronRight, Plus, Eye, Edit, Trash2, Archive, Send } from 'lucide-react'
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths } from 'date-fns'
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, parseISO } from 'date-fns'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
+import { describeRRule, type RecurrenceRule } from '@/lib/recurrence'
+import {
+  expandEventOccurrences,
+  getEventRule,
+  type EventOccurrence,
+  type EventSchedule,
+  type OccurrenceException
+} from '@/lib/event-occurrences'
 
 /**
  * EventCalendar Component
@@ -14,6 +22,7 @@ import { cn } from '@/lib/utils'
  * - Monthly calendar grid
  * - Event badges on dates
  * - Color-coded by category
+ * - Recurring events shown on every occurrence (cancelled ones struck through)
  * - Quick actions dropdown
  */
 
@@ -30,11 +39,25 @@ interface Event {
   registeredCount: number
   image: string | null
   createdAt: Date
+  isRecurring?: boolean
+  recurrenceRule?: string | null
+  exceptions?: OccurrenceException[]
   _count?: { attendees: number }
 }
 
+/**
+ * One occurrence of an event on the calendar
+ */
+interface CalendarEntry {
+  event: Event
+  occurrence: EventOccurrence
+  rule: RecurrenceRule | null // Null for one-off events
+  seats: number
+}
+
 interface EventCalendarProps {
   events: Event[]
+  occurrenceSeats?: Record<string, number> // Seats per `${eventId}:${occurrenceDate}`
   onEventClick?: (event: Event) => void
   onDateClick?: (date: Date) => void
   onEdit?: (event: Event) => void
@@ -63,8 +86,11 @@ const STATUS_BADGES: Record<string, { label: string; color: string }> = {
   ARCHIVED: { label: 'Archived', color: 'bg-gray-500/20 text-gray-600' }
 }
 
+const NO_SEATS: Record<string, number> = {}
+
 export function EventCalendar({
   events,
+  occurrenceSeats = NO_SEATS,
   onEventClick,
   onDateClick,
   onEdit,
@@ -74,28 +100,46 @@ export function EventCalendar({
   showAddButton = true
 }: EventCalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date())
-  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null)
+  const [selectedEntry, setSelectedEntry] = useState<CalendarEntry | null>(null)
+  const selectedEvent = selectedEntry?.event ?? null
 
   // Get days in current month
-  const monthStart = startOfMonth(currentMonth)
-  const monthEnd = endOfMonth(currentMonth)
+  const monthStart = useMemo(() => startOfMonth(currentMonth), [currentMonth])
+  const monthEnd = useMemo(() => endOfMonth(currentMonth), [currentMonth])
   const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd })
 
   // Get starting day of week (0 = Sunday)
   const startingDayOfWeek = monthStart.getDay()
 
-  // Group events by date
+  // Group the month's occurrences by the date they take place
   const eventsByDate = useMemo(() => {
-    const map = new Map<string, Event[]>()
+    const map = new Map<string, CalendarEntry[]>()
     events.forEach(event => {
-      const dateKey = format(new Date(event.date), 'yyyy-MM-dd')
-      if (!map.has(dateKey)) {
-        map.set(dateKey, [])
+      const schedule: EventSchedule = {
+        date: new Date(event.date),
+        time: event.time,
+        endTime: event.endTime ?? null,
+        isRecurring: event.isRecurring ?? false,
+        recurrenceRule: event.recurrenceRule ?? null
       }
-      map.get(dateKey)!.push(event)
+      const rule = getEventRule(schedule)
+
+      expandEventOccurrences(schedule, event.exceptions ?? [], monthStart, monthEnd).forEach(occurrence => {
+        const dateKey = format(occurrence.date, 'yyyy-MM-dd')
+        if (!map.has(dateKey)) {
+          map.set(dateKey, [])
+        }
+        map.get(dateKey)!.push({
+          event,
+          occurrence,
+          rule,
+          seats: rule ? occurrenceSeats[`${event.id}:${occurrence.occurrenceDate}`] ?? 0 : event.registeredCount
+        })
+      })
     })
+    map.forEach(entries => entries.sort((a, b) => a.occurrence.date.getTime() - b.occurrence.date.getTime()))
     return map
-  }, [events])
+  }, [events, occurrenceSeats, monthStart, monthEnd])
 
   const handlePrevMonth = () => setCurrentMonth(prev => subMonths(prev, 1))
   const handleNextMonth = () => setCurrentMonth(prev => addMonths(prev, 1))
@@ -208,30 +252,33 @@ export function EventCalendar({
 
                 {/* Events */}
                 <div className="space-y-1">
-                  {dayEvents.slice(0, 3).map(event => {
+                  {dayEvents.slice(0, 3).map(entry => {
+                    const { event, occurrence } = entry
                     const colors = CATEGORY_COLORS[event.category] || CATEGORY_COLORS.OTHER
-                    const attendeeCount = event._count?.attendees || event.registeredCount
-                    const isFull = event.capacity && attendeeCount >= event.capacity
+                    const attendeeCount = entry.seats
+                    const isCancelled = occurrence.status === 'CANCELLED'
+                    const isFull = !isCancelled && event.capacity && attendeeCount >= event.capacity
 
                     return (
                       <motion.div
-                        key={event.id}
+                        key={`${event.id}:${occurrence.occurrenceDate}`}
                         initial={{ scale: 0.9, opacity: 0 }}
                         animate={{ scale: 1, opacity: 1 }}
                         onClick={(e) => {
                           e.stopPropagation()
-                          setSelectedEvent(event)
+                          setSelectedEntry(entry)
                           onEventClick?.(event)
                         }}
                         className={cn(
                           'text-xs px-2 py-1 rounded border truncate',
                           colors.bg, colors.text, colors.border,
+                          isCancelled && 'opacity-50 line-through',
                           'hover:scale-105 transition-transform cursor-pointer'
                         )}
                       >
                         <div className="flex items-center justify-between gap-1">
                           <span className="truncate font-medium">
-                            {event.time} {event.title}
+                            {occurrence.time} {event.title}
                           </span>
                           {isFull && (
                             <span className="text-[10px] bg-red-500/20 text-red-400 px-1 rounded">
@@ -273,14 +320,14 @@ export function EventCalendar({
 
       {/* Event Details Modal */}
       <AnimatePresence>
-        {selectedEvent && (
+        {selectedEntry && selectedEvent && (
           <>
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
-              onClick={() => setSelectedEvent(null)}
+              onClick={() => setSelectedEntry(null)}
             />
 
             <motion.div
@@ -296,8 +343,15 @@ export function EventCalendar({
                   <div>
                     <h3 className="text-xl font-bold text-cyan-400">{selectedEvent.title}</h3>
                     <p className="text-sm text-cyan-100/60 mt-1">
-                      {format(new Date(selectedEvent.date), 'MMM d, yyyy')} at {selectedEvent.time}
+                      {format(selectedEntry.occurrence.date, 'MMM d, yyyy')} at {selectedEntry.occurrence.time}
                     </p>
+                    {selectedEntry.rule && (
+                      <p className="text-xs text-cyan-100/50 mt-1">
+                        {describeRRule(selectedEntry.rule)}
+                        {selectedEntry.occurrence.status === 'MOVED' && ` · Moved from ${format(parseISO(selectedEntry.occurrence.occurrenceDate), 'MMM d')}`}
+                        {selectedEntry.occurrence.status === 'CANCELLED' && ' · This date is cancelled'}
+                      </p>
+                    )}
                   </div>
                   <span className={cn(
                     'text-xs px-2 py-1 rounded',
@@ -309,7 +363,7 @@ export function EventCalendar({
 
                 {selectedEvent.capacity && (
                   <div className="text-sm text-cyan-100/70">
-                    Attendees: {selectedEvent._count?.attendees || selectedEvent.registeredCount}/{selectedEvent.capacity}
+                    Attendees: {selectedEntry.seats}/{selectedEvent.capacity}
                   </div>
                 )}
 
@@ -318,7 +372,7 @@ export function EventCalendar({
                     <Button
                       onClick={() => {
                         onEdit(selectedEvent)
-                        setSelectedEvent(null)
+                        setSelectedEntry(null)
                       }}
                       size="sm"
                       variant="outline"
@@ -333,7 +387,7 @@ export function EventCalendar({
                     <Button
                       onClick={() => {
                         onPublish(selectedEvent)
-                        setSelectedEvent(null)
+                        setSelectedEntry(null)
                       }}
                       size="sm"
                       className="flex-1 bg-green-500 hover:bg-green-600"
@@ -347,7 +401,7 @@ export function EventCalendar({
                     <Button
                       onClick={() => {
                         onArchive(selectedEvent)
-                        setSelectedEvent(null)
+                        setSelectedEntry(null)
                       }}
                       size="sm"
                       variant="outline"
@@ -362,7 +416,7 @@ export function EventCalendar({
                     <Button
                       onClick={() => {
                         onDelete(selectedEvent)
-                        setSelectedEvent(null)
+                        setSelectedEntry(null)
                       }}
                       size="sm"
                       variant="outline"
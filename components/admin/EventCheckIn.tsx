@@ -0,0 +1,435 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { AlertTriangle, Camera, CameraOff, CheckCircle2, CloudOff, Loader2, QrCode, RefreshCw, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { redeemEventTickets } from "@/app/actions/event-tickets"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import type { TicketScanOutcome } from "@/lib/event-tickets"
+
+interface CheckInAttendee {
+    id: string
+    name: string
+    guestCount: number
+    checkedInAt: Date | null
+}
+
+/**
+ * Scan kept on the device until the server has redeemed it
+ */
+interface ScanEntry {
+    token: string
+    scannedAt: string // ISO timestamp
+    outcome: TicketScanOutcome | "pending"
+    attendeeName?: string
+    guestCount?: number
+    amountDue?: number | null
+    checkedInAt?: string | null
+}
+
+interface EventCheckInProps {
+    eventId: string
+    eventTitle: string
+    occurrenceDate: string
+    occurrenceDates: string[]
+    attendees: CheckInAttendee[] // Seated attendees of the occurrence
+    currency: string
+}
+
+// Minimal typing for the browser's BarcodeDetector (Chrome, Android)
+interface BarcodeDetectorLike {
+    detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike
+
+const OUTCOME_LABELS: Record<ScanEntry["outcome"], string> = {
+    pending: "Saved offline, will sync when back online",
+    checked_in: "Checked in",
+    invalid: "Not a valid ticket",
+    wrong_event: "Ticket is for another event",
+    wrong_date: "Ticket is for another date",
+    not_seated: "Registration is waitlisted or cancelled",
+    already_checked_in: "Already checked in",
+}
+
+/**
+ * Scans kept per occurrence on this device
+ */
+const MAX_LOG_ENTRIES = 500
+
+/**
+ * Ignore the camera seeing the same code again within this many milliseconds
+ */
+const CAMERA_COOLDOWN_MS = 3000
+
+/**
+ * Attendee ID named by a ticket token (XT1.<attendeeId>.<signature>), read
+ * without verifying so offline scans can be shown on the roster
+ */
+function getTokenAttendeeId(token: string): string | undefined {
+    return token.split(".")[1]
+}
+
+/**
+ * Ticket check-in screen for an event occurrence
+ *
+ * Tickets are scanned with the camera, a handheld scanner or typed in.
+ * Scans are kept on the device (localStorage), so a ticket scanned twice is
+ * caught right away, even offline. Scans made offline are queued and redeemed
+ * when the connection is back; the server catches tickets redeemed on other
+ * devices meanwhile.
+ */
+export function EventCheckIn({ eventId, eventTitle, occurrenceDate, occurrenceDates, attendees, currency }: EventCheckInProps) {
+    const router = useRouter()
+    const pathname = usePathname()
+    const storageKey = `event-check-in:${eventId}:${occurrenceDate}`
+
+    const [log, setLog] = useState<ScanEntry[]>([])
+    const [loadedKey, setLoadedKey] = useState<string | null>(null)
+    const [current, setCurrent] = useState<{ token: string; repeated: boolean } | null>(null)
+    const [input, setInput] = useState("")
+    const [isOnline, setIsOnline] = useState(true)
+    const [isSyncing, setIsSyncing] = useState(false)
+    const [cameraSupported, setCameraSupported] = useState(false)
+    const [cameraOn, setCameraOn] = useState(false)
+    const videoRef = useRef<HTMLVideoElement>(null)
+    const logRef = useRef(log)
+    logRef.current = log
+    const syncingRef = useRef(false)
+
+    // Load this occurrence's scans from the device
+    useEffect(() => {
+        try {
+            const stored = localStorage.getItem(storageKey)
+            setLog(stored ? JSON.parse(stored) : [])
+        } catch {
+            setLog([])
+        }
+        setLoadedKey(storageKey)
+        setIsOnline(navigator.onLine)
+        setCameraSupported("BarcodeDetector" in window)
+    }, [storageKey])
+
+    useEffect(() => {
+        if (loadedKey === storageKey) {
+            localStorage.setItem(storageKey, JSON.stringify(log.slice(0, MAX_LOG_ENTRIES)))
+        }
+    }, [log, loadedKey, storageKey])
+
+    // Redeem queued scans. One sync runs at a time and picks up scans made meanwhile.
+    const sync = useCallback(async () => {
+        if (syncingRef.current) return
+
+        const attempted = new Set<string>()
+        try {
+            syncingRef.current = true
+            setIsSyncing(true)
+
+            for (;;) {
+                const pending = logRef.current.filter(entry => entry.outcome === "pending" && !attempted.has(entry.token))
+                if (pending.length === 0) break
+                pending.forEach(entry => attempted.add(entry.token))
+
+                const result = await redeemEventTickets({
+                    eventId,
+                    occurrenceDate,
+                    scans: pending.map(entry => ({ token: entry.token, scannedAt: new Date(entry.scannedAt) })),
+                })
+
+                if (!result.success) {
+                    toast.error(result.error || "Failed to check in")
+                    break
+                }
+
+                const results = new Map(result.results.map(scan => [scan.token, scan]))
+                const next = logRef.current.map(entry => {
+                    const scan = entry.outcome === "pending" ? results.get(entry.token) : undefined
+                    return scan
+                        ? {
+                            ...entry,
+                            outcome: scan.outcome,
+                            attendeeName: scan.attendeeName,
+                            guestCount: scan.guestCount,
+                            amountDue: scan.amountDue,
+                            checkedInAt: scan.checkedInAt ? new Date(scan.checkedInAt).toISOString() : null,
+                        }
+                        : entry
+                })
+                logRef.current = next
+                setLog(next)
+            }
+
+            if (attempted.size > 0) {
+                router.refresh()
+            }
+        } catch {
+            // Keep the scans queued; they are retried when the connection is back
+            toast.error("Connection lost. Scans are saved and will sync")
+        } finally {
+            syncingRef.current = false
+            setIsSyncing(false)
+        }
+    }, [eventId, occurrenceDate, router])
+
+    // Sync queued scans on load and whenever the connection comes back
+    useEffect(() => {
+        const goOnline = () => setIsOnline(true)
+        const goOffline = () => setIsOnline(false)
+        window.addEventListener("online", goOnline)
+        window.addEventListener("offline", goOffline)
+        return () => {
+            window.removeEventListener("online", goOnline)
+            window.removeEventListener("offline", goOffline)
+        }
+    }, [])
+
+    useEffect(() => {
+        if (isOnline && loadedKey === storageKey) {
+            sync()
+        }
+    }, [isOnline, loadedKey, storageKey, sync])
+
+    const handleScan = (raw: string) => {
+        const token = raw.trim()
+        if (!token) return
+
+        // Redeemed (or queued) on this device before: answer without asking the server
+        const previous = logRef.current.find(entry => entry.token === token)
+        if (previous && ["pending", "checked_in", "already_checked_in"].includes(previous.outcome)) {
+            setCurrent({ token, repeated: true })
+            return
+        }
+
+        const entry: ScanEntry = { token, scannedAt: new Date().toISOString(), outcome: "pending" }
+        const next = [entry, ...logRef.current.filter(e => e.token !== token)]
+        logRef.current = next
+        setLog(next)
+        setCurrent({ token, repeated: false })
+
+        if (navigator.onLine) {
+            sync()
+        }
+    }
+
+    const handleScanRef = useRef(handleScan)
+    handleScanRef.current = handleScan
+
+    // Camera scanning, where the browser can detect QR codes
+    useEffect(() => {
+        if (!cameraOn) return
+
+        const Detector = (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor }).BarcodeDetector
+        const detector = new Detector({ formats: ["qr_code"] })
+        const lastDetected = { value: "", at: 0 }
+        let stream: MediaStream | null = null
+        let timer: number | undefined
+        let stopped = false
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+            .then(mediaStream => {
+                if (stopped || !videoRef.current) {
+                    mediaStream.getTracks().forEach(track => track.stop())
+                    return
+                }
+
+                stream = mediaStream
+                const video = videoRef.current
+                video.srcObject = mediaStream
+                video.play()
+
+                timer = window.setInterval(async () => {
+                    try {
+                        const [code] = await detector.detect(video)
+                        const now = Date.now()
+                        if (code && (code.rawValue !== lastDetected.value || now - lastDetected.at > CAMERA_COOLDOWN_MS)) {
+                            lastDetected.value = code.rawValue
+                            lastDetected.at = now
+                            handleScanRef.current(code.rawValue)
+                        }
+                    } catch {
+                        // Frame not ready yet
+                    }
+                }, 400)
+            })
+            .catch(() => {
+                toast.error("Camera is not available")
+                setCameraOn(false)
+            })
+
+        return () => {
+            stopped = true
+            window.clearInterval(timer)
+            stream?.getTracks().forEach(track => track.stop())
+        }
+    }, [cameraOn])
+
+    const currentEntry = current ? log.find(entry => entry.token === current.token) : undefined
+    const pendingCount = log.filter(entry => entry.outcome === "pending").length
+    const pendingIds = new Set(
+        log.filter(entry => entry.outcome === "pending").map(entry => getTokenAttendeeId(entry.token))
+    )
+
+    const seatedGuests = attendees.reduce((sum, attendee) => sum + attendee.guestCount, 0)
+    const checkedInGuests = attendees
+        .filter(attendee => attendee.checkedInAt)
+        .reduce((sum, attendee) => sum + attendee.guestCount, 0)
+
+    const isSuccess = currentEntry?.outcome === "checked_in" && !current?.repeated
+    const isPending = currentEntry?.outcome === "pending" && !current?.repeated
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="flex items-center gap-2 text-2xl font-bold text-cyan-400">
+                        <QrCode className="w-6 h-6" />
+                        Check-in
+                    </h1>
+                    <p className="text-cyan-100/60">{eventTitle}</p>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    {!isOnline && (
+                        <span className="flex items-center gap-1 text-sm text-yellow-400">
+                            <CloudOff className="w-4 h-4" />
+                            Offline
+                        </span>
+                    )}
+                    {pendingCount > 0 && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isSyncing || !isOnline}
+                            onClick={() => sync()}
+                            className="border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+                        >
+                            {isSyncing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                            Sync {pendingCount}
+                        </Button>
+                    )}
+                    {occurrenceDates.length > 1 && (
+                        <Select value={occurrenceDate} onValueChange={(date) => router.push(`${pathname}?date=${date}`)}>
+                            <SelectTrigger className="w-56 bg-black/40 border-cyan-400/30 text-white">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {occurrenceDates.map(date => (
+                                    <SelectItem key={date} value={date}>
+                                        {format(parseISO(date), "EEE, MMM d, yyyy")}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-4">
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault()
+                            handleScan(input)
+                            setInput("")
+                        }}
+                        className="flex gap-2"
+                    >
+                        <Input
+                            autoFocus
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            placeholder="Scan or type a ticket code"
+                            className="bg-black/40 border-cyan-400/30 text-white font-mono"
+                        />
+                        <Button type="submit" className="bg-cyan-500 hover:bg-cyan-600 text-black">
+                            Check in
+                        </Button>
+                    </form>
+
+                    {cameraSupported && (
+                        <Button
+                            variant="outline"
+                            onClick={() => setCameraOn(on => !on)}
+                            className="w-full border-cyan-400/30 text-cyan-400 hover:bg-cyan-400/10"
+                        >
+                            {cameraOn ? <CameraOff className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+                            {cameraOn ? "Stop camera" : "Scan with camera"}
+                        </Button>
+                    )}
+                    {cameraOn && (
+                        <video ref={videoRef} muted playsInline className="w-full rounded-lg border border-cyan-400/20" />
+                    )}
+
+                    {currentEntry && (
+                        <div className={cn(
+                            "p-4 rounded-lg border",
+                            isSuccess && "bg-green-500/10 border-green-400/40",
+                            isPending && "bg-yellow-500/10 border-yellow-400/40",
+                            !isSuccess && !isPending && "bg-red-500/10 border-red-400/40"
+                        )}>
+                            <p className={cn(
+                                "flex items-center gap-2 text-lg font-semibold",
+                                isSuccess ? "text-green-400" : isPending ? "text-yellow-400" : "text-red-400"
+                            )}>
+                                {isSuccess ? <CheckCircle2 className="w-5 h-5" /> : isPending ? <CloudOff className="w-5 h-5" /> : current?.repeated ? <AlertTriangle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+                                {current?.repeated
+                                    ? `Already scanned at ${format(new Date(currentEntry.checkedInAt ?? currentEntry.scannedAt), "HH:mm")}`
+                                    : OUTCOME_LABELS[currentEntry.outcome]}
+                                {currentEntry.outcome === "already_checked_in" && !current?.repeated && currentEntry.checkedInAt &&
+                                    ` at ${format(new Date(currentEntry.checkedInAt), "HH:mm")}`}
+                            </p>
+                            {currentEntry.attendeeName && (
+                                <p className="text-white mt-1">
+                                    {currentEntry.attendeeName} · {currentEntry.guestCount} guest{currentEntry.guestCount === 1 ? "" : "s"}
+                                </p>
+                            )}
+                            {isSuccess && currentEntry.amountDue && (
+                                <p className="text-yellow-300 mt-1 font-semibold">
+                                    Collect {currentEntry.amountDue} {currency}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+                    <h2 className="text-lg font-semibold text-cyan-300 mb-4">
+                        Arrived: {checkedInGuests}/{seatedGuests} guests
+                    </h2>
+                    {attendees.length === 0 ? (
+                        <p className="py-6 text-center text-white/60">No one has registered for this date</p>
+                    ) : (
+                        <div className="max-h-[28rem] overflow-y-auto divide-y divide-cyan-400/10">
+                            {attendees.map(attendee => (
+                                <div key={attendee.id} className="flex items-center justify-between py-2 text-sm">
+                                    <span className="text-white">
+                                        {attendee.name}
+                                        <span className="ml-2 text-cyan-100/50">×{attendee.guestCount}</span>
+                                    </span>
+                                    {attendee.checkedInAt ? (
+                                        <span className="text-green-400">{format(new Date(attendee.checkedInAt), "HH:mm")}</span>
+                                    ) : pendingIds.has(attendee.id) ? (
+                                        <span className="text-yellow-400">Pending sync</span>
+                                    ) : (
+                                        <span className="text-cyan-100/30">—</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
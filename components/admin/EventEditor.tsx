@@ -24,13 +24,19 @@ import {
     SelectValue,
 } from "@/components/ui/select"
 import { ImageUpload } from "@/components/admin/ImageUpload"
-import { Loader2, Save, ArrowLeft, Calendar as CalendarIcon, Clock } from "lucide-react"
+import { Loader2, Save, ArrowLeft, Calendar as CalendarIcon, Clock, Mail } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 import { format } from "date-fns"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+    DEFAULT_EVENT_EMAIL_TEMPLATES,
+    EVENT_EMAIL_KINDS,
+    EVENT_EMAIL_LABELS,
+    EVENT_EMAIL_PLACEHOLDERS,
+} from "@/lib/event-emails"
 
 interface EventEditorProps {
     initialData?: any
@@ -53,6 +59,11 @@ export function EventEditor({ initialData, onSubmit, isEditing = false }: EventE
             category: initialData?.category || "",
             image: initialData?.image || "",
             status: initialData?.status || "DRAFT",
+            emailTemplates: Object.fromEntries(EVENT_EMAIL_KINDS.map(kind => [kind, {
+                subject: initialData?.emailTemplates?.[kind]?.subject || "",
+                body: initialData?.emailTemplates?.[kind]?.body || "",
+            }])),
+            feedbackUrl: initialData?.feedbackUrl || "",
         },
     })
 
@@ -179,6 +190,81 @@ export function EventEditor({ initialData, onSubmit, isEditing = false }: EventE
                                 )}
                             />
                         </div>
+
+                        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-6">
+                            <div>
+                                <h2 className="flex items-center gap-2 text-lg font-semibold text-cyan-300">
+                                    <Mail className="w-5 h-5" />
+                                    Attendee Emails
+                                </h2>
+                                <p className="text-sm text-cyan-100/40 mt-1">
+                                    Sent to every registered attendee. Leave a field empty to use the default shown.
+                                    Available placeholders: {EVENT_EMAIL_PLACEHOLDERS.map(p => `{${p}}`).join(", ")}
+                                </p>
+                            </div>
+
+                            {EVENT_EMAIL_KINDS.map(kind => (
+                                <div key={kind} className="space-y-3">
+                                    <h3 className="text-sm font-medium text-cyan-300">{EVENT_EMAIL_LABELS[kind]}</h3>
+                                    <FormField
+                                        control={form.control}
+                                        name={`emailTemplates.${kind}.subject`}
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormControl>
+                                                    <Input
+                                                        {...field}
+                                                        value={field.value || ""}
+                                                        placeholder={DEFAULT_EVENT_EMAIL_TEMPLATES[kind].subject}
+                                                        className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                                    />
+                                                </FormControl>
+                                                <FormMessage className="text-red-400" />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name={`emailTemplates.${kind}.body`}
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormControl>
+                                                    <Textarea
+                                                        {...field}
+                                                        value={field.value || ""}
+                                                        placeholder={DEFAULT_EVENT_EMAIL_TEMPLATES[kind].body}
+                                                        className="min-h-[80px] bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                                    />
+                                                </FormControl>
+                                                <FormMessage className="text-red-400" />
+                                            </FormItem>
+                                        )}
+                                    />
+                                </div>
+                            ))}
+
+                            <FormField
+                                control={form.control}
+                                name="feedbackUrl"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel className="text-cyan-300">Feedback Link (Optional)</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                {...field}
+                                                value={field.value || ""}
+                                                placeholder="e.g. https://forms.example.com/feedback"
+                                                className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                            />
+                                        </FormControl>
+                                        <FormDescription className="text-cyan-100/40">
+                                            Linked from the thank-you email. Without one, it links to the contact email address.
+                                        </FormDescription>
+                                        <FormMessage className="text-red-400" />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
                     </div>
 
                     {/* Sidebar */}
@@ -2,11 +2,12 @@
 
 import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { Save, X, Calendar, Clock, MapPin, Users, DollarSign, Tag } from 'lucide-react'
+import { Save, X, Calendar, Clock, MapPin, Users, DollarSign, Tag, Repeat } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
 import {
   Select,
   SelectContent,
@@ -18,6 +19,16 @@ import { toast } from 'sonner'
 import { createEvent, updateEvent } from '@/app/actions/events'
 import { type CreateEventInput } from '@/lib/validations/events'
 import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import {
+  WEEKDAYS,
+  describeRRule,
+  formatRRule,
+  parseRRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday
+} from '@/lib/recurrence'
 
 /**
  * EventForm Component
@@ -28,6 +39,7 @@ import { format } from 'date-fns'
  * - Capacity and pricing
  * - Tags and location
  * - Status management
+ * - Recurrence (repeat daily/weekly/monthly, ending never, after N times or on a date)
  */
 
 interface EventFormProps {
@@ -68,6 +80,21 @@ const EVENT_THEMES = [
   { value: 'DEFAULT', label: '🎉 Default (Party)' }
 ] as const
 
+type RecurrenceEnd = 'never' | 'count' | 'until'
+
+/**
+ * Parse the stored rule of an event, ignoring malformed rules
+ */
+function parseEventRule(value?: string | null): RecurrenceRule | null {
+  if (!value) return null
+
+  try {
+    return parseRRule(value)
+  } catch {
+    return null
+  }
+}
+
 export function EventForm({ event, onSuccess, onCancel }: EventFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [formData, setFormData] = useState({
@@ -86,10 +113,29 @@ export function EventForm({ event, onSuccess, onCancel }: EventFormProps) {
     location: event?.location || '',
     image: event?.image || '',
     tags: event?.tags?.join(', ') || '',
-    isRecurring: event?.isRecurring || false,
-    recurrenceRule: event?.recurrenceRule || ''
+    isRecurring: event?.isRecurring || false
   })
 
+  const initialRule = parseEventRule(event?.recurrenceRule)
+  const [freq, setFreq] = useState<RecurrenceFrequency>(initialRule?.freq ?? 'WEEKLY')
+  const [repeatInterval, setRepeatInterval] = useState(initialRule?.interval ?? 1)
+  const [byDay, setByDay] = useState<Weekday[]>(initialRule?.byDay ?? [])
+  const [ends, setEnds] = useState<RecurrenceEnd>(initialRule?.count ? 'count' : initialRule?.until ? 'until' : 'never')
+  const [count, setCount] = useState(initialRule?.count ?? 10)
+  const [until, setUntil] = useState(initialRule?.until ? format(initialRule.until, 'yyyy-MM-dd') : '')
+
+  const recurrenceRule: RecurrenceRule = {
+    freq,
+    interval: repeatInterval,
+    byDay: freq === 'WEEKLY' ? byDay : undefined,
+    count: ends === 'count' ? count : undefined,
+    until: ends === 'until' && until ? new Date(`${until}T00:00:00`) : undefined
+  }
+
+  const toggleDay = (day: Weekday) => {
+    setByDay(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]))
+  }
+
   // Auto-generate slug from title
   const handleTitleChange = (title: string) => {
     setFormData(prev => ({
@@ -123,7 +169,7 @@ export function EventForm({ event, onSuccess, onCancel }: EventFormProps) {
         image: formData.image || null,
         tags: formData.tags ? formData.tags.split(',').map((t: string) => t.trim()).filter(Boolean) : [],
         isRecurring: formData.isRecurring,
-        recurrenceRule: formData.recurrenceRule || null
+        recurrenceRule: formData.isRecurring ? formatRRule(recurrenceRule) : null
       }
 
       const result = event
@@ -245,6 +291,123 @@ export function EventForm({ event, onSuccess, onCancel }: EventFormProps) {
         </div>
       </div>
 
+      {/* Recurrence */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="isRecurring"
+            checked={formData.isRecurring}
+            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isRecurring: checked }))}
+          />
+          <Label htmlFor="isRecurring" className="text-cyan-400 flex items-center gap-2">
+            <Repeat className="w-4 h-4" />
+            Repeats
+          </Label>
+        </div>
+
+        {formData.isRecurring && (
+          <div className="space-y-3 p-4 rounded-lg border border-cyan-400/20 bg-black/10">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-cyan-400">Frequency</Label>
+                <Select value={freq} onValueChange={(value) => setFreq(value as RecurrenceFrequency)}>
+                  <SelectTrigger className="bg-black/20 border-cyan-400/30 text-cyan-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DAILY">Daily</SelectItem>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="repeatInterval" className="text-cyan-400">Every</Label>
+                <Input
+                  id="repeatInterval"
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={repeatInterval}
+                  onChange={(e) => setRepeatInterval(Math.max(1, Number(e.target.value)))}
+                  className="bg-black/20 border-cyan-400/30 text-cyan-100"
+                />
+              </div>
+            </div>
+
+            {freq === 'WEEKLY' && (
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={cn(
+                      'px-2 py-1 rounded text-xs border',
+                      byDay.includes(day)
+                        ? 'bg-cyan-400/20 border-cyan-400 text-cyan-300'
+                        : 'border-cyan-400/20 text-cyan-100/50'
+                    )}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-cyan-400">Ends</Label>
+                <Select value={ends} onValueChange={(value) => setEnds(value as RecurrenceEnd)}>
+                  <SelectTrigger className="bg-black/20 border-cyan-400/30 text-cyan-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="count">After a number of times</SelectItem>
+                    <SelectItem value="until">On a date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {ends === 'count' && (
+                <div className="space-y-2">
+                  <Label htmlFor="recurrenceCount" className="text-cyan-400">Times (including the first)</Label>
+                  <Input
+                    id="recurrenceCount"
+                    type="number"
+                    min={2}
+                    value={count}
+                    onChange={(e) => setCount(Math.max(2, Number(e.target.value)))}
+                    className="bg-black/20 border-cyan-400/30 text-cyan-100"
+                  />
+                </div>
+              )}
+
+              {ends === 'until' && (
+                <div className="space-y-2">
+                  <Label htmlFor="recurrenceUntil" className="text-cyan-400">Last date</Label>
+                  <Input
+                    id="recurrenceUntil"
+                    type="date"
+                    min={formData.date}
+                    value={until}
+                    onChange={(e) => setUntil(e.target.value)}
+                    required
+                    className="bg-black/20 border-cyan-400/30 text-cyan-100"
+                  />
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-cyan-100/60">
+              {describeRRule(recurrenceRule)}. Single dates can be cancelled or moved on the event page.
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* Category & Status */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
@@ -0,0 +1,230 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { addDays, format, parseISO, startOfDay } from "date-fns"
+import { CalendarX, Loader2, MoveRight, Repeat, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+import { clearEventOccurrenceException, setEventOccurrenceException } from "@/app/actions/events"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { getSeatsTaken } from "@/lib/event-capacity"
+import {
+    OCCURRENCE_WINDOW_DAYS,
+    expandEventOccurrences,
+    getEventRule,
+    type EventOccurrence,
+    type EventSchedule,
+    type OccurrenceException
+} from "@/lib/event-occurrences"
+import { describeRRule } from "@/lib/recurrence"
+import { cn } from "@/lib/utils"
+import type { RSVPStatus } from "@prisma/client"
+
+/**
+ * Number of upcoming occurrences listed
+ */
+const UPCOMING_LIMIT = 12
+
+interface EventOccurrencesProps {
+    eventId: string
+    schedule: EventSchedule
+    exceptions: OccurrenceException[]
+    attendees: { occurrenceDate: string; status: RSVPStatus; guestCount: number }[]
+    capacity: number | null
+}
+
+/**
+ * Upcoming occurrences of a recurring event with their seats, and controls
+ * to cancel, move or restore single dates
+ */
+export function EventOccurrences({ eventId, schedule, exceptions, attendees, capacity }: EventOccurrencesProps) {
+    const router = useRouter()
+    const [pendingDate, setPendingDate] = useState<string | null>(null)
+    const [moving, setMoving] = useState<{ occurrenceDate: string; date: string; time: string } | null>(null)
+
+    const rule = getEventRule(schedule)
+    if (!rule) {
+        return null
+    }
+
+    const today = startOfDay(new Date())
+    const occurrences = expandEventOccurrences(schedule, exceptions, today, addDays(today, OCCURRENCE_WINDOW_DAYS))
+        .slice(0, UPCOMING_LIMIT)
+
+    const runAction = async (
+        occurrenceDate: string,
+        action: () => Promise<{ success: boolean; error?: string; message?: string }>
+    ) => {
+        try {
+            setPendingDate(occurrenceDate)
+            const result = await action()
+
+            if (result.success) {
+                toast.success(result.message)
+                setMoving(null)
+                router.refresh()
+            } else {
+                toast.error(result.error || "Something went wrong")
+            }
+        } catch {
+            toast.error("An error occurred")
+        } finally {
+            setPendingDate(null)
+        }
+    }
+
+    const handleCancel = (occurrence: EventOccurrence) => {
+        const note = prompt("Cancel this date? Its registrations and waitlist are cancelled too.\nReason (optional):")
+        if (note === null) return
+
+        runAction(occurrence.occurrenceDate, () => setEventOccurrenceException(eventId, {
+            occurrenceDate: occurrence.occurrenceDate,
+            kind: "CANCELLED",
+            note: note || null,
+        }))
+    }
+
+    const handleMove = () => {
+        if (!moving) return
+
+        runAction(moving.occurrenceDate, () => setEventOccurrenceException(eventId, {
+            occurrenceDate: moving.occurrenceDate,
+            kind: "MOVED",
+            movedDate: parseISO(moving.date),
+            movedTime: moving.time,
+        }))
+    }
+
+    return (
+        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-cyan-300">
+                <Repeat className="w-5 h-5" />
+                Upcoming Dates
+            </h2>
+            <p className="text-sm text-cyan-100/50 mb-4">{describeRRule(rule)}</p>
+
+            {occurrences.length === 0 ? (
+                <p className="py-6 text-center text-white/60">No upcoming dates</p>
+            ) : (
+                <div className="space-y-2">
+                    {occurrences.map(occurrence => {
+                        const seats = getSeatsTaken(attendees.filter(a => a.occurrenceDate === occurrence.occurrenceDate))
+                        const isCancelled = occurrence.status === "CANCELLED"
+                        const isPending = pendingDate === occurrence.occurrenceDate
+
+                        return (
+                            <div
+                                key={occurrence.occurrenceDate}
+                                className="px-4 py-3 rounded-lg border border-cyan-400/10 hover:bg-cyan-400/5 transition-colors"
+                            >
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className={cn("text-white", isCancelled && "line-through text-white/40")}>
+                                        {format(occurrence.date, "EEE, MMM d, yyyy")} {occurrence.time}
+                                    </span>
+                                    {occurrence.status === "MOVED" && (
+                                        <span className="text-xs px-2 py-0.5 rounded bg-yellow-400/20 text-yellow-400">
+                                            Moved from {format(parseISO(occurrence.occurrenceDate), "MMM d")}
+                                        </span>
+                                    )}
+                                    {isCancelled && (
+                                        <span className="text-xs px-2 py-0.5 rounded bg-red-400/20 text-red-400">Cancelled</span>
+                                    )}
+                                    {!isCancelled && (
+                                        <span className="text-sm text-cyan-100/50">
+                                            {seats}{capacity ? `/${capacity}` : ""} seats
+                                        </span>
+                                    )}
+
+                                    <div className="ml-auto flex gap-1">
+                                        {occurrence.status === "SCHEDULED" ? (
+                                            <>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    disabled={pendingDate !== null}
+                                                    onClick={() => setMoving({
+                                                        occurrenceDate: occurrence.occurrenceDate,
+                                                        date: occurrence.occurrenceDate,
+                                                        time: occurrence.time,
+                                                    })}
+                                                    className="text-cyan-400 hover:text-cyan-300 hover:bg-cyan-400/10"
+                                                >
+                                                    <MoveRight className="w-4 h-4 mr-1" />
+                                                    Move
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    disabled={pendingDate !== null}
+                                                    onClick={() => handleCancel(occurrence)}
+                                                    className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+                                                >
+                                                    {isPending
+                                                        ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                                        : <CalendarX className="w-4 h-4 mr-1" />}
+                                                    Cancel
+                                                </Button>
+                                            </>
+                                        ) : (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                disabled={pendingDate !== null}
+                                                onClick={() => runAction(occurrence.occurrenceDate, () => clearEventOccurrenceException(eventId, occurrence.occurrenceDate))}
+                                                className="text-green-400 hover:text-green-300 hover:bg-green-400/10"
+                                            >
+                                                {isPending
+                                                    ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                                    : <RotateCcw className="w-4 h-4 mr-1" />}
+                                                Restore
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {occurrence.note && (
+                                    <p className="text-xs text-cyan-100/50 mt-1">{occurrence.note}</p>
+                                )}
+
+                                {moving?.occurrenceDate === occurrence.occurrenceDate && (
+                                    <div className="flex flex-wrap items-center gap-2 mt-3">
+                                        <Input
+                                            type="date"
+                                            value={moving.date}
+                                            onChange={(e) => setMoving({ ...moving, date: e.target.value })}
+                                            className="w-auto bg-black/40 border-cyan-400/30 text-white"
+                                        />
+                                        <Input
+                                            type="time"
+                                            value={moving.time}
+                                            onChange={(e) => setMoving({ ...moving, time: e.target.value })}
+                                            className="w-auto bg-black/40 border-cyan-400/30 text-white"
+                                        />
+                                        <Button
+                                            size="sm"
+                                            disabled={pendingDate !== null || !moving.date}
+                                            onClick={handleMove}
+                                            className="bg-cyan-500 hover:bg-cyan-600 text-black"
+                                        >
+                                            {isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                                            Save
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => setMoving(null)}
+                                            className="text-cyan-100/60 hover:bg-cyan-400/10"
+                                        >
+                                            Keep date
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
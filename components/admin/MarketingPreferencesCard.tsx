@@ -1,17 +1,34 @@
 "use client"
 
 import { useState } from "react"
+import { format } from "date-fns"
 import { Mail, MessageSquare, Phone } from "lucide-react"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
 import { updateMarketingPreferences } from "@/app/actions/loyalty"
 
+interface ConsentChange {
+  id: string
+  channel: "EMAIL" | "SMS"
+  optedIn: boolean
+  source: "ADMIN" | "PREFERENCE_CENTER" | "ONE_CLICK_UNSUBSCRIBE" | "SMS_KEYWORD"
+  createdAt: Date
+}
+
 interface MarketingPreferencesCardProps {
   userId: string
   marketingOptIn: boolean
   smsOptIn: boolean
   preferredContactMethod: string
+  consentHistory: ConsentChange[]
+}
+
+const CONSENT_SOURCE_LABELS: Record<ConsentChange["source"], string> = {
+  ADMIN: "by admin",
+  PREFERENCE_CENTER: "in preference center",
+  ONE_CLICK_UNSUBSCRIBE: "via one-click unsubscribe",
+  SMS_KEYWORD: "by text reply",
 }
 
 export function MarketingPreferencesCard({
@@ -19,6 +36,7 @@ export function MarketingPreferencesCard({
   marketingOptIn,
   smsOptIn,
   preferredContactMethod,
+  consentHistory,
 }: MarketingPreferencesCardProps) {
   const [emailOptIn, setEmailOptIn] = useState(marketingOptIn)
   const [smsOptInState, setSmsOptInState] = useState(smsOptIn)
@@ -147,9 +165,31 @@ export function MarketingPreferencesCard({
           </div>
         </div>
 
+        {/* Consent History */}
+        <div className="pt-4 border-t border-cyan-400/10">
+          <div className="text-xs font-medium text-cyan-100/60 mb-2">CONSENT HISTORY</div>
+          {consentHistory.length === 0 ? (
+            <p className="text-sm text-cyan-100/40">No changes recorded</p>
+          ) : (
+            <div className="space-y-1">
+              {consentHistory.map((change) => (
+                <div key={change.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-cyan-100/70">
+                    {change.optedIn ? "Opted in to" : "Opted out of"} {change.channel === "EMAIL" ? "email" : "SMS"}{" "}
+                    <span className="text-cyan-100/40">{CONSENT_SOURCE_LABELS[change.source]}</span>
+                  </span>
+                  <span className="text-xs text-cyan-100/40 whitespace-nowrap">
+                    {format(new Date(change.createdAt), "MMM d, yyyy")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* GDPR Compliance Note */}
         <div className="text-xs text-cyan-100/40 italic pt-4 border-t border-cyan-400/10">
-          Note: Customer can update these preferences from their account settings.
+          Note: Customers can update these preferences from the link in every campaign email.
           Always respect opt-out preferences when sending marketing communications.
         </div>
       </div>
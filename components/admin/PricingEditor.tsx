@@ -53,6 +53,10 @@ export function PricingEditor({ packageId, initialData, isEditing = false }: Pri
             features: initialData?.features || [],
             description: initialData?.description || "",
             status: initialData?.status || "PUBLISHED",
+            priceAmount: initialData?.priceAmount ?? undefined,
+            priceCurrency: initialData?.priceCurrency || "RSD",
+            code: initialData?.code || undefined,
+            unit: initialData?.unit || "FLAT",
         },
     })
 
@@ -256,6 +260,83 @@ export function PricingEditor({ packageId, initialData, isEditing = false }: Pri
                                 </FormDescription>
                             </div>
                         </div>
+
+                        {/* Booking price list */}
+                        <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-6">
+                            <div>
+                                <h3 className="text-lg font-semibold text-cyan-300">Booking Price</h3>
+                                <p className="text-sm text-cyan-100/40">
+                                    Packages with a price code are used to calculate booking quotes and are hidden from the public pricing list
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="priceAmount"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel className="text-cyan-300">Amount</FormLabel>
+                                            <FormControl>
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    value={field.value ?? ""}
+                                                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                                                    placeholder="e.g. 5000"
+                                                    className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                                />
+                                            </FormControl>
+                                            <FormMessage className="text-red-400" />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="code"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel className="text-cyan-300">Price Code</FormLabel>
+                                            <FormControl>
+                                                <Input
+                                                    value={field.value ?? ""}
+                                                    onChange={(e) => field.onChange(e.target.value.trim() === "" ? undefined : e.target.value.trim())}
+                                                    placeholder="e.g. room:sensory-room"
+                                                    className="bg-black/40 border-cyan-400/30 text-white focus:border-cyan-400"
+                                                />
+                                            </FormControl>
+                                            <FormMessage className="text-red-400" />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="unit"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel className="text-cyan-300">Charged</FormLabel>
+                                            <Select
+                                                onValueChange={field.onChange}
+                                                defaultValue={field.value}
+                                            >
+                                                <FormControl>
+                                                    <SelectTrigger className="bg-black/40 border-cyan-400/30 text-white">
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                    <SelectItem value="FLAT">Once per booking</SelectItem>
+                                                    <SelectItem value="PER_GUEST">Per guest</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            <FormMessage className="text-red-400" />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+                        </div>
                     </div>
 
                     {/* Sidebar */}
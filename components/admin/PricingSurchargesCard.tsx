@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarDays, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { updatePricingSurcharges } from "@/app/actions/settings"
+import type { SurchargeRules } from "@/lib/pricing"
+
+interface PricingSurchargesCardProps {
+  surcharges: SurchargeRules
+}
+
+/**
+ * Weekend and holiday surcharges applied to booking quotes
+ */
+export function PricingSurchargesCard({ surcharges }: PricingSurchargesCardProps) {
+  const [weekendPercent, setWeekendPercent] = useState(surcharges.weekendPercent.toString())
+  const [holidayPercent, setHolidayPercent] = useState(surcharges.holidayPercent.toString())
+  const [holidays, setHolidays] = useState(surcharges.holidays.join("\n"))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await updatePricingSurcharges({
+        weekendPercent: Number(weekendPercent),
+        holidayPercent: Number(holidayPercent),
+        holidays: holidays.split(/[\s,]+/).filter(Boolean),
+      })
+
+      if (result.success && result.surcharges) {
+        toast.success(result.message)
+        setHolidays(result.surcharges.holidays.join("\n"))
+      } else {
+        toast.error(result.error || "Failed to update surcharges")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-3 rounded-lg bg-cyan-400/20">
+          <CalendarDays className="w-6 h-6 text-cyan-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-cyan-300">Booking Surcharges</h2>
+          <p className="text-sm text-cyan-100/60">
+            Added to booking quotes on weekends and holidays. Only the higher surcharge applies.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="text-xs text-cyan-100/50 mb-1 block">Weekend (%)</label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={weekendPercent}
+            onChange={(e) => setWeekendPercent(e.target.value)}
+            className="bg-black/40 border-cyan-400/30 text-white"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-cyan-100/50 mb-1 block">Holiday (%)</label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={holidayPercent}
+            onChange={(e) => setHolidayPercent(e.target.value)}
+            className="bg-black/40 border-cyan-400/30 text-white"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-cyan-100/50 mb-1 block">Holidays (MM-DD every year, or YYYY-MM-DD)</label>
+          <Textarea
+            rows={3}
+            value={holidays}
+            onChange={(e) => setHolidays(e.target.value)}
+            placeholder={"01-01\n2026-04-12"}
+            className="bg-black/40 border-cyan-400/30 text-white"
+          />
+        </div>
+      </div>
+
+      <Button
+        onClick={handleSave}
+        disabled={isSaving}
+        size="sm"
+        className="bg-green-400/20 text-green-300 border-green-400/30 hover:bg-green-400/30"
+      >
+        <Save className="w-4 h-4 mr-2" />
+        {isSaving ? "Saving..." : "Save"}
+      </Button>
+    </div>
+  )
+}
@@ -2,7 +2,8 @@
 
 import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { Save, RotateCcw, Building, Mail, Clock, Share2, Bell, Zap, Shield } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { Save, RotateCcw, Building, Mail, Clock, Share2, Bell, Zap, Shield, ShieldCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -10,7 +11,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Switch } from '@/components/ui/switch'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { toast } from 'sonner'
-import type { Setting } from '@/app/actions/settings'
+import { updateRequireAdminTwoFactor, type Setting } from '@/app/actions/settings'
 import { cn } from '@/lib/utils'
 
 interface SettingsEditorProps {
@@ -35,9 +36,15 @@ export const SettingsEditor = ({ settings, onSave }: SettingsEditorProps) => {
     initialState[setting.key] = setting.value
   })
 
+  const { data: session } = useSession()
   const [formData, setFormData] = useState<SettingsState>(initialState)
   const [isSaving, setIsSaving] = useState(false)
   const [hasChanges, setHasChanges] = useState(false)
+  const [requireAdminTwoFactor, setRequireAdminTwoFactor] = useState<boolean>(
+    Boolean(initialState['security.requireAdminTwoFactor']?.enabled)
+  )
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false)
+  const isSuperAdmin = session?.user?.role === 'SUPER_ADMIN'
 
   // Update a specific setting
   const updateSetting = (key: string, value: any) => {
@@ -61,11 +68,14 @@ export const SettingsEditor = ({ settings, onSave }: SettingsEditorProps) => {
       setIsSaving(true)
 
       // Convert to array format for server action
-      const settingsToUpdate = Object.entries(formData).map(([key, value]) => {
-        const originalSetting = settings.find(s => s.key === key)
-        const category = originalSetting?.category || getCategoryFromKey(key)
-        return { key, value, category }
-      })
+      // The admin two-factor policy saves on its own (see handleTwoFactorPolicyChange)
+      const settingsToUpdate = Object.entries(formData)
+        .filter(([key]) => key !== 'security.requireAdminTwoFactor')
+        .map(([key, value]) => {
+          const originalSetting = settings.find(s => s.key === key)
+          const category = originalSetting?.category || getCategoryFromKey(key)
+          return { key, value, category }
+        })
 
       await onSave(settingsToUpdate)
       setHasChanges(false)
@@ -77,6 +87,25 @@ export const SettingsEditor = ({ settings, onSave }: SettingsEditorProps) => {
     }
   }
 
+  // Require two-factor authentication for all admins (super admin only, saved immediately)
+  const handleTwoFactorPolicyChange = async (enabled: boolean) => {
+    try {
+      setIsSavingPolicy(true)
+      const result = await updateRequireAdminTwoFactor(enabled)
+
+      if (result.success) {
+        setRequireAdminTwoFactor(enabled)
+        toast.success(result.message)
+      } else {
+        toast.error(result.error || 'Failed to update two-factor policy')
+      }
+    } catch {
+      toast.error('Failed to update two-factor policy')
+    } finally {
+      setIsSavingPolicy(false)
+    }
+  }
+
   // Get category from key
   const getCategoryFromKey = (key: string): string => {
     const prefix = key.split('.')[0]
@@ -88,7 +117,8 @@ export const SettingsEditor = ({ settings, onSave }: SettingsEditorProps) => {
       'email': 'notifications',
       'features': 'features',
       'rateLimit': 'security',
-      'scheduling': 'security'
+      'scheduling': 'security',
+      'security': 'security'
     }
     return categoryMap[prefix] || 'general'
   }
@@ -456,7 +486,8 @@ export const SettingsEditor = ({ settings, onSave }: SettingsEditorProps) => {
             {[
               { key: 'features.onlineBooking', label: 'Enable Online Booking', description: 'Allow customers to book online through the website' },
               { key: 'features.loyaltyProgram', label: 'Enable Loyalty Program', description: 'Track customer points and rewards' },
-              { key: 'features.payments', label: 'Enable Online Payments', description: 'Accept payments through the website (requires payment gateway setup)' }
+              { key: 'features.payments', label: 'Enable Online Payments', description: 'Accept payments through the website (requires payment gateway setup)' },
+              { key: 'features.requireEmailVerification', label: 'Require Verified Email to Book', description: 'Customers must verify their email address before they can request a booking (accounts created before email verification count as verified)' }
             ].map(({ key, label, description }) => {
               const setting = formData[key] || { enabled: false }
 
@@ -479,6 +510,35 @@ export const SettingsEditor = ({ settings, onSave }: SettingsEditorProps) => {
 
         {/* Security Settings */}
         <TabsContent value="security" className="space-y-6 mt-6">
+          {/* Admin Two-Factor Authentication */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 space-y-4"
+          >
+            <div className="flex items-start gap-4">
+              <div className="p-3 rounded-lg bg-green-500/20 border border-green-400/30">
+                <ShieldCheck className="w-6 h-6 text-green-400" />
+              </div>
+              <div className="flex-1">
+                <h3 className="text-lg font-semibold text-cyan-300">Require Two-Factor Authentication for Admins</h3>
+                <p className="text-sm text-cyan-100/60 mt-1">
+                  Every admin and super admin must set up an authenticator app before they can open the admin panel
+                </p>
+                {!isSuperAdmin && (
+                  <p className="text-xs text-cyan-100/50 mt-2">Only a super admin can change this.</p>
+                )}
+              </div>
+              <Switch
+                checked={requireAdminTwoFactor}
+                onCheckedChange={handleTwoFactorPolicyChange}
+                disabled={!isSuperAdmin || isSavingPolicy}
+                aria-label="Require two-factor authentication for admins"
+                className="ml-4"
+              />
+            </div>
+          </motion.div>
+
           {/* Booking Rate Limiting */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { formatDistanceToNow, format } from "date-fns"
+import { revokeAllUserSessions, revokeUserSessionAsAdmin, type getUserSessions } from "@/app/actions/sessions"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+
+type UserSession = NonNullable<Awaited<ReturnType<typeof getUserSessions>>["sessions"]>[number]
+
+interface UserSessionsPanelProps {
+    userId: string
+    sessions: UserSession[]
+}
+
+/**
+ * A user's signed-in browsers, with buttons to sign them out
+ */
+export function UserSessionsPanel({ userId, sessions }: UserSessionsPanelProps) {
+    const router = useRouter()
+    const [busySession, setBusySession] = useState<string | null>(null)
+
+    const handleRevoke = async (sessionId: string | null) => {
+        try {
+            setBusySession(sessionId ?? "all")
+            const result = sessionId
+                ? await revokeUserSessionAsAdmin(userId, sessionId)
+                : await revokeAllUserSessions(userId)
+
+            if (result.success) {
+                toast.success(result.message || "Signed out")
+                router.refresh()
+            } else {
+                toast.error(result.error || "Failed to sign out session")
+            }
+        } catch {
+            toast.error("An error occurred")
+        } finally {
+            setBusySession(null)
+        }
+    }
+
+    return (
+        <div className="rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20 overflow-hidden">
+            {sessions.length > 0 ? (
+                <>
+                    <div className="divide-y divide-cyan-400/10">
+                        {sessions.map(session => (
+                            <div key={session.id} className="p-4 hover:bg-cyan-400/5 transition-colors">
+                                <div className="flex justify-between items-center gap-4">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-cyan-100">
+                                            {session.device}
+                                            {session.current && <span className="text-xs text-green-400 ml-2">(you)</span>}
+                                        </p>
+                                        <p className="text-xs text-cyan-100/50 truncate">
+                                            {session.ipAddress || "Unknown IP"} · signed in {format(new Date(session.createdAt), "PPP")} · active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                                        </p>
+                                    </div>
+                                    {!session.current && (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleRevoke(session.id)}
+                                            disabled={busySession !== null}
+                                            className="border-red-400/30 text-red-300 hover:bg-red-400/10"
+                                        >
+                                            {busySession === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Sign out"}
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="p-4 border-t border-cyan-400/10">
+                        <Button
+                            variant="outline"
+                            onClick={() => handleRevoke(null)}
+                            disabled={busySession !== null || sessions.every(session => session.current)}
+                            className="w-full border-red-400/30 text-red-300 hover:bg-red-400/10"
+                        >
+                            {busySession === "all" ? "Signing out..." : "Sign out everywhere"}
+                        </Button>
+                    </div>
+                </>
+            ) : (
+                <div className="p-8 text-center text-cyan-100/40">
+                    No active sessions
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LabelList } from 'recharts'
+
+interface CampaignFunnelChartProps {
+  data: Array<{ stage: string; count: number; rate: number }>
+}
+
+const STAGE_COLORS = ['#22d3ee', '#06b6d4', '#a855f7', '#ec4899']
+
+export function CampaignFunnelChart({ data }: CampaignFunnelChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={240}>
+      <BarChart data={data} layout="vertical" margin={{ left: 16, right: 48 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" horizontal={false} />
+        <XAxis
+          type="number"
+          stroke="#94a3b8"
+          style={{ fontSize: '12px' }}
+          allowDecimals={false}
+        />
+        <YAxis
+          type="category"
+          dataKey="stage"
+          stroke="#94a3b8"
+          style={{ fontSize: '12px' }}
+          width={80}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            border: '1px solid rgba(34, 211, 238, 0.3)',
+            borderRadius: '8px',
+            color: '#fff',
+          }}
+          labelStyle={{ color: '#22d3ee' }}
+          formatter={(value, _name, item) => [`${value} (${item.payload.rate.toFixed(1)}%)`, 'Recipients']}
+        />
+        <Bar dataKey="count" radius={[0, 8, 8, 0]}>
+          {data.map((entry, index) => (
+            <Cell key={entry.stage} fill={STAGE_COLORS[index % STAGE_COLORS.length]} />
+          ))}
+          <LabelList
+            dataKey="rate"
+            position="right"
+            formatter={(rate: number) => `${rate.toFixed(1)}%`}
+            style={{ fill: '#94a3b8', fontSize: '12px' }}
+          />
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { MailWarning } from "lucide-react"
+import { resendVerificationEmail } from "@/app/actions/auth"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+interface EmailVerificationBannerProps {
+    /** Smaller layout for the user menu */
+    compact?: boolean
+    className?: string
+}
+
+/**
+ * Reminds signed-in customers with an unverified email address to verify
+ * it, and resends the link. Renders nothing for everyone else.
+ */
+export function EmailVerificationBanner({ compact = false, className = "" }: EmailVerificationBannerProps) {
+    const { data: session } = useSession()
+    const [isSending, setIsSending] = useState(false)
+    const [isSent, setIsSent] = useState(false)
+
+    if (!session?.user || session.user.hasVerifiedEmail) {
+        return null
+    }
+
+    const handleResend = async () => {
+        setIsSending(true)
+
+        try {
+            const result = await resendVerificationEmail()
+
+            if (result.success) {
+                setIsSent(true)
+                toast.success(result.message || "Verification link sent")
+            } else {
+                toast.error(result.error || "Failed to send verification email")
+            }
+        } catch (error) {
+            logger.error("Resend verification email error", error instanceof Error ? error : new Error(String(error)))
+            toast.error("An unexpected error occurred")
+        } finally {
+            setIsSending(false)
+        }
+    }
+
+    const resendButton = (
+        <button
+            type="button"
+            onClick={handleResend}
+            disabled={isSending || isSent}
+            className="text-amber-300 underline underline-offset-2 hover:text-amber-200 disabled:opacity-60 disabled:no-underline"
+        >
+            {isSent ? "Link sent" : isSending ? "Sending..." : "Resend link"}
+        </button>
+    )
+
+    if (compact) {
+        return (
+            <div className={`px-4 py-3 border-b border-cyan-400/20 text-xs text-amber-200/90 ${className}`} role="status">
+                <div className="flex items-center gap-2 mb-1">
+                    <MailWarning className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+                    <span>Email not verified</span>
+                </div>
+                {resendButton}
+            </div>
+        )
+    }
+
+    return (
+        <div
+            className={`flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg bg-amber-500/10 border border-amber-400/30 text-amber-100 ${className}`}
+            role="status"
+        >
+            <MailWarning className="w-5 h-5 flex-shrink-0 text-amber-300" aria-hidden="true" />
+            <p className="text-sm flex-1">
+                Please verify your email address. We sent a link to{" "}
+                <span className="text-amber-300">{session.user.email}</span> when you signed up.
+            </p>
+            <span className="text-sm">{resendButton}</span>
+        </div>
+    )
+}
@@ -68,7 +68,7 @@ export function ForgotPasswordModal({ isOpen, onClose, onBackToSignIn }: ForgotP
 
             if (result.success) {
                 setIsSuccess(true)
-                toast.success('Reset link sent!')
+                toast.success('Check your email')
             } else {
                 setError(result.error || 'Failed to send reset link')
                 toast.error(result.error || 'Failed to send reset link')
@@ -196,8 +196,8 @@ export function ForgotPasswordModal({ isOpen, onClose, onBackToSignIn }: ForgotP
                                     </div>
                                     <h3 className="text-xl font-semibold text-white mb-2">Check your email</h3>
                                     <p className="text-cyan-100/60 mb-6">
-                                        We've sent a password reset link to<br />
-                                        <span className="text-cyan-400">{email}</span>
+                                        If an account exists for <span className="text-cyan-400">{email}</span>,
+                                        we've sent it a password reset link. The link expires in 1 hour.
                                     </p>
                                     <Button
                                         onClick={onBackToSignIn}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { signIn, getProviders } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+interface OAuthButtonsProps {
+  /** Disables the buttons while the surrounding form is busy */
+  disabled?: boolean
+  /** Text of the divider shown below the buttons */
+  dividerLabel?: string
+}
+
+/**
+ * "Continue with Google/Facebook" buttons for the sign-in and sign-up
+ * modals. Shows a button for each configured provider, and nothing when
+ * none are configured.
+ */
+export function OAuthButtons({ disabled = false, dividerLabel = "Or continue with email" }: OAuthButtonsProps) {
+  const [providers, setProviders] = useState<{ id: string; name: string }[]>([])
+  const [activeProvider, setActiveProvider] = useState<string | null>(null)
+
+  useEffect(() => {
+    getProviders()
+      .then(result => setProviders(Object.values(result ?? {}).filter(provider => provider.type !== "credentials")))
+      .catch(error => logger.error("Failed to load sign-in providers", error instanceof Error ? error : new Error(String(error))))
+  }, [])
+
+  const handleSignIn = async (provider: string) => {
+    try {
+      setActiveProvider(provider)
+      await signIn(provider, { callbackUrl: window.location.pathname })
+    } catch (error) {
+      logger.error("OAuth sign-in error", error instanceof Error ? error : new Error(String(error)))
+      toast.error("Failed to sign in")
+      setActiveProvider(null)
+    }
+  }
+
+  if (providers.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3 mb-6">
+      {providers.map(provider => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          onClick={() => handleSignIn(provider.id)}
+          disabled={disabled || activeProvider !== null}
+          className="w-full border-cyan-400/30 text-cyan-100 hover:bg-cyan-400/10 hover:border-cyan-400/50 transition-all"
+        >
+          {activeProvider === provider.id ? (
+            <motion.div
+              className="w-5 h-5 border-2 border-cyan-400/30 border-t-cyan-400 rounded-full"
+              animate={{ rotate: 360 }}
+              transition={{ duration: 1, repeat: Number.POSITIVE_INFINITY, ease: "linear" }}
+            />
+          ) : (
+            `Continue with ${provider.name}`
+          )}
+        </Button>
+      ))}
+
+      {/* Divider */}
+      <div className="relative pt-2">
+        <div className="absolute inset-0 flex items-center pt-2">
+          <div className="w-full border-t border-cyan-400/20" />
+        </div>
+        <div className="relative flex justify-center text-xs">
+          <span className="bg-black px-2 text-cyan-100/50">{dividerLabel}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
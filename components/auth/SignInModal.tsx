@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { AUTH_COLORS } from "@/constants/animations"
 import { validateEmail, sanitizeInput } from "@/lib/validation"
 import { verifyCredentials } from "@/app/actions/auth"
+import { OAuthButtons } from "./OAuthButtons"
 import { signIn } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
@@ -133,10 +134,16 @@ export function SignInModal({ isOpen, onClose, onSwitchToSignUp, onForgotPasswor
       toast.success('Signed in successfully!')
 
       // Update the session to reflect the new authenticated state
-      await update()
+      const updatedSession = await update()
 
       handleClose()
 
+      // Admins with two-factor authentication enter a code next
+      if (updatedSession?.user?.twoFactor === 'pending') {
+        router.push(`/two-factor?callbackUrl=${encodeURIComponent(window.location.pathname)}`)
+        return
+      }
+
       // Refresh the page to update all components
       // Wait for exit animation (500ms)
       setTimeout(() => {
@@ -253,6 +260,8 @@ export function SignInModal({ isOpen, onClose, onSwitchToSignUp, onForgotPasswor
                 </p>
               </div>
 
+              <OAuthButtons disabled={isLoading} dividerLabel="Or sign in with email" />
+
               {/* Form */}
               <form onSubmit={handleSubmit} noValidate className="space-y-6">
                 {/* Email Field */}
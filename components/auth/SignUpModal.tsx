@@ -11,6 +11,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { AUTH_COLORS } from "@/constants/animations"
 import { validateEmail, validatePassword, validateFullName, sanitizeInput } from "@/lib/validation"
 import { signUp } from "@/app/actions/auth"
+import { OAuthButtons } from "./OAuthButtons"
 import { toast } from "sonner"
 import { logger } from "@/lib/logger"
 
@@ -256,6 +257,8 @@ export function SignUpModal({ isOpen, onClose, onSwitchToSignIn }: SignUpModalPr
                 </p>
               </div>
 
+              <OAuthButtons disabled={isLoading} dividerLabel="Or sign up with email" />
+
               {/* Form */}
               <form onSubmit={handleSubmit} noValidate className="space-y-5">
                 {/* Full Name Field */}
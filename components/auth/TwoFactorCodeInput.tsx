@@ -0,0 +1,53 @@
+"use client"
+
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+
+interface TwoFactorCodeInputProps {
+  value: string
+  onChange: (value: string) => void
+  /** Called once all six digits are in */
+  onComplete?: (value: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Six-digit input for codes from an authenticator app
+ */
+export function TwoFactorCodeInput({ value, onChange, onComplete, disabled = false }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      pattern="^[0-9]*$"
+      autoComplete="one-time-code"
+      autoFocus
+      aria-label="Authentication code"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot
+            key={index}
+            index={index}
+            className="h-12 w-11 text-lg text-cyan-100 bg-black/40 border-cyan-400/30"
+          />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
+
+/**
+ * Where to go after the two-factor pages: the callbackUrl middleware.ts
+ * passed, if it is a path on this site
+ */
+export function getTwoFactorReturnPath(callbackUrl: string | null, fallback = "/admin"): string {
+  if (!callbackUrl?.startsWith("/") || callbackUrl.startsWith("//") || callbackUrl.startsWith("/\\")) {
+    return fallback
+  }
+  return callbackUrl
+}
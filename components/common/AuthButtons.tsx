@@ -9,6 +9,7 @@ import { ANIMATION_EASING } from "@/constants/animations"
 import { useSession, signOut } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import { SignOutWarp } from "@/components/animations"
+import { EmailVerificationBanner } from "@/components/auth/EmailVerificationBanner"
 import { logger } from "@/lib/logger"
 
 /**
@@ -207,6 +208,8 @@ export const AuthButtons = memo(function AuthButtons({
                   </p>
                 </div>
 
+                <EmailVerificationBanner compact />
+
                 {/* Menu items */}
                 <div className="py-2" role="group">
                   {isAdmin && (
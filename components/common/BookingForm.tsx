@@ -1,9 +1,11 @@
 'use client'
 
-import { useState, useRef, useEffect, memo } from 'react'
+import { useState, useRef, useEffect, useMemo, memo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Calendar, Clock } from 'lucide-react'
 import type { CalendarEvent } from './EventCalendar'
+import { BOOKING_DURATION_OPTIONS } from '@/lib/booking-resources'
+import { useAvailability } from '@/hooks/queries'
 import PhoneInput from 'react-phone-number-input'
 import 'react-phone-number-input/style.css'
 
@@ -24,8 +26,8 @@ interface BookingFormProps {
  * BookingForm Component
  *
  * Form for creating new event bookings
- * Collects: name, email, phone, date, time, guest count, event type, and notes
- * Prevents double-booking by checking existing events
+ * Collects: name, email, phone, date, time, duration, guest count, event type, and notes
+ * Prevents double-booking by checking existing events and the public availability grid
  * Can accept an initial date from calendar click
  */
 export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, existingEvents = [], initialDate = null, isLoading = false, initialPackage = null }: BookingFormProps) {
@@ -55,6 +57,7 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
     phone: '',
     date: formatDateForInput(initialDate),
     time: '',
+    duration: '',
     guestCount: '',
     type: (initialPackage ? getTypeFromCategory(initialPackage.category) : 'PARTY') as 'CAFE' | 'SENSORY_ROOM' | 'PLAYGROUND' | 'PARTY' | 'EVENT',
     notes: initialPackage ? `Paket: ${initialPackage.name} (${initialPackage.price || 'Contact for pricing'})` : ''
@@ -69,6 +72,17 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
 
   const [errors, setErrors] = useState<Record<string, string>>({})
 
+  // Slot grid for the selected date, type and duration: time -> available
+  const { data: availability } = useAvailability(
+    formData.date,
+    formData.type,
+    formData.duration ? parseInt(formData.duration) : undefined
+  )
+  const slotGrid = useMemo(() => {
+    if (!availability) return null
+    return new Map((availability.slots[formData.type] ?? []).map(slot => [slot.time, slot.available]))
+  }, [availability, formData.type])
+
   // Update calendar date when initialDate changes
   useEffect(() => {
     if (initialDate) {
@@ -146,19 +160,8 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
     }
 
     // Check for time conflicts
-    if (formData.date && formData.time) {
-      const selectedDate = new Date(formData.date)
-      const conflict = existingEvents.find(existingEvent => {
-        const existingDate = new Date(existingEvent.date)
-        return (
-          existingDate.toDateString() === selectedDate.toDateString() &&
-          existingEvent.time === formData.time
-        )
-      })
-
-      if (conflict) {
-        newErrors.time = `Već postoji rezervacija za ${formData.time}.`
-      }
+    if (formData.date && formData.time && isTimeBooked(formData.time)) {
+      newErrors.time = `Već postoji rezervacija za ${formData.time}.`
     }
 
     setErrors(newErrors)
@@ -179,6 +182,7 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
       title: formData.title,
       date: new Date(formData.date),
       time: formData.time,
+      duration: formData.duration ? parseInt(formData.duration) : undefined,
       type: formData.type,
       guestCount: formData.guestCount ? parseInt(formData.guestCount) : undefined,
       phone: formData.phone || undefined,
@@ -195,6 +199,7 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
       phone: '',
       date: '',
       time: '',
+      duration: '',
       guestCount: '',
       type: 'PARTY',
       notes: ''
@@ -283,9 +288,10 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
     return `${date.getDate()} ${monthNames[date.getMonth()]} ${date.getFullYear()}`
   }
 
-  // Check if a specific time is already booked for the selected date
+  // Check if a specific time is already booked (or outside opening hours) for the selected date
   const isTimeBooked = (timeString: string) => {
     if (!formData.date) return false
+    if (slotGrid && !slotGrid.get(timeString)) return true
 
     const selectedDate = new Date(formData.date)
     return existingEvents.some(event => {
@@ -498,6 +504,7 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
                       {[0, 30].map(minute => {
                         const timeString = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
                         const isBooked = isTimeBooked(timeString)
+                        const isClosed = !!slotGrid && !slotGrid.has(timeString)
 
                         return (
                           <button
@@ -512,10 +519,10 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
                                 : 'text-white/70 hover:bg-cyan-400/20 hover:text-cyan-400'
                               }
                             `}
-                            title={isBooked ? 'Već zauzeto' : ''}
+                            title={isClosed ? 'Zatvoreno' : isBooked ? 'Već zauzeto' : ''}
                           >
                             {timeString}
-                            {isBooked && <span className="ml-2 text-[10px]">(Zauzeto)</span>}
+                            {isBooked && <span className="ml-2 text-[10px]">{isClosed ? '(Zatvoreno)' : '(Zauzeto)'}</span>}
                           </button>
                         )
                       })}
@@ -567,6 +574,26 @@ export const BookingForm = memo(function BookingForm({ onSubmit, onCancel, exist
         </div>
       </div>
 
+      {/* Duration */}
+      <div>
+        <label className="block text-cyan-400 text-sm font-['Great_Vibes'] text-lg mb-1">
+          Trajanje
+        </label>
+        <select
+          name="duration"
+          value={formData.duration}
+          onChange={handleChange}
+          className="w-full px-4 py-2 bg-white/5 border border-cyan-400/30 rounded-lg text-white text-sm focus:outline-none focus:border-cyan-400/60 focus:ring-1 focus:ring-cyan-400/30 transition-all"
+        >
+          <option value="" className="bg-gray-900">Standardno za tip rezervacije</option>
+          {BOOKING_DURATION_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes} className="bg-gray-900">
+              {minutes} min
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Special Requests */}
       <div>
         <label className="block text-cyan-400 text-sm font-['Great_Vibes'] text-lg mb-1">
@@ -9,6 +9,7 @@ export interface CalendarEvent {
   title: string
   date: Date
   time: string
+  duration?: number // Booking length in minutes
   type: 'CAFE' | 'SENSORY_ROOM' | 'PLAYGROUND' | 'PARTY' | 'EVENT'
   guestCount?: number
   phone?: string
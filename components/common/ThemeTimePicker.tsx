@@ -1,31 +1,10 @@
 'use client'
 
-import { useRef, useEffect, useState, useMemo } from 'react'
+import { useRef, useEffect, useMemo } from 'react'
 import { motion } from 'framer-motion'
-import { getBookingsForDay } from '@/app/actions/bookings'
 import { Loader2 } from 'lucide-react'
-
-// Helper function to check if two time ranges overlap
-function checkTimeOverlap(
-  start1: Date,
-  end1: Date,
-  start2: Date,
-  end2: Date
-): boolean {
-  return (
-    (start1 >= start2 && start1 < end2) ||
-    (end1 > start2 && end1 <= end2) ||
-    (start1 <= start2 && end1 >= end2)
-  )
-}
-
-function addMinutes(date: Date, minutes: number): Date {
-  return new Date(date.getTime() + minutes * 60000)
-}
-
-function subMinutes(date: Date, minutes: number): Date {
-  return new Date(date.getTime() - minutes * 60000)
-}
+import { useAvailability } from '@/hooks/queries'
+import type { BookingTypeValue } from '@/lib/booking-resources'
 
 interface ThemeTimePickerProps {
   value: string | null              // Selected time (HH:MM format)
@@ -37,6 +16,8 @@ interface ThemeTimePickerProps {
   interval?: number                 // Interval in minutes (default: 30)
   selectedDate?: string             // Selected date (YYYY-MM-DD format) for availability checking
   duration?: number                 // Booking duration in minutes (default: 120)
+  bookingType: BookingTypeValue     // Booking type, used to resolve occupied resources
+  resourceIds?: string[]            // Rooms selected by the customer
 }
 
 /**
@@ -52,6 +33,8 @@ interface ThemeTimePickerProps {
  * - Smooth Framer Motion animations
  * - Click outside to close
  * - Auto-scroll to selected time
+ * - Greys out times outside opening hours or taken on the same resources
+ *   (slot grid from /api/availability)
  */
 export function ThemeTimePicker({
   value,
@@ -62,12 +45,18 @@ export function ThemeTimePicker({
   endHour = 22,
   interval = 30,
   selectedDate,
-  duration = 120
+  duration = 120,
+  bookingType,
+  resourceIds
 }: ThemeTimePickerProps) {
   const pickerRef = useRef<HTMLDivElement>(null)
   const selectedRef = useRef<HTMLButtonElement>(null)
-  const [unavailableTimes, setUnavailableTimes] = useState<Set<string>>(new Set())
-  const [isCheckingAvailability, setIsCheckingAvailability] = useState(false)
+  const { data: availability, isLoading: isCheckingAvailability } = useAvailability(
+    selectedDate,
+    bookingType,
+    duration,
+    resourceIds
+  )
 
   // Theme configuration
   const theme = {
@@ -128,63 +117,11 @@ export function ThemeTimePicker({
     }
   }, [])
 
-  // Check availability for all time slots when date is selected
-  useEffect(() => {
-    if (!selectedDate) {
-      setUnavailableTimes(new Set())
-      return
-    }
-
-    const checkAllTimeSlots = async () => {
-      setIsCheckingAvailability(true)
-      const unavailable = new Set<string>()
-
-      try {
-        const dateObj = new Date(selectedDate)
-
-        // Single API call to get all bookings for the day
-        const result = await getBookingsForDay(dateObj)
-
-        if (!result.success || !result.bookings) {
-          console.error('Failed to get bookings:', result.error)
-          setIsCheckingAvailability(false)
-          return
-        }
-
-        const bufferMinutes = result.bufferTimeMinutes || 45
-
-        // Check each time slot against all bookings (client-side)
-        for (const timeSlot of timeSlots) {
-          const [hours, minutes] = timeSlot.split(':').map(Number)
-          const slotStart = new Date(dateObj)
-          slotStart.setHours(hours, minutes, 0, 0)
-
-          // Check against each existing booking
-          for (const booking of result.bookings) {
-            const bookingStart = new Date(booking.datetime)
-
-            // Buffer time = minimum time between booking start times
-            // If booking is at 9:00 with 45min buffer, next available is 9:45
-            const bufferZoneEnd = addMinutes(bookingStart, bufferMinutes)
-
-            // If this time slot is before the buffer zone ends, it's unavailable
-            if (slotStart >= bookingStart && slotStart < bufferZoneEnd) {
-              unavailable.add(timeSlot)
-              break
-            }
-          }
-        }
-
-        setUnavailableTimes(unavailable)
-      } catch (error) {
-        console.error('Failed to check availability:', error)
-      } finally {
-        setIsCheckingAvailability(false)
-      }
-    }
-
-    checkAllTimeSlots()
-  }, [selectedDate, duration, timeSlots])
+  // Slot grid for the selected day: time -> available (null until a date is selected)
+  const slotGrid = useMemo(() => {
+    if (!availability) return null
+    return new Map((availability.slots[bookingType] ?? []).map(slot => [slot.time, slot.available]))
+  }, [availability, bookingType])
 
   // Handle time selection
   const handleTimeSelect = (time: string) => {
@@ -214,7 +151,8 @@ export function ThemeTimePicker({
         <div className="space-y-1">
           {timeSlots.map(time => {
             const isSelected = time === value
-            const isUnavailable = unavailableTimes.has(time)
+            const isClosed = !!slotGrid && !slotGrid.has(time)
+            const isUnavailable = !!slotGrid && !slotGrid.get(time)
 
             return (
               <button
@@ -239,7 +177,7 @@ export function ThemeTimePicker({
                 <div className="flex items-center justify-between">
                   <span>{time}</span>
                   {isUnavailable && (
-                    <span className="text-xs text-red-400/70">Booked</span>
+                    <span className="text-xs text-red-400/70">{isClosed ? 'Closed' : 'Booked'}</span>
                   )}
                 </div>
               </button>
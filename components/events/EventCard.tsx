@@ -23,6 +23,8 @@ export interface Event {
   location: string | null
   tags: string[]
   theme: 'WINTER' | 'CHRISTMAS' | 'HALLOWEEN' | 'EASTER' | 'SUMMER' | 'SPACE' | 'UNICORN' | 'DINOSAUR' | 'DEFAULT' | null
+  occurrenceDate?: string // Occurrence of a recurring event (yyyy-MM-dd)
+  isMoved?: boolean // Occurrence takes place on another date or time than scheduled
 }
 
 interface EventCardProps {
@@ -327,6 +329,11 @@ export const EventCard = memo(function EventCard({ event, index }: EventCardProp
               <span className="font-space-mono text-sm">
                 {format(event.date, 'EEEE, MMM d, yyyy')}
               </span>
+              {event.isMoved && (
+                <span className="font-space-mono text-xs px-2 py-0.5 rounded-full bg-yellow-200 text-yellow-900">
+                  Rescheduled
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2 text-gray-700">
               <Clock className="w-4 h-4" />
@@ -86,7 +86,7 @@ export const EventsPage = memo(function EventsPage({ events, isLoading = false }
         <div className="relative max-w-7xl mx-auto">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 md:gap-10">
             {events.map((event, index) => (
-              <EventCard key={event.id} event={event} index={index} />
+              <EventCard key={`${event.id}:${event.occurrenceDate}`} event={event} index={index} />
             ))}
           </div>
         </div>
@@ -28,6 +28,8 @@ export async function EventsPageWrapper() {
         location: event.location,
         tags: event.tags,
         theme: event.theme,
+        occurrenceDate: event.occurrenceDate,
+        isMoved: event.isMoved,
       }))
     : []
 
@@ -1,10 +1,12 @@
 'use client'
 
-import { memo } from 'react'
+import { memo, useEffect } from 'react'
 import dynamic from 'next/dynamic'
 import { motion, AnimatePresence } from 'framer-motion'
 import { AuthButtons } from '@/components/common/AuthButtons'
 import { SectionSkeleton } from '@/components/loading/SectionSkeleton'
+import { getOAuthErrorMessage } from '@/lib/oauth'
+import { toast } from 'sonner'
 
 // Dynamic imports for modals
 const SignInModal = dynamic(() => import("@/components/auth/SignInModal").then(m => ({ default: m.SignInModal })), {
@@ -42,6 +44,7 @@ interface AuthLayerProps {
  * Manages authentication UI elements:
  * - Auth buttons (Sign In/Sign Up) in top-right corner
  * - Authentication modals (Sign In, Sign Up, Forgot Password)
+ * - Errors from social sign-in
  *
  * Optimized with React.memo to prevent unnecessary re-renders
  */
@@ -60,6 +63,18 @@ export const AuthLayer = memo(function AuthLayer({
   onCloseSignUp,
   onCloseForgotPassword,
 }: AuthLayerProps) {
+  // Social sign-in redirects back with ?authError= when it can't sign in
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const authError = params.get('authError')
+    if (!authError) return
+
+    toast.error(getOAuthErrorMessage(authError))
+    params.delete('authError')
+    window.history.replaceState(null, '', `${window.location.pathname}${params.size ? `?${params}` : ''}`)
+    onSignIn()
+  }, [])
+
   return (
     <>
       {/* Auth Buttons - Top Right Corner */}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { motion } from "framer-motion"
+import { MonitorSmartphone } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { getMySessions, revokeMySession, revokeMyOtherSessions } from "@/app/actions/sessions"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+type ActiveSession = NonNullable<Awaited<ReturnType<typeof getMySessions>>["sessions"]>[number]
+
+/**
+ * Lists the browsers signed in to this account and lets the user sign
+ * any of the others out
+ */
+export default function ActiveSessions() {
+    const [sessions, setSessions] = useState<ActiveSession[]>([])
+    const [busySession, setBusySession] = useState<string | null>(null)
+
+    const fetchSessions = async () => {
+        try {
+            const result = await getMySessions()
+            if (result.success && result.sessions) {
+                setSessions(result.sessions)
+            }
+        } catch (error) {
+            logger.error("Failed to fetch sessions", error instanceof Error ? error : new Error(String(error)))
+        }
+    }
+
+    useEffect(() => {
+        fetchSessions()
+    }, [])
+
+    const handleRevoke = async (sessionId: string | null) => {
+        try {
+            setBusySession(sessionId ?? "others")
+            const result = sessionId ? await revokeMySession(sessionId) : await revokeMyOtherSessions()
+
+            if (result.success) {
+                toast.success(result.message || "Signed out")
+                await fetchSessions()
+            } else {
+                toast.error(result.error || "Failed to sign out session")
+            }
+        } catch {
+            toast.error("An error occurred. Please try again.")
+        } finally {
+            setBusySession(null)
+        }
+    }
+
+    if (sessions.length === 0) {
+        return null
+    }
+
+    const hasOtherSessions = sessions.some(session => !session.current)
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-6 rounded-xl bg-gradient-to-br from-black/40 to-black/20 backdrop-blur-sm border border-cyan-400/20"
+        >
+            <h2 className="text-xl font-bold text-cyan-400 flex items-center gap-2">
+                <MonitorSmartphone className="w-5 h-5" />
+                Where You&apos;re Signed In
+            </h2>
+            <p className="text-cyan-100/60 text-sm mt-1 mb-6">
+                Don&apos;t recognise one? Sign it out and change your password.
+            </p>
+
+            <div className="space-y-3">
+                {sessions.map(session => (
+                    <div
+                        key={session.id}
+                        className="flex items-center justify-between gap-4 p-4 rounded-lg bg-black/30 border border-cyan-400/10"
+                    >
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium text-cyan-100 flex items-center gap-2">
+                                {session.device}
+                                {session.current && (
+                                    <span className="text-xs px-2 py-0.5 rounded border border-green-400/30 text-green-400">
+                                        This device
+                                    </span>
+                                )}
+                            </p>
+                            <p className="text-xs text-cyan-100/50 mt-1 truncate">
+                                {session.ipAddress || "Unknown location"} · active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                            </p>
+                        </div>
+                        {!session.current && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleRevoke(session.id)}
+                                disabled={busySession !== null}
+                                className="border-red-400/30 text-red-300 hover:bg-red-400/10"
+                            >
+                                {busySession === session.id ? "Signing out..." : "Sign out"}
+                            </Button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {hasOtherSessions && (
+                <Button
+                    variant="outline"
+                    onClick={() => handleRevoke(null)}
+                    disabled={busySession !== null}
+                    className="w-full mt-4 border-red-400/30 text-red-300 hover:bg-red-400/10"
+                >
+                    {busySession === "others" ? "Signing out..." : "Sign out all other sessions"}
+                </Button>
+            )}
+        </motion.div>
+    )
+}
@@ -1,9 +1,15 @@
 "use client"
 
-import { Calendar, Clock, Users, MapPin } from "lucide-react"
+import { useState } from "react"
+import { Calendar, Clock, Users, XCircle, CalendarClock } from "lucide-react"
 import { format } from "date-fns"
 import { motion } from "framer-motion"
+import { toast } from "sonner"
 import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cancelMyBooking, rescheduleMyBooking } from "@/app/actions/bookings"
+import { isBeforeChangeCutoff, DEFAULT_CHANGE_CUTOFF_HOURS } from "@/lib/scheduling"
 
 interface Booking {
     id: string
@@ -13,11 +19,14 @@ interface Booking {
     type: string
     guestCount: number
     status: string
+    scheduledAt: Date
     specialRequests?: string | null
 }
 
 interface BookingHistoryProps {
     bookings: Booking[]
+    cutoffHours?: number
+    onChange?: () => void
 }
 
 const STATUS_COLORS = {
@@ -36,7 +45,78 @@ const TYPE_LABELS = {
     EVENT: "Event",
 }
 
-export default function BookingHistory({ bookings }: BookingHistoryProps) {
+export default function BookingHistory({
+    bookings,
+    cutoffHours = DEFAULT_CHANGE_CUTOFF_HOURS,
+    onChange,
+}: BookingHistoryProps) {
+    const [reschedulingId, setReschedulingId] = useState<string | null>(null)
+    const [newDate, setNewDate] = useState("")
+    const [newTime, setNewTime] = useState("")
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const canChange = (booking: Booking) =>
+        (booking.status === "PENDING" || booking.status === "APPROVED") &&
+        isBeforeChangeCutoff(new Date(booking.scheduledAt), cutoffHours)
+
+    const handleCancel = async (booking: Booking) => {
+        const reason = prompt(`Cancel "${booking.title}"? You can tell us why (optional):`)
+        if (reason === null) return
+
+        try {
+            setIsSubmitting(true)
+            const result = await cancelMyBooking(booking.id, reason || undefined)
+
+            if (result.success) {
+                toast.success(result.message)
+                onChange?.()
+            } else {
+                toast.error(result.error || "Failed to cancel booking")
+            }
+        } catch {
+            toast.error("An error occurred. Please try again.")
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const startReschedule = (booking: Booking) => {
+        setReschedulingId(booking.id)
+        setNewDate(format(new Date(booking.date), "yyyy-MM-dd"))
+        setNewTime(booking.time)
+    }
+
+    const handleReschedule = async (booking: Booking) => {
+        if (!newDate || !newTime) {
+            toast.error("Please choose a new date and time")
+            return
+        }
+
+        try {
+            setIsSubmitting(true)
+            const result = await rescheduleMyBooking({
+                bookingId: booking.id,
+                date: new Date(newDate),
+                time: newTime,
+            })
+
+            if (result.success) {
+                toast.success(result.message)
+                setReschedulingId(null)
+                onChange?.()
+            } else {
+                const suggestions = "suggestedTimes" in result && result.suggestedTimes?.length
+                    ? ` Try ${result.suggestedTimes.map(time => format(new Date(time), "MMM d HH:mm")).join(", ")}.`
+                    : ""
+                toast.error(`${result.error || "Failed to reschedule booking"}${suggestions}`)
+            }
+        } catch {
+            toast.error("An error occurred. Please try again.")
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
     if (bookings.length === 0) {
         return (
             <div className="p-6 rounded-xl bg-black/20 backdrop-blur-sm border border-cyan-400/20">
@@ -107,6 +187,72 @@ export default function BookingHistory({ bookings }: BookingHistoryProps) {
                                 </p>
                             </div>
                         )}
+
+                        {canChange(booking) && (
+                            <div className="mt-3 pt-3 border-t border-cyan-400/10">
+                                {reschedulingId === booking.id ? (
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <Input
+                                            type="date"
+                                            value={newDate}
+                                            min={format(new Date(), "yyyy-MM-dd")}
+                                            onChange={(e) => setNewDate(e.target.value)}
+                                            className="w-40 bg-black/40 border-cyan-400/30 text-white"
+                                        />
+                                        <Input
+                                            type="time"
+                                            step={1800}
+                                            value={newTime}
+                                            onChange={(e) => setNewTime(e.target.value)}
+                                            className="w-32 bg-black/40 border-cyan-400/30 text-white"
+                                        />
+                                        <Button
+                                            size="sm"
+                                            onClick={() => handleReschedule(booking)}
+                                            disabled={isSubmitting}
+                                            className="bg-cyan-500 hover:bg-cyan-600 text-white"
+                                        >
+                                            {isSubmitting ? "Saving..." : "Save"}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            onClick={() => setReschedulingId(null)}
+                                            disabled={isSubmitting}
+                                            className="text-cyan-100/60 hover:bg-cyan-400/10"
+                                        >
+                                            Back
+                                        </Button>
+                                        <p className="w-full text-xs text-cyan-100/40">
+                                            A new time needs to be confirmed by our team again.
+                                        </p>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => startReschedule(booking)}
+                                            disabled={isSubmitting}
+                                            className="border-cyan-400/30 text-cyan-300 hover:bg-cyan-400/10"
+                                        >
+                                            <CalendarClock className="w-4 h-4 mr-2" />
+                                            Reschedule
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleCancel(booking)}
+                                            disabled={isSubmitting}
+                                            className="border-red-400/30 text-red-400 hover:bg-red-400/10"
+                                        >
+                                            <XCircle className="w-4 h-4 mr-2" />
+                                            Cancel
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </motion.div>
                 ))}
             </div>
@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { signIn, getProviders } from "next-auth/react"
+import { motion } from "framer-motion"
+import { Link2, KeyRound, CheckCircle } from "lucide-react"
+import { format } from "date-fns"
+import { getConnectedAccounts, disconnectOAuthAccount } from "@/app/actions/auth"
+import { Button } from "@/components/ui/button"
+import { getOAuthErrorMessage } from "@/lib/oauth"
+import { toast } from "sonner"
+import { logger } from "@/lib/logger"
+
+type ConnectedAccount = NonNullable<Awaited<ReturnType<typeof getConnectedAccounts>>["accounts"]>[number]
+
+/**
+ * Lists the social sign-in providers the site offers and lets the user
+ * connect or disconnect them. Connecting signs in with the provider and
+ * comes back to the profile.
+ */
+export default function ConnectedAccounts() {
+    const [providers, setProviders] = useState<{ id: string; name: string }[]>([])
+    const [accounts, setAccounts] = useState<ConnectedAccount[]>([])
+    const [hasPassword, setHasPassword] = useState(true)
+    const [busyProvider, setBusyProvider] = useState<string | null>(null)
+
+    const fetchAccounts = async () => {
+        try {
+            const [availableProviders, result] = await Promise.all([getProviders(), getConnectedAccounts()])
+
+            setProviders(Object.values(availableProviders ?? {}).filter(provider => provider.type !== "credentials"))
+            if (result.success && result.accounts) {
+                setAccounts(result.accounts)
+                setHasPassword(Boolean(result.hasPassword))
+            }
+        } catch (error) {
+            logger.error("Failed to fetch connected accounts", error instanceof Error ? error : new Error(String(error)))
+        }
+    }
+
+    useEffect(() => {
+        fetchAccounts()
+
+        // Connecting redirects back here with an error when the provider can't be linked
+        const params = new URLSearchParams(window.location.search)
+        const authError = params.get("authError")
+        if (authError) {
+            toast.error(getOAuthErrorMessage(authError))
+            params.delete("authError")
+            window.history.replaceState(null, "", `${window.location.pathname}${params.size ? `?${params}` : ""}`)
+        }
+    }, [])
+
+    const handleConnect = async (provider: string) => {
+        setBusyProvider(provider)
+        await signIn(provider, { callbackUrl: "/profile" })
+    }
+
+    const handleDisconnect = async (provider: string) => {
+        try {
+            setBusyProvider(provider)
+            const result = await disconnectOAuthAccount(provider)
+
+            if (result.success) {
+                toast.success(result.message || "Disconnected")
+                await fetchAccounts()
+            } else {
+                toast.error(result.error || "Failed to disconnect account")
+            }
+        } catch {
+            toast.error("An error occurred. Please try again.")
+        } finally {
+            setBusyProvider(null)
+        }
+    }
+
+    if (providers.length === 0 && accounts.length === 0) {
+        return null
+    }
+
+    // Providers no longer offered can still be disconnected
+    const rows = [
+        ...providers,
+        ...accounts
+            .filter(account => !providers.some(provider => provider.id === account.provider))
+            .map(account => ({ id: account.provider, name: account.provider })),
+    ]
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-6 rounded-xl bg-gradient-to-br from-black/40 to-black/20 backdrop-blur-sm border border-cyan-400/20"
+        >
+            <h2 className="text-xl font-bold text-cyan-400 flex items-center gap-2">
+                <Link2 className="w-5 h-5" />
+                Connected Accounts
+            </h2>
+            <p className="text-cyan-100/60 text-sm mt-1 mb-6">
+                Sign in with any of these. Your bookings and points stay on this account.
+            </p>
+
+            <div className="space-y-3">
+                {rows.map(provider => {
+                    const account = accounts.find(a => a.provider === provider.id)
+
+                    return (
+                        <div
+                            key={provider.id}
+                            className="flex items-center justify-between gap-4 p-4 rounded-lg bg-black/30 border border-cyan-400/10"
+                        >
+                            <div className="min-w-0">
+                                <p className="text-sm font-medium text-cyan-100 flex items-center gap-2">
+                                    {account && <CheckCircle className="w-4 h-4 text-green-400" />}
+                                    {provider.name}
+                                </p>
+                                <p className="text-xs text-cyan-100/50 mt-1 truncate">
+                                    {account
+                                        ? `${account.email || "Connected"} · since ${format(new Date(account.createdAt), "MMM d, yyyy")}`
+                                        : "Not connected"}
+                                </p>
+                            </div>
+                            {account ? (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleDisconnect(provider.id)}
+                                    disabled={busyProvider !== null}
+                                    className="border-red-400/30 text-red-300 hover:bg-red-400/10"
+                                >
+                                    {busyProvider === provider.id ? "Disconnecting..." : "Disconnect"}
+                                </Button>
+                            ) : (
+                                <Button
+                                    size="sm"
+                                    onClick={() => handleConnect(provider.id)}
+                                    disabled={busyProvider !== null}
+                                    className="bg-cyan-500 hover:bg-cyan-600 text-white"
+                                >
+                                    {busyProvider === provider.id ? "Connecting..." : "Connect"}
+                                </Button>
+                            )}
+                        </div>
+                    )
+                })}
+
+                <div className="flex items-center gap-3 p-4 rounded-lg bg-black/30 border border-cyan-400/10">
+                    <KeyRound className="w-4 h-4 text-cyan-400" />
+                    <div>
+                        <p className="text-sm font-medium text-cyan-100">Email & Password</p>
+                        <p className="text-xs text-cyan-100/50 mt-1">
+                            {hasPassword
+                                ? "You can also sign in with your password"
+                                : "No password set. Use \"Forgot password?\" on the sign-in form to add one."}
+                        </p>
+                    </div>
+                </div>
+            </div>
+        </motion.div>
+    )
+}
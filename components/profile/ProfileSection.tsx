@@ -12,19 +12,21 @@ import { getUserBookings } from "@/app/actions/bookings"
 export function ProfileSection() {
     const { data: session, status } = useSession()
     const [bookings, setBookings] = useState<any[]>([])
+    const [cutoffHours, setCutoffHours] = useState<number | undefined>()
     const [isLoading, setIsLoading] = useState(true)
 
-    useEffect(() => {
-        const fetchBookings = async () => {
-            if (session?.user) {
-                const result = await getUserBookings()
-                if (result.success) {
-                    setBookings(result.bookings)
-                }
-                setIsLoading(false)
+    const fetchBookings = async () => {
+        if (session?.user) {
+            const result = await getUserBookings()
+            if (result.success) {
+                setBookings(result.bookings)
+                setCutoffHours(result.cutoffHours)
             }
+            setIsLoading(false)
         }
+    }
 
+    useEffect(() => {
         if (status === "authenticated") {
             fetchBookings()
         }
@@ -98,7 +100,11 @@ export function ProfileSection() {
                     transition={{ delay: 0.3 }}
                     className="lg:col-span-2"
                 >
-                    <BookingHistory bookings={bookings} />
+                    <BookingHistory
+                        bookings={bookings}
+                        cutoffHours={cutoffHours}
+                        onChange={fetchBookings}
+                    />
                 </motion.div>
             </div>
         </div>
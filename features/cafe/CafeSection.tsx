@@ -6,12 +6,13 @@ import dynamic from 'next/dynamic'
 import type { CalendarEvent } from '@/components/common'
 import { CalendarSkeleton } from '@/components/skeletons'
 import { Skeleton } from '@/components/ui/skeleton'
-import { getApprovedBookings, createBooking } from '@/app/actions/bookings'
+import { getApprovedBookings, createBooking, joinWaitlist } from '@/app/actions/bookings'
 import { getPublishedEvents } from '@/app/actions/events'
 import { getPublishedPricingPackages } from '@/app/actions/pricing'
 import { logger } from '@/lib/logger'
 import { toast } from 'sonner'
 import { useSession } from 'next-auth/react'
+import { useQueryClient } from '@tanstack/react-query'
 import { format } from 'date-fns'
 import { sr } from 'date-fns/locale'
 import { useNavigationStore } from '@/stores/navigationStore'
@@ -62,6 +63,7 @@ export const CafeSection = memo(() => {
   // Get navigation state directly from Zustand store - no props needed!
   const { cafeSubView, setCafeSubView } = useNavigationStore()
   const { data: session } = useSession()
+  const queryClient = useQueryClient()
 
   // Event calendar state
   const [events, setEvents] = useState<CalendarEvent[]>([])
@@ -239,24 +241,45 @@ export const CafeSection = memo(() => {
     try {
       setIsLoading(true)
 
-      // Create booking in database
-      const result = await createBooking({
+      const bookingData = {
         title: newEvent.title,
         date: newEvent.date,
         time: newEvent.time,
+        duration: newEvent.duration,
         type: newEvent.type,
         guestCount: newEvent.guestCount || 1,
         phone: newEvent.phone || '',
         email: newEvent.email || '',
         specialRequests: newEvent.specialRequests,
-      })
+      }
+
+      // Create booking in database
+      const result = await createBooking(bookingData)
 
       if (result.success) {
         toast.success('Rezervacija poslata! Kontaktiraćemo vas uskoro.')
         setShowBookingForm(false)
         setSelectedDate(null)
-        // Refresh bookings list
+        // Refresh bookings list and the availability grid used by the pickers
         await fetchBookings()
+        queryClient.invalidateQueries({ queryKey: ['availability'] })
+      } else if (result.conflictType) {
+        // Slot is taken - let the customer queue for it
+        toast.error(result.error, {
+          duration: 10000,
+          action: {
+            label: 'Lista čekanja',
+            onClick: async () => {
+              const waitlistResult = await joinWaitlist(bookingData)
+              if (waitlistResult.success) {
+                toast.success('Dodati ste na listu čekanja. Javićemo vam se ako se termin oslobodi.')
+                setShowBookingForm(false)
+              } else {
+                toast.error(waitlistResult.error || 'Greška pri prijavi na listu čekanja')
+              }
+            },
+          },
+        })
       } else {
         toast.error(result.error || 'Greška pri slanju rezervacije')
       }
@@ -266,7 +289,7 @@ export const CafeSection = memo(() => {
     } finally {
       setIsLoading(false)
     }
-  }, [fetchBookings])
+  }, [fetchBookings, queryClient])
 
   // Handle date click from calendar (memoized)
   const handleDateClick = useCallback((date: Date) => {
@@ -630,7 +653,7 @@ export const CafeSection = memo(() => {
                         <div className="space-y-4">
                           {publishedEvents.map((event, index) => (
                             <motion.div
-                              key={event.id}
+                              key={`${event.id}:${event.occurrenceDate}`}
                               className="bg-white/5 border border-purple-400/20 rounded-lg p-4"
                               initial={{ opacity: 0, y: 20 }}
                               animate={{ opacity: 1, y: 0 }}
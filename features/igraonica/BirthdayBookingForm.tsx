@@ -1,13 +1,21 @@
 'use client'
 
-import { useEffect, useState, memo } from 'react'
+import { useEffect, useMemo, useState, memo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Calendar, Users, Clock, Mail, Phone, User, Cake, ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
+import { useQueryClient } from '@tanstack/react-query'
 import { logger } from '@/lib/logger'
 import { ThemeCalendarPicker } from '@/components/common/ThemeCalendarPicker'
 import { ThemeTimePicker } from '@/components/common/ThemeTimePicker'
-import { createBooking } from '@/app/actions/bookings'
+import { createBooking, joinWaitlist } from '@/app/actions/bookings'
+import { getPriceQuote } from '@/app/actions/pricing'
+import { getBookingCatalog } from '@/app/actions/catalog'
+import { getItemQuantities, type PriceQuote } from '@/lib/pricing'
+import { getCatalogCode, type BookingCatalog } from '@/lib/catalog'
+import { BookingCheckout } from './BookingCheckout'
+import { getDefaultDuration } from '@/lib/booking-resources'
+import type { BookingLineItemInput, CreateBookingInput } from '@/lib/validations'
 
 /**
  * BirthdayBookingForm Component
@@ -28,7 +36,8 @@ interface BirthdayBookingFormProps {
   initialKidsLabel?: string
   initialDurationMinutes?: number | string
   initialDurationLabel?: string
-  initialTotalPrice?: number  // Total price from PlayRoom selection
+  initialPriceItems?: string[]  // Price codes picked in PlayRoomBookingForm, for the quote shown (see lib/pricing.ts)
+  onBookingComplete?: () => void  // Called once the checkout step is finished or skipped
 }
 
 interface FormData {
@@ -43,69 +52,14 @@ interface FormData {
   playroomDuration: string
   selectedRooms: string[]
   includeFoodBeverages: boolean
-  includeCakeBeverages: boolean
+  selectedAddons: string[]
   selectedFood: string[]
   selectedBeverages: string[]
+  quantities: Record<string, number>  // Servings per selected food/beverage id, defaults to the guest count
   specialRequests: string
 }
 
-const AVAILABLE_ROOMS = [
-  { id: 'cake-room', name: 'Cake Room', icon: '🎂' },
-  { id: '270-room', name: '270 Room', icon: '🎮' },
-  { id: 'slide-room', name: 'Slide Room', icon: '🛝' },
-  { id: 'sensory-room', name: 'Sensory Room', icon: '✨' },
-  { id: 'mini-disco-room', name: 'Mini Disco Room', icon: '🪩' }
-]
-
-const FOOD_OPTIONS = [
-  {
-    id: 'pizza',
-    name: 'Pizza',
-    icon: '🍕',
-    description: 'Fresh baked pizza',
-    hasSubmenu: true,
-    submenuOptions: [
-      { id: 'pizza-kfc', name: 'KFC', description: 'KFC style pizza' },
-      { id: 'pizza-la-strega', name: 'La Strega', description: 'La Strega pizza' }
-    ]
-  },
-  {
-    id: 'pasta',
-    name: 'Pasta',
-    icon: '🍝',
-    description: 'Kid-friendly pasta dishes',
-    hasSubmenu: true,
-    submenuOptions: [
-      { id: 'pasta-pastara', name: 'Pastara', description: 'Pastara style pasta' },
-      { id: 'pasta-la-strega', name: 'La Strega', description: 'La Strega pasta' }
-    ]
-  },
-  { id: 'sandwiches', name: 'Sandwiches', icon: '🥪', description: 'Assorted sandwiches', hasSubmenu: false },
-  {
-    id: 'chicken-nuggets',
-    name: 'Chicken Nuggets',
-    icon: '🍗',
-    description: 'Crispy chicken nuggets',
-    hasSubmenu: true,
-    submenuOptions: [
-      { id: 'chicken-nuggets-kfc', name: 'KFC', description: 'KFC chicken nuggets' }
-    ]
-  },
-  { id: 'fries', name: 'French Fries', icon: '🍟', description: 'Golden french fries', hasSubmenu: false },
-  { id: 'fruit-platter', name: 'Fruit Platter', icon: '🍇', description: 'Fresh seasonal fruits', hasSubmenu: false },
-  { id: 'sweets', name: 'Sweets & Candy', icon: '🍬', description: 'Assorted sweets and candy', hasSubmenu: false },
-  { id: 'birthday-cake', name: 'Birthday Cake', icon: '🎂', description: 'Custom birthday cake', hasSubmenu: false }
-]
-
-const BEVERAGE_OPTIONS = [
-  { id: 'orange-juice', name: 'Orange Juice', icon: '🍊', description: 'Fresh orange juice' },
-  { id: 'apple-juice', name: 'Apple Juice', icon: '🍎', description: 'Fresh apple juice' },
-  { id: 'lemonade', name: 'Lemonade', icon: '🍋', description: 'Homemade lemonade' },
-  { id: 'water', name: 'Water', icon: '💧', description: 'Still & sparkling water' },
-  { id: 'soft-drinks', name: 'Soft Drinks', icon: '🥤', description: 'Assorted soft drinks' },
-  { id: 'milkshakes', name: 'Milkshakes', icon: '🥛', description: 'Chocolate, vanilla, strawberry' },
-  { id: 'hot-chocolate', name: 'Hot Chocolate', icon: '☕', description: 'Warm hot chocolate' }
-]
+const EMPTY_CATALOG: BookingCatalog = { ROOM: [], FOOD: [], BEVERAGE: [], ADDON: [] }
 
 export const BirthdayBookingForm = memo(function BirthdayBookingForm({
   onBack,
@@ -115,8 +69,10 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
   initialKidsLabel,
   initialDurationMinutes,
   initialDurationLabel,
-  initialTotalPrice = 0
+  initialPriceItems = [],
+  onBookingComplete
 }: BirthdayBookingFormProps) {
+  const queryClient = useQueryClient()
   const [minDate, setMinDate] = useState<string>('')
   const [formData, setFormData] = useState<FormData>({
     childName: '',
@@ -134,14 +90,116 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
         : '',
     selectedRooms: initialSelectedRooms,
     includeFoodBeverages: false,
-    includeCakeBeverages: false,
+    selectedAddons: [],
     selectedFood: [],
     selectedBeverages: [],
+    quantities: {},
     specialRequests: ''
   })
 
+  const bookingType = variant === 'birthday' ? 'PARTY' : 'PLAYGROUND'
+  // Playroom sessions use the length picked in PlayRoomBookingForm, parties use the room default
+  const bookingDuration = initialDurationMinutes
+    ? Number(initialDurationMinutes)
+    : getDefaultDuration(bookingType, formData.selectedRooms)
+
   const isGuestsLocked = Boolean(initialKidsCount)
 
+  const guestCount = parseInt(formData.numberOfGuests) || 1
+  const getQuantity = (id: string) => formData.quantities[id] ?? guestCount
+
+  const setQuantity = (id: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      quantities: { ...prev.quantities, [id]: Math.min(Math.max(parseInt(value) || 1, 1), 500) }
+    }))
+  }
+
+  // Rooms, menu and extras are managed in /admin/catalog
+  const [catalog, setCatalog] = useState<BookingCatalog>(EMPTY_CATALOG)
+
+  useEffect(() => {
+    getBookingCatalog()
+      .then(result => setCatalog(result.catalog))
+      .catch(error => {
+        logger.error('Failed to load booking catalog', error instanceof Error ? error : new Error(String(error)))
+      })
+  }, [])
+
+  // Menu items and extras ordered; the server names them from the catalog
+  const lineItems = useMemo(() => {
+    const items: BookingLineItemInput[] = []
+
+    if (formData.includeFoodBeverages) {
+      for (const foodId of formData.selectedFood) {
+        const food = catalog.FOOD.find(option =>
+          option.id === foodId || option.variants.some(variant => variant.id === foodId)
+        )
+        if (!food) continue
+        const variant = food.variants.find(entry => entry.id === foodId)
+        items.push({
+          code: food.code,
+          variant: variant?.id,
+          quantity: formData.quantities[foodId] ?? guestCount,
+        })
+      }
+
+      for (const beverageId of formData.selectedBeverages) {
+        const beverage = catalog.BEVERAGE.find(option => option.id === beverageId)
+        if (!beverage) continue
+        items.push({ code: beverage.code, quantity: formData.quantities[beverageId] ?? guestCount })
+      }
+    }
+
+    for (const addonId of formData.selectedAddons) {
+      const addon = catalog.ADDON.find(option => option.id === addonId)
+      if (!addon) continue
+      items.push({ code: addon.code, quantity: guestCount })
+    }
+
+    return items
+  }, [catalog, formData.includeFoodBeverages, formData.selectedFood, formData.selectedBeverages, formData.quantities, formData.selectedAddons, guestCount])
+
+  const [quote, setQuote] = useState<PriceQuote | null>(null)
+  // Serialized so the effect only reruns when the order actually changes
+  const quoteKey = JSON.stringify({
+    items: [
+      ...initialPriceItems,
+      ...formData.selectedRooms.map(roomId => getCatalogCode('ROOM', roomId)),
+      ...lineItems.map(item => item.code),
+    ],
+    quantities: getItemQuantities(lineItems),
+  })
+
+  // Refresh the quote whenever the order, guest count or date changes
+  useEffect(() => {
+    const { items, quantities } = JSON.parse(quoteKey) as { items: string[]; quantities: Record<string, number> }
+    if (items.length === 0) {
+      setQuote(null)
+      return
+    }
+
+    let cancelled = false
+    getPriceQuote({
+      items,
+      guestCount,
+      quantities,
+      date: formData.partyDate ? new Date(`${formData.partyDate}T12:00:00`) : undefined,
+    })
+      .then(result => {
+        if (!cancelled) {
+          setQuote(result.success && result.quote ? result.quote : null)
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to load price quote', error instanceof Error ? error : new Error(String(error)))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [quoteKey, guestCount, formData.partyDate])
+
   // Lock date picker to today or later to avoid past selections
   useEffect(() => {
     const today = new Date()
@@ -157,6 +215,7 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
   const [showTimePicker, setShowTimePicker] = useState(false)
 
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [checkoutBookingId, setCheckoutBookingId] = useState<string | null>(null)
 
   // Theme configuration
   const theme = {
@@ -263,39 +322,31 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
         ? `Birthday Party - ${formData.childName} (Age ${formData.childAge})`
         : `Playroom Booking - ${formData.childName} (Age ${formData.childAge})`
 
-      // Build special requests with all additional info
-      const specialRequestsDetails = [
-        formData.specialRequests,
-        `Parent: ${formData.parentName}`,
-        `Child: ${formData.childName} (${formData.childAge} years old)`,
-        initialSelectedRooms.length > 0 ? `Selected Rooms: ${initialSelectedRooms.join(', ')}` : '',
-        formData.playroomDuration ? `Duration: ${formData.playroomDuration}` : '',
-        formData.includeFoodBeverages ? `Food & Beverages: ${formData.selectedFood.join(', ')} | ${formData.selectedBeverages.join(', ')}` : '',
-        formData.includeCakeBeverages ? 'Includes Cake & Beverages' : '',
-        initialTotalPrice > 0 ? `Estimated Total: ${initialTotalPrice} RSD` : '',
-      ].filter(Boolean).join('\n')
-
-      // Create booking via server action
-      const result = await createBooking({
+      const bookingData: CreateBookingInput = {
         title: bookingTitle,
         date: formData.partyDate as any,
         time: formData.partyTime,
-        type: variant === 'birthday' ? 'PARTY' : 'PLAYGROUND',
+        type: bookingType,
+        duration: bookingDuration,
         guestCount: parseInt(formData.numberOfGuests),
         phone: formData.phone,
         email: formData.email,
-        specialRequests: specialRequestsDetails,
-        // Price tracking for loyalty points calculation
-        ...(initialTotalPrice > 0 && {
-          totalAmount: initialTotalPrice,
-          currency: 'RSD',
-          isPaid: false, // Booking starts as unpaid
-        }),
-      })
+        specialRequests: formData.specialRequests || undefined,
+        resourceIds: formData.selectedRooms,
+        childName: formData.childName,
+        childAge: parseInt(formData.childAge),
+        parentName: formData.parentName,
+        // Priced on the server from what was booked (see lib/pricing.ts)
+        lineItems,
+      }
+
+      // Create booking via server action
+      const result = await createBooking(bookingData)
 
       if (result.success) {
         logger.debug('Booking created successfully', { bookingId: result.booking?.id })
         toast.success('Booking request sent! We\'ll contact you soon to confirm.')
+        queryClient.invalidateQueries({ queryKey: ['availability'] })
 
         // Reset form
         setFormData({
@@ -310,12 +361,34 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
           playroomDuration: '',
           selectedRooms: [],
           includeFoodBeverages: false,
-          includeCakeBeverages: false,
+          selectedAddons: [],
           selectedFood: [],
           selectedBeverages: [],
+          quantities: {},
           specialRequests: ''
         })
         setErrors({})
+
+        // Move on to the deposit checkout (skipped when payments are off)
+        if (result.booking) {
+          setCheckoutBookingId(result.booking.id)
+        }
+      } else if (result.conflictType) {
+        // Slot is taken - let the customer queue for it
+        toast.error(result.error, {
+          duration: 10000,
+          action: {
+            label: 'Join waitlist',
+            onClick: async () => {
+              const waitlistResult = await joinWaitlist(bookingData)
+              if (waitlistResult.success) {
+                toast.success(waitlistResult.message)
+              } else {
+                toast.error(waitlistResult.error || 'Failed to join waitlist')
+              }
+            },
+          },
+        })
       } else {
         throw new Error(result.error || 'Failed to create booking')
       }
@@ -327,6 +400,27 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
     }
   }
 
+  if (checkoutBookingId) {
+    return (
+      <div className="w-full min-h-screen flex items-center justify-center py-12 px-4">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={`w-full max-w-xl bg-black/40 backdrop-blur-sm border ${theme.border} rounded-2xl p-6 md:p-8`}
+        >
+          <BookingCheckout
+            bookingId={checkoutBookingId}
+            theme={theme}
+            onDone={() => {
+              setCheckoutBookingId(null)
+              onBookingComplete?.()
+            }}
+          />
+        </motion.div>
+      </div>
+    )
+  }
+
   return (
     <div className="w-full min-h-screen flex items-center justify-center py-12 px-4">
       <motion.div
@@ -591,7 +685,9 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                         endHour={22}
                         interval={30}
                         selectedDate={formData.partyDate}
-                        duration={120}
+                        duration={bookingDuration}
+                        bookingType={bookingType}
+                        resourceIds={formData.selectedRooms}
                         onClose={() => setShowTimePicker(false)}
                       />
                     )}
@@ -637,7 +733,7 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                 </p>
                 <div className="flex flex-wrap gap-2">
                   {formData.selectedRooms.map(roomId => {
-                    const room = AVAILABLE_ROOMS.find(r => r.id === roomId)
+                    const room = catalog.ROOM.find(r => r.id === roomId)
                     return room ? (
                       <span
                         key={roomId}
@@ -694,42 +790,50 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                 )}
               </motion.button>
 
-              {/* Cake + Beverages Button */}
-              <motion.button
-                type="button"
-                onClick={() => {
-                  setFormData(prev => ({
-                    ...prev,
-                    includeCakeBeverages: !prev.includeCakeBeverages
-                  }))
-                }}
-                className={`flex-1 flex items-center gap-3 px-6 py-4 border-2 rounded-lg transition-all ${formData.includeCakeBeverages
-                  ? `${theme.borderActive} ${theme.bgDim}`
-                  : `${theme.border} bg-black/30 ${theme.borderHover}`
-                  }`}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <div className="text-3xl">🎂🥤</div>
-                <div className="text-left flex-1">
-                  <div className={`${theme.text} font-semibold text-lg`}>Cake + Beverages</div>
-                  <div className={`${theme.textDim} text-sm`}>
-                    {formData.includeCakeBeverages ? 'Included - Click to remove' : 'Click to add cake and drinks'}
-                  </div>
-                </div>
-                {formData.includeCakeBeverages && (
-                  <motion.div
-                    className={`w-6 h-6 ${theme.bg} rounded-full flex items-center justify-center`}
-                    initial={{ scale: 0 }}
-                    animate={{ scale: 1 }}
-                    transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+              {/* Extras from the catalog, e.g. Cake + Beverages */}
+              {catalog.ADDON.map(addon => {
+                const isSelected = formData.selectedAddons.includes(addon.id)
+                return (
+                  <motion.button
+                    key={addon.id}
+                    type="button"
+                    onClick={() => {
+                      setFormData(prev => ({
+                        ...prev,
+                        selectedAddons: isSelected
+                          ? prev.selectedAddons.filter(id => id !== addon.id)
+                          : [...prev.selectedAddons, addon.id]
+                      }))
+                    }}
+                    className={`flex-1 flex items-center gap-3 px-6 py-4 border-2 rounded-lg transition-all ${isSelected
+                      ? `${theme.borderActive} ${theme.bgDim}`
+                      : `${theme.border} bg-black/30 ${theme.borderHover}`
+                      }`}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
                   >
-                    <svg className="w-4 h-4 text-black" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                    </svg>
-                  </motion.div>
-                )}
-              </motion.button>
+                    <div className="text-3xl">{addon.icon}</div>
+                    <div className="text-left flex-1">
+                      <div className={`${theme.text} font-semibold text-lg`}>{addon.name}</div>
+                      <div className={`${theme.textDim} text-sm`}>
+                        {isSelected ? 'Included - Click to remove' : addon.description || 'Click to add'}
+                      </div>
+                    </div>
+                    {isSelected && (
+                      <motion.div
+                        className={`w-6 h-6 ${theme.bg} rounded-full flex items-center justify-center`}
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                      >
+                        <svg className="w-4 h-4 text-black" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                        </svg>
+                      </motion.div>
+                    )}
+                  </motion.button>
+                )
+              })}
             </div>
 
             {/* Food & Beverage Options - Shown when included */}
@@ -746,9 +850,10 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                     <h4 className={`text-lg font-semibold ${theme.text} mb-3`}>Food Options</h4>
                     <p className={`${theme.textDim} text-sm mb-3`}>Select the food items you'd like</p>
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-                      {FOOD_OPTIONS.map((food) => {
+                      {catalog.FOOD.map((food) => {
+                        const hasVariants = food.variants.length > 0
                         const isSelected = formData.selectedFood.some(id =>
-                          id === food.id || (food.hasSubmenu && food.submenuOptions?.some(sub => id === sub.id))
+                          id === food.id || food.variants.some(variant => id === variant.id)
                         )
                         const hasOpenSubmenu = openSubmenu === food.id
 
@@ -757,7 +862,7 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                             <motion.button
                               type="button"
                               onClick={() => {
-                                if (food.hasSubmenu) {
+                                if (hasVariants) {
                                   // Toggle submenu
                                   setOpenSubmenu(hasOpenSubmenu ? null : food.id)
                                 } else {
@@ -780,12 +885,12 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                               <div className="text-2xl mb-2">{food.icon}</div>
                               <div className={`${theme.text} font-semibold text-sm mb-1 flex items-center justify-between`}>
                                 {food.name}
-                                {food.hasSubmenu && (
+                                {hasVariants && (
                                   <span className={`text-xs ${theme.textDimmer}`}>▼</span>
                                 )}
                               </div>
                               <div className={`${theme.textDimmer} text-xs`}>{food.description}</div>
-                              {isSelected && !food.hasSubmenu && (
+                              {isSelected && !hasVariants && (
                                 <motion.div
                                   className={`absolute -top-1 -right-1 w-5 h-5 ${theme.bg} rounded-full flex items-center justify-center`}
                                   initial={{ scale: 0 }}
@@ -801,7 +906,7 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
 
                             {/* Submenu */}
                             <AnimatePresence>
-                              {hasOpenSubmenu && food.submenuOptions && (
+                              {hasOpenSubmenu && hasVariants && (
                                 <motion.div
                                   initial={{ opacity: 0, height: 0, marginTop: 0 }}
                                   animate={{ opacity: 1, height: 'auto', marginTop: 8 }}
@@ -810,7 +915,7 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                                   className="overflow-hidden"
                                 >
                                   <div className={`p-2 border ${theme.border} rounded-lg ${theme.bgDimmer} space-y-2`}>
-                                    {food.submenuOptions.map((submenu) => {
+                                    {food.variants.map((submenu) => {
                                       const isSubmenuSelected = formData.selectedFood.includes(submenu.id)
                                       return (
                                         <motion.button
@@ -850,30 +955,46 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                         animate={{ opacity: 1, y: 0 }}
                         className={`mt-3 p-3 ${theme.bgDimmer} border ${theme.border} rounded-lg`}
                       >
-                        <p className={`${theme.textDim} text-xs mb-2`}>Selected Food ({formData.selectedFood.length}):</p>
+                        <p className={`${theme.textDim} text-xs mb-2`}>Selected Food ({formData.selectedFood.length}) - servings:</p>
                         <div className="flex flex-wrap gap-2">
                           {formData.selectedFood.map(foodId => {
                             // Check if it's a main food item
-                            const food = FOOD_OPTIONS.find(f => f.id === foodId)
+                            const food = catalog.FOOD.find(f => f.id === foodId)
                             if (food) {
                               return (
                                 <span key={foodId} className={`inline-flex items-center gap-1 px-2 py-1 ${theme.bgDim} rounded-full ${theme.textDim} text-xs`}>
                                   {food.icon} {food.name}
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    max="500"
+                                    value={getQuantity(foodId)}
+                                    onChange={(e) => setQuantity(foodId, e.target.value)}
+                                    aria-label={`Servings of ${food.name}`}
+                                    className={`w-14 ml-1 px-1 bg-black/50 border ${theme.border} rounded text-white text-xs focus:outline-none ${theme.borderFocus}`}
+                                  />
                                 </span>
                               )
                             }
 
-                            // Check if it's a submenu item
-                            for (const mainFood of FOOD_OPTIONS) {
-                              if (mainFood.submenuOptions) {
-                                const submenu = mainFood.submenuOptions.find(s => s.id === foodId)
-                                if (submenu) {
-                                  return (
-                                    <span key={foodId} className={`inline-flex items-center gap-1 px-2 py-1 ${theme.bgDim} rounded-full ${theme.textDim} text-xs`}>
-                                      {mainFood.icon} {mainFood.name} - {submenu.name}
-                                    </span>
-                                  )
-                                }
+                            // Check if it's a variant
+                            for (const mainFood of catalog.FOOD) {
+                              const submenu = mainFood.variants.find(v => v.id === foodId)
+                              if (submenu) {
+                                return (
+                                  <span key={foodId} className={`inline-flex items-center gap-1 px-2 py-1 ${theme.bgDim} rounded-full ${theme.textDim} text-xs`}>
+                                    {mainFood.icon} {mainFood.name} - {submenu.name}
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      max="500"
+                                      value={getQuantity(foodId)}
+                                      onChange={(e) => setQuantity(foodId, e.target.value)}
+                                      aria-label={`Servings of ${mainFood.name} - ${submenu.name}`}
+                                      className={`w-14 ml-1 px-1 bg-black/50 border ${theme.border} rounded text-white text-xs focus:outline-none ${theme.borderFocus}`}
+                                    />
+                                  </span>
+                                )
                               }
                             }
                             return null
@@ -888,7 +1009,7 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                     <h4 className={`text-lg font-semibold ${theme.text} mb-3`}>Beverage Options</h4>
                     <p className={`${theme.textDim} text-sm mb-3`}>Select the drinks you'd like</p>
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-                      {BEVERAGE_OPTIONS.map((beverage) => {
+                      {catalog.BEVERAGE.map((beverage) => {
                         const isSelected = formData.selectedBeverages.includes(beverage.id)
                         return (
                           <motion.button
@@ -934,13 +1055,22 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
                         animate={{ opacity: 1, y: 0 }}
                         className={`mt-3 p-3 ${theme.bgDimmer} border ${theme.border} rounded-lg`}
                       >
-                        <p className={`${theme.textDim} text-xs mb-2`}>Selected Beverages ({formData.selectedBeverages.length}):</p>
+                        <p className={`${theme.textDim} text-xs mb-2`}>Selected Beverages ({formData.selectedBeverages.length}) - servings:</p>
                         <div className="flex flex-wrap gap-2">
                           {formData.selectedBeverages.map(bevId => {
-                            const beverage = BEVERAGE_OPTIONS.find(b => b.id === bevId)
+                            const beverage = catalog.BEVERAGE.find(b => b.id === bevId)
                             return beverage ? (
                               <span key={bevId} className={`inline-flex items-center gap-1 px-2 py-1 ${theme.bgDim} rounded-full ${theme.textDim} text-xs`}>
                                 {beverage.icon} {beverage.name}
+                                <input
+                                  type="number"
+                                  min="1"
+                                  max="500"
+                                  value={getQuantity(bevId)}
+                                  onChange={(e) => setQuantity(bevId, e.target.value)}
+                                  aria-label={`Servings of ${beverage.name}`}
+                                  className={`w-14 ml-1 px-1 bg-black/50 border ${theme.border} rounded text-white text-xs focus:outline-none ${theme.borderFocus}`}
+                                />
                               </span>
                             ) : null
                           })}
@@ -985,8 +1115,8 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
           </p>
         </motion.form>
 
-        {/* Total Price Display - Fixed Bottom Right (only show if from PlayRoom) */}
-        {initialTotalPrice > 0 && (
+        {/* Total Price Display - Fixed Bottom Right */}
+        {quote && quote.total > 0 && (
           <motion.div
             className="fixed bottom-8 right-8 z-50 text-right"
             initial={{ opacity: 0, x: 50 }}
@@ -998,8 +1128,13 @@ export const BirthdayBookingForm = memo(function BirthdayBookingForm({
               className={`text-3xl md:text-5xl font-bold ${theme.text}`}
               style={{ textShadow: theme.glow }}
             >
-              {initialTotalPrice} <span className="text-xl md:text-2xl">RSD</span>
+              {quote.total} <span className="text-xl md:text-2xl">{quote.currency}</span>
             </div>
+            {quote.total !== quote.subtotal && (
+              <div className={`${theme.textDimmer} text-xs mt-1`}>
+                {quote.lines.filter(line => line.code.startsWith('surcharge:')).map(line => line.label).join(', ')}
+              </div>
+            )}
           </motion.div>
         )}
       </motion.div>
@@ -0,0 +1,193 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { CreditCard, CheckCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { logger } from '@/lib/logger'
+import { getBookingCheckout, startBookingCheckout, completeFakeCheckout } from '@/app/actions/payments'
+
+type Checkout = NonNullable<Awaited<ReturnType<typeof getBookingCheckout>>['checkout']>
+
+interface BookingCheckoutProps {
+  bookingId: string
+  theme: {
+    text: string
+    textDim: string
+    textDimmer: string
+    border: string
+    bg: string
+    bgHover: string
+    bgDim: string
+    glow: string
+  }
+  onDone: () => void
+}
+
+/**
+ * Checkout step shown after a booking request is sent
+ *
+ * Offers the deposit for the booking type or the full amount. Skipped
+ * entirely when online payments are disabled or nothing is due.
+ */
+export function BookingCheckout({ bookingId, theme, onDone }: BookingCheckoutProps) {
+  const [checkout, setCheckout] = useState<Checkout | null>(null)
+  const [isPaying, setIsPaying] = useState(false)
+  const [isPaid, setIsPaid] = useState(false)
+  // Parents pass a new onDone every render, so load the checkout once per booking
+  const onDoneRef = useRef(onDone)
+
+  useEffect(() => {
+    onDoneRef.current = onDone
+  }, [onDone])
+
+  useEffect(() => {
+    const loadCheckout = async () => {
+      try {
+        const result = await getBookingCheckout(bookingId)
+
+        if (result.success && result.checkout && result.checkout.balanceDue > 0) {
+          setCheckout(result.checkout)
+        } else {
+          onDoneRef.current()
+        }
+      } catch (error) {
+        logger.error('Failed to load checkout', error instanceof Error ? error : new Error(String(error)))
+        onDoneRef.current()
+      }
+    }
+
+    loadCheckout()
+  }, [bookingId])
+
+  const handlePay = async (kind: 'DEPOSIT' | 'BALANCE') => {
+    setIsPaying(true)
+
+    try {
+      const result = await startBookingCheckout({ bookingId, kind })
+
+      if (!result.success || !result.payment) {
+        toast.error(result.error || 'Failed to start payment')
+        return
+      }
+
+      // Hosted payment page - the provider confirms through the webhook
+      if (result.checkoutUrl) {
+        window.location.href = result.checkoutUrl
+        return
+      }
+
+      const confirmation = await completeFakeCheckout(result.payment.id)
+      if (confirmation.success) {
+        toast.success(confirmation.message)
+        setIsPaid(true)
+      } else {
+        toast.error(confirmation.error || 'Payment failed')
+      }
+    } catch (error) {
+      logger.error('Payment error', error instanceof Error ? error : new Error(String(error)))
+      toast.error('Payment failed. Please try again.')
+    } finally {
+      setIsPaying(false)
+    }
+  }
+
+  if (!checkout) {
+    return (
+      <div className="flex justify-center py-12">
+        <motion.div
+          className={`w-12 h-12 border-4 ${theme.border} border-t-transparent rounded-full`}
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+        />
+      </div>
+    )
+  }
+
+  if (isPaid) {
+    return (
+      <div className="text-center space-y-6 py-8">
+        <CheckCircle className={`w-16 h-16 mx-auto ${theme.text}`} />
+        <p className={`${theme.textDim} text-lg`}>
+          Payment received. We'll contact you soon to confirm your booking.
+        </p>
+        <button
+          type="button"
+          onClick={onDone}
+          className={`px-8 py-3 ${theme.bg} ${theme.bgHover} text-black font-bold rounded-lg transition-all`}
+        >
+          Done
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h3 className={`text-2xl font-semibold ${theme.text} mb-2 flex items-center justify-center gap-2`}>
+          <CreditCard className="w-6 h-6" />
+          Secure Your Booking
+        </h3>
+        <p className={theme.textDim}>
+          Your request was sent. Pay a deposit now to hold your spot.
+        </p>
+      </div>
+
+      <div className={`p-4 rounded-xl border ${theme.border} ${theme.bgDim} space-y-2`}>
+        <div className={`flex justify-between ${theme.textDim}`}>
+          <span>Total</span>
+          <span>{checkout.totalAmount} {checkout.currency}</span>
+        </div>
+        {checkout.paidAmount > 0 && (
+          <div className={`flex justify-between ${theme.textDim}`}>
+            <span>Already paid</span>
+            <span>{checkout.paidAmount} {checkout.currency}</span>
+          </div>
+        )}
+        {checkout.depositDue > 0 && (
+          <div className={`flex justify-between font-semibold ${theme.text}`}>
+            <span>Deposit due now</span>
+            <span>{checkout.depositDue} {checkout.currency}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        {checkout.depositDue > 0 && checkout.depositDue < checkout.balanceDue && (
+          <button
+            type="button"
+            onClick={() => handlePay('DEPOSIT')}
+            disabled={isPaying}
+            className={`w-full py-4 ${theme.bg} ${theme.bgHover} text-black font-bold text-lg rounded-lg transition-all disabled:opacity-50`}
+            style={{ boxShadow: theme.glow }}
+          >
+            {isPaying ? 'Processing...' : `Pay Deposit (${checkout.depositDue} ${checkout.currency})`}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => handlePay('BALANCE')}
+          disabled={isPaying}
+          className={`w-full py-3 border ${theme.border} ${theme.text} font-semibold rounded-lg transition-all disabled:opacity-50`}
+        >
+          {isPaying ? 'Processing...' : `Pay in Full (${checkout.balanceDue} ${checkout.currency})`}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          disabled={isPaying}
+          className={`${theme.textDimmer} text-sm underline`}
+        >
+          Pay later
+        </button>
+      </div>
+
+      {checkout.provider === 'fake' && (
+        <p className={`text-center ${theme.textDimmer} text-xs`}>
+          Test mode - no card will be charged
+        </p>
+      )}
+    </div>
+  )
+}
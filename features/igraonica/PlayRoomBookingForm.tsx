@@ -7,6 +7,9 @@ import { ArrowLeft, Check } from 'lucide-react'
 import { toast } from 'sonner'
 import { useSession } from 'next-auth/react'
 import { BirthdayBookingForm } from './BirthdayBookingForm'
+import { getPriceCatalog, getPriceQuote } from '@/app/actions/pricing'
+import { getBookingCatalog } from '@/app/actions/catalog'
+import type { CatalogOption } from '@/lib/catalog'
 
 // Lazy load SignInModal - only loads when user clicks to sign in
 const SignInModal = dynamic(() => import('@/components/auth/SignInModal').then(m => ({ default: m.SignInModal })), {
@@ -20,7 +23,6 @@ interface PlayRoomBookingFormProps {
 interface BookingItem {
     id: string
     name: string
-    price: number
     position: { [key: string]: string | number }
     mandatory?: boolean
 }
@@ -29,26 +31,22 @@ const PLAY_ROOM_ITEMS: BookingItem[] = [
     {
         id: 'sensory-room',
         name: 'Sensory Room',
-        price: 5000,
         position: { top: '25%', left: '45%', transform: 'translateX(-50%)' },
         mandatory: true
     },
     {
         id: 'slide-room',
         name: 'Slide Room',
-        price: 6000,
         position: { top: '50%', right: '10%', transform: 'translateY(-50%)' }
     },
     {
-        id: 'minidisco',
+        id: 'mini-disco-room',
         name: 'Minidisco',
-        price: 4000,
         position: { top: '50%', left: '10%', transform: 'translateY(-50%)' }
     },
     {
         id: 'cake-room',
         name: 'Cake Room',
-        price: 4000,
         position: { bottom: '20%', left: '45%', transform: 'translateX(-50%)' },
         mandatory: true
     }
@@ -63,14 +61,14 @@ const ROTATING_TEXTS = [
 ]
 
 const KIDS_CAPACITY_OPTIONS = [
-    { id: 'up-to-10', label: 'Up to 10 Kids', capacity: 10, price: 1000, icon: '👶' },
-    { id: 'up-to-20', label: 'Up to 20 Kids', capacity: 20, price: 2000, icon: '🧒' },
-    { id: 'up-to-30', label: 'Up to 30 Kids', capacity: 30, price: 3000, icon: '🎉' }
+    { id: 'up-to-10', label: 'Up to 10 Kids', capacity: 10, icon: '👶' },
+    { id: 'up-to-20', label: 'Up to 20 Kids', capacity: 20, icon: '🧒' },
+    { id: 'up-to-30', label: 'Up to 30 Kids', capacity: 30, icon: '🎉' }
 ]
 
 const TIME_DURATION_OPTIONS = [
-    { id: '30-min', label: '30 Minutes', duration: 30, price: 1000, icon: '⏱️' },
-    { id: '45-min', label: '45 Minutes', duration: 45, price: 1500, icon: '🕒' }
+    { id: '30-min', label: '30 Minutes', duration: 30, icon: '⏱️' },
+    { id: '45-min', label: '45 Minutes', duration: 45, icon: '🕒' }
 ]
 
 export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }: PlayRoomBookingFormProps) {
@@ -84,6 +82,19 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
     const [currentTextIndex, setCurrentTextIndex] = useState(0)
     const [isMobile, setIsMobile] = useState(false)
     const [showSignInModal, setShowSignInModal] = useState(false)
+    const [prices, setPrices] = useState<Record<string, number>>({})
+    const [totalPrice, setTotalPrice] = useState(0)
+    const [catalogRooms, setCatalogRooms] = useState<CatalogOption[]>([])
+
+    // Rooms switched off in /admin/catalog are hidden, names come from the catalog.
+    // Until the catalog loads (or if it has no rooms) all rooms are shown.
+    const rooms = useMemo(() => {
+        if (catalogRooms.length === 0) return PLAY_ROOM_ITEMS
+        return PLAY_ROOM_ITEMS.flatMap(item => {
+            const room = catalogRooms.find(option => option.id === item.id)
+            return room ? [{ ...item, name: room.name }] : []
+        })
+    }, [catalogRooms])
 
     // Pink neon glow for Play Room theme
     const neonPinkGlow = '0 0 10px #ec4899, 0 0 20px #ec4899, 0 0 30px #ec4899'
@@ -118,9 +129,20 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
         return () => clearInterval(interval)
     }, [step])
 
+    // Load the rooms offered for booking
+    useEffect(() => {
+        getBookingCatalog().then(result => {
+            const available = result.catalog.ROOM
+            setCatalogRooms(available)
+            if (available.length > 0) {
+                setSelectedItems(prev => prev.filter(id => available.some(room => room.id === id)))
+            }
+        })
+    }, [])
+
     const toggleItem = (id: string) => {
         // Check if item is mandatory
-        const item = PLAY_ROOM_ITEMS.find(i => i.id === id)
+        const item = rooms.find(i => i.id === id)
         if (item?.mandatory) {
             // Show toast that this item is required
             toast.error(`${item.name} is required and cannot be deselected`)
@@ -134,22 +156,34 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
         )
     }
 
-    const totalPrice = useMemo(() => {
-        const base = selectedItems.reduce((sum, id) => {
-            const item = PLAY_ROOM_ITEMS.find(i => i.id === id)
-            return sum + (item?.price || 0)
-        }, 0)
+    // Price codes for the server-side quote (see lib/pricing.ts)
+    const priceItems = useMemo(() => [
+        ...selectedItems.map(id => `room:${id}`),
+        ...(selectedCapacity ? [`kids:${selectedCapacity}`] : []),
+        ...(selectedDuration ? [`duration:${selectedDuration}`] : []),
+    ], [selectedItems, selectedCapacity, selectedDuration])
 
-        const capacityPrice = selectedCapacity
-            ? (KIDS_CAPACITY_OPTIONS.find(opt => opt.id === selectedCapacity)?.price || 0)
-            : 0
+    // Load the price list once for the per-option prices
+    useEffect(() => {
+        getPriceCatalog().then(result => {
+            setPrices(Object.fromEntries(result.items.map(item => [item.code, item.amount])))
+        })
+    }, [])
 
-        const durationPrice = selectedDuration
-            ? (TIME_DURATION_OPTIONS.find(opt => opt.id === selectedDuration)?.price || 0)
-            : 0
+    // Total comes from the server so it matches what the booking is charged
+    useEffect(() => {
+        let cancelled = false
+        getPriceQuote({ items: priceItems, guestCount: 1 }).then(result => {
+            if (!cancelled) {
+                setTotalPrice(result.success && result.quote ? result.quote.total : 0)
+            }
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [priceItems])
 
-        return base + capacityPrice + durationPrice
-    }, [selectedItems, selectedCapacity, selectedDuration])
+    const formatPrice = (code: string) => prices[code] !== undefined ? `${prices[code]} RSD` : ''
 
     const handleContinue = () => {
         if (!selectedCapacity) {
@@ -171,6 +205,14 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
         setStep('details')
     }
 
+    // Start over once the booking is sent and the checkout step is done
+    const handleBookingComplete = () => {
+        setSelectedItems(mandatoryItems)
+        setSelectedCapacity(null)
+        setSelectedDuration(null)
+        setStep('selection')
+    }
+
     const handleBack = () => {
         if (step === 'details') {
             setStep('selection')
@@ -310,7 +352,7 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
                         exit={{ opacity: 0, transition: { duration: 0.5 } }}
                     >
                         {/* Scattered Items */}
-                        {PLAY_ROOM_ITEMS.map((item, index) => {
+                        {rooms.map((item, index) => {
                             const isSelected = selectedItems.includes(item.id)
 
                             const exitX = item.position.left ? '-100vw' : '100vw'
@@ -351,7 +393,7 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
                                             )}
                                         </div>
                                         <span className={`text-sm md:text-base transition-colors ${isSelected ? 'text-pink-300' : 'text-white/50'}`}>
-                                            {item.price} RSD
+                                            {formatPrice(`room:${item.id}`)}
                                         </span>
                                     </div>
 
@@ -400,7 +442,7 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
                                                     >
                                                         <span className="text-xl">{option.icon}</span>
                                                         <span className="font-bold text-sm md:text-base">{option.label}</span>
-                                                        <span className="text-xs text-pink-100/80">{option.price} RSD</span>
+                                                        <span className="text-xs text-pink-100/80">{formatPrice(`kids:${option.id}`)}</span>
                                                         {isSelected && (
                                                             <motion.div
                                                                 initial={{ scale: 0 }}
@@ -438,7 +480,7 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
                                                     >
                                                         <span className="text-xl">{option.icon}</span>
                                                         <span className="font-bold text-sm md:text-base">{option.label}</span>
-                                                        <span className="text-xs text-pink-100/80">{option.price} RSD</span>
+                                                        <span className="text-xs text-pink-100/80">{formatPrice(`duration:${option.id}`)}</span>
                                                         {isSelected && (
                                                             <motion.div
                                                                 initial={{ scale: 0 }}
@@ -511,8 +553,9 @@ export const PlayRoomBookingForm = memo(function PlayRoomBookingForm({ onBack }:
                             initialKidsLabel={KIDS_CAPACITY_OPTIONS.find(option => option.id === selectedCapacity)?.label}
                             initialDurationMinutes={TIME_DURATION_OPTIONS.find(option => option.id === selectedDuration)?.duration}
                             initialDurationLabel={TIME_DURATION_OPTIONS.find(option => option.id === selectedDuration)?.label}
-                            initialTotalPrice={totalPrice}
+                            initialPriceItems={priceItems}
                             variant="playroom"
+                            onBookingComplete={handleBookingComplete}
                         />
                     </motion.div>
                 )}
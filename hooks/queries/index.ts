@@ -7,3 +7,4 @@
 export { useBookings } from './useBookings'
 export { usePublishedEvents } from './usePublishedEvents'
 export { usePricingPackages } from './usePricingPackages'
+export { useAvailability } from './useAvailability'
@@ -0,0 +1,58 @@
+/**
+ * useAvailability Hook
+ *
+ * React Query hook for fetching the public availability grid.
+ * Used by the booking pickers to grey out times that are closed or taken.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import type { AvailabilitySlot } from '@/lib/scheduling'
+import type { BookingTypeValue } from '@/lib/booking-resources'
+
+/**
+ * Availability for a single day, as returned by /api/availability
+ */
+export interface DayAvailability {
+  date: string // YYYY-MM-DD
+  open: string
+  close: string
+  closed: boolean
+  slots: Partial<Record<BookingTypeValue, AvailabilitySlot[]>>
+}
+
+/**
+ * Fetch and cache the slot grid for a day and booking type
+ *
+ * @param date - Selected date (YYYY-MM-DD), the query is disabled without it
+ * @param type - Booking type
+ * @param duration - Optional booking length in minutes (defaults to the resource duration)
+ * @param resourceIds - Optional rooms selected by the customer
+ */
+export function useAvailability(
+  date: string | null | undefined,
+  type: BookingTypeValue,
+  duration?: number,
+  resourceIds: string[] = []
+) {
+  return useQuery({
+    queryKey: ['availability', date, type, duration, resourceIds],
+    queryFn: async () => {
+      const params = new URLSearchParams({ date: date as string, type })
+      if (duration) params.set('duration', String(duration))
+      if (resourceIds.length > 0) params.set('resources', resourceIds.join(','))
+
+      const response = await fetch(`/api/availability?${params}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to fetch availability')
+      }
+
+      const day: DayAvailability = result.days[0]
+      return day
+    },
+    enabled: !!date,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
@@ -88,7 +88,7 @@ export async function logAudit({
 }: {
   userId: string
   action: 'CREATE' | 'UPDATE' | 'DELETE' | 'APPROVE' | 'REJECT' | 'PUBLISH' | 'ARCHIVE' | 'ROLLBACK' | 'EXPORT' | 'IMPORT' | 'RESTORE'
-  entity: 'Event' | 'Booking' | 'User' | 'Content' | 'InventoryItem' | 'MaintenanceLog' | 'PricingPackage' | 'Campaign' | 'Settings' | 'System'
+  entity: 'Event' | 'Booking' | 'User' | 'Content' | 'InventoryItem' | 'MaintenanceLog' | 'PricingPackage' | 'CatalogCategory' | 'CatalogItem' | 'Campaign' | 'Settings' | 'System'
   entityId: string
   changes?: Record<string, any>
 }) {
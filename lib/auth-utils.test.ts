@@ -127,6 +127,32 @@ describe('requireAdmin', () => {
 
     await expect(requireAdmin()).rejects.toThrow('Unauthorized')
   })
+
+  it('should reject admins who have not passed two-factor authentication', async () => {
+    for (const twoFactor of ['pending', 'setup-required']) {
+      vi.mocked(auth).mockResolvedValue({
+        user: { id: 'admin-1', email: 'admin@example.com', role: Role.ADMIN, twoFactor }
+      } as any)
+
+      await expect(requireAdmin()).rejects.toThrow('Unauthorized: Two-factor authentication required')
+    }
+  })
+
+  it('should allow admins who passed two-factor authentication', async () => {
+    const mockSession = {
+      user: {
+        id: 'admin-1',
+        email: 'admin@example.com',
+        role: Role.ADMIN,
+        twoFactor: 'verified'
+      }
+    }
+
+    vi.mocked(auth).mockResolvedValue(mockSession as any)
+
+    const result = await requireAdmin()
+    expect(result).toEqual(mockSession)
+  })
 })
 
 describe('requireSuperAdmin', () => {
@@ -386,6 +412,14 @@ describe('requireOwnerOrAdmin', () => {
     expect(result).toEqual(mockSession)
   })
 
+  it('should reject admins who have not passed two-factor authentication', async () => {
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: 'admin-1', email: 'admin@example.com', role: Role.ADMIN, twoFactor: 'pending' }
+    } as any)
+
+    await expect(requireOwnerOrAdmin('user-123')).rejects.toThrow('Unauthorized: Must be resource owner or admin')
+  })
+
   it('should reject non-owner non-admin', async () => {
     const mockSession = {
       user: {
@@ -1,5 +1,6 @@
 import { auth } from '@/lib/auth'
 import { Role } from '@/types'
+import { isTwoFactorBlocking } from '@/lib/two-factor'
 
 /**
  * Auth Utility Functions
@@ -10,7 +11,9 @@ import { Role } from '@/types'
 
 /**
  * Require specific roles for an action
- * Throws error if user is not authenticated or doesn't have required role
+ * Throws error if user is not authenticated or doesn't have required role.
+ * Admin-only actions also need the session to have passed two-factor
+ * authentication when it applies (see lib/two-factor.ts).
  *
  * @param roles - Array of roles that are allowed
  * @returns Session object if authorized
@@ -30,6 +33,10 @@ export async function requireRole(roles: Role[]) {
     throw new Error(`Unauthorized: Requires one of roles: ${roles.join(', ')}`)
   }
 
+  if (!roles.includes(Role.USER) && isTwoFactorBlocking(session.user.twoFactor)) {
+    throw new Error('Unauthorized: Two-factor authentication required')
+  }
+
   return session
 }
 
@@ -162,7 +169,7 @@ export async function requireOwnerOrAdmin(userId: string) {
   const isOwner = session.user.id === userId
   const isAdminRole = [Role.ADMIN, Role.SUPER_ADMIN].includes(session.user.role as Role)
 
-  if (!isOwner && !isAdminRole) {
+  if (!isOwner && (!isAdminRole || isTwoFactorBlocking(session.user.twoFactor))) {
     throw new Error('Unauthorized: Must be resource owner or admin')
   }
 
@@ -1,4 +1,5 @@
 import type { NextAuthConfig } from 'next-auth'
+import type { TwoFactorStatus } from './two-factor'
 
 export const authConfig = {
   pages: {
@@ -30,6 +31,7 @@ export const authConfig = {
       if (session.user) {
         session.user.role = token.role as 'USER' | 'ADMIN' | 'SUPER_ADMIN'
         session.user.id = token.id as string
+        session.user.twoFactor = (token.twoFactor as TwoFactorStatus | undefined) ?? 'off'
       }
       return session
     },
@@ -1,13 +1,29 @@
 import NextAuth from 'next-auth'
 import Credentials from 'next-auth/providers/credentials'
+import Google from 'next-auth/providers/google'
+import Facebook from 'next-auth/providers/facebook'
+import type { Provider } from 'next-auth/providers'
 import { authConfig } from './auth.config'
 import { signInSchema } from './validations'
 import { logger } from './logger'
+import { isProviderEmailVerified } from './oauth'
+import { getTwoFactorStatus, type TwoFactorStatus } from './two-factor'
+import { SESSION_MAX_AGE_SECONDS } from './user-sessions'
+import type * as OAuthAccounts from './oauth-accounts'
+import type * as TwoFactorAuth from './two-factor-auth'
+import type * as UserSessionRegistry from './user-session-registry'
+import type * as Settings from '@/app/actions/settings'
+import type * as RateLimit from './rate-limit'
 
 // Lazy imports to avoid circular dependencies and allow build to succeed
 // These will be imported when actually needed
 let prisma: any
 let comparePassword: any
+let resolveOAuthSignIn: typeof OAuthAccounts.resolveOAuthSignIn
+let twoFactorAuth: typeof TwoFactorAuth
+let userSessions: typeof UserSessionRegistry
+let getRequireAdminTwoFactor: typeof Settings.getRequireAdminTwoFactor
+let checkRateLimit: typeof RateLimit.checkRateLimit
 
 async function loadDependencies() {
   if (!prisma) {
@@ -18,6 +34,60 @@ async function loadDependencies() {
     const passwordModule = await import('./password')
     comparePassword = passwordModule.comparePassword
   }
+  if (!resolveOAuthSignIn) {
+    const oauthModule = await import('./oauth-accounts')
+    resolveOAuthSignIn = oauthModule.resolveOAuthSignIn
+  }
+  if (!twoFactorAuth) {
+    twoFactorAuth = await import('./two-factor-auth')
+  }
+  if (!userSessions) {
+    userSessions = await import('./user-session-registry')
+  }
+  if (!getRequireAdminTwoFactor) {
+    const settingsModule = await import('@/app/actions/settings')
+    getRequireAdminTwoFactor = settingsModule.getRequireAdminTwoFactor
+  }
+  if (!checkRateLimit) {
+    const rateLimitModule = await import('./rate-limit')
+    checkRateLimit = rateLimitModule.checkRateLimit
+  }
+}
+
+/**
+ * Social sign-in providers, each enabled by its credentials
+ * OAUTH_MOCK_ISSUER adds a generic OpenID Connect provider for testing
+ * against a local issuer (see tests/helpers/mock-oidc-issuer.ts).
+ */
+function getOAuthProviders(): Provider[] {
+  const providers: Provider[] = []
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(Google({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    }))
+  }
+
+  if (process.env.FACEBOOK_CLIENT_ID && process.env.FACEBOOK_CLIENT_SECRET) {
+    providers.push(Facebook({
+      clientId: process.env.FACEBOOK_CLIENT_ID,
+      clientSecret: process.env.FACEBOOK_CLIENT_SECRET,
+    }))
+  }
+
+  if (process.env.OAUTH_MOCK_ISSUER) {
+    providers.push({
+      id: 'mock-oidc',
+      name: 'Mock OIDC',
+      type: 'oidc',
+      issuer: process.env.OAUTH_MOCK_ISSUER,
+      clientId: process.env.OAUTH_MOCK_CLIENT_ID || 'xplorium',
+      clientSecret: process.env.OAUTH_MOCK_CLIENT_SECRET || 'xplorium-secret',
+    })
+  }
+
+  return providers
 }
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
@@ -58,6 +128,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
               role: true,
               image: true,
               blocked: true,
+              sessionVersion: true,
             },
           })
 
@@ -92,6 +163,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             name: user.name,
             role: user.role,
             image: user.image,
+            sessionVersion: user.sessionVersion,
           }
         } catch (error) {
           logger.error('authorize() error', error instanceof Error ? error : new Error(String(error)))
@@ -99,18 +171,120 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         }
       },
     }),
+    ...getOAuthProviders(),
   ],
   session: {
     strategy: 'jwt',
-    maxAge: 7 * 24 * 60 * 60, // 7 days for regular users
+    maxAge: SESSION_MAX_AGE_SECONDS, // 7 days for regular users
   },
   callbacks: {
-    async jwt({ token, user, trigger }) {
+    async signIn({ user, account, profile }) {
+      if (!account || account.provider === 'credentials') {
+        return true
+      }
+
+      await loadDependencies()
+
+      // Signed in already: the identity is being connected from the profile
+      const session = await auth()
+      const result = await resolveOAuthSignIn(
+        {
+          provider: account.provider,
+          providerAccountId: account.providerAccountId,
+          email: profile?.email ?? user.email ?? null,
+          emailVerified: isProviderEmailVerified(account.provider, profile),
+          name: user.name,
+          image: user.image,
+        },
+        session?.user?.id ?? null
+      )
+
+      if ('error' in result) {
+        return `${session ? '/profile' : '/'}?authError=${result.error}`
+      }
+
+      // Sign in as the linked user rather than the provider's profile
+      user.id = result.user.id
+      user.role = result.user.role
+      user.sessionVersion = result.user.sessionVersion
+      return true
+    },
+    async jwt({ token, user, trigger, session }) {
       // Initial sign in
       if (user) {
         token.id = user.id
         token.role = user.role
         token.lastActivity = Date.now()
+        token.sessionVersion = user.sessionVersion ?? 0
+        token.twoFactorVerified = false
+      }
+
+      if (token.id) {
+        await loadDependencies()
+        const current = await prisma.user.findUnique({
+          where: { id: token.id },
+          select: {
+            role: true,
+            blocked: true,
+            deleted: true,
+            sessionVersion: true,
+            emailVerified: true,
+            twoFactorEnabledAt: true,
+          },
+        })
+
+        // Blocked and deleted users are signed out on their next request.
+        // Sessions started before a password reset end with it (see completePasswordReset)
+        if (
+          !current ||
+          current.blocked ||
+          current.deleted ||
+          current.sessionVersion !== (token.sessionVersion ?? 0)
+        ) {
+          return null
+        }
+
+        // Session registry (see lib/user-sessions.ts): record the sign-in, or
+        // check the session wasn't revoked. Rows are only created at sign in,
+        // since most callers (e.g. auth() while rendering) can't save the
+        // token, so sessions from before the registry have to sign in again.
+        // This lookup and the user's above run on every auth() call; the
+        // middleware only makes them for routes that need a signed-in user.
+        const userId = token.id as string
+        if (user) {
+          token.sessionId = await userSessions.createUserSession(userId)
+        } else if (
+          typeof token.sessionId !== 'string' ||
+          !(await userSessions.checkUserSession(token.sessionId, userId))
+        ) {
+          return null
+        }
+
+        // Role changes apply straight away rather than at the next sign in
+        token.role = current.role
+        token.hasVerifiedEmail = current.emailVerified !== null
+
+        // Two-factor authentication: a remembered browser skips the prompt at
+        // sign in; otherwise the client sends a code with update() (see
+        // app/two-factor). Checking it here is what marks this session verified.
+        let twoFactorEnabled = current.twoFactorEnabledAt !== null
+        if (user && twoFactorEnabled) {
+          token.twoFactorVerified = await twoFactorAuth.isTrustedDevice(userId).catch(() => false)
+        }
+        if (trigger === 'update' && typeof session?.twoFactorCode === 'string' && !token.twoFactorVerified) {
+          const rateLimit = await checkRateLimit(`two-factor:${userId}`)
+          if (rateLimit.success && await twoFactorAuth.verifyTwoFactorCode(userId, session.twoFactorCode)) {
+            token.twoFactorVerified = true
+            twoFactorEnabled = true
+          }
+        }
+
+        const isAdminRole = token.role === 'ADMIN' || token.role === 'SUPER_ADMIN'
+        token.twoFactor = getTwoFactorStatus({
+          enabled: twoFactorEnabled,
+          verified: Boolean(token.twoFactorVerified),
+          required: isAdminRole && !twoFactorEnabled && (await getRequireAdminTwoFactor()).enabled,
+        })
       }
 
       // Session update or token refresh
@@ -126,6 +300,10 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
 
         if (now - lastActivity > inactivityTimeout) {
           // Session expired due to inactivity
+          if (typeof token.sessionId === 'string') {
+            await loadDependencies()
+            await userSessions.revokeUserSession(token.sessionId, null)
+          }
           return null // Return null to invalidate session
         }
       }
@@ -136,9 +314,22 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       if (session.user && token) {
         session.user.id = token.id as string
         session.user.role = token.role as 'USER' | 'ADMIN' | 'SUPER_ADMIN'
+        session.user.hasVerifiedEmail = Boolean(token.hasVerifiedEmail)
+        session.user.twoFactor = (token.twoFactor as TwoFactorStatus | undefined) ?? 'off'
+        session.sessionId = token.sessionId as string | undefined
       }
       return session
     },
   },
+  events: {
+    async signOut(message) {
+      // End the registry entry too, so the session list stays accurate
+      const sessionId = 'token' in message ? message.token?.sessionId : undefined
+      if (typeof sessionId === 'string') {
+        await loadDependencies()
+        await userSessions.revokeUserSession(sessionId, null)
+      }
+    },
+  },
   secret: process.env.AUTH_SECRET,
 })
@@ -0,0 +1,165 @@
+/**
+ * Booking Resources
+ *
+ * Physical resources that bookings occupy (rooms, café seating, event space).
+ * Conflict detection is done per resource, so a café table booking no longer
+ * blocks a sensory room session at the same hour.
+ */
+
+export type BookingTypeValue = 'CAFE' | 'SENSORY_ROOM' | 'PLAYGROUND' | 'PARTY' | 'EVENT'
+
+export const BOOKING_TYPES: BookingTypeValue[] = ['CAFE', 'SENSORY_ROOM', 'PLAYGROUND', 'PARTY', 'EVENT']
+
+export const BOOKING_RESOURCE_IDS = [
+  'cake-room',
+  '270-room',
+  'slide-room',
+  'sensory-room',
+  'mini-disco-room',
+  'cafe-seating',
+  'event-space',
+] as const
+
+export type BookingResourceId = typeof BOOKING_RESOURCE_IDS[number]
+
+/**
+ * Bookable resource definition
+ */
+export interface BookingResource {
+  id: BookingResourceId
+  name: string
+  /** How many bookings may occupy this resource at the same time */
+  capacity: number
+  /** Default booking length in minutes */
+  defaultDuration: number
+  /** Booking types that are allowed to reserve this resource */
+  bookingTypes: BookingTypeValue[]
+}
+
+export const BOOKING_RESOURCES: Record<BookingResourceId, BookingResource> = {
+  'cake-room': {
+    id: 'cake-room',
+    name: 'Cake Room',
+    capacity: 1,
+    defaultDuration: 120,
+    bookingTypes: ['PARTY', 'PLAYGROUND'],
+  },
+  '270-room': {
+    id: '270-room',
+    name: '270 Room',
+    capacity: 1,
+    defaultDuration: 120,
+    bookingTypes: ['PARTY', 'PLAYGROUND'],
+  },
+  'slide-room': {
+    id: 'slide-room',
+    name: 'Slide Room',
+    capacity: 1,
+    defaultDuration: 120,
+    bookingTypes: ['PARTY', 'PLAYGROUND'],
+  },
+  'sensory-room': {
+    id: 'sensory-room',
+    name: 'Sensory Room',
+    capacity: 1,
+    defaultDuration: 60,
+    bookingTypes: ['SENSORY_ROOM', 'PARTY', 'PLAYGROUND'],
+  },
+  'mini-disco-room': {
+    id: 'mini-disco-room',
+    name: 'Mini Disco Room',
+    capacity: 1,
+    defaultDuration: 120,
+    bookingTypes: ['PARTY', 'PLAYGROUND'],
+  },
+  'cafe-seating': {
+    id: 'cafe-seating',
+    name: 'Café Seating',
+    capacity: 8,
+    defaultDuration: 90,
+    bookingTypes: ['CAFE'],
+  },
+  'event-space': {
+    id: 'event-space',
+    name: 'Event Space',
+    capacity: 1,
+    defaultDuration: 180,
+    bookingTypes: ['EVENT'],
+  },
+}
+
+/**
+ * Booking length limits in minutes
+ */
+export const MIN_BOOKING_DURATION = 15
+export const MAX_BOOKING_DURATION = 480
+
+/**
+ * Durations offered by the booking forms (minutes)
+ */
+export const BOOKING_DURATION_OPTIONS = [30, 45, 60, 90, 120, 150, 180, 240] as const
+
+/**
+ * Resources a booking occupies when the customer did not pick any rooms
+ */
+export const DEFAULT_RESOURCES_BY_TYPE: Record<BookingTypeValue, BookingResourceId[]> = {
+  CAFE: ['cafe-seating'],
+  SENSORY_ROOM: ['sensory-room'],
+  PLAYGROUND: ['sensory-room', 'cake-room'],
+  PARTY: ['cake-room'],
+  EVENT: ['event-space'],
+}
+
+/**
+ * Alternative room IDs used by the booking forms
+ */
+const RESOURCE_ALIASES: Record<string, BookingResourceId> = {
+  minidisco: 'mini-disco-room',
+  'mini-disco': 'mini-disco-room',
+}
+
+/**
+ * Type guard for known resource IDs
+ */
+export function isBookingResourceId(value: string): value is BookingResourceId {
+  return (BOOKING_RESOURCE_IDS as readonly string[]).includes(value)
+}
+
+/**
+ * Resolve the resources a booking occupies
+ *
+ * @param type - Booking type
+ * @param requested - Room IDs selected by the customer (aliases allowed)
+ * @returns De-duplicated list of resource IDs, falling back to the type defaults
+ */
+export function resolveBookingResources(
+  type: BookingTypeValue,
+  requested: string[] = []
+): BookingResourceId[] {
+  const resolved = requested
+    .map(id => RESOURCE_ALIASES[id] ?? id)
+    .filter(isBookingResourceId)
+    .filter(id => BOOKING_RESOURCES[id].bookingTypes.includes(type))
+
+  if (resolved.length === 0) {
+    return [...DEFAULT_RESOURCES_BY_TYPE[type]]
+  }
+
+  return Array.from(new Set(resolved))
+}
+
+/**
+ * Default duration for a booking, based on the longest resource it occupies
+ */
+export function getDefaultDuration(type: BookingTypeValue, resourceIds: string[] = []): number {
+  const resources = resolveBookingResources(type, resourceIds)
+  return Math.max(...resources.map(id => BOOKING_RESOURCES[id].defaultDuration))
+}
+
+/**
+ * Human readable resource name
+ */
+export function getResourceName(id: string): string {
+  const resolved = RESOURCE_ALIASES[id] ?? id
+  return isBookingResourceId(resolved) ? BOOKING_RESOURCES[resolved].name : id
+}
@@ -37,7 +37,8 @@ export const CACHE_KEYS = {
   PRICING_PACKAGES: 'pricing-packages',
   SITE_CONTENT: 'site-content',
   USER_COUNT: 'user-count',
-  SETTINGS_ALL: 'settings-all'
+  SETTINGS_ALL: 'settings-all',
+  AVAILABILITY: 'availability'
 } as const
 
 /**
@@ -1,4 +1,5 @@
 import { createEvents, EventAttributes } from 'ics'
+import { addMinutes, format } from 'date-fns'
 import type { AdminBookingEvent } from '@/components/admin/AdminBookingCalendar'
 
 /**
@@ -9,6 +10,11 @@ import type { AdminBookingEvent } from '@/components/admin/AdminBookingCalendar'
  * - Event formatting
  */
 
+/**
+ * Fallback length for events that do not carry a duration (minutes)
+ */
+export const DEFAULT_EVENT_DURATION = 120
+
 /**
  * Export bookings to ICS file for calendar import
  * Creates a downloadable .ics file compatible with Google Calendar, Outlook, Apple Calendar, etc.
@@ -23,32 +29,30 @@ import type { AdminBookingEvent } from '@/components/admin/AdminBookingCalendar'
  * ```
  *
  * @remarks
- * - Assumes 1-hour duration for all events
+ * - Uses each booking's duration (falls back to DEFAULT_EVENT_DURATION)
  * - Sets status to CONFIRMED for approved bookings, TENTATIVE for others
  * - Includes booking details (type, guests, contact info) in description
  */
 export function exportToICS(events: AdminBookingEvent[], filename: string = 'bookings.ics') {
   const icsEvents: EventAttributes[] = events.map(event => {
-    const eventDate = new Date(event.date)
-    const [hours, minutes] = event.time.split(':').map(Number)
+    const startDate = parseTimeToDate(new Date(event.date), event.time)
+    const endDate = addMinutes(startDate, event.duration ?? DEFAULT_EVENT_DURATION)
 
-    // Set start time
+    // Set start and end time (ICS months are 1-indexed)
     const start: [number, number, number, number, number] = [
-      eventDate.getFullYear(),
-      eventDate.getMonth() + 1,  // ICS months are 1-indexed
-      eventDate.getDate(),
-      hours,
-      minutes
+      startDate.getFullYear(),
+      startDate.getMonth() + 1,
+      startDate.getDate(),
+      startDate.getHours(),
+      startDate.getMinutes()
     ]
 
-    // Set end time (assume 1 hour duration by default)
-    const endHours = hours + 1
     const end: [number, number, number, number, number] = [
-      eventDate.getFullYear(),
-      eventDate.getMonth() + 1,
-      eventDate.getDate(),
-      endHours,
-      minutes
+      endDate.getFullYear(),
+      endDate.getMonth() + 1,
+      endDate.getDate(),
+      endDate.getHours(),
+      endDate.getMinutes()
     ]
 
     // Build description
@@ -141,3 +145,20 @@ export function formatEventDate(date: Date, time: string): string {
     hour12: true
   })
 }
+
+/**
+ * Format the start and end time of a booking
+ *
+ * @param time - Start time in "HH:MM" format
+ * @param duration - Length in minutes (default: DEFAULT_EVENT_DURATION)
+ * @returns Time range like "14:00 - 16:00"
+ *
+ * @example
+ * ```typescript
+ * formatTimeRange('14:00', 45) // "14:00 - 14:45"
+ * ```
+ */
+export function formatTimeRange(time: string, duration: number = DEFAULT_EVENT_DURATION): string {
+  const start = parseTimeToDate(new Date(), time)
+  return `${time} - ${format(addMinutes(start, duration), 'HH:mm')}`
+}
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for Campaign Delivery
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+
+// SMS are recorded in the database
+vi.mock('./sms-messages', () => ({
+  sendSms: vi.fn()
+}))
+
+import { createMockEmailTransport, setEmailTransport } from './email'
+import { sendSms } from './sms-messages'
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  createThrottle,
+  getFailedDeliveryStatus,
+  sendCampaignBatch,
+  type CampaignRecipient,
+} from './campaign-delivery'
+
+const message = { campaignId: 'c1', subject: 'Summer Camp', content: 'Sign up now!' }
+const recipients: CampaignRecipient[] = [
+  { id: 'd1', userId: 'u1', channel: 'EMAIL', email: 'ana@example.com', phone: null, name: 'Ana' },
+  { id: 'd2', userId: 'u2', channel: 'EMAIL', email: 'bounce@example.com', phone: null, name: null },
+  { id: 'd3', userId: 'u3', channel: 'EMAIL', email: 'marko@example.com', phone: null, name: 'Marko' },
+]
+const noThrottle = async () => {}
+
+/**
+ * Clock that advances only when slept on
+ */
+function createFakeClock() {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms)
+      clock.time += ms
+    },
+  }
+  return clock
+}
+
+describe('sendCampaignBatch', () => {
+  afterEach(() => {
+    setEmailTransport(null)
+    vi.mocked(sendSms).mockReset()
+  })
+
+  it('should email every recipient through sendEmail', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+
+    const outcomes = await sendCampaignBatch(message, [recipients[0], recipients[2]], noThrottle)
+
+    expect(mock.sent.map(email => email.to)).toEqual(['ana@example.com', 'marko@example.com'])
+    expect(mock.sent[0].subject).toBe('Summer Camp')
+    expect(mock.sent[0].html).toContain('Sign up now!')
+    expect(mock.sent[0].html).toContain('Hi Ana,')
+    expect(outcomes).toEqual([
+      { id: 'd1', status: 'SENT', messageId: 'mock-1' },
+      { id: 'd3', status: 'SENT', messageId: 'mock-2' },
+    ])
+  })
+
+  it('should record failures without stopping the batch', async () => {
+    const mock = createMockEmailTransport(email =>
+      email.to === 'bounce@example.com' ? 'Mailbox unavailable' : undefined
+    )
+    setEmailTransport(mock.transport)
+
+    const outcomes = await sendCampaignBatch(message, recipients, noThrottle)
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['SENT', 'FAILED', 'SENT'])
+    expect(outcomes[1]).toEqual({ id: 'd2', status: 'FAILED', error: 'Mailbox unavailable' })
+    expect(mock.sent).toHaveLength(2)
+  })
+
+  it('should track opens and clicks when tracking is on', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+
+    await sendCampaignBatch(
+      { campaignId: 'c1', subject: 'Summer Camp', content: 'Details: https://xplorium.com/camps?week=2&age=7.' },
+      [recipients[0]],
+      noThrottle,
+      { baseUrl: 'https://xplorium.com', secret: 'test-secret' }
+    )
+
+    const { html } = mock.sent[0]
+    expect(html).toContain('src="https://xplorium.com/api/campaigns/open/CT1.d1.')
+    expect(html).toContain('href="https://xplorium.com/api/campaigns/click/CT1.d1.')
+    expect(html).toContain(`?url=${encodeURIComponent('https://xplorium.com/camps?week=2&age=7')}`)
+    expect(html).toContain('>https://xplorium.com/camps?week=2&amp;age=7</a>.')
+  })
+
+  it('should link URLs without tracking when tracking is off', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+
+    await sendCampaignBatch(
+      { campaignId: 'c1', subject: 'Hi', content: 'See https://xplorium.com' },
+      [recipients[0]],
+      noThrottle
+    )
+
+    expect(mock.sent[0].html).toContain('<a href="https://xplorium.com"')
+    expect(mock.sent[0].html).not.toContain('/api/campaigns/')
+    expect(mock.sent[0].headers).toBeUndefined()
+  })
+
+  it('should add unsubscribe links and one-click headers', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+
+    await sendCampaignBatch(message, [recipients[0]], noThrottle, {
+      baseUrl: 'https://xplorium.com',
+      secret: 'test-secret',
+    })
+
+    const { html, headers } = mock.sent[0]
+    expect(html).toContain('href="https://xplorium.com/preferences/MP1.u1.c1.')
+    expect(headers?.['List-Unsubscribe']).toMatch(/^<https:\/\/xplorium\.com\/api\/campaigns\/unsubscribe\/MP1\.u1\.c1\.[\w-]+>$/)
+    expect(headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click')
+  })
+
+  it('should text SMS recipients with an opt-out line', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+    vi.mocked(sendSms)
+      .mockResolvedValueOnce({ success: true, id: 'sms1' })
+      .mockResolvedValueOnce({ success: false, error: 'Recipient opted out of SMS' })
+
+    const outcomes = await sendCampaignBatch(message, [
+      { ...recipients[0], id: 'd4', channel: 'SMS', phone: '064 123 4567' },
+      { ...recipients[2], id: 'd5', channel: 'SMS', phone: '065 765 4321' },
+    ], noThrottle)
+
+    expect(sendSms).toHaveBeenCalledWith({
+      to: '064 123 4567',
+      body: 'Sign up now!\nReply STOP to opt out',
+      userId: 'u1',
+      campaignId: 'c1',
+    })
+    expect(outcomes).toEqual([
+      { id: 'd4', status: 'SENT', messageId: 'sms1' },
+      { id: 'd5', status: 'FAILED', error: 'Recipient opted out of SMS' },
+    ])
+    expect(mock.sent).toHaveLength(0)
+  })
+
+  it('should throttle every email', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+    let calls = 0
+
+    await sendCampaignBatch(message, recipients, async () => {
+      calls++
+    })
+
+    expect(calls).toBe(3)
+  })
+})
+
+describe('createThrottle', () => {
+  it('should space calls evenly at the given rate', async () => {
+    const clock = createFakeClock()
+    const throttle = createThrottle(2, clock)
+
+    await throttle()
+    await throttle()
+    await throttle()
+
+    expect(clock.sleeps).toEqual([500, 500])
+    expect(clock.time).toBe(1000)
+  })
+
+  it('should not wait when calls are already slow enough', async () => {
+    const clock = createFakeClock()
+    const throttle = createThrottle(2, clock)
+
+    await throttle()
+    clock.time += 800
+    await throttle()
+
+    expect(clock.sleeps).toEqual([])
+  })
+})
+
+describe('getFailedDeliveryStatus', () => {
+  it('should retry until the attempts run out', () => {
+    expect(getFailedDeliveryStatus(1)).toBe('PENDING')
+    expect(getFailedDeliveryStatus(MAX_DELIVERY_ATTEMPTS - 1)).toBe('PENDING')
+    expect(getFailedDeliveryStatus(MAX_DELIVERY_ATTEMPTS)).toBe('FAILED')
+  })
+})
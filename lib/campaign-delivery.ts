@@ -0,0 +1,142 @@
+import { sendCampaignEmail } from './email'
+import { sendSms } from './sms-messages'
+import { formatMarketingSms } from './sms'
+import { getClickTrackingUrl, getOpenTrackingUrl } from './campaign-tracking'
+import { getOneClickUnsubscribeUrl, getPreferenceCenterUrl } from './marketing-preferences'
+
+/**
+ * Campaign Delivery
+ *
+ * Campaigns are sent in batches by the send-scheduled-campaigns job (see
+ * app/jobs/campaigns.ts). When sending starts, every recipient gets a
+ * delivery record per channel; batches of pending deliveries are then
+ * claimed, emailed or texted at a throttled rate and marked as sent or
+ * failed. A campaign interrupted by
+ * a crash or the job's time budget resumes with its remaining deliveries,
+ * and is marked as sent once none are left.
+ */
+
+/**
+ * Deliveries claimed and sent at a time
+ */
+export const CAMPAIGN_BATCH_SIZE = 50
+
+/**
+ * Sending rate, within Resend's default rate limit
+ */
+export const CAMPAIGN_EMAILS_PER_SECOND = 2
+
+/**
+ * Attempts per recipient before the delivery is marked as failed
+ */
+export const MAX_DELIVERY_ATTEMPTS = 3
+
+/**
+ * Deliveries claimed longer ago than this were interrupted and are sent again
+ */
+export const DELIVERY_CLAIM_TIMEOUT_MINUTES = 15
+
+export interface CampaignMessage {
+  campaignId: string
+  subject: string
+  content: string
+}
+
+export interface CampaignRecipient {
+  id: string
+  userId: string
+  channel: 'EMAIL' | 'SMS'
+  email: string
+  phone: string | null
+  name: string | null
+}
+
+export type DeliveryOutcome =
+  | { id: string; status: 'SENT'; messageId: string | null }
+  | { id: string; status: 'FAILED'; error: string }
+
+/**
+ * Pace calls to a rate
+ *
+ * @example const throttle = createThrottle(2); await throttle() // at most 2 calls per second
+ * @returns A function to await before each call
+ */
+export function createThrottle(
+  perSecond: number,
+  clock: { now: () => number; sleep: (ms: number) => Promise<void> } = {
+    now: Date.now,
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  }
+) {
+  const interval = 1000 / perSecond
+  let next = 0
+
+  return async () => {
+    const wait = next - clock.now()
+    if (wait > 0) {
+      await clock.sleep(wait)
+    }
+    next = Math.max(clock.now(), next) + interval
+  }
+}
+
+/**
+ * Send a campaign to a batch of recipients
+ *
+ * Failures don't stop the batch; each recipient gets an outcome. SMS
+ * recipients get the message as plain text with an opt-out line; their
+ * outcome's message ID is the SmsMessage ID.
+ * @param recipients - Recipients, identified by their delivery ID
+ * @param throttle - Awaited before each email (see createThrottle)
+ * @param links - Where the site is and the secret to sign link tokens with;
+ * without it opens and clicks aren't tracked and recipients unsubscribe
+ * from their profile
+ */
+export async function sendCampaignBatch(
+  message: CampaignMessage,
+  recipients: CampaignRecipient[],
+  throttle: () => Promise<void>,
+  links?: { baseUrl: string; secret: string }
+): Promise<DeliveryOutcome[]> {
+  const outcomes: DeliveryOutcome[] = []
+
+  for (const recipient of recipients) {
+    await throttle()
+
+    const result = recipient.channel === 'SMS'
+      ? await sendSms({
+        to: recipient.phone ?? '',
+        body: formatMarketingSms(message.content),
+        userId: recipient.userId,
+        campaignId: message.campaignId,
+      })
+      : await sendCampaignEmail({
+        to: recipient.email,
+        subject: message.subject,
+        message: message.content,
+        recipientName: recipient.name,
+        tracking: links && {
+          pixelUrl: getOpenTrackingUrl(links.baseUrl, recipient.id, links.secret),
+          linkUrl: url => getClickTrackingUrl(links.baseUrl, recipient.id, url, links.secret),
+        },
+        unsubscribe: links && {
+          preferencesUrl: getPreferenceCenterUrl(links.baseUrl, recipient.userId, message.campaignId, links.secret),
+          oneClickUrl: getOneClickUnsubscribeUrl(links.baseUrl, recipient.userId, message.campaignId, links.secret),
+        },
+      })
+
+    outcomes.push(result.success
+      ? { id: recipient.id, status: 'SENT', messageId: result.id ?? null }
+      : { id: recipient.id, status: 'FAILED', error: result.error || 'Unknown error' })
+  }
+
+  return outcomes
+}
+
+/**
+ * What becomes of a delivery after a failed attempt
+ * @param attempts - Attempts made, including the failed one
+ */
+export function getFailedDeliveryStatus(attempts: number): 'PENDING' | 'FAILED' {
+  return attempts < MAX_DELIVERY_ATTEMPTS ? 'PENDING' : 'FAILED'
+}
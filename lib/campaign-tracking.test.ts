@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Campaign Tracking
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createTrackingToken,
+  getClickTrackingUrl,
+  getOpenTrackingUrl,
+  getRate,
+  verifyTrackingToken,
+} from './campaign-tracking'
+
+const secret = 'test-secret'
+const link = 'https://xplorium.com/camps?week=2'
+
+describe('verifyTrackingToken', () => {
+  it('should return the delivery of a valid token', () => {
+    expect(verifyTrackingToken(createTrackingToken('d1', null, secret), null, secret)).toBe('d1')
+    expect(verifyTrackingToken(createTrackingToken('d1', link, secret), link, secret)).toBe('d1')
+  })
+
+  it('should reject forged and malformed tokens', () => {
+    const token = createTrackingToken('d1', null, secret)
+
+    expect(verifyTrackingToken(token.replace('d1', 'd2'), null, secret)).toBeNull()
+    expect(verifyTrackingToken(token, null, 'other-secret')).toBeNull()
+    expect(verifyTrackingToken('CT1.d1', null, secret)).toBeNull()
+    expect(verifyTrackingToken(`${token}.extra`, null, secret)).toBeNull()
+  })
+
+  it('should bind click tokens to their link', () => {
+    const token = createTrackingToken('d1', link, secret)
+
+    expect(verifyTrackingToken(token, 'https://evil.example.com', secret)).toBeNull()
+    expect(verifyTrackingToken(token, null, secret)).toBeNull()
+  })
+})
+
+describe('tracking URLs', () => {
+  it('should build the open pixel URL', () => {
+    const url = getOpenTrackingUrl('https://xplorium.com', 'd1', secret)
+    const token = url.split('/').pop()!
+
+    expect(url).toMatch(/^https:\/\/xplorium\.com\/api\/campaigns\/open\/CT1\.d1\./)
+    expect(verifyTrackingToken(token, null, secret)).toBe('d1')
+  })
+
+  it('should build the click URL with the encoded link', () => {
+    const url = new URL(getClickTrackingUrl('https://xplorium.com', 'd1', link, secret))
+    const token = url.pathname.split('/').pop()!
+
+    expect(url.pathname).toMatch(/^\/api\/campaigns\/click\//)
+    expect(url.searchParams.get('url')).toBe(link)
+    expect(verifyTrackingToken(token, link, secret)).toBe('d1')
+  })
+})
+
+describe('getRate', () => {
+  it('should return a percentage, or 0 without a total', () => {
+    expect(getRate(25, 200)).toBe(12.5)
+    expect(getRate(0, 0)).toBe(0)
+  })
+})
@@ -0,0 +1,76 @@
+import type { CampaignType, LoyaltyTier, MarketingChannel, Prisma } from '@prisma/client'
+
+/**
+ * Campaign Audiences
+ *
+ * A campaign's target audience is stored as filter criteria on the campaign
+ * and turned into a user query when recipients are counted or emailed.
+ * Only users who opted in to marketing on a channel receive campaigns
+ * through it, whatever the audience says.
+ */
+
+// A type rather than an interface so it can be stored as Json
+export type CampaignAudience = {
+  loyaltyTiers?: string[]
+  marketingOptIn?: boolean
+  tags?: string[]
+  minTotalSpent?: number
+  maxTotalSpent?: number
+  minBookings?: number
+  maxBookings?: number
+}
+
+/**
+ * Build the user filter for a target audience
+ *
+ * Criteria left out don't filter; an empty audience matches every user.
+ */
+function getCampaignAudienceWhere(audience: CampaignAudience): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = {}
+
+  if (audience.loyaltyTiers && audience.loyaltyTiers.length > 0) {
+    where.loyaltyTier = { in: audience.loyaltyTiers as LoyaltyTier[] }
+  }
+
+  if (audience.marketingOptIn !== undefined) {
+    where.marketingOptIn = audience.marketingOptIn
+  }
+
+  if (audience.tags && audience.tags.length > 0) {
+    where.tags = { hasSome: audience.tags }
+  }
+
+  if (audience.minTotalSpent !== undefined || audience.maxTotalSpent !== undefined) {
+    where.totalSpent = { gte: audience.minTotalSpent, lte: audience.maxTotalSpent }
+  }
+
+  if (audience.minBookings !== undefined || audience.maxBookings !== undefined) {
+    where.totalBookings = { gte: audience.minBookings, lte: audience.maxBookings }
+  }
+
+  return where
+}
+
+/**
+ * Channels a campaign is sent through
+ */
+export function getCampaignChannels(type: CampaignType): MarketingChannel[] {
+  return type === 'BOTH' ? ['EMAIL', 'SMS'] : [type]
+}
+
+/**
+ * Build the filter for the users a campaign is sent to through a channel:
+ * its audience, limited to active accounts that opted in to marketing on
+ * that channel (and have a phone number, for SMS)
+ */
+export function getCampaignRecipientWhere(
+  audience: CampaignAudience,
+  channel: MarketingChannel = 'EMAIL'
+): Prisma.UserWhereInput {
+  return {
+    ...getCampaignAudienceWhere(audience),
+    ...(channel === 'EMAIL' ? { marketingOptIn: true } : { smsOptIn: true, phone: { not: null } }),
+    deleted: false,
+    blocked: false,
+  }
+}
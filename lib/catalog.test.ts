@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the Booking Catalog
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildBookingCatalog,
+  getCatalogCode,
+  getCatalogPriceItems,
+  getCatalogRoomItems,
+  getCatalogSlug,
+  resolveCatalogOrder,
+  toCatalogSlug,
+  type CatalogCategoryRow,
+} from './catalog'
+
+const item = (code: string, order: number, overrides: Partial<CatalogCategoryRow['items'][number]> = {}) => ({
+  code,
+  name: code,
+  description: null,
+  icon: null,
+  priceAmount: 100,
+  priceCurrency: 'RSD',
+  unit: 'PER_GUEST' as const,
+  isAvailable: true,
+  order,
+  variants: [],
+  ...overrides,
+})
+
+describe('getCatalogCode', () => {
+  it('should build and split price codes', () => {
+    expect(getCatalogCode('ROOM', 'sensory-room')).toBe('room:sensory-room')
+    expect(getCatalogCode('ADDON', 'cake-beverages')).toBe('addon:cake-beverages')
+    expect(getCatalogSlug('beverage:orange-juice')).toBe('orange-juice')
+  })
+})
+
+describe('toCatalogSlug', () => {
+  it('should turn names into price code slugs', () => {
+    expect(toCatalogSlug('Sweets & Candy')).toBe('sweets-candy')
+    expect(toCatalogSlug('Čokoladna torta')).toBe('cokoladna-torta')
+    expect(toCatalogSlug('  Đački sendvič! ')).toBe('djacki-sendvic')
+  })
+})
+
+const categories: CatalogCategoryRow[] = [
+  {
+    kind: 'FOOD',
+    order: 2,
+    items: [item('food:fries', 1)],
+  },
+  {
+    kind: 'FOOD',
+    order: 1,
+    items: [
+      item('food:sandwiches', 2, { isAvailable: false }),
+      item('food:pizza', 1, {
+        variants: [
+          { slug: 'la-strega', name: 'La Strega', description: null, isAvailable: true, order: 2 },
+          { slug: 'kfc', name: 'KFC', description: null, isAvailable: true, order: 1 },
+          { slug: 'old', name: 'Old', description: null, isAvailable: false, order: 0 },
+        ],
+      }),
+    ],
+  },
+  {
+    kind: 'ROOM',
+    order: 0,
+    items: [item('room:sensory-room', 0, { unit: 'FLAT', priceAmount: null })],
+  },
+]
+
+describe('buildBookingCatalog', () => {
+  it('should group available items by kind in order', () => {
+    const catalog = buildBookingCatalog(categories)
+
+    expect(catalog.FOOD.map(option => option.id)).toEqual(['pizza', 'fries'])
+    expect(catalog.ROOM.map(option => option.code)).toEqual(['room:sensory-room'])
+    expect(catalog.BEVERAGE).toEqual([])
+  })
+
+  it('should list available variants with catalog-wide ids', () => {
+    const pizza = buildBookingCatalog(categories).FOOD[0]
+
+    expect(pizza.variants).toEqual([
+      { id: 'pizza/kfc', name: 'KFC', description: null },
+      { id: 'pizza/la-strega', name: 'La Strega', description: null },
+    ])
+  })
+
+  it('should only price items that have a price', () => {
+    const items = getCatalogPriceItems(buildBookingCatalog(categories))
+
+    expect(items.map(entry => entry.code)).toEqual(['food:pizza', 'food:fries'])
+    expect(items[0]).toEqual({ code: 'food:pizza', name: 'food:pizza', amount: 100, currency: 'RSD', unit: 'PER_GUEST' })
+  })
+})
+
+describe('resolveCatalogOrder', () => {
+  const catalog = buildBookingCatalog(categories)
+
+  it('should take names and kinds from the catalog', () => {
+    expect(resolveCatalogOrder([
+      { code: 'food:pizza', variant: 'pizza/kfc', quantity: 8 },
+      { code: 'food:fries', quantity: 4 },
+    ], catalog)).toEqual([
+      { kind: 'FOOD', code: 'food:pizza', name: 'food:pizza - KFC', quantity: 8 },
+      { kind: 'FOOD', code: 'food:fries', name: 'food:fries', quantity: 4 },
+    ])
+  })
+
+  it('should refuse items and variants that are not offered', () => {
+    expect(() => resolveCatalogOrder([{ code: 'food:sandwiches', quantity: 1 }], catalog)).toThrow('Unknown catalog item')
+    expect(() => resolveCatalogOrder([{ code: 'food:pizza', variant: 'pizza/old', quantity: 1 }], catalog)).toThrow('Unknown catalog variant')
+    expect(() => resolveCatalogOrder([{ code: 'room:sensory-room', quantity: 1 }], catalog)).toThrow('Unknown catalog item')
+  })
+})
+
+describe('getCatalogRoomItems', () => {
+  it('should list booked rooms that are in the catalog', () => {
+    expect(getCatalogRoomItems(['sensory-room', 'cafe-seating'], buildBookingCatalog(categories))).toEqual([
+      { kind: 'ROOM', code: 'room:sensory-room', name: 'room:sensory-room', quantity: 1 },
+    ])
+  })
+})
@@ -0,0 +1,224 @@
+import type { PriceItem, PriceUnit } from './pricing'
+
+/**
+ * Booking Catalog
+ *
+ * Rooms, menu items, drinks and extras offered in the booking forms,
+ * managed from /admin/catalog. Every item has a price code (see
+ * lib/pricing.ts) made of its category kind and slug, e.g. food:pizza.
+ * Variants (like the pizza supplier) share their item's code and price.
+ */
+
+export type CatalogKind = 'ROOM' | 'FOOD' | 'BEVERAGE' | 'ADDON'
+
+export const CATALOG_KINDS: CatalogKind[] = ['ROOM', 'FOOD', 'BEVERAGE', 'ADDON']
+
+export const CATALOG_KIND_LABELS: Record<CatalogKind, string> = {
+  ROOM: 'Rooms',
+  FOOD: 'Food',
+  BEVERAGE: 'Beverages',
+  ADDON: 'Extras',
+}
+
+const CODE_PREFIXES: Record<CatalogKind, string> = {
+  ROOM: 'room',
+  FOOD: 'food',
+  BEVERAGE: 'beverage',
+  ADDON: 'addon',
+}
+
+/**
+ * Valid item or variant slug, e.g. sensory-room
+ */
+export const CATALOG_SLUG_PATTERN = /^[a-z0-9-]+$/
+
+/**
+ * Price code for a catalog item
+ */
+export function getCatalogCode(kind: CatalogKind, slug: string): string {
+  return `${CODE_PREFIXES[kind]}:${slug}`
+}
+
+/**
+ * Slug part of a price code (room:sensory-room -> sensory-room)
+ */
+export function getCatalogSlug(code: string): string {
+  return code.slice(code.indexOf(':') + 1)
+}
+
+/**
+ * Suggest a slug for a name (Čokoladna torta -> cokoladna-torta)
+ */
+export function toCatalogSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'dj')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Variant as offered in the booking forms
+ */
+export interface CatalogVariantOption {
+  id: string // <item slug>/<variant slug>, unique across the catalog
+  name: string
+  description: string | null
+}
+
+/**
+ * Item as offered in the booking forms
+ */
+export interface CatalogOption {
+  id: string // Slug, e.g. pizza
+  code: string // Price code, e.g. food:pizza
+  name: string
+  description: string | null
+  icon: string | null
+  price: number | null
+  currency: string
+  unit: PriceUnit
+  variants: CatalogVariantOption[]
+}
+
+export type BookingCatalog = Record<CatalogKind, CatalogOption[]>
+
+/**
+ * Catalog rows as loaded from the database (prices already converted to numbers)
+ */
+export interface CatalogCategoryRow {
+  kind: CatalogKind
+  order: number
+  items: {
+    code: string
+    name: string
+    description: string | null
+    icon: string | null
+    priceAmount: number | null
+    priceCurrency: string
+    unit: PriceUnit
+    isAvailable: boolean
+    order: number
+    variants: {
+      slug: string
+      name: string
+      description: string | null
+      isAvailable: boolean
+      order: number
+    }[]
+  }[]
+}
+
+const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order
+
+/**
+ * Group available items by kind, in admin-defined order
+ *
+ * Unavailable items and variants are left out. Categories of the same kind
+ * are listed one after another.
+ */
+export function buildBookingCatalog(categories: CatalogCategoryRow[]): BookingCatalog {
+  const catalog: BookingCatalog = { ROOM: [], FOOD: [], BEVERAGE: [], ADDON: [] }
+
+  for (const category of [...categories].sort(byOrder)) {
+    for (const item of [...category.items].sort(byOrder)) {
+      if (!item.isAvailable) continue
+
+      const slug = getCatalogSlug(item.code)
+      catalog[category.kind].push({
+        id: slug,
+        code: item.code,
+        name: item.name,
+        description: item.description,
+        icon: item.icon,
+        price: item.priceAmount,
+        currency: item.priceCurrency,
+        unit: item.unit,
+        variants: [...item.variants]
+          .sort(byOrder)
+          .filter(variant => variant.isAvailable)
+          .map(variant => ({
+            id: `${slug}/${variant.slug}`,
+            name: variant.name,
+            description: variant.description,
+          })),
+      })
+    }
+  }
+
+  return catalog
+}
+
+/**
+ * Priced catalog items for the pricing engine
+ */
+export function getCatalogPriceItems(catalog: BookingCatalog): PriceItem[] {
+  return CATALOG_KINDS.flatMap(kind => catalog[kind])
+    .filter(option => option.price !== null)
+    .map(option => ({
+      code: option.code,
+      name: option.name,
+      amount: option.price as number,
+      currency: option.currency,
+      unit: option.unit,
+    }))
+}
+
+/**
+ * Item ordered in a booking form
+ */
+export interface CatalogOrderItem {
+  code: string // Price code, e.g. food:pizza
+  variant?: string // Variant id, e.g. pizza/kfc
+  quantity: number
+}
+
+/**
+ * Ordered item as stored on the booking (a BookingLineItem)
+ */
+export interface CatalogLineItem {
+  kind: CatalogKind
+  code: string
+  name: string // Includes the variant, e.g. "Pizza - KFC"
+  quantity: number
+}
+
+/**
+ * Look up ordered menu items and extras in the catalog
+ *
+ * Names and kinds come from the catalog rather than the booking form.
+ * Rooms are booked as resources (see getCatalogRoomItems), so they can't
+ * be ordered here.
+ *
+ * @throws Error when an item or variant isn't offered
+ */
+export function resolveCatalogOrder(items: CatalogOrderItem[], catalog: BookingCatalog): CatalogLineItem[] {
+  return items.map(item => {
+    const kind = CATALOG_KINDS.find(entry => entry !== 'ROOM' && catalog[entry].some(option => option.code === item.code))
+    if (!kind) {
+      throw new Error(`Unknown catalog item: ${item.code}`)
+    }
+
+    const option = catalog[kind].find(entry => entry.code === item.code) as CatalogOption
+    if (!item.variant) {
+      return { kind, code: option.code, name: option.name, quantity: item.quantity }
+    }
+
+    const variant = option.variants.find(entry => entry.id === item.variant)
+    if (!variant) {
+      throw new Error(`Unknown catalog variant: ${item.variant}`)
+    }
+    return { kind, code: option.code, name: `${option.name} - ${variant.name}`, quantity: item.quantity }
+  })
+}
+
+/**
+ * Line items for the booked rooms that are in the catalog
+ */
+export function getCatalogRoomItems(resourceIds: string[], catalog: BookingCatalog): CatalogLineItem[] {
+  return catalog.ROOM
+    .filter(room => resourceIds.includes(room.id))
+    .map(room => ({ kind: 'ROOM', code: room.code, name: room.name, quantity: 1 }))
+}
@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for Cron Schedules
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getPreviousCronTime, parseCron } from './cron'
+
+describe('parseCron', () => {
+  it('should parse wildcards, lists, ranges and steps', () => {
+    const schedule = parseCron('0-59/15 8-18/2 1,15 * 1-5')
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45])
+    expect([...schedule.hours]).toEqual([8, 10, 12, 14, 16, 18])
+    expect([...schedule.daysOfMonth]).toEqual([1, 15])
+    expect(schedule.months.size).toBe(12)
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should treat 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0])
+  })
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('0 3 * *')).toThrow()
+    expect(() => parseCron('60 * * * *')).toThrow()
+    expect(() => parseCron('0 5-3 * * *')).toThrow()
+    expect(() => parseCron('0-59/0 * * * *')).toThrow()
+    expect(() => parseCron('a * * * *')).toThrow()
+  })
+})
+
+describe('getPreviousCronTime', () => {
+  // Saturday Jan 6, 2024, 10:07:30
+  const at = new Date(2024, 0, 6, 10, 7, 30)
+
+  it('should return the current minute when it matches', () => {
+    expect(getPreviousCronTime('* * * * *', at)).toEqual(new Date(2024, 0, 6, 10, 7))
+    expect(getPreviousCronTime('0-59/5 * * * *', at)).toEqual(new Date(2024, 0, 6, 10, 5))
+  })
+
+  it('should go back to an earlier day', () => {
+    expect(getPreviousCronTime('0 3 * * *', at)).toEqual(new Date(2024, 0, 6, 3, 0))
+    expect(getPreviousCronTime('0 12 * * *', at)).toEqual(new Date(2024, 0, 5, 12, 0))
+    expect(getPreviousCronTime('0 4 * * 0', at)).toEqual(new Date(2023, 11, 31, 4, 0))
+  })
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Friday
+    expect(getPreviousCronTime('0 0 1 * 5', at)).toEqual(new Date(2024, 0, 5, 0, 0))
+    expect(getPreviousCronTime('0 0 1 * 5', new Date(2024, 0, 3))).toEqual(new Date(2024, 0, 1, 0, 0))
+  })
+
+  it('should find yearly schedules', () => {
+    expect(getPreviousCronTime('0 0 29 2 *', at)).toEqual(new Date(2020, 1, 29, 0, 0))
+  })
+
+  it('should return null for schedules that never fire', () => {
+    expect(getPreviousCronTime('0 0 31 2 *', at)).toBeNull()
+  })
+})
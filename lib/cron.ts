@@ -0,0 +1,134 @@
+/**
+ * Cron Schedules
+ *
+ * Standard five-field cron expressions (minute hour day-of-month month
+ * day-of-week), evaluated in server local time. Fields support `*`, lists
+ * (`1,15`), ranges (`1-5`) and steps (`0-59/15`, `8-18/2`). Day of week is
+ * 0-6 starting on Sunday (7 is Sunday too). As in cron, when both day
+ * fields are restricted a day matches either of them.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number> // 1-12
+  daysOfWeek: Set<number> // 0-6, Sunday = 0
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+const FIELD_RANGES: [min: number, max: number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+]
+
+/**
+ * Upper bound on search steps, enough to find any valid schedule
+ */
+const MAX_SEARCH_STEPS = 20000
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else {
+      const [from, to] = range.split('-')
+      start = Number(from)
+      end = to === undefined ? (stepText === undefined ? start : max) : Number(to)
+    }
+
+    if (
+      !Number.isInteger(start) || !Number.isInteger(end) || !Number.isInteger(step) ||
+      start < min || end > max || start > end || step < 1 || range === ''
+    ) {
+      throw new Error(`Invalid cron field: ${field}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @example parseCron('0 3 * * *') // Every day at 03:00
+ * @throws Error if the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1])
+  )
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay())
+
+  if (schedule.anyDayOfMonth) return dayOfWeek
+  if (schedule.anyDayOfWeek) return dayOfMonth
+  return dayOfMonth || dayOfWeek
+}
+
+/**
+ * Latest time a schedule fires at or before a moment
+ *
+ * @example getPreviousCronTime('0 3 * * *', new Date(2024, 0, 6, 10)) => Jan 6, 2024 03:00
+ * @returns The time (whole minute), or null if the schedule never fires
+ */
+export function getPreviousCronTime(expression: string, at: Date): Date | null {
+  const schedule = parseCron(expression)
+  const date = new Date(at)
+  date.setSeconds(0, 0)
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!matchesDay(schedule, date)) {
+      date.setHours(0, -1) // 23:59 the day before
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setMinutes(-1) // hh:59 the hour before
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() - 1)
+    } else {
+      return date
+    }
+  }
+
+  return null
+}
+
@@ -0,0 +1,42 @@
+/**
+ * Unit Tests for Email Verification Tokens
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  createEmailVerificationToken,
+  getBookingVerificationError,
+  hashEmailVerificationToken,
+} from './email-verification'
+
+describe('getBookingVerificationError', () => {
+  it('should turn away unverified customers when verification is required', () => {
+    expect(getBookingVerificationError(false, true)).toMatch(/verify your email/)
+  })
+
+  it('should let verified customers book', () => {
+    expect(getBookingVerificationError(true, true)).toBeNull()
+  })
+
+  it('should let anyone book when verification is not required', () => {
+    expect(getBookingVerificationError(false, false)).toBeNull()
+  })
+})
+
+describe('createEmailVerificationToken', () => {
+  it('should create a URL-safe token and store only its hash', () => {
+    const { token, tokenHash } = createEmailVerificationToken()
+
+    expect(token).toMatch(/^[\w-]{43}$/)
+    expect(tokenHash).toBe(hashEmailVerificationToken(token))
+    expect(tokenHash).not.toContain(token)
+  })
+
+  it('should expire after the token lifetime', () => {
+    const now = new Date('2026-10-19T10:00:00Z')
+    const { expiresAt } = createEmailVerificationToken(now)
+
+    expect(expiresAt.getTime() - now.getTime()).toBe(EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000)
+  })
+})
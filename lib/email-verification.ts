@@ -0,0 +1,52 @@
+import { createHash, randomBytes } from 'crypto'
+import { addHours } from 'date-fns'
+
+/**
+ * Email Verification Tokens
+ *
+ * Verification links carry a random token and only its SHA-256 hash is
+ * stored, as with password reset links (see lib/password-reset.ts). A link
+ * works until it expires or the address is verified.
+ */
+
+/**
+ * How long a verification link works
+ */
+export const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = 24
+
+/**
+ * Hash a verification token for storage and lookup
+ */
+export function hashEmailVerificationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Why a customer can't book yet, if they need to verify their email first
+ * Applies to every way of getting a booking: booking directly, joining the
+ * waitlist and claiming a waitlist offer.
+ * @param requireVerification - Whether admins require a verified email
+ *   (features.requireEmailVerification)
+ * @returns The error to show, or null when they may book
+ */
+export function getBookingVerificationError(hasVerifiedEmail: boolean, requireVerification: boolean): string | null {
+  if (hasVerifiedEmail || !requireVerification) {
+    return null
+  }
+
+  return 'Please verify your email address before booking. You can resend the verification link from your profile.'
+}
+
+/**
+ * Create a verification token
+ * @returns The token to email and the hash and expiry to store
+ */
+export function createEmailVerificationToken(now: Date = new Date()) {
+  const token = randomBytes(32).toString('base64url')
+
+  return {
+    token,
+    tokenHash: hashEmailVerificationToken(token),
+    expiresAt: addHours(now, EMAIL_VERIFICATION_TOKEN_TTL_HOURS),
+  }
+}
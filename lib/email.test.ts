@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { sendEmail } from './email'
+import {
+  createMockEmailTransport,
+  sendEmail,
+  sendEventWaitlistPromotedEmail,
+  sendWaitlistOfferEmail,
+  setEmailTransport,
+} from './email'
 
 // Mock the Resend library
 vi.mock('resend', () => ({
@@ -115,6 +121,23 @@ describe('sendEmail', () => {
     expect(result).toBeDefined()
     expect(typeof result.success).toBe('boolean')
   })
+
+  it('should send through a configured transport', async () => {
+    const mock = createMockEmailTransport(email => (email.subject === 'Bounce' ? 'Rejected' : undefined))
+    setEmailTransport(mock.transport)
+
+    try {
+      const sent = await sendEmail({ to: 'user@example.com', subject: 'Hello', html: '<p>Hi</p>' })
+      const failed = await sendEmail({ to: 'user@example.com', subject: 'Bounce', html: '<p>Hi</p>' })
+
+      expect(sent).toMatchObject({ success: true, id: 'mock-1' })
+      expect(failed).toMatchObject({ success: false, error: 'Rejected' })
+      expect(mock.sent).toHaveLength(1)
+      expect(mock.sent[0]).toMatchObject({ to: 'user@example.com', from: 'noreply@xplorium.com' })
+    } finally {
+      setEmailTransport(null)
+    }
+  })
 })
 
 describe('Email HTML Escaping', () => {
@@ -213,6 +236,68 @@ describe('Email Templates Validation', () => {
     expect(resetData.resetToken.length).toBeGreaterThan(0)
   })
 
+  it('should send the waitlist offer with its claim link', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+    vi.stubEnv('NEXTAUTH_URL', 'https://xplorium.test')
+
+    try {
+      const result = await sendWaitlistOfferEmail({
+        to: 'customer@example.com',
+        customerName: 'Jane Doe',
+        bookingTitle: 'Sensory Room Visit',
+        bookingDate: 'December 25, 2024',
+        bookingTime: '14:00',
+        offerToken: 'a1b2c3d4e5f6',
+        expiresAt: 'December 20, 2024 16:00'
+      })
+
+      expect(result.success).toBe(true)
+      expect(mock.sent).toHaveLength(1)
+      expect(mock.sent[0]).toMatchObject({
+        to: 'customer@example.com',
+        subject: 'A spot opened up - Sensory Room Visit',
+      })
+      expect(mock.sent[0].html).toContain('href="https://xplorium.test/booking/claim/a1b2c3d4e5f6"')
+      expect(mock.sent[0].html).toContain('December 20, 2024 16:00')
+    } finally {
+      vi.unstubAllEnvs()
+      setEmailTransport(null)
+    }
+  })
+
+  it('should send the event waitlist promotion with the ticket attached', async () => {
+    const mock = createMockEmailTransport()
+    setEmailTransport(mock.transport)
+
+    try {
+      const result = await sendEventWaitlistPromotedEmail({
+        to: 'parent@example.com',
+        attendeeName: 'Jane Doe',
+        eventTitle: 'Science Saturday',
+        eventDate: 'December 25, 2024',
+        eventTime: '11:00',
+        location: null,
+        ticketToken: 'ticket-token-123',
+        qrCode: Buffer.from('png'),
+        guestCount: 2
+      })
+
+      expect(result.success).toBe(true)
+      expect(mock.sent).toHaveLength(1)
+      expect(mock.sent[0]).toMatchObject({
+        to: 'parent@example.com',
+        subject: "You're in! - Science Saturday",
+        attachments: [{ filename: 'ticket.png', contentId: 'ticket-qr' }],
+      })
+      expect(mock.sent[0].html).toContain('ticket-token-123')
+      expect(mock.sent[0].html).toContain('Admits <strong>2 guests</strong>')
+      expect(mock.sent[0].html).not.toContain('Location:')
+    } finally {
+      setEmailTransport(null)
+    }
+  })
+
   it('should create valid admin notification email structure', () => {
     const adminData = {
       to: ['admin1@xplorium.com', 'admin2@xplorium.com'],
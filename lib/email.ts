@@ -1,6 +1,7 @@
 import { Resend } from 'resend'
 import { logger } from './logger'
 import { escape } from 'html-escaper'
+import { getListUnsubscribeHeaders } from './marketing-preferences'
 
 /**
  * Email Service Utility
@@ -42,6 +43,17 @@ function getResendClient(): Resend | null {
   return resendClient
 }
 
+/**
+ * File attached to an email
+ * Attachments with a contentId are shown inline: reference them from the
+ * HTML as `cid:<contentId>`.
+ */
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+  contentId?: string
+}
+
 /**
  * Base email sending function
  */
@@ -52,6 +64,47 @@ export interface SendEmailOptions {
   text?: string
   react?: React.ReactElement
   replyTo?: string
+  attachments?: EmailAttachment[]
+  headers?: Record<string, string>
+}
+
+/**
+ * Delivers emails in place of Resend (see setEmailTransport)
+ */
+export interface EmailTransport {
+  send(email: SendEmailOptions & { from: string }): Promise<{ id?: string; error?: string }>
+}
+
+let emailTransport: EmailTransport | null = null
+
+/**
+ * Send all emails through a transport instead of Resend; null restores Resend
+ */
+export function setEmailTransport(transport: EmailTransport | null) {
+  emailTransport = transport
+}
+
+/**
+ * Transport that keeps emails in memory instead of sending them, for tests
+ * @param fail - Returns an error message for emails that should fail
+ */
+export function createMockEmailTransport(fail?: (email: SendEmailOptions) => string | undefined) {
+  const sent: (SendEmailOptions & { from: string; id: string })[] = []
+
+  const transport: EmailTransport = {
+    async send(email) {
+      const error = fail?.(email)
+      if (error) {
+        return { error }
+      }
+
+      const id = `mock-${sent.length + 1}`
+      sent.push({ ...email, id })
+      return { id }
+    }
+  }
+
+  return { transport, sent }
 }
 
 export async function sendEmail(options: SendEmailOptions) {
@@ -63,6 +116,23 @@ export async function sendEmail(options: SendEmailOptions) {
       hasApiKey: !!process.env.RESEND_API_KEY
     })
 
+    if (emailTransport) {
+      const { id, error } = await emailTransport.send({ ...options, from: FROM_EMAIL })
+      if (error) {
+        logger.error('Failed to send email via transport', { to: options.to, error })
+        return {
+          success: false,
+          error
+        }
+      }
+
+      return {
+        success: true,
+        id,
+        message: 'Email sent successfully'
+      }
+    }
+
     // If Resend is not configured, log warning (development mode)
     if (!isResendConfigured()) {
       logger.warn('Resend not configured - Email would be sent', {
@@ -97,7 +167,9 @@ export async function sendEmail(options: SendEmailOptions) {
       html: options.html,
       text: options.text,
       react: options.react,
-      replyTo: options.replyTo
+      replyTo: options.replyTo,
+      attachments: options.attachments,
+      headers: options.headers
     })
 
     if (error) {
@@ -377,6 +449,428 @@ export async function sendBookingRejectedEmail(data: {
   })
 }
 
+/**
+ * Send waitlist offer email to customer
+ */
+export async function sendWaitlistOfferEmail(data: {
+  to: string
+  customerName: string
+  bookingTitle: string
+  bookingDate: string
+  bookingTime: string
+  offerToken: string
+  expiresAt: string
+}) {
+  const claimLink = `${process.env.NEXTAUTH_URL}/booking/claim/${data.offerToken}`
+
+  return sendEmail({
+    to: data.to,
+    subject: `A spot opened up - ${escapeHtml(data.bookingTitle)}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #22d3ee 0%, #06b6d4 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">A Spot Opened Up!</h1>
+          <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">The time you were waiting for is available</p>
+        </div>
+
+        <div style="background: white; padding: 30px; border: 1px solid #e5e7eb;">
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Hi ${escapeHtml(data.customerName)},
+          </p>
+
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Good news! The time slot you joined the waitlist for is now available. It is being held for you until
+            <strong>${escapeHtml(data.expiresAt)}</strong>.
+          </p>
+
+          <div style="background: #f0f9ff; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #06b6d4;">
+            <h2 style="color: #0891b2; margin-top: 0; font-size: 20px;">Requested Booking</h2>
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Event:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.bookingTitle)}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Date:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.bookingDate)}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Time:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.bookingTime)}</td>
+              </tr>
+            </table>
+          </div>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${claimLink}" style="display: inline-block; background: #06b6d4; color: white; padding: 14px 40px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+              Claim This Spot
+            </a>
+          </div>
+
+          <p style="font-size: 14px; color: #6b7280; margin: 20px 0; padding: 15px; background: #f9fafb; border-radius: 6px;">
+            <strong>Note:</strong> If you don't claim the spot in time, it will be offered to the next person on the waitlist.
+          </p>
+
+          <div style="margin-top: 30px; padding-top: 30px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+              See you soon!<br>
+              <strong style="color: #06b6d4;">The Xplorium Team</strong>
+            </p>
+          </div>
+        </div>
+
+        <div style="background: #f9fafb; padding: 20px; text-align: center; border: 1px solid #e5e7eb; border-top: none;">
+          <p style="color: #6b7280; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} Xplorium. All rights reserved.
+          </p>
+          <p style="color: #9ca3af; font-size: 11px; margin: 10px 0 0 0;">
+            If the button doesn't work, copy and paste this link into your browser:<br>
+            <span style="color: #06b6d4;">${claimLink}</span>
+          </p>
+        </div>
+      </div>
+    `
+  })
+}
+
+/**
+ * Event ticket shown in ticket emails
+ */
+interface EventTicketDetails {
+  ticketToken: string
+  qrCode: Buffer // PNG (see renderTicketQrCode in lib/event-tickets.ts)
+  guestCount: number
+  amountDue?: string | null // Formatted amount to pay at the entrance, for paid events
+}
+
+const TICKET_QR_CONTENT_ID = 'ticket-qr'
+
+function renderTicketHtml(ticket: EventTicketDetails): string {
+  return `
+          <div style="text-align: center; padding: 20px; border: 2px dashed #06b6d4; border-radius: 8px; margin: 20px 0;">
+            <h2 style="color: #0891b2; margin-top: 0; font-size: 20px;">Your Ticket</h2>
+            <img src="cid:${TICKET_QR_CONTENT_ID}" alt="Ticket QR code" width="240" height="240" style="display: block; margin: 0 auto;" />
+            <p style="font-size: 16px; color: #374151; margin: 15px 0 5px 0;">
+              Admits <strong>${ticket.guestCount} guest${ticket.guestCount > 1 ? 's' : ''}</strong>
+            </p>
+            ${ticket.amountDue ? `
+            <p style="font-size: 16px; color: #374151; margin: 5px 0;">
+              To pay at the entrance: <strong>${escapeHtml(ticket.amountDue)}</strong>
+            </p>
+            ` : ''}
+            <p style="font-family: monospace; font-size: 11px; color: #9ca3af; margin: 10px 0 0 0; word-break: break-all;">
+              ${escapeHtml(ticket.ticketToken)}
+            </p>
+          </div>
+  `
+}
+
+function ticketAttachments(ticket: EventTicketDetails): EmailAttachment[] {
+  return [{ filename: 'ticket.png', content: ticket.qrCode, contentId: TICKET_QR_CONTENT_ID }]
+}
+
+/**
+ * Plain-text message (e.g. an admin-edited template) as HTML paragraphs
+ */
+function renderMessageHtml(message: string, linkUrl?: (url: string) => string): string {
+  return message
+    .split(/\n\s*\n/)
+    .map(paragraph => `
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            ${renderParagraphHtml(paragraph.trim(), linkUrl).replace(/\n/g, '<br>')}
+          </p>`)
+    .join('')
+}
+
+/**
+ * Escape a paragraph of plain text, turning URLs into links when `linkUrl`
+ * is given. `linkUrl` maps each URL to the href, e.g. to track clicks.
+ */
+function renderParagraphHtml(paragraph: string, linkUrl?: (url: string) => string): string {
+  if (!linkUrl) {
+    return escapeHtml(paragraph)
+  }
+
+  let html = ''
+  let last = 0
+  for (const match of paragraph.matchAll(/https?:\/\/[^\s<>"]+/g)) {
+    // Punctuation ending a sentence isn't part of the URL
+    const url = match[0].replace(/[.,;:!?)]+$/, '')
+    html += escapeHtml(paragraph.slice(last, match.index))
+    html += `<a href="${escapeHtml(linkUrl(url))}" style="color: #06b6d4;">${escapeHtml(url)}</a>`
+    last = match.index + url.length
+  }
+
+  return html + escapeHtml(paragraph.slice(last))
+}
+
+/**
+ * Send an event ticket to a confirmed attendee
+ * Subject and message come from the event's confirmation template (see
+ * lib/event-emails.ts).
+ */
+export async function sendEventTicketEmail(data: EventTicketDetails & {
+  to: string
+  subject: string
+  message: string
+  attendeeName: string
+}) {
+  return sendEmail({
+    to: data.to,
+    subject: data.subject,
+    attachments: ticketAttachments(data),
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #22d3ee 0%, #06b6d4 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">You're Registered!</h1>
+          <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">Your ticket is below</p>
+        </div>
+
+        <div style="background: white; padding: 30px; border: 1px solid #e5e7eb;">
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Hi ${escapeHtml(data.attendeeName)},
+          </p>
+
+${renderMessageHtml(data.message)}
+${renderTicketHtml(data)}
+          <p style="font-size: 14px; color: #6b7280; margin: 20px 0; padding: 15px; background: #f9fafb; border-radius: 6px;">
+            <strong>Note:</strong> The ticket can be used once. If you can no longer attend, please cancel your registration so someone else can take your seat.
+          </p>
+
+          <div style="margin-top: 30px; padding-top: 30px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+              See you soon!<br>
+              <strong style="color: #06b6d4;">The Xplorium Team</strong>
+            </p>
+          </div>
+        </div>
+
+        <div style="background: #f9fafb; padding: 20px; text-align: center; border: 1px solid #e5e7eb; border-top: none;">
+          <p style="color: #6b7280; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} Xplorium. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+  })
+}
+
+/**
+ * Send email to an event attendee promoted off the waitlist, with their ticket
+ */
+export async function sendEventWaitlistPromotedEmail(data: EventTicketDetails & {
+  to: string
+  attendeeName: string
+  eventTitle: string
+  eventDate: string
+  eventTime: string
+  location?: string | null
+}) {
+  return sendEmail({
+    to: data.to,
+    subject: `You're in! - ${escapeHtml(data.eventTitle)}`,
+    attachments: ticketAttachments(data),
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #22d3ee 0%, #06b6d4 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">You're Off the Waitlist!</h1>
+          <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">A seat opened up and it's yours</p>
+        </div>
+
+        <div style="background: white; padding: 30px; border: 1px solid #e5e7eb;">
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Hi ${escapeHtml(data.attendeeName)},
+          </p>
+
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Good news! A seat opened up and your registration is now <strong>confirmed</strong>. Show the ticket below at the entrance to check in.
+          </p>
+
+          <div style="background: #f0f9ff; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #06b6d4;">
+            <h2 style="color: #0891b2; margin-top: 0; font-size: 20px;">Event Details</h2>
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Event:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.eventTitle)}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Date:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.eventDate)}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Time:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.eventTime)}</td>
+              </tr>
+              ${data.location ? `
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Location:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.location)}</td>
+              </tr>
+              ` : ''}
+            </table>
+          </div>
+
+${renderTicketHtml(data)}
+          <p style="font-size: 14px; color: #6b7280; margin: 20px 0; padding: 15px; background: #f9fafb; border-radius: 6px;">
+            <strong>Note:</strong> If you can no longer attend, please cancel your registration so the next person on the waitlist can take your seat.
+          </p>
+
+          <div style="margin-top: 30px; padding-top: 30px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+              See you soon!<br>
+              <strong style="color: #06b6d4;">The Xplorium Team</strong>
+            </p>
+          </div>
+        </div>
+
+        <div style="background: #f9fafb; padding: 20px; text-align: center; border: 1px solid #e5e7eb; border-top: none;">
+          <p style="color: #6b7280; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} Xplorium. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+  })
+}
+
+/**
+ * Send an email of an attendee's event sequence: reminder, "starting soon"
+ * or thank-you. Subject and message come from the event's templates (see
+ * lib/event-emails.ts).
+ */
+export async function sendEventSequenceEmail(data: {
+  to: string
+  subject: string
+  heading: string
+  message: string
+  attendeeName: string
+  eventTitle: string
+  eventDate: string
+  eventTime: string
+  location?: string | null
+  action?: { label: string; url: string } | null
+}) {
+  return sendEmail({
+    to: data.to,
+    subject: data.subject,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #22d3ee 0%, #06b6d4 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">${escapeHtml(data.heading)}</h1>
+          <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">${escapeHtml(data.eventTitle)}</p>
+        </div>
+
+        <div style="background: white; padding: 30px; border: 1px solid #e5e7eb;">
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Hi ${escapeHtml(data.attendeeName)},
+          </p>
+${renderMessageHtml(data.message)}
+
+          <div style="background: #f0f9ff; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #06b6d4;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Date:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.eventDate)}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Time:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.eventTime)}</td>
+              </tr>
+              ${data.location ? `
+              <tr>
+                <td style="padding: 8px 0; color: #6b7280; font-weight: 600;">Location:</td>
+                <td style="padding: 8px 0; color: #374151;">${escapeHtml(data.location)}</td>
+              </tr>
+              ` : ''}
+            </table>
+          </div>
+
+          ${data.action ? `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(data.action.url)}" style="display: inline-block; background: #06b6d4; color: white; padding: 14px 40px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+              ${escapeHtml(data.action.label)}
+            </a>
+          </div>
+          ` : ''}
+
+          <div style="margin-top: 30px; padding-top: 30px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+              Best regards,<br>
+              <strong style="color: #06b6d4;">The Xplorium Team</strong>
+            </p>
+          </div>
+        </div>
+
+        <div style="background: #f9fafb; padding: 20px; text-align: center; border: 1px solid #e5e7eb; border-top: none;">
+          <p style="color: #6b7280; font-size: 12px; margin: 0;">
+            You're receiving this because you registered for this event.
+          </p>
+          <p style="color: #6b7280; font-size: 12px; margin: 10px 0 0 0;">
+            © ${new Date().getFullYear()} Xplorium. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+  })
+}
+
+/**
+ * Send a marketing campaign email to one recipient
+ * URLs in the message become links; with `tracking`, links go through the
+ * click tracker and a tracking pixel is added (see lib/campaign-tracking.ts).
+ * With `unsubscribe`, the footer links to the recipient's preference center
+ * and the email gets one-click unsubscribe headers (see
+ * lib/marketing-preferences.ts).
+ */
+export async function sendCampaignEmail(data: {
+  to: string
+  subject: string
+  message: string
+  recipientName?: string | null
+  tracking?: { pixelUrl: string; linkUrl: (url: string) => string }
+  unsubscribe?: { preferencesUrl: string; oneClickUrl: string }
+}) {
+  const preferencesUrl = data.unsubscribe?.preferencesUrl ?? `${process.env.NEXTAUTH_URL}/profile`
+
+  return sendEmail({
+    to: data.to,
+    subject: data.subject,
+    headers: data.unsubscribe && getListUnsubscribeHeaders(data.unsubscribe.oneClickUrl),
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #22d3ee 0%, #06b6d4 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">${escapeHtml(data.subject)}</h1>
+        </div>
+
+        <div style="background: white; padding: 30px; border: 1px solid #e5e7eb;">
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Hi ${escapeHtml(data.recipientName || 'there')},
+          </p>
+${renderMessageHtml(data.message, data.tracking?.linkUrl ?? (url => url))}
+
+          <div style="margin-top: 30px; padding-top: 30px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+              Best regards,<br>
+              <strong style="color: #06b6d4;">The Xplorium Team</strong>
+            </p>
+          </div>
+        </div>
+
+        <div style="background: #f9fafb; padding: 20px; text-align: center; border: 1px solid #e5e7eb; border-top: none;">
+          <p style="color: #6b7280; font-size: 12px; margin: 0;">
+            You're receiving this because you opted in to news from Xplorium.
+            <a href="${escapeHtml(preferencesUrl)}" style="color: #06b6d4;">Unsubscribe or manage your preferences</a>.
+          </p>
+          <p style="color: #6b7280; font-size: 12px; margin: 10px 0 0 0;">
+            © ${new Date().getFullYear()} Xplorium. All rights reserved.
+          </p>
+        </div>
+        ${data.tracking ? `<img src="${escapeHtml(data.tracking.pixelUrl)}" width="1" height="1" alt="" style="display: block; border: 0;">` : ''}
+      </div>
+    `
+  })
+}
+
 /**
  * Send welcome email to new users
  */
@@ -441,6 +935,71 @@ export async function sendWelcomeEmail(data: {
   })
 }
 
+/**
+ * Send email address verification link
+ */
+export async function sendVerificationEmail(data: {
+  to: string
+  name: string
+  verificationToken: string
+}) {
+  const verifyLink = `${process.env.NEXTAUTH_URL}/verify-email?token=${data.verificationToken}`
+
+  return sendEmail({
+    to: data.to,
+    subject: 'Verify Your Email - Xplorium',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #22d3ee 0%, #06b6d4 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">Verify Your Email</h1>
+          <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">Xplorium Account</p>
+        </div>
+
+        <div style="background: white; padding: 30px; border: 1px solid #e5e7eb;">
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Hi ${escapeHtml(data.name)},
+          </p>
+
+          <p style="font-size: 16px; color: #374151; margin-bottom: 20px;">
+            Please confirm that this is your email address by clicking the button below:
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${verifyLink}" style="display: inline-block; background: #06b6d4; color: white; padding: 14px 40px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+              Verify Email
+            </a>
+          </div>
+
+          <p style="font-size: 14px; color: #6b7280; margin: 20px 0; padding: 15px; background: #f9fafb; border-radius: 6px;">
+            <strong>Note:</strong> This link will expire in 24 hours. You can request a new one from your profile.
+          </p>
+
+          <p style="font-size: 16px; color: #374151; margin: 20px 0;">
+            If you didn't create an Xplorium account, you can safely ignore this email.
+          </p>
+
+          <div style="margin-top: 30px; padding-top: 30px; border-top: 1px solid #e5e7eb;">
+            <p style="color: #6b7280; font-size: 14px; margin: 0;">
+              Best regards,<br>
+              <strong style="color: #06b6d4;">The Xplorium Team</strong>
+            </p>
+          </div>
+        </div>
+
+        <div style="background: #f9fafb; padding: 20px; text-align: center; border: 1px solid #e5e7eb; border-top: none;">
+          <p style="color: #6b7280; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} Xplorium. All rights reserved.
+          </p>
+          <p style="color: #9ca3af; font-size: 11px; margin: 10px 0 0 0;">
+            If the button doesn't work, copy and paste this link into your browser:<br>
+            <span style="color: #06b6d4;">${verifyLink}</span>
+          </p>
+        </div>
+      </div>
+    `
+  })
+}
+
 /**
  * Send password reset email
  */
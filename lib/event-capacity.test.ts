@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Event Capacity
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getSeatsTaken, pickWaitlistPromotions, planRegistration } from './event-capacity'
+
+describe('getSeatsTaken', () => {
+  it('should count guests of seated registrations only', () => {
+    expect(getSeatsTaken([
+      { status: 'CONFIRMED', guestCount: 5 },
+      { status: 'PENDING', guestCount: 2 },
+      { status: 'WAITLIST', guestCount: 3 },
+      { status: 'CANCELLED', guestCount: 4 },
+    ])).toBe(7)
+    expect(getSeatsTaken([])).toBe(0)
+  })
+})
+
+describe('planRegistration', () => {
+  it('should seat parties that fit', () => {
+    expect(planRegistration(10, 5, 5)).toEqual({ kind: 'seated' })
+    expect(planRegistration(null, 500, 5)).toEqual({ kind: 'seated' })
+  })
+
+  it('should offer the remaining seats to parties that only partly fit', () => {
+    expect(planRegistration(10, 7, 5)).toEqual({ kind: 'partial', remainingSeats: 3 })
+  })
+
+  it('should waitlist parties when the event is full', () => {
+    expect(planRegistration(10, 10, 1)).toEqual({ kind: 'waitlist' })
+    expect(planRegistration(10, 12, 1)).toEqual({ kind: 'waitlist' })
+  })
+})
+
+describe('pickWaitlistPromotions', () => {
+  const waitlist = [
+    { id: 'a', guestCount: 2 },
+    { id: 'b', guestCount: 4 },
+    { id: 'c', guestCount: 1 },
+  ]
+
+  it('should promote from the front while parties fit', () => {
+    expect(pickWaitlistPromotions(waitlist, 6).map(entry => entry.id)).toEqual(['a', 'b'])
+    expect(pickWaitlistPromotions(waitlist, null).map(entry => entry.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should not let smaller parties jump the queue', () => {
+    expect(pickWaitlistPromotions(waitlist, 3).map(entry => entry.id)).toEqual(['a'])
+    expect(pickWaitlistPromotions(waitlist, 0)).toEqual([])
+  })
+})
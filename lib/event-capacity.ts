@@ -0,0 +1,65 @@
+import type { RSVPStatus } from '@prisma/client'
+
+/**
+ * Event Capacity
+ *
+ * Event capacity is counted in seats: every registration takes one seat per
+ * guest. Waitlisted and cancelled registrations don't hold seats.
+ */
+
+export const SEATED_STATUSES: RSVPStatus[] = ['PENDING', 'CONFIRMED']
+
+export type RegistrationPlan =
+  | { kind: 'seated' }
+  | { kind: 'partial'; remainingSeats: number }
+  | { kind: 'waitlist' }
+
+/**
+ * Seats held by an event's registrations
+ */
+export function getSeatsTaken(attendees: { status: RSVPStatus; guestCount: number }[]): number {
+  return attendees
+    .filter(attendee => SEATED_STATUSES.includes(attendee.status))
+    .reduce((sum, attendee) => sum + attendee.guestCount, 0)
+}
+
+/**
+ * Decide where a new registration goes
+ *
+ * A party that only partly fits is offered the remaining seats instead of
+ * being split between the event and the waitlist.
+ * @param capacity - Event capacity in seats (null = unlimited)
+ * @param seatsTaken - Seats already held
+ * @param guestCount - Seats requested
+ */
+export function planRegistration(capacity: number | null, seatsTaken: number, guestCount: number): RegistrationPlan {
+  if (!capacity) return { kind: 'seated' }
+
+  const remainingSeats = Math.max(capacity - seatsTaken, 0)
+  if (guestCount <= remainingSeats) return { kind: 'seated' }
+  if (remainingSeats > 0) return { kind: 'partial', remainingSeats }
+  return { kind: 'waitlist' }
+}
+
+/**
+ * Waitlist entries that fit into the free seats, front of the line first
+ *
+ * Promotion stops at the first party that doesn't fit, so smaller parties
+ * further back never jump the queue.
+ * @param waitlist - Waitlisted registrations in line order
+ * @param freeSeats - Free seats (null = unlimited)
+ */
+export function pickWaitlistPromotions<T extends { guestCount: number }>(waitlist: T[], freeSeats: number | null): T[] {
+  if (freeSeats === null) return waitlist
+
+  const promoted: T[] = []
+  let seatsLeft = freeSeats
+
+  for (const entry of waitlist) {
+    if (entry.guestCount > seatsLeft) break
+    promoted.push(entry)
+    seatsLeft -= entry.guestCount
+  }
+
+  return promoted
+}
@@ -0,0 +1,245 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { Prisma, type EventEmailKind } from '@prisma/client'
+import { prisma } from './db'
+import { logger } from './logger'
+import { sendEventSequenceEmail, sendEventTicketEmail, sendEventWaitlistPromotedEmail } from './email'
+import { createTicketToken, getTicketAmount, getTicketSecret, renderTicketQrCode } from './event-tickets'
+import { SEATED_STATUSES } from './event-capacity'
+import { findEventOccurrence, getOccurrenceEnd, getOccurrenceKey } from './event-occurrences'
+import { fillEventEmailTemplate, getDueEventEmail, getEventEmailTemplate, FOLLOW_UP_DAYS } from './event-emails'
+import { getSetting } from '@/app/actions/settings'
+
+/**
+ * Event Email Delivery
+ *
+ * Sends the attendee email sequence (see lib/event-emails.ts). Called from
+ * the event actions when attendees are seated and from the send-event-emails
+ * job; not a server action, so clients can't trigger sends.
+ */
+
+/**
+ * How far back the scheduler looks for occurrences, in days past the
+ * thank-you window
+ */
+const LOOKBACK_DAYS = FOLLOW_UP_DAYS + 7
+
+const SEQUENCE_HEADINGS: Record<Exclude<EventEmailKind, 'CONFIRMATION'>, string> = {
+  REMINDER: 'See You Soon!',
+  STARTING_SOON: 'Starting Soon!',
+  FOLLOW_UP: 'Thanks for Coming!',
+}
+
+const attendeeWithEvent = {
+  include: {
+    event: { include: { exceptions: true } },
+    emails: { select: { kind: true } },
+  },
+} satisfies Prisma.EventAttendeeDefaultArgs
+
+type AttendeeWithEvent = Prisma.EventAttendeeGetPayload<typeof attendeeWithEvent>
+
+/**
+ * Address to send feedback to when an event has no feedback link
+ */
+async function getFeedbackFallbackUrl() {
+  const result = await getSetting('contact.email')
+  const email = result.setting?.value?.text || 'info@xplorium.com'
+  return `mailto:${email}`
+}
+
+/**
+ * Send one email of the sequence to an attendee
+ *
+ * The delivery is recorded before sending so concurrent runs can't send it
+ * twice, and removed again when sending fails so the next run retries.
+ * @returns Whether the email was sent
+ */
+async function deliverEventEmail(
+  attendee: AttendeeWithEvent,
+  kind: EventEmailKind,
+  options: { promoted?: boolean; feedbackUrl?: string } = {}
+): Promise<boolean> {
+  const { event } = attendee
+
+  try {
+    await prisma.eventEmailDelivery.create({ data: { attendeeId: attendee.id, kind } })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false // Already sent
+    }
+    throw error
+  }
+
+  try {
+    const occurrence = findEventOccurrence(event, event.exceptions, attendee.occurrenceDate)
+    const eventDate = format(occurrence?.date ?? parseISO(attendee.occurrenceDate), 'MMMM d, yyyy')
+    const eventTime = occurrence?.time ?? event.time
+    const template = getEventEmailTemplate(event.emailTemplates, kind)
+    const values = {
+      name: attendee.name,
+      event: event.title,
+      date: eventDate,
+      time: eventTime,
+      location: event.location ?? '',
+    }
+    const subject = fillEventEmailTemplate(template.subject, values)
+    const message = fillEventEmailTemplate(template.body, values)
+
+    let emailResult: { success: boolean; error?: string }
+
+    if (kind === 'CONFIRMATION') {
+      const ticketToken = createTicketToken(attendee.id, getTicketSecret())
+      const amount = getTicketAmount(event.price, attendee.guestCount)
+      const ticket = {
+        to: attendee.email,
+        attendeeName: attendee.name,
+        ticketToken,
+        qrCode: await renderTicketQrCode(ticketToken),
+        guestCount: attendee.guestCount,
+        amountDue: amount ? `${amount} ${event.currency}` : null,
+      }
+
+      // Promoted attendees get the promotion email, which carries the ticket too
+      emailResult = options.promoted
+        ? await sendEventWaitlistPromotedEmail({
+          ...ticket,
+          eventTitle: event.title,
+          eventDate,
+          eventTime,
+          location: event.location,
+        })
+        : await sendEventTicketEmail({ ...ticket, subject, message })
+    } else {
+      const feedbackUrl = event.feedbackUrl || options.feedbackUrl
+
+      emailResult = await sendEventSequenceEmail({
+        to: attendee.email,
+        subject,
+        heading: SEQUENCE_HEADINGS[kind],
+        message,
+        attendeeName: attendee.name,
+        eventTitle: event.title,
+        eventDate,
+        eventTime,
+        location: event.location,
+        action: kind === 'FOLLOW_UP' && feedbackUrl
+          ? { label: 'Share Your Feedback', url: feedbackUrl }
+          : null,
+      })
+    }
+
+    if (!emailResult.success) {
+      throw new Error(emailResult.error || 'Unknown error')
+    }
+
+    logger.info('Event email sent', { attendeeId: attendee.id, email: attendee.email, kind })
+    return true
+  } catch (error) {
+    await prisma.eventEmailDelivery.deleteMany({ where: { attendeeId: attendee.id, kind } })
+    logger.error('Failed to send event email', error instanceof Error ? error : new Error(String(error)))
+    return false
+  }
+}
+
+/**
+ * Email the ticket to newly seated attendees
+ *
+ * Called after registering or promoting attendees off the waitlist. Each
+ * attendee gets their confirmation once; attendees that already have it are
+ * skipped.
+ * @param attendeeIds - Seated attendee IDs
+ * @param options.promoted - Whether the attendees were promoted off the waitlist
+ * @returns Number of emails sent
+ */
+export async function sendEventConfirmations(attendeeIds: string[], options: { promoted?: boolean } = {}) {
+  const attendees = await prisma.eventAttendee.findMany({
+    where: {
+      id: { in: attendeeIds },
+      status: { in: SEATED_STATUSES },
+      emails: { none: { kind: 'CONFIRMATION' } },
+    },
+    ...attendeeWithEvent,
+  })
+
+  let sent = 0
+  for (const attendee of attendees) {
+    if (await deliverEventEmail(attendee, 'CONFIRMATION', { promoted: options.promoted })) {
+      sent++
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Send the event emails that are due
+ *
+ * Run by the send-event-emails job every few minutes. Goes through seated
+ * attendees of published events and sends each the email of their sequence
+ * that is due (see getDueEventEmail). Attendees whose account has opted out
+ * of marketing emails only get their ticket. Cancelled occurrences get
+ * nothing. Emails already sent are never sent again, so running this more
+ * often than scheduled is harmless.
+ * @returns Number of emails sent and skipped for opted-out attendees
+ */
+export async function sendDueEventEmails() {
+  const now = new Date()
+  const attendees = await prisma.eventAttendee.findMany({
+    where: {
+      status: { in: SEATED_STATUSES },
+      occurrenceDate: { gte: getOccurrenceKey(addDays(now, -LOOKBACK_DAYS)) },
+      event: { status: { in: ['PUBLISHED', 'COMPLETED'] } },
+      emails: { none: { kind: 'FOLLOW_UP' } },
+    },
+    orderBy: { registeredAt: 'asc' },
+    ...attendeeWithEvent,
+  })
+
+  const due = attendees.flatMap(attendee => {
+    const occurrence = findEventOccurrence(attendee.event, attendee.event.exceptions, attendee.occurrenceDate)
+    if (!occurrence || occurrence.status === 'CANCELLED') {
+      return []
+    }
+
+    const kind = getDueEventEmail(
+      { start: occurrence.date, end: getOccurrenceEnd(occurrence) },
+      attendee.registeredAt,
+      now,
+      attendee.emails.map(email => email.kind)
+    )
+    return kind ? [{ attendee, kind }] : []
+  })
+
+  if (due.length === 0) {
+    return { sent: 0, skipped: 0 }
+  }
+
+  // Unsubscribe state lives on the account registered with the same email
+  const optedOut = await prisma.user.findMany({
+    where: {
+      email: { in: [...new Set(due.map(({ attendee }) => attendee.email))], mode: 'insensitive' },
+      marketingOptIn: false,
+    },
+    select: { email: true },
+  })
+  const optedOutEmails = new Set(optedOut.map(user => user.email.toLowerCase()))
+  const feedbackUrl = due.some(({ kind }) => kind === 'FOLLOW_UP')
+    ? await getFeedbackFallbackUrl()
+    : undefined
+
+  let sent = 0
+  let skipped = 0
+
+  for (const { attendee, kind } of due) {
+    if (kind !== 'CONFIRMATION' && optedOutEmails.has(attendee.email.toLowerCase())) {
+      skipped++
+      continue
+    }
+
+    if (await deliverEventEmail(attendee, kind, { feedbackUrl })) {
+      sent++
+    }
+  }
+
+  return { sent, skipped }
+}
@@ -0,0 +1,66 @@
+/**
+ * Unit Tests for Event Email Sequences
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_EVENT_EMAIL_TEMPLATES,
+  fillEventEmailTemplate,
+  getDueEventEmail,
+  getEventEmailTemplate,
+} from './event-emails'
+
+// Saturday Jan 6, 2024, 10:00-12:00
+const occurrence = { start: new Date(2024, 0, 6, 10), end: new Date(2024, 0, 6, 12) }
+const registeredEarly = new Date(2024, 0, 1)
+
+describe('getDueEventEmail', () => {
+  it('should confirm registrations until the start', () => {
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 2), [])).toBe('CONFIRMATION')
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 6, 11), [])).toBeNull()
+  })
+
+  it('should send the reminder the day before', () => {
+    const sent = ['CONFIRMATION' as const]
+
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 4, 12), sent)).toBeNull()
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 5, 10), sent)).toBe('REMINDER')
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 5, 10), [...sent, 'REMINDER'])).toBeNull()
+  })
+
+  it('should skip the reminder for late registrations', () => {
+    const registeredLate = new Date(2024, 0, 5, 20)
+
+    expect(getDueEventEmail(occurrence, registeredLate, new Date(2024, 0, 5, 21), ['CONFIRMATION'])).toBeNull()
+  })
+
+  it('should send "starting soon" in the last hour instead of a missed reminder', () => {
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 6, 9, 15), ['CONFIRMATION'])).toBe('STARTING_SOON')
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 6, 9, 30), ['CONFIRMATION', 'STARTING_SOON'])).toBeNull()
+  })
+
+  it('should thank attendees after the end, for a few days', () => {
+    const sent = ['CONFIRMATION' as const, 'REMINDER' as const, 'STARTING_SOON' as const]
+
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 6, 12), sent)).toBe('FOLLOW_UP')
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 8), [])).toBe('FOLLOW_UP')
+    expect(getDueEventEmail(occurrence, registeredEarly, new Date(2024, 0, 10), sent)).toBeNull()
+  })
+})
+
+describe('getEventEmailTemplate', () => {
+  it('should fall back to the default for missing and blank fields', () => {
+    expect(getEventEmailTemplate(null, 'REMINDER')).toEqual(DEFAULT_EVENT_EMAIL_TEMPLATES.REMINDER)
+    expect(getEventEmailTemplate({ REMINDER: { subject: '  ', body: 'Tomorrow!' } }, 'REMINDER')).toEqual({
+      subject: DEFAULT_EVENT_EMAIL_TEMPLATES.REMINDER.subject,
+      body: 'Tomorrow!',
+    })
+  })
+})
+
+describe('fillEventEmailTemplate', () => {
+  it('should replace known placeholders only', () => {
+    expect(fillEventEmailTemplate('Hi {name}, see you at {event} {unknown}', { name: 'Ana', event: 'Lego Day' }))
+      .toBe('Hi Ana, see you at Lego Day {unknown}')
+  })
+})
@@ -0,0 +1,146 @@
+import { addDays, addHours, addMinutes } from 'date-fns'
+import type { EventEmailKind } from '@prisma/client'
+
+/**
+ * Event Email Sequences
+ *
+ * Every seated attendee gets a sequence of emails for their occurrence:
+ * a confirmation carrying their ticket, a reminder the day before, a
+ * "starting soon" message shortly before the start and a thank-you with a
+ * feedback link afterwards. The send-event-emails job (see app/jobs)
+ * sends whichever email is due; deliveries are recorded per attendee so
+ * each one goes out once.
+ *
+ * Admins can override the subject and message of each email per event.
+ * Templates are plain text with {placeholders} (see EVENT_EMAIL_PLACEHOLDERS).
+ */
+
+/**
+ * Emails in the order they are sent
+ */
+export const EVENT_EMAIL_KINDS: EventEmailKind[] = ['CONFIRMATION', 'REMINDER', 'STARTING_SOON', 'FOLLOW_UP']
+
+/**
+ * How long before the start the reminder goes out
+ */
+export const REMINDER_HOURS = 24
+
+/**
+ * How long before the start the "starting soon" message goes out
+ */
+export const STARTING_SOON_MINUTES = 60
+
+/**
+ * How long after the end the thank-you can still go out
+ */
+export const FOLLOW_UP_DAYS = 3
+
+/**
+ * Placeholders available in templates
+ */
+export const EVENT_EMAIL_PLACEHOLDERS = ['name', 'event', 'date', 'time', 'location'] as const
+
+export type EventEmailPlaceholder = (typeof EVENT_EMAIL_PLACEHOLDERS)[number]
+
+export interface EventEmailTemplate {
+  subject: string
+  body: string
+}
+
+/**
+ * Per-event overrides as stored on the event; blank fields use the default
+ */
+export type EventEmailTemplates = Partial<Record<EventEmailKind, Partial<EventEmailTemplate>>>
+
+export const EVENT_EMAIL_LABELS: Record<EventEmailKind, string> = {
+  CONFIRMATION: 'Confirmation',
+  REMINDER: `Reminder (${REMINDER_HOURS} hours before)`,
+  STARTING_SOON: `Starting soon (${STARTING_SOON_MINUTES} minutes before)`,
+  FOLLOW_UP: 'Thank-you (after the event)',
+}
+
+export const DEFAULT_EVENT_EMAIL_TEMPLATES: Record<EventEmailKind, EventEmailTemplate> = {
+  CONFIRMATION: {
+    subject: 'Your ticket - {event}',
+    body: 'Thanks for registering for {event} on {date} at {time}. Show the QR code below at the entrance to check in.',
+  },
+  REMINDER: {
+    subject: 'See you tomorrow - {event}',
+    body: 'Just a reminder that {event} is on {date} at {time}. Don\'t forget your ticket - we\'ll scan it at the entrance.',
+  },
+  STARTING_SOON: {
+    subject: 'Starting soon - {event}',
+    body: '{event} starts at {time}. Have your ticket ready at the entrance - see you in a bit!',
+  },
+  FOLLOW_UP: {
+    subject: 'Thanks for coming - {event}',
+    body: 'Thank you for joining us at {event}! We\'d love to hear how it went - it only takes a minute.',
+  },
+}
+
+/**
+ * Which email of the sequence is due for an attendee
+ *
+ * Emails are only sent in their own window, so an attendee registering an
+ * hour before the start gets the confirmation and the "starting soon"
+ * message. Attendees who registered less than a day ahead get no reminder.
+ * @param occurrence - Start and end of the attendee's occurrence
+ * @param registeredAt - When the attendee registered
+ * @param now - Current time
+ * @param sent - Emails already sent to the attendee
+ * @returns The due email, or null when nothing is due
+ */
+export function getDueEventEmail(
+  occurrence: { start: Date; end: Date },
+  registeredAt: Date,
+  now: Date,
+  sent: EventEmailKind[]
+): EventEmailKind | null {
+  const { start, end } = occurrence
+  const due = (kind: EventEmailKind) => (sent.includes(kind) ? null : kind)
+  const reminderAt = addHours(start, -REMINDER_HOURS)
+  const startingSoonAt = addMinutes(start, -STARTING_SOON_MINUTES)
+
+  if (now >= end) {
+    return now < addDays(end, FOLLOW_UP_DAYS) ? due('FOLLOW_UP') : null
+  }
+
+  if (now >= start) {
+    return null
+  }
+
+  return due('CONFIRMATION')
+    ?? (now >= startingSoonAt ? due('STARTING_SOON') : null)
+    ?? (now >= reminderAt && now < startingSoonAt && registeredAt < reminderAt ? due('REMINDER') : null)
+}
+
+/**
+ * Template for an email of an event, falling back to the default for blank
+ * fields
+ * @param stored - The event's emailTemplates
+ */
+export function getEventEmailTemplate(stored: unknown, kind: EventEmailKind): EventEmailTemplate {
+  const override = stored && typeof stored === 'object'
+    ? (stored as EventEmailTemplates)[kind]
+    : undefined
+
+  return {
+    subject: override?.subject?.trim() || DEFAULT_EVENT_EMAIL_TEMPLATES[kind].subject,
+    body: override?.body?.trim() || DEFAULT_EVENT_EMAIL_TEMPLATES[kind].body,
+  }
+}
+
+/**
+ * Fill in the placeholders of a template text
+ *
+ * Unknown placeholders are left as they are.
+ * @example fillEventEmailTemplate('Hi {name}!', { name: 'Ana' }) => 'Hi Ana!'
+ */
+export function fillEventEmailTemplate(
+  text: string,
+  values: Partial<Record<EventEmailPlaceholder, string>>
+): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    values[key as EventEmailPlaceholder] ?? match
+  )
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for Event Occurrences
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  expandEventOccurrences,
+  findEventOccurrence,
+  getEventRule,
+  getOccurrenceEnd,
+  isEventOccurrence,
+  type EventSchedule,
+  type OccurrenceException,
+} from './event-occurrences'
+
+// Every Saturday at 10:00 from Jan 6, 2024, 5 times
+const weekly: EventSchedule = {
+  date: new Date(2024, 0, 6),
+  time: '10:00',
+  endTime: '12:00',
+  isRecurring: true,
+  recurrenceRule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=SA;COUNT=5',
+}
+
+const exception = (date: string, overrides: Partial<OccurrenceException> = {}): OccurrenceException => ({
+  date,
+  kind: 'CANCELLED',
+  movedDate: null,
+  movedTime: null,
+  movedEndTime: null,
+  note: null,
+  ...overrides,
+})
+
+const january = [new Date(2024, 0, 1), new Date(2024, 0, 31, 23, 59)] as const
+
+describe('getEventRule', () => {
+  it('should treat one-off and malformed events as non-recurring', () => {
+    expect(getEventRule({ ...weekly, isRecurring: false })).toBeNull()
+    expect(getEventRule({ ...weekly, recurrenceRule: 'FREQ=YEARLY' })).toBeNull()
+    expect(getEventRule(weekly)?.freq).toBe('WEEKLY')
+  })
+})
+
+describe('isEventOccurrence', () => {
+  it('should match the original dates of the series only', () => {
+    expect(isEventOccurrence(weekly, '2024-01-13')).toBe(true)
+    expect(isEventOccurrence(weekly, '2024-01-14')).toBe(false)
+    expect(isEventOccurrence(weekly, '2024-02-10')).toBe(false) // After COUNT
+    expect(isEventOccurrence({ ...weekly, isRecurring: false }, '2024-01-06')).toBe(true)
+  })
+})
+
+describe('findEventOccurrence', () => {
+  it('should look up a single occurrence with its exception', () => {
+    const moved = exception('2024-01-13', { kind: 'MOVED', movedDate: new Date(2024, 0, 14), movedEndTime: '13:00' })
+
+    expect(findEventOccurrence(weekly, [moved], '2024-01-13')).toMatchObject({
+      date: new Date(2024, 0, 14, 10, 0),
+      endTime: '13:00',
+      status: 'MOVED',
+    })
+    expect(findEventOccurrence(weekly, [], '2024-01-20')?.status).toBe('SCHEDULED')
+    expect(findEventOccurrence(weekly, [], '2024-01-21')).toBeNull()
+  })
+})
+
+describe('expandEventOccurrences', () => {
+  it('should expand occurrences within the range with their times', () => {
+    const occurrences = expandEventOccurrences(weekly, [], ...january)
+
+    expect(occurrences.map(o => o.occurrenceDate)).toEqual(['2024-01-06', '2024-01-13', '2024-01-20', '2024-01-27'])
+    expect(occurrences[1].date).toEqual(new Date(2024, 0, 13, 10, 0))
+    expect(occurrences[1]).toMatchObject({ time: '10:00', endTime: '12:00', status: 'SCHEDULED' })
+  })
+
+  it('should return the single date of a one-off event', () => {
+    const oneOff = { ...weekly, isRecurring: false }
+
+    expect(expandEventOccurrences(oneOff, [], ...january).map(o => o.occurrenceDate)).toEqual(['2024-01-06'])
+    expect(expandEventOccurrences(oneOff, [], new Date(2024, 1, 1), new Date(2024, 1, 29))).toEqual([])
+  })
+
+  it('should mark cancelled occurrences', () => {
+    const occurrences = expandEventOccurrences(weekly, [exception('2024-01-13', { note: 'Closed' })], ...january)
+
+    expect(occurrences[1]).toMatchObject({ occurrenceDate: '2024-01-13', status: 'CANCELLED', note: 'Closed' })
+  })
+
+  it('should list moved occurrences where they take place', () => {
+    const moved = exception('2024-01-27', { kind: 'MOVED', movedDate: new Date(2024, 1, 1), movedTime: '16:00' })
+
+    const inJanuary = expandEventOccurrences(weekly, [moved], ...january)
+    expect(inJanuary.map(o => o.occurrenceDate)).toEqual(['2024-01-06', '2024-01-13', '2024-01-20'])
+
+    const inFebruary = expandEventOccurrences(weekly, [moved], new Date(2024, 1, 1), new Date(2024, 1, 29))
+    expect(inFebruary.map(o => [o.occurrenceDate, o.status])).toEqual([['2024-01-27', 'MOVED'], ['2024-02-03', 'SCHEDULED']])
+    expect(inFebruary[0].date).toEqual(new Date(2024, 1, 1, 16, 0))
+  })
+
+  it('should ignore exceptions for dates outside the series', () => {
+    const stray = exception('2024-01-14', { kind: 'MOVED', movedDate: new Date(2024, 0, 15) })
+
+    expect(expandEventOccurrences(weekly, [stray], ...january)).toHaveLength(4)
+  })
+})
+
+describe('getOccurrenceEnd', () => {
+  const start = new Date(2024, 0, 6, 10)
+
+  it('should end at the end time, or two hours after the start', () => {
+    expect(getOccurrenceEnd({ date: start, endTime: '12:30' })).toEqual(new Date(2024, 0, 6, 12, 30))
+    expect(getOccurrenceEnd({ date: start, endTime: null })).toEqual(new Date(2024, 0, 6, 12))
+  })
+
+  it('should end the next day when the end time is before the start', () => {
+    expect(getOccurrenceEnd({ date: new Date(2024, 0, 6, 22), endTime: '01:00' })).toEqual(new Date(2024, 0, 7, 1))
+  })
+})
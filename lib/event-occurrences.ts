@@ -0,0 +1,229 @@
+import { addDays, addHours, format } from 'date-fns'
+import { iterateOccurrences, parseRRule, type RecurrenceRule } from './recurrence'
+
+/**
+ * Event Occurrences
+ *
+ * Recurring events repeat their date and time by `recurrenceRule` (see
+ * lib/recurrence.ts). Single occurrences can be cancelled or moved with an
+ * exception. Every occurrence is identified by its original date in the
+ * series ("occurrence date", yyyy-MM-dd), which stays the same when the
+ * occurrence is moved. RSVPs are made per occurrence date.
+ */
+
+export const OCCURRENCE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * How far ahead recurring events are expanded for the public pages
+ */
+export const OCCURRENCE_WINDOW_DAYS = 365
+
+/**
+ * Upper bound on occurrences expanded for a single event and range
+ */
+const MAX_EXPANDED_OCCURRENCES = 400
+
+/**
+ * Assumed length of events without an end time
+ */
+const DEFAULT_EVENT_DURATION_HOURS = 2
+
+export type OccurrenceStatus = 'SCHEDULED' | 'MOVED' | 'CANCELLED'
+
+/**
+ * Schedule fields of an event
+ */
+export interface EventSchedule {
+  date: Date
+  time: string
+  endTime: string | null
+  isRecurring: boolean
+  recurrenceRule: string | null
+}
+
+/**
+ * Cancelled or moved occurrence
+ */
+export interface OccurrenceException {
+  date: string // Occurrence date
+  kind: 'CANCELLED' | 'MOVED'
+  movedDate: Date | null
+  movedTime: string | null
+  movedEndTime: string | null
+  note: string | null
+}
+
+export interface EventOccurrence {
+  occurrenceDate: string
+  date: Date // Actual start (moved occurrences start here)
+  time: string
+  endTime: string | null
+  status: OccurrenceStatus
+  note: string | null
+}
+
+/**
+ * Occurrence date key for a date
+ */
+export function getOccurrenceKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Date with the time of day from an HH:mm string
+ */
+function withTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const result = new Date(date)
+  result.setHours(hours || 0, minutes || 0, 0, 0)
+  return result
+}
+
+/**
+ * When an occurrence ends
+ *
+ * An end time before the start time ends the next day.
+ */
+export function getOccurrenceEnd(occurrence: Pick<EventOccurrence, 'date' | 'endTime'>): Date {
+  if (!occurrence.endTime) {
+    return addHours(occurrence.date, DEFAULT_EVENT_DURATION_HOURS)
+  }
+
+  const end = withTime(occurrence.date, occurrence.endTime)
+  return end > occurrence.date ? end : addDays(end, 1)
+}
+
+/**
+ * Recurrence rule of an event, or null for one-off events
+ *
+ * Events with a malformed rule are treated as one-off events.
+ */
+export function getEventRule(event: EventSchedule): RecurrenceRule | null {
+  if (!event.isRecurring || !event.recurrenceRule) {
+    return null
+  }
+
+  try {
+    return parseRRule(event.recurrenceRule)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Original start times of an event's occurrences, oldest first
+ */
+function* iterateEventStarts(event: EventSchedule): Generator<Date> {
+  const start = withTime(event.date, event.time)
+  const rule = getEventRule(event)
+
+  if (!rule) {
+    yield start
+    return
+  }
+
+  yield* iterateOccurrences(start, rule)
+}
+
+/**
+ * Whether a date is one of the event's (original) occurrence dates
+ */
+export function isEventOccurrence(event: EventSchedule, occurrenceDate: string): boolean {
+  for (const start of iterateEventStarts(event)) {
+    const key = getOccurrenceKey(start)
+    if (key === occurrenceDate) return true
+    if (key > occurrenceDate) return false
+  }
+  return false
+}
+
+/**
+ * Apply an exception to an occurrence
+ */
+function toOccurrence(event: EventSchedule, start: Date, exception?: OccurrenceException): EventOccurrence {
+  const occurrenceDate = getOccurrenceKey(start)
+
+  if (exception?.kind === 'MOVED' && exception.movedDate) {
+    const time = exception.movedTime ?? event.time
+    return {
+      occurrenceDate,
+      date: withTime(exception.movedDate, time),
+      time,
+      endTime: exception.movedEndTime ?? event.endTime,
+      status: 'MOVED',
+      note: exception.note,
+    }
+  }
+
+  return {
+    occurrenceDate,
+    date: start,
+    time: event.time,
+    endTime: event.endTime,
+    status: exception?.kind === 'CANCELLED' ? 'CANCELLED' : 'SCHEDULED',
+    note: exception?.note ?? null,
+  }
+}
+
+/**
+ * Occurrence for an occurrence date, or null when the event doesn't take
+ * place on that date
+ */
+export function findEventOccurrence(
+  event: EventSchedule,
+  exceptions: OccurrenceException[],
+  occurrenceDate: string
+): EventOccurrence | null {
+  if (!isEventOccurrence(event, occurrenceDate)) {
+    return null
+  }
+
+  const [year, month, day] = occurrenceDate.split('-').map(Number)
+  return toOccurrence(
+    event,
+    withTime(new Date(year, month - 1, day), event.time),
+    exceptions.find(exception => exception.date === occurrenceDate)
+  )
+}
+
+/**
+ * Expand an event into the occurrences that take place in a date range
+ *
+ * Moved occurrences are listed where they take place: an occurrence moved
+ * into the range is included, one moved out of it is not. Cancelled
+ * occurrences are included so callers can show them; filter by status to
+ * hide them.
+ * @param event - Event schedule
+ * @param exceptions - Cancelled and moved occurrences
+ * @param from - Range start (inclusive)
+ * @param to - Range end (inclusive)
+ * @returns Occurrences in chronological order
+ */
+export function expandEventOccurrences(
+  event: EventSchedule,
+  exceptions: OccurrenceException[],
+  from: Date,
+  to: Date
+): EventOccurrence[] {
+  const exceptionsByDate = new Map(exceptions.map(exception => [exception.date, exception]))
+  const occurrences: EventOccurrence[] = []
+
+  for (const start of iterateEventStarts(event)) {
+    if (start > to || occurrences.length >= MAX_EXPANDED_OCCURRENCES) break
+    if (start >= from) {
+      occurrences.push(toOccurrence(event, start, exceptionsByDate.get(getOccurrenceKey(start))))
+    }
+  }
+
+  // Occurrences moved in from outside the range
+  for (const exception of exceptions) {
+    if (exception.kind !== 'MOVED' || occurrences.some(o => o.occurrenceDate === exception.date)) continue
+
+    const occurrence = findEventOccurrence(event, [exception], exception.date)
+    if (occurrence) occurrences.push(occurrence)
+  }
+
+  return occurrences
+    .filter(occurrence => occurrence.date >= from && occurrence.date <= to)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
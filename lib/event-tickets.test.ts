@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for Event Tickets
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createTicketToken,
+  getTicketAmount,
+  getTicketProblem,
+  renderTicketQrCode,
+  verifyTicketToken,
+  type TicketHolder,
+} from './event-tickets'
+
+describe('createTicketToken / verifyTicketToken', () => {
+  const token = createTicketToken('attendee-1', 'test-secret')
+
+  it('should round-trip the attendee ID', () => {
+    expect(token).toMatch(/^XT1\.attendee-1\.[\w-]{22}$/)
+    expect(verifyTicketToken(token, 'test-secret')).toBe('attendee-1')
+    expect(verifyTicketToken(` ${token}\n`, 'test-secret')).toBe('attendee-1') // Scanner whitespace
+  })
+
+  it('should reject tokens signed with another secret', () => {
+    expect(verifyTicketToken(token, 'other-secret')).toBeNull()
+  })
+
+  it('should reject tampered and malformed tokens', () => {
+    const signature = token.split('.')[2]
+
+    expect(verifyTicketToken(`XT1.attendee-2.${signature}`, 'test-secret')).toBeNull()
+    expect(verifyTicketToken(token.replace('XT1', 'XT2'), 'test-secret')).toBeNull()
+    expect(verifyTicketToken(`${token}.extra`, 'test-secret')).toBeNull()
+    expect(verifyTicketToken('not a ticket', 'test-secret')).toBeNull()
+    expect(verifyTicketToken('', 'test-secret')).toBeNull()
+  })
+})
+
+describe('renderTicketQrCode', () => {
+  it('should render a PNG', async () => {
+    const png = await renderTicketQrCode(createTicketToken('attendee-1', 'test-secret'))
+
+    expect(png.subarray(1, 4).toString()).toBe('PNG')
+  })
+})
+
+describe('getTicketAmount', () => {
+  it('should charge the price per guest', () => {
+    expect(getTicketAmount(1500, 3)).toBe(4500)
+  })
+
+  it('should return null for free events', () => {
+    expect(getTicketAmount(null, 2)).toBeNull()
+    expect(getTicketAmount(0, 2)).toBeNull()
+  })
+})
+
+describe('getTicketProblem', () => {
+  const holder: TicketHolder = {
+    eventId: 'event-1',
+    occurrenceDate: '2024-01-06',
+    status: 'CONFIRMED',
+    checkedInAt: null,
+  }
+
+  it('should accept seated tickets for the occurrence', () => {
+    expect(getTicketProblem(holder, 'event-1', '2024-01-06')).toBeNull()
+    expect(getTicketProblem({ ...holder, status: 'PENDING' }, 'event-1', '2024-01-06')).toBeNull()
+  })
+
+  it('should reject tickets for other events and dates', () => {
+    expect(getTicketProblem(holder, 'event-2', '2024-01-06')).toBe('wrong_event')
+    expect(getTicketProblem(holder, 'event-1', '2024-01-13')).toBe('wrong_date')
+  })
+
+  it('should reject waitlisted, cancelled and redeemed tickets', () => {
+    expect(getTicketProblem({ ...holder, status: 'WAITLIST' }, 'event-1', '2024-01-06')).toBe('not_seated')
+    expect(getTicketProblem({ ...holder, status: 'CANCELLED' }, 'event-1', '2024-01-06')).toBe('not_seated')
+    expect(getTicketProblem({ ...holder, checkedInAt: new Date() }, 'event-1', '2024-01-06')).toBe('already_checked_in')
+  })
+})
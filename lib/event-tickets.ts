@@ -0,0 +1,140 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import QRCode from 'qrcode'
+import type { RSVPStatus } from '@prisma/client'
+import { SEATED_STATUSES } from './event-capacity'
+
+/**
+ * Event Tickets
+ *
+ * Every seated event registration has a ticket: a token naming the attendee,
+ * signed with HMAC-SHA256 so it can't be forged. Tokens are derived from the
+ * attendee ID, so nothing is stored until the ticket is redeemed at check-in.
+ * The token is emailed as a QR code; staff scan it (or type it) on the admin
+ * check-in screen.
+ */
+
+/**
+ * Token format version, so the format can change without breaking old tickets
+ */
+const TICKET_VERSION = 'XT1'
+
+/**
+ * Signature length in base64url characters (132 bits)
+ */
+const SIGNATURE_LENGTH = 22
+
+/**
+ * Why a scanned ticket can't be checked in
+ */
+export type TicketProblem = 'invalid' | 'wrong_event' | 'wrong_date' | 'not_seated' | 'already_checked_in'
+
+/**
+ * Outcome of redeeming a scanned ticket
+ */
+export type TicketScanOutcome = 'checked_in' | TicketProblem
+
+/**
+ * Result of redeeming a scanned ticket, as shown on the check-in screen
+ */
+export interface TicketScanResult {
+  token: string
+  outcome: TicketScanOutcome
+  attendeeName?: string
+  guestCount?: number
+  amountDue?: number | null // Amount to collect, for paid events
+  checkedInAt?: Date | null // When the ticket was (first) redeemed
+}
+
+/**
+ * Attendee fields needed to redeem a ticket
+ */
+export interface TicketHolder {
+  eventId: string
+  occurrenceDate: string
+  status: RSVPStatus
+  checkedInAt: Date | null
+}
+
+function signAttendeeId(attendeeId: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${TICKET_VERSION}:${attendeeId}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH)
+}
+
+/**
+ * Create the ticket token of an attendee
+ *
+ * @example createTicketToken('clx123', secret) => 'XT1.clx123.5tA0...'
+ */
+export function createTicketToken(attendeeId: string, secret: string): string {
+  return `${TICKET_VERSION}.${attendeeId}.${signAttendeeId(attendeeId, secret)}`
+}
+
+/**
+ * Verify a ticket token
+ * @returns The attendee ID, or null when the token is malformed or forged
+ */
+export function verifyTicketToken(token: string, secret: string): string | null {
+  const [version, attendeeId, signature, ...rest] = token.trim().split('.')
+
+  if (version !== TICKET_VERSION || !attendeeId || !signature || rest.length > 0) {
+    return null
+  }
+
+  const expected = Buffer.from(signAttendeeId(attendeeId, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  return attendeeId
+}
+
+/**
+ * Secret used to sign tickets
+ *
+ * TICKET_SECRET, falling back to AUTH_SECRET so tickets work without extra
+ * configuration. Changing the secret invalidates all issued tickets.
+ *
+ * @throws Error when neither is set
+ */
+export function getTicketSecret(): string {
+  const secret = process.env.TICKET_SECRET || process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error('Ticket signing secret is not configured')
+  }
+  return secret
+}
+
+/**
+ * Render a ticket token as a QR code PNG
+ */
+export function renderTicketQrCode(token: string): Promise<Buffer> {
+  return QRCode.toBuffer(token, { type: 'png', width: 240, margin: 2, errorCorrectionLevel: 'M' })
+}
+
+/**
+ * Amount a ticket holder pays for their party, or null for free events
+ *
+ * @example getTicketAmount(1500, 3) => 4500
+ */
+export function getTicketAmount(price: number | null, guestCount: number): number | null {
+  return price && price > 0 ? price * guestCount : null
+}
+
+/**
+ * Check whether a ticket can be redeemed for an event occurrence
+ * @returns Why it can't, or null when it can
+ */
+export function getTicketProblem(
+  holder: TicketHolder,
+  eventId: string,
+  occurrenceDate: string
+): TicketProblem | null {
+  if (holder.eventId !== eventId) return 'wrong_event'
+  if (holder.occurrenceDate !== occurrenceDate) return 'wrong_date'
+  if (!SEATED_STATUSES.includes(holder.status)) return 'not_seated'
+  if (holder.checkedInAt) return 'already_checked_in'
+  return null
+}
@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for Background Jobs
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getRetryAt, getRetryDelaySeconds, getScheduleKey, isAuthorizedCronRequest } from './jobs'
+
+describe('getRetryDelaySeconds', () => {
+  it('should double the delay with every attempt', () => {
+    expect(getRetryDelaySeconds(1)).toBe(60)
+    expect(getRetryDelaySeconds(2)).toBe(120)
+    expect(getRetryDelaySeconds(3)).toBe(240)
+  })
+
+  it('should cap the delay at an hour', () => {
+    expect(getRetryDelaySeconds(10)).toBe(3600)
+  })
+})
+
+describe('getRetryAt', () => {
+  it('should add the delay to now', () => {
+    const now = new Date(2024, 0, 6, 10)
+
+    expect(getRetryAt(2, now)).toEqual(new Date(2024, 0, 6, 10, 2))
+  })
+})
+
+describe('getScheduleKey', () => {
+  it('should identify a job at a scheduled time', () => {
+    const at = new Date(Date.UTC(2024, 0, 6, 3))
+
+    expect(getScheduleKey('cleanup-notifications', at)).toBe('cleanup-notifications@2024-01-06T03:00:00.000Z')
+  })
+})
+
+describe('isAuthorizedCronRequest', () => {
+  it('should accept the secret as a bearer token', () => {
+    expect(isAuthorizedCronRequest('Bearer s3cret', 's3cret')).toBe(true)
+  })
+
+  it('should reject wrong or missing credentials', () => {
+    expect(isAuthorizedCronRequest('Bearer wrong', 's3cret')).toBe(false)
+    expect(isAuthorizedCronRequest('s3cret', 's3cret')).toBe(false)
+    expect(isAuthorizedCronRequest(null, 's3cret')).toBe(false)
+  })
+
+  it('should reject every request when no secret is configured', () => {
+    expect(isAuthorizedCronRequest('Bearer ', undefined)).toBe(false)
+    expect(isAuthorizedCronRequest('Bearer ', '')).toBe(false)
+  })
+})
@@ -0,0 +1,71 @@
+import { timingSafeEqual } from 'crypto'
+import { addSeconds } from 'date-fns'
+
+/**
+ * Background Jobs
+ *
+ * Scheduled and one-off work runs as jobs from a queue in Postgres (the
+ * JobRun table, see app/jobs). A scheduler calls GET /api/cron/jobs every
+ * minute; each call enqueues the scheduled jobs that are due and works
+ * through the queue. Failed jobs are retried with exponential backoff until
+ * they run out of attempts.
+ */
+
+/**
+ * Attempts a job gets before it is marked as failed
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3
+
+/**
+ * Delay before the first retry; doubles with every further attempt
+ */
+const RETRY_BASE_SECONDS = 60
+
+/**
+ * Longest delay between retries
+ */
+const RETRY_MAX_SECONDS = 60 * 60
+
+/**
+ * Jobs running longer than this are assumed to have crashed and are retried
+ */
+export const LOCK_TIMEOUT_MINUTES = 15
+
+/**
+ * Delay before retrying a job that failed
+ *
+ * @example getRetryDelaySeconds(1) => 60, getRetryDelaySeconds(3) => 240
+ * @param attempt - Attempts made so far (1 after the first failure)
+ */
+export function getRetryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_SECONDS)
+}
+
+/**
+ * When a job that failed is tried again
+ */
+export function getRetryAt(attempt: number, now: Date): Date {
+  return addSeconds(now, getRetryDelaySeconds(attempt))
+}
+
+/**
+ * Key that makes a scheduled job run once per scheduled time
+ */
+export function getScheduleKey(name: string, scheduledAt: Date): string {
+  return `${name}@${scheduledAt.toISOString()}`
+}
+
+/**
+ * Check the Authorization header of a scheduler request
+ * @param authorization - Header value, `Bearer <secret>`
+ * @param secret - CRON_SECRET; requests are refused when it isn't set
+ */
+export function isAuthorizedCronRequest(authorization: string | null, secret: string | undefined): boolean {
+  if (!secret || !authorization) {
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(authorization)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
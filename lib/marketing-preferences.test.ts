@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for Marketing Preferences
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createPreferencesToken,
+  getConsentChanges,
+  getListUnsubscribeHeaders,
+  getOneClickUnsubscribeUrl,
+  getPreferenceCenterUrl,
+  verifyPreferencesToken,
+} from './marketing-preferences'
+import { createTrackingToken } from './campaign-tracking'
+
+const secret = 'test-secret'
+
+describe('verifyPreferencesToken', () => {
+  it('should return the customer and campaign of a valid token', () => {
+    expect(verifyPreferencesToken(createPreferencesToken('u1', 'c1', secret), secret))
+      .toEqual({ userId: 'u1', campaignId: 'c1' })
+    expect(verifyPreferencesToken(createPreferencesToken('u1', null, secret), secret))
+      .toEqual({ userId: 'u1', campaignId: null })
+  })
+
+  it('should reject forged and malformed tokens', () => {
+    const token = createPreferencesToken('u1', 'c1', secret)
+
+    expect(verifyPreferencesToken(token.replace('u1', 'u2'), secret)).toBeNull()
+    expect(verifyPreferencesToken(token.replace('c1', 'c2'), secret)).toBeNull()
+    expect(verifyPreferencesToken(token, 'other-secret')).toBeNull()
+    expect(verifyPreferencesToken('MP1.u1.c1', secret)).toBeNull()
+    expect(verifyPreferencesToken(`${token}.extra`, secret)).toBeNull()
+  })
+
+  it('should not accept tracking tokens', () => {
+    expect(verifyPreferencesToken(createTrackingToken('u1', null, secret), secret)).toBeNull()
+  })
+})
+
+describe('unsubscribe URLs', () => {
+  it('should build preference center and one-click URLs', () => {
+    const token = createPreferencesToken('u1', 'c1', secret)
+
+    expect(getPreferenceCenterUrl('https://xplorium.com', 'u1', 'c1', secret))
+      .toBe(`https://xplorium.com/preferences/${token}`)
+    expect(getOneClickUnsubscribeUrl('https://xplorium.com', 'u1', 'c1', secret))
+      .toBe(`https://xplorium.com/api/campaigns/unsubscribe/${token}`)
+  })
+
+  it('should build RFC 8058 headers', () => {
+    expect(getListUnsubscribeHeaders('https://xplorium.com/api/campaigns/unsubscribe/t')).toEqual({
+      'List-Unsubscribe': '<https://xplorium.com/api/campaigns/unsubscribe/t>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    })
+  })
+})
+
+describe('getConsentChanges', () => {
+  const current = { marketingOptIn: true, smsOptIn: false }
+
+  it('should list the channels an update changes', () => {
+    expect(getConsentChanges(current, { marketingOptIn: false, smsOptIn: true })).toEqual([
+      { channel: 'EMAIL', optedIn: false },
+      { channel: 'SMS', optedIn: true },
+    ])
+  })
+
+  it('should ignore channels left as they are', () => {
+    expect(getConsentChanges(current, { marketingOptIn: true })).toEqual([])
+    expect(getConsentChanges(current, {})).toEqual([])
+  })
+})
@@ -0,0 +1,129 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Marketing Preferences
+ *
+ * Campaign emails link to a preference center where recipients manage their
+ * email and SMS marketing consent without signing in, and carry RFC 8058
+ * List-Unsubscribe headers so inboxes can offer one-click unsubscribe. Both
+ * URLs hold a token naming the customer and the campaign the email was for,
+ * signed with HMAC-SHA256 using the campaign tracking secret (see
+ * getTrackingSecret in lib/campaign-tracking.ts).
+ */
+
+/**
+ * Token format version, so the format can change without breaking old emails
+ */
+const PREFERENCES_VERSION = 'MP1'
+
+/**
+ * Signature length in base64url characters (132 bits)
+ */
+const SIGNATURE_LENGTH = 22
+
+export type MarketingChannel = 'EMAIL' | 'SMS'
+
+export interface MarketingPreferences {
+  marketingOptIn: boolean
+  smsOptIn: boolean
+}
+
+function sign(userId: string, campaignId: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${PREFERENCES_VERSION}:${userId}:${campaignId}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH)
+}
+
+/**
+ * Create the preferences token of a customer
+ *
+ * @example createPreferencesToken('clx123', 'clc456', secret) => 'MP1.clx123.clc456.Yc2R...'
+ * @param campaignId - Campaign the email is for, credited with unsubscribes
+ */
+export function createPreferencesToken(userId: string, campaignId: string | null, secret: string): string {
+  const campaign = campaignId ?? ''
+  return `${PREFERENCES_VERSION}.${userId}.${campaign}.${sign(userId, campaign, secret)}`
+}
+
+/**
+ * Verify a preferences token
+ * @returns The customer and campaign, or null when the token is malformed or
+ * forged
+ */
+export function verifyPreferencesToken(
+  token: string,
+  secret: string
+): { userId: string; campaignId: string | null } | null {
+  const [version, userId, campaignId, signature, ...rest] = token.split('.')
+
+  if (version !== PREFERENCES_VERSION || !userId || campaignId === undefined || !signature || rest.length > 0) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(userId, campaignId, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  return { userId, campaignId: campaignId || null }
+}
+
+/**
+ * Preference center page of a customer
+ */
+export function getPreferenceCenterUrl(
+  baseUrl: string,
+  userId: string,
+  campaignId: string | null,
+  secret: string
+): string {
+  return `${baseUrl}/preferences/${createPreferencesToken(userId, campaignId, secret)}`
+}
+
+/**
+ * One-click unsubscribe endpoint of a customer, for the List-Unsubscribe header
+ */
+export function getOneClickUnsubscribeUrl(
+  baseUrl: string,
+  userId: string,
+  campaignId: string | null,
+  secret: string
+): string {
+  return `${baseUrl}/api/campaigns/unsubscribe/${createPreferencesToken(userId, campaignId, secret)}`
+}
+
+/**
+ * Headers that let inboxes unsubscribe the recipient with one click (RFC 8058)
+ *
+ * Inboxes POST `List-Unsubscribe=One-Click` to the URL, without cookies or
+ * redirects, so the URL itself must identify the recipient.
+ */
+export function getListUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
+
+/**
+ * Channels whose consent an update changes
+ * @param current - Preferences before the update
+ * @param update - Requested preferences; undefined leaves a channel as it is
+ */
+export function getConsentChanges(
+  current: MarketingPreferences,
+  update: Partial<MarketingPreferences>
+): { channel: MarketingChannel; optedIn: boolean }[] {
+  const changes: { channel: MarketingChannel; optedIn: boolean }[] = []
+
+  if (update.marketingOptIn !== undefined && update.marketingOptIn !== current.marketingOptIn) {
+    changes.push({ channel: 'EMAIL', optedIn: update.marketingOptIn })
+  }
+  if (update.smsOptIn !== undefined && update.smsOptIn !== current.smsOptIn) {
+    changes.push({ channel: 'SMS', optedIn: update.smsOptIn })
+  }
+
+  return changes
+}
@@ -0,0 +1,185 @@
+import { prisma } from './db'
+import { logger } from './logger'
+import { logAudit } from './audit'
+import { decideOAuthLink, type OAuthCandidateUser, type OAuthLinkError } from './oauth'
+
+/**
+ * OAuth Account Linking
+ *
+ * Resolves a provider identity to the user it signs in as, connecting it
+ * or creating the user as decided by decideOAuthLink (see lib/oauth.ts).
+ * Called from the signIn callback in lib/auth.ts.
+ */
+
+/**
+ * Identity reported by a provider after the user signed in there
+ */
+export interface OAuthIdentity {
+  provider: string
+  providerAccountId: string
+  email: string | null
+  emailVerified: boolean
+  name?: string | null
+  image?: string | null
+}
+
+const candidateSelect = (provider: string) => ({
+  id: true,
+  blocked: true,
+  deleted: true,
+  accounts: { where: { provider }, select: { id: true } },
+})
+
+function toCandidate(
+  user: { id: string; blocked: boolean; deleted: boolean; accounts: { id: string }[] } | null
+): OAuthCandidateUser | null {
+  return user
+    ? { id: user.id, blocked: user.blocked, deleted: user.deleted, hasProviderAccount: user.accounts.length > 0 }
+    : null
+}
+
+/**
+ * Find or create the user an identity signs in as
+ * @param identity - Identity from the provider
+ * @param currentUserId - Signed-in user connecting the identity, if any
+ * @returns The user to sign in as, or why the identity can't be used
+ */
+export async function resolveOAuthSignIn(
+  identity: OAuthIdentity,
+  currentUserId: string | null = null
+): Promise<
+  | { user: { id: string; role: 'USER' | 'ADMIN' | 'SUPER_ADMIN'; sessionVersion: number } }
+  | { error: OAuthLinkError }
+> {
+  const { provider, providerAccountId } = identity
+  const email = identity.email?.trim() || null
+
+  const account = await prisma.account.findUnique({
+    where: { provider_providerAccountId: { provider, providerAccountId } },
+    select: { id: true, user: { select: candidateSelect(provider) } },
+  })
+
+  const [currentUser, emailUser] = await Promise.all([
+    currentUserId
+      ? prisma.user.findUnique({ where: { id: currentUserId }, select: candidateSelect(provider) })
+      : null,
+    email && !account && !currentUserId
+      ? prisma.user.findFirst({
+          where: { email: { equals: email, mode: 'insensitive' } },
+          select: candidateSelect(provider),
+        })
+      : null,
+  ])
+
+  const decision = decideOAuthLink({
+    accountUser: toCandidate(account?.user ?? null),
+    currentUser: toCandidate(currentUser),
+    emailUser: toCandidate(emailUser),
+    email,
+    emailVerified: identity.emailVerified,
+  })
+
+  const userSelect = { id: true, role: true, sessionVersion: true } as const
+
+  switch (decision.action) {
+    case 'deny':
+      logger.warn('OAuth sign-in denied', { provider, error: decision.error })
+      return { error: decision.error }
+
+    case 'sign-in': {
+      const { user } = await prisma.account.update({
+        where: { provider_providerAccountId: { provider, providerAccountId } },
+        data: { lastUsedAt: new Date(), email: email ?? undefined },
+        select: { user: { select: userSelect } },
+      })
+      return { user }
+    }
+
+    case 'link': {
+      const user = await prisma.$transaction(async tx => {
+        await tx.account.create({
+          data: { userId: decision.userId, provider, providerAccountId, email, lastUsedAt: new Date() },
+        })
+
+        const linkedUser = await tx.user.findUniqueOrThrow({
+          where: { id: decision.userId },
+          select: { ...userSelect, email: true, emailVerified: true },
+        })
+
+        if (linkedUser.emailVerified || !identity.emailVerified || email?.toLowerCase() !== linkedUser.email.toLowerCase()) {
+          return { ...linkedUser, takenOver: false }
+        }
+
+        // The provider vouched for the address, so the user doesn't need to
+        // verify it again. Linked by address alone, the account may have been
+        // registered by someone else before its owner: they lose the password
+        // they chose and every session they had.
+        const takenOver = !currentUserId
+        const updatedUser = await tx.user.update({
+          where: { id: linkedUser.id },
+          data: {
+            emailVerified: new Date(),
+            ...(takenOver && { password: null, sessionVersion: { increment: 1 } }),
+          },
+          select: userSelect,
+        })
+        if (takenOver) {
+          await tx.userSession.updateMany({
+            where: { userId: linkedUser.id, revokedAt: null },
+            data: { revokedAt: new Date() },
+          })
+        }
+
+        return { ...updatedUser, takenOver }
+      })
+
+      await logAudit({
+        userId: user.id,
+        action: 'UPDATE',
+        entity: 'User',
+        entityId: user.id,
+        changes: {
+          connectedProvider: provider,
+          providerEmail: email,
+          ...(user.takenOver && { unverifiedPasswordCleared: true, sessionsRevoked: true }),
+        },
+      })
+
+      logger.info('OAuth account connected', { userId: user.id, provider })
+      return { user: { id: user.id, role: user.role, sessionVersion: user.sessionVersion } }
+    }
+
+    case 'create': {
+      // decideOAuthLink only creates users for identities with an address
+      if (!email) {
+        return { error: 'EmailMissing' }
+      }
+
+      const user = await prisma.user.create({
+        data: {
+          email,
+          name: identity.name || null,
+          image: identity.image || null,
+          password: null,
+          role: 'USER',
+          emailVerified: identity.emailVerified ? new Date() : null,
+          accounts: {
+            create: { provider, providerAccountId, email, lastUsedAt: new Date() },
+          },
+        },
+        select: userSelect,
+      })
+
+      await logAudit({
+        userId: user.id,
+        action: 'CREATE',
+        entity: 'User',
+        entityId: user.id,
+        changes: { email, signUpProvider: provider },
+      })
+
+      logger.info('User registered with OAuth', { userId: user.id, provider })
+      return { user }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Social Sign-In Rules
+ */
+
+import { describe, it, expect } from 'vitest'
+import { decideOAuthLink, getOAuthErrorMessage, isProviderEmailVerified, type OAuthCandidateUser } from './oauth'
+
+const user = (id: string, overrides: Partial<OAuthCandidateUser> = {}): OAuthCandidateUser => ({
+  id,
+  blocked: false,
+  deleted: false,
+  hasProviderAccount: false,
+  ...overrides,
+})
+
+const signIn = {
+  accountUser: null,
+  currentUser: null,
+  emailUser: null,
+  email: 'ana@example.com',
+  emailVerified: true,
+}
+
+describe('decideOAuthLink', () => {
+  it('should sign in as the user the identity is connected to', () => {
+    expect(decideOAuthLink({ ...signIn, accountUser: user('u1', { hasProviderAccount: true }) }))
+      .toEqual({ action: 'sign-in', userId: 'u1' })
+  })
+
+  it('should link to the user with the same verified email instead of creating a duplicate', () => {
+    expect(decideOAuthLink({ ...signIn, emailUser: user('u1') })).toEqual({ action: 'link', userId: 'u1' })
+  })
+
+  it('should refuse to link by an email the provider has not verified', () => {
+    expect(decideOAuthLink({ ...signIn, emailVerified: false, emailUser: user('u1') }))
+      .toEqual({ action: 'deny', error: 'EmailNotVerified' })
+  })
+
+  it('should create a user when nobody has the email', () => {
+    expect(decideOAuthLink(signIn)).toEqual({ action: 'create' })
+    expect(decideOAuthLink({ ...signIn, emailVerified: false })).toEqual({ action: 'create' })
+  })
+
+  it('should require an email to create or link a user', () => {
+    expect(decideOAuthLink({ ...signIn, email: null })).toEqual({ action: 'deny', error: 'EmailMissing' })
+  })
+
+  it('should deny blocked and deleted users', () => {
+    expect(decideOAuthLink({ ...signIn, accountUser: user('u1', { blocked: true }) }))
+      .toEqual({ action: 'deny', error: 'AccountBlocked' })
+    expect(decideOAuthLink({ ...signIn, emailUser: user('u1', { deleted: true }) }))
+      .toEqual({ action: 'deny', error: 'AccountBlocked' })
+  })
+
+  it('should not link a second identity from the same provider by email', () => {
+    expect(decideOAuthLink({ ...signIn, emailUser: user('u1', { hasProviderAccount: true }) }))
+      .toEqual({ action: 'deny', error: 'ProviderAlreadyConnected' })
+  })
+
+  describe('connecting from the profile', () => {
+    it('should link to the signed-in user whatever the email', () => {
+      expect(decideOAuthLink({ ...signIn, email: 'other@example.com', emailVerified: false, currentUser: user('u1') }))
+        .toEqual({ action: 'link', userId: 'u1' })
+    })
+
+    it('should refuse an identity connected to someone else', () => {
+      expect(decideOAuthLink({ ...signIn, currentUser: user('u1'), accountUser: user('u2') }))
+        .toEqual({ action: 'deny', error: 'AccountLinkedElsewhere' })
+    })
+
+    it('should allow signing in again with an identity already connected to the user', () => {
+      expect(decideOAuthLink({ ...signIn, currentUser: user('u1'), accountUser: user('u1') }))
+        .toEqual({ action: 'sign-in', userId: 'u1' })
+    })
+
+    it('should refuse a second identity from a provider already connected', () => {
+      expect(decideOAuthLink({ ...signIn, currentUser: user('u1', { hasProviderAccount: true }) }))
+        .toEqual({ action: 'deny', error: 'ProviderAlreadyConnected' })
+    })
+  })
+})
+
+describe('isProviderEmailVerified', () => {
+  it('should trust the email_verified claim of OpenID Connect providers', () => {
+    expect(isProviderEmailVerified('google', { email: 'ana@example.com', email_verified: true })).toBe(true)
+    expect(isProviderEmailVerified('google', { email: 'ana@example.com', email_verified: false })).toBe(false)
+    expect(isProviderEmailVerified('mock-oidc', { email: 'ana@example.com' })).toBe(false)
+  })
+
+  it('should treat Facebook addresses as verified', () => {
+    expect(isProviderEmailVerified('facebook', { email: 'ana@example.com' })).toBe(true)
+  })
+
+  it('should not verify a missing email', () => {
+    expect(isProviderEmailVerified('facebook', { id: '1' })).toBe(false)
+    expect(isProviderEmailVerified('google', null)).toBe(false)
+  })
+})
+
+describe('getOAuthErrorMessage', () => {
+  it('should fall back to a generic message for unknown codes', () => {
+    expect(getOAuthErrorMessage('AccountBlocked')).toContain('blocked')
+    expect(getOAuthErrorMessage('Nope')).toBe('Sign in failed. Please try again.')
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Social Sign-In
+ *
+ * Rules for signing in with Google, Facebook or another OAuth provider and
+ * linking the provider's identity to a user (see lib/oauth-accounts.ts).
+ * Safe to use in client components.
+ *
+ * An identity is matched to a user by its Account row first. Failing that,
+ * it is linked to the user with the same email address, but only when the
+ * provider vouches for that address; otherwise anyone could sign in to an
+ * account by registering its address with a provider. If that user never
+ * verified the address, whoever registered it may not own it, so linking
+ * clears its password and signs out its sessions. A new user is created
+ * only when no user has the address, so a customer's bookings and loyalty
+ * points stay on one account however they sign in.
+ */
+
+/**
+ * Display names of the supported providers, by Auth.js provider ID
+ * mock-oidc is the local test issuer enabled with OAUTH_MOCK_ISSUER.
+ */
+export const OAUTH_PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google',
+  facebook: 'Facebook',
+  'mock-oidc': 'Mock OIDC',
+}
+
+/**
+ * Reasons an identity can't sign in or be connected
+ */
+export type OAuthLinkError =
+  | 'AccountBlocked' // The user it belongs to is blocked or deleted
+  | 'AccountLinkedElsewhere' // Connected to a different user
+  | 'ProviderAlreadyConnected' // The user already has another identity at this provider
+  | 'EmailNotVerified' // Matches a user by an address the provider didn't verify
+  | 'EmailMissing' // The provider didn't share an address
+
+const OAUTH_ERROR_MESSAGES: Record<OAuthLinkError, string> = {
+  AccountBlocked: 'Account has been blocked. Please contact support.',
+  AccountLinkedElsewhere: 'That account is already connected to a different Xplorium account.',
+  ProviderAlreadyConnected: 'A different account from this provider is already connected. Disconnect it first.',
+  EmailNotVerified: 'An account with this email already exists. Sign in with your password, then connect this provider from your profile.',
+  EmailMissing: "We couldn't get your email address from this provider. Please sign up with your email instead.",
+}
+
+/**
+ * User-facing message for an error passed back in the authError query parameter
+ */
+export function getOAuthErrorMessage(code: string): string {
+  return OAUTH_ERROR_MESSAGES[code as OAuthLinkError] ?? 'Sign in failed. Please try again.'
+}
+
+/**
+ * Whether the provider has verified the email address it reported
+ *
+ * OpenID Connect providers (Google, the mock issuer) say so in the
+ * email_verified claim. Facebook only shares addresses its users have
+ * confirmed, so its addresses count as verified.
+ */
+export function isProviderEmailVerified(provider: string, profile?: Record<string, unknown> | null): boolean {
+  if (!profile?.email) {
+    return false
+  }
+
+  if (provider === 'facebook') {
+    return true
+  }
+
+  return profile.email_verified === true || profile.email_verified === 'true'
+}
+
+/**
+ * A user an identity could belong to
+ */
+export interface OAuthCandidateUser {
+  id: string
+  blocked: boolean
+  deleted: boolean
+  hasProviderAccount: boolean // Already has an identity at the same provider
+}
+
+export type OAuthLinkDecision =
+  | { action: 'sign-in'; userId: string } // The identity is already connected
+  | { action: 'link'; userId: string } // Connect the identity to an existing user
+  | { action: 'create' } // Create a user for the identity
+  | { action: 'deny'; error: OAuthLinkError }
+
+/**
+ * Decide what signing in with an identity does
+ * @param options.accountUser - User the identity is already connected to
+ * @param options.currentUser - Signed-in user connecting it from their profile
+ * @param options.emailUser - User with the identity's email address
+ */
+export function decideOAuthLink(options: {
+  accountUser: OAuthCandidateUser | null
+  currentUser: OAuthCandidateUser | null
+  emailUser: OAuthCandidateUser | null
+  email: string | null
+  emailVerified: boolean
+}): OAuthLinkDecision {
+  const { accountUser, currentUser, emailUser } = options
+  const isInactive = (user: OAuthCandidateUser) => user.blocked || user.deleted
+
+  if (accountUser) {
+    if (currentUser && currentUser.id !== accountUser.id) {
+      return { action: 'deny', error: 'AccountLinkedElsewhere' }
+    }
+    if (isInactive(accountUser)) {
+      return { action: 'deny', error: 'AccountBlocked' }
+    }
+    return { action: 'sign-in', userId: accountUser.id }
+  }
+
+  // Connecting from the profile links to the signed-in user whatever the address
+  if (currentUser) {
+    if (isInactive(currentUser)) {
+      return { action: 'deny', error: 'AccountBlocked' }
+    }
+    if (currentUser.hasProviderAccount) {
+      return { action: 'deny', error: 'ProviderAlreadyConnected' }
+    }
+    return { action: 'link', userId: currentUser.id }
+  }
+
+  if (!options.email) {
+    return { action: 'deny', error: 'EmailMissing' }
+  }
+
+  if (emailUser) {
+    if (isInactive(emailUser)) {
+      return { action: 'deny', error: 'AccountBlocked' }
+    }
+    if (!options.emailVerified) {
+      return { action: 'deny', error: 'EmailNotVerified' }
+    }
+    if (emailUser.hasProviderAccount) {
+      return { action: 'deny', error: 'ProviderAlreadyConnected' }
+    }
+    return { action: 'link', userId: emailUser.id }
+  }
+
+  return { action: 'create' }
+}
@@ -0,0 +1,50 @@
+/**
+ * Unit Tests for Password Reset Tokens
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  PASSWORD_RESET_RESPONSE_MS,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES,
+  createPasswordResetToken,
+  getPasswordResetDelay,
+  hashPasswordResetToken,
+} from './password-reset'
+
+describe('createPasswordResetToken', () => {
+  it('should create a URL-safe token and store only its hash', () => {
+    const { token, tokenHash } = createPasswordResetToken()
+
+    expect(token).toMatch(/^[\w-]{43}$/)
+    expect(tokenHash).toBe(hashPasswordResetToken(token))
+    expect(tokenHash).not.toContain(token)
+  })
+
+  it('should create a different token every time', () => {
+    expect(createPasswordResetToken().token).not.toBe(createPasswordResetToken().token)
+  })
+
+  it('should expire after the token lifetime', () => {
+    const now = new Date('2026-10-19T10:00:00Z')
+    const { expiresAt } = createPasswordResetToken(now)
+
+    expect(expiresAt.getTime() - now.getTime()).toBe(PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+  })
+})
+
+describe('hashPasswordResetToken', () => {
+  it('should hash the same token the same way', () => {
+    expect(hashPasswordResetToken('abc')).toBe(hashPasswordResetToken('abc'))
+    expect(hashPasswordResetToken('abc')).not.toBe(hashPasswordResetToken('abd'))
+  })
+})
+
+describe('getPasswordResetDelay', () => {
+  it('should wait out the rest of the response time', () => {
+    expect(getPasswordResetDelay(10_000, 10_200)).toBe(PASSWORD_RESET_RESPONSE_MS - 200)
+  })
+
+  it('should not wait once the response time has passed', () => {
+    expect(getPasswordResetDelay(10_000, 10_000 + PASSWORD_RESET_RESPONSE_MS + 500)).toBe(0)
+  })
+})
@@ -0,0 +1,51 @@
+import { createHash, randomBytes } from 'crypto'
+import { addMinutes } from 'date-fns'
+
+/**
+ * Password Reset Tokens
+ *
+ * Reset links carry a random token. Only its SHA-256 hash is stored, so a
+ * leaked database can't be used to reset passwords; the token is random
+ * enough that a fast hash is safe. Each token expires and works once.
+ */
+
+/**
+ * How long a reset link works
+ */
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60
+
+/**
+ * Hash a reset token for storage and lookup
+ */
+export function hashPasswordResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Create a reset token
+ * @returns The token to email and the hash and expiry to store
+ */
+export function createPasswordResetToken(now: Date = new Date()) {
+  const token = randomBytes(32).toString('base64url')
+
+  return {
+    token,
+    tokenHash: hashPasswordResetToken(token),
+    expiresAt: addMinutes(now, PASSWORD_RESET_TOKEN_TTL_MINUTES),
+  }
+}
+
+/**
+ * Minimum time a reset request takes to answer
+ * Requests for unknown accounts wait as long as real ones, so response
+ * times don't reveal who has an account.
+ */
+export const PASSWORD_RESET_RESPONSE_MS = 1000
+
+/**
+ * How much longer a reset request has to wait before answering
+ * @param startedAt - When the request started (ms since epoch)
+ */
+export function getPasswordResetDelay(startedAt: number, now: number = Date.now()): number {
+  return Math.max(startedAt + PASSWORD_RESET_RESPONSE_MS - now, 0)
+}
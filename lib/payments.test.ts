@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Payment Utilities
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applyPayment, calculateDeposit, createFakePaymentProvider, getBalanceDue, signWebhookPayload } from './payments'
+
+describe('calculateDeposit', () => {
+  it('should take the configured share of the total', () => {
+    expect(calculateDeposit('PARTY', 16000)).toBe(4800)
+    expect(calculateDeposit('EVENT', 3000)).toBe(1500)
+  })
+
+  it('should apply the minimum deposit', () => {
+    expect(calculateDeposit('PARTY', 5000)).toBe(3000)
+  })
+
+  it('should never exceed the total', () => {
+    expect(calculateDeposit('SENSORY_ROOM', 800)).toBe(800)
+  })
+
+  it('should not require a deposit for cafe bookings or free bookings', () => {
+    expect(calculateDeposit('CAFE', 5000)).toBe(0)
+    expect(calculateDeposit('PARTY', 0)).toBe(0)
+  })
+})
+
+describe('getBalanceDue', () => {
+  it('should subtract what was paid', () => {
+    expect(getBalanceDue(16000, 4800)).toBe(11200)
+  })
+
+  it('should not go below zero when overpaid', () => {
+    expect(getBalanceDue(16000, 20000)).toBe(0)
+  })
+})
+
+describe('applyPayment', () => {
+  it('should add to a partial payment recorded by hand', () => {
+    expect(applyPayment({ totalAmount: 16000, paidAmount: 5000 }, 11000)).toEqual({ paidAmount: 16000, isPaid: true })
+    expect(applyPayment({ totalAmount: 16000, paidAmount: 5000 }, 4800)).toEqual({ paidAmount: 9800, isPaid: false })
+  })
+
+  it('should start from nothing paid', () => {
+    expect(applyPayment({ totalAmount: 16000, paidAmount: null }, 4800)).toEqual({ paidAmount: 4800, isPaid: false })
+  })
+
+  it('should refuse more than the balance due', () => {
+    expect(applyPayment({ totalAmount: 16000, paidAmount: 5000 }, 16000)).toBeNull()
+    expect(applyPayment({ totalAmount: 16000, paidAmount: 16000 }, 4800)).toBeNull()
+  })
+})
+
+describe('createFakePaymentProvider', () => {
+  const provider = createFakePaymentProvider('test-secret')
+  const payload = JSON.stringify({ providerRef: 'fake_123', status: 'succeeded', amount: 4800 })
+
+  it('should create checkouts without a hosted page', async () => {
+    const checkout = await provider.createCheckout({
+      paymentId: 'payment-1',
+      amount: 4800,
+      currency: 'RSD',
+      description: 'Deposit',
+      returnUrl: 'http://localhost:3000/profile',
+    })
+
+    expect(checkout.providerRef).toMatch(/^fake_[0-9a-f]{24}$/)
+    expect(checkout.checkoutUrl).toBeNull()
+  })
+
+  it('should accept correctly signed events', () => {
+    const event = provider.verifyWebhook(payload, signWebhookPayload(payload, 'test-secret'))
+    expect(event).toEqual({ providerRef: 'fake_123', status: 'succeeded', amount: 4800 })
+  })
+
+  it('should reject missing or wrong signatures', () => {
+    expect(provider.verifyWebhook(payload, null)).toBeNull()
+    expect(provider.verifyWebhook(payload, signWebhookPayload(payload, 'other-secret'))).toBeNull()
+  })
+
+  it('should reject tampered payloads', () => {
+    const signature = signWebhookPayload(payload, 'test-secret')
+    const tampered = payload.replace('4800', '1')
+    expect(provider.verifyWebhook(tampered, signature)).toBeNull()
+  })
+
+  it('should reject signed payloads with an invalid shape', () => {
+    const invalid = JSON.stringify({ providerRef: 'fake_123', status: 'refunded', amount: 4800 })
+    expect(provider.verifyWebhook(invalid, signWebhookPayload(invalid, 'test-secret'))).toBeNull()
+  })
+})
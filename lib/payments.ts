@@ -0,0 +1,204 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { BookingType } from '@prisma/client'
+
+/**
+ * Payment Utilities
+ *
+ * Deposit rules and the payment provider abstraction. Providers create a
+ * checkout for a pending Payment and later confirm it through a signed
+ * webhook (see app/api/payments/webhook/route.ts). Only the local fake
+ * provider ships for now; it is meant for development and tests.
+ */
+
+/**
+ * Deposit rule for a booking type
+ */
+export interface DepositRule {
+  percent: number // Share of the booking total due up front (0-100)
+  minimum: number // Minimum deposit in the booking currency
+}
+
+/**
+ * Deposit rules per booking type
+ * Cafe tables are paid on site, so they don't take a deposit.
+ */
+export const DEPOSIT_RULES: Record<BookingType, DepositRule> = {
+  CAFE: { percent: 0, minimum: 0 },
+  SENSORY_ROOM: { percent: 30, minimum: 1000 },
+  PLAYGROUND: { percent: 30, minimum: 1000 },
+  PARTY: { percent: 30, minimum: 3000 },
+  EVENT: { percent: 50, minimum: 0 },
+}
+
+/**
+ * Calculate the deposit due for a booking
+ *
+ * Rounded up to whole currency units and never more than the total.
+ *
+ * @example calculateDeposit('PARTY', 16000) => 4800
+ */
+export function calculateDeposit(type: BookingType, totalAmount: number): number {
+  const rule = DEPOSIT_RULES[type]
+
+  if (totalAmount <= 0 || rule.percent === 0) {
+    return 0
+  }
+
+  const deposit = Math.max(Math.ceil((totalAmount * rule.percent) / 100), rule.minimum)
+  return Math.min(deposit, totalAmount)
+}
+
+/**
+ * Amount still to pay on a booking
+ */
+export function getBalanceDue(totalAmount: number, paidAmount: number): number {
+  return Math.max(totalAmount - paidAmount, 0)
+}
+
+/**
+ * Add a successful payment to what a booking has been paid
+ *
+ * Builds on the booking's recorded paid amount, which includes anything an
+ * admin recorded by hand, rather than on online payments alone.
+ *
+ * @returns The new paid amount, or null when the payment is more than the balance due
+ */
+export function applyPayment(
+  booking: { totalAmount: number | null; paidAmount: number | null },
+  amount: number
+): { paidAmount: number; isPaid: boolean } | null {
+  const totalAmount = booking.totalAmount ?? 0
+  const paidAmount = booking.paidAmount ?? 0
+
+  if (amount > getBalanceDue(totalAmount, paidAmount)) {
+    return null
+  }
+
+  return { paidAmount: paidAmount + amount, isPaid: paidAmount + amount >= totalAmount }
+}
+
+/**
+ * Data needed to open a checkout with a provider
+ */
+export interface CheckoutInput {
+  paymentId: string
+  amount: number
+  currency: string
+  description: string
+  returnUrl: string
+}
+
+/**
+ * Checkout opened by a provider
+ */
+export interface CheckoutSession {
+  providerRef: string // Provider's ID for the checkout, echoed back in webhooks
+  checkoutUrl: string | null // Hosted payment page (null when the provider has none)
+}
+
+/**
+ * Verified payment result reported by a provider webhook
+ */
+export interface PaymentEvent {
+  providerRef: string
+  status: 'succeeded' | 'failed'
+  amount: number
+}
+
+/**
+ * Payment provider interface
+ */
+export interface PaymentProvider {
+  name: string
+  createCheckout(input: CheckoutInput): Promise<CheckoutSession>
+  /**
+   * Verify a webhook request body and signature
+   * @returns The event, or null when the signature or payload is invalid
+   */
+  verifyWebhook(payload: string, signature: string | null): PaymentEvent | null
+}
+
+/**
+ * Sign a webhook payload with HMAC-SHA256
+ */
+export function signWebhookPayload(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+/**
+ * Local fake provider
+ *
+ * Has no hosted payment page: the app confirms checkouts itself by sending
+ * a signed event through the same code path as a real webhook.
+ */
+export function createFakePaymentProvider(secret: string): PaymentProvider {
+  return {
+    name: 'fake',
+
+    async createCheckout() {
+      return {
+        providerRef: `fake_${randomBytes(12).toString('hex')}`,
+        checkoutUrl: null,
+      }
+    },
+
+    verifyWebhook(payload, signature) {
+      if (!signature) {
+        return null
+      }
+
+      const expected = Buffer.from(signWebhookPayload(payload, secret))
+      const received = Buffer.from(signature)
+      if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        return null
+      }
+
+      try {
+        const event = JSON.parse(payload) as Partial<PaymentEvent>
+        if (
+          typeof event.providerRef !== 'string' ||
+          (event.status !== 'succeeded' && event.status !== 'failed') ||
+          typeof event.amount !== 'number'
+        ) {
+          return null
+        }
+        return { providerRef: event.providerRef, status: event.status, amount: event.amount }
+      } catch {
+        return null
+      }
+    },
+  }
+}
+
+/**
+ * Secret used by the fake provider when PAYMENT_WEBHOOK_SECRET is not set
+ */
+const FAKE_WEBHOOK_SECRET = 'fake-payment-webhook-secret'
+
+/**
+ * Secret shared with the provider for webhook signatures
+ */
+export function getWebhookSecret(): string {
+  return process.env.PAYMENT_WEBHOOK_SECRET || FAKE_WEBHOOK_SECRET
+}
+
+/**
+ * Get the configured payment provider
+ *
+ * Selected with PAYMENT_PROVIDER (default: fake). The fake provider is
+ * refused in production so real money can't be "paid" with it.
+ *
+ * @throws Error when no usable provider is configured
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const name = process.env.PAYMENT_PROVIDER || 'fake'
+
+  if (name === 'fake') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('No payment provider configured')
+    }
+    return createFakePaymentProvider(getWebhookSecret())
+  }
+
+  throw new Error(`Unknown payment provider: ${name}`)
+}
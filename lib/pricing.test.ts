@@ -0,0 +1,152 @@
+/**
+ * Unit Tests for the Pricing Engine
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateQuote, getBookingPriceCodes, getItemQuantities, isHoliday, type PriceItem, type SurchargeRules } from './pricing'
+
+const catalog: PriceItem[] = [
+  { code: 'room:sensory-room', name: 'Sensory Room', amount: 5000, currency: 'RSD', unit: 'FLAT' },
+  { code: 'kids:up-to-20', name: 'Up to 20 Kids', amount: 2000, currency: 'RSD', unit: 'FLAT' },
+  { code: 'food:pizza', name: 'Pizza', amount: 350, currency: 'RSD', unit: 'PER_GUEST' },
+  { code: 'beverage:lemonade', name: 'Lemonade', amount: 3, currency: 'EUR', unit: 'PER_GUEST' },
+]
+
+const rules: SurchargeRules = { weekendPercent: 10, holidayPercent: 25, holidays: ['01-07', '2025-12-31'] }
+
+// Thursday, December 4th 2025
+const weekday = new Date(2025, 11, 4, 15, 0)
+
+describe('calculateQuote', () => {
+  it('should itemize flat and per-guest items', () => {
+    const quote = calculateQuote(
+      { items: ['room:sensory-room', 'kids:up-to-20', 'food:pizza'], guestCount: 12, date: weekday },
+      catalog,
+      rules
+    )
+
+    expect(quote.lines).toEqual([
+      { code: 'room:sensory-room', label: 'Sensory Room', unitAmount: 5000, quantity: 1, amount: 5000 },
+      { code: 'kids:up-to-20', label: 'Up to 20 Kids', unitAmount: 2000, quantity: 1, amount: 2000 },
+      { code: 'food:pizza', label: 'Pizza', unitAmount: 350, quantity: 12, amount: 4200 },
+    ])
+    expect(quote.subtotal).toBe(11200)
+    expect(quote.total).toBe(11200)
+    expect(quote.currency).toBe('RSD')
+  })
+
+  it('should use explicit quantities for per-guest items', () => {
+    const quote = calculateQuote(
+      { items: ['food:pizza', 'room:sensory-room'], guestCount: 12, quantities: { 'food:pizza': 8, 'room:sensory-room': 3 } },
+      catalog,
+      rules
+    )
+
+    expect(quote.lines.map(line => line.quantity)).toEqual([8, 1])
+    expect(quote.total).toBe(2800 + 5000)
+  })
+
+  it('should price duplicate codes once', () => {
+    const quote = calculateQuote({ items: ['room:sensory-room', 'room:sensory-room'], guestCount: 1 }, catalog, rules)
+    expect(quote.total).toBe(5000)
+  })
+
+  it('should add a weekend surcharge', () => {
+    const saturday = new Date(2025, 11, 6, 15, 0)
+    const quote = calculateQuote({ items: ['room:sensory-room'], guestCount: 1, date: saturday }, catalog, rules)
+
+    expect(quote.subtotal).toBe(5000)
+    expect(quote.total).toBe(5500)
+    expect(quote.lines.at(-1)).toMatchObject({ code: 'surcharge:weekend', amount: 500 })
+  })
+
+  it('should only apply the higher surcharge on a weekend holiday', () => {
+    // January 7th 2024 was a Sunday and is a yearly holiday
+    const sunday = new Date(2024, 0, 7, 15, 0)
+    const quote = calculateQuote({ items: ['room:sensory-room'], guestCount: 1, date: sunday }, catalog, rules)
+
+    expect(quote.lines.filter(line => line.code.startsWith('surcharge:'))).toHaveLength(1)
+    expect(quote.total).toBe(6250)
+  })
+
+  it('should not add surcharges without a date', () => {
+    const quote = calculateQuote({ items: ['room:sensory-room'], guestCount: 1 }, catalog, rules)
+    expect(quote.total).toBe(quote.subtotal)
+  })
+
+  it('should reject unknown items and mixed currencies', () => {
+    expect(() => calculateQuote({ items: ['room:unknown'], guestCount: 1 }, catalog, rules)).toThrow('Unknown price item')
+    expect(() =>
+      calculateQuote({ items: ['room:sensory-room', 'beverage:lemonade'], guestCount: 1 }, catalog, rules)
+    ).toThrow('same currency')
+  })
+
+  it('should return an empty quote when nothing is selected', () => {
+    expect(calculateQuote({ items: [], guestCount: 5, date: weekday }, catalog, rules)).toEqual({
+      currency: 'RSD',
+      lines: [],
+      subtotal: 0,
+      total: 0,
+    })
+  })
+})
+
+describe('isHoliday', () => {
+  it('should match yearly and one-off holidays', () => {
+    expect(isHoliday(new Date(2030, 0, 7), rules.holidays)).toBe(true)
+    expect(isHoliday(new Date(2025, 11, 31), rules.holidays)).toBe(true)
+    expect(isHoliday(new Date(2026, 11, 31), rules.holidays)).toBe(false)
+  })
+})
+
+describe('getItemQuantities', () => {
+  it('should add up variants that share a code', () => {
+    expect(getItemQuantities([
+      { code: 'food:pizza', quantity: 8 },
+      { code: 'beverage:lemonade', quantity: 12 },
+      { code: 'food:pizza', quantity: 4 },
+    ])).toEqual({ 'food:pizza': 12, 'beverage:lemonade': 12 })
+  })
+})
+
+describe('getBookingPriceCodes', () => {
+  const priceList: PriceItem[] = [
+    ...catalog,
+    { code: 'kids:up-to-10', name: 'Up to 10 Kids', amount: 1000, currency: 'RSD', unit: 'FLAT' },
+    { code: 'kids:up-to-30', name: 'Up to 30 Kids', amount: 3000, currency: 'RSD', unit: 'FLAT' },
+    { code: 'duration:30-min', name: '30 Minutes', amount: 1000, currency: 'RSD', unit: 'FLAT' },
+  ]
+  const playroom = {
+    type: 'PLAYGROUND',
+    resourceIds: ['sensory-room', 'cake-room'],
+    duration: 30,
+    guestCount: 12,
+    itemCodes: ['food:pizza'],
+  }
+
+  it('should charge priced rooms, the tiers that fit and the ordered items', () => {
+    expect(getBookingPriceCodes(playroom, priceList)).toEqual([
+      'room:sensory-room',
+      'kids:up-to-20',
+      'duration:30-min',
+      'food:pizza',
+    ])
+  })
+
+  it('should pick the smallest group size that fits', () => {
+    expect(getBookingPriceCodes({ ...playroom, guestCount: 10 }, priceList)).toContain('kids:up-to-10')
+    expect(getBookingPriceCodes({ ...playroom, guestCount: 21 }, priceList)).toContain('kids:up-to-30')
+  })
+
+  it('should refuse bookings no tier fits', () => {
+    expect(() => getBookingPriceCodes({ ...playroom, guestCount: 31 }, priceList)).toThrow('No price for 31 kids')
+    expect(() => getBookingPriceCodes({ ...playroom, duration: 45 }, priceList)).toThrow('No price for a 45 minute session')
+  })
+
+  it('should only charge tiers for tiered booking types', () => {
+    expect(getBookingPriceCodes({ ...playroom, type: 'PARTY', duration: 120 }, priceList)).toEqual([
+      'room:sensory-room',
+      'food:pizza',
+    ])
+  })
+})
@@ -0,0 +1,241 @@
+import { format } from 'date-fns'
+
+/**
+ * Pricing Engine
+ *
+ * Builds itemized booking quotes on the server from priced PricingPackage
+ * rows (packages with a `code`). Codes are namespaced by what they price:
+ *
+ * - room:<resource id>     e.g. room:sensory-room
+ * - kids:<option>          e.g. kids:up-to-20
+ * - duration:<option>      e.g. duration:45-min
+ * - food:<id>, beverage:<id>, addon:<id>
+ *
+ * Weekend and holiday surcharges are percentages of the subtotal. Only the
+ * highest applicable surcharge is charged.
+ *
+ * Which codes a booking is charged for is worked out from the booking
+ * itself (getBookingPriceCodes), so a client can't leave any out.
+ */
+
+export type PriceUnit = 'FLAT' | 'PER_GUEST'
+
+/**
+ * Priced catalog item (a PricingPackage with a code)
+ */
+export interface PriceItem {
+  code: string
+  name: string
+  amount: number
+  currency: string
+  unit: PriceUnit
+}
+
+/**
+ * Weekend and holiday surcharge rules
+ */
+export interface SurchargeRules {
+  weekendPercent: number
+  holidayPercent: number
+  holidays: string[] // yyyy-MM-dd for one-off dates, MM-dd for every year
+}
+
+export const DEFAULT_SURCHARGE_RULES: SurchargeRules = {
+  weekendPercent: 10,
+  holidayPercent: 20,
+  holidays: ['01-01', '01-02', '01-07'],
+}
+
+/**
+ * Single line of a quote
+ */
+export interface QuoteLine {
+  code: string
+  label: string
+  unitAmount: number
+  quantity: number
+  amount: number
+}
+
+/**
+ * Itemized price quote stored on the booking (Booking.priceQuote)
+ */
+export interface PriceQuote {
+  currency: string
+  lines: QuoteLine[]
+  subtotal: number // Sum of item lines, before surcharges
+  total: number
+}
+
+/**
+ * What to price
+ */
+export interface QuoteRequest {
+  items: string[] // Price codes
+  guestCount: number
+  quantities?: Record<string, number> // Per-guest item quantities when not everyone is served
+  date?: Date // Enables weekend and holiday surcharges
+}
+
+/**
+ * Valid price code, e.g. room:sensory-room
+ */
+export const PRICE_CODE_PATTERN = /^[a-z]+:[a-z0-9-]+$/
+
+/**
+ * Total ordered quantity per price code
+ *
+ * Turns booking line items into QuoteRequest.quantities. Variants that
+ * share a code (e.g. two kinds of pizza) are added together.
+ */
+export function getItemQuantities(items: { code: string; quantity: number }[]): Record<string, number> {
+  const quantities: Record<string, number> = {}
+  for (const item of items) {
+    quantities[item.code] = (quantities[item.code] ?? 0) + item.quantity
+  }
+  return quantities
+}
+
+/**
+ * Booking to price, as validated and resolved on the server
+ */
+export interface BookingPriceRequest {
+  type: string
+  resourceIds: string[]
+  duration: number // Minutes
+  guestCount: number
+  itemCodes: string[] // Codes of the ordered line items
+}
+
+/**
+ * Booking types charged by group size (kids:up-to-<n>) and session length
+ * (duration:<n>-min) when the price list has such codes
+ */
+export const TIERED_BOOKING_TYPES = ['PLAYGROUND']
+
+const KIDS_TIER_PATTERN = /^kids:up-to-(\d+)$/
+
+/**
+ * Price codes a booking is charged for
+ *
+ * Booked rooms that have a price, the smallest group size tier that fits
+ * the guests and the tier for the session length (for tiered booking
+ * types), plus the ordered items.
+ *
+ * @param booking - Booking to price
+ * @param priceList - Available priced items
+ * @throws Error when the price list has tiers but none fits the booking
+ */
+export function getBookingPriceCodes(booking: BookingPriceRequest, priceList: PriceItem[]): string[] {
+  const isPriced = (code: string) => priceList.some(item => item.code === code)
+  const codes = booking.resourceIds.map(id => `room:${id}`).filter(isPriced)
+
+  if (TIERED_BOOKING_TYPES.includes(booking.type)) {
+    const kidsTiers = priceList
+      .map(item => ({ code: item.code, capacity: Number(KIDS_TIER_PATTERN.exec(item.code)?.[1]) }))
+      .filter(tier => tier.capacity > 0)
+
+    if (kidsTiers.length > 0) {
+      const tier = kidsTiers
+        .filter(entry => entry.capacity >= booking.guestCount)
+        .sort((a, b) => a.capacity - b.capacity)[0]
+      if (!tier) {
+        throw new Error(`No price for ${booking.guestCount} kids`)
+      }
+      codes.push(tier.code)
+    }
+
+    if (priceList.some(item => item.code.startsWith('duration:'))) {
+      const code = `duration:${booking.duration}-min`
+      if (!isPriced(code)) {
+        throw new Error(`No price for a ${booking.duration} minute session`)
+      }
+      codes.push(code)
+    }
+  }
+
+  return [...codes, ...booking.itemCodes]
+}
+
+/**
+ * Check whether a date is a configured holiday
+ */
+export function isHoliday(date: Date, holidays: string[]): boolean {
+  return holidays.includes(format(date, 'yyyy-MM-dd')) || holidays.includes(format(date, 'MM-dd'))
+}
+
+/**
+ * Surcharge that applies on a date, if any
+ */
+function getSurcharge(date: Date, rules: SurchargeRules) {
+  const candidates = [
+    { code: 'surcharge:holiday', label: 'Holiday surcharge', percent: isHoliday(date, rules.holidays) ? rules.holidayPercent : 0 },
+    { code: 'surcharge:weekend', label: 'Weekend surcharge', percent: date.getDay() === 0 || date.getDay() === 6 ? rules.weekendPercent : 0 },
+  ].filter(candidate => candidate.percent > 0)
+
+  return candidates.sort((a, b) => b.percent - a.percent)[0] ?? null
+}
+
+/**
+ * Calculate an itemized quote
+ *
+ * Duplicate codes are priced once. Per-guest items are multiplied by their
+ * quantity, or the guest count when none is given. Amounts are rounded to
+ * whole currency units.
+ *
+ * @param request - Selected price codes, guest count and optional date
+ * @param catalog - Available priced items
+ * @param rules - Surcharge rules
+ * @throws Error when a code is not in the catalog or items use different currencies
+ */
+export function calculateQuote(
+  request: QuoteRequest,
+  catalog: PriceItem[],
+  rules: SurchargeRules = DEFAULT_SURCHARGE_RULES
+): PriceQuote {
+  const lines: QuoteLine[] = []
+  let currency: string | null = null
+
+  for (const code of new Set(request.items)) {
+    const item = catalog.find(entry => entry.code === code)
+    if (!item) {
+      throw new Error(`Unknown price item: ${code}`)
+    }
+    if (currency && item.currency !== currency) {
+      throw new Error('All price items must use the same currency')
+    }
+    currency = item.currency
+
+    const quantity = item.unit === 'PER_GUEST' ? (request.quantities?.[code] ?? request.guestCount) : 1
+    lines.push({
+      code: item.code,
+      label: item.name,
+      unitAmount: item.amount,
+      quantity,
+      amount: Math.round(item.amount * quantity),
+    })
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0)
+  let total = subtotal
+
+  const surcharge = request.date && subtotal > 0 ? getSurcharge(request.date, rules) : null
+  if (surcharge) {
+    const amount = Math.round((subtotal * surcharge.percent) / 100)
+    lines.push({
+      code: surcharge.code,
+      label: `${surcharge.label} (${surcharge.percent}%)`,
+      unitAmount: amount,
+      quantity: 1,
+      amount,
+    })
+    total += amount
+  }
+
+  return {
+    currency: currency ?? 'RSD',
+    lines,
+    subtotal,
+    total,
+  }
+}
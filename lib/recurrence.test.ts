@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Recurrence Utilities
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatRRule, parseRRule, getOccurrences, describeRRule, MAX_SERIES_OCCURRENCES } from './recurrence'
+
+// Tuesday, 6 January 2026, 10:00
+const start = new Date(2026, 0, 6, 10, 0, 0, 0)
+const dayOf = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`
+
+describe('formatRRule / parseRRule', () => {
+  it('should round-trip a weekly rule', () => {
+    const rrule = formatRRule({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'], until: new Date(2026, 2, 31) })
+    expect(rrule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260331')
+
+    const rule = parseRRule(`RRULE:${rrule}`)
+    expect(rule.freq).toBe('WEEKLY')
+    expect(rule.interval).toBe(2)
+    expect(rule.byDay).toEqual(['MO', 'TH'])
+    expect(rule.until?.getDate()).toBe(31)
+  })
+
+  it('should reject unsupported rules', () => {
+    expect(() => parseRRule('FREQ=YEARLY')).toThrow('Unsupported recurrence frequency')
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid recurrence weekdays')
+    expect(() => parseRRule('FREQ=DAILY;INTERVAL=0')).toThrow('positive integer')
+  })
+})
+
+describe('getOccurrences', () => {
+  it('should repeat weekly on the weekday of the first occurrence', () => {
+    const occurrences = getOccurrences(start, { freq: 'WEEKLY', interval: 1, count: 3 })
+
+    expect(occurrences.map(dayOf)).toEqual(['1/6', '1/13', '1/20'])
+    expect(occurrences.every(date => date.getHours() === 10)).toBe(true)
+  })
+
+  it('should expand BYDAY within each week and skip days before the start', () => {
+    const occurrences = getOccurrences(start, { freq: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'], count: 4 })
+    expect(occurrences.map(dayOf)).toEqual(['1/8', '1/19', '1/22', '2/2'])
+  })
+
+  it('should stop at the end date', () => {
+    const occurrences = getOccurrences(start, { freq: 'DAILY', interval: 3, until: new Date(2026, 0, 12) })
+    expect(occurrences.map(dayOf)).toEqual(['1/6', '1/9', '1/12'])
+  })
+
+  it('should skip months without the start day', () => {
+    const endOfMonth = new Date(2026, 0, 31, 9, 0)
+    const occurrences = getOccurrences(endOfMonth, { freq: 'MONTHLY', interval: 1, count: 3 })
+    expect(occurrences.map(dayOf)).toEqual(['1/31', '3/31', '5/31'])
+  })
+
+  it('should cap open-ended series', () => {
+    expect(getOccurrences(start, { freq: 'DAILY', interval: 1 })).toHaveLength(MAX_SERIES_OCCURRENCES)
+  })
+})
+
+describe('describeRRule', () => {
+  it('should describe interval, weekdays and count', () => {
+    expect(describeRRule({ freq: 'WEEKLY', interval: 2, byDay: ['MO'], count: 5 })).toBe('Every 2 weeks on Mon, 5 times')
+    expect(describeRRule({ freq: 'DAILY', interval: 1 })).toBe('Every day')
+  })
+})
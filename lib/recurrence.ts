@@ -0,0 +1,217 @@
+import { addDays, addMonths, addWeeks, endOfDay, format, startOfWeek } from 'date-fns'
+
+/**
+ * Recurrence Utilities
+ *
+ * RRULE-style recurrence for booking series (e.g. a school booking the
+ * sensory room every Tuesday) and recurring events. Supports the subset of RFC 5545 the admin UI
+ * offers: FREQ, INTERVAL, BYDAY (weekly only), COUNT and UNTIL.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const
+
+export type Weekday = typeof WEEKDAYS[number]
+
+/**
+ * Parsed recurrence rule
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay?: Weekday[] // Weekly rules only (defaults to the weekday of the first occurrence)
+  count?: number // Total number of occurrences, including the first one
+  until?: Date // Last possible occurrence date (inclusive)
+}
+
+/**
+ * Upper bound on occurrences generated for a single series
+ */
+export const MAX_SERIES_OCCURRENCES = 52
+
+/**
+ * Serialize a rule to an RRULE string (without the "RRULE:" prefix)
+ *
+ * @example formatRRule({ freq: 'WEEKLY', interval: 1, byDay: ['TU'], count: 10 }) => 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU;COUNT=10'
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${rule.interval}`]
+
+  if (rule.freq === 'WEEKLY' && rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(',')}`)
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${format(rule.until, 'yyyyMMdd')}`)
+  }
+
+  return parts.join(';')
+}
+
+/**
+ * Parse an RRULE string produced by formatRRule
+ *
+ * @throws Error when the rule is malformed or uses unsupported parts
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const fields = new Map(
+    value
+      .replace(/^RRULE:/, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => part.split('=') as [string, string])
+  )
+
+  const freq = fields.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency: ${freq ?? 'missing'}`)
+  }
+
+  const interval = Number(fields.get('INTERVAL') ?? 1)
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('Recurrence interval must be a positive integer')
+  }
+
+  const rule: RecurrenceRule = { freq, interval }
+
+  const byDay = fields.get('BYDAY')
+  if (byDay) {
+    const days = byDay.split(',')
+    if (!days.every(day => (WEEKDAYS as readonly string[]).includes(day))) {
+      throw new Error(`Invalid recurrence weekdays: ${byDay}`)
+    }
+    rule.byDay = days as Weekday[]
+  }
+
+  const count = fields.get('COUNT')
+  if (count) {
+    rule.count = Number(count)
+  }
+
+  const until = fields.get('UNTIL')
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})/)
+    if (!match) {
+      throw new Error(`Invalid recurrence end date: ${until}`)
+    }
+    rule.until = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  }
+
+  return rule
+}
+
+/**
+ * Weekday code for a date
+ */
+function getWeekday(date: Date): Weekday {
+  return WEEKDAYS[(date.getDay() + 6) % 7]
+}
+
+/**
+ * Lazily generate occurrence start times, honouring COUNT and UNTIL
+ *
+ * The first occurrence is always `start`. Times of day are preserved.
+ * Monthly rules skip months that don't have the start day (e.g. the 31st).
+ * Open-ended rules never finish, so callers must stop iterating themselves.
+ *
+ * @param start - First occurrence (date and time)
+ * @param rule - Recurrence rule
+ */
+export function* iterateOccurrences(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const until = rule.until ? endOfDay(rule.until) : null
+  let emitted = 0
+
+  const isPastEnd = (date: Date) =>
+    (rule.count !== undefined && emitted >= rule.count) || (until !== null && date > until)
+
+  if (rule.freq === 'WEEKLY') {
+    const days = rule.byDay && rule.byDay.length > 0 ? rule.byDay : [getWeekday(start)]
+    const firstWeek = startOfWeek(start, { weekStartsOn: 1 })
+
+    for (let week = 0; ; week += rule.interval) {
+      const weekStart = addWeeks(firstWeek, week)
+      for (let offset = 0; offset < 7; offset++) {
+        const date = addDays(weekStart, offset)
+        date.setHours(start.getHours(), start.getMinutes(), 0, 0)
+        if (date < start || !days.includes(getWeekday(date))) {
+          continue
+        }
+        if (isPastEnd(date)) {
+          return
+        }
+        emitted++
+        yield date
+      }
+    }
+  }
+
+  for (let step = 0; ; step++) {
+    const date = rule.freq === 'DAILY'
+      ? addDays(start, step * rule.interval)
+      : addMonths(start, step * rule.interval)
+
+    // addMonths clamps to the last day of shorter months; skip those instead
+    if (rule.freq === 'MONTHLY' && date.getDate() !== start.getDate()) {
+      continue
+    }
+    if (isPastEnd(date)) {
+      return
+    }
+    emitted++
+    yield date
+  }
+}
+
+/**
+ * Expand a rule into occurrence start times
+ *
+ * @param start - First occurrence (date and time)
+ * @param rule - Recurrence rule
+ * @param limit - Maximum number of occurrences (defaults to MAX_SERIES_OCCURRENCES)
+ * @returns Occurrence start times in chronological order
+ */
+export function getOccurrences(
+  start: Date,
+  rule: RecurrenceRule,
+  limit: number = MAX_SERIES_OCCURRENCES
+): Date[] {
+  const occurrences: Date[] = []
+
+  for (const date of iterateOccurrences(start, rule)) {
+    if (occurrences.length >= limit) {
+      break
+    }
+    occurrences.push(date)
+  }
+
+  return occurrences
+}
+
+/**
+ * Human readable description of a rule
+ *
+ * @example describeRRule({ freq: 'WEEKLY', interval: 2, byDay: ['MO'], count: 5 }) => 'Every 2 weeks on Mon, 5 times'
+ */
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq]
+  const dayNames: Record<Weekday, string> = {
+    MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+  }
+
+  let description = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  if (rule.freq === 'WEEKLY' && rule.byDay && rule.byDay.length > 0) {
+    description += ` on ${rule.byDay.map(day => dayNames[day]).join(', ')}`
+  }
+  if (rule.count) {
+    description += `, ${rule.count} times`
+  }
+  if (rule.until) {
+    description += `, until ${format(rule.until, 'MMM d, yyyy')}`
+  }
+
+  return description
+}
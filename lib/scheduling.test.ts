@@ -0,0 +1,160 @@
+/**
+ * Unit Tests for Scheduling Utilities
+ */
+
+import { describe, it, expect } from 'vitest'
+import { checkBookingConflict, getAvailableSlots, getSlotGrid, isBeforeChangeCutoff, type ExistingBooking } from './scheduling'
+import { resolveBookingResources, getDefaultDuration } from './booking-resources'
+
+const at = (hours: number, minutes = 0) => new Date(2025, 11, 4, hours, minutes, 0, 0)
+
+describe('checkBookingConflict', () => {
+  const sensorySession: ExistingBooking = {
+    id: 'sensory-1',
+    date: at(10),
+    duration: 60,
+    resourceIds: ['sensory-room'],
+  }
+
+  it('should allow bookings on different resources at the same time', () => {
+    const result = checkBookingConflict(at(10), 90, [sensorySession], undefined, 15, ['cafe-seating'])
+    expect(result.hasConflict).toBe(false)
+  })
+
+  it('should report a double booking on the same resource and start time', () => {
+    const result = checkBookingConflict(at(10), 60, [sensorySession], undefined, 15, ['sensory-room'])
+    expect(result.hasConflict).toBe(true)
+    expect(result.conflictType).toBe('double_booking')
+    expect(result.resourceId).toBe('sensory-room')
+  })
+
+  it('should detect interval overlap with a different start time', () => {
+    const result = checkBookingConflict(at(10, 30), 60, [sensorySession], undefined, 0, ['sensory-room'])
+    expect(result.conflictType).toBe('overlap')
+    expect(result.conflictingBookingId).toBe('sensory-1')
+  })
+
+  it('should enforce the cleanup buffer after an existing booking', () => {
+    const tooClose = checkBookingConflict(at(11, 10), 60, [sensorySession], undefined, 15, ['sensory-room'])
+    expect(tooClose.conflictType).toBe('buffer_violation')
+
+    const afterBuffer = checkBookingConflict(at(11, 15), 60, [sensorySession], undefined, 15, ['sensory-room'])
+    expect(afterBuffer.hasConflict).toBe(false)
+  })
+
+  it('should only conflict once a multi-capacity resource is full', () => {
+    const cafeBookings: ExistingBooking[] = Array.from({ length: 7 }, (_, i) => ({
+      id: `cafe-${i}`,
+      date: at(12),
+      duration: 90,
+      resourceIds: ['cafe-seating'],
+    }))
+
+    expect(checkBookingConflict(at(12), 90, cafeBookings, undefined, 0, ['cafe-seating']).hasConflict).toBe(false)
+
+    const full = [...cafeBookings, { id: 'cafe-7', date: at(12, 30), duration: 90, resourceIds: ['cafe-seating'] }]
+    expect(checkBookingConflict(at(12), 90, full, undefined, 0, ['cafe-seating']).hasConflict).toBe(true)
+  })
+
+  it('should ignore the excluded booking when updating', () => {
+    const result = checkBookingConflict(at(10), 60, [sensorySession], 'sensory-1', 15, ['sensory-room'])
+    expect(result.hasConflict).toBe(false)
+  })
+
+  it('should treat bookings without resources as occupying the whole venue', () => {
+    const legacy: ExistingBooking = { id: 'legacy', date: at(14), duration: 120 }
+    const result = checkBookingConflict(at(15), 60, [legacy], undefined, 0, ['cafe-seating'])
+    expect(result.hasConflict).toBe(true)
+  })
+})
+
+describe('getAvailableSlots', () => {
+  it('should only block slots on the booked resource', () => {
+    const existing: ExistingBooking[] = [
+      { id: 'party', date: at(10), duration: 120, resourceIds: ['cake-room'] },
+    ]
+
+    const cakeRoomSlots = getAvailableSlots(at(0), existing, 120, 9, 14, ['cake-room'], 0)
+    const slideRoomSlots = getAvailableSlots(at(0), existing, 120, 9, 14, ['slide-room'], 0)
+
+    expect(cakeRoomSlots.map(slot => slot.getHours())).toEqual([12])
+    expect(slideRoomSlots).toHaveLength(7)
+  })
+
+  it('should use the duration of each booking and of the requested slot', () => {
+    const existing: ExistingBooking[] = [
+      { id: 'short', date: at(9), duration: 30, resourceIds: ['sensory-room'] },
+      { id: 'long', date: at(10, 30), duration: 90, resourceIds: ['sensory-room'] },
+    ]
+
+    const shortSlots = getAvailableSlots(at(0), existing, 45, 9, 13, ['sensory-room'], 0)
+    const longSlots = getAvailableSlots(at(0), existing, 90, 9, 13, ['sensory-room'], 0)
+
+    expect(shortSlots.map(slot => slot.getHours() * 60 + slot.getMinutes())).toEqual([570, 720])
+    expect(longSlots).toHaveLength(0)
+  })
+})
+
+describe('getSlotGrid', () => {
+  const hours = { open: '09:00', close: '12:00', closed: false }
+
+  it('should list every start time within opening hours', () => {
+    const grid = getSlotGrid(at(0), [], hours, 60, ['sensory-room'], 0)
+
+    expect(grid.map(slot => slot.time)).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00', '11:30'])
+    expect(grid.filter(slot => !slot.available).map(slot => slot.time)).toEqual(['11:30'])
+  })
+
+  it('should mark slots taken on the same resource as unavailable', () => {
+    const existing: ExistingBooking[] = [
+      { id: 'sensory', date: at(10), duration: 60, resourceIds: ['sensory-room'] },
+    ]
+
+    const sensory = getSlotGrid(at(0), existing, hours, 60, ['sensory-room'], 0)
+    const cafe = getSlotGrid(at(0), existing, hours, 60, ['cafe-seating'], 0)
+
+    expect(sensory.filter(slot => slot.available).map(slot => slot.time)).toEqual(['09:00', '11:00'])
+    expect(cafe.filter(slot => slot.available)).toHaveLength(5)
+  })
+
+  it('should respect opening minutes, closed days and the earliest bookable time', () => {
+    const halfPast = getSlotGrid(at(0), [], { open: '09:30', close: '11:00', closed: false }, 30, [], 0)
+    expect(halfPast.map(slot => slot.time)).toEqual(['09:30', '10:00', '10:30'])
+
+    expect(getSlotGrid(at(0), [], { ...hours, closed: true }, 60)).toEqual([])
+
+    const later = getSlotGrid(at(0), [], hours, 60, [], 0, at(10, 15))
+    expect(later.filter(slot => slot.available).map(slot => slot.time)).toEqual(['10:30', '11:00'])
+  })
+})
+
+describe('isBeforeChangeCutoff', () => {
+  it('should allow changes only while the booking is more than the cutoff away', () => {
+    const now = new Date(2025, 5, 1, 12, 0)
+
+    expect(isBeforeChangeCutoff(new Date(2025, 5, 2, 13, 0), 24, now)).toBe(true)
+    expect(isBeforeChangeCutoff(new Date(2025, 5, 2, 12, 0), 24, now)).toBe(false)
+    expect(isBeforeChangeCutoff(new Date(2025, 5, 1, 11, 0), 0, now)).toBe(false)
+    expect(isBeforeChangeCutoff(new Date(2025, 5, 1, 12, 30), 0, now)).toBe(true)
+  })
+})
+
+describe('resolveBookingResources', () => {
+  it('should fall back to the default resources for the booking type', () => {
+    expect(resolveBookingResources('CAFE')).toEqual(['cafe-seating'])
+    expect(resolveBookingResources('SENSORY_ROOM', [])).toEqual(['sensory-room'])
+  })
+
+  it('should normalize aliases and drop unknown or disallowed rooms', () => {
+    expect(resolveBookingResources('PLAYGROUND', ['minidisco', 'cake-room', 'unknown'])).toEqual([
+      'mini-disco-room',
+      'cake-room',
+    ])
+    expect(resolveBookingResources('CAFE', ['cake-room'])).toEqual(['cafe-seating'])
+  })
+
+  it('should use the longest resource duration as the default', () => {
+    expect(getDefaultDuration('PARTY', ['sensory-room'])).toBe(60)
+    expect(getDefaultDuration('PARTY', ['sensory-room', 'cake-room'])).toBe(120)
+  })
+})
@@ -1,9 +1,11 @@
-import { addMinutes, subMinutes, isWithinInterval } from 'date-fns'
+import { addMinutes, subMinutes } from 'date-fns'
+import { BOOKING_RESOURCES, getResourceName, isBookingResourceId } from './booking-resources'
 
 /**
  * Scheduling Utilities
  *
- * Handles booking conflicts, buffer times, and scheduling optimization
+ * Handles booking conflicts, buffer times, and scheduling optimization.
+ * Conflicts are evaluated per resource (see lib/booking-resources.ts).
  */
 
 /**
@@ -12,6 +14,12 @@ import { addMinutes, subMinutes, isWithinInterval } from 'date-fns'
  */
 export const BUFFER_TIME_MINUTES = 45
 
+/**
+ * Default cutoff in hours before a booking starts after which customers
+ * can no longer cancel or reschedule it themselves
+ */
+export const DEFAULT_CHANGE_CUTOFF_HOURS = 24
+
 /**
  * Booking conflict interface
  */
@@ -19,6 +27,7 @@ export interface BookingConflict {
   hasConflict: boolean
   conflictType?: 'overlap' | 'buffer_violation' | 'double_booking'
   conflictingBookingId?: string
+  resourceId?: string
   message?: string
   suggestedTimes?: Date[]
 }
@@ -32,16 +41,50 @@ export interface ExistingBooking {
   startTime?: string
   endTime?: string
   duration?: number // in minutes
+  resourceIds?: string[] // Resources occupied by the booking (empty = whole venue)
+}
+
+/**
+ * Resource key used for bookings that don't declare any resources.
+ * Such bookings are treated as occupying the whole venue.
+ */
+const VENUE_RESOURCE = 'venue'
+
+/**
+ * Default duration used when an existing booking has no duration
+ */
+const DEFAULT_DURATION_MINUTES = 120
+
+/**
+ * Get the capacity of a resource (venue-wide bookings allow one at a time)
+ */
+function getResourceCapacity(resourceId: string): number {
+  return isBookingResourceId(resourceId) ? BOOKING_RESOURCES[resourceId].capacity : 1
+}
+
+/**
+ * Check whether two bookings compete for at least one resource
+ */
+function sharesResource(resourceId: string, existing: ExistingBooking): boolean {
+  if (resourceId === VENUE_RESOURCE || !existing.resourceIds || existing.resourceIds.length === 0) {
+    return true
+  }
+  return existing.resourceIds.includes(resourceId)
 }
 
 /**
  * Check if a new booking conflicts with existing bookings
  *
+ * Bookings conflict when they occupy the same resource and their intervals
+ * (including the cleanup buffer after each booking) overlap. Resources with a
+ * capacity above 1 (e.g. café seating) only conflict once they are full.
+ *
  * @param newBookingDate - The date and time of the new booking
  * @param duration - Duration of the new booking in minutes
  * @param existingBookings - Array of existing bookings to check against
  * @param excludeBookingId - Optional booking ID to exclude (for updates)
  * @param bufferTimeMinutes - Optional buffer time in minutes (defaults to BUFFER_TIME_MINUTES)
+ * @param resourceIds - Resources the new booking occupies (empty = whole venue)
  * @returns BookingConflict object with details
  */
 export function checkBookingConflict(
@@ -49,42 +92,81 @@ export function checkBookingConflict(
   duration: number,
   existingBookings: ExistingBooking[],
   excludeBookingId?: string,
-  bufferTimeMinutes: number = BUFFER_TIME_MINUTES
+  bufferTimeMinutes: number = BUFFER_TIME_MINUTES,
+  resourceIds: string[] = []
 ): BookingConflict {
-  const newBookingStart = new Date(newBookingDate)
+  const newStart = new Date(newBookingDate)
+  const newEnd = addMinutes(newStart, duration)
+  const newEndWithBuffer = addMinutes(newEnd, bufferTimeMinutes)
+  const requestedResources = resourceIds.length > 0 ? resourceIds : [VENUE_RESOURCE]
 
-  // Check each existing booking
-  for (const existing of existingBookings) {
-    // Skip if this is the same booking (for updates)
-    if (excludeBookingId && existing.id === excludeBookingId) {
+  for (const resourceId of requestedResources) {
+    // Existing bookings on this resource whose buffered interval overlaps the new one
+    const overlapping = existingBookings
+      .filter(existing => !(excludeBookingId && existing.id === excludeBookingId))
+      .filter(existing => sharesResource(resourceId, existing))
+      .map(existing => {
+        const start = new Date(existing.date)
+        const end = addMinutes(start, existing.duration || DEFAULT_DURATION_MINUTES)
+        return { booking: existing, start, end, endWithBuffer: addMinutes(end, bufferTimeMinutes) }
+      })
+      .filter(({ start, endWithBuffer }) =>
+        checkTimeOverlap(newStart, newEndWithBuffer, start, endWithBuffer)
+      )
+
+    if (overlapping.length === 0) {
       continue
     }
 
-    const existingStart = new Date(existing.date)
-
-    // Calculate the time difference in minutes between the two bookings
-    const timeDiffMinutes = Math.abs((newBookingStart.getTime() - existingStart.getTime()) / (1000 * 60))
-
-    // Check if bookings are too close (within buffer time)
-    // Buffer time = minimum minutes required between booking start times
-    if (timeDiffMinutes < bufferTimeMinutes) {
-      // Determine if it's the same time (double booking) or just too close (buffer violation)
-      if (timeDiffMinutes === 0) {
-        return {
-          hasConflict: true,
-          conflictType: 'double_booking',
-          conflictingBookingId: existing.id,
-          message: `This time slot is already booked at ${formatTime(existingStart)}`
-        }
-      } else {
-        return {
-          hasConflict: true,
-          conflictType: 'buffer_violation',
-          conflictingBookingId: existing.id,
-          message: `This booking is too close to an existing booking at ${formatTime(existingStart)}. Please allow at least ${bufferTimeMinutes} minutes between bookings.`
-        }
+    // Peak usage of this resource during the new booking.
+    // Venue-wide bookings (no resources) take up the whole capacity.
+    const capacity = getResourceCapacity(resourceId)
+    const usageOf = (o: typeof overlapping[number]) =>
+      o.booking.resourceIds && o.booking.resourceIds.length > 0 ? 1 : capacity
+    const checkpoints = [newStart, ...overlapping.map(o => o.start).filter(t => t > newStart && t < newEndWithBuffer)]
+    const peakUsage = Math.max(
+      ...checkpoints.map(point =>
+        overlapping
+          .filter(o => o.start <= point && point < o.endWithBuffer)
+          .reduce((sum, o) => sum + usageOf(o), 0)
+      )
+    )
+
+    if (peakUsage < capacity) {
+      continue
+    }
+
+    const first = overlapping.sort((a, b) => a.start.getTime() - b.start.getTime())[0]
+    const resourceName = resourceId === VENUE_RESOURCE ? 'This time slot' : getResourceName(resourceId)
+    const range = `${formatTime(first.start)} - ${formatTime(first.end)}`
+
+    if (first.start.getTime() === newStart.getTime()) {
+      return {
+        hasConflict: true,
+        conflictType: 'double_booking',
+        conflictingBookingId: first.booking.id,
+        resourceId: resourceId === VENUE_RESOURCE ? undefined : resourceId,
+        message: `${resourceName} is already booked at ${formatTime(first.start)}`
       }
     }
+
+    if (checkTimeOverlap(newStart, newEnd, first.start, first.end)) {
+      return {
+        hasConflict: true,
+        conflictType: 'overlap',
+        conflictingBookingId: first.booking.id,
+        resourceId: resourceId === VENUE_RESOURCE ? undefined : resourceId,
+        message: `${resourceName} is already booked from ${range}`
+      }
+    }
+
+    return {
+      hasConflict: true,
+      conflictType: 'buffer_violation',
+      conflictingBookingId: first.booking.id,
+      resourceId: resourceId === VENUE_RESOURCE ? undefined : resourceId,
+      message: `This booking is too close to an existing booking (${range}). Please allow at least ${bufferTimeMinutes} minutes between bookings.`
+    }
   }
 
   return {
@@ -101,11 +183,7 @@ function checkTimeOverlap(
   start2: Date,
   end2: Date
 ): boolean {
-  return (
-    (start1 >= start2 && start1 < end2) || // start1 is within range2
-    (end1 > start2 && end1 <= end2) ||     // end1 is within range2
-    (start1 <= start2 && end1 >= end2)     // range1 encompasses range2
-  )
+  return start1 < end2 && start2 < end1
 }
 
 /**
@@ -127,6 +205,7 @@ function formatTime(date: Date): string {
  * @param existingBookings - Array of existing bookings
  * @param numberOfSuggestions - How many alternatives to suggest (default: 3)
  * @param bufferTimeMinutes - Optional buffer time in minutes (defaults to BUFFER_TIME_MINUTES)
+ * @param resourceIds - Resources the booking occupies (empty = whole venue)
  * @returns Array of suggested Date objects
  */
 export function suggestAlternativeTimes(
@@ -134,7 +213,8 @@ export function suggestAlternativeTimes(
   duration: number,
   existingBookings: ExistingBooking[],
   numberOfSuggestions: number = 3,
-  bufferTimeMinutes: number = BUFFER_TIME_MINUTES
+  bufferTimeMinutes: number = BUFFER_TIME_MINUTES,
+  resourceIds: string[] = []
 ): Date[] {
   const suggestions: Date[] = []
   const baseDate = new Date(preferredDate)
@@ -145,7 +225,7 @@ export function suggestAlternativeTimes(
   const maxAttempts = 20 // Prevent infinite loops
 
   while (suggestions.length < numberOfSuggestions && attempts < maxAttempts) {
-    const conflict = checkBookingConflict(nextSlot, duration, existingBookings, undefined, bufferTimeMinutes)
+    const conflict = checkBookingConflict(nextSlot, duration, existingBookings, undefined, bufferTimeMinutes, resourceIds)
 
     if (!conflict.hasConflict) {
       suggestions.push(new Date(nextSlot))
@@ -157,7 +237,7 @@ export function suggestAlternativeTimes(
       if (conflictingBooking) {
         const conflictEnd = addMinutes(
           new Date(conflictingBooking.date),
-          conflictingBooking.duration || 120
+          conflictingBooking.duration || DEFAULT_DURATION_MINUTES
         )
         nextSlot = addMinutes(conflictEnd, bufferTimeMinutes)
       } else {
@@ -181,14 +261,16 @@ export function suggestAlternativeTimes(
  * @param startSearchFrom - Date to start searching from
  * @param duration - Booking duration in minutes
  * @param existingBookings - Array of existing bookings
+ * @param resourceIds - Resources the booking occupies (empty = whole venue)
  * @returns Next available Date or null if none found
  */
 export function getNextAvailableSlot(
   startSearchFrom: Date,
   duration: number,
-  existingBookings: ExistingBooking[]
+  existingBookings: ExistingBooking[],
+  resourceIds: string[] = []
 ): Date | null {
-  const suggestions = suggestAlternativeTimes(startSearchFrom, duration, existingBookings, 1)
+  const suggestions = suggestAlternativeTimes(startSearchFrom, duration, existingBookings, 1, BUFFER_TIME_MINUTES, resourceIds)
   return suggestions.length > 0 ? suggestions[0] : null
 }
 
@@ -231,6 +313,22 @@ export function isWithinBusinessHours(
   return hour >= businessHoursStart && hour < businessHoursEnd
 }
 
+/**
+ * Check if a customer may still cancel or reschedule a booking
+ *
+ * @param bookingDate - The booking date/time
+ * @param cutoffHours - Hours before the start when changes close
+ * @param now - Current time (defaults to now)
+ * @returns true if the booking starts more than cutoffHours from now
+ */
+export function isBeforeChangeCutoff(
+  bookingDate: Date,
+  cutoffHours: number = DEFAULT_CHANGE_CUTOFF_HOURS,
+  now: Date = new Date()
+): boolean {
+  return bookingDate.getTime() - now.getTime() > cutoffHours * 60 * 60 * 1000
+}
+
 /**
  * Get available slots for a specific day
  *
@@ -239,6 +337,8 @@ export function isWithinBusinessHours(
  * @param slotDuration - Duration of each slot in minutes (default: 120)
  * @param businessHoursStart - Start hour (default: 9)
  * @param businessHoursEnd - End hour (default: 20)
+ * @param resourceIds - Resources the booking occupies (empty = whole venue)
+ * @param bufferTimeMinutes - Optional buffer time in minutes (defaults to BUFFER_TIME_MINUTES)
  * @returns Array of available time slots
  */
 export function getAvailableSlots(
@@ -246,7 +346,9 @@ export function getAvailableSlots(
   existingBookings: ExistingBooking[],
   slotDuration: number = 120,
   businessHoursStart: number = 9,
-  businessHoursEnd: number = 20
+  businessHoursEnd: number = 20,
+  resourceIds: string[] = [],
+  bufferTimeMinutes: number = BUFFER_TIME_MINUTES
 ): Date[] {
   const availableSlots: Date[] = []
   const dayStart = new Date(date)
@@ -265,7 +367,10 @@ export function getAvailableSlots(
       const conflict = checkBookingConflict(
         currentSlot,
         slotDuration,
-        existingBookings
+        existingBookings,
+        undefined,
+        bufferTimeMinutes,
+        resourceIds
       )
 
       if (!conflict.hasConflict) {
@@ -279,3 +384,116 @@ export function getAvailableSlots(
 
   return availableSlots
 }
+
+/**
+ * Opening hours for a single day (value of the `hours.<weekday>` settings)
+ */
+export type DayHours = {
+  open: string // HH:MM
+  close: string // HH:MM
+  closed: boolean
+}
+
+/**
+ * A single start time in the availability grid
+ */
+export interface AvailabilitySlot {
+  time: string // HH:MM
+  available: boolean
+}
+
+/**
+ * Settings keys for opening hours, indexed by Date#getDay()
+ */
+export const BUSINESS_HOURS_KEYS = [
+  'hours.sunday',
+  'hours.monday',
+  'hours.tuesday',
+  'hours.wednesday',
+  'hours.thursday',
+  'hours.friday',
+  'hours.saturday',
+] as const
+
+export type BusinessHoursKey = typeof BUSINESS_HOURS_KEYS[number]
+
+/**
+ * Opening hours used when the `hours.*` settings have not been initialized
+ */
+export const DEFAULT_BUSINESS_HOURS: Record<BusinessHoursKey, DayHours> = {
+  'hours.monday': { open: '09:00', close: '21:00', closed: false },
+  'hours.tuesday': { open: '09:00', close: '21:00', closed: false },
+  'hours.wednesday': { open: '09:00', close: '21:00', closed: false },
+  'hours.thursday': { open: '09:00', close: '21:00', closed: false },
+  'hours.friday': { open: '09:00', close: '22:00', closed: false },
+  'hours.saturday': { open: '10:00', close: '22:00', closed: false },
+  'hours.sunday': { open: '10:00', close: '20:00', closed: false },
+}
+
+/**
+ * Convert HH:MM to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+/**
+ * Build the slot grid for a day
+ *
+ * Every 30-minute start time within opening hours is listed; a slot is
+ * available when a booking of the given duration fits before closing time
+ * and does not conflict with existing bookings on the same resources.
+ *
+ * @param date - The date to build the grid for
+ * @param existingBookings - Existing bookings for that day
+ * @param hours - Opening hours for that day
+ * @param slotDuration - Duration of the requested booking in minutes
+ * @param resourceIds - Resources the booking occupies (empty = whole venue)
+ * @param bufferTimeMinutes - Optional buffer time in minutes (defaults to BUFFER_TIME_MINUTES)
+ * @param notBefore - Optional earliest bookable moment (e.g. now), earlier slots are unavailable
+ * @returns Array of slots in chronological order (empty when closed)
+ */
+export function getSlotGrid(
+  date: Date,
+  existingBookings: ExistingBooking[],
+  hours: DayHours,
+  slotDuration: number,
+  resourceIds: string[] = [],
+  bufferTimeMinutes: number = BUFFER_TIME_MINUTES,
+  notBefore?: Date
+): AvailabilitySlot[] {
+  if (hours.closed) {
+    return []
+  }
+
+  const openMinutes = toMinutes(hours.open)
+  const closeMinutes = toMinutes(hours.close)
+  const openHour = Math.floor(openMinutes / 60)
+  const closeHour = Math.ceil(closeMinutes / 60)
+
+  const available = new Set(
+    getAvailableSlots(date, existingBookings, slotDuration, openHour, closeHour, resourceIds, bufferTimeMinutes)
+      .map(slot => slot.getHours() * 60 + slot.getMinutes())
+  )
+
+  const grid: AvailabilitySlot[] = []
+  const slot = new Date(date)
+
+  for (let start = openHour * 60; start < closeMinutes; start += 30) {
+    slot.setHours(Math.floor(start / 60), start % 60, 0, 0)
+    if (start < openMinutes || !isWithinBusinessHours(slot, openHour, closeHour)) {
+      continue
+    }
+
+    grid.push({
+      time: `${String(Math.floor(start / 60)).padStart(2, '0')}:${String(start % 60).padStart(2, '0')}`,
+      available:
+        available.has(start) &&
+        start + slotDuration <= closeMinutes &&
+        !(notBefore && slot < notBefore)
+    })
+  }
+
+  return grid
+}
@@ -0,0 +1,84 @@
+import { prisma } from './db'
+import { logger } from './logger'
+import { MAX_SMS_SEGMENTS, getSmsSegments, normalizePhoneNumber } from './sms'
+import { getSmsProvider } from './sms-providers'
+
+/**
+ * SMS Sending
+ *
+ * Sends SMS through the configured provider (see lib/sms-providers.ts) and
+ * records each one as an SmsMessage. The provider accepting a message marks
+ * it as sent; its status webhook later marks it as delivered or failed.
+ * Numbers that replied STOP get nothing until they reply START.
+ */
+
+export interface SendSmsOptions {
+  to: string
+  body: string
+  userId?: string | null
+  campaignId?: string | null
+  bookingId?: string | null
+  ignoreOptOut?: boolean // Only for confirming the opt-out itself
+}
+
+/**
+ * Send an SMS and record it
+ * @returns The SmsMessage ID, or an error when the message wasn't sent
+ */
+export async function sendSms(options: SendSmsOptions): Promise<{ success: boolean; id?: string; error?: string }> {
+  const to = normalizePhoneNumber(options.to)
+  if (!to) {
+    return { success: false, error: 'Invalid phone number' }
+  }
+
+  const { encoding, segments } = getSmsSegments(options.body)
+  if (segments === 0) {
+    return { success: false, error: 'Message is empty' }
+  }
+  if (segments > MAX_SMS_SEGMENTS) {
+    return { success: false, error: `Message is longer than ${MAX_SMS_SEGMENTS} SMS segments` }
+  }
+
+  if (!options.ignoreOptOut) {
+    const optOut = await prisma.smsOptOut.findUnique({ where: { phone: to } })
+    if (optOut) {
+      return { success: false, error: 'Recipient opted out of SMS' }
+    }
+  }
+
+  const provider = getSmsProvider()
+  const message = await prisma.smsMessage.create({
+    data: {
+      to,
+      body: options.body,
+      encoding,
+      segments,
+      provider: provider.name,
+      userId: options.userId,
+      campaignId: options.campaignId,
+      bookingId: options.bookingId,
+    },
+  })
+
+  try {
+    const { providerRef } = await provider.send({ to, body: options.body })
+
+    await prisma.smsMessage.update({
+      where: { id: message.id },
+      data: { status: 'SENT', providerRef, sentAt: new Date() },
+    })
+
+    logger.info('SMS sent', { smsId: message.id, segments })
+    return { success: true, id: message.id }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+
+    await prisma.smsMessage.update({
+      where: { id: message.id },
+      data: { status: 'FAILED', error: reason },
+    })
+
+    logger.error('Failed to send SMS', { smsId: message.id, error: reason })
+    return { success: false, id: message.id, error: reason }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for SMS Providers
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createConsoleSmsProvider, createFileSmsProvider, signSmsWebhookPayload } from './sms-providers'
+
+const secret = 'test-secret'
+
+describe('verifyWebhook', () => {
+  const provider = createConsoleSmsProvider(secret)
+
+  it('should accept signed status and inbound events', () => {
+    const status = JSON.stringify({ type: 'status', providerRef: 'console_1', status: 'DELIVERED' })
+    const inbound = JSON.stringify({ type: 'inbound', from: '+381641234567', body: 'STOP' })
+
+    expect(provider.verifyWebhook(status, signSmsWebhookPayload(status, secret)))
+      .toEqual({ type: 'status', providerRef: 'console_1', status: 'DELIVERED', error: undefined })
+    expect(provider.verifyWebhook(inbound, signSmsWebhookPayload(inbound, secret)))
+      .toEqual({ type: 'inbound', from: '+381641234567', body: 'STOP' })
+  })
+
+  it('should reject unsigned, tampered and malformed events', () => {
+    const payload = JSON.stringify({ type: 'status', providerRef: 'console_1', status: 'DELIVERED' })
+    const invalid = JSON.stringify({ type: 'status', providerRef: 'console_1', status: 'READ' })
+
+    expect(provider.verifyWebhook(payload, null)).toBeNull()
+    expect(provider.verifyWebhook(payload, signSmsWebhookPayload(payload, 'other-secret'))).toBeNull()
+    expect(provider.verifyWebhook(payload.replace('console_1', 'console_2'), signSmsWebhookPayload(payload, secret))).toBeNull()
+    expect(provider.verifyWebhook(invalid, signSmsWebhookPayload(invalid, secret))).toBeNull()
+    expect(provider.verifyWebhook('not json', signSmsWebhookPayload('not json', secret))).toBeNull()
+  })
+})
+
+describe('createFileSmsProvider', () => {
+  let dir: string | undefined
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+      dir = undefined
+    }
+  })
+
+  it('should append each message to the outbox file', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sms-'))
+    const path = join(dir, 'outbox.log')
+    const provider = createFileSmsProvider(path, secret)
+
+    const first = await provider.send({ to: '+381641234567', body: 'Hello' })
+    await provider.send({ to: '+381657654321', body: 'Zdravo' })
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line))
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatchObject({ providerRef: first.providerRef, to: '+381641234567', body: 'Hello' })
+    expect(first.providerRef).toMatch(/^file_/)
+  })
+})
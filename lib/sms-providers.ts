@@ -0,0 +1,174 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { appendFile } from 'fs/promises'
+import { logger } from './logger'
+
+/**
+ * SMS Providers
+ *
+ * Providers send a message and later report what became of it, and pass on
+ * replies, through a signed webhook (see app/api/sms/webhook/route.ts).
+ * Only local providers ship for now: one that logs messages and one that
+ * appends them to a file, for development and tests.
+ */
+
+/**
+ * Message handed to a provider
+ */
+export interface OutgoingSms {
+  to: string // E.164
+  body: string
+}
+
+/**
+ * Verified event reported by a provider webhook
+ */
+export type SmsEvent =
+  | { type: 'status'; providerRef: string; status: 'DELIVERED' | 'FAILED'; error?: string }
+  | { type: 'inbound'; from: string; body: string }
+
+/**
+ * SMS provider interface
+ */
+export interface SmsProvider {
+  name: string
+  /**
+   * Hand a message to the provider
+   * @returns The provider's ID for the message, echoed back in status events
+   * @throws Error when the provider refuses the message
+   */
+  send(message: OutgoingSms): Promise<{ providerRef: string }>
+  /**
+   * Verify a webhook request body and signature
+   * @returns The event, or null when the signature or payload is invalid
+   */
+  verifyWebhook(payload: string, signature: string | null): SmsEvent | null
+}
+
+/**
+ * Sign a webhook payload with HMAC-SHA256
+ */
+export function signSmsWebhookPayload(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+/**
+ * Verify a webhook signed with signSmsWebhookPayload and parse its event
+ */
+function verifyLocalWebhook(payload: string, signature: string | null, secret: string): SmsEvent | null {
+  if (!signature) {
+    return null
+  }
+
+  const expected = Buffer.from(signSmsWebhookPayload(payload, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  try {
+    const event = JSON.parse(payload)
+
+    if (
+      event.type === 'status' &&
+      typeof event.providerRef === 'string' &&
+      (event.status === 'DELIVERED' || event.status === 'FAILED')
+    ) {
+      return {
+        type: 'status',
+        providerRef: event.providerRef,
+        status: event.status,
+        error: typeof event.error === 'string' ? event.error : undefined,
+      }
+    }
+
+    if (event.type === 'inbound' && typeof event.from === 'string' && typeof event.body === 'string') {
+      return { type: 'inbound', from: event.from, body: event.body }
+    }
+
+    return null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Local provider that logs messages instead of sending them
+ */
+export function createConsoleSmsProvider(secret: string): SmsProvider {
+  return {
+    name: 'console',
+
+    async send(message) {
+      const providerRef = `console_${randomBytes(12).toString('hex')}`
+      logger.info('SMS (console provider)', { to: message.to, body: message.body, providerRef })
+      return { providerRef }
+    },
+
+    verifyWebhook: (payload, signature) => verifyLocalWebhook(payload, signature, secret),
+  }
+}
+
+/**
+ * Local provider that appends messages to a file, one JSON object per line
+ */
+export function createFileSmsProvider(path: string, secret: string): SmsProvider {
+  return {
+    name: 'file',
+
+    async send(message) {
+      const providerRef = `file_${randomBytes(12).toString('hex')}`
+      const line = JSON.stringify({ providerRef, ...message, sentAt: new Date().toISOString() })
+      await appendFile(path, `${line}\n`, 'utf8')
+      return { providerRef }
+    },
+
+    verifyWebhook: (payload, signature) => verifyLocalWebhook(payload, signature, secret),
+  }
+}
+
+/**
+ * Secret used by the local providers when SMS_WEBHOOK_SECRET is not set
+ */
+const LOCAL_WEBHOOK_SECRET = 'local-sms-webhook-secret'
+
+/**
+ * Secret shared with the provider for webhook signatures
+ */
+export function getSmsWebhookSecret(): string {
+  return process.env.SMS_WEBHOOK_SECRET || LOCAL_WEBHOOK_SECRET
+}
+
+let smsProvider: SmsProvider | null = null
+
+/**
+ * Use a provider in place of the configured one, or null to go back to it
+ */
+export function setSmsProvider(provider: SmsProvider | null) {
+  smsProvider = provider
+}
+
+/**
+ * Get the configured SMS provider
+ *
+ * Selected with SMS_PROVIDER (default: console). The file provider writes
+ * to SMS_OUTBOX_FILE (default: sms-outbox.log).
+ *
+ * @throws Error when SMS_PROVIDER names an unknown provider
+ */
+export function getSmsProvider(): SmsProvider {
+  if (smsProvider) {
+    return smsProvider
+  }
+
+  const name = process.env.SMS_PROVIDER || 'console'
+
+  if (name === 'console') {
+    return createConsoleSmsProvider(getSmsWebhookSecret())
+  }
+
+  if (name === 'file') {
+    return createFileSmsProvider(process.env.SMS_OUTBOX_FILE || 'sms-outbox.log', getSmsWebhookSecret())
+  }
+
+  throw new Error(`Unknown SMS provider: ${name}`)
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for SMS Utilities
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  SMS_OPT_OUT_FOOTER,
+  formatMarketingSms,
+  getSmsSegments,
+  normalizePhoneNumber,
+  parseSmsKeyword,
+} from './sms'
+
+describe('getSmsSegments', () => {
+  it('should fit 160 GSM characters in one segment', () => {
+    expect(getSmsSegments('a'.repeat(160))).toEqual({ encoding: 'GSM-7', characters: 160, segments: 1 })
+    expect(getSmsSegments('a'.repeat(161))).toEqual({ encoding: 'GSM-7', characters: 161, segments: 2 })
+    expect(getSmsSegments('a'.repeat(306)).segments).toBe(2)
+    expect(getSmsSegments('a'.repeat(307)).segments).toBe(3)
+  })
+
+  it('should count extension characters twice', () => {
+    expect(getSmsSegments('Price: 10€ [kids]')).toEqual({ encoding: 'GSM-7', characters: 20, segments: 1 })
+    expect(getSmsSegments('€'.repeat(81)).segments).toBe(2)
+  })
+
+  it('should fall back to UCS-2 for other characters', () => {
+    expect(getSmsSegments('Vidimo se u četvrtak!')).toEqual({ encoding: 'UCS-2', characters: 21, segments: 1 })
+    expect(getSmsSegments('č'.repeat(70)).segments).toBe(1)
+    expect(getSmsSegments('č'.repeat(71)).segments).toBe(2)
+    expect(getSmsSegments('🎉').characters).toBe(2)
+  })
+
+  it('should count no segments for an empty message', () => {
+    expect(getSmsSegments('').segments).toBe(0)
+  })
+})
+
+describe('formatMarketingSms', () => {
+  it('should add the opt-out footer', () => {
+    expect(formatMarketingSms(' Summer camp starts Monday! ')).toBe(`Summer camp starts Monday!\n${SMS_OPT_OUT_FOOTER}`)
+  })
+})
+
+describe('normalizePhoneNumber', () => {
+  it('should normalize national and international numbers', () => {
+    expect(normalizePhoneNumber('064 123 4567')).toBe('+381641234567')
+    expect(normalizePhoneNumber('+381 (64) 123-4567')).toBe('+381641234567')
+    expect(normalizePhoneNumber('00381641234567')).toBe('+381641234567')
+    expect(normalizePhoneNumber('381641234567')).toBe('+381641234567')
+    expect(normalizePhoneNumber('0301234567', '49')).toBe('+49301234567')
+  })
+
+  it('should reject what cannot be a phone number', () => {
+    expect(normalizePhoneNumber('')).toBeNull()
+    expect(normalizePhoneNumber('12345')).toBeNull()
+    expect(normalizePhoneNumber('call me')).toBeNull()
+  })
+})
+
+describe('parseSmsKeyword', () => {
+  it('should recognize opt-out, opt-in and help keywords', () => {
+    expect(parseSmsKeyword('STOP')).toBe('STOP')
+    expect(parseSmsKeyword(' unsubscribe. ')).toBe('STOP')
+    expect(parseSmsKeyword('Start')).toBe('START')
+    expect(parseSmsKeyword('help!')).toBe('HELP')
+  })
+
+  it('should ignore keywords within other messages', () => {
+    expect(parseSmsKeyword('please stop by tomorrow')).toBeNull()
+    expect(parseSmsKeyword('Thanks!')).toBeNull()
+  })
+})
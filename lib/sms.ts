@@ -0,0 +1,137 @@
+/**
+ * SMS Utilities
+ *
+ * Message length and segment calculation, phone number normalization and
+ * keyword handling for SMS. Safe to use in client components; sending lives
+ * in lib/sms-messages.ts.
+ */
+
+/**
+ * GSM 03.38 basic character set: one 7-bit character each
+ */
+const GSM_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+)
+
+/**
+ * GSM 03.38 extension table: sent with an escape, so two characters each
+ */
+const GSM_EXTENSION_CHARACTERS = new Set('^{}\\[~]|€\f')
+
+/**
+ * Longest message sent, in segments; longer ones are refused
+ */
+export const MAX_SMS_SEGMENTS = 3
+
+/**
+ * Appended to marketing SMS, as carriers require
+ */
+export const SMS_OPT_OUT_FOOTER = 'Reply STOP to opt out'
+
+/**
+ * Replies that opt a number out of or back in to SMS, or ask for help
+ * (the common carrier keywords)
+ */
+const SMS_KEYWORDS: Record<string, 'STOP' | 'START' | 'HELP'> = {
+  STOP: 'STOP',
+  STOPALL: 'STOP',
+  UNSUBSCRIBE: 'STOP',
+  CANCEL: 'STOP',
+  END: 'STOP',
+  QUIT: 'STOP',
+  OPTOUT: 'STOP',
+  START: 'START',
+  UNSTOP: 'START',
+  YES: 'START',
+  HELP: 'HELP',
+  INFO: 'HELP',
+}
+
+export interface SmsSegments {
+  encoding: 'GSM-7' | 'UCS-2'
+  characters: number // Length in the encoding's characters
+  segments: number
+}
+
+/**
+ * Calculate how many segments a message is sent as
+ *
+ * Messages using only the GSM character set fit 160 characters in one
+ * segment and 153 per segment when split; anything else is sent as UCS-2,
+ * with 70 and 67. Splitting is estimated: carriers keep escape sequences
+ * and surrogate pairs whole, which can occasionally add a segment.
+ *
+ * @example getSmsSegments('See you at 5pm!') => { encoding: 'GSM-7', characters: 15, segments: 1 }
+ */
+export function getSmsSegments(body: string): SmsSegments {
+  let gsmCharacters = 0
+  let isGsm = true
+
+  for (const character of body) {
+    if (GSM_BASIC_CHARACTERS.has(character)) {
+      gsmCharacters += 1
+    } else if (GSM_EXTENSION_CHARACTERS.has(character)) {
+      gsmCharacters += 2
+    } else {
+      isGsm = false
+      break
+    }
+  }
+
+  const characters = isGsm ? gsmCharacters : body.length // UCS-2 counts UTF-16 code units
+  const single = isGsm ? 160 : 70
+  const multipart = isGsm ? 153 : 67
+
+  return {
+    encoding: isGsm ? 'GSM-7' : 'UCS-2',
+    characters,
+    segments: characters === 0 ? 0 : characters <= single ? 1 : Math.ceil(characters / multipart),
+  }
+}
+
+/**
+ * Add the opt-out footer to a marketing message
+ */
+export function formatMarketingSms(content: string): string {
+  return `${content.trim()}\n${SMS_OPT_OUT_FOOTER}`
+}
+
+/**
+ * Normalize a phone number to E.164
+ *
+ * Numbers starting with 0 are national numbers of the default country;
+ * others must include their country code, with or without + or 00.
+ *
+ * @example normalizePhoneNumber('064 123 4567') => '+381641234567'
+ * @returns The number, or null when it can't be a phone number
+ */
+export function normalizePhoneNumber(phone: string, defaultCountryCode: string = '381'): string | null {
+  const compact = phone.trim().replace(/[\s\-()./]/g, '')
+
+  let normalized: string
+  if (compact.startsWith('+')) {
+    normalized = compact
+  } else if (compact.startsWith('00')) {
+    normalized = `+${compact.slice(2)}`
+  } else if (compact.startsWith('0')) {
+    normalized = `+${defaultCountryCode}${compact.slice(1)}`
+  } else {
+    normalized = `+${compact}`
+  }
+
+  return /^\+[1-9]\d{7,14}$/.test(normalized) ? normalized : null
+}
+
+/**
+ * Recognize a keyword reply
+ *
+ * Only whole-message keywords count, so "please stop by tomorrow" isn't an
+ * opt-out.
+ *
+ * @example parseSmsKeyword(' Stop. ') => 'STOP'
+ */
+export function parseSmsKeyword(body: string): 'STOP' | 'START' | 'HELP' | null {
+  const word = body.trim().replace(/[.!]+$/, '').toUpperCase()
+  return SMS_KEYWORDS[word] ?? null
+}
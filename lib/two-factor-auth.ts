@@ -0,0 +1,145 @@
+import { cookies } from 'next/headers'
+import { prisma } from './db'
+import { logger } from './logger'
+import { logAudit } from './audit'
+import {
+  TRUSTED_DEVICE_COOKIE,
+  TRUSTED_DEVICE_TTL_DAYS,
+  createTrustedDeviceToken,
+  decryptTwoFactorSecret,
+  getTwoFactorEncryptionKey,
+  hashRecoveryCode,
+  hashTrustedDeviceToken,
+  isTotpCode,
+  verifyTotp,
+} from './two-factor'
+
+/**
+ * Two-Factor Verification
+ *
+ * Checks codes and trusted devices against the database (see
+ * lib/two-factor.ts for the codes themselves). Called from the jwt callback
+ * in lib/auth.ts, which marks the session verified, and from the two-factor
+ * server actions.
+ */
+
+/**
+ * Check a code a user entered
+ *
+ * A TOTP code is accepted once; the first one accepted after enrollment
+ * starts turns two-factor authentication on. A recovery code is accepted
+ * once, and only when it is on.
+ *
+ * @returns Whether the code was accepted
+ */
+export async function verifyTwoFactorCode(userId: string, code: string, now: Date = new Date()): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorSecret: true, twoFactorEnabledAt: true, twoFactorLastUsedStep: true },
+  })
+
+  if (!user?.twoFactorSecret) {
+    return false
+  }
+
+  if (isTotpCode(code)) {
+    const secret = decryptTwoFactorSecret(user.twoFactorSecret, getTwoFactorEncryptionKey())
+    if (!secret) {
+      logger.warn('Two-factor secret could not be decrypted', { userId })
+      return false
+    }
+
+    const step = verifyTotp(secret, code, now, user.twoFactorLastUsedStep)
+    if (step === null) {
+      return false
+    }
+
+    // Claim the step, so the same code can't be used twice even concurrently
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: {
+        twoFactorLastUsedStep: step,
+        ...(user.twoFactorEnabledAt ? {} : { twoFactorEnabledAt: now }),
+      },
+    })
+    if (count === 0) {
+      return false
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      await logAudit({
+        userId,
+        action: 'UPDATE',
+        entity: 'User',
+        entityId: userId,
+        changes: { twoFactor: 'enabled' },
+      })
+      logger.info('Two-factor authentication enabled', { userId })
+    }
+
+    return true
+  }
+
+  if (!user.twoFactorEnabledAt) {
+    return false
+  }
+
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: now },
+  })
+  if (count === 0) {
+    return false
+  }
+
+  const remaining = await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+  await logAudit({
+    userId,
+    action: 'UPDATE',
+    entity: 'User',
+    entityId: userId,
+    changes: { twoFactor: 'recovery code used', recoveryCodesRemaining: remaining },
+  })
+
+  return true
+}
+
+/**
+ * Whether this browser was remembered for the user (see trustCurrentDevice)
+ */
+export async function isTrustedDevice(userId: string, now: Date = new Date()): Promise<boolean> {
+  const token = (await cookies()).get(TRUSTED_DEVICE_COOKIE)?.value
+  if (!token) {
+    return false
+  }
+
+  const { count } = await prisma.trustedDevice.updateMany({
+    where: { userId, tokenHash: hashTrustedDeviceToken(token), expiresAt: { gt: now } },
+    data: { lastUsedAt: now },
+  })
+
+  return count > 0
+}
+
+/**
+ * Remember this browser, so the user's next sign-ins on it skip the prompt
+ */
+export async function trustCurrentDevice(userId: string, userAgent: string | null, now: Date = new Date()) {
+  const { token, tokenHash, expiresAt } = createTrustedDeviceToken(now)
+  const cookieStore = await cookies()
+
+  await prisma.trustedDevice.create({
+    data: { userId, tokenHash, userAgent: userAgent?.slice(0, 255) || null, expiresAt },
+  })
+
+  cookieStore.set(TRUSTED_DEVICE_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: TRUSTED_DEVICE_TTL_DAYS * 24 * 60 * 60,
+  })
+}
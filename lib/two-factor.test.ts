@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Two-Factor Authentication
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  RECOVERY_CODE_COUNT,
+  TRUSTED_DEVICE_TTL_DAYS,
+  base32Decode,
+  base32Encode,
+  createTrustedDeviceToken,
+  decryptTwoFactorSecret,
+  encryptTwoFactorSecret,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTwoFactorSecret,
+  getTotpAuthUri,
+  getTotpStep,
+  getTwoFactorStatus,
+  hashRecoveryCode,
+  hashTrustedDeviceToken,
+  verifyTotp,
+} from './two-factor'
+
+// RFC 6238 test secret: the ASCII string "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+const at = (seconds: number) => new Date(seconds * 1000)
+
+describe('base32', () => {
+  it('should round-trip bytes', () => {
+    const bytes = Buffer.from('12345678901234567890')
+
+    expect(base32Encode(bytes)).toBe(RFC_SECRET)
+    expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true)
+  })
+
+  it('should ignore case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv====').equals(base32Decode('GEZDGNBV'))).toBe(true)
+  })
+
+  it('should reject characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('generateTotp', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(at(59)))).toBe('287082')
+    expect(generateTotp(RFC_SECRET, getTotpStep(at(1111111109)))).toBe('081804')
+    expect(generateTotp(RFC_SECRET, getTotpStep(at(1111111111)))).toBe('050471')
+    expect(generateTotp(RFC_SECRET, getTotpStep(at(1234567890)))).toBe('005924')
+    expect(generateTotp(RFC_SECRET, getTotpStep(at(2000000000)))).toBe('279037')
+  })
+
+  it('should work with generated secrets', () => {
+    const secret = generateTwoFactorSecret()
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(generateTotp(secret)).toMatch(/^\d{6}$/)
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = at(1111111111)
+  const step = getTotpStep(now)
+
+  it('should accept the current code and return its step', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', now)).toBe(step)
+    expect(verifyTotp(RFC_SECRET, '050 471', now)).toBe(step)
+  })
+
+  it('should accept codes one step either side for clock drift', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now)).toBeNull()
+  })
+
+  it('should refuse a code that was already used', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', now, step)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now, step)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '050471', now, step - 1)).toBe(step)
+  })
+
+  it('should refuse malformed and wrong codes', () => {
+    expect(verifyTotp(RFC_SECRET, '123456', now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '05047', now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull()
+  })
+})
+
+describe('getTotpAuthUri', () => {
+  it('should build an otpauth URI naming the site and the account', () => {
+    const uri = getTotpAuthUri(RFC_SECRET, 'ana@example.com')
+    const params = new URLSearchParams(uri.split('?')[1])
+
+    expect(uri.startsWith('otpauth://totp/Xplorium:ana%40example.com?')).toBe(true)
+    expect(params.get('secret')).toBe(RFC_SECRET)
+    expect(params.get('issuer')).toBe('Xplorium')
+    expect(params.get('digits')).toBe('6')
+    expect(params.get('period')).toBe('30')
+  })
+})
+
+describe('secret encryption', () => {
+  it('should decrypt what it encrypted', () => {
+    const stored = encryptTwoFactorSecret(RFC_SECRET, 'key')
+
+    expect(stored).not.toContain(RFC_SECRET)
+    expect(decryptTwoFactorSecret(stored, 'key')).toBe(RFC_SECRET)
+  })
+
+  it('should use a fresh IV each time', () => {
+    expect(encryptTwoFactorSecret(RFC_SECRET, 'key')).not.toBe(encryptTwoFactorSecret(RFC_SECRET, 'key'))
+  })
+
+  it('should not decrypt with another key or after tampering', () => {
+    const stored = encryptTwoFactorSecret(RFC_SECRET, 'key')
+    const [iv, tag, ciphertext] = stored.split('.')
+    const tampered = `${iv}.${tag}.${ciphertext.startsWith('A') ? 'B' : 'A'}${ciphertext.slice(1)}`
+
+    expect(decryptTwoFactorSecret(stored, 'other-key')).toBeNull()
+    expect(decryptTwoFactorSecret(tampered, 'key')).toBeNull()
+    expect(decryptTwoFactorSecret('not-encrypted', 'key')).toBeNull()
+  })
+})
+
+describe('recovery codes', () => {
+  it('should create distinct codes', () => {
+    const codes = generateRecoveryCodes()
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT)
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT)
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/))
+  })
+
+  it('should hash codes however they are typed', () => {
+    expect(hashRecoveryCode('4F9A2 C71BE')).toBe(hashRecoveryCode('4f9a2-c71be'))
+    expect(hashRecoveryCode('4f9a2-c71be')).not.toBe(hashRecoveryCode('4f9a2-c71bf'))
+  })
+})
+
+describe('createTrustedDeviceToken', () => {
+  it('should store only the hash and expire after the trust period', () => {
+    const now = new Date('2026-10-19T10:00:00Z')
+    const { token, tokenHash, expiresAt } = createTrustedDeviceToken(now)
+
+    expect(token).toMatch(/^[\w-]{43}$/)
+    expect(tokenHash).toBe(hashTrustedDeviceToken(token))
+    expect(expiresAt.getTime() - now.getTime()).toBe(TRUSTED_DEVICE_TTL_DAYS * 24 * 60 * 60 * 1000)
+  })
+})
+
+describe('getTwoFactorStatus', () => {
+  it('should ask enrolled users for a code until the session enters one', () => {
+    expect(getTwoFactorStatus({ enabled: true, verified: false, required: false })).toBe('pending')
+    expect(getTwoFactorStatus({ enabled: true, verified: true, required: true })).toBe('verified')
+  })
+
+  it('should require enrollment only when the policy applies', () => {
+    expect(getTwoFactorStatus({ enabled: false, verified: false, required: true })).toBe('setup-required')
+    expect(getTwoFactorStatus({ enabled: false, verified: false, required: false })).toBe('off')
+    expect(getTwoFactorStatus({ enabled: false, verified: true, required: false })).toBe('off')
+  })
+})
@@ -0,0 +1,310 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { addDays } from 'date-fns'
+
+/**
+ * Two-Factor Authentication
+ *
+ * Admins confirm sign-ins with a time-based one-time password (TOTP,
+ * RFC 6238) from an authenticator app, or with a single-use recovery code.
+ * The shared secret is stored encrypted with AES-256-GCM; recovery codes
+ * and "remember this device" tokens are random enough that storing their
+ * SHA-256 hash is safe.
+ *
+ * A session records whether it passed the prompt (see the jwt callback in
+ * lib/auth.ts), and middleware.ts keeps sessions that haven't out of /admin.
+ */
+
+/**
+ * Seconds each code is valid for
+ */
+export const TOTP_PERIOD_SECONDS = 30
+
+/**
+ * Digits in each code
+ */
+export const TOTP_DIGITS = 6
+
+/**
+ * Codes accepted either side of the current one, for clock drift
+ */
+const TOTP_WINDOW = 1
+
+/**
+ * Recovery codes issued at a time
+ */
+export const RECOVERY_CODE_COUNT = 10
+
+/**
+ * How long "remember this device" skips the prompt
+ */
+export const TRUSTED_DEVICE_TTL_DAYS = 30
+
+/**
+ * Cookie holding the "remember this device" token
+ */
+export const TRUSTED_DEVICE_COOKIE = 'xplorium.trusted-device'
+
+/**
+ * Where a session stands with two-factor authentication
+ * - off: not enabled and not required
+ * - pending: enabled, and this session hasn't entered a code yet
+ * - verified: enabled, and this session entered a code
+ * - setup-required: the admin policy requires it, and it isn't enabled
+ */
+export type TwoFactorStatus = 'off' | 'pending' | 'verified' | 'setup-required'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648), the format authenticator apps expect
+ */
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * @throws Error if the input has characters outside the alphabet
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Create a TOTP secret (160 bits, as RFC 4226 recommends)
+ */
+export function generateTwoFactorSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+/**
+ * Time step a moment falls in
+ */
+export function getTotpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * Code for a time step (HOTP with HMAC-SHA1, RFC 4226)
+ */
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Check a code against the current time step and its neighbours
+ *
+ * @param lastUsedStep - Step of the last accepted code; it and earlier steps
+ * are refused so a code can't be replayed
+ * @returns The step the code belongs to, or null if it doesn't match
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+  lastUsedStep: number | null = null
+): number | null {
+  if (!isTotpCode(code)) {
+    return null
+  }
+
+  const normalized = code.replace(/\s/g, '')
+  const current = getTotpStep(now)
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue
+    }
+    const expected = Buffer.from(generateTotp(secret, step))
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether input looks like a TOTP code rather than a recovery code
+ */
+export function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code.replace(/\s/g, ''))
+}
+
+/**
+ * otpauth:// URI for authenticator apps, shown as a QR code when enrolling
+ *
+ * @example getTotpAuthUri('JBSW...', 'ana@example.com') => 'otpauth://totp/Xplorium:ana%40example.com?secret=JBSW...'
+ */
+export function getTotpAuthUri(secret: string, accountName: string, issuer = 'Xplorium'): string {
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}?${params}`
+}
+
+/**
+ * Key for encrypting TOTP secrets
+ * TWO_FACTOR_ENCRYPTION_KEY, falling back to AUTH_SECRET. Changing it makes
+ * enrolled admins enroll again.
+ */
+export function getTwoFactorEncryptionKey(): string {
+  const key = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.AUTH_SECRET
+  if (!key) {
+    throw new Error('Two-factor encryption key is not configured')
+  }
+  return key
+}
+
+const deriveKey = (key: string) => createHash('sha256').update(key).digest()
+
+/**
+ * Encrypt a TOTP secret for storage
+ * @returns `iv.tag.ciphertext`, each base64url
+ */
+export function encryptTwoFactorSecret(secret: string, key: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(key), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+}
+
+/**
+ * Decrypt a stored TOTP secret
+ * @returns The secret, or null if it was tampered with or the key changed
+ */
+export function decryptTwoFactorSecret(stored: string, key: string): string | null {
+  const [iv, tag, ciphertext, ...rest] = stored.split('.')
+  if (!iv || !tag || !ciphertext || rest.length > 0) {
+    return null
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(key), Buffer.from(iv, 'base64url'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Normalize a recovery code as typed: case, spaces and dashes don't matter
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '')
+}
+
+/**
+ * Hash a recovery code for storage and lookup
+ */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/**
+ * Create a set of recovery codes
+ * @example generateRecoveryCodes() => ['4f9a2-c71be', ...]
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+}
+
+/**
+ * Hash a "remember this device" token for storage and lookup
+ */
+export function hashTrustedDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Create a "remember this device" token
+ * @returns The token for the cookie and the hash and expiry to store
+ */
+export function createTrustedDeviceToken(now: Date = new Date()) {
+  const token = randomBytes(32).toString('base64url')
+
+  return {
+    token,
+    tokenHash: hashTrustedDeviceToken(token),
+    expiresAt: addDays(now, TRUSTED_DEVICE_TTL_DAYS),
+  }
+}
+
+/**
+ * Where a session stands with two-factor authentication
+ *
+ * @param enabled - The user has confirmed enrollment
+ * @param verified - This session entered a code or came from a trusted device
+ * @param required - The admin policy applies to the user
+ */
+export function getTwoFactorStatus({
+  enabled,
+  verified,
+  required,
+}: {
+  enabled: boolean
+  verified: boolean
+  required: boolean
+}): TwoFactorStatus {
+  if (enabled) {
+    return verified ? 'verified' : 'pending'
+  }
+  return required ? 'setup-required' : 'off'
+}
+
+/**
+ * Whether a session has to go through the two-factor prompt or enrollment
+ * before it can use admin pages and actions
+ */
+export function isTwoFactorBlocking(status: TwoFactorStatus | undefined): boolean {
+  return status === 'pending' || status === 'setup-required'
+}
@@ -0,0 +1,104 @@
+import { headers } from 'next/headers'
+import { prisma } from './db'
+import { getClientIp } from './rate-limit'
+import { getSessionExpiry, isSessionActive, shouldTouchSession } from './user-sessions'
+
+/**
+ * Session Registry Storage
+ *
+ * Reads and writes UserSession rows (see lib/user-sessions.ts). Called from
+ * the jwt callback in lib/auth.ts, which records sign-ins and checks the
+ * session whenever it's read, and from the actions that sign users out.
+ */
+
+/**
+ * Record a new sign-in from the current request
+ * @returns The session id, kept in the JWT
+ */
+export async function createUserSession(userId: string, now: Date = new Date()): Promise<string> {
+  let userAgent: string | null = null
+  let ipAddress: string | null = null
+
+  // Not every caller has a request to read
+  try {
+    const headersList = await headers()
+    userAgent = headersList.get('user-agent')?.slice(0, 512) || null
+    const ip = getClientIp(headersList)
+    ipAddress = ip === 'unknown' ? null : ip
+  } catch {
+    // Record the session without them
+  }
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      userAgent,
+      ipAddress,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: getSessionExpiry(now),
+    },
+    select: { id: true },
+  })
+
+  return session.id
+}
+
+/**
+ * Check that a session can still be used, and note that it was seen
+ * The last-seen time is written at most every few minutes.
+ * @returns Whether the session belongs to the user and hasn't ended
+ */
+export async function checkUserSession(sessionId: string, userId: string, now: Date = new Date()): Promise<boolean> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true, lastSeenAt: true },
+  })
+
+  if (!session || session.userId !== userId || !isSessionActive(session, now)) {
+    return false
+  }
+
+  if (shouldTouchSession(session.lastSeenAt, now)) {
+    await prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { lastSeenAt: now, expiresAt: getSessionExpiry(now) },
+    })
+  }
+
+  return true
+}
+
+/**
+ * End one session
+ * @param revokedBy - Who ended it; null when its user signed out
+ * @returns Whether an active session was ended
+ */
+export async function revokeUserSession(sessionId: string, revokedBy: string | null): Promise<boolean> {
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedBy },
+  })
+  return count > 0
+}
+
+/**
+ * End every session a user has, optionally keeping one
+ * @param revokedBy - Who ended them
+ * @returns How many sessions were ended
+ */
+export async function revokeUserSessions(
+  userId: string,
+  revokedBy: string | null,
+  { exceptSessionId }: { exceptSessionId?: string } = {}
+): Promise<number> {
+  const { count } = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedBy },
+  })
+  return count
+}
@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for the Session Registry
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  SESSION_MAX_AGE_SECONDS,
+  SESSION_RETENTION_DAYS,
+  SESSION_TOUCH_INTERVAL_MS,
+  describeUserAgent,
+  getSessionExpiry,
+  getSessionRetentionCutoff,
+  isSessionActive,
+  shouldTouchSession,
+} from './user-sessions'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+describe('getSessionExpiry', () => {
+  it('should expire after the session max age', () => {
+    expect(getSessionExpiry(now).getTime() - now.getTime()).toBe(SESSION_MAX_AGE_SECONDS * 1000)
+  })
+})
+
+describe('isSessionActive', () => {
+  it('should accept an unrevoked, unexpired session', () => {
+    expect(isSessionActive({ revokedAt: null, expiresAt: getSessionExpiry(now) }, now)).toBe(true)
+  })
+
+  it('should reject a revoked session', () => {
+    expect(isSessionActive({ revokedAt: now, expiresAt: getSessionExpiry(now) }, now)).toBe(false)
+  })
+
+  it('should reject an expired session', () => {
+    expect(isSessionActive({ revokedAt: null, expiresAt: now }, now)).toBe(false)
+  })
+})
+
+describe('shouldTouchSession', () => {
+  it('should wait for the touch interval', () => {
+    const recent = new Date(now.getTime() - SESSION_TOUCH_INTERVAL_MS + 1000)
+    const stale = new Date(now.getTime() - SESSION_TOUCH_INTERVAL_MS)
+
+    expect(shouldTouchSession(recent, now)).toBe(false)
+    expect(shouldTouchSession(stale, now)).toBe(true)
+  })
+})
+
+describe('getSessionRetentionCutoff', () => {
+  it('should go back the retention period', () => {
+    const cutoff = getSessionRetentionCutoff(now)
+    expect(now.getTime() - cutoff.getTime()).toBe(SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  })
+})
+
+describe('describeUserAgent', () => {
+  it('should name common browsers and systems', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    )).toBe('Chrome on Windows')
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15'
+    )).toBe('Safari on macOS')
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iOS')
+    expect(describeUserAgent(
+      'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0'
+    )).toBe('Firefox on Linux')
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+    )).toBe('Chrome on Android')
+  })
+
+  it('should tell Edge from Chrome', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+    )).toBe('Edge on Windows')
+  })
+
+  it('should fall back when the browser is not recognised', () => {
+    expect(describeUserAgent('curl/8.4.0')).toBe('Unknown device')
+    expect(describeUserAgent(null)).toBe('Unknown device')
+  })
+})
@@ -0,0 +1,94 @@
+import { addDays } from 'date-fns'
+
+/**
+ * Session Registry
+ *
+ * Every sign-in gets a UserSession row recording the browser, IP address
+ * and when it was last seen; its id travels in the session's JWT. The jwt
+ * callback in lib/auth.ts checks the row whenever the session is read, so
+ * revoking it (or blocking the user) signs that browser out straight away
+ * rather than when the JWT expires. Database access is in lib/user-session-registry.ts.
+ */
+
+/**
+ * How long a session lasts without being used (also the JWT's maxAge)
+ */
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * How often a session's last-seen time is written, at most
+ */
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * How long ended sessions are kept for the session list and audits
+ */
+export const SESSION_RETENTION_DAYS = 30
+
+/**
+ * When a session seen at `now` expires
+ */
+export function getSessionExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + SESSION_MAX_AGE_SECONDS * 1000)
+}
+
+/**
+ * Whether a session can still be used
+ */
+export function isSessionActive(
+  session: { revokedAt: Date | null; expiresAt: Date },
+  now: Date = new Date()
+): boolean {
+  return session.revokedAt === null && session.expiresAt > now
+}
+
+/**
+ * Whether a session's last-seen time is stale enough to write again
+ */
+export function shouldTouchSession(lastSeenAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS
+}
+
+/**
+ * Ended sessions older than this are deleted (see the cleanup-user-sessions job)
+ */
+export function getSessionRetentionCutoff(now: Date = new Date()): Date {
+  return addDays(now, -SESSION_RETENTION_DAYS)
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+/**
+ * A short, readable name for the browser a session came from
+ *
+ * @example
+ * describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) ... Chrome/120.0.0.0 Safari/537.36')
+ * // 'Chrome on Windows'
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device'
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+
+  if (browser && os) return `${browser} on ${os}`
+  return browser ?? os ?? 'Unknown device'
+}
@@ -1,4 +1,8 @@
 import { z } from 'zod'
+import { MIN_BOOKING_DURATION, MAX_BOOKING_DURATION } from './booking-resources'
+import { WEEKDAYS, MAX_SERIES_OCCURRENCES } from './recurrence'
+import { PRICE_CODE_PATTERN } from './pricing'
+import { eventEmailTemplatesSchema } from './validations/events'
 
 // ============================================
 // AUTHENTICATION SCHEMAS
@@ -25,6 +29,14 @@ export const signUpSchema = z.object({
 // BOOKING SCHEMAS
 // ============================================
 
+// Structured party order line (menu items, add-ons); names and kinds come
+// from the catalog (see resolveCatalogOrder in lib/catalog.ts)
+export const bookingLineItemSchema = z.object({
+  code: z.string().regex(PRICE_CODE_PATTERN, 'Invalid item code'),
+  variant: z.string().regex(/^[a-z0-9-]+\/[a-z0-9-]+$/, 'Invalid item variant').optional(),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(500, 'Maximum quantity is 500'),
+})
+
 export const createBookingSchema = z.object({
   title: z.string().min(3, 'Title must be at least 3 characters'),
   date: z.coerce.date(),
@@ -34,6 +46,20 @@ export const createBookingSchema = z.object({
   phone: z.string().min(10, 'Invalid phone number'),
   email: z.string().email('Invalid email address'),
   specialRequests: z.string().optional(),
+  // Booking length in minutes (defaults to the resource duration)
+  duration: z
+    .number()
+    .int()
+    .min(MIN_BOOKING_DURATION, `Minimum duration is ${MIN_BOOKING_DURATION} minutes`)
+    .max(MAX_BOOKING_DURATION, `Maximum duration is ${MAX_BOOKING_DURATION} minutes`)
+    .optional(),
+  // Rooms/areas selected by the customer (resolved against lib/booking-resources.ts)
+  resourceIds: z.array(z.string()).max(10).optional(),
+  // Party details
+  childName: z.string().max(100).optional(),
+  childAge: z.number().int().min(0).max(18).optional(),
+  parentName: z.string().max(100).optional(),
+  lineItems: z.array(bookingLineItemSchema).max(50).optional(),
   // Price tracking fields for loyalty points calculation
   totalAmount: z.number().positive().optional(),
   currency: z.string().length(3).optional(), // ISO 4217 currency code (RSD, EUR, USD, etc.)
@@ -42,7 +68,7 @@ export const createBookingSchema = z.object({
   paymentDate: z.coerce.date().optional(),
 })
 
-export const updateBookingSchema = createBookingSchema.partial().extend({
+export const updateBookingSchema = createBookingSchema.omit({ lineItems: true }).partial().extend({
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED', 'COMPLETED']).optional(),
   adminNotes: z.string().optional(),
   specialRequests: z.string().optional(),
@@ -58,6 +84,61 @@ export const rejectBookingSchema = z.object({
   reason: z.string().min(10, 'Rejection reason must be at least 10 characters'),
 })
 
+// Customer self-service changes (see cancelMyBooking / rescheduleMyBooking)
+export const cancelMyBookingSchema = z.object({
+  bookingId: z.string().cuid(),
+  reason: z.string().max(500, 'Reason must be at most 500 characters').optional(),
+})
+
+export const rescheduleMyBookingSchema = z.object({
+  bookingId: z.string().cuid(),
+  date: z.coerce.date(),
+  time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+})
+
+// Online payments (see lib/payments.ts)
+export const startCheckoutSchema = z.object({
+  bookingId: z.string().cuid(),
+  kind: z.enum(['DEPOSIT', 'BALANCE']),
+})
+
+// Recurring booking series (see lib/recurrence.ts)
+export const recurrenceSchema = z
+  .object({
+    freq: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+    interval: z.number().int().min(1, 'Interval must be at least 1').max(12, 'Maximum interval is 12'),
+    byDay: z.array(z.enum(WEEKDAYS)).max(7).optional(),
+    count: z
+      .number()
+      .int()
+      .min(2, 'A series needs at least 2 occurrences')
+      .max(MAX_SERIES_OCCURRENCES, `Maximum ${MAX_SERIES_OCCURRENCES} occurrences per series`)
+      .optional(),
+    until: z.coerce.date().optional(),
+  })
+  .refine(rule => rule.count || rule.until, {
+    message: 'Set a number of occurrences or an end date',
+  })
+
+export const createBookingSeriesSchema = z.object({
+  bookingId: z.string().cuid(),
+  recurrence: recurrenceSchema,
+  // Create the conflict-free occurrences even if some of them conflict
+  skipConflicts: z.boolean().default(false),
+})
+
+// Which occurrences of a series an operation applies to
+export const seriesScopeSchema = z.enum(['this', 'following', 'all'])
+
+// Public availability grid (query params of /api/availability)
+export const availabilityQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  days: z.coerce.number().int().min(1).max(31).default(1),
+  type: z.enum(['CAFE', 'SENSORY_ROOM', 'PLAYGROUND', 'PARTY', 'EVENT']).optional(),
+  duration: z.coerce.number().int().min(MIN_BOOKING_DURATION).max(MAX_BOOKING_DURATION).optional(),
+  resourceIds: z.array(z.string()).max(10).default([]),
+})
+
 // ============================================
 // EVENT SCHEMAS
 // ============================================
@@ -74,6 +155,8 @@ export const createEventSchema = z.object({
   category: z.string().min(2, 'Category is required'),
   image: z.string().url('Invalid image URL').or(z.literal('')).optional(),
   status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).default('DRAFT'),
+  emailTemplates: eventEmailTemplatesSchema.optional(),
+  feedbackUrl: z.string().url('Invalid feedback URL').or(z.literal('')).optional(),
 })
 
 export const updateEventSchema = createEventSchema.partial().extend({
@@ -195,9 +278,16 @@ export const importEventSchema = z.object({
 export type SignInInput = z.infer<typeof signInSchema>
 export type SignUpInput = z.infer<typeof signUpSchema>
 export type CreateBookingInput = z.infer<typeof createBookingSchema>
+export type BookingLineItemInput = z.infer<typeof bookingLineItemSchema>
 export type UpdateBookingInput = z.infer<typeof updateBookingSchema>
 export type ApproveBookingInput = z.infer<typeof approveBookingSchema>
 export type RejectBookingInput = z.infer<typeof rejectBookingSchema>
+export type RescheduleMyBookingInput = z.input<typeof rescheduleMyBookingSchema>
+export type AvailabilityQueryInput = z.input<typeof availabilityQuerySchema>
+export type StartCheckoutInput = z.infer<typeof startCheckoutSchema>
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>
+export type CreateBookingSeriesInput = z.input<typeof createBookingSeriesSchema>
+export type SeriesScope = z.infer<typeof seriesScopeSchema>
 export type CreateEventInput = z.infer<typeof createEventSchema>
 export type UpdateEventInput = z.infer<typeof updateEventSchema>
 export type ReorderEventsInput = z.infer<typeof reorderEventsSchema>
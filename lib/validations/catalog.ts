@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { CATALOG_SLUG_PATTERN } from '@/lib/catalog'
+
+// ============================================
+// CATALOG VALIDATION SCHEMAS
+// ============================================
+
+const slugSchema = z.string().regex(CATALOG_SLUG_PATTERN, 'Use lowercase letters, numbers and dashes only')
+
+export const createCatalogCategorySchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').max(60),
+  kind: z.enum(['ROOM', 'FOOD', 'BEVERAGE', 'ADDON']),
+  description: z.string().max(200).optional(),
+})
+
+// Kind is fixed once items have codes built from it
+export const updateCatalogCategorySchema = createCatalogCategorySchema.omit({ kind: true }).partial()
+
+export const catalogVariantSchema = z.object({
+  slug: slugSchema,
+  name: z.string().min(1, 'Variant name is required').max(60),
+  description: z.string().max(200).optional(),
+  isAvailable: z.boolean().default(true),
+})
+
+export const createCatalogItemSchema = z.object({
+  categoryId: z.string().cuid('Invalid category'),
+  slug: slugSchema,
+  name: z.string().min(2, 'Name must be at least 2 characters').max(60),
+  description: z.string().max(200).optional(),
+  icon: z.string().max(8).optional(),
+  priceAmount: z.number().nonnegative('Price cannot be negative').nullable().optional(),
+  priceCurrency: z.string().length(3).default('RSD'),
+  unit: z.enum(['FLAT', 'PER_GUEST']).default('PER_GUEST'),
+  isAvailable: z.boolean().default(true),
+  variants: z.array(catalogVariantSchema).max(20, 'Maximum 20 variants').default([]),
+})
+
+export const updateCatalogItemSchema = createCatalogItemSchema.omit({ categoryId: true }).partial()
+
+export type CreateCatalogCategoryInput = z.infer<typeof createCatalogCategorySchema>
+export type UpdateCatalogCategoryInput = z.infer<typeof updateCatalogCategorySchema>
+export type CatalogVariantInput = z.input<typeof catalogVariantSchema>
+export type CreateCatalogItemInput = z.input<typeof createCatalogItemSchema>
+export type UpdateCatalogItemInput = z.input<typeof updateCatalogItemSchema>
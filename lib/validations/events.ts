@@ -1,9 +1,33 @@
 import { z } from 'zod'
+import { parseRRule } from '@/lib/recurrence'
+import { OCCURRENCE_DATE_PATTERN } from '@/lib/event-occurrences'
 
 /**
  * Event Validation Schemas
  */
 
+const isValidRRule = (value: string) => {
+  try {
+    parseRRule(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Attendee email overrides; blank fields use the default (see lib/event-emails.ts)
+const eventEmailTemplateSchema = z.object({
+  subject: z.string().max(200).optional(),
+  body: z.string().max(5000).optional()
+})
+
+export const eventEmailTemplatesSchema = z.object({
+  CONFIRMATION: eventEmailTemplateSchema.optional(),
+  REMINDER: eventEmailTemplateSchema.optional(),
+  STARTING_SOON: eventEmailTemplateSchema.optional(),
+  FOLLOW_UP: eventEmailTemplateSchema.optional()
+})
+
 export const createEventSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200),
   slug: z.string().min(1, 'Slug is required').max(100),
@@ -20,7 +44,9 @@ export const createEventSchema = z.object({
   image: z.string().url().optional().nullable(),
   tags: z.array(z.string()).optional(),
   isRecurring: z.boolean().optional(),
-  recurrenceRule: z.string().optional().nullable(),
+  recurrenceRule: z.string().refine(isValidRRule, 'Invalid recurrence rule').optional().nullable(),
+  emailTemplates: eventEmailTemplatesSchema.optional(),
+  feedbackUrl: z.string().url('Enter a full link, e.g. https://...').or(z.literal('')).optional().nullable(),
   status: z.enum(['DRAFT', 'PUBLISHED', 'CANCELLED', 'COMPLETED', 'ARCHIVED']).optional()
 })
 
@@ -36,10 +62,39 @@ export const rsvpSchema = z.object({
   email: z.string().email('Invalid email'),
   phone: z.string().optional().nullable(),
   guestCount: z.number().int().positive().default(1),
-  notes: z.string().optional().nullable()
+  notes: z.string().optional().nullable(),
+  occurrenceDate: z.string().regex(OCCURRENCE_DATE_PATTERN, 'Invalid date format (YYYY-MM-DD)').optional(), // Required for recurring events
+  joinWaitlist: z.boolean().optional() // Wait for the whole party instead of taking the remaining seats
+})
+
+// Cancel or move a single occurrence of a recurring event
+export const eventOccurrenceExceptionSchema = z
+  .object({
+    occurrenceDate: z.string().regex(OCCURRENCE_DATE_PATTERN, 'Invalid date format (YYYY-MM-DD)'),
+    kind: z.enum(['CANCELLED', 'MOVED']),
+    movedDate: z.coerce.date().optional().nullable(),
+    movedTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format').optional().nullable(),
+    movedEndTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format').optional().nullable(),
+    note: z.string().max(500).optional().nullable()
+  })
+  .refine(data => data.kind !== 'MOVED' || data.movedDate, {
+    message: 'Choose the new date',
+    path: ['movedDate']
+  })
+
+// Tickets scanned at check-in, possibly queued while offline
+export const redeemTicketsSchema = z.object({
+  eventId: z.string().min(1),
+  occurrenceDate: z.string().regex(OCCURRENCE_DATE_PATTERN, 'Invalid date format (YYYY-MM-DD)'),
+  scans: z.array(z.object({
+    token: z.string().min(1).max(200),
+    scannedAt: z.coerce.date()
+  })).min(1).max(200)
 })
 
 export type CreateEventInput = z.infer<typeof createEventSchema>
 export type UpdateEventInput = z.infer<typeof updateEventSchema>
 export type ReorderEventsInput = z.infer<typeof reorderEventsSchema>
 export type RSVPInput = z.infer<typeof rsvpSchema>
+export type EventOccurrenceExceptionInput = z.input<typeof eventOccurrenceExceptionSchema>
+export type RedeemTicketsInput = z.input<typeof redeemTicketsSchema>
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { PRICE_CODE_PATTERN } from '@/lib/pricing'
 
 // ============================================
 // PRICING VALIDATION SCHEMAS
@@ -12,11 +13,24 @@ export const createPricingSchema = z.object({
   features: z.array(z.string()).min(1, 'At least one feature is required'),
   description: z.string().optional(),
   status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).default('PUBLISHED'),
+  // Structured price used by the booking pricing engine (see lib/pricing.ts)
+  priceAmount: z.number().nonnegative('Price amount cannot be negative').optional(),
+  priceCurrency: z.string().length(3).optional(),
+  code: z.string().regex(PRICE_CODE_PATTERN, 'Price code must look like room:sensory-room').optional(),
+  unit: z.enum(['FLAT', 'PER_GUEST']).default('FLAT'),
 })
 
 export const updatePricingSchema = createPricingSchema.partial().extend({
   order: z.number().int().min(0).optional(),
 })
 
+export const priceQuoteSchema = z.object({
+  items: z.array(z.string().regex(PRICE_CODE_PATTERN, 'Invalid price code')).max(50),
+  guestCount: z.number().int().min(1, 'At least 1 guest required').max(100, 'Maximum 100 guests'),
+  quantities: z.record(z.string(), z.number().int().min(1).max(500)).optional(),
+  date: z.coerce.date().optional(),
+})
+
 export type CreatePricingInput = z.infer<typeof createPricingSchema>
 export type UpdatePricingInput = z.infer<typeof updatePricingSchema>
+export type PriceQuoteInput = z.input<typeof priceQuoteSchema>
@@ -1,8 +1,6 @@
-import NextAuth from 'next-auth'
-import { authConfig } from '@/lib/auth.config'
-import { NextResponse } from 'next/server'
-
-const { auth } = NextAuth(authConfig)
+import type { NextAuthRequest } from 'next-auth'
+import { auth } from '@/lib/auth'
+import { NextResponse, type NextFetchEvent, type NextRequest } from 'next/server'
 
 // CSP configuration - allows necessary third-party services while maintaining security
 // In development, React Server Components require 'unsafe-eval' for module loading
@@ -28,13 +26,19 @@ function addSecurityHeaders(response: NextResponse, includeCache = false) {
     return response
 }
 
-export default auth((req) => {
+// Only routes that need a signed-in user read the session here. Reading it
+// runs the full jwt callback in lib/auth.ts, which checks the user and the
+// session registry in the database.
+const PROTECTED_ROUTES = ['/admin', '/profile', '/two-factor']
+
+const protectedMiddleware = auth((req: NextAuthRequest, _event: NextFetchEvent) => {
     const { nextUrl } = req
     const isLoggedIn = !!req.auth
     const userRole = req.auth?.user?.role
 
     const isAdminRoute = nextUrl.pathname.startsWith('/admin')
     const isProfileRoute = nextUrl.pathname.startsWith('/profile')
+    const isTwoFactorRoute = nextUrl.pathname.startsWith('/two-factor')
 
     // Protect admin routes
     if (isAdminRoute) {
@@ -48,12 +52,21 @@ export default auth((req) => {
             return NextResponse.redirect(new URL('/', nextUrl))
         }
 
+        // Two-factor authentication (see lib/two-factor.ts): enter a code first,
+        // or enroll first when the super admin policy requires it
+        const twoFactor = req.auth?.user?.twoFactor
+        if (twoFactor === 'pending' || twoFactor === 'setup-required') {
+            const url = new URL(twoFactor === 'pending' ? '/two-factor' : '/two-factor/setup', nextUrl)
+            url.searchParams.set('callbackUrl', nextUrl.pathname)
+            return NextResponse.redirect(url)
+        }
+
         // Admin is authorized - add security and cache control headers
         return addSecurityHeaders(NextResponse.next(), true)
     }
 
-    // Protect profile routes - require login but any user role
-    if (isProfileRoute) {
+    // Protect profile and two-factor routes - require login but any user role
+    if (isProfileRoute || isTwoFactorRoute) {
         if (!isLoggedIn) {
             // Not logged in - redirect to home
             return NextResponse.redirect(new URL('/', nextUrl))
@@ -63,12 +76,23 @@ export default auth((req) => {
         return addSecurityHeaders(NextResponse.next(), true)
     }
 
-    // Add CSP headers for all other routes
     return addSecurityHeaders(NextResponse.next())
 })
 
-// Run middleware on all routes to apply CSP headers
+export default function middleware(req: NextRequest, event: NextFetchEvent) {
+    if (PROTECTED_ROUTES.some(route => req.nextUrl.pathname.startsWith(route))) {
+        return protectedMiddleware(req, event)
+    }
+
+    // Add CSP headers for all other routes
+    return addSecurityHeaders(NextResponse.next())
+}
+
+// Run middleware on all routes to apply CSP headers. It runs on Node.js so
+// the jwt callback can turn away revoked sessions and blocked users before
+// protected pages render.
 export const config = {
+    runtime: 'nodejs',
     matcher: [
         '/((?!_next/static|_next/image|favicon.ico).*)',
     ],
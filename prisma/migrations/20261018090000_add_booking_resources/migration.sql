@@ -0,0 +1,21 @@
+-- Booking Resources Migration
+-- Bookings now occupy one or more resources (rooms, café seating, event space)
+-- and conflicts are checked per resource with real interval overlap.
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "resourceIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Backfill existing bookings with the default resources for their type
+UPDATE "Booking" SET "resourceIds" = CASE "type"
+    WHEN 'CAFE' THEN ARRAY['cafe-seating']
+    WHEN 'SENSORY_ROOM' THEN ARRAY['sensory-room']
+    WHEN 'PLAYGROUND' THEN ARRAY['sensory-room', 'cake-room']
+    WHEN 'PARTY' THEN ARRAY['cake-room']
+    WHEN 'EVENT' THEN ARRAY['event-space']
+END;
+
+-- The (scheduledAt, type) unique index assumed one booking per type and start time.
+-- Café seating holds several bookings at once, and overlapping bookings with
+-- different start times were never caught by it. Concurrent inserts are now
+-- serialized with per-resource advisory locks inside the booking transaction.
+DROP INDEX IF EXISTS "Booking_scheduledAt_type_active_idx";
@@ -0,0 +1,22 @@
+-- Booking Duration Migration
+-- Bookings store their real length instead of assuming a fixed 120 minutes.
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "duration" INTEGER NOT NULL DEFAULT 120,
+ADD COLUMN     "endsAt" TIMESTAMP(3);
+
+-- Backfill existing bookings with the default duration of their resources
+UPDATE "Booking" SET "duration" = CASE "type"
+    WHEN 'CAFE' THEN 90
+    WHEN 'SENSORY_ROOM' THEN 60
+    WHEN 'EVENT' THEN 180
+    ELSE 120
+END;
+
+UPDATE "Booking" SET "endsAt" = "scheduledAt" + ("duration" * INTERVAL '1 minute');
+
+-- AlterTable
+ALTER TABLE "Booking" ALTER COLUMN "endsAt" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Booking_scheduledAt_endsAt_idx" ON "Booking"("scheduledAt", "endsAt");
@@ -0,0 +1,23 @@
+-- Booking Series Migration
+-- Recurring bookings (e.g. weekly sensory room sessions for schools) are stored
+-- as individual occurrences linked to a series that holds the recurrence rule.
+
+-- CreateTable
+CREATE TABLE "BookingSeries" (
+    "id" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookingSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Booking_seriesId_scheduledAt_idx" ON "Booking"("seriesId", "scheduledAt");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "BookingSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
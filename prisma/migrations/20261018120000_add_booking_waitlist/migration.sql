@@ -0,0 +1,51 @@
+-- Booking Waitlist Migration
+-- Customers can queue for a fully booked slot. When a conflicting booking is
+-- rejected, cancelled or deleted the first entry receives a time-limited offer.
+
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WAITLIST_OFFER';
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "time" TEXT NOT NULL,
+    "type" "BookingType" NOT NULL,
+    "guestCount" INTEGER NOT NULL,
+    "phone" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "specialRequests" TEXT,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "resourceIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "offerToken" TEXT,
+    "offeredAt" TIMESTAMP(3),
+    "offerExpiresAt" TIMESTAMP(3),
+    "bookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_offerToken_key" ON "WaitlistEntry"("offerToken");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_status_scheduledAt_idx" ON "WaitlistEntry"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_status_offerExpiresAt_idx" ON "WaitlistEntry"("status", "offerExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_userId_idx" ON "WaitlistEntry"("userId");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
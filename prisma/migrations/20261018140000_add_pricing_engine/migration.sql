@@ -0,0 +1,16 @@
+-- Pricing Engine Migration
+-- Pricing packages with a code are line items for server-side booking
+-- quotes. The quote used for a booking's totalAmount is stored with it.
+
+-- CreateEnum
+CREATE TYPE "PriceUnit" AS ENUM ('FLAT', 'PER_GUEST');
+
+-- AlterTable
+ALTER TABLE "PricingPackage" ADD COLUMN "code" TEXT,
+ADD COLUMN "unit" "PriceUnit" NOT NULL DEFAULT 'FLAT';
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "priceQuote" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PricingPackage_code_key" ON "PricingPackage"("code");
@@ -0,0 +1,33 @@
+-- Booking Line Items Migration
+-- Party orders (rooms, menu items with quantities) and child details are
+-- stored as structured data instead of being flattened into specialRequests.
+
+-- CreateEnum
+CREATE TYPE "BookingLineItemKind" AS ENUM ('ROOM', 'FOOD', 'BEVERAGE', 'ADDON');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "childName" TEXT,
+ADD COLUMN "childAge" INTEGER,
+ADD COLUMN "parentName" TEXT;
+
+-- CreateTable
+CREATE TABLE "BookingLineItem" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "kind" "BookingLineItemKind" NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingLineItem_bookingId_idx" ON "BookingLineItem"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "BookingLineItem_kind_code_idx" ON "BookingLineItem"("kind", "code");
+
+-- AddForeignKey
+ALTER TABLE "BookingLineItem" ADD CONSTRAINT "BookingLineItem_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- Catalog Migration
+-- Rooms, menu items, drinks and extras offered in the booking forms are
+-- managed from the admin panel instead of being hard-coded.
+
+-- CreateTable
+CREATE TABLE "CatalogCategory" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "BookingLineItemKind" NOT NULL,
+    "description" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CatalogCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CatalogItem" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "icon" TEXT,
+    "priceAmount" DECIMAL(10,2),
+    "priceCurrency" VARCHAR(3) NOT NULL DEFAULT 'RSD',
+    "unit" "PriceUnit" NOT NULL DEFAULT 'PER_GUEST',
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CatalogItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CatalogVariant" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isAvailable" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "CatalogVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CatalogCategory_kind_order_idx" ON "CatalogCategory"("kind", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CatalogItem_code_key" ON "CatalogItem"("code");
+
+-- CreateIndex
+CREATE INDEX "CatalogItem_categoryId_order_idx" ON "CatalogItem"("categoryId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CatalogVariant_itemId_slug_key" ON "CatalogVariant"("itemId", "slug");
+
+-- AddForeignKey
+ALTER TABLE "CatalogItem" ADD CONSTRAINT "CatalogItem_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "CatalogCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CatalogVariant" ADD CONSTRAINT "CatalogVariant_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "CatalogItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Event Waitlist Migration
+-- Registrations past an event's capacity are put on the waitlist in order
+-- and promoted automatically when seats free up.
+
+-- AlterTable
+ALTER TABLE "EventAttendee" ADD COLUMN "waitlistPosition" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "EventAttendee_eventId_status_waitlistPosition_idx" ON "EventAttendee"("eventId", "status", "waitlistPosition");
@@ -0,0 +1,12 @@
+-- Event Seats Migration
+-- registeredCount now counts seats (guests of PENDING and CONFIRMED
+-- registrations) instead of registrations. Recount existing events;
+-- scripts/reconcile-event-registrations.mjs keeps them in sync afterwards.
+
+-- Backfill
+UPDATE "Event" e
+SET "registeredCount" = COALESCE((
+    SELECT SUM(a."guestCount")
+    FROM "EventAttendee" a
+    WHERE a."eventId" = e."id" AND a."status" IN ('PENDING', 'CONFIRMED')
+), 0);
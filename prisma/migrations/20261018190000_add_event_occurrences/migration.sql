@@ -0,0 +1,51 @@
+-- Event Occurrences Migration
+-- Recurring events are expanded from recurrenceRule. Single occurrences can
+-- be cancelled or moved, and RSVPs are made per occurrence date. Existing
+-- registrations are for the event's own date.
+
+-- CreateEnum
+CREATE TYPE "EventExceptionKind" AS ENUM ('CANCELLED', 'MOVED');
+
+-- AlterTable
+ALTER TABLE "EventAttendee" ADD COLUMN "occurrenceDate" VARCHAR(10);
+
+UPDATE "EventAttendee" a
+SET "occurrenceDate" = to_char(e."date", 'YYYY-MM-DD')
+FROM "Event" e
+WHERE a."eventId" = e."id";
+
+ALTER TABLE "EventAttendee" ALTER COLUMN "occurrenceDate" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "EventAttendee_eventId_email_key";
+
+-- DropIndex
+DROP INDEX "EventAttendee_eventId_status_waitlistPosition_idx";
+
+-- CreateTable
+CREATE TABLE "EventOccurrenceException" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "date" VARCHAR(10) NOT NULL,
+    "kind" "EventExceptionKind" NOT NULL,
+    "movedDate" TIMESTAMP(3),
+    "movedTime" TEXT,
+    "movedEndTime" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventOccurrenceException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventAttendee_eventId_occurrenceDate_email_key" ON "EventAttendee"("eventId", "occurrenceDate", "email");
+
+-- CreateIndex
+CREATE INDEX "EventAttendee_eventId_occurrenceDate_waitlistPosition_idx" ON "EventAttendee"("eventId", "occurrenceDate", "waitlistPosition");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventOccurrenceException_eventId_date_key" ON "EventOccurrenceException"("eventId", "date");
+
+-- AddForeignKey
+ALTER TABLE "EventOccurrenceException" ADD CONSTRAINT "EventOccurrenceException_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Event Ticket Check-in Migration
+-- Tickets are signed tokens derived from the attendee ID, so only the
+-- check-in needs to be stored.
+
+-- AlterTable
+ALTER TABLE "EventAttendee" ADD COLUMN "checkedInAt" TIMESTAMP(3),
+ADD COLUMN "checkedInBy" TEXT;
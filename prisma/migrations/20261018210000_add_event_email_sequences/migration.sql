@@ -0,0 +1,34 @@
+-- Event Email Sequences Migration
+-- Seated attendees get a confirmation, a reminder, a "starting soon" message
+-- and a thank-you. Deliveries are recorded so each email goes out once.
+-- Existing seated attendees were emailed on registration, so their
+-- confirmation is recorded as sent.
+
+-- CreateEnum
+CREATE TYPE "EventEmailKind" AS ENUM ('CONFIRMATION', 'REMINDER', 'STARTING_SOON', 'FOLLOW_UP');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "emailTemplates" JSONB,
+ADD COLUMN "feedbackUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "EventEmailDelivery" (
+    "id" TEXT NOT NULL,
+    "attendeeId" TEXT NOT NULL,
+    "kind" "EventEmailKind" NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventEmailDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventEmailDelivery_attendeeId_kind_key" ON "EventEmailDelivery"("attendeeId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "EventEmailDelivery" ADD CONSTRAINT "EventEmailDelivery_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "EventAttendee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill
+INSERT INTO "EventEmailDelivery" ("id", "attendeeId", "kind", "sentAt")
+SELECT 'backfill_' || "id", "id", 'CONFIRMATION', "registeredAt"
+FROM "EventAttendee"
+WHERE "status" IN ('PENDING', 'CONFIRMED');
@@ -0,0 +1,41 @@
+-- Background Jobs Migration
+-- Queue of background job runs, worked through by the scheduler endpoint
+-- (GET /api/cron/jobs). Scheduled runs carry a unique schedule key so each
+-- scheduled time runs once.
+
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "payload" JSONB,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'QUEUED',
+    "scheduleKey" TEXT,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "result" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobRun_scheduleKey_key" ON "JobRun"("scheduleKey");
+
+-- CreateIndex
+CREATE INDEX "JobRun_status_runAt_idx" ON "JobRun"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "JobRun_name_createdAt_idx" ON "JobRun"("name", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "JobRun_createdAt_idx" ON "JobRun"("createdAt");
@@ -0,0 +1,36 @@
+-- Campaign Tracking Migration
+-- Campaign emails carry a tracking pixel and tracked links, signed per
+-- recipient. Every open and click is recorded as an event; the first open
+-- and click are also kept on the delivery for per-recipient analytics.
+
+-- CreateEnum
+CREATE TYPE "CampaignEventType" AS ENUM ('OPEN', 'CLICK');
+
+-- AlterTable
+ALTER TABLE "CampaignDelivery" ADD COLUMN "openedAt" TIMESTAMP(3),
+ADD COLUMN "clickedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CampaignEvent" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "type" "CampaignEventType" NOT NULL,
+    "url" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CampaignEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignEvent_campaignId_type_idx" ON "CampaignEvent"("campaignId", "type");
+
+-- CreateIndex
+CREATE INDEX "CampaignEvent_deliveryId_idx" ON "CampaignEvent"("deliveryId");
+
+-- AddForeignKey
+ALTER TABLE "CampaignEvent" ADD CONSTRAINT "CampaignEvent_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CampaignEvent" ADD CONSTRAINT "CampaignEvent_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "CampaignDelivery"("id") ON DELETE CASCADE ON UPDATE CASCADE;
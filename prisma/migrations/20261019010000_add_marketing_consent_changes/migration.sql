@@ -0,0 +1,33 @@
+-- Marketing Consent History Migration
+-- Campaign emails link to a preference center and support one-click
+-- unsubscribe. Every change to a customer's email or SMS marketing consent
+-- is recorded with where it was made.
+
+-- CreateEnum
+CREATE TYPE "MarketingChannel" AS ENUM ('EMAIL', 'SMS');
+
+-- CreateEnum
+CREATE TYPE "MarketingConsentSource" AS ENUM ('ADMIN', 'PREFERENCE_CENTER', 'ONE_CLICK_UNSUBSCRIBE');
+
+-- CreateTable
+CREATE TABLE "MarketingConsentChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "MarketingChannel" NOT NULL,
+    "optedIn" BOOLEAN NOT NULL,
+    "source" "MarketingConsentSource" NOT NULL,
+    "campaignId" TEXT,
+    "changedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketingConsentChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketingConsentChange_userId_createdAt_idx" ON "MarketingConsentChange"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MarketingConsentChange_campaignId_idx" ON "MarketingConsentChange"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "MarketingConsentChange" ADD CONSTRAINT "MarketingConsentChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- SMS Messages Migration
+-- SMS campaigns and booking notices are sent through the configured SMS
+-- provider. Every message is recorded with its delivery status; numbers
+-- that reply STOP are kept in an opt-out list. Campaign deliveries get a
+-- channel so BOTH campaigns can email and text the same customer.
+
+-- AlterEnum
+ALTER TYPE "MarketingConsentSource" ADD VALUE 'SMS_KEYWORD';
+
+-- CreateEnum
+CREATE TYPE "SmsStatus" AS ENUM ('QUEUED', 'SENT', 'DELIVERED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "CampaignDelivery" ADD COLUMN "channel" "MarketingChannel" NOT NULL DEFAULT 'EMAIL',
+ADD COLUMN "phone" TEXT;
+
+-- DropIndex
+DROP INDEX "CampaignDelivery_campaignId_userId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampaignDelivery_campaignId_userId_channel_key" ON "CampaignDelivery"("campaignId", "userId", "channel");
+
+-- CreateTable
+CREATE TABLE "SmsMessage" (
+    "id" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "encoding" TEXT NOT NULL,
+    "segments" INTEGER NOT NULL,
+    "status" "SmsStatus" NOT NULL DEFAULT 'QUEUED',
+    "provider" TEXT NOT NULL,
+    "providerRef" TEXT,
+    "error" TEXT,
+    "userId" TEXT,
+    "campaignId" TEXT,
+    "bookingId" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SmsMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SmsOptOut" (
+    "phone" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SmsOptOut_pkey" PRIMARY KEY ("phone")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SmsMessage_providerRef_key" ON "SmsMessage"("providerRef");
+
+-- CreateIndex
+CREATE INDEX "SmsMessage_status_createdAt_idx" ON "SmsMessage"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SmsMessage_userId_idx" ON "SmsMessage"("userId");
+
+-- CreateIndex
+CREATE INDEX "SmsMessage_campaignId_idx" ON "SmsMessage"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "SmsMessage_bookingId_idx" ON "SmsMessage"("bookingId");
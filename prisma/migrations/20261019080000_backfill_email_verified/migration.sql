@@ -0,0 +1,14 @@
+-- Email Verification Backfill Migration
+-- Accounts that signed up with a password before sign-up emails a
+-- verification link never got one, so requiring a verified email would
+-- lock them out of booking. Count them as verified. Accounts still holding
+-- a verification token signed up since and have to follow their link.
+
+-- Backfill
+UPDATE "User" u
+SET "emailVerified" = CURRENT_TIMESTAMP
+WHERE u."emailVerified" IS NULL
+  AND u."password" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "EmailVerificationToken" t WHERE t."userId" = u."id"
+  );
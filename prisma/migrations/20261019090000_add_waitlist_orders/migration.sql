@@ -0,0 +1,9 @@
+-- Waitlist Orders Migration
+-- Waitlist entries keep the party details and menu order from the booking
+-- form, so a claimed offer becomes a booking priced like any other.
+
+-- AlterTable
+ALTER TABLE "WaitlistEntry" ADD COLUMN     "childName" TEXT,
+ADD COLUMN     "childAge" INTEGER,
+ADD COLUMN     "parentName" TEXT,
+ADD COLUMN     "orderItems" JSONB NOT NULL DEFAULT '[]';
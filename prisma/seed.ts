@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client'
 import { hashPassword } from '../lib/password'
+import { getCatalogCode } from '../lib/catalog'
 
 const prisma = new PrismaClient()
 
@@ -78,6 +79,151 @@ async function main() {
     }
   }
 
+  // Seed the booking price list (see lib/pricing.ts)
+  log.info('\n💰 Seeding booking price list...')
+
+  const priceList = [
+    { code: 'kids:up-to-10', name: 'Up to 10 Kids', category: 'PLAYGROUND', amount: 1000, unit: 'FLAT' },
+    { code: 'kids:up-to-20', name: 'Up to 20 Kids', category: 'PLAYGROUND', amount: 2000, unit: 'FLAT' },
+    { code: 'kids:up-to-30', name: 'Up to 30 Kids', category: 'PLAYGROUND', amount: 3000, unit: 'FLAT' },
+    { code: 'duration:30-min', name: '30 Minutes', category: 'PLAYGROUND', amount: 1000, unit: 'FLAT' },
+    { code: 'duration:45-min', name: '45 Minutes', category: 'PLAYGROUND', amount: 1500, unit: 'FLAT' },
+  ] as const
+
+  for (const [index, item] of priceList.entries()) {
+    const existingItem = await prisma.pricingPackage.findUnique({
+      where: { code: item.code },
+    })
+
+    if (!existingItem) {
+      await prisma.pricingPackage.create({
+        data: {
+          code: item.code,
+          name: item.name,
+          category: item.category,
+          price: `${item.amount} RSD`,
+          priceAmount: item.amount,
+          priceCurrency: 'RSD',
+          unit: item.unit,
+          features: ['Charged once per booking'],
+          order: 1000 + index,
+        },
+      })
+      log.info(`✅ Created price item ${item.code}`)
+    } else {
+      log.warn(`⚠️  Price item ${item.code} already exists. Skipping...`)
+    }
+  }
+
+  // Seed the booking catalog (see lib/catalog.ts)
+  log.info('\n🍕 Seeding booking catalog...')
+
+  const catalog = [
+    {
+      name: 'Rooms',
+      kind: 'ROOM',
+      unit: 'FLAT',
+      items: [
+        { slug: 'cake-room', name: 'Cake Room', icon: '🎂', amount: 4000 },
+        { slug: '270-room', name: '270 Room', icon: '🎮', amount: 5000 },
+        { slug: 'slide-room', name: 'Slide Room', icon: '🛝', amount: 6000 },
+        { slug: 'sensory-room', name: 'Sensory Room', icon: '✨', amount: 5000 },
+        { slug: 'mini-disco-room', name: 'Mini Disco Room', icon: '🪩', amount: 4000 },
+      ],
+    },
+    {
+      name: 'Food',
+      kind: 'FOOD',
+      unit: 'PER_GUEST',
+      items: [
+        {
+          slug: 'pizza', name: 'Pizza', icon: '🍕', description: 'Fresh baked pizza', amount: 350,
+          variants: [
+            { slug: 'kfc', name: 'KFC', description: 'KFC style pizza' },
+            { slug: 'la-strega', name: 'La Strega', description: 'La Strega pizza' },
+          ],
+        },
+        {
+          slug: 'pasta', name: 'Pasta', icon: '🍝', description: 'Kid-friendly pasta dishes', amount: 300,
+          variants: [
+            { slug: 'pastara', name: 'Pastara', description: 'Pastara style pasta' },
+            { slug: 'la-strega', name: 'La Strega', description: 'La Strega pasta' },
+          ],
+        },
+        { slug: 'sandwiches', name: 'Sandwiches', icon: '🥪', description: 'Assorted sandwiches', amount: 200 },
+        {
+          slug: 'chicken-nuggets', name: 'Chicken Nuggets', icon: '🍗', description: 'Crispy chicken nuggets', amount: 300,
+          variants: [
+            { slug: 'kfc', name: 'KFC', description: 'KFC chicken nuggets' },
+          ],
+        },
+        { slug: 'fries', name: 'French Fries', icon: '🍟', description: 'Golden french fries', amount: 150 },
+        { slug: 'fruit-platter', name: 'Fruit Platter', icon: '🍇', description: 'Fresh seasonal fruits', amount: 150 },
+        { slug: 'sweets', name: 'Sweets & Candy', icon: '🍬', description: 'Assorted sweets and candy', amount: 100 },
+        { slug: 'birthday-cake', name: 'Birthday Cake', icon: '🎂', description: 'Custom birthday cake', amount: 250 },
+      ],
+    },
+    {
+      name: 'Beverages',
+      kind: 'BEVERAGE',
+      unit: 'PER_GUEST',
+      items: [
+        { slug: 'orange-juice', name: 'Orange Juice', icon: '🍊', description: 'Fresh orange juice', amount: 120 },
+        { slug: 'apple-juice', name: 'Apple Juice', icon: '🍎', description: 'Fresh apple juice', amount: 120 },
+        { slug: 'lemonade', name: 'Lemonade', icon: '🍋', description: 'Homemade lemonade', amount: 120 },
+        { slug: 'water', name: 'Water', icon: '💧', description: 'Still & sparkling water', amount: 60 },
+        { slug: 'soft-drinks', name: 'Soft Drinks', icon: '🥤', description: 'Assorted soft drinks', amount: 100 },
+        { slug: 'milkshakes', name: 'Milkshakes', icon: '🥛', description: 'Chocolate, vanilla, strawberry', amount: 200 },
+        { slug: 'hot-chocolate', name: 'Hot Chocolate', icon: '☕', description: 'Warm hot chocolate', amount: 150 },
+      ],
+    },
+    {
+      name: 'Extras',
+      kind: 'ADDON',
+      unit: 'PER_GUEST',
+      items: [
+        { slug: 'cake-beverages', name: 'Cake + Beverages', icon: '🎂🥤', description: 'Cake and drinks for every guest', amount: 400 },
+      ],
+    },
+  ] as const
+
+  for (const [categoryIndex, categoryData] of catalog.entries()) {
+    const existingCategory = await prisma.catalogCategory.findFirst({
+      where: { kind: categoryData.kind },
+    })
+
+    if (existingCategory) {
+      log.warn(`⚠️  Catalog category ${categoryData.name} already exists. Skipping...`)
+      continue
+    }
+
+    await prisma.catalogCategory.create({
+      data: {
+        name: categoryData.name,
+        kind: categoryData.kind,
+        order: categoryIndex,
+        items: {
+          create: categoryData.items.map((item, index) => ({
+            code: getCatalogCode(categoryData.kind, item.slug),
+            name: item.name,
+            description: 'description' in item ? item.description : undefined,
+            icon: item.icon,
+            priceAmount: item.amount,
+            unit: categoryData.unit,
+            order: index,
+            variants: {
+              create: ('variants' in item ? item.variants : []).map((variant, variantIndex) => ({
+                ...variant,
+                order: variantIndex,
+              })),
+            },
+          })),
+        },
+      },
+    })
+    log.info(`✅ Created catalog category ${categoryData.name}`)
+  }
+
   log.info('\n✨ Seed completed successfully!')
 }
 
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+/**
+ * Recompute Event.registeredCount from EventAttendee rows
+ * Seats held = guests of PENDING and CONFIRMED registrations (see lib/event-capacity.ts)
+ *
+ * Safe to run on a schedule (e.g. nightly cron) while registrations are open:
+ * each event is recounted under the same lock registerForEvent uses.
+ *
+ * Run with: node scripts/reconcile-event-registrations.mjs [--dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+
+// Load environment variables
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+config({ path: join(__dirname, '..', '.env.local') })
+
+const prisma = new PrismaClient()
+const dryRun = process.argv.includes('--dry-run')
+
+async function reconcileEventRegistrations() {
+  console.log(`🔄 Reconciling event registrations${dryRun ? ' (dry run)' : ''}...\n`)
+
+  try {
+    const events = await prisma.event.findMany({
+      select: { id: true, title: true }
+    })
+
+    let fixed = 0
+    let failed = 0
+
+    for (const event of events) {
+      try {
+        const result = await prisma.$transaction(async (tx) => {
+          const lockKey = `event:${event.id}`
+          await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`
+
+          const [current, seats] = await Promise.all([
+            tx.event.findUnique({ where: { id: event.id }, select: { registeredCount: true } }),
+            tx.eventAttendee.aggregate({
+              where: { eventId: event.id, status: { in: ['PENDING', 'CONFIRMED'] } },
+              _sum: { guestCount: true }
+            })
+          ])
+
+          const seatsTaken = seats._sum.guestCount ?? 0
+          if (!current || current.registeredCount === seatsTaken) {
+            return null
+          }
+
+          if (!dryRun) {
+            await tx.event.update({
+              where: { id: event.id },
+              data: { registeredCount: seatsTaken }
+            })
+          }
+
+          return { from: current.registeredCount, to: seatsTaken }
+        })
+
+        if (result) {
+          console.log(`✅ ${event.title}: ${result.from} → ${result.to} seats`)
+          fixed++
+        }
+      } catch (error) {
+        console.log(`❌ Error reconciling ${event.title}:`, error.message)
+        failed++
+      }
+    }
+
+    console.log(`\n📊 Summary:`)
+    console.log(`   ✅ ${dryRun ? 'Would fix' : 'Fixed'}: ${fixed}`)
+    console.log(`   ❌ Failed: ${failed}`)
+    console.log(`   📦 Total events: ${events.length}`)
+
+    if (failed > 0) {
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error('❌ Error during reconciliation:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+reconcileEventRegistrations()
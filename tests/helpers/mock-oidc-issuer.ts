@@ -0,0 +1,215 @@
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto'
+import { createServer, type IncomingMessage, type Server } from 'http'
+
+/**
+ * Mock OpenID Connect Issuer
+ *
+ * A minimal local identity provider for testing social sign-in end to end
+ * without Google or Facebook. Its sign-in page is a form where the test (or
+ * a developer) types the identity to sign in as, including whether the
+ * email is verified.
+ *
+ * Start it, then run the app against it:
+ *   npx tsx tests/helpers/mock-oidc-issuer.ts          # http://localhost:9400
+ *   OAUTH_MOCK_ISSUER=http://localhost:9400 npm run dev
+ *
+ * The app registers it as the "mock-oidc" provider (see lib/auth.ts). Any
+ * client ID and secret are accepted; PKCE is checked.
+ */
+
+export interface MockOidcIdentity {
+  sub: string
+  email: string
+  email_verified: boolean
+  name?: string
+}
+
+interface PendingCode {
+  identity: MockOidcIdentity
+  clientId: string
+  redirectUri: string
+  codeChallenge: string | null
+  nonce: string | null
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url')
+
+function signJwt(claims: Record<string, unknown>, privateKey: KeyObject, kid: string): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }))
+  const payload = base64url(JSON.stringify(claims))
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey)
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+async function readBody(request: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'))
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`)
+
+function renderSignInPage(params: URLSearchParams): string {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('')
+
+  return `<!doctype html>
+<html>
+  <head><title>Mock OIDC Sign In</title></head>
+  <body>
+    <h1>Mock OIDC Sign In</h1>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Subject <input name="sub" required></label></p>
+      <p><label>Email <input name="email" type="email" required></label></p>
+      <p><label>Name <input name="name"></label></p>
+      <p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`
+}
+
+/**
+ * Start the issuer
+ * @returns Its URL (the issuer identifier) and a function to stop it
+ */
+export async function startMockOidcIssuer(port = 9400): Promise<{ issuer: string; close: () => Promise<void> }> {
+  const issuer = `http://localhost:${port}`
+  const kid = randomBytes(8).toString('hex')
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const codes = new Map<string, PendingCode>()
+  const accessTokens = new Map<string, MockOidcIdentity>()
+
+  const server: Server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', issuer)
+    const json = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+      response.end(JSON.stringify(body))
+    }
+
+    try {
+      if (request.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+        return json(200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+          code_challenge_methods_supported: ['S256'],
+          scopes_supported: ['openid', 'email', 'profile'],
+        })
+      }
+
+      if (request.method === 'GET' && url.pathname === '/jwks') {
+        return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] })
+      }
+
+      if (request.method === 'GET' && url.pathname === '/authorize') {
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+        return response.end(renderSignInPage(url.searchParams))
+      }
+
+      if (request.method === 'POST' && url.pathname === '/authorize') {
+        const form = await readBody(request)
+        const redirectUri = form.get('redirect_uri')
+        if (!redirectUri || !form.get('client_id')) {
+          return json(400, { error: 'invalid_request' })
+        }
+
+        const code = randomBytes(16).toString('hex')
+        codes.set(code, {
+          identity: {
+            sub: form.get('sub') || '',
+            email: form.get('email') || '',
+            email_verified: form.get('email_verified') === 'true',
+            name: form.get('name') || undefined,
+          },
+          clientId: form.get('client_id') || '',
+          redirectUri,
+          codeChallenge: form.get('code_challenge'),
+          nonce: form.get('nonce'),
+        })
+
+        const location = new URL(redirectUri)
+        location.searchParams.set('code', code)
+        const state = form.get('state')
+        if (state) {
+          location.searchParams.set('state', state)
+        }
+        response.writeHead(302, { Location: location.toString() })
+        return response.end()
+      }
+
+      if (request.method === 'POST' && url.pathname === '/token') {
+        const form = await readBody(request)
+        const pending = codes.get(form.get('code') || '')
+        codes.delete(form.get('code') || '')
+
+        if (!pending || pending.redirectUri !== form.get('redirect_uri')) {
+          return json(400, { error: 'invalid_grant' })
+        }
+        if (pending.codeChallenge) {
+          const verifier = form.get('code_verifier') || ''
+          if (base64url(createHash('sha256').update(verifier).digest()) !== pending.codeChallenge) {
+            return json(400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+          }
+        }
+
+        const now = Math.floor(Date.now() / 1000)
+        const accessToken = randomBytes(16).toString('hex')
+        accessTokens.set(accessToken, pending.identity)
+
+        return json(200, {
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: 3600,
+          scope: 'openid email profile',
+          id_token: signJwt(
+            {
+              iss: issuer,
+              aud: pending.clientId,
+              iat: now,
+              exp: now + 3600,
+              ...(pending.nonce ? { nonce: pending.nonce } : {}),
+              ...pending.identity,
+            },
+            privateKey,
+            kid
+          ),
+        })
+      }
+
+      if (request.method === 'GET' && url.pathname === '/userinfo') {
+        const identity = accessTokens.get((request.headers.authorization || '').replace(/^Bearer /, ''))
+        return identity ? json(200, identity) : json(401, { error: 'invalid_token' })
+      }
+
+      json(404, { error: 'not_found' })
+    } catch (error) {
+      json(500, { error: 'server_error', error_description: String(error) })
+    }
+  })
+
+  await new Promise<void>(resolve => server.listen(port, resolve))
+
+  return {
+    issuer,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  }
+}
+
+// Run standalone: npx tsx tests/helpers/mock-oidc-issuer.ts [port]
+if (process.argv[1]?.endsWith('mock-oidc-issuer.ts')) {
+  startMockOidcIssuer(Number(process.argv[2]) || 9400).then(({ issuer }) => {
+    console.warn(`Mock OIDC issuer listening on ${issuer}`)
+  })
+}
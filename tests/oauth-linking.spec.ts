@@ -0,0 +1,125 @@
+import { test, expect, type Page } from '@playwright/test'
+import type { MockOidcIdentity } from './helpers/mock-oidc-issuer'
+
+/**
+ * Social Sign-In E2E Tests
+ *
+ * Signs in through the local mock OpenID Connect issuer, which the app
+ * treats like Google or Facebook. Start it and point the app at it first:
+ *   npx tsx tests/helpers/mock-oidc-issuer.ts
+ *   OAUTH_MOCK_ISSUER=http://localhost:9400 npm run dev
+ *   OAUTH_MOCK_ISSUER=http://localhost:9400 npx playwright test oauth-linking
+ *
+ * Covers:
+ * - Creating an account for a new identity
+ * - Linking to an existing account by verified email, keeping its history
+ *   and clearing the password of an account that never verified it
+ * - Refusing to link by an unverified email
+ * - Connected accounts on the profile
+ */
+
+test.skip(!process.env.OAUTH_MOCK_ISSUER, 'Set OAUTH_MOCK_ISSUER to run against the mock OIDC issuer')
+
+const unique = () => `${Date.now()}.${Math.floor(Math.random() * 1000)}`
+
+async function signInWithMockOidc(page: Page, identity: MockOidcIdentity) {
+  await page.goto('/')
+  await page.getByRole('button', { name: /sign in/i }).first().click()
+  await page.getByRole('button', { name: /continue with mock oidc/i }).click()
+
+  // The issuer's sign-in form
+  await expect(page.getByRole('heading', { name: /mock oidc sign in/i })).toBeVisible()
+  await page.getByLabel('Subject').fill(identity.sub)
+  await page.getByLabel('Email', { exact: true }).fill(identity.email)
+  await page.getByLabel('Name').fill(identity.name || '')
+  await page.getByLabel('Email verified').setChecked(identity.email_verified)
+  await page.getByRole('button', { name: 'Sign in' }).click()
+}
+
+async function signUpWithPassword(page: Page, user: { name: string; email: string; password: string }) {
+  await page.goto('/')
+  await page.getByRole('button', { name: /sign up/i }).first().click()
+  await page.getByLabel(/name/i).fill(user.name)
+  await page.getByLabel(/email/i).fill(user.email)
+  await page.getByLabel(/^password/i).fill(user.password)
+  await page.getByRole('button', { name: /sign up/i }).last().click()
+  await expect(page.getByRole('heading', { name: /sign up/i })).toBeHidden({ timeout: 10000 })
+}
+
+test.describe('Social Sign-In', () => {
+  test('should create an account for a new identity', async ({ page }) => {
+    const id = unique()
+    await signInWithMockOidc(page, {
+      sub: `new-${id}`,
+      email: `oidc.new.${id}@example.com`,
+      email_verified: true,
+      name: 'Oidc Newcomer',
+    })
+
+    await expect(page.getByRole('button', { name: /user menu/i })).toContainText('Oidc Newcomer')
+  })
+
+  test('should sign in to the same account with the same identity', async ({ page, context }) => {
+    const id = unique()
+    const identity = { sub: `again-${id}`, email: `oidc.again.${id}@example.com`, email_verified: true, name: 'Oidc Again' }
+
+    await signInWithMockOidc(page, identity)
+    await expect(page.getByRole('button', { name: /user menu/i })).toBeVisible()
+
+    await context.clearCookies()
+    await signInWithMockOidc(page, { ...identity, name: 'Renamed At Provider' })
+
+    // Still the account created the first time
+    await expect(page.getByRole('button', { name: /user menu/i })).toContainText('Oidc Again')
+  })
+
+  test('should link to an existing account with the same verified email', async ({ page, context }) => {
+    const id = unique()
+    const user = { name: 'Password Customer', email: `oidc.link.${id}@example.com`, password: 'SecurePass123!' }
+
+    await signUpWithPassword(page, user)
+    await context.clearCookies()
+
+    await signInWithMockOidc(page, { sub: `link-${id}`, email: user.email, email_verified: true, name: 'Other Name' })
+
+    // Signed in as the existing user rather than a duplicate
+    await expect(page.getByRole('button', { name: /user menu/i })).toContainText(user.name)
+
+    await page.goto('/profile')
+    await expect(page.getByRole('heading', { name: /connected accounts/i })).toBeVisible()
+    await expect(page.getByText(user.email).last()).toBeVisible()
+    await expect(page.getByRole('button', { name: 'Disconnect' })).toBeVisible()
+
+    // The address was never verified, so the password chosen at sign-up no longer works
+    await expect(page.getByText(/no password set/i)).toBeVisible()
+  })
+
+  test('should refuse to link by an unverified email', async ({ page, context }) => {
+    const id = unique()
+    const user = { name: 'Careful Customer', email: `oidc.unverified.${id}@example.com`, password: 'SecurePass123!' }
+
+    await signUpWithPassword(page, user)
+    await context.clearCookies()
+
+    await signInWithMockOidc(page, { sub: `unverified-${id}`, email: user.email, email_verified: false })
+
+    await expect(page.getByText(/an account with this email already exists/i)).toBeVisible()
+    await expect(page.getByRole('button', { name: /user menu/i })).toHaveCount(0)
+  })
+
+  test('should not disconnect the only way to sign in', async ({ page }) => {
+    const id = unique()
+    await signInWithMockOidc(page, {
+      sub: `only-${id}`,
+      email: `oidc.only.${id}@example.com`,
+      email_verified: true,
+      name: 'Only Oidc',
+    })
+    await expect(page.getByRole('button', { name: /user menu/i })).toBeVisible()
+
+    await page.goto('/profile')
+    await page.getByRole('button', { name: 'Disconnect' }).click()
+
+    await expect(page.getByText(/set a password before disconnecting/i)).toBeVisible()
+  })
+})
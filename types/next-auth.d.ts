@@ -1,15 +1,20 @@
 import { type DefaultSession } from 'next-auth'
+import type { TwoFactorStatus } from '@/lib/two-factor'
 
 declare module 'next-auth' {
   interface User {
     role: 'USER' | 'ADMIN' | 'SUPER_ADMIN'
+    sessionVersion?: number
   }
 
   interface Session {
     user: {
       id: string
       role: 'USER' | 'ADMIN' | 'SUPER_ADMIN'
+      hasVerifiedEmail: boolean
+      twoFactor: TwoFactorStatus
     } & DefaultSession['user']
+    sessionId?: string // This session's UserSession row (see lib/user-sessions.ts)
   }
 }
 
@@ -17,5 +22,10 @@ declare module 'next-auth/jwt' {
   interface JWT {
     id: string
     role: 'USER' | 'ADMIN' | 'SUPER_ADMIN'
+    sessionVersion?: number // User.sessionVersion when the session started
+    hasVerifiedEmail?: boolean
+    twoFactor?: TwoFactorStatus // Where this session stands with two-factor authentication (see lib/two-factor.ts)
+    twoFactorVerified?: boolean // This session entered a code or came from a trusted device
+    sessionId?: string // UserSession row for this session (see lib/user-sessions.ts)
   }
 }